@@ -1,6 +1,6 @@
 
 import React, { useState, lazy, Suspense, useEffect, useMemo, useCallback } from 'react';
-import { TabID, StudyRef, DailyTaskType } from './types';
+import { TabID, StudyRef, DailyTaskType, LiteralnessCard } from './types';
 import Header from './components/Header';
 import SideBar from './components/SideBar';
 import { useSettings } from './contexts/SettingsContext';
@@ -11,6 +11,10 @@ import GalaxyBackground from './components/GalaxyBackground';
 import LoadingState from './components/LoadingState';
 import GoogleDriveSync from './components/GoogleDriveSync';
 import QRCodeModal from './components/QRCodeModal';
+import PinLockScreen from './components/PinLockScreen';
+import SearchPalette from './components/SearchPalette';
+import { useAutoLock } from './hooks/useAutoLock';
+import { useSearchIndex } from './hooks/useSearchIndex';
 import { 
   BoltIcon, SearchIcon, CalendarIcon, BrainIcon, ClipboardDocumentCheckIcon, 
   GamepadIcon, PlusIcon, ListBulletIcon, GraphIcon, ChartBarIcon, TrophyIcon, 
@@ -81,7 +85,7 @@ const NAV_ICONS: Record<TabID, React.ReactNode> = {
 
 export const App: React.FC = () => {
     // Contexts
-    const { settings, updateSettings, requestNotificationPermission } = useSettings();
+    const { settings, isLoaded: isSettingsLoaded, updateSettings, requestNotificationPermission } = useSettings();
     const questions = useQuestionState();
     const flashcards = useFlashcardState();
     
@@ -99,6 +103,8 @@ export const App: React.FC = () => {
     const [isDockHidden, setIsDockHidden] = useState(false);
     const [isQrModalOpen, setIsQrModalOpen] = useState(false);
     const [isSyncModalOpen, setIsSyncModalOpen] = useState(false);
+    const [isSearchOpen, setIsSearchOpen] = useState(false);
+    const searchRevision = useSearchIndex();
     const [isSplashVisible, setIsSplashVisible] = useState(true);
     const [splashKpis, setSplashKpis] = useState({ 
         questionsDone: 0, 
@@ -108,6 +114,22 @@ export const App: React.FC = () => {
         lastSessions: [] 
     });
 
+    // PIN Vault: começa bloqueado; libera sozinho se não houver PIN configurado
+    const [isLocked, setIsLocked] = useState(true);
+    const [hasUnlocked, setHasUnlocked] = useState(false);
+    const isPinActive = !!settings.isPinLockEnabled && !!settings.pinHash;
+
+    useEffect(() => {
+        if (isSettingsLoaded && !isPinActive) setIsLocked(false);
+    }, [isSettingsLoaded, isPinActive]);
+
+    const handleUnlock = useCallback(() => {
+        setIsLocked(false);
+        setHasUnlocked(true);
+    }, []);
+
+    useAutoLock(isPinActive && !isLocked, settings.autoLockMinutes ?? 5, () => setIsLocked(true));
+
     // PWA Logic
     const [isOnline, setIsOnline] = useState(navigator.onLine);
     const [deferredPrompt, setDeferredPrompt] = useState<any>(null);
@@ -129,6 +151,11 @@ export const App: React.FC = () => {
                 e.preventDefault();
                 toggleSidebar();
             }
+            // Ctrl+K / Cmd+K: busca global
+            if ((e.metaKey || e.ctrlKey) && e.key.toLowerCase() === 'k') {
+                e.preventDefault();
+                setIsSearchOpen(prev => !prev);
+            }
         };
         window.addEventListener('keydown', handleKeyDown);
         return () => window.removeEventListener('keydown', handleKeyDown);
@@ -214,17 +241,33 @@ export const App: React.FC = () => {
         }
     };
 
+    // Cada tipo de conteúdo tem sua aba; o LiteralnessView só abre cards do próprio tipo
+    const handleOpenLawCard = (card: LiteralnessCard) => {
+        setActiveTab(card.contentType === 'LAW_NORM' ? 'normas' : card.contentType === 'LAW_JURIS' ? 'jurisprudencia' : 'literalness');
+        setActiveStudyRef({ sourceType: 'LEI_SECA', target: { cardId: card.id }, label: card.article });
+    };
+
     // --- RENDER ---
 
+    if (!isSettingsLoaded) {
+        return <LoadingState message="Carregando..." className="h-screen bg-bunker-950" />;
+    }
+
+    // Na abertura nada é montado antes do PIN; no auto-lock a tela cobre o app e preserva a sessão em andamento
+    const lockOverlay = isPinActive && isLocked ? <PinLockScreen onUnlock={handleUnlock} /> : null;
+    if (lockOverlay && !hasUnlocked) {
+        return lockOverlay;
+    }
+
     if (isSplashVisible) {
-        return <SplashView 
+        return <>{lockOverlay}<SplashView 
             onStartApp={(tab) => {
                 setIsSplashVisible(false);
                 if (tab) setActiveTab(tab);
             }} 
             kpis={splashKpis} 
             onOpenSyncModal={() => setIsSyncModalOpen(true)}
-        />;
+        /></>;
     }
 
     const activeTabInfo = {
@@ -285,6 +328,7 @@ export const App: React.FC = () => {
                     onInstallClick={handleInstallClick}
                     onToggleSidebar={toggleSidebar}
                     isSidebarOpen={isSidebarOpen}
+                    onOpenSearch={() => setIsSearchOpen(true)}
                 />
 
                 <main className="flex-1 overflow-y-auto overflow-x-hidden relative z-0 custom-scrollbar scroll-smooth p-4 pb-6 md:p-6 md:pb-6">
@@ -314,7 +358,9 @@ export const App: React.FC = () => {
             </div>
             
             <GoogleDriveSync isOpen={isSyncModalOpen} onClose={() => setIsSyncModalOpen(false)} />
+            <SearchPalette isOpen={isSearchOpen} onClose={() => setIsSearchOpen(false)} revision={searchRevision} onOpenLawCard={handleOpenLawCard} />
             <QRCodeModal isOpen={isQrModalOpen} onClose={() => setIsQrModalOpen(false)} url={window.location.href} />
+            {lockOverlay}
         </div>
     );
 };
@@ -0,0 +1,180 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import ReactDOM from 'react-dom';
+import { UploadIcon, ArrowPathIcon } from './icons';
+import { backupService } from '../services/backupService';
+import { BACKUP_GROUP_LABELS, BackupChangeKind, BackupDiff, BackupGroup, matchesFilter, SelectiveRestoreFilter } from '../services/backupDiff';
+
+interface BackupRestoreWizardProps {
+    isOpen: boolean;
+    backupData: any;
+    report: string;
+    valid: boolean;
+    onClose: () => void;
+    onFullRestore: () => void;
+}
+
+const GROUPS = Object.keys(BACKUP_GROUP_LABELS) as BackupGroup[];
+const KIND_LABELS: Record<BackupChangeKind, string> = { added: 'Novos', changed: 'Alterados', removed: 'Ausentes no backup' };
+const TOP_FACETS = 12;
+
+const toggle = <T,>(list: T[], value: T): T[] => list.includes(value) ? list.filter(v => v !== value) : [...list, value];
+
+const topEntries = (counts: Record<string, number>) => Object.entries(counts).sort((a, b) => b[1] - a[1]).slice(0, TOP_FACETS);
+
+/**
+ * Assistente de restauração: mostra o que o backup mudaria (por store, disciplina, lei e litRef)
+ * e permite restaurar só uma parte, sem apagar o restante.
+ */
+const BackupRestoreWizard: React.FC<BackupRestoreWizardProps> = ({ isOpen, backupData, report, valid, onClose, onFullRestore }) => {
+    const [diff, setDiff] = useState<BackupDiff | null>(null);
+    const [isApplying, setIsApplying] = useState(false);
+    const [filter, setFilter] = useState<SelectiveRestoreFilter>({
+        groups: GROUPS.filter(g => g !== 'settings'),
+        kinds: ['added', 'changed'],
+        subjects: [],
+        litRefs: [],
+        lawIds: [],
+        progressOnly: false
+    });
+    const [litRefQuery, setLitRefQuery] = useState('');
+
+    useEffect(() => {
+        if (!isOpen || !valid) return;
+        setDiff(null);
+        backupService.previewRestore(backupData).then(setDiff).catch(e => {
+            console.error('[Restore] Preview failed', e);
+            alert('Não foi possível comparar o backup com os dados atuais.');
+        });
+    }, [isOpen, valid, backupData]);
+
+    const selectedCount = useMemo(() => diff ? diff.changes.filter(c => matchesFilter(c, filter)).length : 0, [diff, filter]);
+
+    const litRefMatches = useMemo(() => {
+        if (!diff) return [];
+        const q = litRefQuery.trim().toLowerCase();
+        const entries = Object.entries(diff.byLitRef).filter(([ref]) => !q || ref.includes(q));
+        return entries.sort((a, b) => b[1] - a[1]).slice(0, TOP_FACETS);
+    }, [diff, litRefQuery]);
+
+    const handleSelectiveRestore = async () => {
+        if (selectedCount === 0) return;
+        if (!window.confirm(`Aplicar ${selectedCount} alteração(ões) do backup? Os demais dados atuais serão mantidos.`)) return;
+        setIsApplying(true);
+        const result = await backupService.restoreSelective(backupData, filter);
+        setIsApplying(false);
+        alert(result.message);
+        if (result.success) window.location.reload();
+    };
+
+    if (!isOpen) return null;
+
+    const chip = (active: boolean) => `px-2 py-1 rounded-md text-[11px] font-bold border transition-colors ${active ? 'bg-sky-600 text-white border-sky-600' : 'border-bunker-200 dark:border-bunker-700 text-slate-500 hover:border-sky-500'}`;
+
+    const content = (
+        <div className="fixed inset-0 z-[10000] bg-black/70 backdrop-blur-sm flex items-center justify-center p-4" onClick={onClose}>
+            <div className="bg-white dark:bg-bunker-950 w-full max-w-2xl max-h-[90vh] overflow-y-auto custom-scrollbar rounded-2xl shadow-2xl p-6 border border-white/10 text-slate-900 dark:text-white space-y-5" onClick={e => e.stopPropagation()}>
+                <div className="flex items-center gap-3">
+                    <UploadIcon className="w-8 h-8 text-sky-600" />
+                    <div>
+                        <h3 className="text-xl font-bold">Restaurar Backup</h3>
+                        <p className="text-xs text-slate-500">Compare com os dados atuais e escolha o que restaurar.</p>
+                    </div>
+                </div>
+
+                <pre className="whitespace-pre-wrap font-sans text-xs bg-bunker-50 dark:bg-white/5 p-3 rounded-xl text-slate-500 max-h-32 overflow-y-auto">{report}</pre>
+
+                {valid && !diff && (
+                    <p className="text-sm text-slate-500 flex items-center gap-2"><ArrowPathIcon className="w-4 h-4 animate-spin" /> Comparando com os dados atuais...</p>
+                )}
+
+                {diff && (
+                    <>
+                        <table className="w-full text-xs">
+                            <thead>
+                                <tr className="text-left text-slate-400 uppercase tracking-widest">
+                                    <th className="py-1">Store</th>
+                                    <th className="py-1 text-right">Novos</th>
+                                    <th className="py-1 text-right">Alterados</th>
+                                    <th className="py-1 text-right">Ausentes</th>
+                                </tr>
+                            </thead>
+                            <tbody>
+                                {GROUPS.map(group => {
+                                    const g = diff.byGroup[group];
+                                    const empty = g.added + g.changed + g.removed === 0;
+                                    return (
+                                        <tr key={group} className={`border-t border-bunker-100 dark:border-white/5 ${empty ? 'opacity-40' : ''}`}>
+                                            <td className="py-1.5">
+                                                <label className="flex items-center gap-2 cursor-pointer">
+                                                    <input type="checkbox" checked={filter.groups.includes(group)} onChange={() => setFilter(f => ({ ...f, groups: toggle(f.groups, group) }))} />
+                                                    {BACKUP_GROUP_LABELS[group]}
+                                                </label>
+                                            </td>
+                                            <td className="py-1.5 text-right text-emerald-500 font-bold">{g.added}</td>
+                                            <td className="py-1.5 text-right text-amber-500 font-bold">{g.changed}</td>
+                                            <td className="py-1.5 text-right text-rose-500 font-bold">{g.removed}</td>
+                                        </tr>
+                                    );
+                                })}
+                            </tbody>
+                        </table>
+                        <p className="text-[11px] text-slate-400">{diff.unchanged} registro(s) idênticos aos atuais.</p>
+
+                        <div className="flex flex-wrap gap-2 items-center">
+                            {(Object.keys(KIND_LABELS) as BackupChangeKind[]).map(kind => (
+                                <button key={kind} onClick={() => setFilter(f => ({ ...f, kinds: toggle(f.kinds, kind) }))} className={chip(filter.kinds.includes(kind))}>{KIND_LABELS[kind]}</button>
+                            ))}
+                            <label className="ml-auto flex items-center gap-2 text-xs font-bold cursor-pointer">
+                                <input type="checkbox" checked={!!filter.progressOnly} onChange={e => setFilter(f => ({ ...f, progressOnly: e.target.checked }))} />
+                                Apenas progresso (SRS/histórico)
+                            </label>
+                        </div>
+
+                        {Object.keys(diff.byLaw).length > 0 && (
+                            <div>
+                                <h4 className="text-[10px] font-black uppercase tracking-widest text-slate-400 mb-2">Por lei</h4>
+                                <div className="flex flex-wrap gap-1.5">
+                                    {topEntries(diff.byLaw).map(([law, count]) => (
+                                        <button key={law} onClick={() => setFilter(f => ({ ...f, lawIds: toggle(f.lawIds || [], law) }))} className={chip(!!filter.lawIds?.includes(law))}>{law} · {count}</button>
+                                    ))}
+                                </div>
+                            </div>
+                        )}
+
+                        <div>
+                            <h4 className="text-[10px] font-black uppercase tracking-widest text-slate-400 mb-2">Por disciplina</h4>
+                            <div className="flex flex-wrap gap-1.5">
+                                {topEntries(diff.bySubject).map(([subject, count]) => (
+                                    <button key={subject} onClick={() => setFilter(f => ({ ...f, subjects: toggle(f.subjects || [], subject) }))} className={chip(!!filter.subjects?.includes(subject))}>{subject} · {count}</button>
+                                ))}
+                            </div>
+                        </div>
+
+                        <div>
+                            <h4 className="text-[10px] font-black uppercase tracking-widest text-slate-400 mb-2">Por litRef</h4>
+                            <input value={litRefQuery} onChange={e => setLitRefQuery(e.target.value)} placeholder="Filtrar litRef (ex: cf88_art_5)" className="w-full mb-2 bg-bunker-50 dark:bg-bunker-800 border border-bunker-200 dark:border-bunker-700 rounded-md p-1.5 text-xs" />
+                            <div className="flex flex-wrap gap-1.5">
+                                {litRefMatches.map(([ref, count]) => (
+                                    <button key={ref} onClick={() => setFilter(f => ({ ...f, litRefs: toggle(f.litRefs || [], ref) }))} className={chip(!!filter.litRefs?.includes(ref))}>{ref} · {count}</button>
+                                ))}
+                            </div>
+                        </div>
+                    </>
+                )}
+
+                <div className="flex flex-col sm:flex-row gap-3 pt-2">
+                    <button onClick={onClose} className="flex-1 py-3 text-slate-500 font-bold hover:bg-slate-100 dark:hover:bg-white/5 rounded-xl transition-all">Cancelar</button>
+                    <button onClick={onFullRestore} disabled={!valid || isApplying} className="flex-1 py-3 border border-rose-500/40 text-rose-600 font-bold rounded-xl hover:bg-rose-500/10 transition-all disabled:opacity-50">Substituir tudo</button>
+                    <button onClick={handleSelectiveRestore} disabled={!diff || selectedCount === 0 || isApplying} className="flex-1 py-3 bg-sky-600 text-white font-bold rounded-xl shadow-lg hover:bg-sky-500 active:scale-95 transition-all disabled:opacity-50 disabled:cursor-not-allowed">
+                        {isApplying ? 'Aplicando...' : `Restaurar seleção (${selectedCount})`}
+                    </button>
+                </div>
+            </div>
+        </div>
+    );
+
+    const modalRoot = document.getElementById('modal-root');
+    return modalRoot ? ReactDOM.createPortal(content, modalRoot) : content;
+};
+
+export default BackupRestoreWizard;
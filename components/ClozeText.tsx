@@ -0,0 +1,42 @@
+import React from 'react';
+import { parseClozeParts } from '../services/clozeService';
+
+interface ClozeTextProps {
+    text: string;
+    activeIndex: number | null;
+    revealed: boolean;
+    className?: string;
+}
+
+/**
+ * Renderiza texto com deleções {{cN::...}}.
+ * Frente: a deleção ativa aparece como [...] (ou [dica]); verso: destacada com a resposta.
+ */
+const ClozeText: React.FC<ClozeTextProps> = ({ text, activeIndex, revealed, className = '' }) => {
+    const parts = parseClozeParts(text, activeIndex);
+
+    return (
+        <span className={`whitespace-pre-wrap ${className}`}>
+            {parts.map((part, i) => {
+                if (part.type === 'text') return <React.Fragment key={i}>{part.content}</React.Fragment>;
+                if (!part.active) return <React.Fragment key={i}>{part.content}</React.Fragment>;
+
+                if (!revealed) {
+                    return (
+                        <span key={i} className="inline-block px-2 mx-0.5 rounded-md bg-sky-500/15 border border-sky-500/40 text-sky-500 font-black">
+                            [{part.hint || '...'}]
+                        </span>
+                    );
+                }
+
+                return (
+                    <span key={i} className="inline-block px-2 mx-0.5 rounded-md bg-emerald-500/15 border border-emerald-500/40 text-emerald-500 font-black">
+                        {part.content}
+                    </span>
+                );
+            })}
+        </span>
+    );
+};
+
+export default ClozeText;
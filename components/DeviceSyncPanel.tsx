@@ -0,0 +1,111 @@
+import React, { useEffect, useState } from 'react';
+import { ArrowPathIcon } from './icons';
+import { getPendingChangesCount, loadSyncState, runSync, SyncResult } from '../services/sync/syncEngine';
+import { HttpSyncTransport, SupabaseSyncTransport, SyncTransport } from '../services/sync/syncTransports';
+
+const LS_SYNC_TRANSPORT = 'miaaula_sync_transport';
+const DEFAULT_LOCAL_URL = 'http://localhost:8787';
+
+type TransportKind = 'supabase' | 'http';
+
+interface TransportConfig {
+    kind: TransportKind;
+    url: string;
+}
+
+const loadTransportConfig = (): TransportConfig => {
+    try {
+        const saved = JSON.parse(localStorage.getItem(LS_SYNC_TRANSPORT) || 'null');
+        if (saved && (saved.kind === 'supabase' || saved.kind === 'http')) return { kind: saved.kind, url: saved.url || DEFAULT_LOCAL_URL };
+    } catch {}
+    return { kind: 'supabase', url: DEFAULT_LOCAL_URL };
+};
+
+const createTransport = (config: TransportConfig): SyncTransport =>
+    config.kind === 'http' ? new HttpSyncTransport(config.url) : new SupabaseSyncTransport();
+
+/**
+ * Sincronização incremental entre dispositivos (mescla registros em vez de substituir tudo).
+ */
+const DeviceSyncPanel: React.FC = () => {
+    const [config, setConfig] = useState<TransportConfig>(loadTransportConfig);
+    const [pending, setPending] = useState(0);
+    const [lastSyncAt, setLastSyncAt] = useState<string | undefined>();
+    const [isSyncing, setIsSyncing] = useState(false);
+    const [result, setResult] = useState<SyncResult | null>(null);
+    const [error, setError] = useState<string | null>(null);
+
+    useEffect(() => {
+        loadSyncState().then(state => setLastSyncAt(state.lastSyncAt));
+        getPendingChangesCount().then(setPending);
+    }, []);
+
+    const updateConfig = (next: TransportConfig) => {
+        setConfig(next);
+        localStorage.setItem(LS_SYNC_TRANSPORT, JSON.stringify(next));
+    };
+
+    const handleSync = async () => {
+        setIsSyncing(true);
+        setError(null);
+        setResult(null);
+        try {
+            const res = await runSync(createTransport(config));
+            setResult(res);
+            setPending(0);
+            setLastSyncAt(new Date().toISOString());
+            // Os contextos mantêm os dados em memória: recarrega para refletir o que chegou
+            if (res.applied > 0) setTimeout(() => window.location.reload(), 1500);
+        } catch (e: any) {
+            setError(e?.message || 'Falha na sincronização.');
+        } finally {
+            setIsSyncing(false);
+        }
+    };
+
+    return (
+        <div className="space-y-3">
+            <div className="flex items-center gap-2 text-xs">
+                <span className="font-bold text-bunker-500 uppercase">Servidor:</span>
+                <select
+                    value={config.kind}
+                    onChange={e => updateConfig({ ...config, kind: e.target.value as TransportKind })}
+                    className="bg-bunker-50 dark:bg-bunker-800 border border-bunker-200 dark:border-bunker-700 rounded-md p-1.5"
+                >
+                    <option value="supabase">Supabase (conta logada)</option>
+                    <option value="http">Servidor local</option>
+                </select>
+                {config.kind === 'http' && (
+                    <input
+                        value={config.url}
+                        onChange={e => updateConfig({ ...config, url: e.target.value })}
+                        className="flex-1 bg-bunker-50 dark:bg-bunker-800 border border-bunker-200 dark:border-bunker-700 rounded-md p-1.5"
+                    />
+                )}
+            </div>
+
+            <div className="flex items-center justify-between text-xs text-bunker-500 dark:text-bunker-400">
+                <span>{pending > 0 ? `${pending} alteração(ões) pendente(s)` : 'Sem alterações pendentes'}</span>
+                <span>Última: {lastSyncAt ? new Date(lastSyncAt).toLocaleString('pt-BR') : 'nunca'}</span>
+            </div>
+
+            <button
+                onClick={handleSync}
+                disabled={isSyncing}
+                className="w-full flex items-center justify-center gap-2 bg-sky-500/20 text-sky-700 dark:text-sky-300 font-bold py-3 px-4 rounded-lg hover:bg-sky-500/30 transition-colors disabled:opacity-50 disabled:cursor-wait"
+            >
+                <ArrowPathIcon className={`w-5 h-5 ${isSyncing ? 'animate-spin' : ''}`} /> {isSyncing ? 'Sincronizando...' : 'Sincronizar agora'}
+            </button>
+
+            {result && (
+                <p className="p-3 text-sm font-semibold rounded-lg text-center bg-emerald-500/10 text-emerald-600">
+                    {result.pushed} enviado(s), {result.applied} aplicado(s){result.conflicts > 0 ? `, ${result.conflicts} mesclado(s)` : ''}.
+                    {result.applied > 0 && ' Recarregando...'}
+                </p>
+            )}
+            {error && <p className="p-3 text-sm font-semibold rounded-lg text-center bg-rose-500/10 text-rose-600">{error}</p>}
+        </div>
+    );
+};
+
+export default DeviceSyncPanel;
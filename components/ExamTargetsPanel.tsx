@@ -0,0 +1,205 @@
+import React, { useMemo, useState } from 'react';
+import ReactDOM from 'react-dom';
+import { Flashcard, Question, TargetExam } from '../types';
+import { CalendarIcon, PlusIcon, TrashIcon, PencilIcon, XMarkIcon } from './icons';
+import { useSettings } from '../contexts/SettingsContext';
+import { predictExamReadiness } from '../services/scheduler/reviewSimulator';
+import { daysUntil } from '../services/scheduler/examTargets';
+import * as srs from '../services/srsService';
+
+interface ExamTargetsPanelProps {
+    questions: Question[];
+    flashcards: Flashcard[];
+}
+
+const pct = (v: number) => `${Math.round(v * 100)}%`;
+
+const retentionColor = (v: number) => v >= 0.85 ? 'text-emerald-500' : v >= 0.7 ? 'text-amber-500' : 'text-rose-500';
+
+const inputClass = "w-full bg-bunker-50 dark:bg-bunker-800 border border-bunker-200 dark:border-bunker-700 rounded-md p-2 text-sm";
+
+const ExamEditor: React.FC<{
+    exam: TargetExam;
+    subjects: string[];
+    onSave: (exam: TargetExam) => void;
+    onClose: () => void;
+}> = ({ exam, subjects, onSave, onClose }) => {
+    const [draft, setDraft] = useState<TargetExam>(exam);
+
+    const unused = subjects.filter(s => !draft.subjects.some(d => d.subject === s));
+
+    const updateSubject = (index: number, patch: Partial<TargetExam['subjects'][number]>) =>
+        setDraft(d => ({ ...d, subjects: d.subjects.map((s, i) => (i === index ? { ...s, ...patch } : s)) }));
+
+    const handleSave = () => {
+        if (!draft.name.trim() || !draft.date) {
+            alert("Informe o nome e a data da prova.");
+            return;
+        }
+        onSave({ ...draft, name: draft.name.trim(), banca: draft.banca?.trim() || undefined, subjects: draft.subjects.filter(s => s.subject && s.weight > 0) });
+    };
+
+    const content = (
+        <div className="fixed inset-0 z-[10000] bg-black/70 backdrop-blur-sm flex items-center justify-center p-4" onClick={onClose}>
+            <div className="bg-white dark:bg-bunker-950 w-full max-w-lg max-h-[90vh] overflow-y-auto custom-scrollbar rounded-2xl shadow-2xl p-6 border border-white/10 text-slate-900 dark:text-white space-y-4" onClick={e => e.stopPropagation()}>
+                <div className="flex items-center justify-between">
+                    <h3 className="text-xl font-bold flex items-center gap-2"><CalendarIcon className="w-6 h-6 text-sky-500" /> Prova-Alvo</h3>
+                    <button onClick={onClose} className="text-slate-400 hover:text-slate-600"><XMarkIcon /></button>
+                </div>
+                <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+                    <div className="md:col-span-2">
+                        <label className="text-sm font-medium">Nome</label>
+                        <input value={draft.name} onChange={e => setDraft(d => ({ ...d, name: e.target.value }))} placeholder="Ex.: TRF 3ª Região - Técnico" className={inputClass} />
+                    </div>
+                    <div>
+                        <label className="text-sm font-medium">Data</label>
+                        <input type="date" value={draft.date} onChange={e => setDraft(d => ({ ...d, date: e.target.value }))} className={inputClass} />
+                    </div>
+                    <div>
+                        <label className="text-sm font-medium">Banca</label>
+                        <input value={draft.banca || ''} onChange={e => setDraft(d => ({ ...d, banca: e.target.value }))} placeholder="Ex.: FCC" className={inputClass} />
+                    </div>
+                </div>
+
+                <div>
+                    <label className="text-sm font-medium">Disciplinas do edital e pesos</label>
+                    <div className="space-y-2 mt-1">
+                        {draft.subjects.map((s, i) => (
+                            <div key={i} className="flex items-center gap-2">
+                                <select value={s.subject} onChange={e => updateSubject(i, { subject: e.target.value })} className={inputClass}>
+                                    <option value={s.subject}>{s.subject || 'Selecione...'}</option>
+                                    {unused.map(u => <option key={u} value={u}>{u}</option>)}
+                                </select>
+                                <input type="number" min={0} step={0.5} value={s.weight} onChange={e => updateSubject(i, { weight: Math.max(0, Number(e.target.value) || 0) })} className={`${inputClass} w-20`} title="Peso (nº de questões ou pontos no edital)" />
+                                <button onClick={() => setDraft(d => ({ ...d, subjects: d.subjects.filter((_, j) => j !== i) }))} className="text-bunker-400 hover:text-rose-500 p-1" aria-label="Remover disciplina"><TrashIcon /></button>
+                            </div>
+                        ))}
+                        {unused.length > 0 && (
+                            <button onClick={() => setDraft(d => ({ ...d, subjects: [...d.subjects, { subject: unused[0], weight: 1 }] }))} className="text-sm font-bold text-sky-500 hover:text-sky-400 flex items-center gap-1">
+                                <PlusIcon /> Adicionar disciplina
+                            </button>
+                        )}
+                    </div>
+                </div>
+
+                <div className="flex gap-3 pt-2">
+                    <button onClick={onClose} className="flex-1 py-3 text-slate-500 font-bold hover:bg-slate-100 dark:hover:bg-white/5 rounded-xl transition-all">Cancelar</button>
+                    <button onClick={handleSave} className="flex-1 py-3 bg-sky-600 text-white font-bold rounded-xl shadow-lg hover:bg-sky-500 active:scale-95 transition-all">Salvar</button>
+                </div>
+            </div>
+        </div>
+    );
+
+    const modalRoot = document.getElementById('modal-root');
+    return modalRoot ? ReactDOM.createPortal(content, modalRoot) : content;
+};
+
+/**
+ * Provas-alvo: cadastro (nome, data, banca, pesos do edital) e retenção prevista
+ * por disciplina no dia de cada prova.
+ */
+const ExamTargetsPanel: React.FC<ExamTargetsPanelProps> = ({ questions, flashcards }) => {
+    const { settings, updateSettings } = useSettings();
+    const [editing, setEditing] = useState<TargetExam | null>(null);
+    const exams = settings.targetExams || [];
+
+    const subjects = useMemo(() => {
+        const set = new Set<string>();
+        questions.forEach(q => q.subject && set.add(q.subject));
+        flashcards.forEach(fc => fc.discipline && set.add(fc.discipline));
+        return Array.from(set).sort();
+    }, [questions, flashcards]);
+
+    const readiness = useMemo(() => {
+        const now = new Date();
+        return [...exams]
+            .sort((a, b) => a.date.localeCompare(b.date))
+            .map(exam => daysUntil(exam, now) >= 0 ? predictExamReadiness(questions, flashcards, settings, exam, now) : { exam, daysLeft: -1, subjects: [], weightedNoReview: 0, weightedPlanned: 0 });
+    }, [exams, questions, flashcards, settings]);
+
+    const handleSave = (exam: TargetExam) => {
+        const exists = exams.some(e => e.id === exam.id);
+        updateSettings({ targetExams: exists ? exams.map(e => (e.id === exam.id ? exam : e)) : [...exams, exam] });
+        setEditing(null);
+    };
+
+    const handleDelete = (exam: TargetExam) => {
+        if (!window.confirm(`Remover a prova "${exam.name}"?`)) return;
+        updateSettings({ targetExams: exams.filter(e => e.id !== exam.id) });
+    };
+
+    const handleNew = () => setEditing({ id: `exam_${Date.now()}`, name: '', date: '', banca: '', subjects: [] });
+
+    return (
+        <div className="bg-white dark:bg-white/[0.02] border border-slate-200 dark:border-white/5 p-10 rounded-[3rem] shadow-xl dark:shadow-2xl">
+            <div className="flex items-center justify-between mb-8">
+                <div className="flex items-center gap-3">
+                    <CalendarIcon className="text-sky-500 w-5 h-5" />
+                    <h3 className="font-black text-xs text-slate-900 dark:text-white uppercase tracking-[0.3em]">Provas-Alvo · Retenção no Dia da Prova</h3>
+                </div>
+                <button onClick={handleNew} className="flex items-center gap-1 text-xs font-bold text-sky-500 hover:text-sky-400 uppercase tracking-widest">
+                    <PlusIcon /> Nova prova
+                </button>
+            </div>
+
+            {readiness.length === 0 && (
+                <p className="text-sm text-slate-500">Cadastre as provas com as disciplinas e pesos do edital: a retenção desejada sobe e as revisões se concentram antes de cada prova.</p>
+            )}
+
+            <div className="space-y-8">
+                {readiness.map(r => (
+                    <div key={r.exam.id} className={r.daysLeft < 0 ? 'opacity-50' : ''}>
+                        <div className="flex flex-wrap items-end justify-between gap-2 mb-3">
+                            <div>
+                                <p className="font-bold text-slate-900 dark:text-white">{r.exam.name} {r.exam.banca && <span className="text-xs font-bold text-slate-400">· {r.exam.banca}</span>}</p>
+                                <p className="text-xs text-slate-500">
+                                    {srs.formatISOToBr(`${r.exam.date}T12:00:00`)} · {r.daysLeft < 0 ? 'Realizada' : r.daysLeft === 0 ? 'Hoje' : `faltam ${r.daysLeft} dia(s)`}
+                                </p>
+                            </div>
+                            <div className="flex items-center gap-4">
+                                {r.daysLeft >= 0 && (
+                                    <p className="text-xs text-slate-500 text-right">
+                                        Média ponderada: <span className={`font-black ${retentionColor(r.weightedPlanned)}`}>{pct(r.weightedPlanned)}</span>
+                                        <span className="block text-[10px]">sem revisar: {pct(r.weightedNoReview)}</span>
+                                    </p>
+                                )}
+                                <button onClick={() => setEditing(r.exam)} className="text-bunker-400 hover:text-sky-500 p-1" aria-label="Editar prova"><PencilIcon /></button>
+                                <button onClick={() => handleDelete(r.exam)} className="text-bunker-400 hover:text-rose-500 p-1" aria-label="Excluir prova"><TrashIcon /></button>
+                            </div>
+                        </div>
+                        {r.subjects.length > 0 && (
+                            <table className="w-full text-xs">
+                                <thead>
+                                    <tr className="text-left text-[10px] text-slate-400 uppercase tracking-widest">
+                                        <th className="py-1">Disciplina</th>
+                                        <th className="py-1 text-right">Peso</th>
+                                        <th className="py-1 text-right">Itens</th>
+                                        <th className="py-1 text-right">Hoje</th>
+                                        <th className="py-1 text-right">Sem revisar</th>
+                                        <th className="py-1 text-right">Com a agenda</th>
+                                    </tr>
+                                </thead>
+                                <tbody>
+                                    {r.subjects.map(s => (
+                                        <tr key={s.subject} className="border-t border-slate-100 dark:border-white/5 text-slate-700 dark:text-slate-300">
+                                            <td className="py-1.5 font-bold truncate max-w-[14rem]">{s.subject}</td>
+                                            <td className="py-1.5 text-right">{s.weight}</td>
+                                            <td className="py-1.5 text-right">{s.items}</td>
+                                            <td className="py-1.5 text-right">{s.items > 0 ? pct(s.retentionNow) : '—'}</td>
+                                            <td className={`py-1.5 text-right ${retentionColor(s.retentionNoReview)}`}>{s.items > 0 ? pct(s.retentionNoReview) : '—'}</td>
+                                            <td className={`py-1.5 text-right font-bold ${retentionColor(s.retentionPlanned)}`}>{s.items > 0 ? pct(s.retentionPlanned) : '—'}</td>
+                                        </tr>
+                                    ))}
+                                </tbody>
+                            </table>
+                        )}
+                    </div>
+                ))}
+            </div>
+
+            {editing && <ExamEditor exam={editing} subjects={subjects} onSave={handleSave} onClose={() => setEditing(null)} />}
+        </div>
+    );
+};
+
+export default ExamTargetsPanel;
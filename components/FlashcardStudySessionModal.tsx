@@ -1,12 +1,18 @@
 
 import React, { useState, useEffect, useRef, useCallback } from 'react';
 import ReactDOM from 'react-dom';
-import { Flashcard, StudyRef } from '../types';
+import { Flashcard, StudyRef, Attempt } from '../types';
 import { useFlashcardDispatch } from '../contexts/FlashcardContext';
 import { useSettings } from '../contexts/SettingsContext';
 import * as srs from '../services/srsService';
+import { buildSiblingSessionQueue, applySiblingReview, getParentId } from '../services/siblingService';
+import { parseClozeSiblingKey } from '../services/clozeService';
+import { parseOcclusionSiblingKey } from '../services/occlusionService';
 import { XMarkIcon, ChevronRightIcon, ChevronLeftIcon, RefreshIcon, LightBulbIcon, PencilIcon, CheckCircleIcon, ClipboardDocumentCheckIcon } from './icons';
 import StudyRefLink from './StudyRefLink';
+import ClozeText from './ClozeText';
+import ImageOcclusionView from './ImageOcclusionView';
+import { useMediaUrl } from '../hooks/useMediaUrl';
 
 interface FlashcardStudySessionModalProps {
   isOpen: boolean;
@@ -30,12 +36,18 @@ const FlashcardStudySessionModal: React.FC<FlashcardStudySessionModalProps> = ({
     
     const [answeredIds, setAnsweredIds] = useState<Set<string>>(new Set());
     const [sessionUpdates, setSessionUpdates] = useState<Flashcard[]>([]);
+    const [buriedCount, setBuriedCount] = useState(0);
+    // Versão mais recente de cada card-pai (irmãs cloze gravam no pai)
+    const parentsRef = useRef<Map<string, Flashcard>>(new Map());
 
     useEffect(() => {
         if (isOpen && !isInitialized) {
             // FIX: Removida a verificação cards.length > 0 para garantir que o estado always inicialize
             // Se cards vier vazio, sessionQueue será vazio e trataremos na renderização
-            setSessionQueue(cards);
+            const siblingQueue = buildSiblingSessionQueue(cards);
+            parentsRef.current = new Map(cards.map(c => [c.id, c]));
+            setSessionQueue(siblingQueue.queue);
+            setBuriedCount(siblingQueue.buriedCount);
             setCurrentIndex(0);
             setFinished(false);
             setIsFlipped(false);
@@ -122,34 +134,46 @@ const FlashcardStudySessionModal: React.FC<FlashcardStudySessionModalProps> = ({
 
         if (isCorrect) addXp(5, "Flashcard");
 
+        // Para irmãs cloze, o SRS roda sobre o estado próprio da deleção
         const srsResult = srs.calculateNewSrsState(currentCard, isCorrect, evalLevel, timeTaken, settings);
 
+        const attempt: Attempt = {
+            date: srsResult.lastReviewedAt!,
+            wasCorrect: isCorrect,
+            masteryAfter: srsResult.masteryScore!,
+            stabilityAfter: srsResult.stability,
+            nextReviewDate: srsResult.nextReviewDate,
+            timeSec: Math.round(timeTaken),
+            selfEvalLevel: evalLevel,
+            timingClass: srsResult.timingClass,
+            targetSec: srsResult.targetSec
+        };
+
         const updatedCard: Flashcard = {
             ...currentCard,
             ...srsResult,
+            lastGrade: srsResult.grade,
             totalAttempts: (currentCard.totalAttempts || 0) + 1,
             correctStreak: isCorrect ? (currentCard.correctStreak || 0) + 1 : 0,
-            attemptHistory: [
-                ...(currentCard.attemptHistory || []),
-                {
-                    date: srsResult.lastReviewedAt!,
-                    wasCorrect: isCorrect,
-                    masteryAfter: srsResult.masteryScore!,
-                    stabilityAfter: srsResult.stability,
-                    timeSec: Math.round(timeTaken),
-                    selfEvalLevel: evalLevel,
-                    timingClass: srsResult.timingClass,
-                    targetSec: srsResult.targetSec
-                }
-            ]
+            attemptHistory: [...(currentCard.attemptHistory || []), attempt]
         };
 
+        let persistedCard = updatedCard;
+        if (currentCard.siblingKey) {
+            const parentId = getParentId(currentCard);
+            const parent = parentsRef.current.get(parentId);
+            if (parent) {
+                persistedCard = applySiblingReview(parent, updatedCard, attempt);
+                parentsRef.current.set(parentId, persistedCard);
+            }
+        }
+
         // Add to batch
-        setSessionUpdates(prev => [...prev, updatedCard]);
+        setSessionUpdates(prev => [...prev, persistedCard]);
         
         // Update context immediately (for safety/persistence), 
         // but rely on batch for parent notification
-        updateFlashcard(updatedCard);
+        updateFlashcard(persistedCard);
         
         setAnsweredIds(prev => new Set(prev).add(currentCard.id));
 
@@ -160,6 +184,13 @@ const FlashcardStudySessionModal: React.FC<FlashcardStudySessionModalProps> = ({
         }
     };
     
+    // Mídia do card atual vem do media store sob demanda; a do verso só depois de virar
+    const mediaCard = isOpen ? sessionQueue[currentIndex] : undefined;
+    const frontImageUrl = useMediaUrl(mediaCard?.frontImage);
+    const frontAudioUrl = useMediaUrl(mediaCard?.frontAudio?.trim() || undefined);
+    const backImageUrl = useMediaUrl(isFlipped ? mediaCard?.backImage : undefined);
+    const backAudioUrl = useMediaUrl(isFlipped ? mediaCard?.backAudio?.trim() || undefined : undefined);
+
     if (!isOpen) return null;
 
     // FIX: Se inicializou mas a fila está vazia, mostra mensagem amigável ao invés de travar
@@ -181,6 +212,11 @@ const FlashcardStudySessionModal: React.FC<FlashcardStudySessionModalProps> = ({
 
     const currentCard = sessionQueue[currentIndex];
     const isAnswered = currentCard && answeredIds.has(currentCard.id);
+    const clozeIndex = currentCard ? parseClozeSiblingKey(currentCard.siblingKey) : null;
+    const occlusionMaskId = currentCard ? parseOcclusionSiblingKey(currentCard.siblingKey) : null;
+    const isOcclusion = !!(occlusionMaskId && currentCard.occlusion && currentCard.frontImage);
+    const activeMaskIndex = isOcclusion ? currentCard.occlusion!.masks.findIndex(m => m.id === occlusionMaskId) : -1;
+    const activeMask = activeMaskIndex >= 0 ? currentCard.occlusion!.masks[activeMaskIndex] : null;
 
     return ReactDOM.createPortal(
         <div className="fixed inset-0 z-[9999] bg-slate-950 flex flex-col items-center justify-center p-4 sm:p-6 animate-fade-in" onClick={(e) => e.stopPropagation()}>
@@ -204,6 +240,21 @@ const FlashcardStudySessionModal: React.FC<FlashcardStudySessionModalProps> = ({
                                         <CheckCircleIcon className="w-3 h-3"/> Respondido
                                     </span>
                                 )}
+                                {clozeIndex !== null && (
+                                    <span className="text-[10px] font-black text-sky-400 bg-sky-500/10 px-2 py-0.5 rounded-full uppercase tracking-widest">
+                                        Cloze c{clozeIndex}
+                                    </span>
+                                )}
+                                {isOcclusion && (
+                                    <span className="text-[10px] font-black text-rose-400 bg-rose-500/10 px-2 py-0.5 rounded-full uppercase tracking-widest">
+                                        Máscara {activeMaskIndex + 1}/{currentCard.occlusion!.masks.length} · {currentCard.occlusion!.mode === 'HIDE_ALL' ? 'Oculta todas' : 'Oculta uma'}
+                                    </span>
+                                )}
+                                {buriedCount > 0 && (
+                                    <span className="text-[10px] font-bold text-slate-500 uppercase tracking-widest" title="Outras deleções do mesmo card ficam para a próxima sessão.">
+                                        {buriedCount} irmã(s) adiada(s)
+                                    </span>
+                                )}
                                 {(currentCard.studyRefs || []).length > 0 && onStudyRefNavigate && (
                                     <StudyRefLink refs={currentCard.studyRefs || []} onNavigate={onStudyRefNavigate} />
                                 )}
@@ -242,14 +293,18 @@ const FlashcardStudySessionModal: React.FC<FlashcardStudySessionModalProps> = ({
                             
                             <div className="absolute inset-0 backface-hidden bg-white dark:bg-slate-900 rounded-3xl p-8 flex flex-col items-center justify-center text-center shadow-2xl border-2 border-slate-200 dark:border-white/10">
                                 <span className="absolute top-6 left-6 text-xs font-black text-sky-500 uppercase tracking-widest bg-sky-500/10 px-3 py-1 rounded-lg">Frente</span>
-                                {currentCard.frontImage && (
-                                    <img src={currentCard.frontImage} alt="Front" className="max-h-40 mb-6 rounded-lg object-contain" />
+                                {isOcclusion ? (
+                                    <ImageOcclusionView image={currentCard.frontImage!} occlusion={currentCard.occlusion!} activeMaskId={occlusionMaskId} revealed={false} className="mb-4" />
+                                ) : frontImageUrl && (
+                                    <img src={frontImageUrl} alt="Front" className="max-h-40 mb-6 rounded-lg object-contain" />
                                 )}
                                 <p className="text-2xl md:text-3xl font-bold text-slate-800 dark:text-slate-100 leading-relaxed">
-                                    {currentCard.front}
+                                    {clozeIndex !== null ? (
+                                        <ClozeText text={currentCard.front} activeIndex={clozeIndex} revealed={false} />
+                                    ) : currentCard.front}
                                 </p>
-                                {currentCard.frontAudio && currentCard.frontAudio.trim() && (
-                                    <audio controls src={currentCard.frontAudio} className="mt-6 w-full max-w-xs h-8 opacity-70 hover:opacity-100" />
+                                {frontAudioUrl && (
+                                    <audio controls src={frontAudioUrl} className="mt-6 w-full max-w-xs h-8 opacity-70 hover:opacity-100" />
                                 )}
                                 <div className="absolute bottom-6 text-xs text-slate-400 font-medium animate-pulse">
                                     Toque ou Espaço para virar
@@ -258,14 +313,39 @@ const FlashcardStudySessionModal: React.FC<FlashcardStudySessionModalProps> = ({
 
                             <div className="absolute inset-0 backface-hidden rotate-y-180 bg-slate-50 dark:bg-slate-800 rounded-3xl p-8 flex flex-col items-center justify-center text-center shadow-2xl border-2 border-emerald-500/30">
                                 <span className="absolute top-6 left-6 text-xs font-black text-emerald-500 uppercase tracking-widest bg-emerald-500/10 px-3 py-1 rounded-lg">Verso</span>
-                                {currentCard.backImage && (
-                                    <img src={currentCard.backImage} alt="Back" className="max-h-40 mb-6 rounded-lg object-contain" />
+                                {backImageUrl && (
+                                    <img src={backImageUrl} alt="Back" className="max-h-40 mb-6 rounded-lg object-contain" />
                                 )}
-                                <p className="text-xl md:text-2xl font-medium text-slate-700 dark:text-slate-200 leading-relaxed whitespace-pre-wrap">
-                                    {currentCard.back}
-                                </p>
-                                {currentCard.backAudio && currentCard.backAudio.trim() && (
-                                    <audio controls src={currentCard.backAudio} className="mt-6 w-full max-w-xs h-8 opacity-70 hover:opacity-100" />
+                                {isOcclusion ? (
+                                    <>
+                                        <ImageOcclusionView image={currentCard.frontImage!} occlusion={currentCard.occlusion!} activeMaskId={occlusionMaskId} revealed className="mb-4" />
+                                        {activeMask?.label && (
+                                            <p className="text-xl md:text-2xl font-black text-emerald-600 dark:text-emerald-400">{activeMask.label}</p>
+                                        )}
+                                        {currentCard.back && currentCard.back.trim() && (
+                                            <p className="mt-3 text-base font-medium text-slate-500 dark:text-slate-400 leading-relaxed whitespace-pre-wrap">
+                                                {currentCard.back}
+                                            </p>
+                                        )}
+                                    </>
+                                ) : clozeIndex !== null ? (
+                                    <>
+                                        <p className="text-xl md:text-2xl font-bold text-slate-700 dark:text-slate-200 leading-relaxed">
+                                            <ClozeText text={currentCard.front} activeIndex={clozeIndex} revealed />
+                                        </p>
+                                        {currentCard.back && currentCard.back.trim() && (
+                                            <p className="mt-4 text-base font-medium text-slate-500 dark:text-slate-400 leading-relaxed whitespace-pre-wrap">
+                                                {currentCard.back}
+                                            </p>
+                                        )}
+                                    </>
+                                ) : (
+                                    <p className="text-xl md:text-2xl font-medium text-slate-700 dark:text-slate-200 leading-relaxed whitespace-pre-wrap">
+                                        {currentCard.back}
+                                    </p>
+                                )}
+                                {backAudioUrl && (
+                                    <audio controls src={backAudioUrl} className="mt-6 w-full max-w-xs h-8 opacity-70 hover:opacity-100" />
                                 )}
                                 {currentCard.comments && (
                                     <div className="mt-6 pt-6 border-t border-slate-200 dark:border-white/10 w-full text-left">
@@ -3,8 +3,11 @@ import React, { useState, useEffect, useCallback } from 'react';
 import ReactDOM from 'react-dom';
 import { UploadIcon, DownloadIcon, LogOutIcon, GoogleIcon, CogIcon } from './icons';
 import ConfirmationModal from './ConfirmationModal';
+import DeviceSyncPanel from './DeviceSyncPanel';
+import { usePassphrasePrompt } from './PassphraseModal';
 import { useSettings } from '../contexts/SettingsContext';
 import { backupService } from '../services/backupService'; // Use new service
+import { encryptBackup, decryptBackup, isEncryptedBackup } from '../services/vaultService';
 
 declare global {
   interface Window {
@@ -37,6 +40,7 @@ const GoogleDriveSync: React.FC<GoogleDriveSyncProps> = ({ isOpen, onClose }) =>
     const [operationState, setOperationState] = useState<'idle' | 'saving' | 'loading'>('idle');
     const [statusMessage, setStatusMessage] = useState<{ type: 'success' | 'error' | 'info', text: string } | null>(null);
     const [isLoadConfirmOpen, setIsLoadConfirmOpen] = useState(false);
+    const { askPassphrase, passphraseModal } = usePassphrasePrompt();
     
     useEffect(() => {
         const savedApiKey = localStorage.getItem(LS_API_KEY);
@@ -155,7 +159,12 @@ const GoogleDriveSync: React.FC<GoogleDriveSyncProps> = ({ isOpen, onClose }) =>
         setOperationState('saving');
         try {
             // USE BACKUP SERVICE TO CREATE PAYLOAD
-            const backupData = await backupService.createFullBackup();
+            let backupData: any = await backupService.createFullBackup();
+            if (settings.encryptBackups) {
+                const passphrase = await askPassphrase('encrypt');
+                if (!passphrase) return;
+                backupData = await encryptBackup(backupData, passphrase);
+            }
             const content = JSON.stringify(backupData, null, 2);
             
             const blob = new Blob([content], { type: 'application/json' });
@@ -192,7 +201,12 @@ const GoogleDriveSync: React.FC<GoogleDriveSyncProps> = ({ isOpen, onClose }) =>
             setStatusMessage({ type: 'info', text: 'Baixando e verificando dados...' });
             const response = await window.gapi.client.drive.files.get({ fileId, alt: 'media' });
             
-            const data = JSON.parse(response.body);
+            let data = JSON.parse(response.body);
+            if (isEncryptedBackup(data)) {
+                const passphrase = await askPassphrase('decrypt');
+                if (!passphrase) throw new Error('Restauração cancelada: o backup está criptografado.');
+                data = await decryptBackup(data, passphrase);
+            }
             
             // Validate integrity using backupService
             const sim = backupService.simulateRestore(data);
@@ -320,10 +334,18 @@ const GoogleDriveSync: React.FC<GoogleDriveSyncProps> = ({ isOpen, onClose }) =>
                             {statusMessage.text}
                         </div>
                     )}
+                    <div className="border-t border-bunker-200 dark:border-t-bunker-800 pt-4 space-y-3">
+                        <div>
+                            <h4 className="font-bold text-sm">Sincronização entre dispositivos</h4>
+                            <p className="text-xs text-bunker-500 dark:text-bunker-400">Mescla questões, cards e progresso registro a registro, sem sobrescrever o que foi estudado no outro aparelho.</p>
+                        </div>
+                        <DeviceSyncPanel />
+                    </div>
                 </div>
                  <div className="bg-bunker-100 dark:bg-bunker-900 px-6 py-3 flex justify-end rounded-b-lg">
                     <button onClick={onClose} className="px-4 py-2 text-sm font-semibold rounded-md bg-bunker-200 dark:bg-bunker-700">Fechar</button>
                  </div>
+                 {passphraseModal}
             </div>
             <ConfirmationModal
                 isOpen={isLoadConfirmOpen}
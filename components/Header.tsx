@@ -1,7 +1,7 @@
 
 import React from 'react';
 import { TabID } from '../types';
-import { DownloadIcon, SidebarOpenIcon, SidebarCloseIcon, Bars3Icon } from './icons';
+import { DownloadIcon, SidebarOpenIcon, SidebarCloseIcon, Bars3Icon, SearchIcon } from './icons';
 import { useSettings } from '../contexts/SettingsContext';
 import * as srs from '../services/srsService';
 
@@ -14,6 +14,7 @@ interface HeaderProps {
   onInstallClick: () => void;
   onToggleSidebar: () => void;
   isSidebarOpen: boolean;
+  onOpenSearch: () => void;
 }
 
 const Header: React.FC<HeaderProps> = ({ 
@@ -24,7 +25,8 @@ const Header: React.FC<HeaderProps> = ({
     isAppInstallable, 
     onInstallClick,
     onToggleSidebar,
-    isSidebarOpen
+    isSidebarOpen,
+    onOpenSearch
 }) => {
   const { settings } = useSettings();
   const { level, progressPercent } = srs.getLevelInfo(settings.userXp);
@@ -72,6 +74,9 @@ const Header: React.FC<HeaderProps> = ({
             </div>
 
             <div className="flex items-center gap-2 pl-4 border-l border-white/10">
+                <button onClick={onOpenSearch} className="p-2 text-slate-400 hover:text-white transition-all bg-white/5 rounded-full" title="Buscar (Ctrl+K)">
+                    <SearchIcon className="w-4 h-4" />
+                </button>
                 {isAppInstallable && (
                     <button onClick={onInstallClick} className="p-2 text-slate-400 hover:text-white transition-all bg-white/5 rounded-full" title="Instalar">
                         <DownloadIcon className="w-4 h-4" />
@@ -0,0 +1,167 @@
+import React, { useRef, useState } from 'react';
+import { ImageOcclusionData, OcclusionMask, OcclusionMode } from '../types';
+import { createMaskId, rectFromCorners, getMaskPoints, toSvgPoints, isValidMask } from '../services/occlusionService';
+import { TrashIcon } from './icons';
+
+interface ImageOcclusionEditorProps {
+    image: string;
+    value: ImageOcclusionData;
+    onChange: (next: ImageOcclusionData) => void;
+}
+
+type Tool = 'rect' | 'polygon';
+type Point = { x: number; y: number };
+
+// Distância (normalizada) para fechar o polígono clicando no primeiro vértice
+const CLOSE_POLYGON_RADIUS = 0.02;
+
+const ImageOcclusionEditor: React.FC<ImageOcclusionEditorProps> = ({ image, value, onChange }) => {
+    const svgRef = useRef<SVGSVGElement>(null);
+    const [tool, setTool] = useState<Tool>('rect');
+    const [dragStart, setDragStart] = useState<Point | null>(null);
+    const [dragEnd, setDragEnd] = useState<Point | null>(null);
+    const [polygonDraft, setPolygonDraft] = useState<Point[]>([]);
+
+    const toLocal = (e: React.PointerEvent | React.MouseEvent): Point => {
+        const rect = svgRef.current!.getBoundingClientRect();
+        return {
+            x: Math.max(0, Math.min(1, (e.clientX - rect.left) / rect.width)),
+            y: Math.max(0, Math.min(1, (e.clientY - rect.top) / rect.height))
+        };
+    };
+
+    const addMask = (mask: OcclusionMask) => {
+        if (!isValidMask(mask)) return;
+        onChange({ ...value, masks: [...value.masks, mask] });
+    };
+
+    const closePolygon = () => {
+        if (polygonDraft.length >= 3) {
+            addMask({ id: createMaskId(), shape: 'polygon', points: polygonDraft });
+        }
+        setPolygonDraft([]);
+    };
+
+    const handlePointerDown = (e: React.PointerEvent<SVGSVGElement>) => {
+        if (tool !== 'rect') return;
+        const p = toLocal(e);
+        (e.target as Element).setPointerCapture?.(e.pointerId);
+        setDragStart(p);
+        setDragEnd(p);
+    };
+
+    const handlePointerMove = (e: React.PointerEvent<SVGSVGElement>) => {
+        if (tool !== 'rect' || !dragStart) return;
+        setDragEnd(toLocal(e));
+    };
+
+    const handlePointerUp = () => {
+        if (tool !== 'rect' || !dragStart || !dragEnd) return;
+        addMask({ id: createMaskId(), shape: 'rect', ...rectFromCorners(dragStart, dragEnd) });
+        setDragStart(null);
+        setDragEnd(null);
+    };
+
+    const handleClick = (e: React.MouseEvent<SVGSVGElement>) => {
+        if (tool !== 'polygon') return;
+        const p = toLocal(e);
+        const first = polygonDraft[0];
+        if (first && polygonDraft.length >= 3 && Math.hypot(first.x - p.x, first.y - p.y) < CLOSE_POLYGON_RADIUS) {
+            closePolygon();
+            return;
+        }
+        setPolygonDraft(prev => [...prev, p]);
+    };
+
+    const updateMask = (id: string, updates: Partial<OcclusionMask>) => {
+        onChange({ ...value, masks: value.masks.map(m => m.id === id ? { ...m, ...updates } : m) });
+    };
+
+    const removeMask = (id: string) => {
+        onChange({ ...value, masks: value.masks.filter(m => m.id !== id) });
+    };
+
+    const setMode = (mode: OcclusionMode) => onChange({ ...value, mode });
+
+    const draftRect = dragStart && dragEnd ? rectFromCorners(dragStart, dragEnd) : null;
+    const toolBtn = (active: boolean) => `px-3 py-1.5 rounded-md text-xs font-bold uppercase tracking-widest transition-colors ${active ? 'bg-sky-500 text-white' : 'bg-bunker-200 dark:bg-bunker-700 text-bunker-600 dark:text-bunker-300 hover:bg-bunker-300 dark:hover:bg-bunker-600'}`;
+
+    return (
+        <div className="space-y-3">
+            <div className="flex flex-wrap items-center gap-2">
+                <button type="button" onClick={() => { setTool('rect'); setPolygonDraft([]); }} className={toolBtn(tool === 'rect')}>Retângulo</button>
+                <button type="button" onClick={() => setTool('polygon')} className={toolBtn(tool === 'polygon')}>Polígono</button>
+                {tool === 'polygon' && polygonDraft.length > 0 && (
+                    <>
+                        <button type="button" onClick={closePolygon} disabled={polygonDraft.length < 3} className="px-3 py-1.5 rounded-md text-xs font-bold bg-emerald-500 text-white disabled:opacity-40">Fechar ({polygonDraft.length})</button>
+                        <button type="button" onClick={() => setPolygonDraft([])} className="px-3 py-1.5 rounded-md text-xs font-bold bg-bunker-200 dark:bg-bunker-700">Cancelar</button>
+                    </>
+                )}
+                <div className="ml-auto flex items-center gap-2 text-xs">
+                    <span className="font-bold text-bunker-500 uppercase">Modo:</span>
+                    <button type="button" onClick={() => setMode('HIDE_ONE')} className={toolBtn(value.mode === 'HIDE_ONE')} title="Oculta apenas a área perguntada">Oculta uma</button>
+                    <button type="button" onClick={() => setMode('HIDE_ALL')} className={toolBtn(value.mode === 'HIDE_ALL')} title="Oculta todas, revela apenas a perguntada">Oculta todas</button>
+                </div>
+            </div>
+
+            <div className="relative inline-block max-w-full border border-bunker-200 dark:border-bunker-700 rounded-lg overflow-hidden">
+                <img src={image} alt="Imagem para oclusão" className="block max-w-full max-h-[60vh] select-none" draggable={false} />
+                <svg
+                    ref={svgRef}
+                    viewBox="0 0 1 1"
+                    preserveAspectRatio="none"
+                    className={`absolute inset-0 w-full h-full touch-none ${tool === 'rect' ? 'cursor-crosshair' : 'cursor-copy'}`}
+                    onPointerDown={handlePointerDown}
+                    onPointerMove={handlePointerMove}
+                    onPointerUp={handlePointerUp}
+                    onClick={handleClick}
+                >
+                    {value.masks.map((mask, i) => {
+                        const points = getMaskPoints(mask);
+                        return (
+                            <g key={mask.id}>
+                                <polygon points={toSvgPoints(points)} fill="rgba(244,63,94,0.55)" stroke="#be123c" strokeWidth={0.003} />
+                                <text x={points[0]?.x + 0.01} y={points[0]?.y + 0.04} fontSize={0.035} fill="#fff" fontWeight="bold">{i + 1}</text>
+                            </g>
+                        );
+                    })}
+                    {draftRect && (
+                        <rect x={draftRect.x} y={draftRect.y} width={draftRect.width} height={draftRect.height} fill="rgba(14,165,233,0.35)" stroke="#0ea5e9" strokeWidth={0.003} />
+                    )}
+                    {polygonDraft.length > 0 && (
+                        <>
+                            <polyline points={toSvgPoints(polygonDraft)} fill="rgba(14,165,233,0.25)" stroke="#0ea5e9" strokeWidth={0.003} />
+                            {polygonDraft.map((p, i) => <circle key={i} cx={p.x} cy={p.y} r={i === 0 ? 0.012 : 0.006} fill="#0ea5e9" />)}
+                        </>
+                    )}
+                </svg>
+            </div>
+
+            <p className="text-xs text-bunker-500 dark:text-bunker-400">
+                {tool === 'rect' ? 'Arraste sobre a imagem para criar uma máscara.' : 'Clique para adicionar vértices; clique no primeiro ponto (ou em "Fechar") para concluir.'} Cada máscara vira uma revisão independente.
+            </p>
+
+            {value.masks.length > 0 && (
+                <ul className="space-y-2">
+                    {value.masks.map((mask, i) => (
+                        <li key={mask.id} className="flex items-center gap-2">
+                            <span className="w-6 text-xs font-black text-rose-500">{i + 1}</span>
+                            <input
+                                value={mask.label || ''}
+                                onChange={e => updateMask(mask.id, { label: e.target.value })}
+                                placeholder="Resposta / rótulo da área (opcional)"
+                                className="flex-1 bg-bunker-50 dark:bg-bunker-800 border border-bunker-200 dark:border-bunker-700 rounded-md p-1.5 text-sm"
+                            />
+                            <span className="text-[10px] uppercase font-bold text-bunker-400">{mask.shape === 'rect' ? 'Ret.' : 'Pol.'}</span>
+                            <button type="button" onClick={() => removeMask(mask.id)} className="p-1.5 text-bunker-400 hover:text-rose-500" title="Remover máscara">
+                                <TrashIcon className="w-4 h-4" />
+                            </button>
+                        </li>
+                    ))}
+                </ul>
+            )}
+        </div>
+    );
+};
+
+export default ImageOcclusionEditor;
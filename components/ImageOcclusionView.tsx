@@ -0,0 +1,45 @@
+import React from 'react';
+import { ImageOcclusionData } from '../types';
+import { getMaskPoints, toSvgPoints } from '../services/occlusionService';
+import { useMediaUrl } from '../hooks/useMediaUrl';
+
+interface ImageOcclusionViewProps {
+    image: string;
+    occlusion: ImageOcclusionData;
+    activeMaskId: string | null;
+    revealed: boolean;
+    className?: string;
+}
+
+/**
+ * Renderiza a imagem com as máscaras da carta-irmã em estudo.
+ * HIDE_ONE: só a máscara ativa cobre a imagem; as demais áreas ficam visíveis.
+ * HIDE_ALL: todas cobertas; a ativa é destacada e só ela é revelada no verso.
+ */
+const ImageOcclusionView: React.FC<ImageOcclusionViewProps> = ({ image, occlusion, activeMaskId, revealed, className = '' }) => {
+    const imageUrl = useMediaUrl(image);
+    return (
+        <div className={`relative inline-block max-w-full ${className}`}>
+            <img src={imageUrl} alt="Oclusão" className="block max-w-full max-h-[50vh] rounded-lg object-contain select-none" draggable={false} />
+            <svg viewBox="0 0 1 1" preserveAspectRatio="none" className="absolute inset-0 w-full h-full pointer-events-none">
+                {occlusion.masks.map(mask => {
+                    const isActive = mask.id === activeMaskId;
+                    const points = toSvgPoints(getMaskPoints(mask));
+
+                    if (isActive && revealed) {
+                        return <polygon key={mask.id} points={points} fill="rgba(16,185,129,0.12)" stroke="#10b981" strokeWidth={0.004} />;
+                    }
+                    if (isActive) {
+                        return <polygon key={mask.id} points={points} fill="#f43f5e" stroke="#be123c" strokeWidth={0.004} />;
+                    }
+                    if (occlusion.mode === 'HIDE_ALL') {
+                        return <polygon key={mask.id} points={points} fill="#fbbf24" stroke="#b45309" strokeWidth={0.003} />;
+                    }
+                    return null;
+                })}
+            </svg>
+        </div>
+    );
+};
+
+export default ImageOcclusionView;
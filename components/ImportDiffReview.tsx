@@ -0,0 +1,94 @@
+import React, { useState } from 'react';
+import { ImportDryRun, ImportEntityType } from '../types';
+import { ChevronDownIcon, ChevronRightIcon, ExclamationTriangleIcon, CheckCircleIcon } from './icons';
+
+interface ImportDiffReviewProps {
+    dryRun: ImportDryRun;
+    rejected: Set<string>;
+    onChange: (rejected: Set<string>) => void;
+}
+
+const ENTITY_LABELS: Partial<Record<ImportEntityType, string>> = {
+    question: 'Questão',
+    lawCard: 'Card',
+    flashcard: 'Flashcard',
+    pair: 'Par',
+};
+
+/** Revisão do dry-run: mostra o diff por entidade e deixa aceitar/rejeitar antes do commit. */
+const ImportDiffReview: React.FC<ImportDiffReviewProps> = ({ dryRun, rejected, onChange }) => {
+    const [expanded, setExpanded] = useState<Set<string>>(new Set());
+    const risky = dryRun.diffs.filter(d => d.invalidatesProgress);
+
+    const toggle = (set: Set<string>, key: string) => {
+        const next = new Set(set);
+        if (next.has(key)) next.delete(key);
+        else next.add(key);
+        return next;
+    };
+
+    return (
+        <div className="space-y-3">
+            <div className="flex flex-wrap items-center justify-between gap-3">
+                <p className="text-xs text-slate-400">
+                    <span className="font-bold text-white">Dry-run ({dryRun.mode}):</span>{' '}
+                    {dryRun.newEntities} novo(s), {dryRun.diffs.length} com alteração, {dryRun.unchangedEntities} sem mudança
+                    {dryRun.skippedEntities > 0 && `, ${dryRun.skippedEntities} já existente(s) ignorado(s)`}.
+                </p>
+                {dryRun.diffs.length > 0 && (
+                    <div className="flex gap-2">
+                        <button onClick={() => onChange(new Set())} className="px-3 py-1.5 rounded-lg bg-white/5 border border-white/5 text-[10px] font-bold uppercase tracking-widest text-emerald-400 hover:bg-emerald-500/10">Aceitar todos</button>
+                        {risky.length > 0 && (
+                            <button onClick={() => onChange(new Set(risky.map(d => d.key)))} className="px-3 py-1.5 rounded-lg bg-white/5 border border-white/5 text-[10px] font-bold uppercase tracking-widest text-amber-400 hover:bg-amber-500/10">Rejeitar os que afetam progresso</button>
+                        )}
+                    </div>
+                )}
+            </div>
+
+            {dryRun.diffs.length === 0 ? (
+                <div className="flex items-center gap-2 p-3 rounded-xl bg-emerald-500/10 border border-emerald-500/20 text-emerald-300 text-xs font-bold">
+                    <CheckCircleIcon className="w-4 h-4" /> Nenhum conteúdo existente será alterado.
+                </div>
+            ) : (
+                <div className="bg-black/40 rounded-xl border border-white/5 max-h-96 overflow-y-auto custom-scrollbar">
+                    {dryRun.diffs.map(diff => {
+                        const isOpen = expanded.has(diff.key);
+                        const accepted = !rejected.has(diff.key);
+                        return (
+                            <div key={diff.key} className="border-b border-white/5 last:border-0">
+                                <div className="flex items-center gap-3 p-3 text-xs hover:bg-white/5">
+                                    <input type="checkbox" checked={accepted} onChange={() => onChange(toggle(rejected, diff.key))} title="Aplicar esta alteração" />
+                                    <button onClick={() => setExpanded(prev => toggle(prev, diff.key))} className="flex-1 flex items-center gap-2 text-left min-w-0">
+                                        {isOpen ? <ChevronDownIcon className="w-3 h-3 text-slate-500 shrink-0" /> : <ChevronRightIcon className="w-3 h-3 text-slate-500 shrink-0" />}
+                                        <span className="text-[9px] font-black uppercase tracking-widest text-slate-500 shrink-0">{ENTITY_LABELS[diff.entityType] || diff.entityType}</span>
+                                        <span className={`font-mono truncate ${accepted ? 'text-white' : 'text-slate-500 line-through'}`}>{diff.ref}</span>
+                                        <span className="text-slate-500 shrink-0">{diff.changes.length} campo(s)</span>
+                                    </button>
+                                    {diff.invalidatesProgress && (
+                                        <span className="flex items-center gap-1 text-[9px] font-bold uppercase tracking-widest text-amber-400 shrink-0" title="O progresso registrado foi obtido com o conteúdo antigo">
+                                            <ExclamationTriangleIcon className="w-3 h-3" /> Afeta progresso
+                                        </span>
+                                    )}
+                                </div>
+                                {isOpen && (
+                                    <div className="px-10 pb-3 space-y-2">
+                                        {diff.changes.map(change => (
+                                            <div key={change.field} className="text-[11px]">
+                                                <span className={`font-mono font-bold ${change.invalidatesProgress ? 'text-amber-400' : 'text-sky-400'}`}>{change.field}</span>
+                                                {change.before && <p className="text-rose-300/80 line-through whitespace-pre-wrap break-words">{change.before}</p>}
+                                                {change.after && <p className="text-emerald-300 whitespace-pre-wrap break-words">{change.after}</p>}
+                                                {!change.after && <p className="text-slate-500 italic">(removido)</p>}
+                                            </div>
+                                        ))}
+                                    </div>
+                                )}
+                            </div>
+                        );
+                    })}
+                </div>
+            )}
+        </div>
+    );
+};
+
+export default ImportDiffReview;
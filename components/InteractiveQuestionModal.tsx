@@ -76,6 +76,7 @@ const InteractiveQuestionModal: React.FC<InteractiveQuestionModalProps> = ({ que
                     wasCorrect: isCorrectNow,
                     masteryAfter: updates.masteryScore!,
                     stabilityAfter: updates.stability,
+                    nextReviewDate: updates.nextReviewDate,
                     timeSec: Math.round(timeTaken),
                     selfEvalLevel: evalLevel,
                     trapCode,
@@ -0,0 +1,85 @@
+import React, { useCallback, useRef, useState } from 'react';
+import ReactDOM from 'react-dom';
+import { LockClosedIcon } from './icons';
+
+type PassphraseMode = 'encrypt' | 'decrypt';
+
+const MIN_PASSPHRASE_LENGTH = 8;
+
+interface PassphraseModalProps {
+    mode: PassphraseMode;
+    onSubmit: (passphrase: string) => void;
+    onCancel: () => void;
+}
+
+const PassphraseModal: React.FC<PassphraseModalProps> = ({ mode, onSubmit, onCancel }) => {
+    const [passphrase, setPassphrase] = useState('');
+    const [confirm, setConfirm] = useState('');
+    const [error, setError] = useState<string | null>(null);
+
+    const handleSubmit = (e: React.FormEvent) => {
+        e.preventDefault();
+        if (mode === 'encrypt') {
+            if (passphrase.length < MIN_PASSPHRASE_LENGTH) return setError(`Use pelo menos ${MIN_PASSPHRASE_LENGTH} caracteres.`);
+            if (passphrase !== confirm) return setError('As senhas não conferem.');
+        }
+        if (!passphrase) return;
+        onSubmit(passphrase);
+    };
+
+    const inputClass = "w-full bg-bunker-50 dark:bg-bunker-800 border border-bunker-200 dark:border-bunker-700 rounded-lg p-2.5 text-sm";
+
+    const content = (
+        <div className="fixed inset-0 z-[15000] bg-black/70 backdrop-blur-sm flex items-center justify-center p-4" onClick={onCancel}>
+            <form onSubmit={handleSubmit} onClick={e => e.stopPropagation()} className="bg-white dark:bg-bunker-950 w-full max-w-sm rounded-2xl shadow-2xl p-6 space-y-4 border border-white/10 text-slate-900 dark:text-white">
+                <div className="flex items-center gap-3">
+                    <LockClosedIcon className="w-6 h-6 text-sky-500" />
+                    <h3 className="font-bold text-lg">{mode === 'encrypt' ? 'Criptografar backup' : 'Backup criptografado'}</h3>
+                </div>
+                <p className="text-xs text-slate-500">
+                    {mode === 'encrypt'
+                        ? 'O arquivo será cifrado (AES-GCM). Sem esta senha não há como recuperá-lo.'
+                        : 'Digite a senha usada na exportação deste backup.'}
+                </p>
+                <input type="password" autoFocus autoComplete="new-password" value={passphrase} onChange={e => { setPassphrase(e.target.value); setError(null); }} placeholder="Senha do backup" className={inputClass} />
+                {mode === 'encrypt' && (
+                    <input type="password" autoComplete="new-password" value={confirm} onChange={e => { setConfirm(e.target.value); setError(null); }} placeholder="Confirme a senha" className={inputClass} />
+                )}
+                {error && <p className="text-xs font-bold text-rose-500">{error}</p>}
+                <div className="flex gap-3">
+                    <button type="button" onClick={onCancel} className="flex-1 py-2.5 text-slate-500 font-bold rounded-xl hover:bg-slate-100 dark:hover:bg-white/5">Cancelar</button>
+                    <button type="submit" disabled={!passphrase} className="flex-1 py-2.5 bg-sky-600 text-white font-bold rounded-xl hover:bg-sky-500 disabled:opacity-50">Confirmar</button>
+                </div>
+            </form>
+        </div>
+    );
+
+    const modalRoot = document.getElementById('modal-root');
+    return modalRoot ? ReactDOM.createPortal(content, modalRoot) : content;
+};
+
+/**
+ * Pede uma senha de backup de forma assíncrona: `const pass = await askPassphrase('decrypt')`.
+ * Resolve `null` se o usuário cancelar. Renderize `passphraseModal` no componente.
+ */
+export const usePassphrasePrompt = () => {
+    const [mode, setMode] = useState<PassphraseMode | null>(null);
+    const resolverRef = useRef<((value: string | null) => void) | null>(null);
+
+    const askPassphrase = useCallback((nextMode: PassphraseMode) => new Promise<string | null>(resolve => {
+        resolverRef.current = resolve;
+        setMode(nextMode);
+    }), []);
+
+    const finish = (value: string | null) => {
+        resolverRef.current?.(value);
+        resolverRef.current = null;
+        setMode(null);
+    };
+
+    const passphraseModal = mode ? <PassphraseModal mode={mode} onSubmit={finish} onCancel={() => finish(null)} /> : null;
+
+    return { askPassphrase, passphraseModal };
+};
+
+export default PassphraseModal;
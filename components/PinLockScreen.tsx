@@ -0,0 +1,104 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { LockClosedIcon } from './icons';
+import { useSettings } from '../contexts/SettingsContext';
+
+const MAX_ATTEMPTS = 5;
+const COOLDOWN_SEC = 30;
+
+interface PinLockScreenProps {
+    onUnlock: () => void;
+}
+
+/**
+ * Tela de bloqueio que cobre todo o app até o PIN ser confirmado.
+ * Após MAX_ATTEMPTS erros seguidos, impõe uma espera antes de novas tentativas.
+ */
+const PinLockScreen: React.FC<PinLockScreenProps> = ({ onUnlock }) => {
+    const { settings, verifyPin } = useSettings();
+    const [pin, setPin] = useState('');
+    const [error, setError] = useState<string | null>(null);
+    const [isChecking, setIsChecking] = useState(false);
+    const [failures, setFailures] = useState(0);
+    const [cooldownUntil, setCooldownUntil] = useState(0);
+    const [now, setNow] = useState(Date.now());
+    const inputRef = useRef<HTMLInputElement>(null);
+
+    useEffect(() => { inputRef.current?.focus(); }, []);
+
+    useEffect(() => {
+        if (cooldownUntil <= now) return;
+        const timer = setInterval(() => setNow(Date.now()), 1000);
+        return () => clearInterval(timer);
+    }, [cooldownUntil, now]);
+
+    const cooldownLeft = Math.max(0, Math.ceil((cooldownUntil - now) / 1000));
+
+    const handleSubmit = async (e: React.FormEvent) => {
+        e.preventDefault();
+        if (!pin || isChecking || cooldownLeft > 0) return;
+
+        setIsChecking(true);
+        let ok: boolean;
+        try {
+            ok = await verifyPin(pin);
+        } catch (err) {
+            console.error('Falha ao verificar o PIN', err);
+            setError('Não foi possível verificar o PIN. Tente novamente.');
+            return;
+        } finally {
+            setIsChecking(false);
+        }
+
+        if (ok) {
+            setFailures(0);
+            onUnlock();
+            return;
+        }
+
+        const nextFailures = failures + 1;
+        setFailures(nextFailures);
+        setPin('');
+        if (nextFailures % MAX_ATTEMPTS === 0) {
+            setCooldownUntil(Date.now() + COOLDOWN_SEC * 1000);
+            setNow(Date.now());
+            setError(`Muitas tentativas. Aguarde ${COOLDOWN_SEC}s.`);
+        } else {
+            setError(`PIN incorreto (${MAX_ATTEMPTS - (nextFailures % MAX_ATTEMPTS)} tentativa(s) antes da pausa).`);
+        }
+    };
+
+    return (
+        <div className={`fixed inset-0 z-[20000] flex items-center justify-center bg-bunker-950 text-white p-4 ${settings.appTheme}`}>
+            <form onSubmit={handleSubmit} className="w-full max-w-xs text-center space-y-6">
+                <div className="w-16 h-16 mx-auto rounded-2xl bg-sky-500/10 border border-sky-500/20 flex items-center justify-center">
+                    <LockClosedIcon className="w-8 h-8 text-sky-400" />
+                </div>
+                <div>
+                    <h2 className="text-xl font-black">Miaaula bloqueado</h2>
+                    <p className="text-sm text-slate-400 mt-1">Digite o PIN para continuar{settings.userName ? `, ${settings.userName}` : ''}.</p>
+                </div>
+                <input
+                    ref={inputRef}
+                    type="password"
+                    inputMode="numeric"
+                    autoComplete="off"
+                    value={pin}
+                    onChange={e => { setPin(e.target.value); setError(null); }}
+                    disabled={cooldownLeft > 0}
+                    className="w-full text-center tracking-[0.5em] text-2xl font-bold bg-white/5 border border-white/10 rounded-xl p-3 focus:outline-none focus:border-sky-500 disabled:opacity-40"
+                    placeholder="••••"
+                />
+                {error && <p className="text-sm font-bold text-rose-400">{cooldownLeft > 0 ? `Aguarde ${cooldownLeft}s.` : error}</p>}
+                <button
+                    type="submit"
+                    disabled={!pin || isChecking || cooldownLeft > 0}
+                    className="w-full py-3 bg-sky-600 text-white font-bold rounded-xl hover:bg-sky-500 transition-all disabled:opacity-40"
+                >
+                    {isChecking ? 'Verificando...' : 'Desbloquear'}
+                </button>
+            </form>
+        </div>
+    );
+};
+
+export default PinLockScreen;
@@ -15,6 +15,7 @@ import { getText } from '../utils/i18nText';
 import { isStrictQuestion } from '../services/contentGate';
 import ConfirmationModal from './ConfirmationModal';
 import { useQuestionDispatch } from '../contexts/QuestionContext';
+import { useMediaUrl } from '../hooks/useMediaUrl';
 
 interface QuestionRunnerProps {
     question: Question;
@@ -30,7 +31,9 @@ interface QuestionRunnerProps {
     onDelete?: (id: string) => void;
 }
 
-const MediaBlock: React.FC<{ image?: string, audio?: string }> = ({ image, audio }) => {
+const MediaBlock: React.FC<{ image?: string, audio?: string }> = ({ image: imageValue, audio: audioValue }) => {
+    const image = useMediaUrl(imageValue);
+    const audio = useMediaUrl(audioValue);
     if (!image && !audio) return null;
     return (
         <div className="flex flex-col gap-3 items-center mb-6 w-full animate-fade-in" onClick={e => e.stopPropagation()}>
@@ -5,6 +5,7 @@ import { CheckCircleIcon, XCircleIcon, LockClosedIcon, TrashIcon } from './icons
 import QuestionExplanationBlocks from './QuestionExplanationBlocks';
 import PromptText from './ui/PromptText';
 import { sanitizeOptionText } from '../services/questionParser';
+import { useMediaUrl } from '../hooks/useMediaUrl';
 
 interface QuestionViewerProps {
     question: Question;
@@ -38,6 +39,9 @@ const QuestionViewer: React.FC<QuestionViewerProps> = ({
     highlightText,
     evidence
 }) => {
+    // Mídia só é buscada no media store quando vai aparecer
+    const imageUrl = useMediaUrl(showMedia ? question.questionImage : undefined);
+    const audioUrl = useMediaUrl(showMedia ? question.questionAudio : undefined);
     
     const handleOptionClick = (key: string) => {
         if (isLocked) return;
@@ -99,8 +103,8 @@ const QuestionViewer: React.FC<QuestionViewerProps> = ({
 
             {showMedia && (question.questionImage || question.questionAudio) && (
                 <div className="flex flex-col gap-4 mb-4">
-                    {question.questionImage && <img src={question.questionImage} alt="Questão" className="max-w-full rounded-lg max-h-80 object-contain mx-auto bg-black/20" />}
-                    {question.questionAudio && <audio controls src={question.questionAudio} className="w-full" />}
+                    {imageUrl && <img src={imageUrl} alt="Questão" loading="lazy" className="max-w-full rounded-lg max-h-80 object-contain mx-auto bg-black/20" />}
+                    {audioUrl && <audio controls src={audioUrl} className="w-full" />}
                 </div>
             )}
 
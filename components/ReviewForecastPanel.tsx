@@ -0,0 +1,140 @@
+import React, { useMemo, useState } from 'react';
+import { Flashcard, Question, SrsAlgorithmId } from '../types';
+import { ChartBarIcon } from './icons';
+import { GlassPanel, SectionHeader, MetricTile } from './ui/DesignSystem';
+import { useSettings } from '../contexts/SettingsContext';
+import { SCHEDULERS } from '../services/scheduler';
+import { daysUntilExam, simulateReviewLoad } from '../services/scheduler/reviewSimulator';
+import { getNextExamDate } from '../services/scheduler/examTargets';
+
+interface ReviewForecastPanelProps {
+    questions: Question[];
+    flashcards: Flashcard[];
+}
+
+type Horizon = 30 | 90 | 'exam';
+
+const formatMinutes = (minutes: number) => {
+    if (minutes < 60) return `${Math.round(minutes)}m`;
+    return `${Math.floor(minutes / 60)}h${String(Math.round(minutes % 60)).padStart(2, '0')}`;
+};
+
+const pct = (v: number) => `${Math.round(v * 100)}%`;
+
+const selectClass = "bg-black/20 border border-white/10 rounded-lg px-2 py-1.5 text-xs font-bold text-slate-200";
+
+/**
+ * Previsão de carga: revisões/dia, minutos e retenção por disciplina até a prova,
+ * para decidir quanto conteúdo novo importar por semana.
+ */
+const ReviewForecastPanel: React.FC<ReviewForecastPanelProps> = ({ questions, flashcards }) => {
+    const { settings } = useSettings();
+    const examDays = daysUntilExam(getNextExamDate(settings));
+
+    const [horizon, setHorizon] = useState<Horizon>(examDays && examDays <= 180 ? 'exam' : 30);
+    const [scheduler, setScheduler] = useState<SrsAlgorithmId | 'configured'>('configured');
+    const [requestRetention, setRequestRetention] = useState(settings.fsrs?.requestRetention ?? 0.9);
+    const [newPerDay, setNewPerDay] = useState(20);
+    const [includeHypotheticalNew, setIncludeHypotheticalNew] = useState(false);
+
+    const days = horizon === 'exam' ? (examDays || 30) : horizon;
+
+    const forecast = useMemo(() => simulateReviewLoad(questions, flashcards, settings, {
+        days,
+        scheduler,
+        requestRetention,
+        newPerDay,
+        includeHypotheticalNew
+    }), [questions, flashcards, settings, days, scheduler, requestRetention, newPerDay, includeHypotheticalNew]);
+
+    const maxReviews = Math.max(1, ...forecast.days.map(d => d.reviews));
+    const weeklyMinutes = forecast.days.length > 0 ? (forecast.totals.minutes / forecast.days.length) * 7 : 0;
+    const usesFsrs = scheduler === 'fsrs' || (scheduler === 'configured' && (settings.srsAlgorithm === 'fsrs' || Object.values(settings.subjectConfigs || {}).some(c => c.srsAlgorithm === 'fsrs')));
+
+    return (
+        <GlassPanel className="p-6">
+            <div className="flex flex-col md:flex-row justify-between md:items-center gap-4 mb-6">
+                <SectionHeader icon={<ChartBarIcon />} title="Previsão de Carga" subtitle={forecast.endsAtExam ? `Até a prova (${days} dias)` : `Próximos ${days} dias`} />
+                <div className="flex flex-wrap gap-2 items-center">
+                    <select value={String(horizon)} onChange={e => setHorizon(e.target.value === 'exam' ? 'exam' : Number(e.target.value) as Horizon)} className={selectClass}>
+                        <option value="30">30 dias</option>
+                        <option value="90">90 dias</option>
+                        {examDays && <option value="exam">Até a prova</option>}
+                    </select>
+                    <select value={scheduler} onChange={e => setScheduler(e.target.value as SrsAlgorithmId | 'configured')} className={selectClass}>
+                        <option value="configured">Algoritmo configurado</option>
+                        {Object.values(SCHEDULERS).map(s => <option key={s.id} value={s.id}>{s.label}</option>)}
+                    </select>
+                    {usesFsrs && (
+                        <select value={requestRetention} onChange={e => setRequestRetention(Number(e.target.value))} className={selectClass} title="Retenção desejada (FSRS)">
+                            {[0.8, 0.85, 0.9, 0.95].map(r => <option key={r} value={r}>R {pct(r)}</option>)}
+                        </select>
+                    )}
+                    <label className="flex items-center gap-1 text-xs font-bold text-slate-400">
+                        Novos/dia
+                        <input type="number" min={0} max={500} value={newPerDay} onChange={e => setNewPerDay(Math.max(0, Number(e.target.value) || 0))} className={`${selectClass} w-16`} />
+                    </label>
+                    <label className="flex items-center gap-1 text-xs font-bold text-slate-400 cursor-pointer" title="Ao acabar o conteúdo nunca visto, simula novos itens importados no mesmo ritmo">
+                        <input type="checkbox" checked={includeHypotheticalNew} onChange={e => setIncludeHypotheticalNew(e.target.checked)} />
+                        Simular importações
+                    </label>
+                </div>
+            </div>
+
+            <div className="grid grid-cols-2 lg:grid-cols-4 gap-4 mb-6">
+                <MetricTile label="Revisões" value={Math.round(forecast.totals.reviews)} tooltip="Total previsto no período (inclui primeiros contatos)." highlight />
+                <MetricTile label="Média/dia" value={forecast.days.length ? Math.round(forecast.totals.reviews / forecast.days.length) : 0} tooltip="Revisões por dia em média." />
+                <MetricTile label="Pico" value={`${Math.round(forecast.totals.peakReviews)}`} tooltip={forecast.totals.peakDate ? `Dia mais carregado: ${forecast.totals.peakDate.split('-').reverse().join('/')}` : ''} />
+                <MetricTile label="Tempo/semana" value={formatMinutes(weeklyMinutes)} tooltip="Baseado no tempo médio de cada item (avgTimeSec/timeSec)." />
+            </div>
+
+            <div className="flex items-end gap-px h-32 mb-2" role="img" aria-label="Revisões previstas por dia">
+                {forecast.days.map(day => (
+                    <div
+                        key={day.date}
+                        className="flex-1 flex flex-col justify-end h-full group"
+                        title={`${day.date.split('-').reverse().join('/')}: ${Math.round(day.reviews)} revisões (${Math.round(day.newItems)} novas) · ${formatMinutes(day.minutes)}`}
+                    >
+                        <div className="bg-sky-500/70 group-hover:bg-sky-400 rounded-t-sm" style={{ height: `${((day.reviews - day.newItems) / maxReviews) * 100}%` }} />
+                        <div className="bg-emerald-500/70 group-hover:bg-emerald-400" style={{ height: `${(day.newItems / maxReviews) * 100}%` }} />
+                    </div>
+                ))}
+            </div>
+            <div className="flex justify-between text-[9px] font-bold text-slate-500 uppercase mb-6">
+                <span>Hoje</span>
+                <span className="flex gap-3">
+                    <span className="flex items-center gap-1"><span className="w-2 h-2 rounded-sm bg-sky-500/70" /> Revisões</span>
+                    <span className="flex items-center gap-1"><span className="w-2 h-2 rounded-sm bg-emerald-500/70" /> Novos</span>
+                </span>
+                <span>{forecast.endDate.split('-').reverse().join('/')}</span>
+            </div>
+
+            <table className="w-full text-xs">
+                <thead>
+                    <tr className="text-left text-[10px] text-slate-500 uppercase tracking-widest">
+                        <th className="py-1">Disciplina</th>
+                        <th className="py-1 text-right">Itens</th>
+                        <th className="py-1 text-right">Revisões</th>
+                        <th className="py-1 text-right">Tempo</th>
+                        <th className="py-1 text-right">Retenção hoje</th>
+                        <th className="py-1 text-right">{forecast.endsAtExam ? 'Na prova' : 'No fim'}</th>
+                    </tr>
+                </thead>
+                <tbody>
+                    {forecast.subjects.map(s => (
+                        <tr key={s.subject} className="border-t border-white/5 text-slate-300">
+                            <td className="py-1.5 font-bold truncate max-w-[12rem]">{s.subject}</td>
+                            <td className="py-1.5 text-right">{s.items}</td>
+                            <td className="py-1.5 text-right">{Math.round(s.reviews)}</td>
+                            <td className="py-1.5 text-right">{formatMinutes(s.minutes)}</td>
+                            <td className="py-1.5 text-right text-slate-400">{pct(s.retentionNow)}</td>
+                            <td className={`py-1.5 text-right font-bold ${s.retentionAtEnd >= 0.8 ? 'text-emerald-400' : s.retentionAtEnd >= 0.6 ? 'text-amber-400' : 'text-rose-400'}`}>{pct(s.retentionAtEnd)}</td>
+                        </tr>
+                    ))}
+                </tbody>
+            </table>
+        </GlassPanel>
+    );
+};
+
+export default ReviewForecastPanel;
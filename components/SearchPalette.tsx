@@ -0,0 +1,226 @@
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import ReactDOM from 'react-dom';
+import { Question, Flashcard, LiteralnessCard } from '../types';
+import { useQuestionState } from '../contexts/QuestionContext';
+import { useFlashcardState } from '../contexts/FlashcardContext';
+import { useLiteralnessState } from '../contexts/LiteralnessContext';
+import { SearchIcon, XMarkIcon, ScaleIcon, ListBulletIcon, ClipboardDocumentCheckIcon, PencilIcon, PlayIcon } from './icons';
+import { searchAll } from '../services/search/searchService';
+import { buildSnippet, highlightText, SearchDocKind, SnippetPart } from '../services/search/searchIndex';
+import { filterExecutableItems } from '../services/contentGate';
+import InteractiveQuestionModal from './InteractiveQuestionModal';
+import StudySessionModal from './StudySessionModal';
+import FlashcardStudySessionModal from './FlashcardStudySessionModal';
+
+interface SearchPaletteProps {
+    isOpen: boolean;
+    onClose: () => void;
+    /** Revisão do índice (useSearchIndex): refaz a busca quando o conteúdo muda. */
+    revision: number;
+    onOpenLawCard: (card: LiteralnessCard) => void;
+}
+
+type KindFilter = 'ALL' | SearchDocKind;
+
+const KIND_META: Record<SearchDocKind, { label: string; icon: React.ReactNode; color: string }> = {
+    LAW: { label: 'Lei', icon: <ScaleIcon className="w-4 h-4" />, color: 'text-amber-400' },
+    QUESTION: { label: 'Questão', icon: <ListBulletIcon className="w-4 h-4" />, color: 'text-sky-400' },
+    FLASHCARD: { label: 'Flashcard', icon: <ClipboardDocumentCheckIcon className="w-4 h-4" />, color: 'text-violet-400' },
+    NOTE: { label: 'Anotação', icon: <PencilIcon className="w-4 h-4" />, color: 'text-emerald-400' },
+};
+
+const KIND_FILTERS: KindFilter[] = ['ALL', 'LAW', 'QUESTION', 'FLASHCARD', 'NOTE'];
+
+// Só os primeiros recebem snippet e vão para a tela; a sessão usa o conjunto inteiro
+const VISIBLE_LIMIT = 50;
+
+const SYNTAX_HINTS = ['"frase exata"', 'subject:', 'bank:', 'lawRef:', 'tag:'];
+
+const Highlighted: React.FC<{ parts: SnippetPart[] }> = ({ parts }) => (
+    <>{parts.map((part, i) => part.match
+        ? <mark key={i} className="bg-amber-400/20 text-amber-200 rounded px-0.5">{part.text}</mark>
+        : <span key={i}>{part.text}</span>)}</>
+);
+
+const SearchPalette: React.FC<SearchPaletteProps> = ({ isOpen, onClose, revision, onOpenLawCard }) => {
+    const questions = useQuestionState();
+    const flashcards = useFlashcardState();
+    const cards = useLiteralnessState();
+
+    const [query, setQuery] = useState('');
+    const [kindFilter, setKindFilter] = useState<KindFilter>('ALL');
+    const [activeIndex, setActiveIndex] = useState(0);
+    const [openQuestion, setOpenQuestion] = useState<Question | null>(null);
+    const [questionSession, setQuestionSession] = useState<{ title: string; questions: Question[] } | null>(null);
+    const [flashcardSession, setFlashcardSession] = useState<{ title: string; cards: Flashcard[] } | null>(null);
+    const inputRef = useRef<HTMLInputElement>(null);
+    const listRef = useRef<HTMLDivElement>(null);
+
+    const hits = useMemo(
+        () => (isOpen && query.trim() ? searchAll(query, kindFilter === 'ALL' ? undefined : [kindFilter]) : []),
+        [isOpen, query, kindFilter, revision]
+    );
+    const visible = useMemo(
+        () => hits.slice(0, VISIBLE_LIMIT).map(hit => ({ hit, snippet: buildSnippet(hit.doc, hit.terms), title: highlightText(hit.doc.title, hit.terms) })),
+        [hits]
+    );
+
+    // Conjunto de estudo: tudo o que a busca achou (não só o que está visível), passando pelo gate
+    const sessionQuestions = useMemo(() => {
+        const ids = new Set(hits.filter(h => h.doc.kind === 'QUESTION').map(h => h.doc.entityId));
+        return ids.size > 0 ? filterExecutableItems(questions.filter(q => ids.has(q.id))) : [];
+    }, [hits, questions]);
+    const sessionFlashcards = useMemo(() => {
+        const ids = new Set(hits.filter(h => h.doc.kind === 'FLASHCARD').map(h => h.doc.entityId));
+        return ids.size > 0 ? filterExecutableItems(flashcards.filter(f => ids.has(f.id))) : [];
+    }, [hits, flashcards]);
+
+    useEffect(() => { setActiveIndex(0); }, [query, kindFilter]);
+
+    useEffect(() => {
+        if (isOpen) setTimeout(() => inputRef.current?.focus(), 0);
+    }, [isOpen]);
+
+    useEffect(() => {
+        listRef.current?.querySelector(`[data-index="${activeIndex}"]`)?.scrollIntoView({ block: 'nearest' });
+    }, [activeIndex]);
+
+    if (!isOpen) return null;
+
+    const openHit = (index: number) => {
+        const hit = visible[index]?.hit;
+        if (!hit) return;
+        const { kind, entityId } = hit.doc;
+        if (kind === 'QUESTION') {
+            const question = questions.find(q => q.id === entityId);
+            if (question) setOpenQuestion(question);
+        } else if (kind === 'FLASHCARD') {
+            const flashcard = flashcards.find(f => f.id === entityId);
+            if (flashcard) setFlashcardSession({ title: 'Flashcard', cards: [flashcard] });
+        } else {
+            const card = cards.find(c => c.id === entityId);
+            if (card) {
+                onOpenLawCard(card);
+                onClose();
+            }
+        }
+    };
+
+    const handleKeyDown = (e: React.KeyboardEvent) => {
+        if (e.key === 'ArrowDown') {
+            e.preventDefault();
+            setActiveIndex(i => Math.min(i + 1, visible.length - 1));
+        } else if (e.key === 'ArrowUp') {
+            e.preventDefault();
+            setActiveIndex(i => Math.max(i - 1, 0));
+        } else if (e.key === 'Enter') {
+            e.preventDefault();
+            openHit(activeIndex);
+        } else if (e.key === 'Escape') {
+            onClose();
+        }
+    };
+
+    const isShowingItem = !!openQuestion || !!questionSession || !!flashcardSession;
+
+    return (
+        <>
+            {!isShowingItem && ReactDOM.createPortal(
+                <div className="fixed inset-0 z-[10000] bg-black/80 backdrop-blur-sm flex items-start justify-center p-4 pt-[10vh] animate-fade-in" onClick={onClose}>
+                    <div className="bg-slate-900 border border-white/10 w-full max-w-2xl max-h-[75vh] rounded-2xl shadow-2xl flex flex-col overflow-hidden" onClick={e => e.stopPropagation()} onKeyDown={handleKeyDown}>
+
+                        <div className="p-4 border-b border-white/5 flex items-center gap-3 bg-slate-800/50">
+                            <SearchIcon className="w-5 h-5 text-slate-400 shrink-0" />
+                            <input
+                                ref={inputRef}
+                                value={query}
+                                onChange={e => setQuery(e.target.value)}
+                                placeholder="Buscar em leis, questões, flashcards e anotações..."
+                                className="flex-1 bg-transparent text-white text-base outline-none placeholder:text-slate-500"
+                            />
+                            <button onClick={onClose} className="p-1.5 text-slate-400 hover:text-white transition-colors"><XMarkIcon className="w-5 h-5" /></button>
+                        </div>
+
+                        <div className="px-4 py-2 border-b border-white/5 flex items-center gap-2 overflow-x-auto text-[10px] font-black uppercase tracking-widest">
+                            {KIND_FILTERS.map(kind => (
+                                <button
+                                    key={kind}
+                                    onClick={() => setKindFilter(kind)}
+                                    className={`px-3 py-1 rounded-lg shrink-0 transition-colors ${kindFilter === kind ? 'bg-white text-slate-950' : 'text-slate-400 hover:text-white'}`}
+                                >
+                                    {kind === 'ALL' ? 'Tudo' : KIND_META[kind].label}
+                                </button>
+                            ))}
+                        </div>
+
+                        <div ref={listRef} className="flex-1 overflow-y-auto custom-scrollbar p-2">
+                            {!query.trim() ? (
+                                <div className="p-6 text-center">
+                                    <p className="text-sm text-slate-500 mb-3">Digite para buscar. Também dá para filtrar:</p>
+                                    <div className="flex flex-wrap justify-center gap-2">
+                                        {SYNTAX_HINTS.map(hint => (
+                                            <span key={hint} className="px-2 py-1 rounded-lg bg-white/5 border border-white/10 text-xs font-mono text-slate-300">{hint}</span>
+                                        ))}
+                                    </div>
+                                </div>
+                            ) : visible.length === 0 ? (
+                                <p className="p-6 text-center text-sm text-slate-500">Nada encontrado.</p>
+                            ) : visible.map(({ hit, snippet, title }, index) => {
+                                const meta = KIND_META[hit.doc.kind];
+                                return (
+                                    <button
+                                        key={hit.doc.id}
+                                        data-index={index}
+                                        onClick={() => openHit(index)}
+                                        onMouseMove={() => setActiveIndex(index)}
+                                        className={`w-full text-left p-3 rounded-xl flex items-start gap-3 transition-colors ${index === activeIndex ? 'bg-white/10' : 'hover:bg-white/5'}`}
+                                    >
+                                        <span className={`mt-0.5 shrink-0 ${meta.color}`}>{meta.icon}</span>
+                                        <div className="min-w-0 flex-1">
+                                            <p className="text-sm font-bold text-white truncate"><Highlighted parts={title} /></p>
+                                            <p className="text-[9px] font-black uppercase tracking-widest text-slate-500 truncate">{meta.label}{hit.doc.subtitle ? ` • ${hit.doc.subtitle}` : ''}</p>
+                                            {snippet && <p className="mt-1 text-xs text-slate-400 leading-relaxed line-clamp-2"><Highlighted parts={snippet.parts} /></p>}
+                                        </div>
+                                    </button>
+                                );
+                            })}
+                        </div>
+
+                        {hits.length > 0 && (
+                            <div className="p-3 border-t border-white/5 bg-slate-950/50 flex items-center justify-between gap-3">
+                                <span className="text-[10px] font-bold text-slate-500 uppercase tracking-widest">
+                                    {hits.length} resultado(s){hits.length > VISIBLE_LIMIT ? ` • exibindo ${VISIBLE_LIMIT}` : ''}
+                                </span>
+                                <div className="flex gap-2">
+                                    {sessionQuestions.length > 0 && (
+                                        <button onClick={() => setQuestionSession({ title: `Busca: ${query.trim()}`, questions: sessionQuestions })} className="px-4 py-2 rounded-xl bg-sky-600 text-white font-black text-[10px] uppercase tracking-widest hover:bg-sky-500 transition-all flex items-center gap-2">
+                                            <PlayIcon className="w-3.5 h-3.5" /> {sessionQuestions.length} questões
+                                        </button>
+                                    )}
+                                    {sessionFlashcards.length > 0 && (
+                                        <button onClick={() => setFlashcardSession({ title: `Busca: ${query.trim()}`, cards: sessionFlashcards })} className="px-4 py-2 rounded-xl bg-violet-600 text-white font-black text-[10px] uppercase tracking-widest hover:bg-violet-500 transition-all flex items-center gap-2">
+                                            <PlayIcon className="w-3.5 h-3.5" /> {sessionFlashcards.length} flashcards
+                                        </button>
+                                    )}
+                                </div>
+                            </div>
+                        )}
+                    </div>
+                </div>,
+                document.body
+            )}
+
+            {openQuestion && (
+                <InteractiveQuestionModal question={openQuestion} onClose={() => setOpenQuestion(null)} onQuestionAnswered={() => {}} />
+            )}
+            {questionSession && (
+                <StudySessionModal isOpen={true} questions={questionSession.questions} title={questionSession.title} onClose={() => setQuestionSession(null)} context="session" />
+            )}
+            {flashcardSession && (
+                <FlashcardStudySessionModal isOpen={true} title={flashcardSession.title} cards={flashcardSession.cards} onClose={() => setFlashcardSession(null)} />
+            )}
+        </>
+    );
+};
+
+export default SearchPalette;
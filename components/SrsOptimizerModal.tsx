@@ -0,0 +1,182 @@
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import ReactDOM from 'react-dom';
+import { ChartBarIcon, ArrowPathIcon } from './icons';
+import { useSettings } from '../contexts/SettingsContext';
+import { useQuestionState } from '../contexts/QuestionContext';
+import { useFlashcardState } from '../contexts/FlashcardContext';
+import { useLiteralnessState } from '../contexts/LiteralnessContext';
+import { useSchedulerMigration } from '../hooks/useSchedulerMigration';
+import { resolveSchedulerId } from '../services/scheduler';
+import { CalibrationBucket, collectReviewSequences, MIN_RELIABLE_SAMPLES, OPTIMIZABLE_PARAMS, OptimizerResult, pickLegacyParams } from '../services/scheduler/srsOptimizer';
+import { runSrsOptimizer } from '../services/scheduler/runSrsOptimizer';
+
+interface SrsOptimizerModalProps {
+    isOpen: boolean;
+    onClose: () => void;
+}
+
+const pct = (v: number) => `${Math.round(v * 100)}%`;
+
+const CalibrationTable: React.FC<{ title: string; buckets: CalibrationBucket[]; logLoss: number }> = ({ title, buckets, logLoss }) => (
+    <div className="flex-1 min-w-0">
+        <h4 className="text-[10px] font-black uppercase tracking-widest text-slate-400 mb-2">{title} · log-loss {logLoss.toFixed(4)}</h4>
+        <table className="w-full text-[11px]">
+            <thead>
+                <tr className="text-left text-slate-400">
+                    <th className="py-1">R previsto</th>
+                    <th className="py-1 text-right">Acerto real</th>
+                    <th className="py-1 text-right">N</th>
+                </tr>
+            </thead>
+            <tbody>
+                {buckets.filter(b => b.count > 0).map(b => {
+                    const gap = Math.abs(b.predicted - b.actual);
+                    return (
+                        <tr key={b.from} className="border-t border-bunker-100 dark:border-white/5">
+                            <td className="py-1">{pct(b.from)}–{pct(b.to)} <span className="text-slate-400">({pct(b.predicted)})</span></td>
+                            <td className={`py-1 text-right font-bold ${gap > 0.15 ? 'text-rose-500' : gap > 0.07 ? 'text-amber-500' : 'text-emerald-500'}`}>{pct(b.actual)}</td>
+                            <td className="py-1 text-right text-slate-400">{b.count}</td>
+                        </tr>
+                    );
+                })}
+            </tbody>
+        </table>
+    </div>
+);
+
+/**
+ * Ajusta as constantes srsV2 ao histórico do próprio usuário e mostra a
+ * calibração antes/depois (R previsto x acerto real por faixa).
+ */
+const SrsOptimizerModal: React.FC<SrsOptimizerModalProps> = ({ isOpen, onClose }) => {
+    const { settings, updateSettings } = useSettings();
+    const questions = useQuestionState();
+    const flashcards = useFlashcardState();
+    const cards = useLiteralnessState();
+    const { runMigration } = useSchedulerMigration();
+
+    const [progress, setProgress] = useState<number | null>(null);
+    const [result, setResult] = useState<OptimizerResult | null>(null);
+    const [error, setError] = useState<string | null>(null);
+    const cancelRef = useRef<(() => void) | null>(null);
+
+    // Cards de lei seca só entram se tiverem histórico próprio (o progresso deles vem dos itens vinculados)
+    const sequences = useMemo(
+        () => isOpen ? collectReviewSequences([...questions, ...flashcards, ...(cards as any[])]) : [],
+        [isOpen, questions, flashcards, cards]
+    );
+    const attemptCount = useMemo(() => sequences.reduce((sum, seq) => sum + seq.length, 0), [sequences]);
+
+    useEffect(() => () => cancelRef.current?.(), []);
+
+    if (!isOpen) return null;
+
+    const handleRun = () => {
+        setResult(null);
+        setError(null);
+        setProgress(0);
+        const run = runSrsOptimizer(sequences, pickLegacyParams(settings.srsV2), settings.learning?.srs.stabilityCapDays || 365, p => setProgress(p));
+        cancelRef.current = run.cancel;
+        run.promise
+            .then(setResult)
+            .catch(e => setError(e.message))
+            .finally(() => {
+                cancelRef.current = null;
+                setProgress(null);
+            });
+    };
+
+    const handleClose = () => {
+        cancelRef.current?.();
+        onClose();
+    };
+
+    const handleApply = () => {
+        if (!result) return;
+        const nextSettings = { ...settings, srsV2: { ...settings.srsV2, ...result.fitted } };
+        updateSettings({ srsV2: nextSettings.srsV2 });
+        if (window.confirm('Parâmetros aplicados. Recalcular agora as agendas dos itens no algoritmo Clássico com os novos valores?')) {
+            const migrated = runMigration(nextSettings, { force: true, filter: item => resolveSchedulerId(item, nextSettings) === 'legacy' });
+            alert(`Agendas recalculadas!\nQuestões: ${migrated.questions}\nFlashcards: ${migrated.flashcards}`);
+        }
+        handleClose();
+    };
+
+    const isRunning = progress !== null;
+    const improvement = result && result.before.logLoss > 0 ? (1 - result.after.logLoss / result.before.logLoss) : 0;
+
+    const content = (
+        <div className="fixed inset-0 z-[10000] bg-black/70 backdrop-blur-sm flex items-center justify-center p-4" onClick={handleClose}>
+            <div className="bg-white dark:bg-bunker-950 w-full max-w-2xl max-h-[90vh] overflow-y-auto custom-scrollbar rounded-2xl shadow-2xl p-6 border border-white/10 text-slate-900 dark:text-white space-y-5" onClick={e => e.stopPropagation()}>
+                <div className="flex items-center gap-3">
+                    <ChartBarIcon className="w-8 h-8 text-sky-600" />
+                    <div>
+                        <h3 className="text-xl font-bold">Otimizar Parâmetros do SRS</h3>
+                        <p className="text-xs text-slate-500">Ajusta as constantes do algoritmo Clássico ao seu histórico de revisões.</p>
+                    </div>
+                </div>
+
+                <p className="text-sm text-slate-500">
+                    {attemptCount} tentativa(s) em {sequences.length} sequência(s) de revisão.
+                    {attemptCount - sequences.length < MIN_RELIABLE_SAMPLES && <span className="block text-amber-500 font-bold mt-1">Histórico pequeno: o ajuste pode não generalizar.</span>}
+                </p>
+
+                {isRunning && (
+                    <div>
+                        <div className="h-2 rounded-full bg-bunker-100 dark:bg-bunker-800 overflow-hidden">
+                            <div className="h-full bg-sky-500 transition-all" style={{ width: `${Math.round((progress || 0) * 100)}%` }} />
+                        </div>
+                        <p className="text-xs text-slate-400 mt-2 flex items-center gap-2"><ArrowPathIcon className="w-3 h-3 animate-spin" /> Otimizando em segundo plano...</p>
+                    </div>
+                )}
+
+                {error && <p className="text-sm font-bold text-rose-500">{error}</p>}
+
+                {result && (
+                    <>
+                        <p className={`text-sm font-bold ${improvement > 0 ? 'text-emerald-500' : 'text-slate-500'}`}>
+                            {improvement > 0 ? `Log-loss ${(improvement * 100).toFixed(1)}% menor com os parâmetros ajustados.` : 'Os parâmetros atuais já são os melhores encontrados.'}
+                        </p>
+                        <table className="w-full text-xs">
+                            <thead>
+                                <tr className="text-left text-slate-400 uppercase tracking-widest">
+                                    <th className="py-1">Parâmetro</th>
+                                    <th className="py-1 text-right">Atual</th>
+                                    <th className="py-1 text-right">Ajustado</th>
+                                </tr>
+                            </thead>
+                            <tbody>
+                                {OPTIMIZABLE_PARAMS.map(key => (
+                                    <tr key={key} className="border-t border-bunker-100 dark:border-white/5">
+                                        <td className="py-1.5 font-mono">{key}</td>
+                                        <td className="py-1.5 text-right">{result.current[key].toFixed(3)}</td>
+                                        <td className={`py-1.5 text-right font-bold ${result.fitted[key] !== result.current[key] ? 'text-sky-500' : ''}`}>{result.fitted[key].toFixed(3)}</td>
+                                    </tr>
+                                ))}
+                            </tbody>
+                        </table>
+                        <div className="flex flex-col sm:flex-row gap-6">
+                            <CalibrationTable title="Antes" buckets={result.before.buckets} logLoss={result.before.logLoss} />
+                            <CalibrationTable title="Depois" buckets={result.after.buckets} logLoss={result.after.logLoss} />
+                        </div>
+                    </>
+                )}
+
+                <div className="flex flex-col sm:flex-row gap-3 pt-2">
+                    <button onClick={handleClose} className="flex-1 py-3 text-slate-500 font-bold hover:bg-slate-100 dark:hover:bg-white/5 rounded-xl transition-all">{isRunning ? 'Cancelar' : 'Fechar'}</button>
+                    <button onClick={handleRun} disabled={isRunning || sequences.length === 0} className="flex-1 py-3 border border-sky-500/40 text-sky-600 font-bold rounded-xl hover:bg-sky-500/10 transition-all disabled:opacity-50">
+                        {result ? 'Rodar de novo' : 'Otimizar'}
+                    </button>
+                    <button onClick={handleApply} disabled={!result || improvement <= 0} className="flex-1 py-3 bg-sky-600 text-white font-bold rounded-xl shadow-lg hover:bg-sky-500 active:scale-95 transition-all disabled:opacity-50 disabled:cursor-not-allowed">
+                        Aplicar parâmetros
+                    </button>
+                </div>
+            </div>
+        </div>
+    );
+
+    const modalRoot = document.getElementById('modal-root');
+    return modalRoot ? ReactDOM.createPortal(content, modalRoot) : content;
+};
+
+export default SrsOptimizerModal;
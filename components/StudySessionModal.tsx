@@ -209,6 +209,7 @@ const StudySessionModal: React.FC<StudySessionModalProps> = ({ isOpen, onClose,
                 wasCorrect: isCorrectNow, 
                 masteryAfter: questionUpdates.masteryScore!, 
                 stabilityAfter: questionUpdates.stability, 
+                nextReviewDate: questionUpdates.nextReviewDate, 
                 timeSec: Math.round(timeTaken), 
                 selfEvalLevel: evalLevel, 
                 timingClass, 
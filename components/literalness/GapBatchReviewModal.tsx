@@ -0,0 +1,206 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import ReactDOM from 'react-dom';
+import { LiteralnessCard, Gap } from '../../types';
+import { useLiteralnessDispatch } from '../../contexts/LiteralnessContext';
+import { SparklesIcon, XMarkIcon, CheckCircleIcon, XCircleIcon, PencilIcon } from '../icons';
+import { generateLawGaps, GapCandidate, GAP_TARGET_LABELS } from '../../services/gapGeneratorService';
+import { parseGapTemplate } from '../../services/gapService';
+
+interface GapBatchReviewModalProps {
+    isOpen: boolean;
+    onClose: () => void;
+    lawId: string;
+    cards: LiteralnessCard[];
+}
+
+type ReviewStatus = 'PENDING' | 'ACCEPTED' | 'REJECTED';
+
+interface ReviewEntry {
+    status: ReviewStatus;
+    gap: Gap;
+}
+
+const OPTION_KEYS = ['A', 'B', 'C', 'D', 'E'];
+
+/** Mesmo critério do importador: lacuna marcada com {{ }} e alternativa correta preenchida. */
+const validateGap = (gap: Gap): string | null => {
+    const answers = parseGapTemplate(gap.text).answers;
+    if (answers.length === 0) return 'Marque a lacuna com {{ }}.';
+    const correctText = gap.options?.[gap.correct || 'A'];
+    if (!correctText) return 'A alternativa correta está vazia.';
+    if (answers[0].toLowerCase() !== correctText.trim().toLowerCase()) return 'A alternativa correta difere do texto entre {{ }}.';
+    return null;
+};
+
+const GapPreview: React.FC<{ text: string }> = ({ text }) => (
+    <p className="text-sm text-slate-300 leading-relaxed">
+        {parseGapTemplate(text).parts.map((part, i) => part.type === 'gap'
+            ? <span key={i} className="px-1.5 py-0.5 mx-0.5 rounded bg-sky-500/15 text-sky-300 font-bold">{part.content}</span>
+            : <span key={i}>{part.content}</span>)}
+    </p>
+);
+
+const GapBatchReviewModal: React.FC<GapBatchReviewModalProps> = ({ isOpen, onClose, lawId, cards }) => {
+    const { addBatchCards } = useLiteralnessDispatch();
+    const [maxPerArticle, setMaxPerArticle] = useState(3);
+    const [reviews, setReviews] = useState<Record<string, ReviewEntry>>({});
+    const [editingKey, setEditingKey] = useState<string | null>(null);
+    const [isSaving, setIsSaving] = useState(false);
+
+    const candidates = useMemo(
+        () => (isOpen ? generateLawGaps(cards, lawId, { maxPerArticle }) : []),
+        // Só regenera ao abrir ou mudar o limite: salvar as aceitas não deve refazer a fila
+        [isOpen, lawId, maxPerArticle]
+    );
+
+    useEffect(() => {
+        setReviews(Object.fromEntries(candidates.map(c => [c.key, { status: 'PENDING' as ReviewStatus, gap: c.gap }])));
+        setEditingKey(null);
+    }, [candidates]);
+
+    if (!isOpen) return null;
+
+    const counts = Object.values(reviews).reduce((acc, r) => ({ ...acc, [r.status]: acc[r.status] + 1 }), { PENDING: 0, ACCEPTED: 0, REJECTED: 0 } as Record<ReviewStatus, number>);
+
+    const setStatus = (key: string, status: ReviewStatus) => {
+        setReviews(prev => ({ ...prev, [key]: { ...prev[key], status } }));
+        if (editingKey === key) setEditingKey(null);
+    };
+
+    const updateGap = (key: string, changes: Partial<Gap>) =>
+        setReviews(prev => ({ ...prev, [key]: { ...prev[key], gap: { ...prev[key].gap, ...changes } } }));
+
+    const acceptAllPending = () => setReviews(prev => Object.fromEntries(Object.entries(prev).map(([key, r]) =>
+        [key, r.status === 'PENDING' && !validateGap(r.gap) ? { ...r, status: 'ACCEPTED' as ReviewStatus } : r])));
+
+    const handleSave = async () => {
+        const byCard = new Map<string, Gap[]>();
+        candidates.forEach(c => {
+            const review = reviews[c.key];
+            if (review?.status !== 'ACCEPTED' || validateGap(review.gap)) return;
+            byCard.set(c.cardId, [...(byCard.get(c.cardId) || []), review.gap]);
+        });
+        if (byCard.size === 0) return;
+
+        setIsSaving(true);
+        try {
+            const updated = cards
+                .filter(card => byCard.has(card.id))
+                .map(card => ({ ...card, extraGaps: [...(card.extraGaps || []), ...byCard.get(card.id)!] }));
+            await addBatchCards(updated);
+            onClose();
+        } finally {
+            setIsSaving(false);
+        }
+    };
+
+    const renderCandidate = (candidate: GapCandidate) => {
+        const review = reviews[candidate.key];
+        if (!review) return null;
+        const { gap, status } = review;
+        const error = validateGap(gap);
+        const isEditing = editingKey === candidate.key;
+
+        return (
+            <div key={candidate.key} className={`p-4 rounded-xl border transition-all ${status === 'ACCEPTED' ? 'bg-emerald-500/5 border-emerald-500/30' : status === 'REJECTED' ? 'bg-white/[0.02] border-white/5 opacity-50' : 'bg-white/5 border-white/10'}`}>
+                <div className="flex items-center justify-between gap-3 mb-3">
+                    <div className="flex items-center gap-2 text-[9px] font-black uppercase tracking-widest">
+                        <span className="text-white">{candidate.article}</span>
+                        <span className="text-slate-500">{candidate.dispositivo}</span>
+                        <span className="px-2 py-0.5 rounded-full bg-sky-500/10 text-sky-400 border border-sky-500/20">{GAP_TARGET_LABELS[candidate.kind]}</span>
+                    </div>
+                    <div className="flex items-center gap-1">
+                        <button onClick={() => setStatus(candidate.key, 'ACCEPTED')} disabled={!!error} title={error || 'Aceitar'} className={`p-1.5 rounded-lg transition-colors disabled:opacity-30 ${status === 'ACCEPTED' ? 'text-emerald-400 bg-emerald-500/10' : 'text-slate-500 hover:text-emerald-400'}`}><CheckCircleIcon className="w-4 h-4" /></button>
+                        <button onClick={() => setEditingKey(isEditing ? null : candidate.key)} title="Editar" className={`p-1.5 rounded-lg transition-colors ${isEditing ? 'text-white bg-white/10' : 'text-slate-500 hover:text-white'}`}><PencilIcon className="w-4 h-4" /></button>
+                        <button onClick={() => setStatus(candidate.key, 'REJECTED')} title="Rejeitar" className={`p-1.5 rounded-lg transition-colors ${status === 'REJECTED' ? 'text-rose-400 bg-rose-500/10' : 'text-slate-500 hover:text-rose-400'}`}><XCircleIcon className="w-4 h-4" /></button>
+                    </div>
+                </div>
+
+                {isEditing ? (
+                    <div className="space-y-2">
+                        <textarea
+                            value={gap.text}
+                            onChange={e => updateGap(candidate.key, { text: e.target.value })}
+                            rows={3}
+                            className="w-full bg-slate-950 border border-white/10 rounded-xl p-3 text-white text-sm outline-none focus:border-sky-500 transition-colors"
+                        />
+                        {OPTION_KEYS.filter(k => gap.options?.[k] !== undefined).map(k => (
+                            <div key={k} className="flex items-center gap-2">
+                                <button onClick={() => updateGap(candidate.key, { correct: k })} className={`w-7 h-7 rounded-lg text-xs font-black shrink-0 ${gap.correct === k ? 'bg-emerald-600 text-white' : 'bg-white/5 text-slate-400 hover:text-white'}`}>{k}</button>
+                                <input
+                                    value={gap.options?.[k] || ''}
+                                    onChange={e => updateGap(candidate.key, { options: { ...gap.options, [k]: e.target.value } })}
+                                    className="flex-1 bg-slate-950 border border-white/10 rounded-lg px-3 py-1.5 text-white text-sm outline-none focus:border-sky-500"
+                                />
+                            </div>
+                        ))}
+                    </div>
+                ) : (
+                    <>
+                        <GapPreview text={gap.text} />
+                        <div className="flex flex-wrap gap-2 mt-3">
+                            {OPTION_KEYS.filter(k => gap.options?.[k]).map(k => (
+                                <span key={k} className={`px-2 py-1 rounded-lg text-[11px] border ${gap.correct === k ? 'border-emerald-500/40 text-emerald-300 bg-emerald-500/10' : 'border-white/10 text-slate-400'}`}>
+                                    <strong className="mr-1">{k})</strong>{gap.options![k]}
+                                </span>
+                            ))}
+                        </div>
+                    </>
+                )}
+                {error && <p className="mt-2 text-[10px] font-bold text-rose-400">{error}</p>}
+            </div>
+        );
+    };
+
+    return ReactDOM.createPortal(
+        <div className="fixed inset-0 z-[10000] bg-black/80 backdrop-blur-sm flex items-center justify-center p-4 animate-fade-in" onClick={onClose}>
+            <div className="bg-slate-900 border border-white/10 w-full max-w-3xl max-h-[90vh] rounded-2xl shadow-2xl flex flex-col overflow-hidden" onClick={e => e.stopPropagation()}>
+
+                <header className="p-6 border-b border-white/5 flex justify-between items-center bg-slate-800/50">
+                    <div className="flex items-center gap-3">
+                        <div className="p-2 bg-sky-500/10 rounded-xl text-sky-400 border border-sky-500/20">
+                            <SparklesIcon className="w-5 h-5" />
+                        </div>
+                        <div>
+                            <h3 className="font-bold text-white text-lg leading-tight">Gerar Lacunas</h3>
+                            <p className="text-xs text-slate-500 font-medium uppercase tracking-widest">{lawId} • {counts.PENDING} pendentes • {counts.ACCEPTED} aceitas • {counts.REJECTED} rejeitadas</p>
+                        </div>
+                    </div>
+                    <button onClick={onClose} className="p-2 text-slate-400 hover:text-white transition-colors"><XMarkIcon className="w-5 h-5"/></button>
+                </header>
+
+                <div className="px-6 py-3 border-b border-white/5 flex items-center justify-between gap-4 text-[10px] font-black uppercase tracking-widest">
+                    <label className="flex items-center gap-2 text-slate-500">
+                        Por artigo
+                        <select value={maxPerArticle} onChange={e => setMaxPerArticle(Number(e.target.value))} className="bg-slate-950 border border-white/10 rounded-lg px-2 py-1 text-white">
+                            {[1, 2, 3, 4, 5].map(n => <option key={n} value={n}>{n}</option>)}
+                        </select>
+                    </label>
+                    {counts.PENDING > 0 && (
+                        <button onClick={acceptAllPending} className="text-emerald-400 hover:text-emerald-300">Aceitar pendentes</button>
+                    )}
+                </div>
+
+                <div className="p-6 space-y-3 overflow-y-auto custom-scrollbar flex-1">
+                    {candidates.length === 0
+                        ? <p className="text-center text-sm text-slate-500 py-10">Nenhuma lacuna nova encontrada: os alvos desta lei já têm lacunas ou o texto não tem prazos, números, autoridades ou exceções.</p>
+                        : candidates.map(renderCandidate)}
+                </div>
+
+                <footer className="p-6 border-t border-white/5 bg-slate-950/50 flex justify-end gap-3">
+                    <button onClick={onClose} className="px-5 py-2.5 rounded-xl text-slate-400 font-bold text-xs uppercase tracking-widest hover:text-white hover:bg-white/5 transition-colors">Cancelar</button>
+                    <button
+                        onClick={handleSave}
+                        disabled={counts.ACCEPTED === 0 || isSaving}
+                        className="px-6 py-2.5 rounded-xl bg-sky-600 text-white font-black text-xs uppercase tracking-widest hover:bg-sky-500 shadow-lg shadow-sky-500/20 transition-all disabled:opacity-50 disabled:cursor-not-allowed"
+                    >
+                        Salvar {counts.ACCEPTED} lacuna(s)
+                    </button>
+                </footer>
+            </div>
+        </div>,
+        document.body
+    );
+};
+
+export default GapBatchReviewModal;
@@ -6,9 +6,12 @@ import { useFlashcardDispatch, useFlashcardState } from '../../contexts/Flashcar
 import { useSettings } from '../../contexts/SettingsContext';
 import { LiteralnessCard, Question, Flashcard, LawContentType, ImportMode } from '../../types';
 import * as srs from '../../services/srsService';
-import { parseLitRefText, ImportResult, enforceTargetLinkage, cleanBatchForExport, runImportSelfTest } from '../../services/import/litRefParser';
+import { parseLitRefText, ImportResult, enforceTargetLinkage, cleanBatchForExport, runImportSelfTest, exportLitRefText, verifyLitRefRoundTrip } from '../../services/import/litRefParser';
 import { generateSmartGap } from '../../services/gapGeneratorService';
 import { traceService } from '../../services/traceService'; 
+import { computeImportDiff, applyImportDecisions, buildDecisionLog, pickFields, CARD_CONTENT_FIELDS, FLASHCARD_CONTENT_FIELDS } from '../../services/import/importDiff';
+import { recordImportBatch } from '../../services/import/importHistory';
+import ImportDiffReview from '../ImportDiffReview';
 import { 
     CheckCircleIcon, XMarkIcon, SparklesIcon, CloudIcon, ChevronLeftIcon, 
     ExclamationTriangleIcon, BoltIcon, ClipboardDocumentCheckIcon, 
@@ -26,6 +29,7 @@ const OFFICIAL_TEMPLATE = `LIT_REF: LEI_EXEMPLO_01
 LAW_ID: DIREITO CONSTITUCIONAL
 ARTICLE: Art. 5º
 TOPIC: Direitos Fundamentais
+STRUCTURE: Título II - Dos Direitos e Garantias Fundamentais > Capítulo I
 PHASE1_FULL: Todos são iguais perante a lei, sem distinção de qualquer natureza.
 RESUMO_POR_PARTES: —
 KEYWORDS_PROVA: Igualdade; Isonomia
@@ -83,6 +87,24 @@ const ImportLiteralness: React.FC<ImportLiteralnessProps> = ({ type = 'LAW_DRY',
     const [selectedTargetLawId, setSelectedTargetLawId] = useState<string>('');
     const [forceLawId, setForceLawId] = useState(false);
     const [selectedBatches, setSelectedBatches] = useState<Set<string>>(new Set());
+    const [selectedLaws, setSelectedLaws] = useState<Set<string>>(new Set());
+    const [exported, setExported] = useState<{ text: string; blocks: number; warnings: string[]; diffs: string[] } | null>(null);
+    const [rejected, setRejected] = useState<Set<string>>(new Set());
+
+    // Cards como serão gravados (tipo e lei forçada aplicados); no modo APPEND só as lacunas vão para o card alvo
+    const stagedCards = useMemo<LiteralnessCard[]>(() => {
+        if (!report || targetMode === 'APPEND') return [];
+        return report.cards.map(c => ({ ...c, contentType: type, ...(forcedLawId ? { lawId: forcedLawId } : {}) }));
+    }, [report, targetMode, type, forcedLawId]);
+
+    const dryRun = useMemo(() => {
+        if (!report || hasCriticalErrors) return null;
+        return computeImportDiff(
+            { questions: report.questions, cards: stagedCards, flashcards: report.flashcards },
+            { questions: allQuestions, cards: allCards, flashcards: allFlashcards },
+            importMode
+        );
+    }, [report, hasCriticalErrors, stagedCards, allQuestions, allCards, allFlashcards, importMode]);
 
     const availableBatches = useMemo(() => {
         const batches = new Map<string, { id: string, count: number, date: string }>();
@@ -109,6 +131,44 @@ const ImportLiteralness: React.FC<ImportLiteralnessProps> = ({ type = 'LAW_DRY',
         return Array.from(laws.entries()).map(([id, count]) => ({ id, count })).sort((a,b) => a.id.localeCompare(b.id));
     }, [allCards]);
 
+    const toggleInSet = (set: Set<string>, id: string) => {
+        const next = new Set(set);
+        if (next.has(id)) next.delete(id); else next.add(id);
+        return next;
+    };
+
+    const exportCards = useMemo(
+        () => allCards.filter(c => selectedLaws.has(c.lawId || 'Geral') || (c.importBatchId && selectedBatches.has(c.importBatchId))),
+        [allCards, selectedLaws, selectedBatches]
+    );
+
+    const handleGenerateExport = () => {
+        const bundle = cleanBatchForExport(exportCards, allQuestions, allFlashcards);
+        const { text: exportText, blocks } = exportLitRefText(bundle);
+        setExported({ text: exportText, blocks, warnings: bundle.warnings, diffs: verifyLitRefRoundTrip(bundle, settings) });
+    };
+
+    const handleCopyExport = () => {
+        if (!exported) return;
+        navigator.clipboard.writeText(exported.text);
+        setCopyFeedback(true);
+        setTimeout(() => setCopyFeedback(false), 2000);
+    };
+
+    const handleDownloadExport = () => {
+        if (!exported) return;
+        const blob = new Blob([exported.text], { type: 'text/plain;charset=utf-8;' });
+        const link = document.createElement("a");
+        const url = URL.createObjectURL(blob);
+        link.setAttribute("href", url);
+        const today = new Date().toISOString().slice(0, 10);
+        link.setAttribute("download", `miaaula_lit_ref_${today}.txt`);
+        document.body.appendChild(link);
+        link.click();
+        document.body.removeChild(link);
+        URL.revokeObjectURL(url);
+    };
+
     const handleAnalyze = () => {
         if (!text.trim()) return;
         const batchId = `BATCH_${Date.now()}`;
@@ -116,31 +176,61 @@ const ImportLiteralness: React.FC<ImportLiteralnessProps> = ({ type = 'LAW_DRY',
         if (targetMode === 'APPEND' && selectedTargetCardId) result = enforceTargetLinkage(result, selectedTargetCardId);
         setHasCriticalErrors(result.errors.length > 0);
         setReport(result);
+        setRejected(new Set());
     };
 
     const handleConfirmImport = () => {
         if (!report || hasCriticalErrors) return;
         
         updateSettings({ lastImportBatchId: report.batchId });
+
+        // Só entra o que foi aceito na revisão do dry-run
+        const reviewed = applyImportDecisions({ questions: report.questions, cards: stagedCards, flashcards: report.flashcards, gaps: report.gaps }, rejected);
+        if (dryRun && dryRun.diffs.length > 0) {
+            traceService.trace('IMPORT_DECISIONS', 'IMPORT', report.batchId, { mode: importMode, decisions: buildDecisionLog(dryRun, rejected) });
+        }
         
+        let cardsToImport: LiteralnessCard[] = [];
         if (targetMode === 'APPEND' && selectedTargetCardId) {
             const targetCard = allCards.find(c => c.id === selectedTargetCardId);
             if (targetCard && report.cards[0]) {
                 const mergedGaps = [...(targetCard.extraGaps || []), ...(report.cards[0].extraGaps || [])];
-                updateCard({ ...targetCard, extraGaps: mergedGaps });
+                cardsToImport = [{ ...targetCard, extraGaps: mergedGaps }];
             }
         } else {
-            let cardsToImport = report.cards.map(c => ({ ...c, contentType: type }));
-            if (forcedLawId) cardsToImport = cardsToImport.map(c => ({ ...c, lawId: forcedLawId }));
-            
+            // Reimportação (ex.: texto exportado e editado): atualiza o conteúdo sem zerar o progresso
+            const existingCards = new Map(allCards.map(c => [c.id, c]));
+            cardsToImport = reviewed.cards.flatMap(c => {
+                const existing = existingCards.get(c.id);
+                if (!existing) return [c];
+                if (importMode === 'SKIP') return [];
+                return [{ ...existing, ...pickFields(c, CARD_CONTENT_FIELDS) }];
+            });
+        }
+
+        const existingFlashcards = new Map(allFlashcards.map(f => [f.id, f]));
+        const flashcardsToImport = reviewed.flashcards.flatMap(f => {
+            const existing = existingFlashcards.get(f.id);
+            if (!existing) return [f];
+            if (importMode === 'SKIP') return [];
+            return [{ ...existing, ...pickFields(f, FLASHCARD_CONTENT_FIELDS), updatedAt: srs.todayISO() }];
+        });
+
+        // Snapshot do que será sobrescrito, para o rollback do lote
+        recordImportBatch(
+            { batchId: report.batchId, source: 'LIT_REF', label: `${report.stats.cards} card(s) de lei seca`, mode: importMode, questions: reviewed.questions, flashcards: flashcardsToImport, cards: cardsToImport },
+            { questions: allQuestions, flashcards: allFlashcards, cards: allCards }
+        );
+
+        if (targetMode === 'APPEND' && selectedTargetCardId) {
+            if (cardsToImport[0]) updateCard(cardsToImport[0]);
+        } else if (cardsToImport.length > 0) {
             // FIX: Passando as lacunas explicitamente para salvar no banco
-            if (cardsToImport.length > 0) {
-                addBatchCards(cardsToImport, report.questions, report.flashcards, report.gaps);
-            }
+            addBatchCards(cardsToImport, reviewed.questions, reviewed.flashcards, reviewed.gaps);
         }
         
-        if (report.questions.length > 0) addBatchQuestions(report.questions, importMode);
-        if (report.flashcards.length > 0) addBatchFlashcards(report.flashcards);
+        if (reviewed.questions.length > 0) addBatchQuestions(reviewed.questions, importMode);
+        if (flashcardsToImport.length > 0) addBatchFlashcards(flashcardsToImport);
 
         alert(`Sucesso!\n${report.stats.questions} Questões, ${report.stats.flashcards} Cards, ${report.stats.gaps} Lacunas.`);
         setReport(null); 
@@ -199,6 +289,80 @@ const ImportLiteralness: React.FC<ImportLiteralnessProps> = ({ type = 'LAW_DRY',
                         </div>
                     </div>
                 )}
+
+                {activeTab === 'EXPORT' && (
+                    <div className="space-y-6">
+                        <p className="text-xs text-slate-400">
+                            Gera o texto LIT_REF dos artigos escolhidos com lacunas, questões, flashcards e pares vinculados.
+                            Edite num editor de texto e reimporte na aba Importar (MERGE) — o progresso de estudo é mantido.
+                        </p>
+                        <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                            <div className="p-4 bg-white/5 rounded-2xl border border-white/5">
+                                <span className="block text-[10px] font-black uppercase tracking-widest text-slate-500 mb-2">Por lei</span>
+                                <div className="max-h-48 overflow-y-auto custom-scrollbar space-y-1">
+                                    {uniqueLawIds.map(law => (
+                                        <label key={law.id} className="flex items-center gap-2 text-xs text-slate-300 cursor-pointer">
+                                            <input type="checkbox" checked={selectedLaws.has(law.id)} onChange={() => { setSelectedLaws(prev => toggleInSet(prev, law.id)); setExported(null); }} />
+                                            <span className="flex-1 truncate">{law.id}</span>
+                                            <span className="text-slate-500">{law.count}</span>
+                                        </label>
+                                    ))}
+                                </div>
+                            </div>
+                            <div className="p-4 bg-white/5 rounded-2xl border border-white/5">
+                                <span className="block text-[10px] font-black uppercase tracking-widest text-slate-500 mb-2">Por lote de importação</span>
+                                <div className="max-h-48 overflow-y-auto custom-scrollbar space-y-1">
+                                    {availableBatches.map(batch => (
+                                        <label key={batch.id} className="flex items-center gap-2 text-xs text-slate-300 cursor-pointer">
+                                            <input type="checkbox" checked={selectedBatches.has(batch.id)} onChange={() => { setSelectedBatches(prev => toggleInSet(prev, batch.id)); setExported(null); }} />
+                                            <span className="flex-1 truncate font-mono">{batch.id}</span>
+                                            <span className="text-slate-500">{batch.count}</span>
+                                        </label>
+                                    ))}
+                                    {availableBatches.length === 0 && <span className="text-xs text-slate-500">Nenhum lote registrado.</span>}
+                                </div>
+                            </div>
+                        </div>
+
+                        <div className="flex justify-between items-center gap-3">
+                            <span className="text-xs text-slate-500">{exportCards.length} artigo(s) selecionado(s)</span>
+                            <button onClick={handleGenerateExport} disabled={exportCards.length === 0} className="bg-sky-600 hover:bg-sky-500 text-white font-black px-10 py-4 rounded-3xl shadow-xl transition-all active:scale-95 flex items-center gap-3 uppercase tracking-widest text-xs disabled:opacity-50">
+                                <DownloadIcon className="w-4 h-4" /> Gerar Texto
+                            </button>
+                        </div>
+
+                        {exported && (
+                            <div className="space-y-3 animate-fade-in">
+                                {exported.diffs.length === 0 ? (
+                                    <div className="flex items-center gap-2 p-3 rounded-xl bg-emerald-500/10 border border-emerald-500/20 text-emerald-300 text-xs font-bold">
+                                        <CheckCircleIcon className="w-4 h-4" /> {exported.blocks} bloco(s). Ida e volta conferida: reimportar este texto reproduz o conteúdo exportado.
+                                    </div>
+                                ) : (
+                                    <div className="p-3 rounded-xl bg-rose-500/10 border border-rose-500/20 text-rose-300 text-xs">
+                                        <span className="flex items-center gap-2 font-bold mb-1"><ExclamationTriangleIcon className="w-4 h-4" /> {exported.diffs.length} divergência(s) na conferência de ida e volta:</span>
+                                        <ul className="list-disc list-inside space-y-0.5 max-h-32 overflow-y-auto custom-scrollbar">
+                                            {exported.diffs.map((d, i) => <li key={i}>{d}</li>)}
+                                        </ul>
+                                    </div>
+                                )}
+                                {exported.warnings.length > 0 && (
+                                    <ul className="p-3 rounded-xl bg-amber-500/10 border border-amber-500/20 text-amber-300 text-xs list-disc list-inside space-y-0.5">
+                                        {exported.warnings.map((w, i) => <li key={i}>{w}</li>)}
+                                    </ul>
+                                )}
+                                <textarea readOnly value={exported.text} rows={14} className="w-full bg-black/40 border-2 border-white/5 rounded-[2rem] p-6 font-mono text-xs text-sky-100 outline-none" />
+                                <div className="flex justify-end gap-3">
+                                    <button onClick={handleCopyExport} className="px-5 py-3 rounded-2xl bg-white/5 text-sky-400 hover:bg-sky-500/10 border border-sky-500/20 transition-all flex items-center gap-2 text-[10px] font-black uppercase tracking-[0.2em]">
+                                        {copyFeedback ? <CheckCircleIcon className="w-4 h-4 text-emerald-400" /> : <DocumentDuplicateIcon className="w-4 h-4" />} Copiar
+                                    </button>
+                                    <button onClick={handleDownloadExport} className="px-5 py-3 rounded-2xl bg-white/5 text-sky-400 hover:bg-sky-500/10 border border-sky-500/20 transition-all flex items-center gap-2 text-[10px] font-black uppercase tracking-[0.2em]">
+                                        <DownloadIcon className="w-4 h-4" /> Baixar .txt
+                                    </button>
+                                </div>
+                            </div>
+                        )}
+                    </div>
+                )}
             </div>
 
             {activeTab === 'IMPORT' && report && (
@@ -207,7 +371,7 @@ const ImportLiteralness: React.FC<ImportLiteralnessProps> = ({ type = 'LAW_DRY',
                          <h4 className="text-2xl font-black text-white uppercase italic tracking-tighter">Resultado da Análise</h4>
                          <div className="flex items-center gap-2 bg-white/5 p-1 rounded-xl">
                             {['SKIP', 'MERGE', 'OVERWRITE'].map(opt => (
-                                <button key={opt} onClick={() => setImportMode(opt as ImportMode)} className={`px-4 py-2 rounded-lg text-[9px] font-black uppercase tracking-widest transition-all ${importMode === opt ? 'bg-sky-500 text-white shadow-lg' : 'text-slate-500 hover:text-white'}`}>{opt}</button>
+                                <button key={opt} onClick={() => { setImportMode(opt as ImportMode); setRejected(new Set()); }} className={`px-4 py-2 rounded-lg text-[9px] font-black uppercase tracking-widest transition-all ${importMode === opt ? 'bg-sky-500 text-white shadow-lg' : 'text-slate-500 hover:text-white'}`}>{opt}</button>
                             ))}
                          </div>
                     </div>
@@ -225,6 +389,7 @@ const ImportLiteralness: React.FC<ImportLiteralnessProps> = ({ type = 'LAW_DRY',
                             </div>
                         ))}
                     </div>
+                    {dryRun && <ImportDiffReview dryRun={dryRun} rejected={rejected} onChange={setRejected} />}
                     {!hasCriticalErrors && <button onClick={handleConfirmImport} className="w-full bg-emerald-600 hover:bg-emerald-500 text-white font-black py-6 rounded-3xl shadow-2xl transition-all uppercase tracking-widest text-xs">Confirmar Importação</button>}
                 </div>
             )}
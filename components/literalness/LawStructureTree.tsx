@@ -0,0 +1,138 @@
+import React, { useMemo, useState } from 'react';
+import { LiteralnessCard } from '../../types';
+import { useQuestionState } from '../../contexts/QuestionContext';
+import { useFlashcardState } from '../../contexts/FlashcardContext';
+import { useSettings } from '../../contexts/SettingsContext';
+import { ChevronRightIcon, ChevronDownIcon, BoltIcon } from '../icons';
+import * as srs from '../../services/srsService';
+import { buildLawOutline, rollupOutlineStats, countAnchoredGaps, splitLitRef, LawOutlineNode, OutlineNodeStats } from '../../services/lawStructureService';
+
+interface LawStructureTreeProps {
+    lawId: string;
+    cards: LiteralnessCard[];
+    /** Status por card já calculado pelo mapa (evita recalcular os artigos). */
+    articleStats?: Map<string, srs.LitRefSmartStatus>;
+    onViewArticle: (card: LiteralnessCard) => void;
+}
+
+const LEVEL_LABELS: Record<string, string> = {
+    LIVRO: 'Livro', TITULO: 'Título', CAPITULO: 'Capítulo', SECAO: 'Seção', SUBSECAO: 'Subseção',
+    ARTIGO: 'Artigo', CAPUT: 'Caput', PARAGRAFO: 'Parágrafo', INCISO: 'Inciso', ALINEA: 'Alínea',
+};
+
+// Calor pelo domínio; sem itens vinculados fica neutro
+const heatClass = (stats?: OutlineNodeStats): string => {
+    if (!stats || stats.totalItems === 0) return 'bg-slate-700';
+    if (stats.domain < 40) return 'bg-rose-500';
+    if (stats.domain < 70) return 'bg-amber-500';
+    return 'bg-emerald-500';
+};
+
+const collectIds = (node: LawOutlineNode, into: Set<string> = new Set()): Set<string> => {
+    if (node.children.length > 0) {
+        into.add(node.id);
+        node.children.forEach(child => collectIds(child, into));
+    }
+    return into;
+};
+
+const LawStructureTree: React.FC<LawStructureTreeProps> = ({ lawId, cards, articleStats, onViewArticle }) => {
+    const allQuestions = useQuestionState();
+    const allFlashcards = useFlashcardState();
+    const { settings } = useSettings();
+
+    const outline = useMemo(() => buildLawOutline(lawId, cards), [lawId, cards]);
+    const stats = useMemo(
+        () => rollupOutlineStats(outline, allQuestions, allFlashcards, settings, articleStats),
+        [outline, allQuestions, allFlashcards, settings, articleStats]
+    );
+    const cardById = useMemo(() => new Map(cards.map(c => [c.id, c])), [cards]);
+
+    // Abre as divisões; artigos começam recolhidos
+    const [expanded, setExpanded] = useState<Set<string>>(() => {
+        const ids = new Set<string>([outline.id]);
+        const openHeadings = (node: LawOutlineNode) => {
+            if (node.level === 'ARTIGO') return;
+            ids.add(node.id);
+            node.children.forEach(openHeadings);
+        };
+        openHeadings(outline);
+        return ids;
+    });
+
+    const toggle = (id: string) => setExpanded(prev => {
+        const next = new Set(prev);
+        if (next.has(id)) next.delete(id); else next.add(id);
+        return next;
+    });
+
+    const renderNode = (node: LawOutlineNode, depth: number): React.ReactNode => {
+        const nodeStats = stats.get(node.id);
+        const isOpen = expanded.has(node.id);
+        const hasChildren = node.children.length > 0;
+        const isArticle = node.level === 'ARTIGO';
+        const isDispositivo = !!node.cardId && !isArticle;
+        const card = node.cardId ? cardById.get(node.cardId) : undefined;
+        const anchoredGaps = isDispositivo && card ? countAnchoredGaps(card, node.id) : 0;
+
+        return (
+            <div key={node.id}>
+                <div
+                    className={`flex items-center gap-3 py-2 pr-3 rounded-xl hover:bg-white/5 transition-colors ${isArticle ? 'cursor-pointer' : ''}`}
+                    style={{ paddingLeft: `${depth * 1.25 + 0.5}rem` }}
+                    onClick={() => (isArticle && card ? onViewArticle(card) : hasChildren && toggle(node.id))}
+                >
+                    <button
+                        onClick={(e) => { e.stopPropagation(); if (hasChildren) toggle(node.id); }}
+                        className={`p-0.5 rounded text-slate-500 hover:text-white ${hasChildren ? '' : 'invisible'}`}
+                    >
+                        {isOpen ? <ChevronDownIcon className="w-3.5 h-3.5" /> : <ChevronRightIcon className="w-3.5 h-3.5" />}
+                    </button>
+                    <span className={`w-2 h-2 rounded-full shrink-0 ${heatClass(nodeStats)}`} title={nodeStats && nodeStats.totalItems > 0 ? `Domínio ${Math.round(nodeStats.domain)}%` : 'Sem itens vinculados'}></span>
+
+                    <div className="flex-1 min-w-0">
+                        <p className={`truncate ${node.level === 'LEI' ? 'text-lg font-black text-white uppercase italic tracking-tighter' : isArticle ? 'text-sm font-black text-white' : isDispositivo ? 'text-xs text-slate-300' : 'text-sm font-bold text-sky-300'}`}>
+                            {isDispositivo && <span className="font-black text-slate-400 mr-2">{node.label}</span>}
+                            {isDispositivo ? node.text : node.label}
+                            {node.title && <span className="font-medium text-slate-400 normal-case"> — {node.title}</span>}
+                        </p>
+                        {isDispositivo && (
+                            <p className="text-[9px] font-mono text-slate-600" title="Use como LIT_REF/LAW_REF para vincular a este dispositivo">
+                                {LEVEL_LABELS[node.level]} • #{splitLitRef(node.id).path}
+                            </p>
+                        )}
+                    </div>
+
+                    {nodeStats && (
+                        <div className="flex items-center gap-3 shrink-0 text-[9px] font-bold uppercase tracking-widest text-slate-500">
+                            {!node.cardId && <span>{nodeStats.articles} art.</span>}
+                            {anchoredGaps > 0 && <span className="text-violet-400">L: {anchoredGaps}</span>}
+                            {nodeStats.totalItems > 0 && <span>{nodeStats.totalItems} itens</span>}
+                            {nodeStats.overdueItems > 0 && <span className="text-rose-400 flex items-center gap-1"><BoltIcon className="w-3 h-3" />{nodeStats.overdueItems}</span>}
+                            {nodeStats.totalItems > 0 && (
+                                <div className="w-16 h-1.5 bg-white/5 rounded-full overflow-hidden" title={`Domínio ${Math.round(nodeStats.domain)}% • Maestria ${Math.round(nodeStats.mastery)}%`}>
+                                    <div className={`h-full ${heatClass(nodeStats)}`} style={{ width: `${Math.min(100, nodeStats.domain)}%` }}></div>
+                                </div>
+                            )}
+                        </div>
+                    )}
+                </div>
+                {hasChildren && isOpen && node.children.map(child => renderNode(child, depth + 1))}
+            </div>
+        );
+    };
+
+    return (
+        <div className="bg-slate-900/40 border border-white/5 rounded-[2rem] p-4 md:p-6 animate-fade-in">
+            <div className="flex justify-end gap-4 mb-2 text-[10px] font-black uppercase tracking-widest">
+                <button onClick={() => setExpanded(collectIds(outline))} className="text-slate-500 hover:text-white">Expandir tudo</button>
+                <button onClick={() => setExpanded(new Set([outline.id]))} className="text-slate-500 hover:text-white">Recolher</button>
+            </div>
+            {outline.children.length === 0
+                ? <p className="text-center text-sm text-slate-500 py-10">Nenhum artigo nesta lei.</p>
+                : renderNode(outline, 0)}
+        </div>
+    );
+};
+
+export default LawStructureTree;
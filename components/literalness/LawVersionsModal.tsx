@@ -0,0 +1,199 @@
+import React, { useMemo, useState } from 'react';
+import ReactDOM from 'react-dom';
+import { LiteralnessCard } from '../../types';
+import { useQuestionState, useQuestionDispatch } from '../../contexts/QuestionContext';
+import { useFlashcardState, useFlashcardDispatch } from '../../contexts/FlashcardContext';
+import { useLiteralnessDispatch } from '../../contexts/LiteralnessContext';
+import { ClockIcon, XMarkIcon, CheckCircleIcon, ExclamationTriangleIcon, PlusIcon } from '../icons';
+import * as lawVersions from '../../services/lawVersionService';
+
+interface LawVersionsModalProps {
+    isOpen: boolean;
+    onClose: () => void;
+    card: LiteralnessCard;
+}
+
+const KIND_LABELS: Record<lawVersions.OutdatedItemKind, string> = {
+    QUESTION: 'Questão',
+    GAP: 'Lacuna',
+    FLASHCARD: 'Flashcard',
+};
+
+const formatDate = (iso?: string) => (iso ? new Date(iso.length === 10 ? `${iso}T12:00:00` : iso).toLocaleDateString('pt-BR') : '—');
+
+const LawVersionsModal: React.FC<LawVersionsModalProps> = ({ isOpen, onClose, card }) => {
+    const { updateCard } = useLiteralnessDispatch();
+    const allQuestions = useQuestionState();
+    const allFlashcards = useFlashcardState();
+    const { updateBatchQuestions } = useQuestionDispatch();
+    const { updateBatchFlashcards } = useFlashcardDispatch();
+
+    const versions = useMemo(() => lawVersions.getTextVersions(card), [card]);
+    const [fromIndex, setFromIndex] = useState(Math.max(0, versions.length - 2));
+    const [toIndex, setToIndex] = useState(versions.length - 1);
+
+    const [isRecording, setIsRecording] = useState(false);
+    const [draft, setDraft] = useState({ text: card.phase1Full || '', effectiveDate: new Date().toISOString().slice(0, 10), source: '', amendingNorm: '' });
+
+    const diff = useMemo(() => {
+        const from = versions[Math.min(fromIndex, versions.length - 1)];
+        const to = versions[Math.min(toIndex, versions.length - 1)];
+        return from && to ? lawVersions.diffWords(from.text, to.text) : [];
+    }, [versions, fromIndex, toIndex]);
+
+    const outdated = useMemo(() => lawVersions.findOutdatedItems(card, allQuestions, allFlashcards), [card, allQuestions, allFlashcards]);
+
+    if (!isOpen) return null;
+
+    const handleRecord = async () => {
+        const updated = lawVersions.recordLawTextVersion(card, draft);
+        if (updated === card) return;
+        await updateCard(updated);
+        const last = (updated.textVersions || []).length - 1;
+        setFromIndex(last - 1);
+        setToIndex(last);
+        setIsRecording(false);
+    };
+
+    const markChecked = async (items: lawVersions.OutdatedItem[]) => {
+        const now = new Date().toISOString();
+        const questionIds = items.filter(i => !i.embedded && i.kind !== 'FLASHCARD').map(i => i.id);
+        const flashcardIds = items.filter(i => i.kind === 'FLASHCARD').map(i => i.id);
+        if (questionIds.length > 0) updateBatchQuestions(questionIds.map(id => ({ id, lawCheckedAt: now })));
+        if (flashcardIds.length > 0) updateBatchFlashcards(flashcardIds.map(id => ({ id, lawCheckedAt: now })));
+        // Lacunas embutidas não têm registro próprio: a conferência vale para todas as do núcleo
+        if (items.some(i => i.embedded)) await updateCard({ ...card, gapsCheckedAt: now });
+    };
+
+    return ReactDOM.createPortal(
+        <div className="fixed inset-0 z-[10000] bg-black/80 backdrop-blur-sm flex items-center justify-center p-4 animate-fade-in" onClick={onClose}>
+            <div className="bg-slate-900 border border-white/10 w-full max-w-3xl max-h-[90vh] rounded-2xl shadow-2xl flex flex-col overflow-hidden" onClick={e => e.stopPropagation()}>
+
+                <header className="p-6 border-b border-white/5 flex justify-between items-center bg-slate-800/50">
+                    <div className="flex items-center gap-3">
+                        <div className="p-2 bg-amber-500/10 rounded-xl text-amber-400 border border-amber-500/20">
+                            <ClockIcon className="w-5 h-5" />
+                        </div>
+                        <div>
+                            <h3 className="font-bold text-white text-lg leading-tight">Versões do Texto</h3>
+                            <p className="text-xs text-slate-500 font-medium uppercase tracking-widest">{card.lawId} • {card.article}</p>
+                        </div>
+                    </div>
+                    <button onClick={onClose} className="p-2 text-slate-400 hover:text-white transition-colors"><XMarkIcon className="w-5 h-5"/></button>
+                </header>
+
+                <div className="p-6 space-y-6 overflow-y-auto custom-scrollbar">
+                    <section>
+                        <p className="text-xs font-bold text-slate-500 uppercase tracking-widest mb-2">Histórico</p>
+                        <div className="space-y-2">
+                            {versions.map((version, i) => (
+                                <div key={version.id} className="flex items-center justify-between gap-4 bg-white/5 p-3 rounded-xl border border-white/5">
+                                    <div className="min-w-0">
+                                        <p className="text-sm font-bold text-white">
+                                            Vigência {formatDate(version.effectiveDate)}
+                                            {i === versions.length - 1 && <span className="ml-2 text-[9px] font-black text-emerald-400 uppercase tracking-widest">Vigente</span>}
+                                        </p>
+                                        <p className="text-[10px] text-slate-500 truncate">
+                                            {[version.amendingNorm, version.source].filter(Boolean).join(' • ') || 'Sem fonte'} • registrado em {formatDate(version.recordedAt)}
+                                        </p>
+                                    </div>
+                                    <div className="flex gap-2 shrink-0 text-[9px] font-black uppercase tracking-widest">
+                                        <button onClick={() => setFromIndex(i)} className={`px-2 py-1 rounded-lg border ${fromIndex === i ? 'bg-rose-500/20 text-rose-300 border-rose-500/30' : 'text-slate-500 border-white/10 hover:text-white'}`}>De</button>
+                                        <button onClick={() => setToIndex(i)} className={`px-2 py-1 rounded-lg border ${toIndex === i ? 'bg-emerald-500/20 text-emerald-300 border-emerald-500/30' : 'text-slate-500 border-white/10 hover:text-white'}`}>Para</button>
+                                    </div>
+                                </div>
+                            ))}
+                        </div>
+                    </section>
+
+                    <section>
+                        <p className="text-xs font-bold text-slate-500 uppercase tracking-widest mb-2">Diferenças</p>
+                        <div className="bg-slate-950 border border-white/10 rounded-xl p-4 text-sm text-slate-300 leading-relaxed whitespace-pre-wrap">
+                            {fromIndex === toIndex ? (
+                                <span className="text-slate-500 italic">Selecione duas versões diferentes.</span>
+                            ) : diff.map((segment, i) => (
+                                segment.type === 'equal' ? <span key={i}>{segment.text}</span>
+                                : segment.type === 'delete' ? <del key={i} className="bg-rose-500/15 text-rose-300 line-through">{segment.text}</del>
+                                : <ins key={i} className="bg-emerald-500/15 text-emerald-300 no-underline">{segment.text}</ins>
+                            ))}
+                        </div>
+                    </section>
+
+                    <section>
+                        <div className="flex items-center justify-between mb-2">
+                            <p className="text-xs font-bold text-slate-500 uppercase tracking-widest">Possivelmente desatualizados ({outdated.length})</p>
+                            {outdated.length > 1 && (
+                                <button onClick={() => markChecked(outdated)} className="text-[10px] font-black text-sky-400 uppercase tracking-widest hover:text-sky-300">Conferir todos</button>
+                            )}
+                        </div>
+                        {outdated.length === 0 ? (
+                            <p className="text-xs text-slate-500 flex items-center gap-2"><CheckCircleIcon className="w-4 h-4 text-emerald-500"/> Nenhum item vinculado cita os termos alterados.</p>
+                        ) : (
+                            <div className="space-y-2">
+                                {outdated.map(item => (
+                                    <div key={`${item.kind}-${item.id}`} className="flex items-center justify-between gap-4 bg-white/5 p-3 rounded-xl border border-white/5">
+                                        <div className="min-w-0">
+                                            <p className="text-sm font-bold text-white truncate">
+                                                <span className="text-[9px] font-black text-slate-500 uppercase tracking-widest mr-2">{KIND_LABELS[item.kind]}</span>
+                                                {item.label}
+                                            </p>
+                                            <p className={`text-[10px] font-bold flex items-center gap-1 ${item.reason === 'ANSWER' ? 'text-rose-400' : 'text-amber-400'}`}>
+                                                <ExclamationTriangleIcon className="w-3 h-3"/>
+                                                {item.reason === 'ANSWER' ? 'Gabarito usa' : 'Texto cita'}: {item.terms.join(', ')}
+                                            </p>
+                                        </div>
+                                        <button onClick={() => markChecked([item])} className="shrink-0 px-3 py-1.5 rounded-lg bg-white/5 border border-white/10 text-[10px] font-black text-slate-300 uppercase tracking-widest hover:text-white hover:bg-white/10">Conferido</button>
+                                    </div>
+                                ))}
+                            </div>
+                        )}
+                    </section>
+
+                    <section>
+                        {!isRecording ? (
+                            <button onClick={() => setIsRecording(true)} className="w-full py-3 rounded-xl border border-dashed border-white/10 text-xs font-black text-slate-400 uppercase tracking-widest hover:text-white hover:border-white/30 flex items-center justify-center gap-2">
+                                <PlusIcon className="w-4 h-4"/> Registrar nova redação
+                            </button>
+                        ) : (
+                            <div className="space-y-3 bg-white/5 p-4 rounded-xl border border-white/5">
+                                <textarea
+                                    value={draft.text}
+                                    onChange={e => setDraft({ ...draft, text: e.target.value })}
+                                    rows={6}
+                                    className="w-full bg-slate-950 border border-white/10 rounded-xl p-3 text-white text-sm outline-none focus:border-amber-500 transition-colors"
+                                />
+                                <div className="grid grid-cols-1 sm:grid-cols-3 gap-3">
+                                    <label className="text-[10px] font-bold text-slate-500 uppercase tracking-widest">
+                                        Vigência
+                                        <input type="date" value={draft.effectiveDate} onChange={e => setDraft({ ...draft, effectiveDate: e.target.value })} className="mt-1 w-full bg-slate-950 border border-white/10 rounded-xl p-2 text-white text-sm normal-case" />
+                                    </label>
+                                    <label className="text-[10px] font-bold text-slate-500 uppercase tracking-widest">
+                                        Norma alteradora
+                                        <input value={draft.amendingNorm} onChange={e => setDraft({ ...draft, amendingNorm: e.target.value })} placeholder="Lei nº 14.133/2021" className="mt-1 w-full bg-slate-950 border border-white/10 rounded-xl p-2 text-white text-sm normal-case" />
+                                    </label>
+                                    <label className="text-[10px] font-bold text-slate-500 uppercase tracking-widest">
+                                        Fonte
+                                        <input value={draft.source} onChange={e => setDraft({ ...draft, source: e.target.value })} placeholder="Planalto" className="mt-1 w-full bg-slate-950 border border-white/10 rounded-xl p-2 text-white text-sm normal-case" />
+                                    </label>
+                                </div>
+                                <div className="flex justify-end gap-3">
+                                    <button onClick={() => setIsRecording(false)} className="px-5 py-2.5 rounded-xl text-slate-400 font-bold text-xs uppercase tracking-widest hover:text-white hover:bg-white/5 transition-colors">Cancelar</button>
+                                    <button
+                                        onClick={handleRecord}
+                                        disabled={!draft.text.trim() || draft.text.trim() === (card.phase1Full || '').trim()}
+                                        className="px-6 py-2.5 rounded-xl bg-amber-600 text-white font-black text-xs uppercase tracking-widest hover:bg-amber-500 transition-all disabled:opacity-50 disabled:cursor-not-allowed"
+                                    >
+                                        Salvar versão
+                                    </button>
+                                </div>
+                            </div>
+                        )}
+                    </section>
+                </div>
+            </div>
+        </div>,
+        document.body
+    );
+};
+
+export default LawVersionsModal;
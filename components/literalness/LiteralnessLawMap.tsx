@@ -10,13 +10,17 @@ import {
     PencilIcon, TrashIcon, ArrowRightIcon, ClockIcon,
     BoltIcon, CheckCircleIcon, BrainIcon, MapIcon, 
     ClipboardDocumentCheckIcon, PuzzlePieceIcon, ScaleIcon,
-    PaintBrushIcon, ArrowsRightLeftIcon
+    PaintBrushIcon, ArrowsRightLeftIcon, SparklesIcon
 } from '../icons';
 import * as engine from '../../services/activityEngine';
 import * as srs from '../../services/srsService';
+import * as lawVersions from '../../services/lawVersionService';
 import ConfirmationModal from '../ConfirmationModal';
 import LiteralnessEditorModal from './LiteralnessEditorModal';
 import MoveArticleModal from './MoveArticleModal';
+import LawVersionsModal from './LawVersionsModal';
+import LawStructureTree from './LawStructureTree';
+import GapBatchReviewModal from './GapBatchReviewModal';
 import StudySessionModal from '../StudySessionModal';
 import FlashcardStudySessionModal from '../FlashcardStudySessionModal';
 import PairMatchGame from '../pairmatch/PairMatchGame'; 
@@ -112,6 +116,12 @@ const LiteralnessLawMap: React.FC<LiteralnessLawMapProps> = ({ cards, onViewArti
     const [cardToDelete, setCardToDelete] = useState<LiteralnessCard | null>(null);
     const [cardToEdit, setCardToEdit] = useState<LiteralnessCard | null>(null);
     const [cardToMove, setCardToMove] = useState<LiteralnessCard | null>(null);
+    // Por id: o card é lido de `cards` para o modal acompanhar as versões recém-salvas
+    const [versionsCardId, setVersionsCardId] = useState<string | null>(null);
+    const versionsCard = versionsCardId ? cards.find(c => c.id === versionsCardId) || null : null;
+    
+    const [viewMode, setViewMode] = useState<'LIST' | 'TREE'>('LIST');
+    const [isGapGeneratorOpen, setIsGapGeneratorOpen] = useState(false);
     
     // Visual Menu State
     const [openMenuCardId, setOpenMenuCardId] = useState<string | null>(null);
@@ -129,19 +139,32 @@ const LiteralnessLawMap: React.FC<LiteralnessLawMapProps> = ({ cards, onViewArti
         return map;
     }, [cards, allQuestions, allFlashcards, settings]);
 
+    const versionStatus = useMemo(() => {
+        const map = new Map<string, { changed: boolean; outdated: number }>();
+        cards.forEach(card => {
+            if ((card.textVersions || []).length < 2) return;
+            map.set(card.id, {
+                changed: lawVersions.hasChangedSinceStudied(card),
+                outdated: lawVersions.findOutdatedItems(card, allQuestions, allFlashcards).length,
+            });
+        });
+        return map;
+    }, [cards, allQuestions, allFlashcards]);
+
     const lawGroups = useMemo(() => {
         const groups: Record<string, any> = {};
         cards.forEach(card => {
             if (!card.lawId) return;
 
             const lawKey = card.lawId;
-            if (!groups[lawKey]) groups[lawKey] = { id: lawKey, count: 0, critical: 0 };
+            if (!groups[lawKey]) groups[lawKey] = { id: lawKey, count: 0, critical: 0, changed: 0 };
             groups[lawKey].count++;
             const stats = cardSmartStats.get(card.id);
             if (stats && stats.overdueItems > 0) groups[lawKey].critical++;
+            if (versionStatus.get(card.id)?.changed) groups[lawKey].changed++;
         });
         return Object.entries(groups).sort((a, b) => b[1].critical - a[1].critical);
-    }, [cards, cardSmartStats]);
+    }, [cards, cardSmartStats, versionStatus]);
 
     const allLawIds = useMemo(() => {
         return lawGroups.map(([id]) => id).sort();
@@ -205,6 +228,7 @@ const LiteralnessLawMap: React.FC<LiteralnessLawMapProps> = ({ cards, onViewArti
                         <div className="flex gap-6">
                             <div className="flex flex-col"><span className="text-[8px] font-bold text-slate-500 uppercase">Núcleos</span><span className="text-xl font-black text-white">{data.count}</span></div>
                             {data.critical > 0 && <div className="flex flex-col"><span className="text-[8px] font-bold text-rose-500 uppercase">Pendentes</span><span className="text-xl font-black text-rose-500">{data.critical}</span></div>}
+                            {data.changed > 0 && <div className="flex flex-col"><span className="text-[8px] font-bold text-amber-400 uppercase">Alterados</span><span className="text-xl font-black text-amber-400">{data.changed}</span></div>}
                         </div>
                     </div>
                 ))}
@@ -222,10 +246,21 @@ const LiteralnessLawMap: React.FC<LiteralnessLawMapProps> = ({ cards, onViewArti
         <div className="space-y-4 animate-fade-in max-w-4xl mx-auto w-full px-2 md:px-0">
             <div className="flex items-center justify-between mb-8">
                 <button onClick={() => onSelectLaw ? onSelectLaw(null) : setInternalLawId(null)} className="p-2.5 bg-white/5 rounded-2xl text-slate-400 hover:text-white flex items-center gap-2 text-[10px] font-black uppercase tracking-widest border border-white/5 transition-all active:scale-95"><ChevronLeftIcon className="w-4 h-4" /> Voltar</button>
-                <h3 className="text-2xl font-black text-white uppercase italic tracking-tighter truncate max-w-md">{selectedLawId}</h3>
+                <div className="flex items-center gap-4 min-w-0">
+                    <button onClick={() => setIsGapGeneratorOpen(true)} title="Gerar lacunas para a lei inteira" className="p-2.5 bg-white/5 rounded-2xl text-slate-400 hover:text-sky-400 border border-white/5 transition-all active:scale-95 shrink-0"><SparklesIcon className="w-4 h-4" /></button>
+                    <div className="flex bg-white/5 rounded-xl p-1 border border-white/5 text-[10px] font-black uppercase tracking-widest shrink-0">
+                        <button onClick={() => setViewMode('LIST')} className={`px-3 py-1.5 rounded-lg transition-all ${viewMode === 'LIST' ? 'bg-white text-slate-950' : 'text-slate-400 hover:text-white'}`}>Lista</button>
+                        <button onClick={() => setViewMode('TREE')} className={`px-3 py-1.5 rounded-lg transition-all ${viewMode === 'TREE' ? 'bg-white text-slate-950' : 'text-slate-400 hover:text-white'}`}>Estrutura</button>
+                    </div>
+                    <h3 className="text-2xl font-black text-white uppercase italic tracking-tighter truncate max-w-md">{selectedLawId}</h3>
+                </div>
             </div>
 
-            <div className="flex flex-col gap-4">
+            {viewMode === 'TREE' && (
+                <LawStructureTree lawId={selectedLawId} cards={cards} articleStats={cardSmartStats} onViewArticle={onViewArticle} />
+            )}
+
+            <div className={`flex flex-col gap-4 ${viewMode === 'TREE' ? 'hidden' : ''}`}>
                 {filteredArticles.map(({ card, stats }) => {
                     const hasPending = stats.overdueItems > 0;
                     const isFuture = !hasPending && stats.nextDueAtFuture && stats.nextDueAtFuture > Date.now();
@@ -233,6 +268,7 @@ const LiteralnessLawMap: React.FC<LiteralnessLawMapProps> = ({ cards, onViewArti
                     
                     const visualStyle = COLOR_MAP[card.visualColor || 'default'];
                     const isGray = card.visualColor === 'gray';
+                    const version = versionStatus.get(card.id);
 
                     let buttonLabel = "INICIAR";
                     let buttonColor = "bg-white text-slate-950 hover:bg-slate-200";
@@ -276,6 +312,9 @@ const LiteralnessLawMap: React.FC<LiteralnessLawMapProps> = ({ cards, onViewArti
                                     )}
                                     <h4 className={`text-2xl font-black tracking-tighter uppercase italic leading-tight ${isGray ? 'text-slate-400' : 'text-white'}`}>{card.article}</h4>
                                     {hasPending && !card.isCritical && <div className="w-2 h-2 rounded-full bg-rose-500 animate-pulse"></div>}
+                                    {version?.changed && (
+                                        <span title="O texto da lei mudou desde o seu último estudo" className="px-2 py-0.5 rounded-full bg-amber-500/15 border border-amber-500/30 text-[9px] font-black text-amber-400 uppercase tracking-widest">Alterado</span>
+                                    )}
                                 </div>
                                 <p className="text-[10px] text-slate-500 font-bold uppercase tracking-widest truncate mb-6">{card.topic || 'Geral'}</p>
                                 
@@ -299,6 +338,12 @@ const LiteralnessLawMap: React.FC<LiteralnessLawMapProps> = ({ cards, onViewArti
                                         </div>
                                     )}
 
+                                    {version && version.outdated > 0 && (
+                                        <button onClick={(e) => { e.stopPropagation(); setVersionsCardId(card.id); }} className="flex items-center gap-2 text-amber-400 border-l border-white/10 pl-4 hover:text-amber-300">
+                                            <ExclamationTriangleIcon className="w-3 h-3"/> A conferir: {version.outdated}
+                                        </button>
+                                    )}
+
                                     {(stats.counts.notStarted.questions + stats.counts.notStarted.gaps + stats.counts.notStarted.flashcards) > 0 && (
                                         <div className="flex items-center gap-2 text-slate-600 border-l border-white/10 pl-4">
                                             <span>Não Iniciados: {stats.counts.notStarted.questions + stats.counts.notStarted.gaps + stats.counts.notStarted.flashcards + stats.counts.notStarted.pairs}</span>
@@ -338,6 +383,7 @@ const LiteralnessLawMap: React.FC<LiteralnessLawMapProps> = ({ cards, onViewArti
                                     </button>
                                     
                                     <button onClick={(e) => { e.stopPropagation(); setCardToEdit(card); }} className="p-2 text-slate-500 hover:text-white hover:bg-white/10 rounded-lg transition-all"><PencilIcon className="w-4 h-4"/></button>
+                                    <button onClick={(e) => { e.stopPropagation(); setVersionsCardId(card.id); }} title="Versões do texto" className="p-2 text-slate-500 hover:text-white hover:bg-white/10 rounded-lg transition-all"><ClockIcon className="w-4 h-4"/></button>
                                     <button onClick={(e) => { e.stopPropagation(); setCardToMove(card); }} className="p-2 text-slate-500 hover:text-white hover:bg-white/10 rounded-lg transition-all"><ArrowsRightLeftIcon className="w-4 h-4"/></button>
                                     <button onClick={(e) => { e.stopPropagation(); setCardToDelete(card); }} className="p-2 text-slate-500 hover:text-rose-500 hover:bg-rose-500/10 rounded-lg transition-all"><TrashIcon className="w-4 h-4" /></button>
                                 </div>
@@ -349,6 +395,8 @@ const LiteralnessLawMap: React.FC<LiteralnessLawMapProps> = ({ cards, onViewArti
 
             <ConfirmationModal isOpen={!!cardToDelete} onClose={() => setCardToDelete(null)} onConfirm={() => deleteCards([cardToDelete!.id])} title="Excluir Artigo?"><p>Deseja remover permanentemente <strong>{cardToDelete?.article}</strong>?</p></ConfirmationModal>
             {cardToEdit && <LiteralnessEditorModal isOpen={true} onClose={() => setCardToEdit(null)} card={cardToEdit} />}
+            {isGapGeneratorOpen && <GapBatchReviewModal isOpen={true} onClose={() => setIsGapGeneratorOpen(false)} lawId={selectedLawId} cards={cards} />}
+            {versionsCard && <LawVersionsModal isOpen={true} onClose={() => setVersionsCardId(null)} card={versionsCard} />}
             {cardToMove && (
                 <MoveArticleModal 
                     isOpen={true} 
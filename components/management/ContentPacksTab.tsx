@@ -0,0 +1,373 @@
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import { useQuestionDispatch, useQuestionState } from '../../contexts/QuestionContext';
+import { useFlashcardDispatch, useFlashcardState } from '../../contexts/FlashcardContext';
+import { useLiteralnessDispatch, useLiteralnessState } from '../../contexts/LiteralnessContext';
+import { useTrailDispatch, useTrailState } from '../../contexts/TrailContext';
+import { useSettings } from '../../contexts/SettingsContext';
+import { traceService } from '../../services/traceService';
+import { computeImportDiff, applyImportDecisions, buildDecisionLog } from '../../services/import/importDiff';
+import { createImportBatchId, recordImportBatch } from '../../services/import/importHistory';
+import { getOwnKeyFingerprint } from '../../services/packs/packSigning';
+import {
+    InstalledPack, LoadedContentPack, PACK_FILE_EXTENSION, buildContentPack, readContentPack, checkPackInstall,
+    loadInstalledPacks, saveInstalledPack, storePackMedia, buildPackWritePlan, makePackId
+} from '../../services/packs/contentPack';
+import ImportDiffReview from '../ImportDiffReview';
+import { CheckCircleIcon, ExclamationTriangleIcon, ShieldCheckIcon, UploadIcon, DownloadIcon } from '../icons';
+
+const formatDate = (iso: string) => new Date(iso).toLocaleString('pt-BR', { dateStyle: 'short', timeStyle: 'short' });
+
+const INSTALL_KIND_LABELS = {
+    NEW: 'Novo pacote',
+    UPGRADE: 'Atualização',
+    REINSTALL: 'Mesma versão (reinstalar)',
+    DOWNGRADE: 'Versão mais antiga que a instalada',
+};
+
+const inputClass = 'w-full bg-white dark:bg-bunker-950 border border-bunker-200 dark:border-bunker-800 rounded-md px-3 py-2 text-sm';
+
+const ContentPacksTab: React.FC = () => {
+    const allQuestions = useQuestionState();
+    const allFlashcards = useFlashcardState();
+    const allCards = useLiteralnessState();
+    const trails = useTrailState();
+    const { addBatchQuestions, updateBatchQuestions } = useQuestionDispatch();
+    const { addBatchFlashcards } = useFlashcardDispatch();
+    const { addBatchCards } = useLiteralnessDispatch();
+    const { addOrUpdateLesson } = useTrailDispatch();
+    const { settings } = useSettings();
+    const fileInputRef = useRef<HTMLInputElement>(null);
+
+    const [installed, setInstalled] = useState<InstalledPack[] | null>(null);
+    const [ownFingerprint, setOwnFingerprint] = useState<string | null>(null);
+
+    // Criação
+    const [draft, setDraft] = useState({ title: '', author: '', version: '1.0.0', description: '' });
+    const [selectedLaws, setSelectedLaws] = useState<Set<string>>(new Set());
+    const [selectedLessons, setSelectedLessons] = useState<Set<string>>(new Set());
+    const [buildResult, setBuildResult] = useState<{ fileName: string; warnings: string[] } | null>(null);
+    const [isBuilding, setIsBuilding] = useState(false);
+
+    // Instalação
+    const [pack, setPack] = useState<LoadedContentPack | null>(null);
+    const [rejected, setRejected] = useState<Set<string>>(new Set());
+    const [trustNewKey, setTrustNewKey] = useState(false);
+    const [error, setError] = useState<string | null>(null);
+    const [feedback, setFeedback] = useState<string | null>(null);
+
+    useEffect(() => {
+        loadInstalledPacks().then(setInstalled);
+        getOwnKeyFingerprint().then(setOwnFingerprint).catch(() => setOwnFingerprint(null));
+    }, []);
+
+    const lawOptions = useMemo(() => {
+        const laws = new Map<string, number>();
+        allCards.forEach(c => laws.set(c.lawId || 'Geral', (laws.get(c.lawId || 'Geral') || 0) + 1));
+        return [...laws.entries()].map(([id, count]) => ({ id, count })).sort((a, b) => a.id.localeCompare(b.id));
+    }, [allCards]);
+
+    const allLessons = useMemo(() => trails.flatMap(t => t.lessons), [trails]);
+
+    const toggleInSet = (set: Set<string>, id: string) => {
+        const next = new Set(set);
+        if (next.has(id)) next.delete(id); else next.add(id);
+        return next;
+    };
+
+    const canBuild = draft.title.trim() && draft.author.trim() && draft.version.trim() && (selectedLaws.size > 0 || selectedLessons.size > 0);
+    const existingPack = installed?.find(p => p.packId === makePackId(draft.title, draft.author));
+
+    const handleBuild = async () => {
+        if (!canBuild) return;
+        setIsBuilding(true);
+        try {
+            const built = await buildContentPack(draft, {
+                cards: allCards.filter(c => selectedLaws.has(c.lawId || 'Geral')),
+                lessons: allLessons.filter(l => selectedLessons.has(l.id)),
+                allQuestions,
+                allFlashcards,
+            });
+            const blob = new Blob([built.data as BlobPart], { type: 'application/zip' });
+            const link = document.createElement("a");
+            const url = URL.createObjectURL(blob);
+            const fileName = `${built.manifest.packId}_v${built.manifest.version}${PACK_FILE_EXTENSION}`;
+            link.setAttribute("href", url);
+            link.setAttribute("download", fileName);
+            document.body.appendChild(link);
+            link.click();
+            document.body.removeChild(link);
+            URL.revokeObjectURL(url);
+            setBuildResult({ fileName, warnings: built.warnings });
+        } catch (e: any) {
+            alert(`Falha ao gerar o pacote: ${e.message}`);
+        } finally {
+            setIsBuilding(false);
+        }
+    };
+
+    const handleFileChange = async (event: React.ChangeEvent<HTMLInputElement>) => {
+        const file = event.target.files?.[0];
+        event.target.value = '';
+        if (!file) return;
+        setError(null);
+        setFeedback(null);
+        try {
+            const loaded = await readContentPack(await file.arrayBuffer(), settings, createImportBatchId('PACOTE'));
+            setPack(loaded);
+            setRejected(new Set());
+            setTrustNewKey(false);
+        } catch (e: any) {
+            setPack(null);
+            setError(e.message);
+        }
+    };
+
+    const existing = useMemo(() => ({ questions: allQuestions, cards: allCards, flashcards: allFlashcards }), [allQuestions, allCards, allFlashcards]);
+    const check = useMemo(() => pack && installed ? checkPackInstall(pack, installed) : null, [pack, installed]);
+    // OVERWRITE: o diff mostra exatamente os campos de conteúdo que a instalação troca
+    const dryRun = useMemo(() => pack ? computeImportDiff(pack.staging, existing, 'OVERWRITE') : null, [pack, existing]);
+    const lessonChanges = useMemo(() => {
+        if (!pack) return { added: 0, updated: 0 };
+        const ids = new Set(allLessons.map(l => l.id));
+        const updated = pack.lessons.filter(l => ids.has(l.id)).length;
+        return { added: pack.lessons.length - updated, updated };
+    }, [pack, allLessons]);
+
+    const blocked = !!pack && (pack.signatureStatus === 'INVALID' || pack.integrityErrors.length > 0);
+    const needsTrust = !!check?.keyChanged && !trustNewKey;
+
+    const handleInstall = async () => {
+        if (!pack || blocked || needsTrust || !dryRun) return;
+        const { batchId } = pack;
+        const reviewed = applyImportDecisions(pack.staging, rejected);
+        if (dryRun.diffs.length > 0) {
+            traceService.trace('IMPORT_DECISIONS', 'IMPORT', batchId, { mode: 'OVERWRITE', decisions: buildDecisionLog(dryRun, rejected) });
+        }
+        const plan = buildPackWritePlan(reviewed, pack.lessons, existing, allLessons);
+
+        // Snapshot do que será sobrescrito, para o rollback no histórico de importações
+        await recordImportBatch(
+            { batchId, source: 'PACOTE', label: `${pack.manifest.title} v${pack.manifest.version}`, mode: 'OVERWRITE', questions: reviewed.questions, flashcards: plan.flashcards, cards: plan.cards },
+            existing
+        );
+
+        await storePackMedia(pack);
+        if (plan.cards.length > 0) await addBatchCards(plan.cards, reviewed.questions, reviewed.flashcards, plan.gaps);
+        if (plan.newQuestions.length > 0) addBatchQuestions(plan.newQuestions, 'MERGE');
+        if (plan.questionUpdates.length > 0) updateBatchQuestions(plan.questionUpdates);
+        if (plan.flashcards.length > 0) addBatchFlashcards(plan.flashcards);
+        plan.lessons.forEach(addOrUpdateLesson);
+
+        setInstalled(await saveInstalledPack(pack));
+        traceService.trace('PACK_INSTALLED', 'IMPORT', pack.manifest.packId, {
+            version: pack.manifest.version, kind: check?.kind, signature: pack.signatureStatus, keyFingerprint: pack.keyFingerprint,
+        });
+        setFeedback(`${pack.manifest.title} v${pack.manifest.version} instalado: ${plan.cards.length} card(s), ${plan.newQuestions.length} questão(ões) nova(s), ${plan.questionUpdates.length} atualizada(s), ${plan.flashcards.length} flashcard(s), ${plan.lessons.length} aula(s).`);
+        setPack(null);
+    };
+
+    return (
+        <div className="max-w-4xl mx-auto space-y-4">
+            {/* Instalar */}
+            <div className="p-6 bg-bunker-100 dark:bg-bunker-900 rounded-lg">
+                <h3 className="font-bold text-lg">Instalar Pacote</h3>
+                <p className="text-sm text-bunker-500 dark:text-bunker-400 mt-2">
+                    Pacotes ({PACK_FILE_EXTENSION}) trazem leis, questões, aulas e mídia. Reinstalar ou atualizar troca só o conteúdo:
+                    seu progresso, suas notas e o andamento das aulas são mantidos.
+                </p>
+                <input type="file" ref={fileInputRef} onChange={handleFileChange} accept={`${PACK_FILE_EXTENSION},.zip`} className="hidden" />
+                <button onClick={() => fileInputRef.current?.click()} className="mt-4 bg-sky-500/20 text-sky-700 dark:text-sky-300 font-bold py-2 px-4 rounded-lg hover:bg-sky-500/30 transition-colors flex items-center gap-2">
+                    <UploadIcon className="w-4 h-4" /> Escolher pacote
+                </button>
+
+                {error && (
+                    <div className="mt-4 p-3 bg-red-500/10 rounded-md border border-red-500/20 text-sm text-red-600 dark:text-red-400 flex items-center gap-2">
+                        <ExclamationTriangleIcon className="w-4 h-4" /> {error}
+                    </div>
+                )}
+                {feedback && (
+                    <div className="mt-4 p-3 rounded-lg bg-emerald-500/10 text-emerald-600 dark:text-emerald-400 text-sm flex items-center gap-2">
+                        <CheckCircleIcon className="w-4 h-4" /> {feedback}
+                    </div>
+                )}
+            </div>
+
+            {pack && check && dryRun && (
+                <div className="p-4 bg-bunker-50 dark:bg-bunker-800/50 rounded-lg space-y-4 animate-fade-in border border-bunker-200 dark:border-bunker-700">
+                    <div className="flex justify-between items-start gap-4">
+                        <div>
+                            <h4 className="font-bold text-lg">{pack.manifest.title} <span className="text-bunker-500 font-normal">v{pack.manifest.version}</span></h4>
+                            <p className="text-xs text-bunker-500">por {pack.manifest.author} · {formatDate(pack.manifest.createdAt)}</p>
+                            {pack.manifest.description && <p className="text-sm mt-1">{pack.manifest.description}</p>}
+                        </div>
+                        <span className="px-2 py-0.5 rounded text-[10px] font-bold uppercase tracking-wider bg-sky-500/10 text-sky-600 dark:text-sky-400 whitespace-nowrap">
+                            {INSTALL_KIND_LABELS[check.kind]}{check.installed && ` · v${check.installed.version} → v${pack.manifest.version}`}
+                        </span>
+                    </div>
+
+                    {pack.signatureStatus === 'VALID' && (
+                        <p className="text-xs text-emerald-600 dark:text-emerald-400 flex items-center gap-1">
+                            <ShieldCheckIcon className="w-4 h-4" /> Assinatura válida · chave {pack.keyFingerprint} (confira com o autor)
+                        </p>
+                    )}
+                    {pack.signatureStatus === 'UNSIGNED' && (
+                        <p className="text-xs text-amber-600 dark:text-amber-400 flex items-center gap-1">
+                            <ExclamationTriangleIcon className="w-4 h-4" /> Pacote sem assinatura: não há como confirmar quem o gerou.
+                        </p>
+                    )}
+                    {blocked && (
+                        <div className="p-3 bg-red-500/10 rounded-md border border-red-500/20 text-sm text-red-600 dark:text-red-400">
+                            <strong>Pacote adulterado ou corrompido — instalação bloqueada.</strong>
+                            <ul className="list-disc list-inside mt-1">
+                                {pack.signatureStatus === 'INVALID' && <li>O manifesto não confere com a assinatura.</li>}
+                                {pack.integrityErrors.map(e => <li key={e}>{e}</li>)}
+                            </ul>
+                        </div>
+                    )}
+                    {check.keyChanged && (
+                        <label className="p-3 bg-amber-500/10 rounded-md border border-amber-500/20 text-sm text-amber-700 dark:text-amber-300 flex items-start gap-2">
+                            <input type="checkbox" checked={trustNewKey} onChange={e => setTrustNewKey(e.target.checked)} className="mt-1" />
+                            <span>
+                                A versão instalada foi assinada pela chave {check.installed?.keyFingerprint}; esta veio {pack.keyFingerprint ? `da chave ${pack.keyFingerprint}` : 'sem assinatura'}.
+                                Confirmo com o autor que a troca é legítima.
+                            </span>
+                        </label>
+                    )}
+
+                    <div className="grid grid-cols-2 md:grid-cols-4 gap-3 text-center">
+                        <div className="p-3 bg-emerald-500/10 rounded-md text-emerald-700 dark:text-emerald-300 border border-emerald-500/20">
+                            <span className="block text-2xl font-bold">{dryRun.newEntities}</span>
+                            <span className="text-xs uppercase font-bold">Novos</span>
+                        </div>
+                        <div className="p-3 bg-amber-500/10 rounded-md text-amber-700 dark:text-amber-300 border border-amber-500/20">
+                            <span className="block text-2xl font-bold">{dryRun.diffs.length}</span>
+                            <span className="text-xs uppercase font-bold">Atualizados</span>
+                        </div>
+                        <div className="p-3 bg-bunker-500/10 rounded-md text-bunker-600 dark:text-bunker-300 border border-bunker-500/20">
+                            <span className="block text-2xl font-bold">{dryRun.unchangedEntities}</span>
+                            <span className="text-xs uppercase font-bold">Sem mudança</span>
+                        </div>
+                        <div className="p-3 bg-violet-500/10 rounded-md text-violet-700 dark:text-violet-300 border border-violet-500/20">
+                            <span className="block text-2xl font-bold">{lessonChanges.added}/{lessonChanges.updated}</span>
+                            <span className="text-xs uppercase font-bold">Aulas novas/atualizadas</span>
+                        </div>
+                    </div>
+
+                    {pack.parseErrors.length > 0 && (
+                        <ul className="list-disc list-inside text-xs text-amber-600 dark:text-amber-400 max-h-32 overflow-y-auto">
+                            {pack.parseErrors.map(e => <li key={e}>{e}</li>)}
+                        </ul>
+                    )}
+
+                    <ImportDiffReview dryRun={dryRun} rejected={rejected} onChange={setRejected} />
+
+                    <div className="flex justify-end gap-2">
+                        <button onClick={() => setPack(null)} className="px-4 py-2 rounded-lg text-sm font-bold text-bunker-500 hover:text-slate-700 dark:hover:text-white">Cancelar</button>
+                        <button onClick={handleInstall} disabled={blocked || needsTrust} className="bg-emerald-500 text-white font-bold py-2 px-6 rounded-lg shadow-md hover:bg-emerald-600 disabled:opacity-50 transition-colors">
+                            {check.kind === 'UPGRADE' ? 'Atualizar pacote' : 'Instalar'}
+                        </button>
+                    </div>
+                </div>
+            )}
+
+            {/* Instalados */}
+            <div className="p-6 bg-bunker-100 dark:bg-bunker-900 rounded-lg">
+                <h3 className="font-bold text-lg mb-3">Pacotes Instalados</h3>
+                {installed === null ? (
+                    <p className="text-sm text-bunker-500">Carregando...</p>
+                ) : installed.length === 0 ? (
+                    <p className="text-sm text-bunker-500">Nenhum pacote instalado ainda.</p>
+                ) : (
+                    <div className="space-y-2">
+                        {installed.map(p => (
+                            <div key={p.packId} className="p-3 rounded-lg border border-bunker-200 dark:border-bunker-800 bg-white dark:bg-bunker-950">
+                                <div className="flex justify-between items-center gap-2 flex-wrap">
+                                    <span className="font-bold text-sm">{p.title} <span className="text-bunker-500 font-normal">v{p.version}</span></span>
+                                    <span className="text-xs text-bunker-500">{formatDate(p.installedAt)}</span>
+                                </div>
+                                <p className="text-xs text-bunker-500 mt-1">
+                                    {p.author} · {p.litRefs.length} card(s) de lei · {p.lessonIds.length} aula(s) · {p.keyFingerprint ? `chave ${p.keyFingerprint}` : 'sem assinatura'}
+                                </p>
+                                {p.history.length > 1 && (
+                                    <p className="text-[10px] text-bunker-400 mt-1">Versões anteriores: {p.history.slice(1).map(h => `v${h.version}`).join(', ')}</p>
+                                )}
+                            </div>
+                        ))}
+                    </div>
+                )}
+            </div>
+
+            {/* Criar */}
+            <div className="p-6 bg-bunker-100 dark:bg-bunker-900 rounded-lg">
+                <h3 className="font-bold text-lg">Criar Pacote</h3>
+                <p className="text-sm text-bunker-500 dark:text-bunker-400 mt-2">
+                    O pacote leva o conteúdo sem o seu progresso e é assinado com a chave deste aparelho
+                    {ownFingerprint && <> (<strong>{ownFingerprint}</strong>)</>}. Para publicar uma nova versão, use o mesmo título e autor.
+                </p>
+
+                <div className="mt-4 grid grid-cols-1 md:grid-cols-3 gap-3">
+                    <input value={draft.title} onChange={e => setDraft(d => ({ ...d, title: e.target.value }))} placeholder="Título" className={inputClass} />
+                    <input value={draft.author} onChange={e => setDraft(d => ({ ...d, author: e.target.value }))} placeholder="Autor" className={inputClass} />
+                    <input value={draft.version} onChange={e => setDraft(d => ({ ...d, version: e.target.value }))} placeholder="Versão (ex.: 1.0.0)" className={inputClass} />
+                </div>
+                <textarea value={draft.description} onChange={e => setDraft(d => ({ ...d, description: e.target.value }))} placeholder="Descrição (opcional)" rows={2} className={`${inputClass} mt-3`} />
+                {existingPack && (
+                    <p className="mt-2 text-xs text-sky-600 dark:text-sky-400">Mesmo pacote que o instalado v{existingPack.version}: quem já tem receberá como atualização.</p>
+                )}
+
+                <div className="mt-4 grid grid-cols-1 md:grid-cols-2 gap-4">
+                    <div>
+                        <span className="text-xs font-bold uppercase tracking-wider text-bunker-500">Leis</span>
+                        <div className="mt-1 max-h-48 overflow-y-auto space-y-1">
+                            {lawOptions.length === 0 && <p className="text-xs text-bunker-500">Nenhuma lei cadastrada.</p>}
+                            {lawOptions.map(law => (
+                                <label key={law.id} className="flex items-center gap-2 text-sm">
+                                    <input type="checkbox" checked={selectedLaws.has(law.id)} onChange={() => setSelectedLaws(prev => toggleInSet(prev, law.id))} />
+                                    {law.id} <span className="text-xs text-bunker-500">({law.count})</span>
+                                </label>
+                            ))}
+                        </div>
+                    </div>
+                    <div>
+                        <span className="text-xs font-bold uppercase tracking-wider text-bunker-500">Aulas</span>
+                        <div className="mt-1 max-h-48 overflow-y-auto space-y-2">
+                            {trails.length === 0 && <p className="text-xs text-bunker-500">Nenhuma trilha cadastrada.</p>}
+                            {trails.map(trail => (
+                                <div key={trail.id}>
+                                    <span className="text-xs font-bold">{trail.id}</span>
+                                    {trail.lessons.map(lesson => (
+                                        <label key={lesson.id} className="flex items-center gap-2 text-sm pl-2">
+                                            <input type="checkbox" checked={selectedLessons.has(lesson.id)} onChange={() => setSelectedLessons(prev => toggleInSet(prev, lesson.id))} />
+                                            {lesson.title}
+                                        </label>
+                                    ))}
+                                </div>
+                            ))}
+                        </div>
+                    </div>
+                </div>
+
+                <button
+                    onClick={handleBuild}
+                    disabled={!canBuild || isBuilding}
+                    className="mt-4 w-full bg-emerald-500/20 text-emerald-700 dark:text-emerald-300 font-bold py-3 px-4 rounded-lg hover:bg-emerald-500/30 transition-colors disabled:opacity-50 disabled:cursor-not-allowed flex items-center justify-center gap-2"
+                >
+                    <DownloadIcon className="w-4 h-4" /> {isBuilding ? 'Gerando...' : 'Gerar pacote'}
+                </button>
+
+                {buildResult && (
+                    <div className="mt-3 text-sm">
+                        <p className="text-emerald-600 dark:text-emerald-400 flex items-center gap-1"><CheckCircleIcon className="w-4 h-4" /> {buildResult.fileName}</p>
+                        {buildResult.warnings.length > 0 && (
+                            <ul className="list-disc list-inside text-xs text-amber-600 dark:text-amber-400 mt-1">
+                                {buildResult.warnings.map(w => <li key={w}>{w}</li>)}
+                            </ul>
+                        )}
+                    </div>
+                )}
+            </div>
+        </div>
+    );
+};
+
+export default ContentPacksTab;
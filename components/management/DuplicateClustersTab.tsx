@@ -0,0 +1,175 @@
+import React, { useMemo, useState } from 'react';
+import { Question, Flashcard } from '../../types';
+import { useQuestionState, useQuestionDispatch } from '../../contexts/QuestionContext';
+import { useFlashcardState, useFlashcardDispatch } from '../../contexts/FlashcardContext';
+import { syncQuestionIndex, syncFlashcardIndex, isPairCard } from '../../services/dedup/similarityIndex';
+import {
+    DuplicateCluster, DEFAULT_DUPLICATE_THRESHOLD, findDuplicateClusters, mergeQuestionCluster, mergeFlashcardCluster, ignoreCluster
+} from '../../services/dedup/duplicateClusters';
+import { traceService } from '../../services/traceService';
+import ConfirmationModal from '../ConfirmationModal';
+import { CheckCircleIcon, ExclamationTriangleIcon, DocumentDuplicateIcon } from '../icons';
+
+interface DuplicateClustersTabProps {
+    kind: 'question' | 'flashcard';
+}
+
+type Item = Question | Flashcard;
+
+const THRESHOLDS = [0.6, 0.7, 0.8, 0.9];
+
+const preview = (item: Item) => 'questionText' in item ? item.questionText : `${item.front} → ${item.back}`;
+
+const origin = (item: Item) => 'questionText' in item
+    ? [item.questionRef, item.lawRef, item.bank].filter(Boolean).join(' · ')
+    : [item.discipline, item.topic, item.bank].filter(Boolean).join(' · ');
+
+/** Aba de duplicatas: clusters por similaridade, com fusão de progresso no sobrevivente. */
+const DuplicateClustersTab: React.FC<DuplicateClustersTabProps> = ({ kind }) => {
+    const allQuestions = useQuestionState();
+    const allFlashcards = useFlashcardState();
+    const { updateQuestion, updateBatchQuestions, deleteQuestions } = useQuestionDispatch();
+    const { updateFlashcard, updateBatchFlashcards, deleteFlashcards } = useFlashcardDispatch();
+
+    const [flashcardKind, setFlashcardKind] = useState<'flashcard' | 'pair'>('flashcard');
+    const [threshold, setThreshold] = useState(DEFAULT_DUPLICATE_THRESHOLD);
+    // Sobrevivente escolhido manualmente, por chave de cluster
+    const [survivorOverride, setSurvivorOverride] = useState<Record<string, string>>({});
+    const [pending, setPending] = useState<DuplicateCluster<Item> | null>(null);
+    const [feedback, setFeedback] = useState<string | null>(null);
+
+    const clusters = useMemo((): DuplicateCluster<Item>[] => {
+        if (kind === 'question') {
+            return findDuplicateClusters<Item>(allQuestions, syncQuestionIndex(allQuestions), threshold);
+        }
+        const pool = allFlashcards.filter(f => isPairCard(f) === (flashcardKind === 'pair'));
+        return findDuplicateClusters<Item>(pool, syncFlashcardIndex(allFlashcards, flashcardKind), threshold);
+    }, [kind, flashcardKind, allQuestions, allFlashcards, threshold]);
+
+    const survivorOf = (cluster: DuplicateCluster<Item>) =>
+        cluster.members.find(m => m.id === survivorOverride[cluster.key]) || cluster.survivor;
+
+    const handleMerge = () => {
+        if (!pending) return;
+        const survivor = survivorOf(pending);
+        const losers = pending.members.filter(m => m.id !== survivor.id);
+        if (kind === 'question') {
+            const result = mergeQuestionCluster(survivor as Question, losers as Question[]);
+            updateQuestion(result.survivor);
+            deleteQuestions(result.loserIds);
+        } else {
+            const result = mergeFlashcardCluster(survivor as Flashcard, losers as Flashcard[]);
+            updateFlashcard(result.survivor);
+            deleteFlashcards(result.loserIds);
+        }
+        traceService.trace('DUPLICATES_MERGED', kind === 'question' ? 'QUESTIONS' : 'UI', survivor.id, { merged: losers.map(l => l.id) });
+        setFeedback(`${losers.length} cópia(s) mesclada(s) em ${'questionText' in survivor ? survivor.questionRef : survivor.id}.`);
+    };
+
+    const handleIgnore = (cluster: DuplicateCluster<Item>) => {
+        const updated = ignoreCluster(cluster).map(m => ({ id: m.id, ignoreDuplicatesFor: m.ignoreDuplicatesFor }));
+        if (kind === 'question') updateBatchQuestions(updated);
+        else updateBatchFlashcards(updated);
+        setFeedback('Cluster marcado como "não são duplicatas".');
+    };
+
+    const pendingSurvivor = pending ? survivorOf(pending) : null;
+    const pendingAttempts = pending && pendingSurvivor
+        ? pending.members.filter(m => m.id !== pendingSurvivor.id).reduce((sum, m) => sum + (m.totalAttempts || 0), 0)
+        : 0;
+
+    return (
+        <div className="max-w-4xl mx-auto space-y-4">
+            <div className="p-6 bg-bunker-100 dark:bg-bunker-900 rounded-lg">
+                <div className="flex flex-col md:flex-row md:justify-between md:items-start gap-4 mb-4">
+                    <div>
+                        <h3 className="font-bold text-lg">Duplicatas</h3>
+                        <p className="text-sm text-bunker-500 dark:text-bunker-400 mt-2">
+                            Itens quase idênticos, mesmo com lawRef, banca ou ordem das alternativas diferentes.
+                            Mesclar mantém o sobrevivente e move para ele o histórico de tentativas das cópias.
+                        </p>
+                    </div>
+                    <div className="flex items-center gap-2 shrink-0">
+                        {kind === 'flashcard' && (
+                            <select value={flashcardKind} onChange={e => setFlashcardKind(e.target.value as 'flashcard' | 'pair')} className="bg-white dark:bg-bunker-950 border border-bunker-200 dark:border-bunker-800 rounded-lg px-2 py-1.5 text-xs">
+                                <option value="flashcard">Flashcards</option>
+                                <option value="pair">Pares</option>
+                            </select>
+                        )}
+                        <select value={threshold} onChange={e => setThreshold(Number(e.target.value))} className="bg-white dark:bg-bunker-950 border border-bunker-200 dark:border-bunker-800 rounded-lg px-2 py-1.5 text-xs" title="Similaridade mínima">
+                            {THRESHOLDS.map(t => <option key={t} value={t}>≥ {Math.round(t * 100)}%</option>)}
+                        </select>
+                    </div>
+                </div>
+
+                {feedback && (
+                    <div className="mb-4 p-3 rounded-lg bg-emerald-500/10 text-emerald-600 dark:text-emerald-400 text-sm flex items-center gap-2">
+                        <CheckCircleIcon className="w-4 h-4" /> {feedback}
+                    </div>
+                )}
+
+                {clusters.length === 0 ? (
+                    <p className="text-sm text-bunker-500">Nenhuma duplicata encontrada com esse limiar.</p>
+                ) : (
+                    <div className="space-y-3">
+                        <p className="text-xs text-bunker-500">{clusters.length} grupo(s), {clusters.reduce((sum, c) => sum + c.members.length, 0)} item(ns).</p>
+                        {clusters.map(cluster => {
+                            const survivor = survivorOf(cluster);
+                            return (
+                                <div key={cluster.key} className="p-3 rounded-lg border border-bunker-200 dark:border-bunker-800 bg-white dark:bg-bunker-950 space-y-2">
+                                    <div className="flex items-center gap-2 flex-wrap text-xs">
+                                        <DocumentDuplicateIcon className="w-4 h-4 text-sky-500" />
+                                        <span className="font-bold">{cluster.members.length} itens</span>
+                                        <span className="text-bunker-500">similaridade ≥ {Math.round(cluster.similarity * 100)}%</span>
+                                        {cluster.conflict && (
+                                            <span className="flex items-center gap-1 text-amber-600 dark:text-amber-400 font-bold" title="Pode ser uma variação intencional da mesma questão">
+                                                <ExclamationTriangleIcon className="w-3 h-3" /> Gabaritos diferentes
+                                            </span>
+                                        )}
+                                    </div>
+                                    {cluster.members.map(member => (
+                                        <label key={member.id} className={`flex items-start gap-3 p-2 rounded-lg cursor-pointer ${member.id === survivor.id ? 'bg-emerald-500/10' : 'hover:bg-bunker-100 dark:hover:bg-bunker-900'}`}>
+                                            <input type="radio" name={cluster.key} checked={member.id === survivor.id} onChange={() => setSurvivorOverride(prev => ({ ...prev, [cluster.key]: member.id }))} className="mt-1" title="Manter este" />
+                                            <div className="flex-1 min-w-0">
+                                                <p className="text-sm line-clamp-2">{preview(member)}</p>
+                                                <div className="flex gap-3 mt-1 text-[10px] text-bunker-500 flex-wrap">
+                                                    <span className="font-mono truncate">{origin(member) || member.id}</span>
+                                                    <span>{member.totalAttempts || 0} tentativa(s)</span>
+                                                    {'correctAnswer' in member && <span>Gabarito: {member.correctAnswer}</span>}
+                                                    {member.id === survivor.id && <span className="font-bold text-emerald-600 dark:text-emerald-400">Sobrevivente</span>}
+                                                </div>
+                                            </div>
+                                        </label>
+                                    ))}
+                                    <div className="flex justify-end gap-2 pt-1">
+                                        <button onClick={() => { setFeedback(null); handleIgnore(cluster); }} className="px-4 py-2 rounded-lg text-xs font-bold bg-bunker-200/60 dark:bg-bunker-800 text-bunker-600 dark:text-bunker-300 hover:bg-bunker-200 dark:hover:bg-bunker-700">
+                                            Não são duplicatas
+                                        </button>
+                                        <button onClick={() => { setFeedback(null); setPending(cluster); }} className="px-4 py-2 rounded-lg text-xs font-bold bg-sky-500/10 text-sky-600 dark:text-sky-400 hover:bg-sky-500/20">
+                                            Mesclar
+                                        </button>
+                                    </div>
+                                </div>
+                            );
+                        })}
+                    </div>
+                )}
+            </div>
+
+            <ConfirmationModal isOpen={!!pending} onClose={() => setPending(null)} onConfirm={handleMerge} title="Mesclar duplicatas?">
+                {pending && pendingSurvivor && (
+                    <div className="space-y-2 text-sm">
+                        <p>
+                            {pending.members.length - 1} cópia(s) serão removidas e
+                            suas {pendingAttempts} tentativa(s) passam para o sobrevivente.
+                        </p>
+                        <p className="line-clamp-3 text-bunker-500">{preview(pendingSurvivor)}</p>
+                        {pending.conflict && <p className="text-amber-600 dark:text-amber-400">Atenção: os gabaritos diferem entre as cópias.</p>}
+                    </div>
+                )}
+            </ConfirmationModal>
+        </div>
+    );
+};
+
+export default DuplicateClustersTab;
@@ -0,0 +1,130 @@
+import React, { useEffect, useState } from 'react';
+import { useQuestionDispatch, useQuestionState } from '../../contexts/QuestionContext';
+import { useFlashcardDispatch, useFlashcardState } from '../../contexts/FlashcardContext';
+import { useLiteralnessDispatch, useLiteralnessState } from '../../contexts/LiteralnessContext';
+import {
+    ImportBatchRecord, IMPORT_SOURCE_LABELS, loadImportHistory, planRollback, markBatchRolledBack
+} from '../../services/import/importHistory';
+import ConfirmationModal from '../ConfirmationModal';
+import { ArrowPathIcon, CheckCircleIcon, ClockIcon } from '../icons';
+
+const formatDate = (iso: string) => new Date(iso).toLocaleString('pt-BR', { dateStyle: 'short', timeStyle: 'short' });
+
+const ImportHistoryTab: React.FC = () => {
+    const allQuestions = useQuestionState();
+    const allFlashcards = useFlashcardState();
+    const allCards = useLiteralnessState();
+    const { deleteQuestions, restoreQuestions } = useQuestionDispatch();
+    const { deleteFlashcards, addBatchFlashcards } = useFlashcardDispatch();
+    const { deleteCards, restoreCards } = useLiteralnessDispatch();
+
+    const [history, setHistory] = useState<ImportBatchRecord[] | null>(null);
+    const [pending, setPending] = useState<ImportBatchRecord | null>(null);
+    const [feedback, setFeedback] = useState<string | null>(null);
+
+    const refresh = () => { loadImportHistory().then(setHistory); };
+    useEffect(refresh, []);
+
+    const pendingPlan = pending ? planRollback(pending, { questions: allQuestions, flashcards: allFlashcards, cards: allCards }) : null;
+
+    const handleRollback = async () => {
+        if (!pending || !pendingPlan) return;
+        const plan = pendingPlan;
+
+        if (plan.deleteQuestionIds.length > 0) deleteQuestions(plan.deleteQuestionIds);
+        // Snapshots trocam o registro inteiro: campos que o lote acrescentou (importBatchId, textVersions...) somem
+        if (plan.restoreQuestions.length > 0) restoreQuestions(plan.restoreQuestions);
+        if (plan.deleteFlashcardIds.length > 0) deleteFlashcards(plan.deleteFlashcardIds);
+        if (plan.restoreFlashcards.length > 0) addBatchFlashcards(plan.restoreFlashcards);
+        if (plan.deleteCardIds.length > 0) await deleteCards(plan.deleteCardIds);
+        if (plan.restoreCards.length > 0) await restoreCards(plan.restoreCards);
+
+        const removed = plan.deleteQuestionIds.length + plan.deleteFlashcardIds.length + plan.deleteCardIds.length;
+        const restored = plan.restoreQuestions.length + plan.restoreFlashcards.length + plan.restoreCards.length;
+        await markBatchRolledBack(pending.batchId, { removed, restored });
+        setFeedback(`Lote ${pending.batchId} desfeito: ${removed} item(ns) removido(s), ${restored} restaurado(s).`);
+        refresh();
+    };
+
+    return (
+        <div className="max-w-4xl mx-auto space-y-4">
+            <div className="p-6 bg-bunker-100 dark:bg-bunker-900 rounded-lg">
+                <div className="flex justify-between items-start mb-4">
+                    <div>
+                        <h3 className="font-bold text-lg">Histórico de Importações</h3>
+                        <p className="text-sm text-bunker-500 dark:text-bunker-400 mt-2">
+                            Cada importação fica registrada com a versão anterior do que ela sobrescreveu.
+                            Desfazer um lote remove o que ele criou e restaura o resto; itens fora do lote não são tocados.
+                        </p>
+                    </div>
+                    <button onClick={refresh} className="p-2 rounded-lg text-bunker-500 hover:text-sky-500" title="Atualizar"><ArrowPathIcon className="w-4 h-4" /></button>
+                </div>
+
+                {feedback && (
+                    <div className="mb-4 p-3 rounded-lg bg-emerald-500/10 text-emerald-600 dark:text-emerald-400 text-sm flex items-center gap-2">
+                        <CheckCircleIcon className="w-4 h-4" /> {feedback}
+                    </div>
+                )}
+
+                {history === null ? (
+                    <p className="text-sm text-bunker-500">Carregando...</p>
+                ) : history.length === 0 ? (
+                    <p className="text-sm text-bunker-500">Nenhuma importação registrada ainda.</p>
+                ) : (
+                    <div className="space-y-2">
+                        {history.map(record => {
+                            const overwritten = record.previous.questions.length + record.previous.flashcards.length + record.previous.cards.length;
+                            return (
+                                <div key={record.batchId} className={`p-3 rounded-lg border border-bunker-200 dark:border-bunker-800 bg-white dark:bg-bunker-950 flex flex-col md:flex-row md:items-center gap-3 ${record.rolledBackAt ? 'opacity-60' : ''}`}>
+                                    <div className="flex-1 min-w-0">
+                                        <div className="flex items-center gap-2 flex-wrap">
+                                            <span className="px-2 py-0.5 rounded text-[10px] font-bold uppercase tracking-wider bg-sky-500/10 text-sky-600 dark:text-sky-400">{IMPORT_SOURCE_LABELS[record.source] || record.source}</span>
+                                            <span className="text-sm font-semibold truncate">{record.label}</span>
+                                        </div>
+                                        <div className="flex items-center gap-3 mt-1 text-xs text-bunker-500 flex-wrap">
+                                            <span className="flex items-center gap-1"><ClockIcon className="w-3 h-3" /> {formatDate(record.timestamp)}</span>
+                                            {record.counts.questions > 0 && <span>{record.counts.questions} questão(ões)</span>}
+                                            {record.counts.flashcards > 0 && <span>{record.counts.flashcards} flashcard(s)</span>}
+                                            {record.counts.cards > 0 && <span>{record.counts.cards} card(s)</span>}
+                                            {overwritten > 0 && <span className="text-amber-600 dark:text-amber-400">{overwritten} sobrescrito(s)</span>}
+                                            {record.nearDuplicates && <span className="text-orange-600 dark:text-orange-400" title="Resolva na aba Duplicatas">{record.nearDuplicates} possível(is) duplicata(s)</span>}
+                                            <span className="font-mono">{record.mode}</span>
+                                        </div>
+                                        <span className="block mt-1 text-[10px] font-mono text-bunker-400 truncate">{record.batchId}</span>
+                                    </div>
+                                    {record.rolledBackAt ? (
+                                        <span className="text-xs text-bunker-500 shrink-0">
+                                            Desfeito em {formatDate(record.rolledBackAt)}
+                                            {record.rollback && ` (${record.rollback.removed} removido(s), ${record.rollback.restored} restaurado(s))`}
+                                        </span>
+                                    ) : (
+                                        <button onClick={() => { setFeedback(null); setPending(record); }} className="px-4 py-2 rounded-lg text-xs font-bold bg-red-500/10 text-red-600 dark:text-red-400 hover:bg-red-500/20 shrink-0">
+                                            Desfazer lote
+                                        </button>
+                                    )}
+                                </div>
+                            );
+                        })}
+                    </div>
+                )}
+            </div>
+
+            <ConfirmationModal isOpen={!!pending} onClose={() => setPending(null)} onConfirm={handleRollback} title="Desfazer importação?">
+                {pendingPlan && (
+                    <div className="space-y-2 text-sm">
+                        <p>
+                            Serão removidos {pendingPlan.deleteQuestionIds.length} questão(ões), {pendingPlan.deleteFlashcardIds.length} flashcard(s)
+                            e {pendingPlan.deleteCardIds.length} card(s) criados por este lote.
+                        </p>
+                        <p>
+                            Serão restaurados à versão anterior {pendingPlan.restoreQuestions.length} questão(ões), {pendingPlan.restoreFlashcards.length} flashcard(s)
+                            e {pendingPlan.restoreCards.length} card(s); o progresso registrado neles depois da importação é descartado.
+                        </p>
+                    </div>
+                )}
+            </ConfirmationModal>
+        </div>
+    );
+};
+
+export default ImportHistoryTab;
@@ -3,7 +3,9 @@ import React, { useMemo, useState } from 'react';
 import { useSettings } from '../../contexts/SettingsContext';
 import { useQuestionState } from '../../contexts/QuestionContext';
 import { useFlashcardState } from '../../contexts/FlashcardContext';
-import { PriorityLevel } from '../../types';
+import { PriorityLevel, SrsAlgorithmId } from '../../types';
+import { SCHEDULERS } from '../../services/scheduler';
+import { useSchedulerMigration } from '../../hooks/useSchedulerMigration';
 import { SearchIcon, FireIcon, TrendingUpIcon, PauseIcon, BrainIcon, ClipboardDocumentCheckIcon } from '../icons';
 import ConfirmationModal from '../ConfirmationModal';
 
@@ -26,6 +28,7 @@ const SubjectPrioritiesTab: React.FC = () => {
     const flashcards = useFlashcardState();
     const [searchTerm, setSearchTerm] = useState('');
     const [subjectToToggle, setSubjectToToggle] = useState<string | null>(null);
+    const { countPending, runMigration } = useSchedulerMigration();
 
     const subjectData = useMemo(() => {
         const stats: Record<string, { qCount: number; fCount: number }> = {};
@@ -63,6 +66,20 @@ const SubjectPrioritiesTab: React.FC = () => {
         });
     };
 
+    const handleAlgorithmChange = (subject: string, value: SrsAlgorithmId | '') => {
+        const currentConfig = settings.subjectConfigs[subject] || { priority: 'medium', isFrozen: false };
+        const nextConfig = { ...currentConfig, srsAlgorithm: value || undefined };
+        const subjectConfigs = { ...settings.subjectConfigs, [subject]: nextConfig };
+        updateSettings({ subjectConfigs });
+
+        const nextSettings = { ...settings, subjectConfigs };
+        const inSubject = (item: any) => (item.subject || item.discipline) === subject;
+        const pending = countPending(nextSettings, inSubject);
+        if (pending > 0 && window.confirm(`Recalcular ${pending} item(ns) de ${subject} a partir do histórico de tentativas?`)) {
+            runMigration(nextSettings, { filter: inSubject });
+        }
+    };
+
     const initiateFreezeToggle = (subject: string) => {
         setSubjectToToggle(subject);
     };
@@ -188,6 +205,17 @@ const SubjectPrioritiesTab: React.FC = () => {
                                             Alta <FireIcon />
                                         </button>
                                     </div>
+                                    <div className="flex items-center justify-between mt-3">
+                                        <p className="text-[10px] uppercase font-bold text-bunker-500 dark:text-bunker-400 tracking-wider">Algoritmo</p>
+                                        <select
+                                            value={config.srsAlgorithm || ''}
+                                            onChange={(e) => handleAlgorithmChange(name, e.target.value as SrsAlgorithmId | '')}
+                                            className="bg-bunker-100 dark:bg-bunker-800 border-none rounded-md px-2 py-1 text-xs font-bold text-slate-700 dark:text-slate-300"
+                                        >
+                                            <option value="">Padrão ({SCHEDULERS[settings.srsAlgorithm || 'legacy'].label})</option>
+                                            {Object.values(SCHEDULERS).map(s => <option key={s.id} value={s.id}>{s.label}</option>)}
+                                        </select>
+                                    </div>
                                 </div>
                             </div>
                         );
@@ -0,0 +1,139 @@
+import React, { useState } from 'react';
+import { useFlashcardDispatch, useFlashcardState } from '../../../contexts/FlashcardContext';
+import { createImportBatchId, recordImportBatch } from '../../../services/import/importHistory';
+import { useSettings } from '../../../contexts/SettingsContext';
+import { Flashcard } from '../../../types';
+import { importAnkiPackage, AnkiImportResult, ANKI_SUSPENDED_TAG } from '../../../services/anki/ankiPackage';
+
+interface AnkiAnalysis extends AnkiImportResult {
+    fileName: string;
+    newCards: Flashcard[];
+    duplicates: Flashcard[];
+}
+
+/**
+ * Importação de pacotes do Anki (.apkg/.colpkg).
+ * Notas Básico/Cloze viram flashcards com mídia, tags e agendamento do Anki.
+ */
+const AnkiImportPanel: React.FC = () => {
+    const { addBatchFlashcards } = useFlashcardDispatch();
+    const allFlashcards = useFlashcardState();
+    const { settings } = useSettings();
+    const [file, setFile] = useState<File | null>(null);
+    const [includeHistory, setIncludeHistory] = useState(true);
+    const [isReading, setIsReading] = useState(false);
+    const [error, setError] = useState<string | null>(null);
+    const [analysis, setAnalysis] = useState<AnkiAnalysis | null>(null);
+
+    const handleAnalyze = async () => {
+        if (!file) return;
+        setIsReading(true);
+        setError(null);
+        setAnalysis(null);
+        try {
+            const result = await importAnkiPackage(await file.arrayBuffer(), {
+                includeHistory,
+                defaultStability: settings.srsV2?.S_default_days ?? 1,
+            });
+            const existingIds = new Set(allFlashcards.map(fc => fc.id));
+            setAnalysis({
+                ...result,
+                fileName: file.name,
+                newCards: result.cards.filter(fc => !existingIds.has(fc.id)),
+                duplicates: result.cards.filter(fc => existingIds.has(fc.id)),
+            });
+        } catch (e: any) {
+            setError(e.message || 'Não foi possível ler o pacote do Anki.');
+        } finally {
+            setIsReading(false);
+        }
+    };
+
+    const handleImport = () => {
+        if (!analysis || analysis.newCards.length === 0) {
+            alert("Nenhum flashcard novo para importar.");
+            return;
+        }
+
+        const batchId = createImportBatchId('ANKI');
+        const batch = analysis.newCards.map(f => ({ ...f, importBatchId: batchId }));
+        recordImportBatch({ batchId, source: 'ANKI', label: `${batch.length} flashcard(s) do Anki`, mode: 'SKIP', flashcards: batch }, { flashcards: allFlashcards });
+        addBatchFlashcards(batch);
+
+        let msg = `${analysis.newCards.length} flashcards importados do Anki!`;
+        if (analysis.duplicates.length > 0) {
+            msg += `\n${analysis.duplicates.length} já existiam (mesmo ID) e foram ignorados.`;
+        }
+        alert(msg);
+        setFile(null);
+        setAnalysis(null);
+    };
+
+    const clozeCount = analysis?.newCards.filter(fc => fc.type === 'cloze').length || 0;
+    const reviewedCount = analysis?.newCards.filter(fc => fc.totalAttempts > 0).length || 0;
+    const suspendedCount = analysis?.newCards.filter(fc => fc.tags.includes(ANKI_SUSPENDED_TAG)).length || 0;
+
+    return (
+        <div className="space-y-4 p-6 bg-bunker-100 dark:bg-bunker-900 rounded-lg max-w-4xl mx-auto">
+            <h3 className="font-bold text-lg">Importar do Anki (.apkg / .colpkg)</h3>
+            <p className="text-sm text-bunker-500 dark:text-bunker-400">
+                Notas Básico viram cards <code>basic</code> e notas Cloze viram <code>cloze</code> (cada deleção com seu agendamento).
+                O deck <code>Disciplina::Tópico</code> define disciplina e tópico; imagens e áudios são embutidos no card.
+                <br />Pacotes do Anki 2.1.50+ (formato novo, compactado) são lidos direto; não é preciso marcar "Suporte a versões antigas".
+            </p>
+            <div className="flex flex-col md:flex-row md:items-center gap-4">
+                <input
+                    type="file"
+                    accept=".apkg,.colpkg"
+                    onChange={e => { setFile(e.target.files?.[0] || null); setAnalysis(null); setError(null); }}
+                    className="text-sm flex-1 file:mr-4 file:py-2 file:px-4 file:rounded-lg file:border-0 file:font-bold file:bg-sky-500/20 file:text-sky-700 dark:file:text-sky-300 hover:file:bg-sky-500/30"
+                />
+                <label className="flex items-center gap-2 text-sm cursor-pointer">
+                    <input type="checkbox" checked={includeHistory} onChange={e => setIncludeHistory(e.target.checked)} className="rounded" />
+                    Importar histórico de revisões
+                </label>
+                <button onClick={handleAnalyze} disabled={!file || isReading} className="bg-sky-500/20 text-sky-700 dark:text-sky-300 font-bold py-2 px-4 rounded-lg hover:bg-sky-500/30 disabled:opacity-50">
+                    {isReading ? 'Lendo...' : 'Analisar'}
+                </button>
+            </div>
+
+            {error && (
+                <div className="p-3 bg-red-500/10 rounded-md text-sm text-red-600 dark:text-red-400">{error}</div>
+            )}
+
+            {analysis && (
+                <div className="p-4 bg-bunker-50 dark:bg-bunker-800/50 rounded-lg space-y-4 animate-fade-in">
+                    <h4 className="font-bold text-lg">Análise de {analysis.fileName}</h4>
+                    <p className="text-sm text-bunker-500 dark:text-bunker-400">
+                        {analysis.noteCount} nota(s), {analysis.cardCount} card(s) do Anki, {analysis.mediaCount} arquivo(s) de mídia
+                        {includeHistory && `, ${analysis.attemptCount} revisão(ões) no histórico`}.
+                    </p>
+                    {analysis.warnings.length > 0 && (
+                        <ul className="p-3 bg-amber-500/10 rounded-md list-disc list-inside text-sm text-amber-700 dark:text-amber-300 space-y-1">
+                            {analysis.warnings.map((w, i) => <li key={i}>{w}</li>)}
+                        </ul>
+                    )}
+                    <div className="p-3 bg-emerald-500/10 rounded-md text-emerald-700 dark:text-emerald-300">
+                        <p><strong>{analysis.newCards.length}</strong> novo(s) flashcard(s) para importar.</p>
+                        <p className="text-xs mt-1 opacity-80">
+                            {clozeCount} cloze · {reviewedCount} com agendamento do Anki · {suspendedCount} suspenso(s) (tag <code>{ANKI_SUSPENDED_TAG}</code>)
+                        </p>
+                        <p className="text-xs mt-1 opacity-80 truncate" title={analysis.decks.join(', ')}>Decks: {analysis.decks.join(', ')}</p>
+                    </div>
+                    {analysis.duplicates.length > 0 && (
+                        <div className="p-3 bg-amber-500/10 rounded-md text-amber-700 dark:text-amber-300">
+                            <p><strong>{analysis.duplicates.length}</strong> flashcard(s) já existem (mesmo ID) e serão ignorados.</p>
+                        </div>
+                    )}
+                    <div className="flex justify-end">
+                        <button onClick={handleImport} disabled={analysis.newCards.length === 0} className="bg-emerald-500 text-white font-bold py-2 px-6 rounded-lg shadow-md hover:bg-emerald-600 disabled:opacity-50">
+                            Importar ({analysis.newCards.length})
+                        </button>
+                    </div>
+                </div>
+            )}
+        </div>
+    );
+};
+
+export default AnkiImportPanel;
@@ -2,12 +2,20 @@
 import React, { useState, useMemo, useEffect } from 'react';
 import { useFlashcardState, useFlashcardDispatch } from '../../../contexts/FlashcardContext';
 import { useSettings } from '../../../contexts/SettingsContext';
-import { Flashcard } from '../../../types';
+import { Flashcard, ImageOcclusionData } from '../../../types';
 import { ChevronDownIcon } from '../../icons';
+import { syncFlashcardIndex, flashcardSegments } from '../../../services/dedup/similarityIndex';
+import { DEFAULT_DUPLICATE_THRESHOLD } from '../../../services/dedup/duplicateClusters';
 import * as srs from '../../../services/srsService';
 import DuplicateDetectorPanel from '../../DuplicateDetectorPanel';
 import FlashcardStudySessionModal from '../../FlashcardStudySessionModal';
 import { normalizeDiscipline } from '../../../services/taxonomyService';
+import { parseClozeDeletions, hasClozeMarkers } from '../../../services/clozeService';
+import ClozeText from '../../ClozeText';
+import ImageOcclusionEditor from '../../ImageOcclusionEditor';
+
+const EMPTY_OCCLUSION: ImageOcclusionData = { mode: 'HIDE_ONE', masks: [] };
+const DEFAULT_OCCLUSION_FRONT = 'Identifique a área oculta';
 
 const CreateFlashcardTab: React.FC = () => {
     const { addFlashcard, deleteFlashcards } = useFlashcardDispatch();
@@ -15,6 +23,7 @@ const CreateFlashcardTab: React.FC = () => {
     const { settings } = useSettings();
 
     const [form, setForm] = useState({
+        type: 'basic' as Flashcard['type'],
         discipline: '',
         topic: '',
         front: '',
@@ -31,6 +40,7 @@ const CreateFlashcardTab: React.FC = () => {
     const [isDetecting, setIsDetecting] = useState(false);
     const [ignoredIds, setIgnoredIds] = useState<Set<string>>(new Set());
     const [cardToView, setCardToView] = useState<Flashcard | null>(null);
+    const [occlusion, setOcclusion] = useState<ImageOcclusionData>(EMPTY_OCCLUSION);
 
     const { uniqueDisciplines, uniqueTopics } = useMemo(() => {
         const disciplines = [...new Set(allFlashcards.map(fc => fc.discipline).filter(Boolean))].sort();
@@ -54,19 +64,21 @@ const CreateFlashcardTab: React.FC = () => {
 
             allFlashcards.forEach(fc => {
                 if (ignoredIds.has(fc.id)) return;
-                
-                const fcFront = srs.normalizeTextForDedup(fc.front);
-                const fcBack = srs.normalizeTextForDedup(fc.back);
-                
-                if (fcFront === currentFront) {
-                    if (fcBack === currentBack) {
-                        results.push({ id: fc.id, reason: 'EXACT', item: fc });
-                    } else {
-                        results.push({ id: fc.id, reason: 'NEAR', item: fc });
-                    }
-                }
+                if (srs.normalizeTextForDedup(fc.front) !== currentFront) return;
+                const reason = srs.normalizeTextForDedup(fc.back) === currentBack ? 'EXACT' : 'NEAR';
+                results.push({ id: fc.id, reason, item: fc });
             });
 
+            // Quase-duplicatas com frente diferente vêm do índice de similaridade
+            const found = new Set(results.map(r => r.id));
+            const byId = new Map(allFlashcards.map(fc => [fc.id, fc]));
+            syncFlashcardIndex(allFlashcards, 'flashcard')
+                .query(flashcardSegments(form), DEFAULT_DUPLICATE_THRESHOLD)
+                .forEach(({ id }) => {
+                    const fc = byId.get(id);
+                    if (fc && !found.has(id) && !ignoredIds.has(id)) results.push({ id, reason: 'NEAR', item: fc });
+                });
+
             setDuplicates(results);
             setIsDetecting(false);
         };
@@ -76,31 +88,56 @@ const CreateFlashcardTab: React.FC = () => {
     }, [form.front, form.back, allFlashcards, ignoredIds]);
 
 
-    const handleChange = (e: React.ChangeEvent<HTMLInputElement | HTMLTextAreaElement>) => {
+    const clozeDeletions = useMemo(() => form.type === 'cloze' ? parseClozeDeletions(form.front) : [], [form.type, form.front]);
+
+    const handleChange = (e: React.ChangeEvent<HTMLInputElement | HTMLTextAreaElement | HTMLSelectElement>) => {
         const { name, value } = e.target;
         setForm(prev => ({ ...prev, [name]: value }));
     };
 
+    const handleOcclusionImageUpload = (e: React.ChangeEvent<HTMLInputElement>) => {
+        const file = e.target.files?.[0];
+        if (!file) return;
+        const reader = new FileReader();
+        reader.onload = (ev) => {
+            if (typeof ev.target?.result !== 'string') return;
+            setForm(prev => ({ ...prev, frontImage: ev.target!.result as string }));
+            setOcclusion(EMPTY_OCCLUSION);
+        };
+        reader.readAsDataURL(file);
+    };
+
     const handleSubmit = (e: React.FormEvent) => {
         e.preventDefault();
-        if (!form.discipline || !form.front || !form.back) {
+        const isCloze = form.type === 'cloze';
+        const isOcclusion = form.type === 'imageOcclusion';
+        if (!form.discipline || (!isOcclusion && !form.front) || (!isCloze && !isOcclusion && !form.back)) {
             alert("Preencha os campos obrigatórios: Disciplina, Frente e Verso.");
             return;
         }
+        if (isCloze && !hasClozeMarkers(form.front)) {
+            alert("Cards cloze precisam de ao menos uma deleção no formato {{c1::texto}}.");
+            return;
+        }
+        if (isOcclusion && (!form.frontImage || occlusion.masks.length === 0)) {
+            alert("Cards de oclusão precisam de uma imagem e ao menos uma máscara.");
+            return;
+        }
 
         const newFlashcard: Omit<Flashcard, 'id'> = {
             createdAt: new Date().toISOString(),
             updatedAt: new Date().toISOString(),
             discipline: normalizeDiscipline(form.discipline),
             topic: form.topic,
-            front: form.front,
+            front: isOcclusion ? (form.front.trim() || DEFAULT_OCCLUSION_FRONT) : form.front,
             back: form.back,
+            occlusion: isOcclusion ? occlusion : undefined,
             comments: form.comments,
             frontImage: form.frontImage || undefined,
             frontAudio: form.frontAudio || undefined,
             backImage: form.backImage || undefined,
             backAudio: form.backAudio || undefined,
-            type: 'basic', 
+            type: form.type, 
             tags: form.tags.split(',').map(t => t.trim()).filter(Boolean),
             stability: settings.srsV2?.S_default_days ?? 1,
             lastReviewedAt: undefined,
@@ -125,10 +162,12 @@ const CreateFlashcardTab: React.FC = () => {
         addFlashcard(newFlashcard);
         alert('Flashcard criado com sucesso!');
         setForm({ 
+            type: form.type,
             discipline: '', topic: '', front: '', back: '', tags: '',
             comments: '',
             frontImage: '', frontAudio: '', backImage: '', backAudio: '' 
         });
+        setOcclusion(EMPTY_OCCLUSION);
         setDuplicates([]);
         setIgnoredIds(new Set());
     };
@@ -148,6 +187,14 @@ const CreateFlashcardTab: React.FC = () => {
     return (
         <form onSubmit={handleSubmit} className="space-y-6 p-6 bg-bunker-100 dark:bg-bunker-900 rounded-lg max-w-4xl mx-auto">
             <h3 className="font-bold text-lg">Criar Novo Flashcard</h3>
+            <div>
+                <label htmlFor="type_fc" className="block text-sm font-medium mb-1">Tipo</label>
+                <select id="type_fc" name="type" value={form.type} onChange={handleChange} className="w-full md:w-64 bg-bunker-50 dark:bg-bunker-800 border border-bunker-200 dark:border-bunker-700 rounded-md p-2">
+                    <option value="basic">Básico (Frente/Verso)</option>
+                    <option value="cloze">Cloze (Omissão de palavras)</option>
+                    <option value="imageOcclusion">Oclusão de Imagem</option>
+                </select>
+            </div>
             <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
                 <div>
                     <label htmlFor="discipline_fc" className="block text-sm font-medium mb-1">Disciplina *</label>
@@ -188,6 +235,24 @@ const CreateFlashcardTab: React.FC = () => {
                 </div>
             </details>
 
+            {form.type === 'imageOcclusion' && (
+                <div className="p-4 rounded-lg border border-rose-500/20 bg-rose-500/5 space-y-3">
+                    <h4 className="text-xs font-bold uppercase tracking-widest text-rose-600 dark:text-rose-400">Imagem e Máscaras *</h4>
+                    <div className="flex flex-col md:flex-row gap-2">
+                        <input name="frontImage" value={form.frontImage.startsWith('data:') ? '' : form.frontImage} onChange={(e) => { handleChange(e); setOcclusion(EMPTY_OCCLUSION); }} placeholder="URL da imagem (organograma, fluxo...)" className="flex-1 bg-bunker-50 dark:bg-bunker-800 border border-bunker-200 dark:border-bunker-700 rounded-md p-2 text-sm" />
+                        <label className="px-4 py-2 rounded-md bg-bunker-200 dark:bg-bunker-700 text-sm font-bold cursor-pointer text-center">
+                            Enviar arquivo
+                            <input type="file" accept="image/*" onChange={handleOcclusionImageUpload} className="hidden" />
+                        </label>
+                    </div>
+                    {form.frontImage ? (
+                        <ImageOcclusionEditor image={form.frontImage} value={occlusion} onChange={setOcclusion} />
+                    ) : (
+                        <p className="text-sm text-bunker-500">Informe uma imagem para desenhar as máscaras.</p>
+                    )}
+                </div>
+            )}
+
             <DuplicateDetectorPanel 
                 entityType="flashcard"
                 duplicates={duplicates}
@@ -198,12 +263,33 @@ const CreateFlashcardTab: React.FC = () => {
             />
 
             <div>
-                <label htmlFor="front" className="block text-sm font-medium mb-1">Frente *</label>
-                <textarea id="front" name="front" value={form.front} onChange={handleChange} required rows={4} className="w-full bg-bunker-50 dark:bg-bunker-800 border border-bunker-200 dark:border-bunker-700 rounded-md p-2" />
+                <label htmlFor="front" className="block text-sm font-medium mb-1">{form.type === 'cloze' ? 'Texto com Omissões *' : form.type === 'imageOcclusion' ? 'Pergunta (opcional)' : 'Frente *'}</label>
+                <textarea id="front" name="front" value={form.front} onChange={handleChange} required={form.type !== 'imageOcclusion'} rows={form.type === 'imageOcclusion' ? 2 : 4} placeholder={form.type === 'cloze' ? 'A {{c1::isenção}} e a {{c2::anistia::perdão}} excluem o crédito tributário.' : form.type === 'imageOcclusion' ? DEFAULT_OCCLUSION_FRONT : undefined} className="w-full bg-bunker-50 dark:bg-bunker-800 border border-bunker-200 dark:border-bunker-700 rounded-md p-2" />
+                {form.type === 'cloze' && (
+                    <p className="text-xs text-bunker-500 dark:text-bunker-400 mt-1">
+                        Use <code>{'{{c1::resposta}}'}</code> ou <code>{'{{c1::resposta::dica}}'}</code>. Cada número (c1, c2...) vira uma revisão independente.
+                    </p>
+                )}
             </div>
+            {form.type === 'cloze' && form.front.trim() && (
+                <div className="p-4 rounded-lg border border-sky-500/20 bg-sky-500/5 space-y-3">
+                    <h4 className="text-xs font-bold uppercase tracking-widest text-sky-600 dark:text-sky-400">
+                        Pré-visualização ({clozeDeletions.length} carta{clozeDeletions.length === 1 ? '' : 's'})
+                    </h4>
+                    {clozeDeletions.length === 0 ? (
+                        <p className="text-sm text-amber-600 dark:text-amber-400">Nenhuma deleção encontrada. Marque trechos com {'{{c1::...}}'}.</p>
+                    ) : clozeDeletions.map(d => (
+                        <div key={d.index} className="p-3 rounded-md bg-bunker-50 dark:bg-bunker-800 text-sm space-y-1">
+                            <span className="text-[10px] font-black uppercase tracking-widest text-bunker-400">c{d.index}</span>
+                            <p><ClozeText text={form.front} activeIndex={d.index} revealed={false} /></p>
+                            <p className="text-bunker-500 dark:text-bunker-400"><ClozeText text={form.front} activeIndex={d.index} revealed /></p>
+                        </div>
+                    ))}
+                </div>
+            )}
             <div>
-                <label htmlFor="back" className="block text-sm font-medium mb-1">Verso *</label>
-                <textarea id="back" name="back" value={form.back} onChange={handleChange} required rows={4} className="w-full bg-bunker-50 dark:bg-bunker-800 border border-bunker-200 dark:border-bunker-700 rounded-md p-2" />
+                <label htmlFor="back" className="block text-sm font-medium mb-1">{form.type === 'basic' ? 'Verso *' : 'Verso (informação extra)'}</label>
+                <textarea id="back" name="back" value={form.back} onChange={handleChange} required={form.type === 'basic'} rows={4} className="w-full bg-bunker-50 dark:bg-bunker-800 border border-bunker-200 dark:border-bunker-700 rounded-md p-2" />
             </div>
              <div>
                 <label htmlFor="comments_fc" className="block text-sm font-medium mb-1">Anotações Pessoais</label>
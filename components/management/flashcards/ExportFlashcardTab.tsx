@@ -1,11 +1,41 @@
 
 
-import React from 'react';
+import React, { useState } from 'react';
 import { useFlashcardState } from '../../../contexts/FlashcardContext';
 import { Flashcard } from '../../../types';
+import { exportAnkiPackage } from '../../../services/anki/ankiPackage';
 
 const ExportFlashcardTab: React.FC = () => {
     const flashcards = useFlashcardState();
+    const [ankiFormat, setAnkiFormat] = useState<'apkg' | 'colpkg'>('apkg');
+    const [ankiHistory, setAnkiHistory] = useState(true);
+    const [isExportingAnki, setIsExportingAnki] = useState(false);
+
+    const handleAnkiExport = async () => {
+        if (flashcards.length === 0) {
+            alert("Nenhum flashcard para exportar.");
+            return;
+        }
+        setIsExportingAnki(true);
+        try {
+            const result = await exportAnkiPackage(flashcards, { includeHistory: ankiHistory });
+            const blob = new Blob([result.data as BlobPart], { type: 'application/zip' });
+            const link = document.createElement("a");
+            const url = URL.createObjectURL(blob);
+            link.setAttribute("href", url);
+            const today = new Date().toISOString().slice(0, 10);
+            link.setAttribute("download", `miaaula_flashcards_${today}.${ankiFormat}`);
+            document.body.appendChild(link);
+            link.click();
+            document.body.removeChild(link);
+            URL.revokeObjectURL(url);
+            if (result.warnings.length > 0) alert(result.warnings.join('\n'));
+        } catch (e: any) {
+            alert(`Falha ao gerar o pacote do Anki: ${e.message}`);
+        } finally {
+            setIsExportingAnki(false);
+        }
+    };
 
     const handleExport = () => {
         if (flashcards.length === 0) {
@@ -70,6 +100,33 @@ const ExportFlashcardTab: React.FC = () => {
                     </button>
                 </div>
             </div>
+            <div className="p-6 bg-bunker-100 dark:bg-bunker-900 rounded-lg">
+                <h3 className="font-bold text-lg">Exportar para o Anki</h3>
+                <p className="text-sm text-bunker-500 dark:text-bunker-400 mt-2">
+                    Gera um pacote com decks <code>Disciplina::Tópico</code>, mídia embutida e o agendamento atual de cada card (intervalo, vencimento e facilidade).
+                    Cards cloze viram notas Cloze com um card por deleção. O <code>.colpkg</code> substitui a coleção inteira ao ser aberto no Anki; prefira o <code>.apkg</code> para somar a uma coleção existente.
+                </p>
+                <div className="mt-4 flex flex-wrap items-center gap-6 text-sm">
+                    <label className="flex items-center gap-2 cursor-pointer">
+                        <input type="radio" checked={ankiFormat === 'apkg'} onChange={() => setAnkiFormat('apkg')} /> .apkg (deck)
+                    </label>
+                    <label className="flex items-center gap-2 cursor-pointer">
+                        <input type="radio" checked={ankiFormat === 'colpkg'} onChange={() => setAnkiFormat('colpkg')} /> .colpkg (coleção)
+                    </label>
+                    <label className="flex items-center gap-2 cursor-pointer">
+                        <input type="checkbox" checked={ankiHistory} onChange={e => setAnkiHistory(e.target.checked)} className="rounded" /> Incluir histórico de revisões
+                    </label>
+                </div>
+                <div className="mt-6">
+                    <button
+                        onClick={handleAnkiExport}
+                        disabled={flashcards.length === 0 || isExportingAnki}
+                        className="w-full bg-sky-500/20 text-sky-700 dark:text-sky-300 font-bold py-3 px-4 rounded-lg hover:bg-sky-500/30 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+                    >
+                        {isExportingAnki ? 'Gerando pacote...' : `Exportar ${flashcards.length} Flashcards (.${ankiFormat})`}
+                    </button>
+                </div>
+            </div>
         </div>
     );
 };
@@ -1,10 +1,13 @@
 
 import React, { useState } from 'react';
 import { useFlashcardDispatch, useFlashcardState } from '../../../contexts/FlashcardContext';
+import { createImportBatchId, recordImportBatch } from '../../../services/import/importHistory';
 import { useSettings } from '../../../contexts/SettingsContext';
 import { Flashcard } from '../../../types';
 import { ClipboardListIcon, CheckCircleIcon } from '../../../components/icons';
 import { normalizeDiscipline } from '../../../services/taxonomyService';
+import { hasClozeMarkers, getClozeIndices } from '../../../services/clozeService';
+import AnkiImportPanel from './AnkiImportPanel';
 
 interface ParsedResult {
     newCards: Flashcard[];
@@ -41,6 +44,11 @@ const ImportFlashcardTab: React.FC = () => {
                 }
                 
                 const id = fields.FC_REF;
+                const type = (fields.TYPE === 'cloze' || fields.TYPE === 'imageOcclusion') ? fields.TYPE : 'basic';
+
+                if (type === 'cloze' && !hasClozeMarkers(fields.FRONT)) {
+                    throw new Error('TYPE:cloze exige ao menos uma deleção {{c1::texto}} na FRONT.');
+                }
 
                 const newFlashcard: Flashcard = {
                     id,
@@ -53,7 +61,7 @@ const ImportFlashcardTab: React.FC = () => {
                     front: fields.FRONT,
                     back: fields.BACK,
                     comments: fields.COMMENTS || '',
-                    type: (fields.TYPE === 'cloze' || fields.TYPE === 'imageOcclusion') ? fields.TYPE : 'basic',
+                    type,
                     tags: fields.TAGS ? fields.TAGS.split(',').map(t => t.trim()) : [],
                     stability: settings.srsV2?.S_default_days ?? 1,
                     lastReviewedAt: undefined,
@@ -96,7 +104,10 @@ const ImportFlashcardTab: React.FC = () => {
             return;
         }
 
-        addBatchFlashcards(analysis.newCards);
+        const batchId = createImportBatchId('FLASHCARDS_TXT');
+        const batch = analysis.newCards.map(f => ({ ...f, importBatchId: batchId }));
+        recordImportBatch({ batchId, source: 'FLASHCARDS_TXT', label: `${batch.length} flashcard(s)`, mode: 'SKIP', flashcards: batch }, { flashcards: allFlashcards });
+        addBatchFlashcards(batch);
         
         let msg = `${analysis.newCards.length} flashcards importados com sucesso!`;
         if (analysis.duplicates.length > 0) {
@@ -113,9 +124,10 @@ const ImportFlashcardTab: React.FC = () => {
 # Campos obrigatórios: FC_REF, DISCIPLINE, FRONT, BACK
 # Flags (0 ou 1): HOT, CRIT, FUND, QUERO_CAIR
 # Tags: separadas por vírgula. Ex: TAGS:conceito,importante
+# Cloze: {{c1::resposta}} ou {{c1::resposta::dica}} — cada cN vira uma revisão independente
 
 FC_REF:scrum-pilares-v2;DISCIPLINE:Scrum;TOPIC:Pilares;TYPE:basic;FRONT:Quais são os 3 pilares do Scrum?;BACK:Transparência, Inspeção e Adaptação.;TAGS:scrum-guide,conceito;HOT:1;COMMENTS:Lembre-se que o empirismo é a base do Scrum.
-FC_REF:ctn-exclusao-credito;DISCIPLINE:Direito Tributário;TOPIC:Crédito Tributário;TYPE:cloze;FRONT:A {{c1::isenção}} e a {{c2::anistia}} são formas de exclusão do crédito tributário.;BACK:Correto. Ambas impedem a constituição definitiva do crédito.;TAGS:ctn,literalidade;CRIT:1
+FC_REF:ctn-exclusao-credito;DISCIPLINE:Direito Tributário;TOPIC:Crédito Tributário;TYPE:cloze;FRONT:A {{c1::isenção}} e a {{c2::anistia::perdão}} são formas de exclusão do crédito tributário.;BACK:Correto. Ambas impedem a constituição definitiva do crédito.;TAGS:ctn,literalidade;CRIT:1
 FC_REF:po-responsabilidade;DISCIPLINE:Scrum;FRONT:Quem gerencia o Product Backlog?;BACK:O Product Owner.
 `.trim();
 
@@ -127,59 +139,67 @@ FC_REF:po-responsabilidade;DISCIPLINE:Scrum;FRONT:Quem gerencia o Product Backlo
     };
 
     return (
-        <div className="space-y-6 p-6 bg-bunker-100 dark:bg-bunker-900 rounded-lg max-w-4xl mx-auto">
-            <h3 className="font-bold text-lg">Importar Flashcards em Lote (.txt)</h3>
-            <p className="text-sm text-bunker-500 dark:text-bunker-400">
-                Cole o conteúdo do seu arquivo .txt. Cada linha é um flashcard. Use o formato <code>CHAVE:valor;</code>.
-                <br/>Campos <strong>obrigatórios</strong>: <code>FC_REF</code> (ID único), <code>DISCIPLINE</code>, <code>FRONT</code>, <code>BACK</code>.
-            </p>
-            <div className="relative group">
-                <pre className="text-xs p-3 bg-bunker-50 dark:bg-bunker-800 rounded-md overflow-x-auto whitespace-pre-wrap pr-10 font-mono border border-bunker-200 dark:border-bunker-700"><code>{example}</code></pre>
-                <button 
-                    onClick={handleCopy}
-                    className="absolute top-2 right-2 p-1.5 rounded-lg bg-bunker-200 dark:bg-bunker-700 text-bunker-500 hover:text-white hover:bg-sky-500 transition-all opacity-0 group-hover:opacity-100 focus:opacity-100"
-                    title="Copiar exemplo"
-                >
-                    {copied ? <CheckCircleIcon className="w-4 h-4 text-emerald-500" /> : <ClipboardListIcon className="w-4 h-4" />}
-                </button>
-            </div>
-            <textarea
-                value={text}
-                onChange={(e) => setText(e.target.value)}
-                rows={10}
-                placeholder="Cole o conteúdo aqui..."
-                className="w-full font-mono text-xs bg-bunker-50 dark:bg-bunker-800 border border-bunker-200 dark:border-bunker-700 rounded-md p-2 focus:ring-sky-500 focus:border-sky-500"
-            />
-            <div className="flex justify-end gap-4">
-                <button onClick={handleParse} className="bg-sky-500/20 text-sky-700 dark:text-sky-300 font-bold py-2 px-4 rounded-lg hover:bg-sky-500/30">Analisar</button>
-            </div>
+        <div className="space-y-6">
+            <div className="space-y-6 p-6 bg-bunker-100 dark:bg-bunker-900 rounded-lg max-w-4xl mx-auto">
+                <h3 className="font-bold text-lg">Importar Flashcards em Lote (.txt)</h3>
+                <p className="text-sm text-bunker-500 dark:text-bunker-400">
+                    Cole o conteúdo do seu arquivo .txt. Cada linha é um flashcard. Use o formato <code>CHAVE:valor;</code>.
+                    <br/>Campos <strong>obrigatórios</strong>: <code>FC_REF</code> (ID único), <code>DISCIPLINE</code>, <code>FRONT</code>, <code>BACK</code>.
+                </p>
+                <div className="relative group">
+                    <pre className="text-xs p-3 bg-bunker-50 dark:bg-bunker-800 rounded-md overflow-x-auto whitespace-pre-wrap pr-10 font-mono border border-bunker-200 dark:border-bunker-700"><code>{example}</code></pre>
+                    <button 
+                        onClick={handleCopy}
+                        className="absolute top-2 right-2 p-1.5 rounded-lg bg-bunker-200 dark:bg-bunker-700 text-bunker-500 hover:text-white hover:bg-sky-500 transition-all opacity-0 group-hover:opacity-100 focus:opacity-100"
+                        title="Copiar exemplo"
+                    >
+                        {copied ? <CheckCircleIcon className="w-4 h-4 text-emerald-500" /> : <ClipboardListIcon className="w-4 h-4" />}
+                    </button>
+                </div>
+                <textarea
+                    value={text}
+                    onChange={(e) => setText(e.target.value)}
+                    rows={10}
+                    placeholder="Cole o conteúdo aqui..."
+                    className="w-full font-mono text-xs bg-bunker-50 dark:bg-bunker-800 border border-bunker-200 dark:border-bunker-700 rounded-md p-2 focus:ring-sky-500 focus:border-sky-500"
+                />
+                <div className="flex justify-end gap-4">
+                    <button onClick={handleParse} className="bg-sky-500/20 text-sky-700 dark:text-sky-300 font-bold py-2 px-4 rounded-lg hover:bg-sky-500/30">Analisar</button>
+                </div>
             
-            {analysis && (
-                <div className="p-4 bg-bunker-50 dark:bg-bunker-800/50 rounded-lg space-y-4 animate-fade-in">
-                    <h4 className="font-bold text-lg">Análise da Importação</h4>
-                    {analysis.errors.length > 0 && (
-                        <div className="p-3 bg-red-500/10 rounded-md">
-                            <h5 className="font-bold text-red-500 mb-2">{analysis.errors.length} Erro(s) Encontrado(s):</h5>
-                            <ul className="list-disc list-inside text-sm text-red-600 dark:text-red-400 space-y-2 max-h-48 overflow-y-auto">
-                                {analysis.errors.map((e, i) => <li key={i}><strong>Linha {e.line}:</strong> {e.message}</li>)}
-                            </ul>
+                {analysis && (
+                    <div className="p-4 bg-bunker-50 dark:bg-bunker-800/50 rounded-lg space-y-4 animate-fade-in">
+                        <h4 className="font-bold text-lg">Análise da Importação</h4>
+                        {analysis.errors.length > 0 && (
+                            <div className="p-3 bg-red-500/10 rounded-md">
+                                <h5 className="font-bold text-red-500 mb-2">{analysis.errors.length} Erro(s) Encontrado(s):</h5>
+                                <ul className="list-disc list-inside text-sm text-red-600 dark:text-red-400 space-y-2 max-h-48 overflow-y-auto">
+                                    {analysis.errors.map((e, i) => <li key={i}><strong>Linha {e.line}:</strong> {e.message}</li>)}
+                                </ul>
+                            </div>
+                        )}
+                        <div className="p-3 bg-emerald-500/10 rounded-md text-emerald-700 dark:text-emerald-300">
+                            <p><strong>{analysis.newCards.length}</strong> novo(s) flashcard(s) para importar.</p>
+                            {analysis.newCards.some(fc => fc.type === 'cloze') && (
+                                <p className="text-xs mt-1 opacity-80">
+                                    Cloze: {analysis.newCards.filter(fc => fc.type === 'cloze').length} card(s) geram {analysis.newCards.filter(fc => fc.type === 'cloze').reduce((sum, fc) => sum + getClozeIndices(fc.front).length, 0)} revisões independentes.
+                                </p>
+                            )}
                         </div>
-                    )}
-                    <div className="p-3 bg-emerald-500/10 rounded-md text-emerald-700 dark:text-emerald-300">
-                        <p><strong>{analysis.newCards.length}</strong> novo(s) flashcard(s) para importar.</p>
-                    </div>
-                     {analysis.duplicates.length > 0 && (
-                        <div className="p-3 bg-amber-500/10 rounded-md text-amber-700 dark:text-amber-300">
-                            <p><strong>{analysis.duplicates.length}</strong> flashcard(s) duplicados (mesmo FC_REF) foram encontrados e serão ignorados.</p>
+                         {analysis.duplicates.length > 0 && (
+                            <div className="p-3 bg-amber-500/10 rounded-md text-amber-700 dark:text-amber-300">
+                                <p><strong>{analysis.duplicates.length}</strong> flashcard(s) duplicados (mesmo FC_REF) foram encontrados e serão ignorados.</p>
+                            </div>
+                        )}
+                        <div className="flex justify-end">
+                            <button onClick={handleImport} disabled={analysis.newCards.length === 0} className="bg-emerald-500 text-white font-bold py-2 px-6 rounded-lg shadow-md hover:bg-emerald-600 disabled:opacity-50">
+                                Importar ({analysis.newCards.length})
+                            </button>
                         </div>
-                    )}
-                    <div className="flex justify-end">
-                        <button onClick={handleImport} disabled={analysis.newCards.length === 0} className="bg-emerald-500 text-white font-bold py-2 px-6 rounded-lg shadow-md hover:bg-emerald-600 disabled:opacity-50">
-                            Importar ({analysis.newCards.length})
-                        </button>
                     </div>
-                </div>
-            )}
+                )}
+            </div>
+            <AnkiImportPanel />
         </div>
     );
 };
@@ -1,6 +1,7 @@
 
 import React, { useState } from 'react';
 import { useFlashcardDispatch, useFlashcardState } from '../../../contexts/FlashcardContext';
+import { createImportBatchId, recordImportBatch } from '../../../services/import/importHistory';
 import { useSettings } from '../../../contexts/SettingsContext';
 import { Flashcard, DominioLevel, TabID } from '../../../types';
 import { ClipboardListIcon, CheckCircleIcon } from '../../../components/icons';
@@ -143,7 +144,10 @@ const ImportPairsTab: React.FC<ImportPairsTabProps> = ({ setActiveTab }) => {
             return;
         }
 
-        addBatchFlashcards(analysis.newCards);
+        const batchId = createImportBatchId('PARES');
+        const batch = analysis.newCards.map(f => ({ ...f, importBatchId: batchId }));
+        recordImportBatch({ batchId, source: 'PARES', label: `${batch.length} par(es)`, mode: 'SKIP', flashcards: batch }, { flashcards: allFlashcards });
+        addBatchFlashcards(batch);
         
         if (window.confirm(`${analysis.newCards.length} pares importados com sucesso! \n\nDeseja ir para o Jogo dos Pares agora?`)) {
             setActiveTab('pair-match');
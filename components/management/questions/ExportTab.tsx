@@ -1,30 +1,86 @@
-
-import React from 'react';
+import React, { useMemo, useState } from 'react';
 import { useQuestionState } from '../../../contexts/QuestionContext';
+import { Question } from '../../../types';
+import { toCsv, writeXlsx } from '../../../services/import/spreadsheet';
+import { QuestionExportFilter, EMPTY_EXPORT_FILTER, filterQuestionsForExport, questionsToSheetRows } from '../../../services/import/questionSheet';
+
+type ExportFormat = 'xlsx' | 'csv' | 'txt';
+
+const uniqueSorted = (values: (string | undefined)[]) => [...new Set(values.filter((v): v is string => !!v))].sort((a, b) => a.localeCompare(b));
+
+/** Formato legado (.txt com ;) — mantido para quem ainda usa o arquivo antigo. */
+const buildLegacyTxt = (questions: Question[]): string => {
+    const header = "DATE;BANK;POSITION;SUBJECT;TOPIC;QUESTION_REF;QUESTION_TEXT;ALT_A;ALT_B;ALT_C;ALT_D;ALT_E;EXPLANATION;YOUR_ANSWER;CORRECT_ANSWER;ISCORRECT;TIME_SEC;LEVEL;HOT_TOPIC;QUESTION_TYPE";
+    const sanitize = (str: any): string => String(str ?? '').replace(/;/g, ',').replace(/\r?\n/g, ' ');
+    const rows = questions.map(q => [
+        sanitize(q.lastAttemptDate), sanitize(q.bank), sanitize(q.position), sanitize(q.subject), sanitize(q.topic), sanitize(q.questionRef), sanitize(q.questionText),
+        sanitize(q.options.A), sanitize(q.options.B), sanitize(q.options.C), sanitize(q.options.D), sanitize(q.options.E), sanitize(q.explanation),
+        sanitize(q.yourAnswer), sanitize(q.correctAnswer), q.lastWasCorrect ? "0" : "1", q.timeSec, q.selfEvalLevel, q.hotTopic ? "1" : "0", sanitize(q.questionType)
+    ].join(';'));
+    return [header, ...rows].join('\n');
+};
+
+const FilterChips: React.FC<{ label: string; options: string[]; selected: string[]; onChange: (next: string[]) => void }> = ({ label, options, selected, onChange }) => {
+    if (options.length === 0) return null;
+    const toggle = (value: string) => onChange(selected.includes(value) ? selected.filter(v => v !== value) : [...selected, value]);
+    return (
+        <div>
+            <div className="flex justify-between items-center mb-1">
+                <span className="text-xs font-bold uppercase tracking-wider text-bunker-500">{label}</span>
+                {selected.length > 0 && <button onClick={() => onChange([])} className="text-[10px] text-sky-500 hover:underline">Limpar</button>}
+            </div>
+            <div className="flex flex-wrap gap-1 max-h-28 overflow-y-auto">
+                {options.map(option => (
+                    <button
+                        key={option}
+                        onClick={() => toggle(option)}
+                        className={`px-2 py-1 rounded-md text-xs border ${selected.includes(option) ? 'bg-sky-500 text-white border-sky-500' : 'bg-white dark:bg-bunker-950 border-bunker-200 dark:border-bunker-800 text-bunker-600 dark:text-bunker-300'}`}
+                    >
+                        {option}
+                    </button>
+                ))}
+            </div>
+        </div>
+    );
+};
 
 const ExportTab: React.FC = () => {
     const questions = useQuestionState();
+    const [filter, setFilter] = useState<QuestionExportFilter>(EMPTY_EXPORT_FILTER);
+    const [format, setFormat] = useState<ExportFormat>('xlsx');
+    const [includeStats, setIncludeStats] = useState(true);
+
+    const options = useMemo(() => {
+        // Assuntos seguem as disciplinas escolhidas, para a lista não ficar enorme
+        const topicPool = filter.subjects.length > 0 ? questions.filter(q => filter.subjects.includes(q.subject)) : questions;
+        return {
+            subjects: uniqueSorted(questions.map(q => q.subject)),
+            topics: uniqueSorted(topicPool.map(q => q.topic)),
+            banks: uniqueSorted(questions.map(q => q.bank)),
+            tags: uniqueSorted(questions.flatMap(q => q.tags || [])),
+        };
+    }, [questions, filter.subjects]);
+
+    const selected = useMemo(() => filterQuestionsForExport(questions, filter), [questions, filter]);
 
     const handleExport = () => {
-        if (questions.length === 0) {
+        if (selected.length === 0) {
             alert("Nenhuma questão para exportar.");
             return;
         }
-        const header = "DATE;BANK;POSITION;SUBJECT;TOPIC;QUESTION_REF;QUESTION_TEXT;ALT_A;ALT_B;ALT_C;ALT_D;ALT_E;EXPLANATION;YOUR_ANSWER;CORRECT_ANSWER;ISCORRECT;TIME_SEC;LEVEL;HOT_TOPIC;QUESTION_TYPE";
-        const sanitize = (str: any): string => String(str ?? '').replace(/;/g, ',').replace(/\r?\n/g, ' ');
-        const rows = questions.map(q => [
-            sanitize(q.lastAttemptDate), sanitize(q.bank), sanitize(q.position), sanitize(q.subject), sanitize(q.topic), sanitize(q.questionRef), sanitize(q.questionText),
-            sanitize(q.options.A), sanitize(q.options.B), sanitize(q.options.C), sanitize(q.options.D), sanitize(q.options.E), sanitize(q.explanation),
-            sanitize(q.yourAnswer), sanitize(q.correctAnswer), q.lastWasCorrect ? "0" : "1", q.timeSec, q.selfEvalLevel, q.hotTopic ? "1" : "0", sanitize(q.questionType)
-        ].join(';'));
-        
-        const csvContent = [header, ...rows].join('\n');
-        const blob = new Blob([csvContent], { type: 'text/plain;charset=utf-8;' });
+        let blob: Blob;
+        if (format === 'xlsx') {
+            blob = new Blob([writeXlsx(questionsToSheetRows(selected, includeStats), 'Questoes') as BlobPart], { type: 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet' });
+        } else if (format === 'csv') {
+            blob = new Blob([toCsv(questionsToSheetRows(selected, includeStats))], { type: 'text/csv;charset=utf-8;' });
+        } else {
+            blob = new Blob([buildLegacyTxt(selected)], { type: 'text/plain;charset=utf-8;' });
+        }
         const link = document.createElement("a");
         const url = URL.createObjectURL(blob);
         link.setAttribute("href", url);
         const today = new Date().toISOString().slice(0, 10);
-        link.setAttribute("download", `miaaula_questoes_export_${today}.txt`);
+        link.setAttribute("download", `miaaula_questoes_export_${today}.${format}`);
         document.body.appendChild(link);
         link.click();
         document.body.removeChild(link);
@@ -34,20 +90,45 @@ const ExportTab: React.FC = () => {
     return (
         <div className="max-w-4xl mx-auto space-y-4">
             <div className="p-6 bg-bunker-100 dark:bg-bunker-900 rounded-lg">
-                <h3 className="font-bold text-lg">Exportar Todas as Questões</h3>
+                <h3 className="font-bold text-lg">Exportar Questões</h3>
                 <p className="text-sm text-bunker-500 dark:text-bunker-400 mt-2">
-                    Faça o backup de todas as suas questões em um arquivo de texto (.txt) que pode ser importado de volta no futuro.
+                    Planilhas (XLSX/CSV) preservam quebras de linha e pontuação e podem ser editadas e importadas de volta
+                    pela aba Planilha. Sem filtros, todas as questões são exportadas.
                 </p>
-                 <p className="text-sm text-bunker-500 dark:text-bunker-400 mt-2">
-                    Total de questões a serem exportadas: <strong>{questions.length}</strong>
+
+                <div className="mt-4 space-y-3">
+                    <FilterChips label="Disciplinas" options={options.subjects} selected={filter.subjects} onChange={subjects => setFilter(f => ({ ...f, subjects, topics: [] }))} />
+                    <FilterChips label="Assuntos" options={options.topics} selected={filter.topics} onChange={topics => setFilter(f => ({ ...f, topics }))} />
+                    <FilterChips label="Bancas" options={options.banks} selected={filter.banks} onChange={banks => setFilter(f => ({ ...f, banks }))} />
+                    <FilterChips label="Tags" options={options.tags} selected={filter.tags} onChange={tags => setFilter(f => ({ ...f, tags }))} />
+                </div>
+
+                <div className="mt-4 flex flex-wrap items-center gap-4">
+                    <div className="flex gap-1 bg-bunker-200 dark:bg-bunker-800 p-1 rounded-lg">
+                        {(['xlsx', 'csv', 'txt'] as ExportFormat[]).map(f => (
+                            <button key={f} onClick={() => setFormat(f)} className={`px-3 py-1 rounded text-xs font-bold uppercase ${format === f ? 'bg-sky-500 text-white shadow' : 'text-slate-500'}`}>
+                                {f === 'txt' ? 'TXT (legado)' : f}
+                            </button>
+                        ))}
+                    </div>
+                    {format !== 'txt' && (
+                        <label className="flex items-center gap-2 text-sm">
+                            <input type="checkbox" checked={includeStats} onChange={e => setIncludeStats(e.target.checked)} />
+                            Incluir estatísticas (tentativas, acerto, domínio, última revisão)
+                        </label>
+                    )}
+                </div>
+
+                <p className="text-sm text-bunker-500 dark:text-bunker-400 mt-4">
+                    Questões selecionadas: <strong>{selected.length}</strong> de {questions.length}
                 </p>
-                <div className="mt-6">
-                    <button 
+                <div className="mt-4">
+                    <button
                         onClick={handleExport}
-                        disabled={questions.length === 0}
+                        disabled={selected.length === 0}
                         className="w-full bg-emerald-500/20 text-emerald-700 dark:text-emerald-300 font-bold py-3 px-4 rounded-lg hover:bg-emerald-500/30 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
                     >
-                        Exportar {questions.length} Questões
+                        Exportar {selected.length} Questões
                     </button>
                 </div>
             </div>
@@ -0,0 +1,317 @@
+import React, { useMemo, useState } from 'react';
+import { useQuestionDispatch, useQuestionState } from '../../../contexts/QuestionContext';
+import { createImportBatchId, recordImportBatch } from '../../../services/import/importHistory';
+import { useSettings } from '../../../contexts/SettingsContext';
+import { Question, ImportMode } from '../../../types';
+import {
+    StagedQuestion, BookletDefaults, OPTION_KEYS, OptionKey,
+    extractDocumentText, parseBooklet, validateStaged, stagedToQuestion, suggestRefPrefix, makeQuestionRef,
+} from '../../../services/import/bookletParser';
+
+interface ImportDocumentTabProps {
+    setActiveTab: (tab: 'list') => void;
+}
+
+const inputClass = "w-full bg-bunker-50 dark:bg-bunker-800 border border-bunker-200 dark:border-bunker-700 rounded-md p-2 text-sm focus:ring-sky-500 focus:border-sky-500";
+const cellInputClass = "w-full bg-transparent border border-bunker-200 dark:border-bunker-700 rounded px-1.5 py-1 text-xs focus:ring-sky-500 focus:border-sky-500";
+
+/**
+ * Importação de cadernos de prova (PDF/DOCX) com gabarito separado.
+ * Tudo roda no navegador; as questões passam por uma grade de conferência antes de gravar.
+ */
+const ImportDocumentTab: React.FC<ImportDocumentTabProps> = ({ setActiveTab }) => {
+    const { addBatchQuestions } = useQuestionDispatch();
+    const allQuestions = useQuestionState();
+    const { settings } = useSettings();
+
+    const [bookletFile, setBookletFile] = useState<File | null>(null);
+    const [answerKeyText, setAnswerKeyText] = useState('');
+    const [defaults, setDefaults] = useState<BookletDefaults>({ subject: '', topic: '', bank: '', position: '', refPrefix: '' });
+    const [rows, setRows] = useState<StagedQuestion[] | null>(null);
+    const [isReading, setIsReading] = useState(false);
+    const [error, setError] = useState<string | null>(null);
+    const [importMode, setImportMode] = useState<ImportMode>('SKIP');
+
+    const existingRefs = useMemo(() => new Set(allQuestions.map(q => q.questionRef)), [allQuestions]);
+
+    const handleAnswerKeyFile = async (file: File | undefined) => {
+        if (!file) return;
+        setError(null);
+        try {
+            setAnswerKeyText(await extractDocumentText(file));
+        } catch (e: any) {
+            setError(e.message || 'Não foi possível ler o gabarito.');
+        }
+    };
+
+    const handleAnalyze = async () => {
+        if (!bookletFile) return;
+        setIsReading(true);
+        setError(null);
+        setRows(null);
+        try {
+            const text = await extractDocumentText(bookletFile);
+            const refPrefix = defaults.refPrefix.trim() || suggestRefPrefix(bookletFile.name, defaults.bank);
+            const parsed = parseBooklet(text, answerKeyText, { ...defaults, refPrefix });
+            if (parsed.length === 0) {
+                setError('Nenhuma questão numerada encontrada. Confira se o arquivo tem texto selecionável (não apenas imagem).');
+                return;
+            }
+            setDefaults(d => ({ ...d, refPrefix }));
+            setRows(parsed);
+        } catch (e: any) {
+            setError(e.message || 'Não foi possível ler o caderno.');
+        } finally {
+            setIsReading(false);
+        }
+    };
+
+    const updateRow = (key: string, patch: Partial<StagedQuestion>) => {
+        setRows(prev => prev && prev.map(r => (r.key === key ? { ...r, ...patch } : r)));
+    };
+
+    const updateOption = (row: StagedQuestion, option: OptionKey, value: string) => {
+        updateRow(row.key, { options: { ...row.options, [option]: value } });
+    };
+
+    const applyDefaultsToAll = () => {
+        setRows(prev => prev && prev.map(r => ({
+            ...r,
+            subject: defaults.subject || r.subject,
+            topic: defaults.topic || r.topic,
+            bank: defaults.bank || r.bank,
+            position: defaults.position || r.position,
+        })));
+    };
+
+    const rowErrors = useMemo(() => {
+        const map = new Map<string, string[]>();
+        rows?.forEach(r => map.set(r.key, validateStaged(r)));
+        return map;
+    }, [rows]);
+
+    const selected = rows?.filter(r => r.include) || [];
+    const selectedWithErrors = selected.filter(r => (rowErrors.get(r.key) || []).length > 0);
+    const duplicateCount = selected.filter(r => existingRefs.has(makeQuestionRef(defaults.refPrefix, r.number))).length;
+
+    const handleImport = () => {
+        if (!rows || selected.length === 0) {
+            alert("Nenhuma questão selecionada para importar.");
+            return;
+        }
+        if (selectedWithErrors.length > 0) {
+            alert(`${selectedWithErrors.length} questão(ões) selecionada(s) com erro. Corrija ou desmarque antes de importar.`);
+            return;
+        }
+
+        let nextSequenceNumber = allQuestions.length > 0 ? Math.max(...allQuestions.map(q => q.sequenceNumber || 0)) + 1 : 1;
+        const batchId = createImportBatchId('CADERNO');
+        const newQuestions = selected.map(r => ({ ...stagedToQuestion(r, defaults.refPrefix, nextSequenceNumber++, settings), importBatchId: batchId }));
+        recordImportBatch({ batchId, source: 'CADERNO', label: bookletFile?.name || defaults.refPrefix, mode: importMode, questions: newQuestions as Question[] }, { questions: allQuestions });
+        const { imported, updated, blocked } = addBatchQuestions(newQuestions, importMode);
+
+        let msg = `Processamento concluído (${importMode}).\n`;
+        msg += `Novas: ${imported}\n`;
+        msg += `Atualizadas: ${updated}\n`;
+        msg += `Ignoradas: ${blocked}`;
+        alert(msg);
+
+        setRows(null);
+        setBookletFile(null);
+        setAnswerKeyText('');
+        if (imported + updated > 0) setActiveTab('list');
+    };
+
+    return (
+        <div className="max-w-6xl mx-auto space-y-4">
+            <div className="p-6 bg-bunker-100 dark:bg-bunker-900 rounded-lg space-y-4">
+                <div>
+                    <h3 className="font-bold text-lg">Importar Caderno de Prova (PDF / DOCX)</h3>
+                    <p className="text-sm text-bunker-500 dark:text-bunker-400 mt-2">
+                        As questões numeradas são separadas automaticamente; itens sem alternativas viram Certo/Errado.
+                        O gabarito pode vir em arquivo próprio, colado abaixo ou no fim do caderno (título "GABARITO").
+                        PDFs digitalizados (imagem) precisam de OCR antes.
+                    </p>
+                </div>
+
+                <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                    <div className="space-y-2">
+                        <label className="block text-xs font-bold uppercase text-bunker-500">Caderno de questões</label>
+                        <input
+                            type="file"
+                            accept=".pdf,.docx,.txt"
+                            onChange={e => { setBookletFile(e.target.files?.[0] || null); setRows(null); setError(null); }}
+                            className="text-sm w-full file:mr-4 file:py-2 file:px-4 file:rounded-lg file:border-0 file:font-bold file:bg-sky-500/20 file:text-sky-700 dark:file:text-sky-300 hover:file:bg-sky-500/30"
+                        />
+                        <label className="block text-xs font-bold uppercase text-bunker-500 pt-2">Gabarito</label>
+                        <input
+                            type="file"
+                            accept=".pdf,.docx,.txt"
+                            onChange={e => handleAnswerKeyFile(e.target.files?.[0])}
+                            className="text-sm w-full file:mr-4 file:py-2 file:px-4 file:rounded-lg file:border-0 file:font-bold file:bg-sky-500/20 file:text-sky-700 dark:file:text-sky-300 hover:file:bg-sky-500/30"
+                        />
+                        <textarea
+                            value={answerKeyText}
+                            onChange={e => setAnswerKeyText(e.target.value)}
+                            rows={4}
+                            placeholder={"Ou cole o gabarito. Ex.:\n1 C 2 E 3 X\n01-A 02-D 03-B"}
+                            className={`${inputClass} font-mono text-xs`}
+                        />
+                    </div>
+                    <div className="grid grid-cols-2 gap-3 content-start">
+                        <div>
+                            <label className="block text-xs font-bold uppercase text-bunker-500 mb-1">Disciplina</label>
+                            <input value={defaults.subject} onChange={e => setDefaults(d => ({ ...d, subject: e.target.value }))} className={inputClass} />
+                        </div>
+                        <div>
+                            <label className="block text-xs font-bold uppercase text-bunker-500 mb-1">Tópico</label>
+                            <input value={defaults.topic} onChange={e => setDefaults(d => ({ ...d, topic: e.target.value }))} className={inputClass} />
+                        </div>
+                        <div>
+                            <label className="block text-xs font-bold uppercase text-bunker-500 mb-1">Banca</label>
+                            <input value={defaults.bank} onChange={e => setDefaults(d => ({ ...d, bank: e.target.value }))} className={inputClass} />
+                        </div>
+                        <div>
+                            <label className="block text-xs font-bold uppercase text-bunker-500 mb-1">Cargo / Prova</label>
+                            <input value={defaults.position} onChange={e => setDefaults(d => ({ ...d, position: e.target.value }))} className={inputClass} />
+                        </div>
+                        <div className="col-span-2">
+                            <label className="block text-xs font-bold uppercase text-bunker-500 mb-1">Prefixo do Q_REF</label>
+                            <input
+                                value={defaults.refPrefix}
+                                onChange={e => setDefaults(d => ({ ...d, refPrefix: e.target.value.toUpperCase().replace(/\s+/g, '_') }))}
+                                placeholder="Automático (banca + nome do arquivo)"
+                                className={`${inputClass} font-mono`}
+                            />
+                        </div>
+                    </div>
+                </div>
+
+                <div className="flex justify-end gap-2">
+                    {rows && (
+                        <button onClick={applyDefaultsToAll} className="text-xs font-bold text-sky-500 hover:underline px-2">
+                            Aplicar disciplina/tópico/banca a todas
+                        </button>
+                    )}
+                    <button onClick={handleAnalyze} disabled={!bookletFile || isReading} className="bg-sky-500/20 text-sky-700 dark:text-sky-300 font-bold py-2 px-4 rounded-lg hover:bg-sky-500/30 transition-colors disabled:opacity-50">
+                        {isReading ? 'Lendo...' : 'Analisar Caderno'}
+                    </button>
+                </div>
+
+                {error && (
+                    <div className="p-3 bg-red-500/10 rounded-md text-sm text-red-600 dark:text-red-400">{error}</div>
+                )}
+            </div>
+
+            {rows && (
+                <div className="p-4 bg-bunker-50 dark:bg-bunker-800/50 rounded-lg space-y-4 animate-fade-in border border-bunker-200 dark:border-bunker-700">
+                    <div className="flex flex-wrap justify-between items-center gap-2">
+                        <div>
+                            <h4 className="font-bold text-lg">Conferência ({rows.length} questões)</h4>
+                            <p className="text-xs text-bunker-500 dark:text-bunker-400">
+                                {selected.length} selecionada(s) · {selectedWithErrors.length} com erro · {duplicateCount} já existe(m) (mesmo Q_REF)
+                            </p>
+                        </div>
+                        <div className="flex gap-1 bg-bunker-200 dark:bg-bunker-800 p-1 rounded-lg">
+                            <button onClick={() => setImportMode('SKIP')} className={`px-3 py-1 rounded text-xs font-bold ${importMode === 'SKIP' ? 'bg-white dark:bg-bunker-600 shadow' : 'text-slate-500'}`}>Ignorar Duplicatas</button>
+                            <button onClick={() => setImportMode('MERGE')} className={`px-3 py-1 rounded text-xs font-bold ${importMode === 'MERGE' ? 'bg-sky-500 text-white shadow' : 'text-slate-500'}`}>Mesclar (Completar)</button>
+                            <button onClick={() => setImportMode('OVERWRITE')} className={`px-3 py-1 rounded text-xs font-bold ${importMode === 'OVERWRITE' ? 'bg-amber-500 text-white shadow' : 'text-slate-500'}`}>Sobrescrever</button>
+                        </div>
+                    </div>
+
+                    <div className="overflow-x-auto max-h-[70vh] overflow-y-auto border border-bunker-200 dark:border-bunker-700 rounded-md">
+                        <table className="w-full text-xs">
+                            <thead className="bg-bunker-100 dark:bg-bunker-900 sticky top-0 z-10">
+                                <tr className="text-left uppercase text-bunker-500">
+                                    <th className="p-2">
+                                        <input
+                                            type="checkbox"
+                                            checked={selected.length === rows.length}
+                                            onChange={e => setRows(rows.map(r => ({ ...r, include: e.target.checked })))}
+                                            className="rounded"
+                                        />
+                                    </th>
+                                    <th className="p-2">Nº</th>
+                                    <th className="p-2">Tipo</th>
+                                    <th className="p-2 min-w-[320px]">Enunciado / Alternativas</th>
+                                    <th className="p-2">Gabarito</th>
+                                    <th className="p-2 min-w-[140px]">Disciplina / Tópico / Banca</th>
+                                </tr>
+                            </thead>
+                            <tbody>
+                                {rows.map(row => {
+                                    const errors = rowErrors.get(row.key) || [];
+                                    const hasError = row.include && errors.length > 0;
+                                    return (
+                                        <tr key={row.key} className={`border-t border-bunker-200 dark:border-bunker-700 align-top ${hasError ? 'bg-red-500/10' : ''} ${row.include ? '' : 'opacity-50'}`}>
+                                            <td className="p-2">
+                                                <input type="checkbox" checked={row.include} onChange={e => updateRow(row.key, { include: e.target.checked })} className="rounded" />
+                                            </td>
+                                            <td className="p-2 font-mono font-bold">{row.number}</td>
+                                            <td className="p-2">
+                                                <select
+                                                    value={row.kind}
+                                                    onChange={e => updateRow(row.key, { kind: e.target.value as StagedQuestion['kind'], answer: '' })}
+                                                    className={cellInputClass}
+                                                >
+                                                    <option value="CE">C/E</option>
+                                                    <option value="AE">A–E</option>
+                                                </select>
+                                            </td>
+                                            <td className="p-2 space-y-1">
+                                                {row.context && (
+                                                    <p className="text-[10px] text-bunker-500 dark:text-bunker-400 italic line-clamp-2" title={row.context}>{row.context}</p>
+                                                )}
+                                                <textarea value={row.stem} onChange={e => updateRow(row.key, { stem: e.target.value })} rows={3} className={cellInputClass} />
+                                                {row.kind === 'AE' && OPTION_KEYS.map(opt => (
+                                                    <div key={opt} className="flex items-center gap-1">
+                                                        <span className="font-bold w-4">{opt}</span>
+                                                        <input value={row.options[opt] || ''} onChange={e => updateOption(row, opt, e.target.value)} className={cellInputClass} />
+                                                    </div>
+                                                ))}
+                                                {hasError && (
+                                                    <p className="text-red-600 dark:text-red-400 font-bold">{errors.join(' · ')}</p>
+                                                )}
+                                            </td>
+                                            <td className="p-2">
+                                                <select
+                                                    value={row.annulled ? 'X' : row.answer}
+                                                    onChange={e => updateRow(row.key, { answer: e.target.value === 'X' ? '' : e.target.value, annulled: e.target.value === 'X' })}
+                                                    className={cellInputClass}
+                                                >
+                                                    <option value="">—</option>
+                                                    {row.kind === 'CE' ? (
+                                                        <>
+                                                            <option value="A">Certo</option>
+                                                            <option value="B">Errado</option>
+                                                        </>
+                                                    ) : (
+                                                        OPTION_KEYS.map(opt => <option key={opt} value={opt}>{opt}</option>)
+                                                    )}
+                                                    <option value="X">Anulada</option>
+                                                </select>
+                                            </td>
+                                            <td className="p-2 space-y-1">
+                                                <input value={row.subject} onChange={e => updateRow(row.key, { subject: e.target.value })} placeholder="Disciplina" className={cellInputClass} />
+                                                <input value={row.topic} onChange={e => updateRow(row.key, { topic: e.target.value })} placeholder="Tópico" className={cellInputClass} />
+                                                <input value={row.bank} onChange={e => updateRow(row.key, { bank: e.target.value })} placeholder="Banca" className={cellInputClass} />
+                                            </td>
+                                        </tr>
+                                    );
+                                })}
+                            </tbody>
+                        </table>
+                    </div>
+
+                    <div className="flex justify-end">
+                        <button onClick={handleImport} disabled={selected.length === 0} className="bg-emerald-500 text-white font-bold py-2 px-6 rounded-lg shadow-md hover:bg-emerald-600 disabled:opacity-50 transition-colors">
+                            Importar {selected.length} ({importMode})
+                        </button>
+                    </div>
+                </div>
+            )}
+        </div>
+    );
+};
+
+export default ImportDocumentTab;
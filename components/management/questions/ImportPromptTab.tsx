@@ -1,22 +1,57 @@
 
-import React, { useState } from 'react';
-import { useQuestionDispatch } from '../../../contexts/QuestionContext';
+import React, { useMemo, useState } from 'react';
+import { useQuestionDispatch, useQuestionState } from '../../../contexts/QuestionContext';
+import { createImportBatchId, recordImportBatch } from '../../../services/import/importHistory';
 import { Question } from '../../../types';
 import * as srs from '../../../services/srsService';
 import { useSettings } from '../../../contexts/SettingsContext';
-import { GoogleGenAI, Type } from "@google/genai";
+import { normalizeQuestion } from '../../../services/migrationService';
+import {
+    createLlmProvider, loadLlmConfig, saveLlmConfig, LlmProviderConfig, LlmProviderKind, DEFAULT_MODELS,
+} from '../../../services/llm/llmProviders';
+import {
+    extractQuestionsWithLlm, offlineExtractionResponder, parseCustomSchema, QUESTION_EXTRACTION_SCHEMA,
+} from '../../../services/llm/questionExtraction';
 
 interface ImportPromptTabProps {
   setActiveTab: (tab: 'list') => void;
 }
 
+interface ExtractedQuestion {
+    question: Omit<Question, 'id'>;
+    /** Como ficará após o normalizeQuestion (usado na pré-visualização). */
+    normalized: Question;
+    /** Já existe na base ou repete outra questão deste lote (mesmo fingerprint). */
+    duplicate: boolean;
+}
+
+const PROVIDER_LABELS: Record<LlmProviderKind, string> = {
+    gemini: 'Gemini (nuvem)',
+    openai: 'Servidor compatível com OpenAI (Ollama, llama.cpp...)',
+    mock: 'Simulador offline (sem IA)',
+};
+
 const ImportPromptTab: React.FC<ImportPromptTabProps> = ({ setActiveTab }) => {
     const { addBatchQuestions } = useQuestionDispatch();
+    const allQuestions = useQuestionState();
     const { settings } = useSettings();
     const [prompt, setPrompt] = useState('');
     const [isLoading, setIsLoading] = useState(false);
+    const [progress, setProgress] = useState<{ done: number; total: number } | null>(null);
     const [feedback, setFeedback] = useState<{ type: 'success' | 'error'; message: string } | null>(null);
-    const [importedQuestions, setImportedQuestions] = useState<Omit<Question, 'id'>[]>([]);
+    const [importedQuestions, setImportedQuestions] = useState<ExtractedQuestion[]>([]);
+    const [llmConfig, setLlmConfig] = useState<LlmProviderConfig>(loadLlmConfig);
+    const [showProviderSettings, setShowProviderSettings] = useState(false);
+
+    const existingFingerprints = useMemo(() => new Set(allQuestions.map(q => q.fingerprint || srs.generateQuestionFingerprint(q))), [allQuestions]);
+    const uniqueQuestions = importedQuestions.filter(q => !q.duplicate).map(q => q.question);
+
+    const updateLlmConfig = (patch: Partial<LlmProviderConfig>) => {
+        const next = { ...llmConfig, ...patch };
+        if (patch.kind && patch.kind !== llmConfig.kind) next.model = DEFAULT_MODELS[patch.kind];
+        setLlmConfig(next);
+        saveLlmConfig(next);
+    };
 
     const handleImport = async () => {
         if (!prompt.trim()) {
@@ -29,108 +64,84 @@ const ImportPromptTab: React.FC<ImportPromptTabProps> = ({ setActiveTab }) => {
         setImportedQuestions([]);
 
         try {
-            // FIX: Use Vite-compatible env var access. process.env crashes in browser.
-            const apiKey = (import.meta as any).env.VITE_GOOGLE_API_KEY || '';
-            
-            if (!apiKey) {
-                throw new Error("Chave de API (VITE_GOOGLE_API_KEY) não configurada no ambiente.");
-            }
-
-            const ai = new GoogleGenAI({ apiKey });
-            
-            const responseSchema = {
-                type: Type.ARRAY,
-                items: {
-                    type: Type.OBJECT,
-                    properties: {
-                        questionRef: { type: Type.STRING, description: "Um identificador curto e único para a questão (ex: Q1-Pilares)" },
-                        questionText: { type: Type.STRING, description: "O enunciado completo da questão." },
-                        options: {
-                            type: Type.OBJECT,
-                            properties: {
-                                A: { type: Type.STRING }, B: { type: Type.STRING }, C: { type: Type.STRING }, D: { type: Type.STRING }, E: { type: Type.STRING },
-                            },
-                            description: "As alternativas da questão. Para Certo/Errado, use C: Certo, E: Errado."
-                        },
-                        correctAnswer: { type: Type.STRING, description: "A letra da alternativa correta (A, B, C, D, ou E)." },
-                        explanation: { type: Type.STRING, description: "Uma explicação concisa sobre o porquê da resposta correta." },
-                        subject: { type: Type.STRING, description: "A disciplina principal (ex: Direito Administrativo)." },
-                        topic: { type: Type.STRING, description: "O tópico específico dentro da disciplina (ex: Atos Administrativos)." },
-                        bank: { type: Type.STRING, description: "A banca examinadora (ex: FGV, FCC), se mencionada." },
-                        position: { type: Type.STRING, description: "O cargo ou prova, se mencionado." },
-                        questionType: { type: Type.STRING, description: "Classificação do tipo de questão (ex: Literalidade, Caso Concreto)." },
-                        hotTopic: { type: Type.BOOLEAN, description: "Se o tópico parece ser de alta incidência ou importância." },
-                    },
-                    required: ['questionRef', 'questionText', 'options', 'correctAnswer', 'subject']
-                }
-            };
-            
-            const response = await ai.models.generateContent({
-                model: "gemini-1.5-flash", // Reverting to stable model if preview causes issues
-                contents: `
-                CRITICAL INSTRUCTION: Do NOT include metadata tags like "P1=...", "P7=...", "GUIA_TRAPSCAN", or "TRAPSCAN_EXIGIDO" inside the text of options (A, B, C, D, E). The options must contain ONLY the alternative text.
-                
-                Extraia as questões do seguinte texto. Se o texto contiver múltiplas questões, extraia todas. Garanta que o formato de saída seja estritamente o JSON solicitado:\n\n${prompt}`,
-                config: {
-                    responseMimeType: "application/json",
-                    responseSchema: responseSchema,
-                },
+            const schema = parseCustomSchema(llmConfig.customSchema);
+            const provider = createLlmProvider(llmConfig, offlineExtractionResponder);
+            const result = await extractQuestionsWithLlm(prompt, provider, {
+                schema,
+                chunkSize: llmConfig.chunkSize,
+                onProgress: (done, total) => setProgress({ done, total }),
             });
-            
-            const jsonStr = response.text;
-            if (!jsonStr) throw new Error("A IA não retornou nenhum texto.");
-
-            const parsedQuestions = JSON.parse(jsonStr);
 
-            if (!Array.isArray(parsedQuestions) || parsedQuestions.length === 0) {
-                throw new Error("A IA não conseguiu extrair nenhuma questão válida.");
+            if (result.items.length === 0) {
+                const detail = result.errors.length > 0 ? ` (${result.errors[0].message})` : '';
+                throw new Error(`A IA não conseguiu extrair nenhuma questão válida${detail}.`);
             }
-            
+
             const today = srs.todayISO();
-            const newQuestions = parsedQuestions.map((q: any, index: number) => ({
-                ...q,
-                sequenceNumber: index,
-                createdAt: today,
-                lastAttemptDate: '',
-                totalAttempts: 0,
-                lastWasCorrect: false,
-                timeSec: 0,
-                selfEvalLevel: 0,
-                masteryScore: 0,
-                stability: settings.srsV2?.S_default_days ?? 1,
-                lastReviewedAt: undefined,
-                nextReviewDate: today,
-                srsStage: 0,
-                correctStreak: 0,
-                attemptHistory: [],
-                srsVersion: 2,
-                // Ensure options object handles C/E logic if needed or defaults
-                options: q.options || {},
-                questionType: q.questionType || 'Não Definido',
-                bank: q.bank || '',
-                position: q.position || '',
-                topic: q.topic || '',
-                area: q.subject, // Default area to subject
-                isCritical: false,
-                isFundamental: false,
-                willFallExam: false,
-            }));
+            let nextSequenceNumber = allQuestions.length > 0 ? Math.max(...allQuestions.map(q => q.sequenceNumber || 0)) + 1 : 1;
+            const batchFingerprints = new Set<string>();
+            const newQuestions: ExtractedQuestion[] = result.items.map((q: any) => {
+                const question: Omit<Question, 'id'> = {
+                    ...q,
+                    sequenceNumber: nextSequenceNumber++,
+                    createdAt: today,
+                    lastAttemptDate: '',
+                    totalAttempts: 0,
+                    lastWasCorrect: false,
+                    timeSec: 0,
+                    selfEvalLevel: 0,
+                    masteryScore: 0,
+                    stability: settings.srsV2?.S_default_days ?? 1,
+                    lastReviewedAt: undefined,
+                    nextReviewDate: today,
+                    srsStage: 0,
+                    correctStreak: 0,
+                    attemptHistory: [],
+                    srsVersion: 2,
+                    // Ensure options object handles C/E logic if needed or defaults
+                    options: q.options || {},
+                    questionType: q.questionType || 'Não Definido',
+                    bank: q.bank || '',
+                    position: q.position || '',
+                    topic: q.topic || '',
+                    area: q.subject, // Default area to subject
+                    isCritical: false,
+                    isFundamental: false,
+                    willFallExam: false,
+                };
+                // Mesmo caminho do addBatchQuestions: normaliza e compara o fingerprint
+                const normalized = normalizeQuestion({ ...question, id: 'temp' }, question.lawRef || '');
+                const fingerprint = srs.generateQuestionFingerprint(normalized);
+                const duplicate = existingFingerprints.has(fingerprint) || batchFingerprints.has(fingerprint);
+                batchFingerprints.add(fingerprint);
+                return { question, normalized, duplicate };
+            });
+
+            const duplicates = newQuestions.filter(q => q.duplicate).length;
+            let message = `${newQuestions.length} questões foram extraídas com sucesso! Verifique os dados abaixo e confirme para salvar.`;
+            if (duplicates > 0) message += ` ${duplicates} já existe(m) e será(ão) ignorada(s).`;
+            if (result.retries > 0) message += ` (${result.retries} nova(s) tentativa(s) por JSON inválido)`;
+            if (result.errors.length > 0) message += ` Atenção: ${result.errors.length} de ${result.chunkCount} trecho(s) falharam: ${result.errors.map(e => `#${e.chunk} ${e.message}`).join('; ')}`;
 
             setImportedQuestions(newQuestions);
-            setFeedback({ type: 'success', message: `${newQuestions.length} questões foram extraídas com sucesso! Verifique os dados abaixo e confirme para salvar.` });
+            setFeedback({ type: result.errors.length > 0 ? 'error' : 'success', message });
 
         } catch (error: any) {
             console.error("Erro na importação com IA:", error);
             setFeedback({ type: 'error', message: `Ocorreu um erro: ${error.message || 'Falha desconhecida'}` });
         } finally {
             setIsLoading(false);
+            setProgress(null);
         }
     };
 
     const handleConfirmImport = () => {
-        if (importedQuestions.length > 0) {
-            addBatchQuestions(importedQuestions);
-            setFeedback({ type: 'success', message: 'Questões salvas na sua base de dados!' });
+        if (uniqueQuestions.length > 0) {
+            const batchId = createImportBatchId('IA');
+            const batch = uniqueQuestions.map(q => ({ ...q, importBatchId: batchId }));
+            recordImportBatch({ batchId, source: 'IA', label: `${batch.length} questão(ões) extraída(s) (${llmConfig.model})`, mode: 'SKIP', questions: batch as Question[] }, { questions: allQuestions });
+            const { imported, blocked } = addBatchQuestions(batch, 'SKIP');
+            setFeedback({ type: 'success', message: `Questões salvas na sua base de dados! Novas: ${imported}${blocked > 0 ? ` · Ignoradas: ${blocked}` : ''}` });
             setImportedQuestions([]);
             setPrompt('');
             setTimeout(() => {
@@ -146,8 +157,75 @@ const ImportPromptTab: React.FC<ImportPromptTabProps> = ({ setActiveTab }) => {
                     <span className="text-sky-500">✨</span> Importar com Inteligência Artificial
                 </h3>
                 <p className="text-sm text-bunker-500 dark:text-bunker-400 mt-2">
-                    Cole o texto de um PDF, página da web ou material de estudo. A IA irá analisar o conteúdo, identificar as questões, alternativas, gabarito e comentários, e formatá-las automaticamente para você.
+                    Cole o texto de um PDF, página da web ou material de estudo. A IA irá analisar o conteúdo, identificar as questões, alternativas, gabarito e comentários, e formatá-las automaticamente para você. Textos longos são enviados em trechos.
                 </p>
+                <div className="mt-4 p-3 bg-bunker-50 dark:bg-bunker-800/50 rounded-lg border border-bunker-200 dark:border-bunker-700 text-sm">
+                    <div className="flex flex-wrap items-center justify-between gap-2">
+                        <label className="flex items-center gap-2">
+                            <span className="text-xs font-bold uppercase text-bunker-500">Provedor</span>
+                            <select
+                                value={llmConfig.kind}
+                                onChange={e => updateLlmConfig({ kind: e.target.value as LlmProviderKind })}
+                                disabled={isLoading}
+                                className="bg-bunker-50 dark:bg-bunker-800 border border-bunker-200 dark:border-bunker-700 rounded-md p-1 text-sm"
+                            >
+                                {(Object.keys(PROVIDER_LABELS) as LlmProviderKind[]).map(kind => <option key={kind} value={kind}>{PROVIDER_LABELS[kind]}</option>)}
+                            </select>
+                        </label>
+                        <button onClick={() => setShowProviderSettings(v => !v)} className="text-xs font-bold text-sky-500 hover:underline">
+                            {showProviderSettings ? 'Ocultar configurações' : 'Configurar modelo e schema'}
+                        </button>
+                    </div>
+                    {showProviderSettings && (
+                        <div className="grid grid-cols-1 md:grid-cols-2 gap-3 mt-3 animate-fade-in">
+                            {llmConfig.kind !== 'mock' && (
+                                <label className="block">
+                                    <span className="text-xs font-bold uppercase text-bunker-500">Modelo</span>
+                                    <input value={llmConfig.model} onChange={e => updateLlmConfig({ model: e.target.value })} className="w-full mt-1 bg-bunker-50 dark:bg-bunker-800 border border-bunker-200 dark:border-bunker-700 rounded-md p-1.5 font-mono text-xs" />
+                                </label>
+                            )}
+                            {llmConfig.kind === 'openai' && (
+                                <label className="block">
+                                    <span className="text-xs font-bold uppercase text-bunker-500">URL base</span>
+                                    <input value={llmConfig.baseUrl} onChange={e => updateLlmConfig({ baseUrl: e.target.value })} placeholder="http://localhost:11434/v1" className="w-full mt-1 bg-bunker-50 dark:bg-bunker-800 border border-bunker-200 dark:border-bunker-700 rounded-md p-1.5 font-mono text-xs" />
+                                </label>
+                            )}
+                            {llmConfig.kind !== 'mock' && (
+                                <label className="block">
+                                    <span className="text-xs font-bold uppercase text-bunker-500">Chave de API {llmConfig.kind === 'openai' ? '(opcional)' : '(vazio usa VITE_GOOGLE_API_KEY)'}</span>
+                                    <input type="password" value={llmConfig.apiKey} onChange={e => updateLlmConfig({ apiKey: e.target.value })} className="w-full mt-1 bg-bunker-50 dark:bg-bunker-800 border border-bunker-200 dark:border-bunker-700 rounded-md p-1.5 font-mono text-xs" />
+                                </label>
+                            )}
+                            <label className="block">
+                                <span className="text-xs font-bold uppercase text-bunker-500">Tamanho do trecho (caracteres)</span>
+                                <input type="number" min={1000} step={1000} value={llmConfig.chunkSize} onChange={e => updateLlmConfig({ chunkSize: Number(e.target.value) || 12000 })} className="w-full mt-1 bg-bunker-50 dark:bg-bunker-800 border border-bunker-200 dark:border-bunker-700 rounded-md p-1.5 font-mono text-xs" />
+                            </label>
+                            {llmConfig.kind === 'openai' && (
+                                <label className="flex items-center gap-2 md:col-span-2 cursor-pointer">
+                                    <input type="checkbox" checked={llmConfig.structuredOutput} onChange={e => updateLlmConfig({ structuredOutput: e.target.checked })} className="rounded" />
+                                    <span className="text-xs">Enviar schema como <code>response_format</code> (desmarque se o servidor não suportar json_schema)</span>
+                                </label>
+                            )}
+                            {llmConfig.kind !== 'mock' && (
+                                <label className="block md:col-span-2">
+                                    <span className="text-xs font-bold uppercase text-bunker-500">Schema de saída (JSON Schema; vazio = padrão)</span>
+                                    <textarea
+                                        value={llmConfig.customSchema}
+                                        onChange={e => updateLlmConfig({ customSchema: e.target.value })}
+                                        rows={4}
+                                        placeholder={JSON.stringify(QUESTION_EXTRACTION_SCHEMA).slice(0, 120) + '...'}
+                                        className="w-full mt-1 bg-bunker-50 dark:bg-bunker-800 border border-bunker-200 dark:border-bunker-700 rounded-md p-1.5 font-mono text-xs"
+                                    />
+                                </label>
+                            )}
+                            {llmConfig.kind === 'mock' && (
+                                <p className="text-xs text-bunker-500 dark:text-bunker-400 md:col-span-2">
+                                    O simulador não usa IA: separa questões numeradas com alternativas A–E e lê o gabarito no fim do texto. Útil para testar o fluxo offline.
+                                </p>
+                            )}
+                        </div>
+                    )}
+                </div>
                 <textarea
                     value={prompt}
                     onChange={(e) => setPrompt(e.target.value)}
@@ -168,7 +246,7 @@ const ImportPromptTab: React.FC<ImportPromptTabProps> = ({ setActiveTab }) => {
                                     <circle className="opacity-25" cx="12" cy="12" r="10" stroke="currentColor" strokeWidth="4"></circle>
                                     <path className="opacity-75" fill="currentColor" d="M4 12a8 8 0 018-8V0C5.373 0 0 5.373 0 12h4zm2 5.291A7.962 7.962 0 014 12H0c0 3.042 1.135 5.824 3 7.938l3-2.647z"></path>
                                 </svg>
-                                Processando...
+                                {progress && progress.total > 1 ? `Trecho ${Math.min(progress.done + 1, progress.total)} de ${progress.total}...` : 'Processando...'}
                             </span>
                         ) : 'Extrair Questões'}
                     </button>
@@ -178,7 +256,7 @@ const ImportPromptTab: React.FC<ImportPromptTabProps> = ({ setActiveTab }) => {
             {feedback && (
                 <div className={`${feedback.type === 'success' ? 'bg-emerald-500/10 text-emerald-700 dark:text-emerald-300 border-emerald-500/20' : 'bg-rose-500/10 text-rose-700 dark:text-rose-400 border-rose-500/20'} border p-4 rounded-lg flex flex-col md:flex-row gap-4 justify-between items-center animate-fade-in`}>
                     <p className="font-semibold text-center md:text-left">{feedback.message}</p>
-                    {importedQuestions.length > 0 && (
+                    {uniqueQuestions.length > 0 && (
                         <button onClick={handleConfirmImport} className="bg-emerald-500 text-white font-bold py-2 px-6 rounded-lg shadow hover:bg-emerald-600 transition-colors">
                             Confirmar e Salvar
                         </button>
@@ -189,11 +267,14 @@ const ImportPromptTab: React.FC<ImportPromptTabProps> = ({ setActiveTab }) => {
             {importedQuestions.length > 0 && (
                 <div className="space-y-3 animate-fade-in">
                     <h4 className="font-bold text-bunker-600 dark:text-bunker-300">Pré-visualização ({importedQuestions.length}):</h4>
-                    {importedQuestions.map((q, idx) => (
-                        <div key={idx} className="p-4 bg-bunker-100 dark:bg-bunker-900 border border-bunker-200 dark:border-bunker-700 rounded-lg text-sm">
+                    {importedQuestions.map(({ normalized: q, duplicate }, idx) => (
+                        <div key={idx} className={`p-4 bg-bunker-100 dark:bg-bunker-900 border border-bunker-200 dark:border-bunker-700 rounded-lg text-sm ${duplicate ? 'opacity-50' : ''}`}>
                             <div className="flex justify-between mb-1">
                                 <span className="font-bold text-sky-500">{q.questionRef}</span>
-                                <span className="text-xs bg-bunker-200 dark:bg-bunker-800 px-2 py-0.5 rounded">{q.subject}</span>
+                                <span className="flex gap-1">
+                                    {duplicate && <span className="text-xs bg-amber-500/20 text-amber-700 dark:text-amber-300 px-2 py-0.5 rounded font-bold">Duplicada</span>}
+                                    <span className="text-xs bg-bunker-200 dark:bg-bunker-800 px-2 py-0.5 rounded">{q.subject}</span>
+                                </span>
                             </div>
                             <p className="mb-2">{q.questionText.substring(0, 150)}{q.questionText.length > 150 ? '...' : ''}</p>
                             <div className="text-xs text-emerald-500 font-semibold">Gabarito: {q.correctAnswer}</div>
@@ -0,0 +1,178 @@
+import React, { useMemo, useRef, useState } from 'react';
+import { useQuestionDispatch, useQuestionState } from '../../../contexts/QuestionContext';
+import { useSettings } from '../../../contexts/SettingsContext';
+import { ImportMode } from '../../../types';
+import { createImportBatchId, recordImportBatch } from '../../../services/import/importHistory';
+import { readSpreadsheetFile, SheetRows } from '../../../services/import/spreadsheet';
+import {
+    QUESTION_SHEET_COLUMNS, SheetColumnMapping, QuestionSheetField, guessMapping, loadSheetMapping, saveSheetMapping,
+    sheetRowsToQuestions, missingRequiredColumns
+} from '../../../services/import/questionSheet';
+import { UploadIcon, CheckCircleIcon, ExclamationTriangleIcon } from '../../../components/icons';
+
+interface ImportSpreadsheetTabProps {
+  setActiveTab: (tab: 'list') => void;
+}
+
+interface LoadedSheet {
+    fileName: string;
+    rows: SheetRows;
+    remembered: boolean;
+}
+
+const ImportSpreadsheetTab: React.FC<ImportSpreadsheetTabProps> = () => {
+    const { addBatchQuestions } = useQuestionDispatch();
+    const allQuestions = useQuestionState();
+    const { settings } = useSettings();
+    const fileInputRef = useRef<HTMLInputElement>(null);
+    const [sheet, setSheet] = useState<LoadedSheet | null>(null);
+    const [mapping, setMapping] = useState<SheetColumnMapping>({});
+    const [importMode, setImportMode] = useState<ImportMode>('MERGE');
+    const [error, setError] = useState<string | null>(null);
+
+    const headers = sheet?.rows[0] || [];
+
+    const handleFileChange = async (event: React.ChangeEvent<HTMLInputElement>) => {
+        const file = event.target.files?.[0];
+        event.target.value = '';
+        if (!file) return;
+        setError(null);
+        try {
+            const rows = await readSpreadsheetFile(file);
+            if (rows.length < 2) throw new Error('A planilha precisa de um cabeçalho e ao menos uma linha.');
+            const remembered = await loadSheetMapping(rows[0]);
+            setMapping(remembered || guessMapping(rows[0]));
+            setSheet({ fileName: file.name, rows, remembered: !!remembered });
+        } catch (e: any) {
+            setSheet(null);
+            setError(e.message);
+        }
+    };
+
+    const analysis = useMemo(
+        () => sheet ? sheetRowsToQuestions(sheet.rows, mapping, settings.srsV2?.S_default_days ?? 1) : null,
+        [sheet, mapping, settings.srsV2?.S_default_days]
+    );
+    const missing = useMemo(() => missingRequiredColumns(mapping), [mapping]);
+    const existingRefs = useMemo(() => new Set(allQuestions.map(q => q.questionRef)), [allQuestions]);
+    const alreadyExisting = analysis ? analysis.questions.filter(q => existingRefs.has(q.questionRef)).length : 0;
+
+    const handleImport = () => {
+        if (!sheet || !analysis || analysis.questions.length === 0) return;
+        saveSheetMapping(headers, mapping, sheet.fileName);
+
+        const batchId = createImportBatchId('PLANILHA');
+        const batch = analysis.questions.map(q => ({ ...q, importBatchId: batchId }));
+        recordImportBatch({ batchId, source: 'PLANILHA', label: sheet.fileName, mode: importMode, questions: batch }, { questions: allQuestions });
+        const { imported, updated, blocked } = addBatchQuestions(batch, importMode);
+
+        let msg = `Processamento concluído (${importMode}).\n`;
+        msg += `Novas: ${imported}\n`;
+        msg += `Atualizadas: ${updated}\n`;
+        msg += `Ignoradas: ${blocked}`;
+        if (analysis.errors.length > 0) msg += `\nLinhas com erro (não importadas): ${analysis.errors.length}`;
+
+        alert(msg);
+        setSheet(null);
+        setMapping({});
+    };
+
+    return (
+        <div className="max-w-4xl mx-auto space-y-4">
+            <div className="p-6 bg-bunker-100 dark:bg-bunker-900 rounded-lg">
+                <h3 className="font-bold text-lg">Importar Planilha (CSV / XLSX)</h3>
+                <p className="text-sm text-bunker-500 dark:text-bunker-400 mt-2">
+                    A primeira linha deve ser o cabeçalho. Associe cada coluna a um campo da questão; o mapeamento fica salvo
+                    e é reaplicado quando uma planilha com as mesmas colunas for enviada de novo.
+                </p>
+
+                <input type="file" ref={fileInputRef} onChange={handleFileChange} accept=".csv,.tsv,.txt,.xlsx" className="hidden" />
+                <button onClick={() => fileInputRef.current?.click()} className="mt-4 bg-sky-500/20 text-sky-700 dark:text-sky-300 font-bold py-2 px-4 rounded-lg hover:bg-sky-500/30 transition-colors flex items-center gap-2">
+                    <UploadIcon className="w-4 h-4" /> {sheet ? sheet.fileName : 'Escolher arquivo'}
+                </button>
+
+                {error && (
+                    <div className="mt-4 p-3 bg-red-500/10 rounded-md border border-red-500/20 text-sm text-red-600 dark:text-red-400 flex items-center gap-2">
+                        <ExclamationTriangleIcon className="w-4 h-4" /> {error}
+                    </div>
+                )}
+            </div>
+
+            {sheet && (
+                <div className="p-6 bg-bunker-100 dark:bg-bunker-900 rounded-lg">
+                    <div className="flex justify-between items-center mb-3">
+                        <h4 className="font-bold">Mapeamento de colunas</h4>
+                        {sheet.remembered && <span className="text-xs text-emerald-600 dark:text-emerald-400 flex items-center gap-1"><CheckCircleIcon className="w-3 h-3" /> Mapeamento lembrado</span>}
+                    </div>
+                    <div className="grid grid-cols-1 md:grid-cols-2 gap-2 max-h-80 overflow-y-auto">
+                        {headers.map((header, col) => (
+                            <div key={`${header}_${col}`} className="flex items-center gap-2 p-2 rounded-lg bg-white dark:bg-bunker-950 border border-bunker-200 dark:border-bunker-800">
+                                <div className="flex-1 min-w-0">
+                                    <span className="block text-xs font-bold truncate">{header || `(coluna ${col + 1})`}</span>
+                                    <span className="block text-[10px] text-bunker-500 truncate">{sheet.rows[1]?.[col] || '—'}</span>
+                                </div>
+                                <select
+                                    value={mapping[header] || ''}
+                                    onChange={e => setMapping(prev => ({ ...prev, [header]: e.target.value as QuestionSheetField | '' }))}
+                                    className="bg-bunker-50 dark:bg-bunker-800 border border-bunker-200 dark:border-bunker-700 rounded-md px-2 py-1 text-xs"
+                                >
+                                    <option value="">— ignorar —</option>
+                                    {QUESTION_SHEET_COLUMNS.map(c => <option key={c.field} value={c.field}>{c.label}</option>)}
+                                </select>
+                            </div>
+                        ))}
+                    </div>
+                    {missing.length > 0 && (
+                        <p className="mt-3 text-xs text-amber-600 dark:text-amber-400">
+                            Campos obrigatórios sem coluna: {missing.join(', ')}.
+                        </p>
+                    )}
+                </div>
+            )}
+
+            {analysis && (
+                <div className="p-4 bg-bunker-50 dark:bg-bunker-800/50 rounded-lg space-y-4 animate-fade-in border border-bunker-200 dark:border-bunker-700">
+                    <div className="flex justify-between items-center">
+                        <h4 className="font-bold text-lg">Validação</h4>
+                        <div className="flex gap-1 bg-bunker-200 dark:bg-bunker-800 p-1 rounded-lg">
+                             <button onClick={() => setImportMode('SKIP')} className={`px-3 py-1 rounded text-xs font-bold ${importMode === 'SKIP' ? 'bg-white dark:bg-bunker-600 shadow' : 'text-slate-500'}`}>Ignorar Duplicatas</button>
+                             <button onClick={() => setImportMode('MERGE')} className={`px-3 py-1 rounded text-xs font-bold ${importMode === 'MERGE' ? 'bg-sky-500 text-white shadow' : 'text-slate-500'}`}>Mesclar (Completar)</button>
+                             <button onClick={() => setImportMode('OVERWRITE')} className={`px-3 py-1 rounded text-xs font-bold ${importMode === 'OVERWRITE' ? 'bg-amber-500 text-white shadow' : 'text-slate-500'}`}>Sobrescrever</button>
+                        </div>
+                    </div>
+
+                    <div className="grid grid-cols-3 gap-4">
+                        <div className="p-3 bg-emerald-500/10 rounded-md text-emerald-700 dark:text-emerald-300 border border-emerald-500/20 text-center">
+                            <span className="block text-2xl font-bold">{analysis.questions.length}</span>
+                            <span className="text-xs uppercase font-bold">Válidas</span>
+                        </div>
+                        <div className="p-3 bg-amber-500/10 rounded-md text-amber-700 dark:text-amber-300 border border-amber-500/20 text-center">
+                            <span className="block text-2xl font-bold">{alreadyExisting}</span>
+                            <span className="text-xs uppercase font-bold">Já Existem (Ref)</span>
+                        </div>
+                        <div className="p-3 bg-red-500/10 rounded-md text-red-700 dark:text-red-300 border border-red-500/20 text-center">
+                            <span className="block text-2xl font-bold">{analysis.errors.length}</span>
+                            <span className="text-xs uppercase font-bold">Com Erro</span>
+                        </div>
+                    </div>
+
+                    {analysis.errors.length > 0 && (
+                        <div className="p-3 bg-red-500/10 rounded-md border border-red-500/20">
+                            <ul className="list-disc list-inside text-sm text-red-600 dark:text-red-400 space-y-1 max-h-48 overflow-y-auto">
+                                {analysis.errors.map(e => <li key={e.row}><strong>Linha {e.row}{e.ref && ` (${e.ref})`}:</strong> {e.problems.join('; ')}</li>)}
+                            </ul>
+                        </div>
+                    )}
+
+                    <div className="flex justify-end">
+                        <button onClick={handleImport} disabled={analysis.questions.length === 0} className="bg-emerald-500 text-white font-bold py-2 px-6 rounded-lg shadow-md hover:bg-emerald-600 disabled:opacity-50 transition-colors">
+                            Processar ({importMode})
+                        </button>
+                    </div>
+                </div>
+            )}
+        </div>
+    );
+};
+
+export default ImportSpreadsheetTab;
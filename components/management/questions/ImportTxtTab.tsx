@@ -1,6 +1,7 @@
 
 import React, { useState, useRef } from 'react';
 import { useQuestionDispatch, useQuestionState } from '../../../contexts/QuestionContext';
+import { createImportBatchId, recordImportBatch } from '../../../services/import/importHistory';
 import { Question, ImportMode } from '../../../types';
 import * as srs from '../../../services/srsService';
 import { useSettings } from '../../../contexts/SettingsContext';
@@ -361,7 +362,10 @@ const ImportTxtTab: React.FC<ImportTxtTabProps> = ({ setActiveTab }) => {
             return;
         }
         
-        const { imported, updated, blocked } = addBatchQuestions(analysis.newQuestions, importMode);
+        const batchId = createImportBatchId('TXT');
+        const batch = analysis.newQuestions.map(q => ({ ...q, importBatchId: batchId }));
+        recordImportBatch({ batchId, source: 'TXT', label: `${batch.length} questão(ões) em lote`, mode: importMode, questions: batch as Question[] }, { questions: allQuestions });
+        const { imported, updated, blocked } = addBatchQuestions(batch, importMode);
         
         let msg = `Processamento concluído (${importMode}).\n`;
         msg += `Novas: ${imported}\n`;
@@ -86,6 +86,7 @@ const RetroGameRunner: React.FC<RetroGameRunnerProps> = ({ gameType, onExit, crt
                 wasCorrect: isCorrect,
                 masteryAfter: srsResult.masteryScore!,
                 stabilityAfter: srsResult.stability,
+                nextReviewDate: srsResult.nextReviewDate,
                 timeSec: timeTaken,
                 selfEvalLevel: selfEval,
                 trapCode
@@ -1,26 +1,35 @@
 
-import React, { useState } from 'react';
+import React, { useState, useEffect } from 'react';
 import ReactDOM from 'react-dom';
 import { ImportReport, ImportCountDetail } from '../../types';
+import { recordImportDecisions } from '../../services/import/importDiff';
+import ImportDiffReview from '../ImportDiffReview';
 import { CheckCircleIcon, XMarkIcon, ExclamationTriangleIcon, ClipboardDocumentCheckIcon, BoltIcon, DownloadIcon } from '../icons';
 
 interface ImportReportModalProps {
     isOpen: boolean;
     onClose: () => void;
-    onConfirm: () => void;
+    /** Recebe as chaves das alterações rejeitadas na revisão do dry-run. */
+    onConfirm: (rejected: Set<string>) => void;
     report: ImportReport | null;
 }
 
 const ImportReportModal: React.FC<ImportReportModalProps> = ({ isOpen, onClose, onConfirm, report }) => {
     const [acknowledged, setAcknowledged] = useState(false);
+    const [rejected, setRejected] = useState<Set<string>>(new Set());
+
+    useEffect(() => { setRejected(new Set()); }, [report?.importId]);
     
     if (!isOpen || !report) return null;
     
     const isSuccess = report.summary.status === 'SUCCESS';
     const isFailure = report.summary.status === 'FAILED';
     
+    // O log leva as decisões atuais da revisão
+    const logReport = report.dryRun ? recordImportDecisions(report, report.dryRun, rejected) : report;
+
     const downloadLog = () => {
-        const blob = new Blob([JSON.stringify(report, null, 2)], { type: 'application/json' });
+        const blob = new Blob([JSON.stringify(logReport, null, 2)], { type: 'application/json' });
         const url = URL.createObjectURL(blob);
         const a = document.createElement('a');
         a.href = url;
@@ -30,13 +39,13 @@ const ImportReportModal: React.FC<ImportReportModalProps> = ({ isOpen, onClose,
     };
 
     const copyLog = () => {
-        navigator.clipboard.writeText(JSON.stringify(report, null, 2));
+        navigator.clipboard.writeText(JSON.stringify(logReport, null, 2));
         alert("Log copiado!");
     };
 
     return ReactDOM.createPortal(
         <div className="fixed inset-0 z-[12000] bg-black/90 backdrop-blur-sm flex items-center justify-center p-4 animate-fade-in" onClick={onClose}>
-            <div className="bg-slate-900 border border-white/10 w-full max-w-2xl rounded-2xl shadow-2xl flex flex-col max-h-[90vh] overflow-hidden" onClick={e => e.stopPropagation()}>
+            <div className={`bg-slate-900 border border-white/10 w-full ${report.dryRun?.diffs.length ? 'max-w-3xl' : 'max-w-2xl'} rounded-2xl shadow-2xl flex flex-col max-h-[90vh] overflow-hidden`} onClick={e => e.stopPropagation()}>
                 
                 {/* Header */}
                 <div className={`p-6 border-b border-white/5 flex justify-between items-center ${isSuccess ? 'bg-emerald-900/20' : isFailure ? 'bg-rose-900/20' : 'bg-amber-900/20'}`}>
@@ -95,6 +104,14 @@ const ImportReportModal: React.FC<ImportReportModalProps> = ({ isOpen, onClose,
                         </div>
                     </div>
 
+                    {/* Dry-run: diff contra o conteúdo existente */}
+                    {report.dryRun && !isFailure && (
+                        <div className="bg-black/20 rounded-xl p-4 border border-white/5">
+                            <h4 className="text-xs font-black text-slate-400 uppercase tracking-widest mb-3">Alterações em Conteúdo Existente</h4>
+                            <ImportDiffReview dryRun={report.dryRun} rejected={rejected} onChange={setRejected} />
+                        </div>
+                    )}
+
                     {/* Error Log */}
                     {report.details.length > 0 && (
                         <div>
@@ -156,7 +173,7 @@ const ImportReportModal: React.FC<ImportReportModalProps> = ({ isOpen, onClose,
                     </button>
                     {!isFailure && (
                         <button 
-                            onClick={onConfirm}
+                            onClick={() => onConfirm(rejected)}
                             disabled={!isSuccess && !acknowledged}
                             className={`px-8 py-3 rounded-xl text-white font-black text-xs uppercase tracking-widest shadow-lg flex items-center gap-2 transition-all 
                                 ${!isSuccess && !acknowledged ? 'bg-slate-700 text-slate-500 cursor-not-allowed' : 'bg-emerald-600 hover:bg-emerald-500 active:scale-95'}
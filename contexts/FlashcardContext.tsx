@@ -5,6 +5,11 @@ import * as srs from '../services/srsService';
 import { SAMPLE_FLASHCARDS } from './flashcard-sample-data';
 import { saveData, loadData } from '../services/storage';
 import { useSettings } from './SettingsContext';
+import { sanitizeOcclusion } from '../services/occlusionService';
+import { expandSiblings } from '../services/siblingService';
+import { registerDueLoad } from '../services/scheduler/loadBalancer';
+import { FLASHCARD_MEDIA_FIELDS, hasInlineMedia, externalizeInlineMedia, applyMediaReplacements } from '../services/media/mediaStore';
+import { traceService } from '../services/traceService';
 
 const LS_FLASHCARDS_KEY = 'revApp_flashcards_v1';
 const FlashcardStateContext = createContext<Flashcard[] | undefined>(undefined);
@@ -60,11 +65,20 @@ const hydrateFlashcard = (fc: any, index: number): Flashcard | null => {
         lastAttemptDate: fc.lastAttemptDate || '',
         timeSec: Number(fc.timeSec) || 0,
         selfEvalLevel: Number(fc.selfEvalLevel) || 0,
+        difficulty: Number(fc.difficulty) || undefined,
+        lapses: Number(fc.lapses) || undefined,
+        siblingStates: fc.siblingStates && typeof fc.siblingStates === 'object' ? fc.siblingStates : undefined,
+        occlusion: sanitizeOcclusion(fc.occlusion),
+        // Vínculos e origem: sem eles o card some do export por lote e do rollback de importação
+        litRef: fc.litRef,
+        importBatchId: fc.importBatchId,
+        studyRefs: Array.isArray(fc.studyRefs) ? fc.studyRefs : undefined,
+        ignoreDuplicatesFor: Array.isArray(fc.ignoreDuplicatesFor) ? fc.ignoreDuplicatesFor : undefined,
     };
 };
 
 export const FlashcardProvider: React.FC<{ children: ReactNode }> = ({ children }) => {
-  const { logSystemError } = useSettings();
+  const { logSystemError, settings } = useSettings();
   const [flashcards, setFlashcards] = useState<Flashcard[]>([]);
   const [isLoaded, setIsLoaded] = useState(false);
 
@@ -92,6 +106,15 @@ export const FlashcardProvider: React.FC<{ children: ReactNode }> = ({ children
     if (!isLoaded) return;
     const save = async () => {
         try {
+            // Base64 nos campos de mídia vai para o media store; o save acontece na próxima rodada, já com as referências
+            if (hasInlineMedia(flashcards, FLASHCARD_MEDIA_FIELDS)) {
+                const replacements = await externalizeInlineMedia(flashcards, FLASHCARD_MEDIA_FIELDS);
+                if (replacements.length > 0) {
+                    traceService.trace('MEDIA_EXTERNALIZED', 'STORAGE', undefined, { entity: 'flashcards', count: replacements.length });
+                    setFlashcards(prev => applyMediaReplacements(prev, replacements));
+                    return;
+                }
+            }
             await saveData(LS_FLASHCARDS_KEY, flashcards);
         } catch (e) {
             logSystemError(e, 'FlashcardContext Save');
@@ -100,6 +123,13 @@ export const FlashcardProvider: React.FC<{ children: ReactNode }> = ({ children
     save();
   }, [flashcards, isLoaded, logSystemError]);
 
+  // Carga por dia para o balanceamento das próximas revisões (irmãs contam separado)
+  const isBalancing = !!settings.loadBalancing?.enabled;
+  useEffect(() => {
+    if (!isLoaded || !isBalancing) return;
+    registerDueLoad('flashcards', flashcards.flatMap(expandSiblings).filter(fc => (fc.totalAttempts || 0) > 0));
+  }, [flashcards, isLoaded, isBalancing]);
+
   const addFlashcard = useCallback((newCardData: Omit<Flashcard, 'id'>) => {
     const newCard: Flashcard = { ...newCardData, id: `fc_${Date.now()}_${Math.random().toString(36).substring(2, 7)}` };
     setFlashcards(prev => [...prev, newCard]);
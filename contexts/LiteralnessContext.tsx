@@ -4,6 +4,7 @@ import { LiteralnessCard, Question, Flashcard } from '../types';
 import * as storage from '../services/storage';
 import * as idGen from '../services/idGenerator';
 import * as srs from '../services/srsService';
+import { versionReimportedCard } from '../services/lawVersionService';
 
 const LiteralnessStateContext = createContext<LiteralnessCard[] | undefined>(undefined);
 const LiteralnessDispatchContext = createContext<any | undefined>(undefined);
@@ -75,6 +76,11 @@ export const LiteralnessProvider: React.FC<{ children: React.ReactNode }> = ({ c
         const safeFlashcards = Array.isArray(flashcards) ? flashcards : [];
         const safeGaps = Array.isArray(gaps) ? gaps : [];
 
+        // Reimportação com redação diferente: o texto anterior fica no histórico de versões
+        const existingById = new Map(cards.map(c => [c.id, c]));
+        const now = new Date();
+        newCards = newCards.map(card => versionReimportedCard(existingById.get(card.id), card, now));
+
         // 1. Persiste Núcleos
         await storage.dbPut(storage.STORES.NUCLEUS, newCards);
         
@@ -114,13 +120,22 @@ export const LiteralnessProvider: React.FC<{ children: React.ReactNode }> = ({ c
             const incomingIds = new Set(newCards.map(c => c.id));
             return [...prev.filter(c => !incomingIds.has(c.id)), ...newCards];
         });
-    }, []);
+    }, [cards]);
 
     const updateCard = useCallback(async (card: LiteralnessCard) => {
         await storage.dbPut(storage.STORES.NUCLEUS, card);
         setCards(prev => prev.map(c => c.id === card.id ? card : c));
     }, []);
 
+    /** Devolve cards a um snapshot (rollback de importação): grava como estão, sem nova versão de texto. */
+    const restoreCards = useCallback(async (snapshots: LiteralnessCard[]) => {
+        await storage.dbPut(storage.STORES.NUCLEUS, snapshots);
+        setCards(prev => {
+            const restoredIds = new Set(snapshots.map(c => c.id));
+            return [...prev.filter(c => !restoredIds.has(c.id)), ...snapshots];
+        });
+    }, []);
+
     const moveCardToLaw = useCallback(async (cardId: string, newLawId: string) => {
         const card = cards.find(c => c.id === cardId);
         if (!card) return;
@@ -135,7 +150,7 @@ export const LiteralnessProvider: React.FC<{ children: React.ReactNode }> = ({ c
         setCards(prev => prev.filter(c => !ids.includes(c.id)));
     }, []);
 
-    const dispatch = useMemo(() => ({ addBatchCards, updateCard, deleteCards, moveCardToLaw }), [addBatchCards, updateCard, deleteCards, moveCardToLaw]);
+    const dispatch = useMemo(() => ({ addBatchCards, restoreCards, updateCard, deleteCards, moveCardToLaw }), [addBatchCards, restoreCards, updateCard, deleteCards, moveCardToLaw]);
 
     return (
         <LiteralnessStateContext.Provider value={cards}>
@@ -10,6 +10,10 @@ import { migrateAllQuestions, normalizeQuestion } from '../services/migrationSer
 import { traceService } from '../services/traceService';
 import { attemptService, AttemptPayload } from '../services/attemptService';
 import { isStrictQuestion } from '../services/contentGate'; // IMPORT GATE
+import { registerDueLoad } from '../services/scheduler/loadBalancer';
+import { collectTrainingExamples, trainTrapscanModel, registerTrapscanModel } from '../services/trapscanClassifier';
+import { QUESTION_MERGE_FIELDS } from '../services/import/importDiff';
+import { QUESTION_MEDIA_FIELDS, hasInlineMedia, externalizeInlineMedia, applyMediaReplacements } from '../services/media/mediaStore';
 
 const LS_QUESTIONS_KEY = 'revApp_questions_v5_react';
 
@@ -19,6 +23,7 @@ interface QuestionDispatch {
   addQuestion: (newQuestion: Omit<Question, 'id'>) => void;
   updateQuestion: (updatedQuestion: Question) => void;
   updateBatchQuestions: (updates: ({ id: string } & Partial<Omit<Question, 'id'>>)[]) => void;
+  restoreQuestions: (snapshots: Question[]) => void;
   deleteQuestions: (ids: string[]) => void;
   resetAllProgress: (settings: AppSettings) => void;
   addBatchQuestions: (newQuestions: Omit<Question, 'id'>[], mode?: ImportMode) => { imported: number, blocked: number, updated: number };
@@ -69,9 +74,34 @@ export const QuestionProvider: React.FC<{ children: ReactNode }> = ({ children }
 
   useEffect(() => {
     if (!isLoaded) return;
+    // Base64 nos campos de mídia vai para o media store; o save acontece na próxima rodada, já com as referências
+    if (hasInlineMedia(questions, QUESTION_MEDIA_FIELDS)) {
+        externalizeInlineMedia(questions, QUESTION_MEDIA_FIELDS)
+            .then(replacements => {
+                if (replacements.length === 0) return saveData(LS_QUESTIONS_KEY, questions);
+                traceService.trace('MEDIA_EXTERNALIZED', 'STORAGE', undefined, { entity: 'questions', count: replacements.length });
+                setQuestions(prev => applyMediaReplacements(prev, replacements));
+            })
+            .catch(e => logSystemError(e, 'QuestionContext Save'));
+        return;
+    }
     saveData(LS_QUESTIONS_KEY, questions).catch(e => logSystemError(e, 'QuestionContext Save'));
   }, [questions, isLoaded, logSystemError]);
 
+  // Carga por dia para o balanceamento das próximas revisões
+  const isBalancing = !!settings.loadBalancing?.enabled;
+  useEffect(() => {
+    if (!isLoaded || !isBalancing) return;
+    registerDueLoad('questions', questions.filter(q => q.totalAttempts > 0));
+  }, [questions, isLoaded, isBalancing]);
+
+  // Classificador do Trapscan: re-treinado com os rótulos do usuário, fora do caminho de cada resposta
+  useEffect(() => {
+    if (!isLoaded) return;
+    const timer = window.setTimeout(() => registerTrapscanModel(trainTrapscanModel(collectTrainingExamples(questions))), 2000);
+    return () => window.clearTimeout(timer);
+  }, [questions, isLoaded]);
+
   const addQuestion = useCallback((newQuestionData: Omit<Question, 'id'>) => {
     const normalizedData = normalizeQuestion({ ...newQuestionData, id: 'temp' }, newQuestionData.lawRef || '');
     const { id, ...cleanData } = normalizedData;
@@ -137,13 +167,7 @@ export const QuestionProvider: React.FC<{ children: ReactNode }> = ({ children }
                 } else if (mode === 'MERGE') {
                     const updatedQ = { ...existing };
                     let hasChanges = false;
-                    const fieldsToCheck: (keyof Question)[] = [
-                        'explanationTech', 'explanationStory', 'feynmanQuestions', 
-                        'distractorProfile', 'wrongDiagnosis', 'wrongDiagnosisMap',
-                        'rawImportBlock', 'lawRef', 'guiaTrapscan', 'keyDistinction', 'anchorText'
-                    ];
-
-                    fieldsToCheck.forEach(key => {
+                    QUESTION_MERGE_FIELDS.forEach(key => {
                         const val = normalized[key];
                         if ((!updatedQ[key] || (typeof updatedQ[key] === 'object' && Object.keys(updatedQ[key] || {}).length === 0)) && val) {
                             (updatedQ as any)[key] = val;
@@ -245,6 +269,21 @@ export const QuestionProvider: React.FC<{ children: ReactNode }> = ({ children }
     });
   }, []);
 
+  /** Devolve questões a um snapshot salvo: o registro inteiro é trocado, sem mesclar campos. */
+  const restoreQuestions = useCallback((snapshots: Question[]) => {
+    setQuestions(prev => {
+        const snapshotsMap = new Map(snapshots.map(q => [srs.getCanonicalId(q.id), q]));
+        const restored = prev.map(q => {
+            const canonicalId = srs.getCanonicalId(q.id);
+            const snapshot = snapshotsMap.get(canonicalId);
+            if (!snapshot) return q;
+            snapshotsMap.delete(canonicalId);
+            return snapshot;
+        });
+        return [...restored, ...snapshotsMap.values()];
+    });
+  }, []);
+
   const deleteQuestions = useCallback((ids: string[]) => {
     const idsSet = new Set(ids.map(id => srs.getCanonicalId(id)));
     const now = new Date().toISOString();
@@ -310,6 +349,7 @@ export const QuestionProvider: React.FC<{ children: ReactNode }> = ({ children }
                       wasCorrect: isCorrect,
                       masteryAfter: srsResult.masteryScore!,
                       stabilityAfter: srsResult.stability,
+                      nextReviewDate: srsResult.nextReviewDate,
                       timeSec: Math.round(timeSec),
                       selfEvalLevel: selfEval,
                       timingClass: srsResult.timingClass,
@@ -343,8 +383,8 @@ export const QuestionProvider: React.FC<{ children: ReactNode }> = ({ children }
   }, [settings]);
   
   const dispatchValue = useMemo(() => ({
-    addQuestion, updateQuestion, updateBatchQuestions, deleteQuestions, resetAllProgress, addBatchQuestions, removeDuplicates, registerAttempt
-  }), [addQuestion, updateQuestion, updateBatchQuestions, deleteQuestions, resetAllProgress, addBatchQuestions, removeDuplicates, registerAttempt]);
+    addQuestion, updateQuestion, updateBatchQuestions, restoreQuestions, deleteQuestions, resetAllProgress, addBatchQuestions, removeDuplicates, registerAttempt
+  }), [addQuestion, updateQuestion, updateBatchQuestions, restoreQuestions, deleteQuestions, resetAllProgress, addBatchQuestions, removeDuplicates, registerAttempt]);
 
   // Filter out soft-deleted questions for consumers
   const visibleQuestions = useMemo(() => questions.filter(q => !q.deletedAt), [questions]);
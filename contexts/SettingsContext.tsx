@@ -2,6 +2,8 @@
 import React, { createContext, useContext, useState, useEffect, ReactNode, useCallback } from 'react';
 import { AppSettings, Goal, BattleHistoryEntry, DailyTaskType, DailyActivityLog, GameRecord, PairMatchHistoryEntry, ReviewAlarm, SystemLog } from '../types';
 import { loadData, saveData } from '../services/storage';
+import { hashPin, verifyPin as verifyPinHash, isLegacyPinHash } from '../services/vaultService';
+import { FSRS_DEFAULTS } from '../services/scheduler';
 
 const LS_SETTINGS_KEY = 'revApp_settings_v1';
 
@@ -83,6 +85,8 @@ const defaultSettings: AppSettings = {
   lockEarlyReview: true,
   isPinLockEnabled: false,
   pinHash: undefined,
+  autoLockMinutes: 5,
+  encryptBackups: false,
   studyProtocolMode: 'free', 
   
   alarms: [],
@@ -131,6 +135,9 @@ const defaultSettings: AppSettings = {
     cap_S_days: 365,
     enableRetrievabilityCheck: true,
   },
+  srsAlgorithm: 'legacy',
+  fsrs: { ...FSRS_DEFAULTS },
+  loadBalancing: { enabled: false, dailyCap: 150, fuzzPercent: 0.05, vacation: null },
   target_sec_default: 120,
   literalnessHighScore: 0,
   dailyActivityLog: {},
@@ -156,6 +163,7 @@ const defaultSettings: AppSettings = {
 
 interface SettingsContextType {
   settings: AppSettings;
+  isLoaded: boolean;
   updateSettings: (newSettings: Partial<AppSettings>) => void;
   lastXpGain: { amount: number, message: string, id: number } | null;
   addXp: (amount: number, message: string) => void;
@@ -167,7 +175,8 @@ interface SettingsContextType {
   updateAlarm: (id: string, updates: Partial<ReviewAlarm>) => void;
   deleteAlarm: (id: string) => void;
   requestNotificationPermission: () => Promise<boolean>;
-  setPin: (pin: string | null) => void;
+  setPin: (pin: string | null) => Promise<void>;
+  verifyPin: (pin: string) => Promise<boolean>;
   systemLogs: SystemLog[];
   logSystemError: (error: any, context?: string) => void;
   clearLogs: () => void;
@@ -198,6 +207,8 @@ export const SettingsProvider: React.FC<{ children: ReactNode }> = ({ children }
               } else {
                   merged.srsV2 = { ...defaultSettings.srsV2, ...merged.srsV2 };
               }
+              merged.fsrs = { ...defaultSettings.fsrs!, ...merged.fsrs };
+              merged.loadBalancing = { ...defaultSettings.loadBalancing!, ...merged.loadBalancing };
               
               // Ensure Trapscan config
               if (!merged.trapscan) {
@@ -375,14 +386,26 @@ export const SettingsProvider: React.FC<{ children: ReactNode }> = ({ children }
       return permission === 'granted';
   }, []);
 
-  const setPin = useCallback((pin: string | null) => {
+  const setPin = useCallback(async (pin: string | null) => {
+      const pinHash = pin ? await hashPin(pin) : undefined;
       setSettings(prev => ({
           ...prev,
           isPinLockEnabled: !!pin,
-          pinHash: pin ? btoa(pin) : undefined // Simple encoding for demo
+          pinHash
       }));
   }, []);
 
+  const verifyPin = useCallback(async (pin: string) => {
+      const stored = settings.pinHash;
+      const ok = await verifyPinHash(pin, stored);
+      // Migra o hash legado (btoa) para PBKDF2 no primeiro desbloqueio
+      if (ok && isLegacyPinHash(stored)) {
+          const pinHash = await hashPin(pin);
+          setSettings(prev => ({ ...prev, pinHash }));
+      }
+      return ok;
+  }, [settings.pinHash]);
+
   const logSystemError = useCallback((error: any, context?: string) => {
       const newLog: SystemLog = {
           id: `log_${Date.now()}`,
@@ -402,6 +425,7 @@ export const SettingsProvider: React.FC<{ children: ReactNode }> = ({ children }
   return (
     <SettingsContext.Provider value={{
       settings,
+      isLoaded,
       updateSettings,
       lastXpGain,
       addXp,
@@ -414,6 +438,7 @@ export const SettingsProvider: React.FC<{ children: ReactNode }> = ({ children }
       deleteAlarm,
       requestNotificationPermission,
       setPin,
+      verifyPin,
       systemLogs,
       logSystemError,
       clearLogs
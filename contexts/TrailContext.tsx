@@ -4,6 +4,7 @@ import { SubjectTrail, LessonNode, LessonStatus, Question, Flashcard, AppSetting
 import * as srs from '../services/srsService';
 import * as rs from '../services/reviewStatusService';
 import { saveData, loadData } from '../services/storage';
+import { TRAIL_MEDIA_FIELDS, hasInlineMedia, externalizeInlineMedia, applyMediaReplacements } from '../services/media/mediaStore';
 import { useSettings } from './SettingsContext';
 
 const LS_TRAILS_KEY = 'revApp_trails_v1';
@@ -18,7 +19,7 @@ interface TrailDispatch {
   updateLessonStats: (lessonId: string, correctRate: number) => void; // Deprecated but kept for compat
   syncLessonState: (lessonId: string, allQuestions: Question[], allFlashcards: Flashcard[], settings: AppSettings) => void;
   deleteLesson: (lessonId: string) => void;
-  updateTrailImage: (subjectId: string, base64Image: string) => void;
+  updateTrailImage: (subjectId: string, image: string) => void;
   reorderLessons: (subjectId: string, newLessons: LessonNode[]) => void;
   updateTrail: (oldId: string, newId: string, updates: Partial<SubjectTrail>) => void;
 }
@@ -70,6 +71,14 @@ export const TrailProvider: React.FC<{ children: ReactNode }> = ({ children }) =
     if (!isLoaded) return;
     const save = async () => {
         try {
+            // Capa enviada como base64 vai para o media store antes de salvar
+            if (hasInlineMedia(trails, TRAIL_MEDIA_FIELDS)) {
+                const replacements = await externalizeInlineMedia(trails, TRAIL_MEDIA_FIELDS);
+                if (replacements.length > 0) {
+                    setTrails(prev => applyMediaReplacements(prev, replacements));
+                    return;
+                }
+            }
             await saveData(LS_TRAILS_KEY, trails);
         } catch (error) {
             logSystemError(error, 'TrailContext Save');
@@ -265,9 +274,10 @@ export const TrailProvider: React.FC<{ children: ReactNode }> = ({ children }) =
       })).filter(t => t.lessons.length > 0));
   }, []);
 
-  const updateTrailImage = useCallback((subjectId: string, base64Image: string) => {
+  // Cor, gradiente, URL ou data URL (este último é movido para o media store no save)
+  const updateTrailImage = useCallback((subjectId: string, image: string) => {
       setTrails(prev => prev.map(trail => 
-          trail.id === subjectId ? { ...trail, themeImage: base64Image } : trail
+          trail.id === subjectId ? { ...trail, themeImage: image } : trail
       ));
   }, []);
 
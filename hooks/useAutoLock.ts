@@ -0,0 +1,61 @@
+import { useEffect, useRef } from 'react';
+
+const ACTIVITY_EVENTS = ['pointerdown', 'keydown', 'wheel', 'touchstart', 'mousemove'] as const;
+const LOCK_EVENT = 'miaaula:lock';
+
+/**
+ * Pede o bloqueio imediato do app (ex.: botão "Bloquear agora" nos Ajustes).
+ */
+export const requestAppLock = () => window.dispatchEvent(new Event(LOCK_EVENT));
+
+/**
+ * Bloqueia após `minutes` sem interação. Também bloqueia ao voltar para a aba
+ * se ela ficou oculta por mais tempo que o limite (timers são suspensos em segundo plano).
+ */
+export const useAutoLock = (enabled: boolean, minutes: number, onLock: () => void) => {
+    const lastActivityRef = useRef(Date.now());
+    const onLockRef = useRef(onLock);
+    onLockRef.current = onLock;
+
+    useEffect(() => {
+        if (!enabled) return;
+
+        const handleLockRequest = () => onLockRef.current();
+        window.addEventListener(LOCK_EVENT, handleLockRequest);
+
+        if (!minutes || minutes <= 0) {
+            return () => window.removeEventListener(LOCK_EVENT, handleLockRequest);
+        }
+
+        const limitMs = minutes * 60000;
+        let timer: ReturnType<typeof setTimeout>;
+
+        const schedule = () => {
+            clearTimeout(timer);
+            timer = setTimeout(() => onLockRef.current(), limitMs);
+        };
+
+        const handleActivity = () => {
+            lastActivityRef.current = Date.now();
+            schedule();
+        };
+
+        const handleVisibility = () => {
+            if (document.visibilityState === 'visible' && Date.now() - lastActivityRef.current >= limitMs) {
+                onLockRef.current();
+            }
+        };
+
+        lastActivityRef.current = Date.now();
+        schedule();
+        ACTIVITY_EVENTS.forEach(evt => window.addEventListener(evt, handleActivity, { passive: true }));
+        document.addEventListener('visibilitychange', handleVisibility);
+
+        return () => {
+            clearTimeout(timer);
+            ACTIVITY_EVENTS.forEach(evt => window.removeEventListener(evt, handleActivity));
+            document.removeEventListener('visibilitychange', handleVisibility);
+            window.removeEventListener(LOCK_EVENT, handleLockRequest);
+        };
+    }, [enabled, minutes]);
+};
@@ -0,0 +1,36 @@
+import { useCallback } from 'react';
+import { LoadBalancingConfig } from '../types';
+import { useSettings } from '../contexts/SettingsContext';
+import { useQuestionState, useQuestionDispatch } from '../contexts/QuestionContext';
+import { useFlashcardState, useFlashcardDispatch } from '../contexts/FlashcardContext';
+import { applyDueShifts, collectDueUnits, planBacklogRecovery, planVacationShift, ShiftPlan } from '../services/scheduler/loadBalancer';
+
+/**
+ * Planeja e grava deslocamentos de vencimento (férias e recuperação de atrasos)
+ * sobre questões e flashcards. Os planos são puros; só `applyPlan` escreve.
+ */
+export const useDueDateShifts = () => {
+    const { settings } = useSettings();
+    const questions = useQuestionState();
+    const flashcards = useFlashcardState();
+    const { updateBatchQuestions } = useQuestionDispatch();
+    const { updateBatchFlashcards } = useFlashcardDispatch();
+
+    const planVacation = useCallback((config: LoadBalancingConfig) =>
+        planVacationShift(collectDueUnits(questions, flashcards, settings), config),
+    [questions, flashcards, settings]);
+
+    const planRecovery = useCallback((config: LoadBalancingConfig, spreadDays?: number) =>
+        planBacklogRecovery(collectDueUnits(questions, flashcards, settings), config, new Date(), spreadDays),
+    [questions, flashcards, settings]);
+
+    const applyPlan = useCallback((plan: ShiftPlan) => {
+        const questionUpdates = applyDueShifts(questions, plan.shifts);
+        const flashcardUpdates = applyDueShifts(flashcards, plan.shifts);
+        if (questionUpdates.length > 0) updateBatchQuestions(questionUpdates);
+        if (flashcardUpdates.length > 0) updateBatchFlashcards(flashcardUpdates);
+        return { questions: questionUpdates.length, flashcards: flashcardUpdates.length };
+    }, [questions, flashcards, updateBatchQuestions, updateBatchFlashcards]);
+
+    return { planVacation, planRecovery, applyPlan };
+};
@@ -0,0 +1,22 @@
+import { useEffect, useState } from 'react';
+import { isMediaRef, peekMediaUrl, resolveMediaUrl } from '../services/media/mediaStore';
+
+/**
+ * URL exibível de um campo de mídia. Referências `media:` são carregadas do
+ * IndexedDB só quando o componente as pede (undefined = não pedir/carregando).
+ */
+export const useMediaUrl = (value?: string): string | undefined => {
+    const [url, setUrl] = useState<string | undefined>(() => peekMediaUrl(value));
+
+    useEffect(() => {
+        if (!isMediaRef(value)) { setUrl(value); return; }
+        let cancelled = false;
+        setUrl(peekMediaUrl(value));
+        resolveMediaUrl(value)
+            .then(resolved => { if (!cancelled) setUrl(resolved); })
+            .catch(e => console.warn('[Media] Falha ao carregar', value, e));
+        return () => { cancelled = true; };
+    }, [value]);
+
+    return url;
+};
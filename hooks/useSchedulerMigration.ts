@@ -0,0 +1,35 @@
+import { useCallback } from 'react';
+import { AppSettings, SrsItem } from '../types';
+import { useQuestionState, useQuestionDispatch } from '../contexts/QuestionContext';
+import { useFlashcardState, useFlashcardDispatch } from '../contexts/FlashcardContext';
+import { migrateItemsToConfiguredScheduler, needsReschedule } from '../services/scheduler';
+
+/**
+ * Reagenda questões e flashcards a partir do histórico de tentativas quando o
+ * algoritmo configurado (global ou da disciplina) muda.
+ * `nextSettings` deve ser a configuração já com a troca aplicada.
+ */
+export const useSchedulerMigration = () => {
+    const questions = useQuestionState();
+    const flashcards = useFlashcardState();
+    const { updateBatchQuestions } = useQuestionDispatch();
+    const { updateBatchFlashcards } = useFlashcardDispatch();
+
+    const countPending = useCallback((nextSettings: AppSettings, filter?: (item: SrsItem) => boolean) => {
+        const items: SrsItem[] = [...questions, ...flashcards];
+        return items.filter(item => (!filter || filter(item)) && needsReschedule(item, nextSettings)).length;
+    }, [questions, flashcards]);
+
+    const runMigration = useCallback((nextSettings: AppSettings, options: { force?: boolean; filter?: (item: SrsItem) => boolean } = {}) => {
+        const pick = <T extends SrsItem>(items: T[]) => (options.filter ? items.filter(options.filter) : items);
+        const migratedQuestions = migrateItemsToConfiguredScheduler(pick(questions), nextSettings, options.force);
+        const migratedFlashcards = migrateItemsToConfiguredScheduler(pick(flashcards), nextSettings, options.force);
+
+        if (migratedQuestions.length > 0) updateBatchQuestions(migratedQuestions);
+        if (migratedFlashcards.length > 0) updateBatchFlashcards(migratedFlashcards);
+
+        return { questions: migratedQuestions.length, flashcards: migratedFlashcards.length };
+    }, [questions, flashcards, updateBatchQuestions, updateBatchFlashcards]);
+
+    return { countPending, runMigration };
+};
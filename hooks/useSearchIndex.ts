@@ -0,0 +1,30 @@
+import { useEffect, useState } from 'react';
+import { useQuestionState } from '../contexts/QuestionContext';
+import { useFlashcardState } from '../contexts/FlashcardContext';
+import { useLiteralnessState } from '../contexts/LiteralnessContext';
+import { syncSearchIndex, onSearchIndexChange, getSearchIndexRevision } from '../services/search/searchService';
+
+// Edições em sequência (digitação, sessão de estudo) viram uma única atualização do índice
+const SYNC_DEBOUNCE_MS = 800;
+
+/**
+ * Mantém o índice de busca alinhado aos contextos. Devolve a revisão atual do
+ * índice, que muda sempre que algum documento entra, muda ou sai.
+ */
+export const useSearchIndex = (): number => {
+    const questions = useQuestionState();
+    const flashcards = useFlashcardState();
+    const cards = useLiteralnessState();
+    const [revision, setRevision] = useState(getSearchIndexRevision);
+
+    useEffect(() => onSearchIndexChange(() => setRevision(getSearchIndexRevision())), []);
+
+    useEffect(() => {
+        const timer = setTimeout(() => {
+            syncSearchIndex({ questions, flashcards, cards }).catch(e => console.warn('[Search] Falha ao atualizar o índice', e));
+        }, SYNC_DEBOUNCE_MS);
+        return () => clearTimeout(timer);
+    }, [questions, flashcards, cards]);
+
+    return revision;
+};
@@ -9,12 +9,16 @@ import { TopicProvider } from './contexts/TopicContext';
 import { LiteralnessProvider } from './contexts/LiteralnessContext';
 import { TrailProvider } from './contexts/TrailContext';
 import { ProfileProvider } from './contexts/ProfileContext';
+import { startSyncJournal } from './services/sync/syncEngine';
 
 const rootElement = document.getElementById('root');
 if (!rootElement) {
   throw new Error("Could not find root element to mount to");
 }
 
+// Registra alterações locais para a sincronização entre dispositivos
+startSyncJournal();
+
 const root = ReactDOM.createRoot(rootElement);
 root.render(
   <React.StrictMode>
@@ -0,0 +1,52 @@
+// Servidor local de testes para a sincronização (HttpSyncTransport).
+// Uso: node scripts/sync-server.js [porta]   — dados mantidos apenas em memória.
+import http from 'http';
+
+const PORT = parseInt(process.argv[2] || '8787', 10);
+
+let seq = 0;
+const records = new Map(); // key -> { seq, record }
+
+function send(res, status, body) {
+    res.writeHead(status, {
+        'Content-Type': 'application/json',
+        'Access-Control-Allow-Origin': '*',
+        'Access-Control-Allow-Methods': 'GET, POST, OPTIONS',
+        'Access-Control-Allow-Headers': 'Content-Type'
+    });
+    res.end(body === undefined ? '' : JSON.stringify(body));
+}
+
+const server = http.createServer((req, res) => {
+    const url = new URL(req.url, `http://localhost:${PORT}`);
+
+    if (req.method === 'OPTIONS') return send(res, 204);
+    if (url.pathname !== '/sync') return send(res, 404, { error: 'not found' });
+
+    if (req.method === 'GET') {
+        const since = parseInt(url.searchParams.get('since') || '0', 10);
+        const changed = Array.from(records.values()).filter(r => r.seq > since).sort((a, b) => a.seq - b.seq);
+        const cursor = String(changed.length > 0 ? changed[changed.length - 1].seq : since);
+        return send(res, 200, { records: changed.map(r => r.record), cursor });
+    }
+
+    if (req.method === 'POST') {
+        let raw = '';
+        req.on('data', chunk => { raw += chunk; });
+        req.on('end', () => {
+            try {
+                const body = JSON.parse(raw || '{}');
+                (body.records || []).forEach(record => records.set(record.key, { seq: ++seq, record }));
+                console.log(`[sync] +${(body.records || []).length} registros (total ${records.size}, seq ${seq})`);
+                send(res, 200, { ok: true, cursor: String(seq) });
+            } catch (e) {
+                send(res, 400, { error: e.message });
+            }
+        });
+        return;
+    }
+
+    send(res, 405, { error: 'method not allowed' });
+});
+
+server.listen(PORT, () => console.log(`[sync] Servidor local em http://localhost:${PORT}/sync`));
@@ -300,6 +300,7 @@ export const processSessionResult = (
             masteryAfter: srsResult.masteryScore, 
             stabilityAfter: srsResult.stability,
             difficultyAfter: srsResult.difficulty, 
+            nextReviewDate: srsResult.nextReviewDate,
             timeSec: Math.round(ans.timeSec),
             selfEvalLevel: ans.rating,
             grade: srsResult.grade, // Safe now
@@ -0,0 +1,215 @@
+import { describe, it, expect } from 'vitest';
+import { Attempt, Flashcard } from '../../types';
+import { ANKI_SUSPENDED_TAG, exportAnkiPackage, htmlToText, importAnkiPackage } from './ankiPackage';
+import { writeSqlite } from './sqliteFile';
+import { writeZip } from './zipArchive';
+import { normalizeDiscipline } from '../taxonomyService';
+
+const DAY = 86400000;
+const now = new Date(2026, 2, 1, 10);
+const importOptions = { includeHistory: true, defaultStability: 1, now };
+const encoder = new TextEncoder();
+
+const toBuffer = (bytes: Uint8Array): ArrayBuffer => bytes.buffer.slice(bytes.byteOffset, bytes.byteOffset + bytes.byteLength) as ArrayBuffer;
+
+const flashcard = (overrides: Partial<Flashcard>): Flashcard => ({
+    id: 'fc', createdAt: now.toISOString(), updatedAt: now.toISOString(), discipline: 'Direito Civil', topic: '', front: '', back: '',
+    comments: '', type: 'basic', tags: [], stability: 1, nextReviewDate: now.toISOString(), masteryScore: 0, recentError: 0,
+    hotTopic: false, isCritical: false, isFundamental: false, queroCair: 0, pairMatchPlayed: false, totalAttempts: 0,
+    lastWasCorrect: false, correctStreak: 0, srsStage: 0, lastAttemptDate: '', attemptHistory: [], masteryHistory: [],
+    timeSec: 0, selfEvalLevel: 0, ...overrides,
+});
+
+const attempt = (daysAgo: number, wasCorrect: boolean, stabilityAfter: number): Attempt => ({
+    date: new Date(now.getTime() - daysAgo * DAY).toISOString(), wasCorrect, masteryAfter: 0, stabilityAfter,
+    difficultyAfter: 0.5, timeSec: 12, selfEvalLevel: wasCorrect ? 2 : 0,
+});
+
+const expectSameDay = (actual: string | undefined, expected: string) =>
+    expect(Math.abs(new Date(actual!).getTime() - new Date(expected).getTime())).toBeLessThanOrEqual(3600000);
+
+describe('htmlToText', () => {
+    it('tira tags e som, decodifica entidades e preserva quebras', () => {
+        expect(htmlToText('<div>Art. 5&ordm; &ndash; a&ccedil;&atilde;o</div><div>[sound:a.mp3]Linha&nbsp;2<br>fim &amp; &#233;</div>'))
+            .toBe('Art. 5º – ação\nLinha 2\nfim & é');
+    });
+});
+
+describe('exportAnkiPackage → importAnkiPackage', () => {
+    const basic = flashcard({
+        id: 'fc_basic', front: 'Prazo decadencial?', back: '30 dias\ncontados da ciência', comments: 'Ver art. 26',
+        topic: 'Prescrição', tags: ['prazos', ANKI_SUSPENDED_TAG], stability: 12, difficulty: 0.5, totalAttempts: 2, lapses: 1,
+        nextReviewDate: new Date(2026, 2, 10).toISOString(), lastReviewedAt: new Date(now.getTime() - 2 * DAY).toISOString(),
+        attemptHistory: [attempt(5, false, 0.5), attempt(2, true, 12)],
+    });
+    const cloze = flashcard({
+        id: 'fc_cloze', type: 'cloze', front: 'O prazo é de {{c1::30}} dias contados da {{c2::ciência}}', back: 'CDC',
+        siblingStates: {
+            c1: { stability: 5, difficulty: 0.4, masteryScore: 60, nextReviewDate: new Date(2026, 2, 4).toISOString(), totalAttempts: 1, lastWasCorrect: true, correctStreak: 1 },
+        },
+        attemptHistory: [{ ...attempt(1, true, 5), siblingKey: 'c1' }],
+    });
+
+    it('preserva conteúdo, deck, tags, suspensão, agendamento e histórico', async () => {
+        const exported = await exportAnkiPackage([basic, cloze], { includeHistory: true }, now);
+        expect(exported).toMatchObject({ noteCount: 2, cardCount: 3, mediaCount: 0, warnings: [] });
+
+        const imported = await importAnkiPackage(toBuffer(exported.data), importOptions);
+        expect(imported).toMatchObject({ noteCount: 2, cardCount: 3, attemptCount: 3, warnings: [] });
+        expect(imported.decks).toEqual(['Direito Civil', 'Direito Civil::Prescrição']);
+
+        const back = imported.cards.find(c => c.id === 'fc_basic')!;
+        expect(back).toMatchObject({
+            front: basic.front, back: basic.back, comments: basic.comments, topic: 'Prescrição',
+            discipline: normalizeDiscipline('Direito Civil'), tags: ['prazos', ANKI_SUSPENDED_TAG], stability: 12, totalAttempts: 2, lapses: 1,
+        });
+        expectSameDay(back.nextReviewDate, basic.nextReviewDate);
+        expect(back.attemptHistory.map(a => [a.date, a.wasCorrect])).toEqual(basic.attemptHistory.map(a => [a.date, a.wasCorrect]));
+        expect(back.attemptHistory[0].stabilityAfter).toBeCloseTo(0.5, 3);
+
+        const clozeBack = imported.cards.find(c => c.id === 'fc_cloze')!;
+        expect(clozeBack).toMatchObject({ type: 'cloze', front: cloze.front, back: 'CDC' });
+        expect(Object.keys(clozeBack.siblingStates || {}).sort()).toEqual(['c1', 'c2']);
+        expect(clozeBack.siblingStates!.c1).toMatchObject({ stability: 5, totalAttempts: 1 });
+        expectSameDay(clozeBack.siblingStates!.c1.nextReviewDate, cloze.siblingStates!.c1.nextReviewDate);
+        expect(clozeBack.siblingStates!.c2.totalAttempts).toBe(0);
+        expect(clozeBack.attemptHistory.map(a => a.siblingKey)).toEqual(['c1']);
+    });
+
+    it('sem histórico o revlog fica vazio', async () => {
+        const exported = await exportAnkiPackage([basic], { includeHistory: false }, now);
+        const imported = await importAnkiPackage(toBuffer(exported.data), importOptions);
+        expect(imported.attemptCount).toBe(0);
+        expect(imported.cards[0].totalAttempts).toBe(2);
+    });
+});
+
+describe('importAnkiPackage (coleção de outro app)', () => {
+    const crt = Math.floor(new Date(2026, 0, 1).getTime() / 1000);
+    const models = {
+        10: {
+            id: 10, name: 'Basic (and reversed card)', type: 0,
+            flds: [{ name: 'Front', ord: 0 }, { name: 'Back', ord: 1 }],
+            tmpls: [
+                { name: 'Card 1', ord: 0, qfmt: '{{Front}}', afmt: '{{FrontSide}}<hr id=answer>{{Back}}' },
+                { name: 'Card 2', ord: 1, qfmt: '{{Back}}{{#Extra}}nunca{{/Extra}}', afmt: '{{FrontSide}}<hr id=answer>{{Front}}' },
+            ],
+        },
+    };
+    const decks = { 1: { id: 1, name: 'Default' }, 20: { id: 20, name: 'Penal::Crimes' } };
+
+    const buildPackage = (revlog: number[][]) => writeZip([
+        {
+            name: 'collection.anki2',
+            data: writeSqlite([
+                { name: 'col', sql: 'CREATE TABLE col (id integer primary key, crt integer, models text, decks text)', rows: [[1, crt, JSON.stringify(models), JSON.stringify(decks)]] },
+                { name: 'notes', sql: 'CREATE TABLE notes (id integer primary key, guid text, mid integer, tags text, flds text)', rows: [[100, 'abc', 10, ' penal furto ', 'Furto <b>simples</b><img src="a%20b.png">\u001fArt. 155']] },
+                { name: 'cards', sql: 'CREATE TABLE cards (id integer primary key, nid integer, did integer, ord integer, type integer, queue integer, due integer, ivl integer, factor integer, reps integer, lapses integer, data text)', rows: [
+                    [200, 100, 20, 0, 2, 2, 70, 10, 2500, 3, 0, ''],
+                    [201, 100, 20, 1, 0, 0, 1, 0, 0, 0, 0, ''],
+                ] },
+                { name: 'revlog', sql: 'CREATE TABLE revlog (id integer primary key, cid integer, ease integer, ivl integer, factor integer, time integer, type integer)', rows: revlog },
+            ]),
+        },
+        { name: 'media', data: encoder.encode(JSON.stringify({ 0: 'a b.png' })) },
+        { name: '0', data: new Uint8Array([137, 80, 78, 71]) },
+    ]);
+
+    it('renderiza os templates e gera um flashcard por card', async () => {
+        const reviewAt = new Date(2026, 1, 1).getTime();
+        const imported = await importAnkiPackage(toBuffer(buildPackage([
+            [reviewAt, 200, 3, 10, 2500, 8000, 1],
+            [reviewAt + 1000, 200, 0, 0, 0, 0, 4], // reagendamento manual: não é revisão
+        ])), importOptions);
+
+        expect(imported.cards.map(c => c.id)).toEqual(['anki-abc-0', 'anki-abc-1']);
+        const [forward, reverse] = imported.cards;
+        expect(forward).toMatchObject({ front: 'Furto simples', back: 'Art. 155', discipline: normalizeDiscipline('Penal'), topic: 'Crimes', tags: ['penal', 'furto'] });
+        expect(forward.frontImage).toBe('data:image/png;base64,iVBORw==');
+        expect(forward.stability).toBe(10);
+        expectSameDay(forward.nextReviewDate, new Date(crt * 1000 + 70 * DAY).toISOString());
+        expect(forward.attemptHistory).toHaveLength(1);
+        expect(forward.attemptHistory[0]).toMatchObject({ wasCorrect: true, grade: 'good', timeSec: 8 });
+
+        expect(reverse).toMatchObject({ front: 'Art. 155', back: 'Furto simples', totalAttempts: 0, stability: 1 });
+        expect(imported.mediaCount).toBe(1);
+    });
+});
+
+/** Quadro zstd com blocos "raw" (sem compressão), o que o decodificador aceita como qualquer outro. */
+const zstdFrame = (data: Uint8Array): Uint8Array => {
+    const header = [0x28, 0xb5, 0x2f, 0xfd, 0xa0, data.length & 0xff, (data.length >> 8) & 0xff, (data.length >> 16) & 0xff, data.length >>> 24];
+    const blocks: number[] = [];
+    for (let pos = 0; pos === 0 || pos < data.length; pos += 0x20000) {
+        const chunk = data.subarray(pos, pos + 0x20000);
+        const last = pos + 0x20000 >= data.length ? 1 : 0;
+        const blockHeader = (chunk.length << 3) | last;
+        blocks.push(blockHeader & 0xff, (blockHeader >> 8) & 0xff, (blockHeader >> 16) & 0xff, ...chunk);
+    }
+    return new Uint8Array([...header, ...blocks]);
+};
+
+/** Protobuf mínimo: campos de texto/bytes (tipo 2) e varint (tipo 0). */
+const proto = (fields: [number, string | number | Uint8Array][]): Uint8Array => {
+    const varint = (n: number): number[] => {
+        const out: number[] = [];
+        do {
+            out.push((n & 0x7f) | (n > 0x7f ? 0x80 : 0));
+            n = Math.floor(n / 128);
+        } while (n > 0);
+        return out;
+    };
+    return new Uint8Array(fields.flatMap(([field, value]) => {
+        if (typeof value === 'number') return [...varint(field * 8), ...varint(value)];
+        const bytes = typeof value === 'string' ? encoder.encode(value) : value;
+        return [...varint(field * 8 + 2), ...varint(bytes.length), ...bytes];
+    }));
+};
+
+describe('importAnkiPackage (formato novo, anki21b)', () => {
+    const crt = Math.floor(new Date(2026, 0, 1).getTime() / 1000);
+    const collection = writeSqlite([
+        { name: 'col', sql: 'CREATE TABLE col (id integer primary key, crt integer, models text, decks text)', rows: [[1, crt, '', '']] },
+        { name: 'notetypes', sql: 'CREATE TABLE notetypes (id integer not null primary key, name text not null, mtime_secs integer not null, usn integer not null, config blob not null)', rows: [
+            [10, 'Básico', 0, 0, proto([[1, 0]])],
+            [11, 'Omissão de palavras', 0, 0, proto([[1, 1]])],
+        ] },
+        { name: 'fields', sql: 'CREATE TABLE fields (ntid integer not null, ord integer not null, name text not null collate unicase, config blob not null, PRIMARY KEY (ntid, ord)) without rowid', rows: [
+            [10, 1, 'Verso', new Uint8Array(0)], [10, 0, 'Frente', new Uint8Array(0)], [11, 0, 'Texto', new Uint8Array(0)], [11, 1, 'Extra', new Uint8Array(0)],
+        ] },
+        { name: 'templates', sql: 'CREATE TABLE templates (ntid integer not null, ord integer not null, name text not null collate unicase, mtime_secs integer not null, usn integer not null, config blob not null, PRIMARY KEY (ntid, ord)) without rowid', rows: [
+            [10, 0, 'Cartão 1', 0, 0, proto([[1, '{{Frente}}'], [2, '{{FrontSide}}<hr id=answer>{{Verso}}']])],
+            [11, 0, 'Omissão', 0, 0, proto([[1, '{{cloze:Texto}}'], [2, '{{cloze:Texto}}<br>{{Extra}}']])],
+        ] },
+        { name: 'decks', sql: 'CREATE TABLE decks (id integer primary key not null, name text not null collate unicase, mtime_secs integer not null, usn integer not null, common blob not null, kind blob not null)', rows: [
+            [1, 'Default', 0, 0, new Uint8Array(0), new Uint8Array(0)],
+            [20, 'Constitucional\u001fDireitos', 0, 0, new Uint8Array(0), new Uint8Array(0)],
+        ] },
+        { name: 'notes', sql: 'CREATE TABLE notes (id integer primary key, guid text, mid integer, tags text, flds text)', rows: [
+            [100, 'g1', 10, '', 'Remédio para liberdade?<img src="hc.png">\u001fHabeas corpus'],
+            [101, 'g2', 11, '', 'O {{c1::mandado de segurança}} protege direito líquido e certo\u001fArt. 5º, LXIX'],
+        ] },
+        { name: 'cards', sql: 'CREATE TABLE cards (id integer primary key, nid integer, did integer, ord integer, type integer, queue integer, due integer, ivl integer, factor integer, reps integer, lapses integer, data text)', rows: [
+            [200, 100, 20, 0, 0, 0, 1, 0, 0, 0, 0, ''],
+            [201, 101, 20, 0, 0, 0, 2, 0, 0, 0, 0, ''],
+        ] },
+    ]);
+    const buildPackage = () => writeZip([
+        // Fachada que o Anki grava para versões antigas: não deve ser lida
+        { name: 'collection.anki2', data: writeSqlite([{ name: 'col', sql: 'CREATE TABLE col (id integer primary key, crt integer, models text, decks text)', rows: [[1, crt, '{}', '{}']] }]) },
+        { name: 'collection.anki21b', data: zstdFrame(collection) },
+        { name: 'media', data: zstdFrame(proto([[1, proto([[1, 'hc.png'], [2, 4]])]])) },
+        { name: '0', data: zstdFrame(new Uint8Array([137, 80, 78, 71])) },
+    ]);
+
+    it('descomprime a coleção e a mídia e lê modelos e baralhos das tabelas do schema 18', async () => {
+        const imported = await importAnkiPackage(toBuffer(buildPackage()), importOptions);
+
+        expect(imported).toMatchObject({ noteCount: 2, cardCount: 2, mediaCount: 1, warnings: [] });
+        expect(imported.decks).toEqual(['Constitucional::Direitos']);
+        const [basic, cloze] = imported.cards;
+        expect(basic).toMatchObject({ front: 'Remédio para liberdade?', back: 'Habeas corpus', discipline: normalizeDiscipline('Constitucional'), topic: 'Direitos' });
+        expect(basic.frontImage).toBe('data:image/png;base64,iVBORw==');
+        expect(cloze).toMatchObject({ type: 'cloze', front: 'O {{c1::mandado de segurança}} protege direito líquido e certo' });
+    });
+});
@@ -0,0 +1,809 @@
+import { decompress as zstdDecompress } from 'fzstd';
+import { Attempt, Flashcard, FlashcardSiblingState } from '../../types';
+import { readZip, writeZip } from './zipArchive';
+import { SqliteReader, SqlRow, writeSqlite } from './sqliteFile';
+import { DAY_MS, GRADES, masteryFromState, ratingFromAttempt } from '../scheduler/schedulerCore';
+import { getSiblingKeys, getSiblingState, recomputeParentFromSiblings } from '../siblingService';
+import { getClozeIndices, parseClozeSiblingKey, toClozeSiblingKey } from '../clozeService';
+import { normalizeDiscipline } from '../taxonomyService';
+import { FLASHCARD_MEDIA_FIELDS, isMediaRef, getMediaBytes } from '../media/mediaStore';
+
+/**
+ * PACOTES DO ANKI (.apkg / .colpkg)
+ * Importa notas (Básico/Cloze e modelos próprios renderizados pelos templates),
+ * mídia, tags, agendamento e, opcionalmente, o revlog como attemptHistory.
+ * Lê também o pacote novo (Anki 2.1.50+: `collection.anki21b` e mídia em zstd,
+ * modelos e baralhos nas tabelas do schema 18). Exporta no formato legado
+ * (schema 11, `collection.anki2`), que todas as versões do Anki importam.
+ */
+
+export const ANKI_SUSPENDED_TAG = 'anki-suspended';
+
+const FIELD_SEPARATOR = '\u001f';
+const DECK_SEPARATOR = '::';
+const MIAAULA_MODEL_PREFIX = 'Miaaula';
+const FACTOR_DEFAULT = 2500;
+
+export interface AnkiImportOptions {
+    includeHistory: boolean;
+    defaultStability: number;
+    now?: Date;
+}
+
+export interface AnkiImportResult {
+    cards: Flashcard[];
+    noteCount: number;
+    cardCount: number;
+    decks: string[];
+    mediaCount: number;
+    attemptCount: number;
+    warnings: string[];
+}
+
+export interface AnkiExportOptions {
+    includeHistory: boolean;
+}
+
+export interface AnkiExportResult {
+    data: Uint8Array;
+    noteCount: number;
+    cardCount: number;
+    mediaCount: number;
+    warnings: string[];
+}
+
+interface AnkiField { name: string; ord: number }
+interface AnkiTemplate { name: string; ord: number; qfmt: string; afmt: string }
+interface AnkiModel { id: number; name: string; type: number; flds: AnkiField[]; tmpls: AnkiTemplate[] }
+interface AnkiDeck { id: number; name: string }
+
+// --- Utilidades ---
+
+const clamp = (v: number, min: number, max: number) => Math.max(min, Math.min(max, v));
+
+/** Fator do Anki (‰) ⇄ dificuldade 0..1: 250% = 0.5, 130% = 1, 370% = 0. */
+const difficultyFromFactor = (factor: number): number => clamp(0.5 - (factor - FACTOR_DEFAULT) / 2400, 0, 1);
+const factorFromDifficulty = (difficulty: number | undefined): number =>
+    Math.round(clamp(FACTOR_DEFAULT + (0.5 - (difficulty ?? 0.5)) * 2400, 1300, 3700));
+
+const MIME_BY_EXT: Record<string, string> = {
+    jpg: 'image/jpeg', jpeg: 'image/jpeg', png: 'image/png', gif: 'image/gif', webp: 'image/webp', svg: 'image/svg+xml',
+    mp3: 'audio/mpeg', ogg: 'audio/ogg', oga: 'audio/ogg', wav: 'audio/wav', m4a: 'audio/mp4', webm: 'audio/webm', flac: 'audio/flac',
+};
+const EXT_BY_MIME: Record<string, string> = Object.fromEntries(Object.entries(MIME_BY_EXT).reverse().map(([ext, mime]) => [mime, ext]));
+
+const toBase64 = (bytes: Uint8Array): string => {
+    let binary = '';
+    for (let i = 0; i < bytes.length; i += 0x8000) binary += String.fromCharCode(...bytes.subarray(i, i + 0x8000));
+    return btoa(binary);
+};
+
+const fromBase64 = (b64: string): Uint8Array => {
+    const binary = atob(b64);
+    const out = new Uint8Array(binary.length);
+    for (let i = 0; i < binary.length; i++) out[i] = binary.charCodeAt(i);
+    return out;
+};
+
+// Acentos (&aacute;, &ccedil;, &otilde;...) viram letra + diacrítico combinante
+const ENTITY_ACCENTS: Record<string, string> = { acute: '\u0301', grave: '\u0300', circ: '\u0302', tilde: '\u0303', uml: '\u0308', cedil: '\u0327' };
+const NAMED_ENTITIES: Record<string, string> = {
+    ndash: '–', mdash: '—', hellip: '…', laquo: '«', raquo: '»', ldquo: '“', rdquo: '”', lsquo: '‘', rsquo: '’',
+    ordm: 'º', ordf: 'ª', sect: '§', deg: '°', para: '¶', middot: '·', bull: '•', times: '×', divide: '÷', euro: '€',
+};
+
+const decodeEntities = (text: string): string =>
+    text
+        .replace(/&([a-zA-Z])(acute|grave|circ|tilde|uml|cedil);/g, (_, letter, accent) => (letter + ENTITY_ACCENTS[accent]).normalize('NFC'))
+        .replace(/&([a-z]+);/g, (match, name) => NAMED_ENTITIES[name] ?? match)
+        .replace(/&nbsp;/g, ' ')
+        .replace(/&lt;/g, '<')
+        .replace(/&gt;/g, '>')
+        .replace(/&quot;/g, '"')
+        .replace(/&#39;|&apos;/g, "'")
+        .replace(/&#(\d+);/g, (_, n) => String.fromCodePoint(Number(n)))
+        .replace(/&#x([0-9a-f]+);/gi, (_, n) => String.fromCodePoint(parseInt(n, 16)))
+        .replace(/&amp;/g, '&');
+
+/** HTML do Anki → texto puro (os cards do Miaaula não renderizam HTML). */
+export const htmlToText = (html: string): string =>
+    decodeEntities(
+        html
+            .replace(/\[sound:[^\]]*\]/g, '')
+            .replace(/<(script|style)[\s\S]*?<\/\1>/gi, '')
+            .replace(/<br\s*\/?>/gi, '\n')
+            .replace(/<\/(div|p|li|tr|h\d)>/gi, '\n')
+            .replace(/<[^>]+>/g, '')
+    )
+        .replace(/[ \t]+\n/g, '\n')
+        .replace(/\n{3,}/g, '\n\n')
+        .trim();
+
+const escapeHtml = (text: string): string =>
+    text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/\r?\n/g, '<br>');
+
+const firstImage = (html: string): string | undefined => html.match(/<img[^>]*\ssrc=["']?([^"'>\s]+)/i)?.[1];
+const firstSound = (html: string): string | undefined => html.match(/\[sound:([^\]]+)\]/)?.[1];
+
+// --- Templates do Anki ({{Campo}}, {{#Campo}}...{{/Campo}}, filtros) ---
+
+const renderTemplate = (template: string, fields: Record<string, string>, frontSide = ''): string => {
+    let out = template;
+    // Seções (repete para resolver aninhamento)
+    for (let i = 0; i < 5; i++) {
+        const next = out.replace(/\{\{([#^])([^}]+)\}\}([\s\S]*?)\{\{\/\2\}\}/g, (_, kind, name, inner) => {
+            const filled = !!htmlToText(fields[name.trim()] || '') || /<img/i.test(fields[name.trim()] || '');
+            return (kind === '#') === filled ? inner : '';
+        });
+        if (next === out) break;
+        out = next;
+    }
+    return out.replace(/\{\{([^}]+)\}\}/g, (_, raw: string) => {
+        const name = raw.trim();
+        if (name === 'FrontSide') return frontSide;
+        const parts = name.split(':');
+        const field = parts[parts.length - 1].trim();
+        if (parts.length > 1 && parts[0].trim() === 'type') return '';
+        return fields[field] ?? '';
+    });
+};
+
+// --- Importação ---
+
+const parseJson = <T>(value: unknown, fallback: T): T => {
+    try {
+        return typeof value === 'string' ? JSON.parse(value) : fallback;
+    } catch {
+        return fallback;
+    }
+};
+
+// Quadro zstd começa com 28 B5 2F FD
+const isZstd = (bytes: Uint8Array) => bytes.length >= 4 && bytes[0] === 0x28 && bytes[1] === 0xb5 && bytes[2] === 0x2f && bytes[3] === 0xfd;
+const unpack = (bytes: Uint8Array): Uint8Array => (isZstd(bytes) ? zstdDecompress(bytes) : bytes);
+
+/** Pacote novo traz também um `collection.anki2` de fachada (aviso para atualizar o Anki): o anki21b vem antes. */
+const locateCollection = (entries: Map<string, Uint8Array>): Uint8Array => {
+    const modern = entries.get('collection.anki21b');
+    if (modern) return unpack(modern);
+    const legacy = entries.get('collection.anki21') || entries.get('collection.anki2');
+    if (legacy) return legacy;
+    throw new Error('Coleção do Anki não encontrada no arquivo.');
+};
+
+type ProtoValue = number | Uint8Array;
+
+/** Campos de uma mensagem protobuf: número → valores (varint como número, bytes como bytes). */
+const readProtobuf = (bytes: Uint8Array): Map<number, ProtoValue[]> => {
+    const fields = new Map<number, ProtoValue[]>();
+    let pos = 0;
+    const varint = (): number => {
+        let value = 0;
+        let scale = 1;
+        while (pos < bytes.length) {
+            const b = bytes[pos++];
+            value += (b & 0x7f) * scale;
+            scale *= 128;
+            if (!(b & 0x80)) break;
+        }
+        return value;
+    };
+    while (pos < bytes.length) {
+        const key = varint();
+        const field = Math.floor(key / 8);
+        let value: ProtoValue;
+        switch (key & 7) {
+            case 0: value = varint(); break;
+            case 1: pos += 8; continue;
+            case 2: { const length = varint(); value = bytes.subarray(pos, pos + length); pos += length; break; }
+            case 5: pos += 4; continue;
+            default: throw new Error('Mensagem protobuf inválida no pacote do Anki.');
+        }
+        fields.set(field, [...(fields.get(field) || []), value]);
+    }
+    return fields;
+};
+
+const protoText = (fields: Map<number, ProtoValue[]>, field: number): string => {
+    const value = fields.get(field)?.[0];
+    return value instanceof Uint8Array ? new TextDecoder().decode(value) : '';
+};
+
+const protoNumber = (fields: Map<number, ProtoValue[]>, field: number): number => {
+    const value = fields.get(field)?.[0];
+    return typeof value === 'number' ? value : 0;
+};
+
+/**
+ * Modelos e baralhos. Schema 11 guarda JSON em `col`; o schema 18 (anki21b) usa as
+ * tabelas notetypes/fields/templates/decks, com a configuração em protobuf
+ * (NotetypeConfig.kind = 1, TemplateConfig.q_format = 1 e a_format = 2).
+ */
+const readModelsAndDecks = (db: SqliteReader, col: SqlRow): { models: Record<string, AnkiModel>; decks: Record<string, AnkiDeck> } => {
+    if (!db.hasTable('notetypes')) {
+        return { models: parseJson<Record<string, AnkiModel>>(col.models, {}), decks: parseJson<Record<string, AnkiDeck>>(col.decks, {}) };
+    }
+
+    const models: Record<string, AnkiModel> = {};
+    db.rows('notetypes').forEach(nt => {
+        const config = nt.config instanceof Uint8Array ? readProtobuf(nt.config) : new Map();
+        models[String(nt.id)] = { id: Number(nt.id), name: String(nt.name), type: protoNumber(config, 1), flds: [], tmpls: [] };
+    });
+    db.rows('fields').forEach(f => {
+        models[String(f.ntid)]?.flds.push({ name: String(f.name), ord: Number(f.ord) });
+    });
+    db.rows('templates').forEach(t => {
+        const config = t.config instanceof Uint8Array ? readProtobuf(t.config) : new Map();
+        models[String(t.ntid)]?.tmpls.push({ name: String(t.name), ord: Number(t.ord), qfmt: protoText(config, 1), afmt: protoText(config, 2) });
+    });
+
+    const decks: Record<string, AnkiDeck> = {};
+    db.rows('decks').forEach(d => {
+        decks[String(d.id)] = { id: Number(d.id), name: String(d.name).split(FIELD_SEPARATOR).join(DECK_SEPARATOR) };
+    });
+    return { models, decks };
+};
+
+/** Nome de cada arquivo de mídia do zip: JSON { "0": "a.png" } ou, no pacote novo, protobuf MediaEntries em zstd. */
+const readMediaNames = (raw: Uint8Array): Record<string, string> | null => {
+    const data = unpack(raw);
+    if (data[0] === 0x7b) return parseJson<Record<string, string> | null>(new TextDecoder().decode(data), null);
+    try {
+        const names: Record<string, string> = {};
+        (readProtobuf(data).get(1) || []).forEach((entry, index) => {
+            if (entry instanceof Uint8Array) names[String(index)] = protoText(readProtobuf(entry), 1);
+        });
+        return names;
+    } catch {
+        return null;
+    }
+};
+
+const readMediaMap = (entries: Map<string, Uint8Array>, warnings: string[]): Map<string, string> => {
+    const byName = new Map<string, string>();
+    const raw = entries.get('media');
+    if (!raw) return byName;
+    const map = readMediaNames(raw);
+    if (!map) {
+        warnings.push('Mapa de mídia em formato não suportado: imagens e áudios foram ignorados.');
+        return byName;
+    }
+    Object.entries(map).forEach(([zipName, fileName]) => {
+        const bytes = entries.get(zipName);
+        if (!bytes || !fileName) return;
+        const ext = fileName.split('.').pop()?.toLowerCase() || '';
+        byName.set(fileName, `data:${MIME_BY_EXT[ext] || 'application/octet-stream'};base64,${toBase64(unpack(bytes))}`);
+    });
+    return byName;
+};
+
+const resolveMedia = (name: string | undefined, media: Map<string, string>): string | undefined => {
+    if (!name) return undefined;
+    if (/^(https?:|data:)/i.test(name)) return name;
+    try {
+        return media.get(name) || media.get(decodeURIComponent(name));
+    } catch {
+        return undefined;
+    }
+};
+
+const splitDeck = (name: string) => {
+    const [root, ...rest] = name.split(DECK_SEPARATOR);
+    return { discipline: normalizeDiscipline(root.trim() || 'Anki'), topic: rest.join(DECK_SEPARATOR).trim() };
+};
+
+/** Estado de memória do FSRS gravado pelo Anki 23.10+ em `cards.data` ({"s":..,"d":1..10}). */
+const fsrsMemory = (data: unknown): { stability: number; difficulty: number } | null => {
+    const parsed = parseJson<{ s?: number; d?: number } | null>(data, null);
+    if (!parsed || typeof parsed.s !== 'number' || typeof parsed.d !== 'number') return null;
+    return { stability: parsed.s, difficulty: clamp((parsed.d - 1) / 9, 0, 1) };
+};
+
+interface CardSchedule extends FlashcardSiblingState {
+    lapses: number;
+    suspended: boolean;
+    attempts: Attempt[];
+}
+
+const revlogToAttempts = (logs: SqlRow[], siblingKey?: string): Attempt[] =>
+    logs
+        // ease 0 / type 4: reagendamento manual, não é revisão
+        .filter(log => Number(log.ease) > 0 && Number(log.type) !== 4)
+        .map(log => {
+            const ease = clamp(Number(log.ease), 1, 4);
+            const ivl = Number(log.ivl);
+            const stabilityAfter = ivl >= 0 ? ivl : -ivl / 86400;
+            const difficultyAfter = Number(log.factor) > 0 ? difficultyFromFactor(Number(log.factor)) : undefined;
+            const wasCorrect = ease > 1;
+            return {
+                date: new Date(Number(log.id)).toISOString(),
+                wasCorrect,
+                masteryAfter: masteryFromState(stabilityAfter, difficultyAfter ?? 0.5, wasCorrect),
+                stabilityAfter,
+                difficultyAfter,
+                timeSec: Math.round(Number(log.time) / 1000),
+                selfEvalLevel: ease - 1,
+                grade: GRADES[ease - 1],
+                ...(siblingKey ? { siblingKey } : {}),
+            };
+        });
+
+const scheduleFromCard = (card: SqlRow, logs: SqlRow[], crtMs: number, options: AnkiImportOptions, now: Date, siblingKey?: string): CardSchedule => {
+    const type = Number(card.type);
+    const queue = Number(card.queue);
+    const reps = Number(card.reps) || 0;
+    const attempts = options.includeHistory ? revlogToAttempts(logs, siblingKey) : [];
+    const base = { lapses: Number(card.lapses) || 0, suspended: queue === -1, attempts };
+
+    if (type === 0) {
+        return { ...base, stability: options.defaultStability, masteryScore: 0, nextReviewDate: now.toISOString(), totalAttempts: 0, lastWasCorrect: false, correctStreak: 0 };
+    }
+
+    const due = Number(card.due);
+    // Aprendizado (fila 1) usa timestamp em segundos; revisão e aprendizado entre dias usam dias desde a criação da coleção
+    const dueMs = queue === 1 || (type === 1 && due > 1e9) ? due * 1000 : crtMs + due * DAY_MS;
+    const ivl = Number(card.ivl) || 0;
+    const memory = fsrsMemory(card.data);
+    const stability = memory?.stability ?? (ivl > 0 ? ivl : options.defaultStability);
+    const difficulty = memory?.difficulty ?? (Number(card.factor) > 0 ? difficultyFromFactor(Number(card.factor)) : 0.5);
+
+    const lastLog = logs.filter(l => Number(l.ease) > 0).pop();
+    const lastReviewedAt = lastLog ? new Date(Number(lastLog.id)).toISOString() : new Date(dueMs - Math.max(ivl, 0) * DAY_MS).toISOString();
+    const lastWasCorrect = lastLog ? Number(lastLog.ease) > 1 : type === 2;
+
+    return {
+        ...base,
+        stability,
+        difficulty,
+        masteryScore: masteryFromState(stability, difficulty, lastWasCorrect),
+        nextReviewDate: new Date(dueMs).toISOString(),
+        lastReviewedAt,
+        totalAttempts: Math.max(reps, attempts.length),
+        lastWasCorrect,
+        correctStreak: lastWasCorrect ? 1 : 0,
+        lastGrade: lastLog ? GRADES[clamp(Number(lastLog.ease), 1, 4) - 1] : undefined,
+    };
+};
+
+const newFlashcard = (id: string, now: Date, defaultStability: number): Flashcard => ({
+    id,
+    createdAt: now.toISOString(),
+    updatedAt: now.toISOString(),
+    discipline: '',
+    topic: '',
+    front: '',
+    back: '',
+    comments: '',
+    type: 'basic',
+    tags: [],
+    stability: defaultStability,
+    nextReviewDate: now.toISOString(),
+    masteryScore: 0,
+    recentError: 0,
+    hotTopic: false,
+    isCritical: false,
+    isFundamental: false,
+    queroCair: 0,
+    pairMatchPlayed: false,
+    totalAttempts: 0,
+    lastWasCorrect: false,
+    correctStreak: 0,
+    srsStage: 0,
+    lastAttemptDate: '',
+    attemptHistory: [],
+    masteryHistory: [],
+    timeSec: 0,
+    selfEvalLevel: 0,
+    source: 'Anki',
+});
+
+const withSchedule = (fc: Flashcard, s: CardSchedule): Flashcard => ({
+    ...fc,
+    stability: s.stability,
+    difficulty: s.difficulty,
+    masteryScore: s.masteryScore,
+    nextReviewDate: s.nextReviewDate,
+    lastReviewedAt: s.lastReviewedAt,
+    totalAttempts: s.totalAttempts,
+    lastWasCorrect: s.lastWasCorrect,
+    correctStreak: s.correctStreak,
+    lastGrade: s.lastGrade,
+    lapses: s.lapses,
+    attemptHistory: s.attempts,
+    lastAttemptDate: s.lastReviewedAt || '',
+});
+
+/** Lê um .apkg/.colpkg e converte as notas em flashcards. */
+export const importAnkiPackage = async (buffer: ArrayBuffer, options: AnkiImportOptions): Promise<AnkiImportResult> => {
+    const now = options.now || new Date();
+    const warnings: string[] = [];
+    const entries = await readZip(buffer);
+    const db = new SqliteReader(locateCollection(entries));
+    const media = readMediaMap(entries, warnings);
+
+    const col = db.rows('col')[0];
+    if (!col) throw new Error('Coleção do Anki vazia ou corrompida.');
+    const { models, decks } = readModelsAndDecks(db, col);
+    const crtMs = Number(col.crt) * 1000;
+
+    const notes = new Map(db.rows('notes').map(n => [Number(n.id), n]));
+    const cards = db.rows('cards');
+    const logsByCard = new Map<number, SqlRow[]>();
+    if (db.hasTable('revlog')) {
+        db.rows('revlog')
+            .sort((a, b) => Number(a.id) - Number(b.id))
+            .forEach(log => {
+                const list = logsByCard.get(Number(log.cid)) || [];
+                list.push(log);
+                logsByCard.set(Number(log.cid), list);
+            });
+    }
+
+    const cardsByNote = new Map<number, SqlRow[]>();
+    cards.forEach(card => {
+        const list = cardsByNote.get(Number(card.nid)) || [];
+        list.push(card);
+        cardsByNote.set(Number(card.nid), list);
+    });
+
+    const result: Flashcard[] = [];
+    const usedDecks = new Set<string>();
+    let skippedModels = 0;
+
+    notes.forEach((note, noteId) => {
+        const model = models[String(note.mid)];
+        const noteCards = (cardsByNote.get(noteId) || []).sort((a, b) => Number(a.ord) - Number(b.ord));
+        if (!model || noteCards.length === 0) {
+            skippedModels++;
+            return;
+        }
+
+        const values = String(note.flds).split(FIELD_SEPARATOR);
+        const fields: Record<string, string> = {};
+        [...model.flds].sort((a, b) => a.ord - b.ord).forEach((f, i) => { fields[f.name] = values[i] ?? ''; });
+
+        const deckName = decks[String(noteCards[0].did)]?.name || 'Anki';
+        usedDecks.add(deckName);
+        const { discipline, topic } = splitDeck(deckName);
+        const noteTags = String(note.tags || '').split(/\s+/).filter(Boolean);
+        const isOwnModel = model.name.startsWith(MIAAULA_MODEL_PREFIX);
+        const guid = String(note.guid);
+        const baseId = isOwnModel ? guid : `anki-${guid}`;
+        const fieldNames = model.flds.map(f => f.name);
+
+        const makeSides = (frontHtml: string, backHtml: string) => ({
+            front: htmlToText(frontHtml),
+            back: htmlToText(backHtml),
+            frontImage: resolveMedia(firstImage(frontHtml), media),
+            backImage: resolveMedia(firstImage(backHtml), media),
+            frontAudio: resolveMedia(firstSound(frontHtml), media),
+            backAudio: resolveMedia(firstSound(backHtml), media),
+        });
+
+        if (model.type === 1) {
+            // Cloze: uma nota = um flashcard; cada card do Anki (ord k) é a irmã c{k+1}
+            const clozeField = model.tmpls[0]?.qfmt.match(/\{\{cloze:([^}]+)\}\}/)?.[1]?.trim() || fieldNames[0];
+            const backHtml = fieldNames.filter(n => n !== clozeField && n !== 'Comentários').map(n => fields[n]).filter(Boolean).join('<br>');
+            const sides = makeSides(fields[clozeField] || '', backHtml);
+            const indices = new Set(getClozeIndices(sides.front));
+
+            const schedules = noteCards
+                .map(card => {
+                    const key = toClozeSiblingKey(Number(card.ord) + 1);
+                    return { key, schedule: scheduleFromCard(card, logsByCard.get(Number(card.id)) || [], crtMs, options, now, key) };
+                })
+                .filter(s => indices.has(parseClozeSiblingKey(s.key)!));
+            if (schedules.length === 0) {
+                skippedModels++;
+                return;
+            }
+
+            const siblingStates: Record<string, FlashcardSiblingState> = {};
+            schedules.forEach(({ key, schedule: { lapses, suspended, attempts, ...state } }) => { siblingStates[key] = state; });
+            const attempts = schedules.flatMap(s => s.schedule.attempts).sort((a, b) => a.date.localeCompare(b.date));
+            const reviewed = schedules.map(s => s.schedule).filter(s => s.totalAttempts > 0);
+            const last = [...reviewed].sort((a, b) => (a.lastReviewedAt || '').localeCompare(b.lastReviewedAt || '')).pop();
+
+            const card: Flashcard = {
+                ...newFlashcard(baseId, now, options.defaultStability),
+                ...sides,
+                type: 'cloze',
+                discipline,
+                topic,
+                comments: htmlToText(fields['Comentários'] || ''),
+                tags: schedules.some(s => s.schedule.suspended) ? [...noteTags, ANKI_SUSPENDED_TAG] : noteTags,
+                siblingStates,
+                totalAttempts: reviewed.reduce((sum, s) => sum + s.totalAttempts, 0),
+                lapses: schedules.reduce((sum, s) => sum + s.schedule.lapses, 0),
+                lastReviewedAt: last?.lastReviewedAt,
+                lastWasCorrect: last?.lastWasCorrect ?? false,
+                lastAttemptDate: last?.lastReviewedAt || '',
+                attemptHistory: attempts,
+            };
+            result.push(recomputeParentFromSiblings(card));
+            return;
+        }
+
+        noteCards.forEach(ankiCard => {
+            const schedule = scheduleFromCard(ankiCard, logsByCard.get(Number(ankiCard.id)) || [], crtMs, options, now);
+            let sides;
+            if (isOwnModel) {
+                sides = makeSides(fields['Frente'] || '', fields['Verso'] || '');
+            } else {
+                const tmpl = model.tmpls.find(t => t.ord === Number(ankiCard.ord)) || model.tmpls[0];
+                const frontHtml = renderTemplate(tmpl.qfmt, fields);
+                // O verso do Miaaula é só a resposta: {{FrontSide}} fica de fora
+                sides = makeSides(frontHtml, renderTemplate(tmpl.afmt, fields, '').replace(/^[\s\S]*<hr id=["']?answer["']?\s*\/?>/i, ''));
+            }
+
+            const id = noteCards.length > 1 || model.tmpls.length > 1 ? `${baseId}-${ankiCard.ord}` : baseId;
+            const cardDeck = decks[String(ankiCard.did)]?.name;
+            const place = cardDeck && cardDeck !== deckName ? splitDeck(cardDeck) : { discipline, topic };
+            if (cardDeck) usedDecks.add(cardDeck);
+
+            result.push(withSchedule({
+                ...newFlashcard(id, now, options.defaultStability),
+                ...sides,
+                // Cards sem texto (só imagem/áudio) precisam de frente para não serem descartados
+                front: sides.front || (sides.frontImage ? '[imagem]' : sides.frontAudio ? '[áudio]' : ''),
+                ...place,
+                comments: isOwnModel ? htmlToText(fields['Comentários'] || '') : '',
+                extra: isOwnModel ? htmlToText(fields['Extra'] || '') || undefined : undefined,
+                tags: schedule.suspended ? [...noteTags, ANKI_SUSPENDED_TAG] : noteTags,
+            }, schedule));
+        });
+    });
+
+    const valid = result.filter(fc => fc.front.trim());
+    if (valid.length < result.length) warnings.push(`${result.length - valid.length} card(s) sem conteúdo na frente foram ignorados.`);
+    if (skippedModels > 0) warnings.push(`${skippedModels} nota(s) sem modelo ou sem cards foram ignoradas.`);
+
+    return {
+        cards: valid,
+        noteCount: notes.size,
+        cardCount: cards.length,
+        decks: Array.from(usedDecks).sort(),
+        mediaCount: media.size,
+        attemptCount: valid.reduce((sum, fc) => sum + fc.attemptHistory.length, 0),
+        warnings,
+    };
+};
+
+// --- Exportação ---
+
+const SCHEMA_11 = {
+    col: 'CREATE TABLE col (id integer primary key, crt integer not null, mod integer not null, scm integer not null, ver integer not null, dty integer not null, usn integer not null, ls integer not null, conf text not null, models text not null, decks text not null, dconf text not null, tags text not null)',
+    notes: 'CREATE TABLE notes (id integer primary key, guid text not null, mid integer not null, mod integer not null, usn integer not null, tags text not null, flds text not null, sfld integer not null, csum integer not null, flags integer not null, data text not null)',
+    cards: 'CREATE TABLE cards (id integer primary key, nid integer not null, did integer not null, ord integer not null, mod integer not null, usn integer not null, type integer not null, queue integer not null, due integer not null, ivl integer not null, factor integer not null, reps integer not null, lapses integer not null, left integer not null, odue integer not null, odid integer not null, flags integer not null, data text not null)',
+    revlog: 'CREATE TABLE revlog (id integer primary key, cid integer not null, usn integer not null, ease integer not null, ivl integer not null, lastIvl integer not null, factor integer not null, time integer not null, type integer not null)',
+    graves: 'CREATE TABLE graves (usn integer not null, oid integer not null, type integer not null)',
+};
+
+const BASIC_MODEL_ID = 1700000000001;
+const CLOZE_MODEL_ID = 1700000000002;
+const MODEL_CSS = '.card { font-family: arial; font-size: 20px; text-align: center; color: black; background-color: white; }\n.cloze { font-weight: bold; color: blue; }\n.comments { font-size: 14px; color: #666; }';
+
+const buildModel = (id: number, name: string, type: number, fields: string[], qfmt: string, afmt: string, did: number, mod: number) => ({
+    id, name, type, mod, usn: -1, sortf: 0, did,
+    tmpls: [{ name: type === 1 ? 'Cloze' : 'Card 1', ord: 0, qfmt, afmt, did: null, bqfmt: '', bafmt: '' }],
+    flds: fields.map((f, ord) => ({ name: f, ord, sticky: false, rtl: false, font: 'Arial', size: 20, media: [] })),
+    css: MODEL_CSS,
+    latexPre: '\\documentclass[12pt]{article}\n\\special{papersize=3in,5in}\n\\usepackage[utf8]{inputenc}\n\\usepackage{amssymb,amsmath}\n\\pagestyle{empty}\n\\setlength{\\parindent}{0in}\n\\begin{document}\n',
+    latexPost: '\\end{document}',
+    latexsvg: false,
+    req: [[0, type === 1 ? 'any' : 'all', [0]]],
+    tags: [],
+    vers: [],
+});
+
+const buildDeck = (id: number, name: string, mod: number) => ({
+    id, name, mod, usn: -1, desc: '', dyn: 0, conf: 1, collapsed: false, browserCollapsed: false,
+    extendNew: 0, extendRev: 0, newToday: [0, 0], revToday: [0, 0], lrnToday: [0, 0], timeToday: [0, 0],
+});
+
+const DECK_CONFIG = (mod: number) => ({
+    1: {
+        id: 1, name: 'Default', mod, usn: -1, maxTaken: 60, autoplay: true, timer: 0, replayq: true, dyn: false,
+        new: { delays: [1, 10], ints: [1, 4, 0], initialFactor: FACTOR_DEFAULT, order: 1, perDay: 20, bury: false },
+        lapse: { delays: [10], mult: 0, minInt: 1, leechFails: 8, leechAction: 1 },
+        rev: { perDay: 200, ease4: 1.3, ivlFct: 1, maxIvl: 36500, bury: false, hardFactor: 1.2 },
+    },
+});
+
+const checksum = async (text: string): Promise<number> => {
+    const digest = await crypto.subtle.digest('SHA-1', new TextEncoder().encode(text));
+    return new DataView(digest).getUint32(0);
+};
+
+const startOfDayMs = (ms: number) => {
+    const d = new Date(ms);
+    d.setHours(0, 0, 0, 0);
+    return d.getTime();
+};
+
+/** Exporta flashcards para um pacote do Anki (.apkg/.colpkg têm a mesma estrutura). */
+export const exportAnkiPackage = async (flashcards: Flashcard[], options: AnkiExportOptions, now: Date = new Date()): Promise<AnkiExportResult> => {
+    const nowMs = now.getTime();
+    const mod = Math.floor(nowMs / 1000);
+    const warnings: string[] = [];
+
+    // Dia zero da coleção: antes de qualquer vencimento, para `due` nunca ser negativo
+    const earliest = flashcards
+        .flatMap(fc => [fc.nextReviewDate, ...Object.values(fc.siblingStates || {}).map(s => s.nextReviewDate)])
+        .map(d => new Date(d).getTime())
+        .reduce((min, t) => (isNaN(t) ? min : Math.min(min, t)), nowMs);
+    const crtMs = startOfDayMs(earliest);
+
+    // Mídia do media store é lida antes: a montagem das notas abaixo é síncrona
+    const storedMedia = new Map<string, { type: string; bytes: Uint8Array }>();
+    for (const ref of new Set(flashcards.flatMap(fc => FLASHCARD_MEDIA_FIELDS.map(field => fc[field])).filter(isMediaRef))) {
+        const stored = await getMediaBytes(ref);
+        if (stored) storedMedia.set(ref, stored);
+        else warnings.push(`Mídia ${ref.slice(0, 18)}… não encontrada no aparelho e ficou de fora.`);
+    }
+
+    // Mídia: referências do store e data URLs viram arquivos numerados no zip
+    const mediaFiles: { name: string; data: Uint8Array }[] = [];
+    const mediaByUrl = new Map<string, string>();
+    const mediaName = (url: string | undefined): string | undefined => {
+        if (!url) return undefined;
+        const stored = storedMedia.get(url);
+        if (stored) {
+            const cached = mediaByUrl.get(url);
+            if (cached) return cached;
+            const name = `miaaula-${mediaFiles.length + 1}.${EXT_BY_MIME[stored.type] || 'bin'}`;
+            mediaFiles.push({ name, data: stored.bytes });
+            mediaByUrl.set(url, name);
+            return name;
+        }
+        const match = url.match(/^data:([^;,]+)?(;base64)?,(.*)$/s);
+        if (!match) return /^https?:/i.test(url) ? url : undefined;
+        const cached = mediaByUrl.get(url);
+        if (cached) return cached;
+        const data = match[2] ? fromBase64(match[3]) : new TextEncoder().encode(decodeURIComponent(match[3]));
+        const name = `miaaula-${mediaFiles.length + 1}.${EXT_BY_MIME[match[1] || ''] || 'bin'}`;
+        mediaFiles.push({ name, data });
+        mediaByUrl.set(url, name);
+        return name;
+    };
+
+    const fieldHtml = (text: string, image?: string, audio?: string) => {
+        const img = mediaName(image);
+        const snd = mediaName(audio);
+        return [escapeHtml(text || ''), img ? `<img src="${img}">` : '', snd && !/^https?:/i.test(snd) ? `[sound:${snd}]` : ''].filter(Boolean).join('<br>');
+    };
+
+    // Decks: Disciplina::Tópico (o mesmo caminho que a importação lê de volta)
+    const decks: Record<string, ReturnType<typeof buildDeck>> = { 1: buildDeck(1, 'Default', mod) };
+    const deckIds = new Map<string, number>();
+    const deckFor = (fc: Flashcard): number => {
+        const name = [fc.discipline || 'Miaaula', fc.topic].filter(Boolean).join(DECK_SEPARATOR);
+        let id = deckIds.get(name);
+        if (!id) {
+            id = nowMs + deckIds.size + 1;
+            deckIds.set(name, id);
+            decks[id] = buildDeck(id, name, mod);
+        }
+        return id;
+    };
+
+    const noteRows: (number | string)[][] = [];
+    const cardRows: (number | string)[][] = [];
+    const revlogRows: number[][] = [];
+    const usedRevlogIds = new Set<number>();
+    let nextId = nowMs;
+    let newPosition = 1;
+    let occlusionCount = 0;
+
+    const addCard = (noteId: number, did: number, ord: number, state: FlashcardSiblingState, lapses: number, suspended: boolean, attempts: Attempt[]) => {
+        const cardId = ++nextId;
+        const reviewed = (state.totalAttempts || 0) > 0;
+        const dueMs = new Date(state.nextReviewDate).getTime();
+        const ivl = Math.max(1, Math.round(state.stability || 1));
+
+        cardRows.push([
+            cardId, noteId, did, ord, mod, -1,
+            reviewed ? 2 : 0, // type
+            suspended ? -1 : reviewed ? 2 : 0, // queue
+            reviewed ? Math.max(0, Math.round(((isNaN(dueMs) ? nowMs : dueMs) - crtMs) / DAY_MS)) : newPosition++,
+            reviewed ? ivl : 0,
+            reviewed ? factorFromDifficulty(state.difficulty) : 0,
+            state.totalAttempts || 0,
+            lapses,
+            0, 0, 0, 0, '',
+        ]);
+
+        if (!options.includeHistory) return;
+        let lastIvl = 0;
+        attempts.forEach((attempt, i) => {
+            let id = new Date(attempt.date).getTime();
+            if (isNaN(id)) return;
+            while (usedRevlogIds.has(id)) id++;
+            usedRevlogIds.add(id);
+            const stability = attempt.stabilityAfter || 0;
+            const attemptIvl = stability >= 1 ? Math.round(stability) : -Math.max(60, Math.round(stability * 86400));
+            const previousFailed = i > 0 && !attempts[i - 1].wasCorrect;
+            revlogRows.push([
+                id, cardId, -1,
+                ratingFromAttempt(attempt) + 1,
+                attemptIvl,
+                lastIvl,
+                factorFromDifficulty(attempt.difficultyAfter),
+                Math.min(60000, Math.round((attempt.timeSec || 0) * 1000)),
+                i === 0 ? 0 : previousFailed ? 2 : 1,
+            ]);
+            lastIvl = attemptIvl;
+        });
+    };
+
+    for (const fc of flashcards) {
+        const noteId = ++nextId;
+        const did = deckFor(fc);
+        const suspended = fc.tags.includes(ANKI_SUSPENDED_TAG);
+        const tags = fc.tags.filter(t => t !== ANKI_SUSPENDED_TAG).map(t => t.trim().replace(/\s+/g, '_')).filter(Boolean);
+        const isCloze = fc.type === 'cloze' && getClozeIndices(fc.front).length > 0;
+        if (fc.type === 'imageOcclusion') occlusionCount++;
+
+        const fields = isCloze
+            ? [fieldHtml(fc.front, fc.frontImage, fc.frontAudio), fieldHtml(fc.back, fc.backImage, fc.backAudio), escapeHtml(fc.comments || '')]
+            : [fieldHtml(fc.front, fc.frontImage, fc.frontAudio), fieldHtml(fc.back, fc.backImage, fc.backAudio), escapeHtml(fc.comments || ''), escapeHtml(fc.extra || '')];
+        const sortField = htmlToText(fields[0]);
+
+        noteRows.push([
+            noteId, fc.id, isCloze ? CLOZE_MODEL_ID : BASIC_MODEL_ID, mod, -1,
+            tags.length ? ` ${tags.join(' ')} ` : '',
+            fields.join(FIELD_SEPARATOR),
+            sortField,
+            await checksum(sortField),
+            0, '',
+        ]);
+
+        if (isCloze) {
+            // Tentativas antigas, sem siblingKey, ficam com a primeira deleção
+            const fallbackKey = toClozeSiblingKey(getClozeIndices(fc.front)[0]);
+            getSiblingKeys(fc).forEach(key => {
+                const index = parseClozeSiblingKey(key)!;
+                const attempts = (fc.attemptHistory || []).filter(a => (a.siblingKey || fallbackKey) === key);
+                addCard(noteId, did, index - 1, getSiblingState(fc, key), attempts.filter(a => !a.wasCorrect).length, suspended, attempts);
+            });
+        } else {
+            addCard(noteId, did, 0, fc, fc.lapses || 0, suspended, fc.attemptHistory || []);
+        }
+    }
+
+    if (occlusionCount > 0) warnings.push(`${occlusionCount} card(s) de oclusão de imagem exportados como Básico (as máscaras não existem no Anki padrão).`);
+
+    const models = {
+        [BASIC_MODEL_ID]: buildModel(BASIC_MODEL_ID, `${MIAAULA_MODEL_PREFIX} Básico`, 0, ['Frente', 'Verso', 'Comentários', 'Extra'],
+            '{{Frente}}',
+            '{{FrontSide}}\n\n<hr id=answer>\n\n{{Verso}}{{#Comentários}}<div class="comments">{{Comentários}}</div>{{/Comentários}}',
+            1, mod),
+        [CLOZE_MODEL_ID]: buildModel(CLOZE_MODEL_ID, `${MIAAULA_MODEL_PREFIX} Cloze`, 1, ['Texto', 'Verso Extra', 'Comentários'],
+            '{{cloze:Texto}}',
+            '{{cloze:Texto}}<br>\n{{Verso Extra}}{{#Comentários}}<div class="comments">{{Comentários}}</div>{{/Comentários}}',
+            1, mod),
+    };
+    const conf = {
+        activeDecks: [1], curDeck: 1, newSpread: 0, collapseTime: 1200, timeLim: 0, estTimes: true, dueCounts: true,
+        curModel: BASIC_MODEL_ID, nextPos: newPosition, sortType: 'noteFld', sortBackwards: false, addToCur: true,
+    };
+
+    const sqlite = writeSqlite([
+        { name: 'col', sql: SCHEMA_11.col, rows: [[1, Math.floor(crtMs / 1000), nowMs, nowMs, 11, 0, 0, 0, JSON.stringify(conf), JSON.stringify(models), JSON.stringify(decks), JSON.stringify(DECK_CONFIG(mod)), '{}']] },
+        { name: 'notes', sql: SCHEMA_11.notes, rows: noteRows },
+        { name: 'cards', sql: SCHEMA_11.cards, rows: cardRows },
+        { name: 'revlog', sql: SCHEMA_11.revlog, rows: revlogRows },
+        { name: 'graves', sql: SCHEMA_11.graves, rows: [] },
+    ]);
+
+    const mediaMap: Record<string, string> = {};
+    mediaFiles.forEach((file, i) => { mediaMap[String(i)] = file.name; });
+
+    const data = writeZip([
+        { name: 'collection.anki2', data: sqlite },
+        { name: 'media', data: new TextEncoder().encode(JSON.stringify(mediaMap)) },
+        ...mediaFiles.map((file, i) => ({ name: String(i), data: file.data })),
+    ]);
+
+    return { data, noteCount: noteRows.length, cardCount: cardRows.length, mediaCount: mediaFiles.length, warnings };
+};
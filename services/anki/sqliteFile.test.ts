@@ -0,0 +1,81 @@
+import { describe, it, expect } from 'vitest';
+import { parseColumns, SqliteReader, writeSqlite } from './sqliteFile';
+
+const NOTES = 'CREATE TABLE notes (id integer primary key, guid text not null, flds text, score real, blob blob)';
+
+describe('parseColumns', () => {
+    it('lê nomes, ignora restrições de tabela e acha o alias do rowid', () => {
+        const { names, rowidAlias } = parseColumns('CREATE TABLE "t" ("a" text, id INTEGER PRIMARY KEY, [b] numeric(10, 2), PRIMARY KEY (a), UNIQUE (b))');
+        expect(names).toEqual(['a', 'id', 'b']);
+        expect(rowidAlias).toBe(1);
+    });
+
+    it('sem INTEGER PRIMARY KEY não há alias', () => {
+        expect(parseColumns('CREATE TABLE graves (usn integer not null, oid integer not null)').rowidAlias).toBe(-1);
+    });
+
+    it('WITHOUT ROWID: a chave primária vem primeiro no registro', () => {
+        const columns = parseColumns('CREATE TABLE t (name text, id integer not null, ord integer, PRIMARY KEY (id, ord)) WITHOUT ROWID');
+        expect(columns).toMatchObject({ withoutRowid: true, rowidAlias: -1, primaryKey: ['id', 'ord'], storedOrder: ['id', 'ord', 'name'] });
+    });
+});
+
+describe('writeSqlite / SqliteReader', () => {
+    it('lê de volta todos os tipos de valor', () => {
+        const blob = new Uint8Array([1, 2, 3]);
+        const db = new SqliteReader(writeSqlite([{
+            name: 'notes',
+            sql: NOTES,
+            rows: [
+                [1700000000123, 'guid-1', 'Frente\u001fVerso ção', 2.5, blob],
+                [2, 'guid-2', null, -40000, null],
+                [3, 'guid-3', '', 1, new Uint8Array(0)],
+                [4, 'guid-4', 'x', -3_000_000_000, null],
+            ],
+        }]));
+
+        expect(db.tableNames()).toEqual(['notes']);
+        expect(db.rows('notes')).toEqual([
+            { id: 2, guid: 'guid-2', flds: null, score: -40000, blob: null },
+            { id: 3, guid: 'guid-3', flds: '', score: 1, blob: new Uint8Array(0) },
+            { id: 4, guid: 'guid-4', flds: 'x', score: -3_000_000_000, blob: null },
+            { id: 1700000000123, guid: 'guid-1', flds: 'Frente\u001fVerso ção', score: 2.5, blob },
+        ]);
+    });
+
+    it('percorre árvores com várias páginas e registros com overflow', () => {
+        const rows = Array.from({ length: 600 }, (_, i) => [i + 1, `guid-${i}`, `nota ${i} `.repeat(i % 7 === 0 ? 900 : 3), i / 4, null]);
+        const db = new SqliteReader(writeSqlite([
+            { name: 'notes', sql: NOTES, rows },
+            { name: 'graves', sql: 'CREATE TABLE graves (usn integer not null, oid integer not null)', rows: [[-1, 10], [-1, 11]] },
+        ], 1024));
+
+        const read = db.rows('notes');
+        expect(read).toHaveLength(600);
+        expect(read.map(r => r.id)).toEqual(rows.map(r => r[0]));
+        expect(read[0].flds).toBe(rows[0][2]);
+        expect(read[343].flds).toBe(rows[343][2]);
+        expect(db.rows('graves')).toEqual([{ usn: -1, oid: 10 }, { usn: -1, oid: 11 }]);
+    });
+
+    it('tabelas WITHOUT ROWID (B-tree de índice) com várias páginas e overflow', () => {
+        const sql = 'CREATE TABLE templates (name text not null, ntid integer not null, ord integer not null, config blob, PRIMARY KEY (ntid, ord)) without rowid';
+        const rows = Array.from({ length: 400 }, (_, i) => [`modelo ${i} `.repeat(i % 45 === 0 ? 200 : 2), 1000 - Math.floor(i / 4), i % 4, new Uint8Array([i % 256])]);
+        const db = new SqliteReader(writeSqlite([{ name: 'templates', sql, rows }], 1024));
+
+        const read = db.rows('templates');
+        expect(read).toHaveLength(400);
+        // Ordenadas pela chave (ntid, ord), com as colunas na ordem do CREATE TABLE
+        expect(Object.keys(read[0])).toEqual(['name', 'ntid', 'ord', 'config']);
+        expect(read.map(r => [r.ntid, r.ord])).toEqual(rows.map(r => [r[1], r[2]]).sort((a, b) => Number(a[0]) - Number(b[0]) || Number(a[1]) - Number(b[1])));
+        const first = read.find(r => r.ntid === 1000 && r.ord === 0)!;
+        expect(first).toEqual({ name: rows[0][0], ntid: 1000, ord: 0, config: new Uint8Array([0]) });
+    });
+
+    it('erros claros para arquivo inválido e tabela ausente', () => {
+        expect(() => new SqliteReader(new TextEncoder().encode('não é sqlite'.padEnd(120)))).toThrow('não é um banco SQLite');
+        const db = new SqliteReader(writeSqlite([{ name: 'notes', sql: NOTES, rows: [] }]));
+        expect(db.hasTable('revlog')).toBe(false);
+        expect(() => db.rows('revlog')).toThrow('"revlog" não encontrada');
+    });
+});
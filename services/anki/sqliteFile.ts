@@ -0,0 +1,616 @@
+/**
+ * SQLITE (SOMENTE O NECESSÁRIO PARA O ANKI)
+ * Leitor de tabelas (B-tree de tabela, B-tree de índice das tabelas WITHOUT ROWID,
+ * páginas de overflow, registros) e escritor de um banco novo com tabelas sem índices
+ * (WITHOUT ROWID incluídas, para os testes do formato novo do Anki).
+ * Não executa SQL: o esquema vem de sqlite_master e as colunas são lidas do CREATE TABLE.
+ * Formato: https://www.sqlite.org/fileformat2.html
+ */
+
+export type SqlValue = number | string | Uint8Array | null;
+export type SqlRow = Record<string, SqlValue>;
+
+export interface SqliteTableDef {
+    name: string;
+    sql: string;
+    /** Linhas na ordem das colunas do CREATE TABLE. A coluna INTEGER PRIMARY KEY vira o rowid. */
+    rows: SqlValue[][];
+}
+
+const HEADER_MAGIC = 'SQLite format 3\u0000';
+const PAGE_LEAF_TABLE = 0x0d;
+const PAGE_INTERIOR_TABLE = 0x05;
+const PAGE_LEAF_INDEX = 0x0a;
+const PAGE_INTERIOR_INDEX = 0x02;
+
+// --- Varint (big-endian, 7 bits por byte, 9º byte com 8 bits) ---
+
+const readVarint = (bytes: Uint8Array, offset: number): [number, number] => {
+    let value = 0;
+    for (let i = 0; i < 8; i++) {
+        const b = bytes[offset + i];
+        value = value * 128 + (b & 0x7f);
+        if (!(b & 0x80)) return [value, i + 1];
+    }
+    return [value * 256 + bytes[offset + 8], 9];
+};
+
+const encodeVarint = (value: number): number[] => {
+    if (value < 0 || value > Number.MAX_SAFE_INTEGER) throw new Error(`Varint fora do intervalo: ${value}`);
+    if (value < 0x80) return [value];
+    const out: number[] = [];
+    let v = value;
+    while (v > 0) {
+        out.unshift(v % 128);
+        v = Math.floor(v / 128);
+    }
+    // Até 56 bits cabem em 8 bytes de 7 bits (suficiente para ids em ms)
+    return out.map((b, i) => (i < out.length - 1 ? b | 0x80 : b));
+};
+
+// --- Colunas a partir do CREATE TABLE ---
+
+const CONSTRAINT_WORDS = new Set(['primary', 'unique', 'check', 'foreign', 'constraint']);
+
+const unquote = (name: string) => name.replace(/^["`\[]|["`\]]$/g, '');
+
+/**
+ * Colunas do CREATE TABLE. Em tabelas WITHOUT ROWID o registro guarda primeiro as
+ * colunas da chave primária e depois as demais: `storedOrder` já vem nessa ordem.
+ */
+export const parseColumns = (sql: string): { names: string[]; rowidAlias: number; withoutRowid: boolean; primaryKey: string[]; storedOrder: string[] } => {
+    const body = sql.slice(sql.indexOf('(') + 1, sql.lastIndexOf(')'));
+    const parts: string[] = [];
+    let depth = 0;
+    let current = '';
+    for (const ch of body) {
+        if (ch === '(') depth++;
+        if (ch === ')') depth--;
+        if (ch === ',' && depth === 0) {
+            parts.push(current);
+            current = '';
+        } else {
+            current += ch;
+        }
+    }
+    if (current.trim()) parts.push(current);
+
+    const names: string[] = [];
+    let primaryKey: string[] = [];
+    let rowidAlias = -1;
+    parts.forEach(part => {
+        const def = part.trim();
+        const first = def.split(/\s+/)[0] || '';
+        if (CONSTRAINT_WORDS.has(first.toLowerCase())) {
+            const pk = def.match(/^primary\s+key\s*\(([^)]*)\)/i);
+            if (pk) primaryKey = pk[1].split(',').map(c => unquote(c.trim().split(/\s+/)[0]));
+            return;
+        }
+        if (/^\s*\S+\s+integer\s+primary\s+key/i.test(def)) rowidAlias = names.length;
+        if (/\sprimary\s+key/i.test(def)) primaryKey = [unquote(first)];
+        names.push(unquote(first));
+    });
+
+    const withoutRowid = /\)\s*without\s+rowid\s*;?\s*$/i.test(sql);
+    const storedOrder = withoutRowid ? [...primaryKey, ...names.filter(n => !primaryKey.includes(n))] : names;
+    return { names, rowidAlias: withoutRowid ? -1 : rowidAlias, withoutRowid, primaryKey, storedOrder };
+};
+
+// --- Leitura ---
+
+/** Maior payload guardado inteiro na célula (páginas de índice guardam menos). */
+const maxLocalPayload = (usable: number, index: boolean): number =>
+    index ? Math.floor(((usable - 12) * 64) / 255) - 23 : usable - 35;
+
+export class SqliteReader {
+    private bytes: Uint8Array;
+    private view: DataView;
+    private pageSize: number;
+    private usable: number;
+    private decoder = new TextDecoder();
+    private schema: SqlRow[];
+
+    constructor(data: Uint8Array) {
+        this.bytes = data;
+        this.view = new DataView(data.buffer, data.byteOffset, data.byteLength);
+        if (this.decoder.decode(data.subarray(0, 16)) !== HEADER_MAGIC) throw new Error('Arquivo não é um banco SQLite.');
+        const rawPageSize = this.view.getUint16(16);
+        this.pageSize = rawPageSize === 1 ? 65536 : rawPageSize;
+        this.usable = this.pageSize - data[20];
+        if (this.view.getUint32(56) > 1) throw new Error('Banco SQLite em UTF-16 não suportado.');
+        this.schema = this.readTree(1, ['type', 'name', 'tbl_name', 'rootpage', 'sql'], -1);
+    }
+
+    tableNames(): string[] {
+        return this.schema.filter(r => r.type === 'table').map(r => String(r.name));
+    }
+
+    hasTable(name: string): boolean {
+        return this.tableNames().includes(name);
+    }
+
+    /** Todas as linhas da tabela como objetos { coluna: valor }. */
+    rows(table: string): SqlRow[] {
+        const entry = this.schema.find(r => r.type === 'table' && r.name === table);
+        if (!entry) throw new Error(`Tabela "${table}" não encontrada.`);
+        const { names, rowidAlias, withoutRowid, storedOrder } = parseColumns(String(entry.sql));
+        if (!withoutRowid) return this.readTree(Number(entry.rootpage), names, rowidAlias);
+
+        const out: SqlRow[] = [];
+        this.readIndexTree(Number(entry.rootpage), values => {
+            const row: SqlRow = {};
+            storedOrder.forEach((name, i) => { row[name] = i < values.length ? values[i] : null; });
+            out.push(Object.fromEntries(names.map(name => [name, row[name]])));
+        });
+        return out;
+    }
+
+    private pageOffset(page: number) {
+        return (page - 1) * this.pageSize;
+    }
+
+    private readTree(root: number, columns: string[], rowidAlias: number): SqlRow[] {
+        const out: SqlRow[] = [];
+        const stack = [root];
+        // Percorre em ordem: filhos à esquerda primeiro
+        while (stack.length > 0) {
+            const page = stack.pop()!;
+            const base = this.pageOffset(page);
+            const header = base + (page === 1 ? 100 : 0);
+            const type = this.bytes[header];
+            const cellCount = this.view.getUint16(header + 3);
+
+            if (type === PAGE_INTERIOR_TABLE) {
+                const children: number[] = [];
+                for (let i = 0; i < cellCount; i++) {
+                    const cell = base + this.view.getUint16(header + 12 + i * 2);
+                    children.push(this.view.getUint32(cell));
+                }
+                children.push(this.view.getUint32(header + 8));
+                for (let i = children.length - 1; i >= 0; i--) stack.push(children[i]);
+            } else if (type === PAGE_LEAF_TABLE) {
+                for (let i = 0; i < cellCount; i++) {
+                    const cell = base + this.view.getUint16(header + 8 + i * 2);
+                    out.push(this.readLeafCell(cell, columns, rowidAlias));
+                }
+            } else {
+                throw new Error(`Página ${page} com tipo inesperado (${type}).`);
+            }
+        }
+        return out;
+    }
+
+    /** B-tree de índice (tabelas WITHOUT ROWID): as células das páginas interiores também são linhas. */
+    private readIndexTree(page: number, emit: (values: SqlValue[]) => void): void {
+        const base = this.pageOffset(page);
+        const header = base + (page === 1 ? 100 : 0);
+        const type = this.bytes[header];
+        const cellCount = this.view.getUint16(header + 3);
+        const readCell = (offset: number) => {
+            const [payloadSize, n] = readVarint(this.bytes, offset);
+            emit(this.decodeRecord(this.readPayload(offset + n, payloadSize, true)));
+        };
+
+        if (type === PAGE_INTERIOR_INDEX) {
+            for (let i = 0; i < cellCount; i++) {
+                const cell = base + this.view.getUint16(header + 12 + i * 2);
+                this.readIndexTree(this.view.getUint32(cell), emit);
+                readCell(cell + 4);
+            }
+            this.readIndexTree(this.view.getUint32(header + 8), emit);
+        } else if (type === PAGE_LEAF_INDEX) {
+            for (let i = 0; i < cellCount; i++) readCell(base + this.view.getUint16(header + 8 + i * 2));
+        } else {
+            throw new Error(`Página ${page} com tipo inesperado (${type}).`);
+        }
+    }
+
+    private readLeafCell(offset: number, columns: string[], rowidAlias: number): SqlRow {
+        const [payloadSize, n1] = readVarint(this.bytes, offset);
+        const [rowid, n2] = readVarint(this.bytes, offset + n1);
+        const payload = this.readPayload(offset + n1 + n2, payloadSize);
+        const values = this.decodeRecord(payload);
+
+        const row: SqlRow = {};
+        columns.forEach((name, i) => { row[name] = i < values.length ? values[i] : null; });
+        if (rowidAlias >= 0) row[columns[rowidAlias]] = rowid;
+        return row;
+    }
+
+    private readPayload(offset: number, size: number, index = false): Uint8Array {
+        const U = this.usable;
+        const X = maxLocalPayload(U, index);
+        if (size <= X) return this.bytes.subarray(offset, offset + size);
+
+        const M = Math.floor(((U - 12) * 32) / 255) - 23;
+        const K = M + ((size - M) % (U - 4));
+        const local = K <= X ? K : M;
+
+        const out = new Uint8Array(size);
+        out.set(this.bytes.subarray(offset, offset + local), 0);
+        let written = local;
+        let next = this.view.getUint32(offset + local);
+        while (next !== 0 && written < size) {
+            const base = this.pageOffset(next);
+            const chunk = Math.min(U - 4, size - written);
+            out.set(this.bytes.subarray(base + 4, base + 4 + chunk), written);
+            written += chunk;
+            next = this.view.getUint32(base);
+        }
+        return out;
+    }
+
+    private decodeRecord(payload: Uint8Array): SqlValue[] {
+        const view = new DataView(payload.buffer, payload.byteOffset, payload.byteLength);
+        const [headerSize, n] = readVarint(payload, 0);
+        const types: number[] = [];
+        let pos = n;
+        while (pos < headerSize) {
+            const [t, len] = readVarint(payload, pos);
+            types.push(t);
+            pos += len;
+        }
+
+        let body = headerSize;
+        return types.map(t => {
+            switch (t) {
+                case 0: return null;
+                case 1: body += 1; return view.getInt8(body - 1);
+                case 2: body += 2; return view.getInt16(body - 2);
+                case 3: body += 3; return ((view.getInt8(body - 3) << 16) | view.getUint16(body - 2));
+                case 4: body += 4; return view.getInt32(body - 4);
+                case 5: body += 6; return view.getInt16(body - 6) * 2 ** 32 + view.getUint32(body - 4);
+                case 6: body += 8; return Number(view.getBigInt64(body - 8));
+                case 7: body += 8; return view.getFloat64(body - 8);
+                case 8: return 0;
+                case 9: return 1;
+                default: {
+                    const length = t >= 12 ? Math.floor((t - 12) / 2) : 0;
+                    const data = payload.subarray(body, body + length);
+                    body += length;
+                    return t % 2 === 0 ? data.slice() : this.decoder.decode(data);
+                }
+            }
+        });
+    }
+}
+
+// --- Escrita ---
+
+const encodeRecord = (values: SqlValue[], encoder: TextEncoder): Uint8Array => {
+    const types: number[] = [];
+    const bodies: Uint8Array[] = [];
+
+    values.forEach(value => {
+        if (value === null || value === undefined) {
+            types.push(0);
+            bodies.push(new Uint8Array(0));
+        } else if (typeof value === 'number') {
+            if (!Number.isInteger(value)) {
+                const b = new Uint8Array(8);
+                new DataView(b.buffer).setFloat64(0, value);
+                types.push(7);
+                bodies.push(b);
+            } else if (value === 0 || value === 1) {
+                types.push(value === 0 ? 8 : 9);
+                bodies.push(new Uint8Array(0));
+            } else if (value >= -128 && value <= 127) {
+                types.push(1);
+                bodies.push(new Uint8Array([value & 0xff]));
+            } else if (value >= -32768 && value <= 32767) {
+                const b = new Uint8Array(2);
+                new DataView(b.buffer).setInt16(0, value);
+                types.push(2);
+                bodies.push(b);
+            } else if (value >= -2147483648 && value <= 2147483647) {
+                const b = new Uint8Array(4);
+                new DataView(b.buffer).setInt32(0, value);
+                types.push(4);
+                bodies.push(b);
+            } else {
+                const b = new Uint8Array(8);
+                new DataView(b.buffer).setBigInt64(0, BigInt(value));
+                types.push(6);
+                bodies.push(b);
+            }
+        } else if (typeof value === 'string') {
+            const b = encoder.encode(value);
+            types.push(b.length * 2 + 13);
+            bodies.push(b);
+        } else {
+            types.push(value.length * 2 + 12);
+            bodies.push(value);
+        }
+    });
+
+    const typeBytes = types.flatMap(encodeVarint);
+    // O tamanho do cabeçalho inclui o próprio varint
+    let headerSize = typeBytes.length + 1;
+    while (typeBytes.length + encodeVarint(headerSize).length !== headerSize) headerSize = typeBytes.length + encodeVarint(headerSize).length;
+    const header = [...encodeVarint(headerSize), ...typeBytes];
+
+    const total = header.length + bodies.reduce((sum, b) => sum + b.length, 0);
+    const out = new Uint8Array(total);
+    out.set(header, 0);
+    let pos = header.length;
+    bodies.forEach(b => { out.set(b, pos); pos += b.length; });
+    return out;
+};
+
+class PageWriter {
+    pages: Uint8Array[] = [];
+
+    constructor(public pageSize: number) {
+        this.pages.push(new Uint8Array(pageSize)); // página 1 (sqlite_master), preenchida no fim
+    }
+
+    allocate(): number {
+        this.pages.push(new Uint8Array(this.pageSize));
+        return this.pages.length;
+    }
+
+    page(n: number): Uint8Array {
+        return this.pages[n - 1];
+    }
+}
+
+interface BuiltCell {
+    bytes: Uint8Array;
+    rowid: number;
+}
+
+/**
+ * Célula de folha, com a parte que não cabe em páginas de overflow.
+ * Sem `rowid`, é célula de índice (tabelas WITHOUT ROWID).
+ */
+const buildLeafCell = (rowid: number | undefined, payload: Uint8Array, writer: PageWriter): BuiltCell => {
+    const U = writer.pageSize;
+    const X = maxLocalPayload(U, rowid === undefined);
+    const prefix = [...encodeVarint(payload.length), ...(rowid === undefined ? [] : encodeVarint(rowid))];
+
+    if (payload.length <= X) {
+        const bytes = new Uint8Array(prefix.length + payload.length);
+        bytes.set(prefix, 0);
+        bytes.set(payload, prefix.length);
+        return { bytes, rowid: rowid ?? 0 };
+    }
+
+    const M = Math.floor(((U - 12) * 32) / 255) - 23;
+    const K = M + ((payload.length - M) % (U - 4));
+    const local = K <= X ? K : M;
+
+    // Encadeia as páginas de overflow
+    const chunks: Uint8Array[] = [];
+    for (let pos = local; pos < payload.length; pos += U - 4) chunks.push(payload.subarray(pos, pos + U - 4));
+    const pageNumbers = chunks.map(() => writer.allocate());
+    chunks.forEach((chunk, i) => {
+        const page = writer.page(pageNumbers[i]);
+        new DataView(page.buffer).setUint32(0, pageNumbers[i + 1] || 0);
+        page.set(chunk, 4);
+    });
+
+    const bytes = new Uint8Array(prefix.length + local + 4);
+    bytes.set(prefix, 0);
+    bytes.set(payload.subarray(0, local), prefix.length);
+    new DataView(bytes.buffer).setUint32(prefix.length + local, pageNumbers[0]);
+    return { bytes, rowid: rowid ?? 0 };
+};
+
+/** Grava células numa página B-tree (tipo folha/interior) a partir de `headerOffset`. */
+const fillPage = (page: Uint8Array, headerOffset: number, type: number, cells: Uint8Array[], rightChild?: number) => {
+    const view = new DataView(page.buffer, page.byteOffset, page.byteLength);
+    const interior = type === PAGE_INTERIOR_TABLE || type === PAGE_INTERIOR_INDEX;
+    const headerSize = interior ? 12 : 8;
+    let contentStart = page.length;
+
+    page[headerOffset] = type;
+    view.setUint16(headerOffset + 1, 0);
+    view.setUint16(headerOffset + 3, cells.length);
+    cells.forEach((cell, i) => {
+        contentStart -= cell.length;
+        page.set(cell, contentStart);
+        view.setUint16(headerOffset + headerSize + i * 2, contentStart);
+    });
+    view.setUint16(headerOffset + 5, contentStart === 65536 ? 0 : contentStart);
+    page[headerOffset + 7] = 0;
+    if (interior) view.setUint32(headerOffset + 8, rightChild || 0);
+};
+
+/** Distribui células em páginas (respeitando espaço); devolve grupos por página. */
+const packCells = <T extends { bytes: Uint8Array }>(cells: T[], capacity: number, headerSize: number): T[][] => {
+    const groups: T[][] = [];
+    let current: T[] = [];
+    let used = headerSize;
+    cells.forEach(cell => {
+        const need = cell.bytes.length + 2;
+        if (current.length > 0 && used + need > capacity) {
+            groups.push(current);
+            current = [];
+            used = headerSize;
+        }
+        current.push(cell);
+        used += need;
+    });
+    if (current.length > 0 || groups.length === 0) groups.push(current);
+    return groups;
+};
+
+/** Constrói a B-tree de uma tabela e devolve a página raiz. */
+const buildTableTree = (cells: BuiltCell[], writer: PageWriter): number => {
+    const leafGroups = packCells(cells, writer.pageSize, 8);
+    let level = leafGroups.map(group => {
+        const n = writer.allocate();
+        fillPage(writer.page(n), 0, PAGE_LEAF_TABLE, group.map(c => c.bytes));
+        return { page: n, maxRowid: group.length ? group[group.length - 1].rowid : 0 };
+    });
+
+    while (level.length > 1) {
+        // Cada filho (menos o último de cada página) vira célula (ponteiro + maior rowid)
+        const children = level.map(child => {
+            const bytes = new Uint8Array([0, 0, 0, 0, ...encodeVarint(child.maxRowid)]);
+            new DataView(bytes.buffer).setUint32(0, child.page);
+            return { bytes, child };
+        });
+        // Reserva espaço para o ponteiro da direita: o último de cada grupo sai das células
+        const groups = packCells(children, writer.pageSize - 4, 12);
+        // Página interior precisa de ao menos uma célula além do ponteiro da direita
+        const last = groups[groups.length - 1];
+        if (groups.length > 1 && last.length === 1) last.unshift(groups[groups.length - 2].pop()!);
+        level = groups.map(group => {
+            const n = writer.allocate();
+            const right = group[group.length - 1];
+            fillPage(writer.page(n), 0, PAGE_INTERIOR_TABLE, group.slice(0, -1).map(c => c.bytes), right.child.page);
+            return { page: n, maxRowid: right.child.maxRowid };
+        });
+    }
+    return level[0].page;
+};
+
+/** Célula interior de índice: ponteiro para o filho à esquerda + a célula separadora. */
+const withChild = (child: number, cell: Uint8Array): Uint8Array => {
+    const bytes = new Uint8Array(4 + cell.length);
+    new DataView(bytes.buffer).setUint32(0, child);
+    bytes.set(cell, 4);
+    return bytes;
+};
+
+/**
+ * Constrói a B-tree de índice de uma tabela WITHOUT ROWID (células já ordenadas pela chave).
+ * Entre duas páginas irmãs, uma célula sobe como separadora para o nível de cima.
+ */
+const buildIndexTree = (cells: Uint8Array[], writer: PageWriter): number => {
+    const capacity = writer.pageSize;
+    let nodes: number[] = [];
+    let separators: Uint8Array[] = [];
+
+    let group: Uint8Array[] = [];
+    let used = 8;
+    const closeLeaf = () => {
+        const n = writer.allocate();
+        fillPage(writer.page(n), 0, PAGE_LEAF_INDEX, group);
+        nodes.push(n);
+        group = [];
+        used = 8;
+    };
+    cells.forEach(cell => {
+        if (group.length > 0 && used + cell.length + 2 > capacity) {
+            closeLeaf();
+            separators.push(cell);
+            return;
+        }
+        group.push(cell);
+        used += cell.length + 2;
+    });
+    // Folha final vazia: a última separadora volta para ela
+    if (group.length === 0 && separators.length > 0) group.push(separators.pop()!);
+    closeLeaf();
+
+    while (nodes.length > 1) {
+        const pages: { cells: { child: number; sep: Uint8Array }[]; right: number }[] = [];
+        const promoted: Uint8Array[] = [];
+        let current: { child: number; sep: Uint8Array }[] = [];
+        let size = 12;
+        separators.forEach((sep, i) => {
+            const need = 4 + sep.length + 2;
+            if (current.length > 0 && size + need > capacity) {
+                pages.push({ cells: current, right: nodes[i] });
+                promoted.push(sep);
+                current = [];
+                size = 12;
+                return;
+            }
+            current.push({ child: nodes[i], sep });
+            size += need;
+        });
+        pages.push({ cells: current, right: nodes[nodes.length - 1] });
+        // Página interior precisa de ao menos uma célula além do ponteiro da direita
+        const last = pages[pages.length - 1];
+        if (pages.length > 1 && last.cells.length === 0) {
+            const previous = pages[pages.length - 2];
+            last.cells.push({ child: previous.right, sep: promoted.pop()! });
+            const moved = previous.cells.pop()!;
+            previous.right = moved.child;
+            promoted.push(moved.sep);
+        }
+
+        nodes = pages.map(page => {
+            const n = writer.allocate();
+            fillPage(writer.page(n), 0, PAGE_INTERIOR_INDEX, page.cells.map(c => withChild(c.child, c.sep)), page.right);
+            return n;
+        });
+        separators = promoted;
+    }
+    return nodes[0];
+};
+
+const compareKeys = (a: SqlValue[], b: SqlValue[]): number => {
+    for (let i = 0; i < a.length; i++) {
+        const x = a[i];
+        const y = b[i];
+        if (x === y) continue;
+        if (x === null || x === undefined) return -1;
+        if (y === null || y === undefined) return 1;
+        if (typeof x === 'number' && typeof y === 'number') return x - y;
+        return String(x) < String(y) ? -1 : 1;
+    }
+    return 0;
+};
+
+/**
+ * Cria um banco SQLite com as tabelas informadas (sem índices).
+ * As linhas devem vir ordenadas ou não; são ordenadas pelo rowid (ou pela chave
+ * primária, em tabelas WITHOUT ROWID) aqui.
+ */
+export const writeSqlite = (tables: SqliteTableDef[], pageSize = 4096): Uint8Array => {
+    const encoder = new TextEncoder();
+    const writer = new PageWriter(pageSize);
+    const master: SqlValue[][] = [];
+
+    tables.forEach(table => {
+        const { names, rowidAlias, withoutRowid, primaryKey, storedOrder } = parseColumns(table.sql);
+        if (withoutRowid) {
+            // Registro na ordem gravada (chave primária primeiro), ordenado pela chave
+            const stored = table.rows
+                .map(values => storedOrder.map(name => values[names.indexOf(name)] ?? null))
+                .sort((a, b) => compareKeys(a.slice(0, primaryKey.length), b.slice(0, primaryKey.length)));
+            const root = buildIndexTree(stored.map(values => buildLeafCell(undefined, encodeRecord(values, encoder), writer).bytes), writer);
+            master.push(['table', table.name, table.name, root, table.sql]);
+            return;
+        }
+        const rows = table.rows.map((values, i) => {
+            const rowid = rowidAlias >= 0 ? Number(values[rowidAlias]) : i + 1;
+            const stored = rowidAlias >= 0 ? values.map((v, j) => (j === rowidAlias ? null : v)) : values;
+            return { rowid, payload: encodeRecord(stored, encoder) };
+        }).sort((a, b) => a.rowid - b.rowid);
+
+        const cells = rows.map(r => buildLeafCell(r.rowid, r.payload, writer));
+        const root = buildTableTree(cells, writer);
+        master.push(['table', table.name, table.name, root, table.sql]);
+    });
+
+    // sqlite_master na página 1 (cabe numa folha para poucas tabelas)
+    const masterCells = master.map((values, i) => buildLeafCell(i + 1, encodeRecord(values, encoder), writer).bytes);
+    const page1 = writer.page(1);
+    fillPage(page1, 100, PAGE_LEAF_TABLE, masterCells);
+
+    const header = new DataView(page1.buffer);
+    page1.set(encoder.encode(HEADER_MAGIC), 0);
+    header.setUint16(16, pageSize === 65536 ? 1 : pageSize);
+    page1[18] = 1; // escrita legado (sem WAL)
+    page1[19] = 1;
+    page1[20] = 0;
+    page1[21] = 64;
+    page1[22] = 32;
+    page1[23] = 32;
+    header.setUint32(24, 1); // contador de alterações
+    header.setUint32(28, writer.pages.length);
+    header.setUint32(40, 1); // schema cookie
+    header.setUint32(44, 4); // formato do esquema
+    header.setUint32(56, 1); // UTF-8
+    header.setUint32(92, 1);
+    header.setUint32(96, 3045000);
+
+    const out = new Uint8Array(writer.pages.length * pageSize);
+    writer.pages.forEach((page, i) => out.set(page, i * pageSize));
+    return out;
+};
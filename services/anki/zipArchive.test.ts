@@ -0,0 +1,50 @@
+import { describe, it, expect } from 'vitest';
+import { crc32, readZip, writeZip } from './zipArchive';
+
+const encoder = new TextEncoder();
+const decoder = new TextDecoder();
+
+const deflateRaw = async (data: Uint8Array): Promise<Uint8Array> => {
+    const stream = new Blob([data as BlobPart]).stream().pipeThrough(new CompressionStream('deflate-raw'));
+    return new Uint8Array(await new Response(stream).arrayBuffer());
+};
+
+describe('crc32', () => {
+    it('confere com o valor de referência', () => {
+        expect(crc32(encoder.encode('123456789'))).toBe(0xcbf43926);
+        expect(crc32(new Uint8Array(0))).toBe(0);
+    });
+});
+
+describe('readZip / writeZip', () => {
+    it('lê de volta o que foi escrito, com nomes UTF-8 e arquivos vazios', async () => {
+        const files = [
+            { name: 'collection.anki2', data: encoder.encode('conteúdo') },
+            { name: 'mídia/ação.txt', data: new Uint8Array([0, 1, 2, 255]) },
+            { name: 'vazio', data: new Uint8Array(0) },
+        ];
+        const entries = await readZip(writeZip(files));
+        expect([...entries.keys()]).toEqual(files.map(f => f.name));
+        files.forEach(f => expect(entries.get(f.name)).toEqual(f.data));
+    });
+
+    it('descomprime entradas com deflate (método 8)', async () => {
+        const original = encoder.encode('Art. 5º Todos são iguais perante a lei. '.repeat(50));
+        const compressed = await deflateRaw(original);
+        const zip = writeZip([{ name: 'word/document.xml', data: compressed }]);
+        // writeZip grava sempre stored: troca o método para 8 no cabeçalho local e no central
+        const view = new DataView(zip.buffer);
+        const central = zip.length - 22 - (46 + 'word/document.xml'.length);
+        view.setUint16(8, 8, true);
+        view.setUint16(central + 10, 8, true);
+
+        const entries = await readZip(zip);
+        expect(decoder.decode(entries.get('word/document.xml'))).toBe(decoder.decode(original));
+    });
+
+    it('ignora diretórios e rejeita o que não é ZIP', async () => {
+        const entries = await readZip(writeZip([{ name: 'media/', data: new Uint8Array(0) }, { name: 'media/1', data: encoder.encode('x') }]));
+        expect([...entries.keys()]).toEqual(['media/1']);
+        await expect(readZip(encoder.encode('não sou um zip, só texto qualquer'))).rejects.toThrow('ZIP válido');
+    });
+});
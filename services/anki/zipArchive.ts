@@ -0,0 +1,142 @@
+/**
+ * ZIP mínimo (pacotes do Anki, DOCX, XLSX).
+ * Leitura: métodos 0 (stored) e 8 (deflate, via DecompressionStream do navegador).
+ * Escrita: sempre stored (o Anki aceita, e o conteúdo já é SQLite/mídia).
+ * Sem ZIP64: pacotes acima de 4 GB não são suportados.
+ */
+
+const SIG_LOCAL = 0x04034b50;
+const SIG_CENTRAL = 0x02014b50;
+const SIG_END = 0x06054b50;
+const UTF8_FLAG = 0x0800;
+
+const CRC_TABLE = (() => {
+    const table = new Uint32Array(256);
+    for (let n = 0; n < 256; n++) {
+        let c = n;
+        for (let k = 0; k < 8; k++) c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+        table[n] = c >>> 0;
+    }
+    return table;
+})();
+
+export const crc32 = (data: Uint8Array): number => {
+    let crc = 0xffffffff;
+    for (let i = 0; i < data.length; i++) crc = CRC_TABLE[(crc ^ data[i]) & 0xff] ^ (crc >>> 8);
+    return (crc ^ 0xffffffff) >>> 0;
+};
+
+/** Deflate via DecompressionStream: 'deflate-raw' (ZIP) ou 'deflate' (zlib, streams de PDF). */
+export const inflate = async (data: Uint8Array, format: 'deflate' | 'deflate-raw' = 'deflate-raw'): Promise<Uint8Array> => {
+    if (typeof DecompressionStream === 'undefined') {
+        throw new Error('Este navegador não suporta descompressão (DecompressionStream).');
+    }
+    const stream = new Blob([data as BlobPart]).stream().pipeThrough(new DecompressionStream(format));
+    return new Uint8Array(await new Response(stream).arrayBuffer());
+};
+
+/** Lê todas as entradas (arquivos) do ZIP. Diretórios são ignorados. */
+export const readZip = async (buffer: ArrayBuffer | Uint8Array): Promise<Map<string, Uint8Array>> => {
+    const bytes = buffer instanceof Uint8Array ? buffer : new Uint8Array(buffer);
+    const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+
+    // O registro final fica nos últimos 22 bytes + comentário (até 64 KB)
+    let end = -1;
+    for (let i = bytes.length - 22; i >= Math.max(0, bytes.length - 22 - 0xffff); i--) {
+        if (view.getUint32(i, true) === SIG_END) { end = i; break; }
+    }
+    if (end < 0) throw new Error('Arquivo não é um ZIP válido.');
+
+    const count = view.getUint16(end + 10, true);
+    let offset = view.getUint32(end + 16, true);
+    const decoder = new TextDecoder();
+    const entries = new Map<string, Uint8Array>();
+
+    for (let i = 0; i < count; i++) {
+        if (view.getUint32(offset, true) !== SIG_CENTRAL) throw new Error('Diretório central do ZIP corrompido.');
+        const method = view.getUint16(offset + 10, true);
+        const compressedSize = view.getUint32(offset + 20, true);
+        const nameLength = view.getUint16(offset + 28, true);
+        const extraLength = view.getUint16(offset + 30, true);
+        const commentLength = view.getUint16(offset + 32, true);
+        const localOffset = view.getUint32(offset + 42, true);
+        const name = decoder.decode(bytes.subarray(offset + 46, offset + 46 + nameLength));
+        offset += 46 + nameLength + extraLength + commentLength;
+
+        if (name.endsWith('/')) continue;
+        if (view.getUint32(localOffset, true) !== SIG_LOCAL) throw new Error(`Entrada "${name}" corrompida no ZIP.`);
+        const dataStart = localOffset + 30 + view.getUint16(localOffset + 26, true) + view.getUint16(localOffset + 28, true);
+        const raw = bytes.subarray(dataStart, dataStart + compressedSize);
+
+        if (method === 0) entries.set(name, raw.slice());
+        else if (method === 8) entries.set(name, await inflate(raw));
+        else throw new Error(`Compressão ZIP não suportada (método ${method}) em "${name}".`);
+    }
+
+    return entries;
+};
+
+/** Monta um ZIP (stored) com as entradas na ordem dada. */
+export const writeZip = (files: { name: string; data: Uint8Array }[]): Uint8Array => {
+    const encoder = new TextEncoder();
+    const now = new Date();
+    const dosTime = (now.getHours() << 11) | (now.getMinutes() << 5) | Math.floor(now.getSeconds() / 2);
+    const dosDate = ((now.getFullYear() - 1980) << 9) | ((now.getMonth() + 1) << 5) | now.getDate();
+
+    const locals: Uint8Array[] = [];
+    const centrals: Uint8Array[] = [];
+    let offset = 0;
+
+    files.forEach(file => {
+        const name = encoder.encode(file.name);
+        const crc = crc32(file.data);
+
+        const local = new Uint8Array(30 + name.length);
+        const lv = new DataView(local.buffer);
+        lv.setUint32(0, SIG_LOCAL, true);
+        lv.setUint16(4, 20, true);
+        lv.setUint16(6, UTF8_FLAG, true);
+        lv.setUint16(8, 0, true);
+        lv.setUint16(10, dosTime, true);
+        lv.setUint16(12, dosDate, true);
+        lv.setUint32(14, crc, true);
+        lv.setUint32(18, file.data.length, true);
+        lv.setUint32(22, file.data.length, true);
+        lv.setUint16(26, name.length, true);
+        local.set(name, 30);
+
+        const central = new Uint8Array(46 + name.length);
+        const cv = new DataView(central.buffer);
+        cv.setUint32(0, SIG_CENTRAL, true);
+        cv.setUint16(4, 20, true);
+        cv.setUint16(6, 20, true);
+        cv.setUint16(8, UTF8_FLAG, true);
+        cv.setUint16(10, 0, true);
+        cv.setUint16(12, dosTime, true);
+        cv.setUint16(14, dosDate, true);
+        cv.setUint32(16, crc, true);
+        cv.setUint32(20, file.data.length, true);
+        cv.setUint32(24, file.data.length, true);
+        cv.setUint16(28, name.length, true);
+        cv.setUint32(42, offset, true);
+        central.set(name, 46);
+
+        locals.push(local, file.data);
+        centrals.push(central);
+        offset += local.length + file.data.length;
+    });
+
+    const centralSize = centrals.reduce((sum, c) => sum + c.length, 0);
+    const end = new Uint8Array(22);
+    const ev = new DataView(end.buffer);
+    ev.setUint32(0, SIG_END, true);
+    ev.setUint16(8, files.length, true);
+    ev.setUint16(10, files.length, true);
+    ev.setUint32(12, centralSize, true);
+    ev.setUint32(16, offset, true);
+
+    const out = new Uint8Array(offset + centralSize + end.length);
+    let pos = 0;
+    [...locals, ...centrals, end].forEach(part => { out.set(part, pos); pos += part.length; });
+    return out;
+};
@@ -0,0 +1,107 @@
+import { describe, it, expect } from 'vitest';
+import { BackupStores, buildChainLink, ChainedBackup, flattenStores, isChainedBackup, resolveChain, unflattenRecords } from './backupChain';
+
+const stores = (overrides: Partial<BackupStores> = {}): BackupStores => ({
+    nucleus: [{ id: 'cf_art5', lawId: 'CF', text: 'Art. 5º' }],
+    content: [],
+    progress: [{ pk: 'p1', itemId: 'q1', mastery: 10 }],
+    keyval: {
+        revApp_questions_v5_react: [{ id: 'q1', subject: 'Penal' }, { id: 'q2', subject: 'Civil' }],
+        revApp_settings: { theme: 'dark' },
+    },
+    media: [],
+    ...overrides,
+});
+
+/** Gera a cadeia FULL → INCREMENTAL → ... a partir de estados sucessivos. */
+const buildChain = async (states: BackupStores[]): Promise<ChainedBackup[]> => {
+    const links: ChainedBackup[] = [];
+    let previous = null;
+    for (const state of states) {
+        const { backup, state: next } = await buildChainLink(state, previous);
+        links.push(backup);
+        previous = next;
+    }
+    return links;
+};
+
+describe('flattenStores / unflattenRecords', () => {
+    it('explode as coleções do keyval por id e remonta o mesmo conteúdo', () => {
+        const original = stores();
+        const records = flattenStores(original);
+        expect([...records.keys()].sort()).toEqual([
+            'keyval|revApp_questions_v5_react#q1',
+            'keyval|revApp_questions_v5_react#q2',
+            'keyval|revApp_settings',
+            'nucleus|cf_art5',
+            'progress|p1',
+        ]);
+        expect(unflattenRecords(records)).toEqual(original);
+    });
+});
+
+describe('buildChainLink', () => {
+    it('o primeiro elo é FULL e os seguintes levam só o que mudou', async () => {
+        const changed = stores({ progress: [{ pk: 'p1', itemId: 'q1', mastery: 40 }] });
+        changed.keyval = { ...changed.keyval, revApp_questions_v5_react: [{ id: 'q1', subject: 'Penal' }] };
+        const [full, incremental] = await buildChain([stores(), changed]);
+
+        expect(isChainedBackup(full)).toBe(true);
+        expect(full.manifest).toMatchObject({ kind: 'FULL', sequence: 0, parentId: null, stats: { upserts: 5, removed: 0, total: 5 } });
+        expect(incremental.manifest).toMatchObject({ kind: 'INCREMENTAL', sequence: 1, parentId: full.manifest.id, chainId: full.manifest.chainId });
+        expect(Object.keys(incremental.changes.upserts)).toEqual(['progress|p1']);
+        expect(incremental.changes.removed).toEqual(['keyval|revApp_questions_v5_react#q2']);
+    });
+
+    it('forceFull inicia uma nova cadeia', async () => {
+        const { state } = await buildChainLink(stores(), null);
+        const { backup } = await buildChainLink(stores(), state, true);
+        expect(backup.manifest.kind).toBe('FULL');
+        expect(backup.manifest.chainId).not.toBe(state.chainId);
+    });
+});
+
+describe('resolveChain', () => {
+    const states = () => {
+        const second = stores({ progress: [{ pk: 'p1', itemId: 'q1', mastery: 40 }] });
+        const third = stores({ progress: [], nucleus: [{ id: 'cf_art5', lawId: 'CF', text: 'Art. 5º (alterado)' }] });
+        return [stores(), second, third];
+    };
+
+    it('reconstrói o estado do último elo, em qualquer ordem de arquivos', async () => {
+        const chain = await buildChain(states());
+        const { stores: restored, links, errors } = await resolveChain([chain[2], chain[0], chain[1]]);
+        expect(errors).toEqual([]);
+        expect(links.map(l => l.sequence)).toEqual([0, 1, 2]);
+        expect(restored).toEqual(unflattenRecords(flattenStores(states()[2])));
+    });
+
+    it('sem o elo base, nada é restaurado', async () => {
+        const chain = await buildChain(states());
+        const result = await resolveChain([chain[1], chain[2]]);
+        expect(result.links).toEqual([]);
+        expect(result.errors[0]).toContain('não é um backup FULL');
+    });
+
+    it('elo faltando no meio: restaura até o último elo contínuo', async () => {
+        const chain = await buildChain(states());
+        const { stores: restored, links, errors } = await resolveChain([chain[0], chain[2]]);
+        expect(links.map(l => l.sequence)).toEqual([0]);
+        expect(errors[0]).toContain('falta o elo #1');
+        expect(restored).toEqual(unflattenRecords(flattenStores(states()[0])));
+    });
+
+    it('rejeita elo editado (checksum) e elo de outra cadeia', async () => {
+        const chain = await buildChain(states());
+        const tampered = { ...chain[1], changes: { ...chain[1].changes, upserts: { 'progress|p1': { pk: 'p1', itemId: 'q1', mastery: 100 } } } };
+        const [foreign] = await buildChain([stores()]);
+        const foreignLink = { ...foreign, manifest: { ...foreign.manifest, kind: 'INCREMENTAL' as const, sequence: 1 } };
+
+        const result = await resolveChain([chain[0], foreignLink, tampered]);
+        expect(result.links.map(l => l.sequence)).toEqual([0]);
+        expect(result.errors).toEqual([
+            expect.stringContaining('outra cadeia'),
+            expect.stringContaining('Checksum inválido no elo #1'),
+        ]);
+    });
+});
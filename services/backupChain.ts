@@ -0,0 +1,233 @@
+import * as storage from './storage';
+import { hashValue, sha256Hex } from './checksum';
+import type { FullBackup } from './backupService';
+
+/**
+ * BACKUP INCREMENTAL (CADEIA)
+ *
+ * Um elo FULL guarda todos os registros; cada elo INCREMENTAL guarda apenas o que mudou
+ * (upserts/removidos) desde o elo anterior. O manifesto de cada elo traz:
+ * - parentId: elo anterior (a cadeia é validada na restauração);
+ * - payloadChecksum: SHA-256 das mudanças (arquivo corrompido/editado é rejeitado);
+ * - recordChecksums: hash de cada registro do estado completo após aplicar o elo.
+ */
+
+export const CHAIN_BACKUP_VERSION = 3;
+const CHAIN_STATE_KEY = 'miaaula_backup_chain';
+
+export type BackupStores = FullBackup['stores'];
+
+export interface BackupManifest {
+    id: string;
+    chainId: string;
+    kind: 'FULL' | 'INCREMENTAL';
+    sequence: number;
+    parentId: string | null;
+    timestamp: string;
+    payloadChecksum: string;
+    recordChecksums: Record<string, string>;
+    stats: { upserts: number; removed: number; total: number };
+}
+
+export interface ChainedBackup {
+    meta: {
+        version: number;
+        timestamp: string;
+        appName: string;
+        format: 'CHAIN';
+    };
+    manifest: BackupManifest;
+    changes: {
+        upserts: Record<string, any>;
+        removed: string[];
+    };
+}
+
+export interface ChainState {
+    chainId: string;
+    lastId: string;
+    sequence: number;
+    recordChecksums: Record<string, string>;
+}
+
+export interface ChainResolution {
+    stores: BackupStores;
+    links: BackupManifest[];
+    errors: string[];
+}
+
+// --- REGISTROS ---
+// Mesmo esquema de chaves da sincronização: coleções do keyval são explodidas por id.
+
+const COLLECTION_KEYS = ['revApp_questions_v5_react', 'revApp_flashcards_v1'];
+const STORE_PKS: Record<'nucleus' | 'content' | 'progress' | 'media', string> = { nucleus: 'id', content: 'id', progress: 'pk', media: 'hash' };
+
+export const isChainedBackup = (raw: any): raw is ChainedBackup =>
+    !!raw && raw.meta?.format === 'CHAIN' && !!raw.manifest && !!raw.changes;
+
+export const flattenStores = (stores: BackupStores): Map<string, any> => {
+    const records = new Map<string, any>();
+
+    (Object.keys(STORE_PKS) as (keyof typeof STORE_PKS)[]).forEach(store => {
+        const pk = STORE_PKS[store];
+        (stores[store] || []).forEach(item => {
+            if (item && item[pk] !== undefined) records.set(`${store}|${item[pk]}`, item);
+        });
+    });
+
+    Object.entries(stores.keyval || {}).forEach(([key, value]) => {
+        if (COLLECTION_KEYS.includes(key) && Array.isArray(value)) {
+            value.forEach(item => {
+                if (item && item.id !== undefined) records.set(`keyval|${key}#${item.id}`, item);
+            });
+        } else if (value !== null && value !== undefined) {
+            records.set(`keyval|${key}`, value);
+        }
+    });
+
+    return records;
+};
+
+export const unflattenRecords = (records: Map<string, any>): BackupStores => {
+    const stores: BackupStores = { nucleus: [], content: [], progress: [], keyval: {}, media: [] };
+
+    records.forEach((value, key) => {
+        const sep = key.indexOf('|');
+        const head = key.slice(0, sep);
+        const rest = key.slice(sep + 1);
+
+        if (head === 'keyval') {
+            const hash = rest.indexOf('#');
+            if (hash >= 0) {
+                const collection = rest.slice(0, hash);
+                stores.keyval[collection] = [...(stores.keyval[collection] || []), value];
+            } else {
+                stores.keyval[rest] = value;
+            }
+        } else if (head in STORE_PKS) {
+            stores[head as keyof typeof STORE_PKS].push(value);
+        }
+    });
+
+    return stores;
+};
+
+const checksumsOf = (records: Map<string, any>): Record<string, string> => {
+    const checksums: Record<string, string> = {};
+    records.forEach((value, key) => { checksums[key] = hashValue(value); });
+    return checksums;
+};
+
+// --- CRIAÇÃO ---
+
+const newBackupId = (): string => `bk_${Date.now().toString(36)}${Math.random().toString(36).substring(2, 6)}`;
+
+/**
+ * Gera o próximo elo da cadeia a partir do estado atual.
+ * Sem cadeia anterior (ou com `forceFull`), gera um elo FULL e inicia nova cadeia.
+ */
+export const buildChainLink = async (
+    current: BackupStores,
+    previous: ChainState | null,
+    forceFull = false
+): Promise<{ backup: ChainedBackup; state: ChainState }> => {
+    const records = flattenStores(current);
+    const recordChecksums = checksumsOf(records);
+    const isFull = forceFull || !previous;
+
+    const upserts: Record<string, any> = {};
+    const removed: string[] = [];
+
+    records.forEach((value, key) => {
+        if (isFull || previous!.recordChecksums[key] !== recordChecksums[key]) upserts[key] = value;
+    });
+    if (!isFull) {
+        Object.keys(previous!.recordChecksums).forEach(key => {
+            if (!records.has(key)) removed.push(key);
+        });
+    }
+
+    const id = newBackupId();
+    const timestamp = new Date().toISOString();
+    const changes = { upserts, removed };
+
+    const manifest: BackupManifest = {
+        id,
+        chainId: isFull ? id : previous!.chainId,
+        kind: isFull ? 'FULL' : 'INCREMENTAL',
+        sequence: isFull ? 0 : previous!.sequence + 1,
+        parentId: isFull ? null : previous!.lastId,
+        timestamp,
+        payloadChecksum: await sha256Hex(changes),
+        recordChecksums,
+        stats: { upserts: Object.keys(upserts).length, removed: removed.length, total: records.size }
+    };
+
+    return {
+        backup: {
+            meta: { version: CHAIN_BACKUP_VERSION, timestamp, appName: 'Miaaula', format: 'CHAIN' },
+            manifest,
+            changes
+        },
+        state: { chainId: manifest.chainId, lastId: id, sequence: manifest.sequence, recordChecksums }
+    };
+};
+
+export const loadChainState = (): Promise<ChainState | null> => storage.loadData<ChainState>(CHAIN_STATE_KEY);
+
+export const saveChainState = (state: ChainState): Promise<void> => storage.saveData(CHAIN_STATE_KEY, state);
+
+// --- RESTAURAÇÃO ---
+
+/**
+ * Ordena e valida os elos (mesma cadeia, sequência contínua, parentId, checksums)
+ * e reconstrói o estado completo do último elo válido.
+ */
+export const resolveChain = async (files: ChainedBackup[]): Promise<ChainResolution> => {
+    const errors: string[] = [];
+    if (files.length === 0) return { stores: unflattenRecords(new Map()), links: [], errors: ['Nenhum arquivo de cadeia informado.'] };
+
+    const sorted = [...files].sort((a, b) => a.manifest.sequence - b.manifest.sequence);
+    const base = sorted[0];
+    if (base.manifest.kind !== 'FULL') {
+        errors.push(`O primeiro elo (#${base.manifest.sequence}) não é um backup FULL. Selecione também o backup base da cadeia.`);
+        return { stores: unflattenRecords(new Map()), links: [], errors };
+    }
+
+    let records = new Map<string, any>();
+    const links: BackupManifest[] = [];
+
+    for (const file of sorted) {
+        const m = file.manifest;
+        const prev = links[links.length - 1];
+
+        if (m.chainId !== base.manifest.chainId) {
+            errors.push(`Elo ${m.id} pertence a outra cadeia e foi ignorado.`);
+            continue;
+        }
+        if (prev && (m.parentId !== prev.id || m.sequence !== prev.sequence + 1)) {
+            errors.push(`Cadeia interrompida antes do elo #${m.sequence}: falta o elo #${prev.sequence + 1}.`);
+            break;
+        }
+        if (await sha256Hex(file.changes) !== m.payloadChecksum) {
+            errors.push(`Checksum inválido no elo #${m.sequence} (arquivo corrompido ou editado).`);
+            break;
+        }
+
+        // Aplica numa cópia: um elo inconsistente não contamina o estado do elo anterior
+        const next = new Map(records);
+        Object.entries(file.changes.upserts).forEach(([key, value]) => next.set(key, value));
+        file.changes.removed.forEach(key => next.delete(key));
+
+        const mismatched = Object.keys(m.recordChecksums).filter(key => hashValue(next.get(key)) !== m.recordChecksums[key]);
+        if (mismatched.length > 0 || next.size !== Object.keys(m.recordChecksums).length) {
+            errors.push(`Estado reconstruído no elo #${m.sequence} diverge do manifesto (${mismatched.length} registro(s)).`);
+            break;
+        }
+
+        records = next;
+        links.push(m);
+    }
+
+    return { stores: unflattenRecords(records), links, errors };
+};
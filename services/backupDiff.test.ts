@@ -0,0 +1,46 @@
+import { describe, it, expect } from 'vitest';
+import { BackupStores } from './backupChain';
+import { diffBackupStores, matchesFilter, SelectiveRestoreFilter } from './backupDiff';
+
+const stores = (questions: any[]): BackupStores => ({
+    nucleus: [{ id: 'cf_art5', lawId: 'CF', article: 'Art. 5º', topic: 'Direitos' }],
+    content: [],
+    progress: [],
+    keyval: { revApp_questions_v5_react: questions, revApp_settings: { theme: 'dark' } },
+    media: [],
+});
+
+describe('diffBackupStores', () => {
+    const backup = stores([
+        { id: 'q1', subject: 'Constitucional', lawRef: 'CF_ART5', questionRef: 'Q1', masteryScore: 80 },
+        { id: 'q2', subject: 'Penal', questionRef: 'Q2' },
+    ]);
+    const current = stores([
+        { id: 'q1', subject: 'Constitucional', lawRef: 'CF_ART5', questionRef: 'Q1', masteryScore: 20 },
+        { id: 'q3', subject: 'Penal', questionRef: 'Q3' },
+    ]);
+    current.keyval.revApp_settings = { theme: 'light' };
+
+    it('classifica cada registro e agrupa por disciplina, litRef e lei', () => {
+        const diff = diffBackupStores(backup, current);
+        const byKey = Object.fromEntries(diff.changes.map(c => [c.key, c]));
+
+        expect(byKey['keyval|revApp_questions_v5_react#q1']).toMatchObject({ kind: 'changed', group: 'questions', litRef: 'cf_art5', lawId: 'CF', changedFields: ['masteryScore'] });
+        expect(byKey['keyval|revApp_questions_v5_react#q2']).toMatchObject({ kind: 'added', label: 'Q2' });
+        expect(byKey['keyval|revApp_questions_v5_react#q3']).toMatchObject({ kind: 'removed' });
+        expect(byKey['keyval|revApp_settings']).toMatchObject({ kind: 'changed', group: 'settings' });
+        expect(diff.byGroup.questions).toEqual({ added: 1, changed: 1, removed: 1 });
+        expect(diff.bySubject).toMatchObject({ Constitucional: 1, Penal: 2 });
+        expect(diff.byLaw).toEqual({ CF: 1 });
+        expect(diff.unchanged).toBe(1);
+    });
+
+    it('filtro de progresso só aceita alterações de itens existentes', () => {
+        const diff = diffBackupStores(backup, current);
+        const filter: SelectiveRestoreFilter = { groups: ['questions', 'settings'], kinds: ['added', 'changed', 'removed'], progressOnly: true };
+        expect(diff.changes.filter(c => matchesFilter(c, filter)).map(c => c.key)).toEqual(['keyval|revApp_questions_v5_react#q1']);
+
+        const bySubject: SelectiveRestoreFilter = { groups: ['questions'], kinds: ['added', 'removed'], subjects: ['Penal'] };
+        expect(diff.changes.filter(c => matchesFilter(c, bySubject)).map(c => c.kind).sort()).toEqual(['added', 'removed']);
+    });
+});
@@ -0,0 +1,264 @@
+import * as storage from './storage';
+import { hashValue } from './checksum';
+import { canonicalizeLitRef } from './srsService';
+import { BackupStores, flattenStores } from './backupChain';
+import { collectMediaRefs, mediaFromBackupEntry } from './media/mediaStore';
+
+/**
+ * PRÉVIA E RESTAURAÇÃO SELETIVA
+ * Compara um backup com os dados atuais registro a registro e permite restaurar
+ * apenas parte dele (por grupo, disciplina, lei ou litRef) sem factoryReset.
+ */
+
+export type BackupGroup = 'nucleus' | 'content' | 'progress' | 'questions' | 'flashcards' | 'settings' | 'media';
+export type BackupChangeKind = 'added' | 'changed' | 'removed';
+
+export const BACKUP_GROUP_LABELS: Record<BackupGroup, string> = {
+    nucleus: 'Lei Seca (Núcleos)',
+    content: 'Conteúdo vinculado',
+    progress: 'Progresso',
+    questions: 'Questões',
+    flashcards: 'Flashcards',
+    settings: 'Configurações',
+    media: 'Mídia'
+};
+
+// Campos de estado de estudo: restaurados no modo "apenas progresso"
+const PROGRESS_FIELDS = [
+    'attemptHistory', 'totalAttempts', 'masteryScore', 'masteryHistory', 'stability', 'difficulty',
+    'nextReviewDate', 'lastReviewedAt', 'lastAttemptDate', 'lastWasCorrect', 'correctStreak',
+    'errorCount', 'lastGrade', 'siblingStates', 'srsStage', 'srsVersion', 'lapses', 'recentError',
+    'timeSec', 'selfEvalLevel', 'yourAnswer', 'dominioLevel', 'pairMatchPlayed', 'cycleProgress'
+];
+
+export interface BackupChange {
+    key: string;
+    group: BackupGroup;
+    kind: BackupChangeKind;
+    label: string;
+    subject: string;
+    litRef: string;
+    lawId: string;
+    changedFields: string[];
+}
+
+export interface BackupGroupSummary {
+    added: number;
+    changed: number;
+    removed: number;
+}
+
+export interface BackupDiff {
+    changes: BackupChange[];
+    byGroup: Record<BackupGroup, BackupGroupSummary>;
+    bySubject: Record<string, number>;
+    byLitRef: Record<string, number>;
+    byLaw: Record<string, number>;
+    unchanged: number;
+}
+
+export interface SelectiveRestoreFilter {
+    groups: BackupGroup[];
+    kinds: BackupChangeKind[];
+    subjects?: string[];
+    litRefs?: string[];
+    lawIds?: string[];
+    progressOnly?: boolean;
+}
+
+const NO_SUBJECT = '(sem disciplina)';
+const NO_LITREF = '(sem litRef)';
+
+const groupOf = (key: string): BackupGroup => {
+    if (key.startsWith('nucleus|')) return 'nucleus';
+    if (key.startsWith('content|')) return 'content';
+    if (key.startsWith('progress|')) return 'progress';
+    if (key.startsWith('media|')) return 'media';
+    if (key.startsWith('keyval|revApp_questions_v5_react#')) return 'questions';
+    if (key.startsWith('keyval|revApp_flashcards_v1#')) return 'flashcards';
+    return 'settings';
+};
+
+const describe = (key: string, value: any, lawByLitRef: Map<string, string>) => {
+    const group = groupOf(key);
+    const item = group === 'content' ? (value?.payload || value) : value;
+    let litRef = '';
+    let subject = '';
+    let label = key.slice(key.indexOf('|') + 1);
+
+    if (group === 'nucleus') {
+        litRef = canonicalizeLitRef(value?.id);
+        subject = value?.topic || '';
+        label = `${value?.lawId || ''} ${value?.article || ''}`.trim() || label;
+    } else if (group === 'progress') {
+        litRef = canonicalizeLitRef(value?.litRef);
+        label = value?.itemId || label;
+    } else if (group === 'media') {
+        label = `${value?.type || 'arquivo'} · ${Math.ceil((value?.size || 0) / 1024)} KB`;
+    } else if (group !== 'settings') {
+        litRef = canonicalizeLitRef(value?.litRef || item?.lawRef || item?.litRef);
+        subject = item?.subject || item?.discipline || '';
+        label = item?.questionRef || item?.front || item?.questionText || label;
+    }
+
+    const lawId = (group === 'nucleus' ? value?.lawId : lawByLitRef.get(litRef)) || '';
+    return { group, litRef, subject, lawId, label: String(label).slice(0, 80) };
+};
+
+const changedTopLevelFields = (a: any, b: any): string[] => {
+    if (!a || !b || typeof a !== 'object' || typeof b !== 'object') return [];
+    const source = a.payload && b.payload ? [a.payload, b.payload] : [a, b];
+    return Array.from(new Set([...Object.keys(source[0]), ...Object.keys(source[1])]))
+        .filter(field => hashValue(source[0][field]) !== hashValue(source[1][field]));
+};
+
+const emptyGroups = (): Record<BackupGroup, BackupGroupSummary> => ({
+    nucleus: { added: 0, changed: 0, removed: 0 },
+    content: { added: 0, changed: 0, removed: 0 },
+    progress: { added: 0, changed: 0, removed: 0 },
+    questions: { added: 0, changed: 0, removed: 0 },
+    flashcards: { added: 0, changed: 0, removed: 0 },
+    settings: { added: 0, changed: 0, removed: 0 },
+    media: { added: 0, changed: 0, removed: 0 }
+});
+
+/**
+ * Diferença do backup em relação aos dados atuais:
+ * added = só no backup, removed = só no atual, changed = conteúdo diferente.
+ */
+export const diffBackupStores = (backup: BackupStores, current: BackupStores): BackupDiff => {
+    const backupRecords = flattenStores(backup);
+    const currentRecords = flattenStores(current);
+
+    const lawByLitRef = new Map<string, string>();
+    [...current.nucleus, ...backup.nucleus].forEach(card => {
+        if (card?.id && card?.lawId) lawByLitRef.set(canonicalizeLitRef(card.id), card.lawId);
+    });
+
+    const diff: BackupDiff = { changes: [], byGroup: emptyGroups(), bySubject: {}, byLitRef: {}, byLaw: {}, unchanged: 0 };
+
+    const push = (key: string, kind: BackupChangeKind, value: any, changedFields: string[] = []) => {
+        const info = describe(key, value, lawByLitRef);
+        diff.changes.push({ key, kind, changedFields, ...info });
+        diff.byGroup[info.group][kind]++;
+        const subject = info.subject || NO_SUBJECT;
+        const litRef = info.litRef || NO_LITREF;
+        diff.bySubject[subject] = (diff.bySubject[subject] || 0) + 1;
+        diff.byLitRef[litRef] = (diff.byLitRef[litRef] || 0) + 1;
+        if (info.lawId) diff.byLaw[info.lawId] = (diff.byLaw[info.lawId] || 0) + 1;
+    };
+
+    backupRecords.forEach((value, key) => {
+        const existing = currentRecords.get(key);
+        if (existing === undefined) push(key, 'added', value);
+        else if (hashValue(existing) !== hashValue(value)) push(key, 'changed', value, changedTopLevelFields(existing, value));
+        else diff.unchanged++;
+    });
+    currentRecords.forEach((value, key) => {
+        if (!backupRecords.has(key)) push(key, 'removed', value);
+    });
+
+    return diff;
+};
+
+export const matchesFilter = (change: BackupChange, filter: SelectiveRestoreFilter): boolean => {
+    if (!filter.groups.includes(change.group)) return false;
+    if (!filter.kinds.includes(change.kind)) return false;
+    if (filter.subjects?.length && !filter.subjects.includes(change.subject || NO_SUBJECT)) return false;
+    if (filter.litRefs?.length && !filter.litRefs.includes(change.litRef || NO_LITREF)) return false;
+    if (filter.lawIds?.length && !filter.lawIds.includes(change.lawId)) return false;
+    if (filter.progressOnly && change.group === 'settings') return false;
+    // Modo progresso não cria nem apaga itens de conteúdo, só atualiza o estado de estudo
+    if (filter.progressOnly && change.kind !== 'changed' && change.group !== 'progress') return false;
+    return true;
+};
+
+const pickProgress = (current: any, fromBackup: any): any => {
+    const next = { ...current };
+    PROGRESS_FIELDS.forEach(field => {
+        if (fromBackup[field] === undefined) delete next[field];
+        else next[field] = fromBackup[field];
+    });
+    return next;
+};
+
+const resolveValue = (change: BackupChange, backupValue: any, currentValue: any, progressOnly: boolean): any => {
+    if (!progressOnly || change.group === 'progress' || currentValue === undefined) return backupValue;
+    if (change.group === 'content' && currentValue.payload && backupValue.payload) {
+        return { ...currentValue, payload: pickProgress(currentValue.payload, backupValue.payload) };
+    }
+    return pickProgress(currentValue, backupValue);
+};
+
+/**
+ * Aplica somente as mudanças selecionadas, preservando todo o resto dos dados atuais.
+ */
+export const applySelectiveRestore = async (
+    backup: BackupStores,
+    current: BackupStores,
+    diff: BackupDiff,
+    filter: SelectiveRestoreFilter
+): Promise<{ applied: number }> => {
+    const selected = diff.changes.filter(c => matchesFilter(c, filter));
+    const backupRecords = flattenStores(backup);
+    const currentRecords = flattenStores(current);
+
+    const storePuts: Record<string, any[]> = {};
+    const storeDeletes: { store: string; id: string }[] = [];
+    const collectionOps: Record<string, { id: string; value?: any }[]> = {};
+    const documents: Record<string, any> = {};
+    const mediaPuts = new Map<string, any>();
+
+    selected.forEach(change => {
+        const sep = change.key.indexOf('|');
+        const head = change.key.slice(0, sep);
+        const rest = change.key.slice(sep + 1);
+        const value = change.kind === 'removed'
+            ? undefined
+            : resolveValue(change, backupRecords.get(change.key), currentRecords.get(change.key), !!filter.progressOnly);
+
+        if (head === 'media') {
+            // Mídia sobrando no aparelho fica para a coleta de lixo: pode estar em uso por registros não restaurados
+            if (value !== undefined) mediaPuts.set(rest, value);
+            return;
+        }
+        if (head !== 'keyval') {
+            if (value === undefined) storeDeletes.push({ store: head, id: rest });
+            else (storePuts[head] = storePuts[head] || []).push(value);
+            return;
+        }
+
+        const hash = rest.indexOf('#');
+        if (hash >= 0) {
+            const collection = rest.slice(0, hash);
+            (collectionOps[collection] = collectionOps[collection] || []).push({ id: rest.slice(hash + 1), value });
+        } else if (value !== undefined) {
+            documents[rest] = value;
+        }
+    });
+
+    // Registros restaurados trazem junto a mídia que referenciam, mesmo sem o grupo "Mídia" marcado
+    const referenced = collectMediaRefs([storePuts, collectionOps, documents]);
+    referenced.forEach(hash => {
+        const entry = backupRecords.get(`media|${hash}`);
+        if (entry && !mediaPuts.has(hash) && !currentRecords.has(`media|${hash}`)) mediaPuts.set(hash, entry);
+    });
+    if (mediaPuts.size > 0) await storage.bulkPutToStore(storage.STORES.MEDIA, Array.from(mediaPuts.values()).map(mediaFromBackupEntry));
+
+    for (const store of Object.keys(storePuts)) await storage.bulkPutToStore(store, storePuts[store]);
+    for (const { store, id } of storeDeletes) await storage.dbDelete(store, id);
+
+    for (const key of Object.keys(collectionOps)) {
+        const items = (await storage.loadData<any[]>(key)) || [];
+        const byId = new Map<string, any>(items.map(item => [String(item.id), item]));
+        collectionOps[key].forEach(op => {
+            if (op.value === undefined) byId.delete(op.id);
+            else byId.set(op.id, op.value);
+        });
+        await storage.saveData(key, Array.from(byId.values()));
+    }
+
+    for (const key of Object.keys(documents)) await storage.saveData(key, documents[key]);
+
+    return { applied: selected.length };
+};
@@ -1,6 +1,9 @@
 
 import * as storage from './storage';
 import { factoryReset } from './storage';
+import { buildChainLink, ChainedBackup, ChainResolution, ChainState, isChainedBackup, loadChainState, resolveChain, saveChainState } from './backupChain';
+import { applySelectiveRestore, BackupDiff, diffBackupStores, SelectiveRestoreFilter } from './backupDiff';
+import { exportMediaForBackup, mediaFromBackupEntry, MediaBackupEntry } from './media/mediaStore';
 
 // Schema Version ensures future compatibility
 const BACKUP_SCHEMA_VERSION = 2;
@@ -16,6 +19,7 @@ export interface FullBackup {
         content: any[];
         progress: any[];
         keyval: Record<string, any>; // Legacy LocalStorage shim items
+        media: MediaBackupEntry[]; // Um arquivo por entrada; os registros só guardam `media:<hash>`
     };
 }
 
@@ -41,7 +45,8 @@ const normalizeBackupData = (raw: any): FullBackup['stores'] => {
         nucleus: [],
         content: [],
         progress: [],
-        keyval: {}
+        keyval: {},
+        media: []
     };
 
     // 3. Extract and Normalize 'Nucleus' (Lei Seca Cards)
@@ -54,6 +59,9 @@ const normalizeBackupData = (raw: any): FullBackup['stores'] => {
     // 5. Extract 'Progress'
     if (candidate.progress) stores.progress = asArray(candidate.progress);
 
+    // 5b. Extract 'Media' (backups anteriores não têm: a mídia estava em base64 nos registros)
+    if (candidate.media) stores.media = asArray(candidate.media);
+
     // 6. Extract 'KeyVal' (Legacy/Settings)
     if (candidate.keyval && typeof candidate.keyval === 'object') {
         stores.keyval = candidate.keyval;
@@ -87,6 +95,7 @@ export const backupService = {
         const nucleus = await storage.getAllFromStore<any>(storage.STORES.NUCLEUS);
         const content = await storage.getAllFromStore<any>(storage.STORES.CONTENT);
         const progress = await storage.getAllFromStore<any>(storage.STORES.PROGRESS);
+        const media = await exportMediaForBackup();
 
         // 2. Fetch Legacy/Settings Data (Key-Val Store)
         const keyvalData: Record<string, any> = {};
@@ -114,14 +123,67 @@ export const backupService = {
                 nucleus,
                 content,
                 progress,
-                keyval: keyvalData
+                keyval: keyvalData,
+                media
             }
         };
 
-        console.log(`[Backup] Completed. Nuclei: ${nucleus.length}, Content: ${content.length}, Keys: ${Object.keys(keyvalData).length}`);
+        console.log(`[Backup] Completed. Nuclei: ${nucleus.length}, Content: ${content.length}, Keys: ${Object.keys(keyvalData).length}, Media: ${media.length}`);
         return backup;
     },
 
+    /**
+     * Incremental backup: only records changed since the last link of the local chain.
+     * Starts a new chain (FULL link) when there is none or `forceFull` is set.
+     * The chain state is NOT saved here: call commitChainState once the file was produced,
+     * otherwise a failed export would leave the next link pointing to a missing parent.
+     */
+    async createIncrementalBackup(forceFull = false): Promise<{ backup: ChainedBackup; state: ChainState }> {
+        const current = await this.createFullBackup();
+        const previous = forceFull ? null : await loadChainState();
+        const { backup, state } = await buildChainLink(current.stores, previous, forceFull);
+        console.log(`[Backup] ${backup.manifest.kind} #${backup.manifest.sequence}: ${backup.manifest.stats.upserts} changed, ${backup.manifest.stats.removed} removed.`);
+        return { backup, state };
+    },
+
+    /** Advances the local chain to the link that was just exported. */
+    async commitChainState(state: ChainState): Promise<void> {
+        await saveChainState(state);
+    },
+
+    isChainedBackup,
+
+    /**
+     * Rebuilds the full state from chain links (base FULL + incrementals), validating checksums.
+     */
+    async resolveBackupChain(files: ChainedBackup[]): Promise<ChainResolution> {
+        return resolveChain(files);
+    },
+
+    /**
+     * Restore preview: diff of the backup against current data (nothing is written).
+     */
+    async previewRestore(backupData: any): Promise<BackupDiff> {
+        const current = await this.createFullBackup();
+        return diffBackupStores(normalizeBackupData(backupData), current.stores);
+    },
+
+    /**
+     * Applies only the selected part of a backup, keeping everything else (no factoryReset).
+     */
+    async restoreSelective(backupData: any, filter: SelectiveRestoreFilter): Promise<{ success: boolean; message: string }> {
+        try {
+            const stores = normalizeBackupData(backupData);
+            const current = (await this.createFullBackup()).stores;
+            const diff = diffBackupStores(stores, current);
+            const { applied } = await applySelectiveRestore(stores, current, diff, filter);
+            return { success: true, message: `Restauração seletiva concluída: ${applied} registro(s) aplicado(s).` };
+        } catch (e: any) {
+            console.error('[Restore] Selective restore failed:', e);
+            return { success: false, message: `Erro na restauração seletiva: ${e.message}` };
+        }
+    },
+
     /**
      * Simulates a restore process to validate data structure without applying changes.
      */
@@ -136,7 +198,8 @@ export const backupService = {
                 nucleus: stores.nucleus.length,
                 content: stores.content.length,
                 progress: stores.progress.length,
-                settingsKeys: Object.keys(stores.keyval).length
+                settingsKeys: Object.keys(stores.keyval).length,
+                media: stores.media.length
             };
 
             const totalItems = stats.nucleus + stats.content + stats.progress + stats.settingsKeys;
@@ -146,7 +209,7 @@ export const backupService = {
             }
 
             const time = (performance.now() - start).toFixed(2);
-            const report = `Simulação OK (${time}ms).\n\nEncontrado:\n- ${stats.nucleus} Artigos (Núcleos)\n- ${stats.content} Itens de Conteúdo (Q/FC)\n- ${stats.progress} Registros de Progresso\n- ${stats.settingsKeys} Arquivos de Configuração`;
+            const report = `Simulação OK (${time}ms).\n\nEncontrado:\n- ${stats.nucleus} Artigos (Núcleos)\n- ${stats.content} Itens de Conteúdo (Q/FC)\n- ${stats.progress} Registros de Progresso\n- ${stats.settingsKeys} Arquivos de Configuração\n- ${stats.media} Arquivos de Mídia`;
 
             return { valid: true, report, stats };
         } catch (e: any) {
@@ -230,6 +293,12 @@ export const backupService = {
                 await storage.bulkPutToStore(storage.STORES.PROGRESS, stores.progress);
             }
 
+            // 3b. Restore Media (antes dos registros que a referenciam)
+            if (stores.media.length > 0) {
+                console.log(`[Restore] Restoring ${stores.media.length} Media Files...`);
+                await storage.bulkPutToStore(storage.STORES.MEDIA, stores.media.map(mediaFromBackupEntry));
+            }
+
             // 4. Restore KeyVal (Settings, Legacy Questions, Trails)
             const keys = Object.keys(stores.keyval);
             if (keys.length > 0) {
@@ -0,0 +1,29 @@
+/**
+ * CHECKSUMS
+ * Serialização determinística (chaves ordenadas) para que o mesmo conteúdo
+ * gere sempre o mesmo hash, independente da ordem de inserção dos campos.
+ */
+
+export const stableStringify = (value: any): string => {
+    if (value === null || typeof value !== 'object') return JSON.stringify(value) ?? 'null';
+    if (Array.isArray(value)) return `[${value.map(stableStringify).join(',')}]`;
+    return `{${Object.keys(value).sort().filter(k => value[k] !== undefined).map(k => `${JSON.stringify(k)}:${stableStringify(value[k])}`).join(',')}}`;
+};
+
+// FNV-1a 32 bits: rápido, para detectar mudanças por registro (não é criptográfico)
+export const hashValue = (value: any): string => {
+    const str = stableStringify(value);
+    let h = 0x811c9dc5;
+    for (let i = 0; i < str.length; i++) {
+        h ^= str.charCodeAt(i);
+        h = Math.imul(h, 0x01000193);
+    }
+    return (h >>> 0).toString(16);
+};
+
+// SHA-256 (WebCrypto) para integridade de arquivos inteiros (bytes são usados como estão)
+export const sha256Hex = async (value: any): Promise<string> => {
+    const data = value instanceof Uint8Array ? value : new TextEncoder().encode(typeof value === 'string' ? value : stableStringify(value));
+    const digest = await crypto.subtle.digest('SHA-256', data as BufferSource);
+    return Array.from(new Uint8Array(digest)).map(b => b.toString(16).padStart(2, '0')).join('');
+};
@@ -0,0 +1,33 @@
+import { describe, it, expect } from 'vitest';
+import { stripClozeMarkers, parseClozeDeletions, parseClozeParts, getClozeIndices, hasClozeMarkers, parseClozeSiblingKey, toClozeSiblingKey } from './clozeService';
+
+describe('clozeService', () => {
+    const text = 'A {{c1::União}} legisla sobre {{c2::direito civil::ramo}} e a {{c1::União}} executa.';
+
+    it('agrupa ocorrências repetidas do mesmo N numa única deleção', () => {
+        const deletions = parseClozeDeletions(text);
+        expect(deletions).toEqual([
+            { index: 1, answers: ['União', 'União'], hint: undefined },
+            { index: 2, answers: ['direito civil'], hint: 'ramo' },
+        ]);
+        expect(getClozeIndices(text)).toEqual([1, 2]);
+    });
+
+    it('marca como ativa só a deleção da carta-irmã em estudo', () => {
+        const clozes = parseClozeParts(text, 2).filter(p => p.type === 'cloze');
+        expect(clozes.map(p => [p.index, p.active])).toEqual([[1, false], [2, true], [1, false]]);
+        expect(clozes[1].hint).toBe('ramo');
+    });
+
+    it('reconhece marcadores e chaves de irmã', () => {
+        expect(hasClozeMarkers(text)).toBe(true);
+        expect(hasClozeMarkers('sem deleção')).toBe(false);
+        expect(parseClozeSiblingKey(toClozeSiblingKey(3))).toBe(3);
+        expect(parseClozeSiblingKey('o:mask1')).toBeNull();
+    });
+
+    it('remove os marcadores revelando todas as deleções', () => {
+        expect(stripClozeMarkers(text)).toBe('A União legisla sobre direito civil e a União executa.');
+        expect(stripClozeMarkers('')).toBe('');
+    });
+});
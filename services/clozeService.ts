@@ -0,0 +1,101 @@
+export interface ClozeDeletion {
+    index: number; // N de {{cN::...}}
+    answers: string[]; // Uma deleção pode aparecer mais de uma vez no texto
+    hint?: string;
+}
+
+export interface ClozePart {
+    type: 'text' | 'cloze';
+    content: string;
+    index?: number;
+    hint?: string;
+    active?: boolean; // Deleção da carta-irmã em estudo
+}
+
+// {{c1::resposta}} ou {{c1::resposta::dica}}
+const CLOZE_REGEX = /\{\{c(\d+)::([\s\S]+?)(?:::([\s\S]*?))?\}\}/g;
+
+export const CLOZE_SIBLING_PREFIX = 'c';
+
+export const toClozeSiblingKey = (index: number): string => `${CLOZE_SIBLING_PREFIX}${index}`;
+
+export const parseClozeSiblingKey = (key?: string): number | null => {
+    if (!key) return null;
+    const match = key.match(/^c(\d+)$/);
+    return match ? Number(match[1]) : null;
+};
+
+export const hasClozeMarkers = (text: string): boolean => {
+    if (!text) return false;
+    return new RegExp(CLOZE_REGEX.source).test(text);
+};
+
+/**
+ * Extrai as deleções no formato Anki ({{cN::texto}} / {{cN::texto::dica}}).
+ * Ocorrências repetidas do mesmo N pertencem à mesma carta-irmã.
+ */
+export const parseClozeDeletions = (text: string): ClozeDeletion[] => {
+    if (!text) return [];
+    const byIndex = new Map<number, ClozeDeletion>();
+    const regex = new RegExp(CLOZE_REGEX.source, 'g');
+    let match;
+
+    while ((match = regex.exec(text)) !== null) {
+        const index = Number(match[1]);
+        const answer = match[2].trim();
+        const hint = match[3]?.trim() || undefined;
+
+        const existing = byIndex.get(index);
+        if (existing) {
+            existing.answers.push(answer);
+            if (!existing.hint && hint) existing.hint = hint;
+        } else {
+            byIndex.set(index, { index, answers: [answer], hint });
+        }
+    }
+
+    return Array.from(byIndex.values()).sort((a, b) => a.index - b.index);
+};
+
+export const getClozeIndices = (text: string): number[] => parseClozeDeletions(text).map(d => d.index);
+
+/**
+ * Quebra o texto em partes renderizáveis. A deleção `activeIndex` é marcada como ativa;
+ * as demais deleções são exibidas como texto corrido (comportamento padrão do Anki).
+ */
+export const parseClozeParts = (text: string, activeIndex: number | null): ClozePart[] => {
+    if (!text) return [];
+    const parts: ClozePart[] = [];
+    const regex = new RegExp(CLOZE_REGEX.source, 'g');
+    let lastIndex = 0;
+    let match;
+
+    while ((match = regex.exec(text)) !== null) {
+        if (match.index > lastIndex) {
+            parts.push({ type: 'text', content: text.substring(lastIndex, match.index) });
+        }
+        const index = Number(match[1]);
+        parts.push({
+            type: 'cloze',
+            content: match[2].trim(),
+            index,
+            hint: match[3]?.trim() || undefined,
+            active: index === activeIndex
+        });
+        lastIndex = regex.lastIndex;
+    }
+
+    if (lastIndex < text.length) {
+        parts.push({ type: 'text', content: text.substring(lastIndex) });
+    }
+
+    return parts;
+};
+
+/**
+ * Texto sem marcadores (todas as deleções reveladas). Usado na deduplicação e na busca.
+ */
+export const stripClozeMarkers = (text: string): string => {
+    if (!text) return '';
+    return text.replace(new RegExp(CLOZE_REGEX.source, 'g'), (_m, _n, answer) => String(answer).trim());
+};
@@ -0,0 +1,58 @@
+import { describe, it, expect } from 'vitest';
+import { Flashcard, FlashcardSiblingState } from '../../types';
+import { SimilarityIndex, flashcardSegments } from './similarityIndex';
+import { findDuplicateClusters, ignoreCluster, mergeFlashcardCluster } from './duplicateClusters';
+
+const FRONT = 'A {{c1::União}} legisla privativamente sobre {{c2::direito penal}} e processual';
+
+const state = (lastReviewedAt: string, nextReviewDate: string, masteryScore: number): FlashcardSiblingState => ({
+    stability: 5, masteryScore, nextReviewDate, lastReviewedAt, totalAttempts: 1,
+});
+
+const card = (id: string, extra: Partial<Flashcard> = {}): Flashcard => ({
+    id, type: 'cloze', front: FRONT, back: '', discipline: 'Constitucional', tags: [], stability: 1, masteryScore: 0,
+    nextReviewDate: '2026-01-01T00:00:00.000Z', totalAttempts: 0, attemptHistory: [], ...extra,
+} as unknown as Flashcard);
+
+describe('findDuplicateClusters', () => {
+    it('agrupa cópias e respeita pares marcados como "não é duplicata"', () => {
+        const cards = [card('a', { totalAttempts: 3 }), card('b'), card('c', { front: 'Texto totalmente diferente sobre outro assunto qualquer' })];
+        const index = new SimilarityIndex();
+        index.sync(cards.map(c => ({ id: c.id, segments: flashcardSegments(c) })));
+
+        const [cluster, ...rest] = findDuplicateClusters(cards, index);
+        expect(rest).toHaveLength(0);
+        expect(cluster.members.map(m => m.id).sort()).toEqual(['a', 'b']);
+        expect(cluster.survivor.id).toBe('a');
+
+        expect(findDuplicateClusters(ignoreCluster(cluster).concat(cards[2]), index)).toHaveLength(0);
+    });
+});
+
+describe('mergeFlashcardCluster', () => {
+    it('funde o estado de cada irmã pela revisão mais recente e recalcula o pai', () => {
+        const survivor = card('a', {
+            totalAttempts: 2,
+            siblingStates: {
+                c1: state('2026-02-10T00:00:00.000Z', '2026-03-10T00:00:00.000Z', 80),
+                c2: state('2026-01-05T00:00:00.000Z', '2026-01-20T00:00:00.000Z', 30),
+            },
+        });
+        const loser = card('b', {
+            totalAttempts: 1,
+            siblingStates: {
+                c1: state('2026-01-01T00:00:00.000Z', '2026-01-03T00:00:00.000Z', 10),
+                c2: state('2026-02-01T00:00:00.000Z', '2026-02-25T00:00:00.000Z', 60),
+            },
+        });
+
+        const { survivor: merged, loserIds } = mergeFlashcardCluster(survivor, [loser]);
+        expect(loserIds).toEqual(['b']);
+        expect(merged.siblingStates?.c1.masteryScore).toBe(80);
+        expect(merged.siblingStates?.c2.masteryScore).toBe(60);
+        // Pai = irmã mais urgente / média das maestrias
+        expect(merged.nextReviewDate).toBe('2026-02-25T00:00:00.000Z');
+        expect(merged.masteryScore).toBe(70);
+        expect(merged.totalAttempts).toBe(3);
+    });
+});
@@ -0,0 +1,219 @@
+import { Question, Flashcard, FlashcardSiblingState, Attempt, StudyRef } from '../../types';
+import { normalizeTextForDedup } from '../srsService';
+import { QUESTION_MERGE_FIELDS } from '../import/importDiff';
+import { recomputeParentFromSiblings } from '../siblingService';
+import { SimilarityIndex, SimilarMatch } from './similarityIndex';
+
+/**
+ * CLUSTERS DE DUPLICATAS
+ * Agrupa itens quase idênticos (independente de lawRef e banca), sugere um
+ * sobrevivente e funde o histórico dos perdedores nele — o progresso de estudo
+ * feito em qualquer cópia é preservado.
+ */
+
+export const DEFAULT_DUPLICATE_THRESHOLD = 0.7;
+
+type Dedupable = (Question | Flashcard) & { ignoreDuplicatesFor?: string[] };
+
+export interface DuplicateCluster<T extends Dedupable> {
+    /** Ids ordenados: chave estável enquanto a composição não muda. */
+    key: string;
+    members: T[];
+    survivor: T;
+    /** Menor similaridade entre pares ligados do cluster. */
+    similarity: number;
+    /** Questões com gabaritos diferentes: provável variação intencional, não duplicata. */
+    conflict: boolean;
+}
+
+export interface ClusterMergeResult<T extends Dedupable> {
+    survivor: T;
+    loserIds: string[];
+}
+
+const isIgnoredPair = (a: Dedupable, b: Dedupable) =>
+    !!a.ignoreDuplicatesFor?.includes(b.id) || !!b.ignoreDuplicatesFor?.includes(a.id);
+
+const lastActivity = (item: Dedupable) => item.lastReviewedAt || item.lastAttemptDate || '';
+
+/** Texto da alternativa correta: alternativas embaralhadas continuam comparáveis. */
+const correctAnswerText = (q: Question) => normalizeTextForDedup(q.options?.[q.correctAnswer] || q.correctAnswer || '');
+
+const contentScore = (item: Dedupable) =>
+    'questionText' in item
+        ? QUESTION_MERGE_FIELDS.filter(f => !!item[f]).length + (item.explanation ? 1 : 0)
+        : (item.comments ? 1 : 0) + (item.backImage ? 1 : 0) + (item.frontImage ? 1 : 0);
+
+/**
+ * Sobrevivente: quem tem mais tentativas (menos histórico para mover), depois o
+ * conteúdo mais completo e, por fim, o mais antigo.
+ */
+export const pickSurvivor = <T extends Dedupable>(members: T[]): T =>
+    [...members].sort((a, b) =>
+        (b.totalAttempts || 0) - (a.totalAttempts || 0)
+        || contentScore(b) - contentScore(a)
+        || (a.createdAt || '').localeCompare(b.createdAt || '')
+        || a.id.localeCompare(b.id)
+    )[0];
+
+export const findDuplicateClusters = <T extends Dedupable>(
+    items: T[],
+    index: SimilarityIndex,
+    threshold: number = DEFAULT_DUPLICATE_THRESHOLD
+): DuplicateCluster<T>[] => {
+    const byId = new Map(items.map(item => [item.id, item]));
+    const parent = new Map<string, string>();
+    const find = (id: string): string => {
+        let root = id;
+        while (parent.get(root) !== root) root = parent.get(root)!;
+        parent.set(id, root);
+        return root;
+    };
+    const minSimilarity = new Map<string, number>();
+
+    items.forEach(item => parent.set(item.id, item.id));
+    items.forEach(item => {
+        index.similarTo(item.id, threshold).forEach(({ id, similarity }: SimilarMatch) => {
+            const other = byId.get(id);
+            if (!other || isIgnoredPair(item, other)) return;
+            const rootA = find(item.id);
+            const rootB = find(id);
+            const merged = Math.min(similarity, minSimilarity.get(rootA) ?? 1, minSimilarity.get(rootB) ?? 1);
+            if (rootA !== rootB) parent.set(rootB, rootA);
+            minSimilarity.set(rootA, merged);
+        });
+    });
+
+    const groups = new Map<string, T[]>();
+    items.forEach(item => {
+        const root = find(item.id);
+        if (!groups.has(root)) groups.set(root, []);
+        groups.get(root)!.push(item);
+    });
+
+    return [...groups.entries()]
+        .filter(([, members]) => members.length > 1)
+        .map(([root, members]) => {
+            const answers = new Set(members.filter((m): m is T & Question => 'questionText' in m).map(correctAnswerText));
+            return {
+                key: members.map(m => m.id).sort().join('|'),
+                members,
+                survivor: pickSurvivor(members),
+                similarity: minSimilarity.get(root) ?? threshold,
+                conflict: answers.size > 1,
+            };
+        })
+        .sort((a, b) => b.members.length - a.members.length || b.similarity - a.similarity);
+};
+
+const attemptKey = (a: Attempt) => `${a.date}|${a.wasCorrect}|${a.siblingKey || ''}`;
+
+const mergeAttempts = (lists: Attempt[][]): Attempt[] => {
+    const seen = new Map<string, Attempt>();
+    lists.flat().forEach(a => { if (!seen.has(attemptKey(a))) seen.set(attemptKey(a), a); });
+    return [...seen.values()].sort((a, b) => a.date.localeCompare(b.date));
+};
+
+const mergeStudyRefs = (lists: (StudyRef[] | undefined)[]): StudyRef[] | undefined => {
+    const seen = new Map<string, StudyRef>();
+    lists.forEach(list => list?.forEach(ref => seen.set(JSON.stringify([ref.sourceType, ref.target]), ref)));
+    return seen.size > 0 ? [...seen.values()] : undefined;
+};
+
+/** Estado de cada irmã (cloze/oclusão): o da cópia que a revisou por último. */
+const mergeSiblingStates = (cards: Flashcard[]): Record<string, FlashcardSiblingState> | undefined => {
+    const merged: Record<string, FlashcardSiblingState> = {};
+    cards.forEach(card => Object.entries(card.siblingStates || {}).forEach(([key, state]) => {
+        const current = merged[key];
+        if (!current || (state.lastReviewedAt || '') > (current.lastReviewedAt || '')) merged[key] = state;
+    }));
+    return Object.keys(merged).length > 0 ? merged : undefined;
+};
+
+/**
+ * Funde os perdedores no sobrevivente: históricos unidos em ordem cronológica,
+ * contadores somados e o estado SRS da cópia revisada mais recentemente (é a que
+ * reflete a memória atual). O conteúdo do sobrevivente prevalece.
+ */
+const mergeProgress = <T extends Dedupable>(survivor: T, losers: T[]): T => {
+    const members = [survivor, ...losers];
+    const attemptHistory = mergeAttempts(members.map(m => m.attemptHistory || []));
+    const latest = [...members].sort((a, b) => lastActivity(b).localeCompare(lastActivity(a)))[0];
+    const lastAttempt = attemptHistory[attemptHistory.length - 1];
+    const clusterIds = new Set(members.map(m => m.id));
+    const ignored = [...new Set(members.flatMap(m => m.ignoreDuplicatesFor || []))].filter(id => !clusterIds.has(id));
+
+    return {
+        ...survivor,
+        attemptHistory,
+        masteryHistory: members.flatMap(m => m.masteryHistory || []).sort((a, b) => a.date.localeCompare(b.date)),
+        totalAttempts: members.reduce((sum, m) => sum + (m.totalAttempts || 0), 0),
+        lapses: members.reduce((sum, m) => sum + (m.lapses || 0), 0) || survivor.lapses,
+        stability: latest.stability,
+        difficulty: latest.difficulty,
+        masteryScore: latest.masteryScore,
+        nextReviewDate: latest.nextReviewDate,
+        lastReviewedAt: latest.lastReviewedAt,
+        correctStreak: latest.correctStreak,
+        srsStage: latest.srsStage,
+        lastAttemptDate: lastAttempt?.date || latest.lastAttemptDate,
+        lastWasCorrect: lastAttempt ? lastAttempt.wasCorrect : latest.lastWasCorrect,
+        tags: [...new Set(members.flatMap(m => m.tags || []))],
+        studyRefs: mergeStudyRefs(members.map(m => m.studyRefs)),
+        hotTopic: members.some(m => m.hotTopic) || undefined,
+        isCritical: members.some(m => m.isCritical) || undefined,
+        ignoreDuplicatesFor: ignored.length > 0 ? ignored : undefined,
+    };
+};
+
+export const mergeQuestionCluster = (survivor: Question, losers: Question[]): ClusterMergeResult<Question> => {
+    const merged = mergeProgress(survivor, losers);
+    // Campos vazios do sobrevivente são completados com o que as cópias tinham
+    QUESTION_MERGE_FIELDS.forEach(field => {
+        if (merged[field]) return;
+        const donor = losers.find(l => !!l[field]);
+        if (donor) (merged as any)[field] = donor[field];
+    });
+    if (!merged.explanation) merged.explanation = losers.find(l => !!l.explanation)?.explanation;
+    return {
+        survivor: { ...merged, errorCount: [survivor, ...losers].reduce((sum, q) => sum + (q.errorCount || 0), 0) },
+        loserIds: losers.map(l => l.id),
+    };
+};
+
+export const mergeFlashcardCluster = (survivor: Flashcard, losers: Flashcard[]): ClusterMergeResult<Flashcard> => {
+    const siblingStates = mergeSiblingStates([survivor, ...losers]);
+    // Com irmãs, o estado do pai volta a ser o agregado delas
+    const merged = siblingStates
+        ? recomputeParentFromSiblings({ ...mergeProgress(survivor, losers), siblingStates })
+        : mergeProgress(survivor, losers);
+    return {
+        survivor: { ...merged, comments: merged.comments || losers.find(l => !!l.comments)?.comments, updatedAt: new Date().toISOString() },
+        loserIds: losers.map(l => l.id),
+    };
+};
+
+/** "Não é duplicata": cada membro passa a ignorar os demais do cluster. */
+export const ignoreCluster = <T extends Dedupable>(cluster: DuplicateCluster<T>): T[] =>
+    cluster.members.map(m => ({
+        ...m,
+        ignoreDuplicatesFor: [...new Set([...(m.ignoreDuplicatesFor || []), ...cluster.members.map(o => o.id).filter(id => id !== m.id)])],
+    }));
+
+/**
+ * Checagem incremental na importação: consulta o índice (já sincronizado com a
+ * base) para cada item que chega, sem indexá-lo. O próprio id é descartado —
+ * reimportar um item não é duplicata dele mesmo.
+ */
+export const findIncomingNearDuplicates = (
+    incoming: { id: string; segments: string[] }[],
+    index: SimilarityIndex,
+    threshold: number = DEFAULT_DUPLICATE_THRESHOLD
+): Map<string, SimilarMatch[]> => {
+    const found = new Map<string, SimilarMatch[]>();
+    incoming.forEach(item => {
+        const matches = index.query(item.segments, threshold).filter(m => m.id !== item.id);
+        if (matches.length > 0) found.set(item.id, matches);
+    });
+    return found;
+};
@@ -0,0 +1,50 @@
+import { describe, it, expect } from 'vitest';
+import { SimilarityIndex, estimateSimilarity, flashcardSegments, minhashSignature, shingle } from './similarityIndex';
+
+const ARTIGO = 'Todos são iguais perante a lei, sem distinção de qualquer natureza, garantindo-se aos brasileiros e aos estrangeiros residentes no País a inviolabilidade do direito à vida';
+
+describe('MinHash', () => {
+    it('trigramas de palavras; textos curtos viram um shingle só', () => {
+        expect(shingle('Certo')).toEqual(['certo']);
+        expect(shingle('a b c d')).toHaveLength(2);
+    });
+
+    it('textos iguais têm assinatura idêntica e textos distintos ficam longe', () => {
+        const a = minhashSignature([ARTIGO]);
+        expect(estimateSimilarity(a, minhashSignature([ARTIGO]))).toBe(1);
+        expect(estimateSimilarity(a, minhashSignature(['Compete privativamente à União legislar sobre direito civil, comercial, penal e processual']))).toBeLessThan(0.1);
+    });
+
+    it('pequenas edições mantêm a similaridade alta', () => {
+        const edited = ARTIGO.replace('qualquer natureza', 'qualquer espécie');
+        expect(estimateSimilarity(minhashSignature([ARTIGO]), minhashSignature([edited]))).toBeGreaterThan(0.6);
+    });
+
+    it('marcadores de cloze não contam para a similaridade', () => {
+        const plain = flashcardSegments({ front: 'A capital do Brasil é Brasília desde 1960', back: '' });
+        const cloze = flashcardSegments({ front: 'A capital do Brasil é {{c1::Brasília}} desde {{c2::1960}}', back: '' });
+        expect(cloze).toEqual(plain);
+    });
+});
+
+describe('SimilarityIndex', () => {
+    it('acha vizinhos pelo LSH, ignora a si mesmo e acompanha edições e remoções', () => {
+        const index = new SimilarityIndex();
+        index.sync([
+            { id: 'a', segments: [ARTIGO] },
+            { id: 'b', segments: [ARTIGO.replace('Todos', 'Todas as pessoas')] },
+            { id: 'c', segments: ['O mandado de segurança protege direito líquido e certo não amparado por habeas corpus'] },
+        ]);
+        expect(index.similarTo('a', 0.7).map(m => m.id)).toEqual(['b']);
+        expect(index.similarTo('c', 0.7)).toEqual([]);
+
+        // Texto igual não é recalculado; texto novo é
+        expect(index.upsert('a', [ARTIGO])).toBe(false);
+        expect(index.upsert('b', ['Outro texto sem nenhuma relação com o anterior'])).toBe(true);
+        expect(index.similarTo('a', 0.7)).toEqual([]);
+
+        expect(index.query([ARTIGO], 0.9).map(m => m.id)).toEqual(['a']);
+        index.sync([{ id: 'c', segments: ['O mandado de segurança protege direito líquido e certo não amparado por habeas corpus'] }]);
+        expect(index.size).toBe(1);
+    });
+});
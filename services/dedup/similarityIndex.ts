@@ -0,0 +1,177 @@
+import { Question, Flashcard } from '../../types';
+import { normalizeTextForDedup } from '../srsService';
+import { stripClozeMarkers } from '../clozeService';
+
+/**
+ * ÍNDICE DE SIMILARIDADE (MinHash + LSH)
+ * Cada item vira um conjunto de shingles (trigramas de palavras) por segmento —
+ * enunciado e cada alternativa separadamente, então a ordem das alternativas não
+ * importa. A assinatura MinHash estima a similaridade de Jaccard entre conjuntos e
+ * o LSH por bandas só compara pares que colidem em alguma banda, evitando O(n²).
+ * O índice é incremental: só recalcula a assinatura de quem mudou de texto.
+ */
+
+const NUM_HASHES = 128;
+const BANDS = 32;
+const ROWS = NUM_HASHES / BANDS; // Limiar de colisão ≈ (1/32)^(1/4) ≈ 0.42
+const SHINGLE_SIZE = 3;
+
+// Finalizador do MurmurHash3: espalha bem os bits com aritmética de 32 bits
+const fmix32 = (h: number): number => {
+    h ^= h >>> 16;
+    h = Math.imul(h, 0x85ebca6b);
+    h ^= h >>> 13;
+    h = Math.imul(h, 0xc2b2ae35);
+    h ^= h >>> 16;
+    return h >>> 0;
+};
+
+const fnv1a = (text: string): number => {
+    let h = 0x811c9dc5;
+    for (let i = 0; i < text.length; i++) {
+        h ^= text.charCodeAt(i);
+        h = Math.imul(h, 0x01000193);
+    }
+    return h >>> 0;
+};
+
+const SEEDS = Array.from({ length: NUM_HASHES }, (_, i) => fmix32(Math.imul(i + 1, 0x9e3779b9)));
+
+const tokens = (text: string): string[] =>
+    normalizeTextForDedup(text || '').replace(/[^\p{L}\p{N}\s]/gu, ' ').split(/\s+/).filter(Boolean);
+
+/** Trigramas de palavras; textos curtos (ex.: "Certo") viram um único shingle. */
+export const shingle = (text: string): string[] => {
+    const words = tokens(text);
+    if (words.length === 0) return [];
+    if (words.length < SHINGLE_SIZE) return [words.join(' ')];
+    const out: string[] = [];
+    for (let i = 0; i + SHINGLE_SIZE <= words.length; i++) out.push(words.slice(i, i + SHINGLE_SIZE).join(' '));
+    return out;
+};
+
+export const minhashSignature = (segments: string[]): Uint32Array => {
+    const hashes = new Set<number>();
+    segments.forEach(segment => shingle(segment).forEach(s => hashes.add(fnv1a(s))));
+    const signature = new Uint32Array(NUM_HASHES).fill(0xffffffff);
+    hashes.forEach(h => {
+        for (let i = 0; i < NUM_HASHES; i++) {
+            const v = fmix32(h ^ SEEDS[i]);
+            if (v < signature[i]) signature[i] = v;
+        }
+    });
+    return signature;
+};
+
+/** Fração de posições iguais: estimativa da similaridade de Jaccard. */
+export const estimateSimilarity = (a: Uint32Array, b: Uint32Array): number => {
+    let equal = 0;
+    for (let i = 0; i < NUM_HASHES; i++) if (a[i] === b[i]) equal++;
+    return equal / NUM_HASHES;
+};
+
+// Segmentos comparados de cada tipo de conteúdo
+export const questionSegments = (q: Pick<Question, 'questionText' | 'options'>): string[] =>
+    [q.questionText || '', ...Object.values(q.options || {}).filter((o): o is string => !!o)];
+
+// Marcadores {{cN::}} não entram nos shingles: a mesma frase com e sem cloze é duplicata
+export const flashcardSegments = (f: Pick<Flashcard, 'front' | 'back'>): string[] => [stripClozeMarkers(f.front || ''), f.back || ''];
+
+export interface SimilarMatch {
+    id: string;
+    similarity: number;
+}
+
+interface IndexEntry {
+    textKey: string;
+    signature: Uint32Array;
+    bandKeys: string[];
+}
+
+export class SimilarityIndex {
+    private entries = new Map<string, IndexEntry>();
+    private buckets = new Map<string, Set<string>>();
+
+    get size() { return this.entries.size; }
+
+    /** Insere ou atualiza; devolve false quando o texto não mudou (nada a recalcular). */
+    upsert(id: string, segments: string[]): boolean {
+        const textKey = segments.join('\u0001');
+        const current = this.entries.get(id);
+        if (current && current.textKey === textKey) return false;
+        if (current) this.remove(id);
+
+        const signature = minhashSignature(segments);
+        const bandKeys: string[] = [];
+        for (let b = 0; b < BANDS; b++) {
+            const key = `${b}:${Array.from(signature.subarray(b * ROWS, (b + 1) * ROWS)).join(',')}`;
+            bandKeys.push(key);
+            if (!this.buckets.has(key)) this.buckets.set(key, new Set());
+            this.buckets.get(key)!.add(id);
+        }
+        this.entries.set(id, { textKey, signature, bandKeys });
+        return true;
+    }
+
+    remove(id: string) {
+        const entry = this.entries.get(id);
+        if (!entry) return;
+        entry.bandKeys.forEach(key => {
+            const bucket = this.buckets.get(key);
+            bucket?.delete(id);
+            if (bucket && bucket.size === 0) this.buckets.delete(key);
+        });
+        this.entries.delete(id);
+    }
+
+    /** Alinha o índice à lista atual: remove quem saiu e recalcula só quem mudou. */
+    sync(items: { id: string; segments: string[] }[]): string[] {
+        const ids = new Set(items.map(i => i.id));
+        [...this.entries.keys()].filter(id => !ids.has(id)).forEach(id => this.remove(id));
+        return items.filter(item => this.upsert(item.id, item.segments)).map(item => item.id);
+    }
+
+    private matchSignature(signature: Uint32Array, bandKeys: string[], threshold: number, exclude?: string): SimilarMatch[] {
+        const candidates = new Set<string>();
+        bandKeys.forEach(key => this.buckets.get(key)?.forEach(id => { if (id !== exclude) candidates.add(id); }));
+        const matches: SimilarMatch[] = [];
+        candidates.forEach(id => {
+            const similarity = estimateSimilarity(signature, this.entries.get(id)!.signature);
+            if (similarity >= threshold) matches.push({ id, similarity });
+        });
+        return matches.sort((a, b) => b.similarity - a.similarity);
+    }
+
+    /** Vizinhos de um item já indexado. */
+    similarTo(id: string, threshold: number): SimilarMatch[] {
+        const entry = this.entries.get(id);
+        return entry ? this.matchSignature(entry.signature, entry.bandKeys, threshold, id) : [];
+    }
+
+    /** Vizinhos de um texto que ainda não está no índice (ex.: item sendo criado ou importado). */
+    query(segments: string[], threshold: number): SimilarMatch[] {
+        const signature = minhashSignature(segments);
+        const bandKeys = Array.from({ length: BANDS }, (_, b) => `${b}:${Array.from(signature.subarray(b * ROWS, (b + 1) * ROWS)).join(',')}`);
+        return this.matchSignature(signature, bandKeys, threshold);
+    }
+}
+
+// Índices compartilhados pela sessão: criação, importação e a aba de duplicatas
+// reaproveitam as assinaturas já calculadas.
+const sharedIndexes: Record<'question' | 'flashcard' | 'pair', SimilarityIndex> = {
+    question: new SimilarityIndex(),
+    flashcard: new SimilarityIndex(),
+    pair: new SimilarityIndex(),
+};
+
+export const isPairCard = (f: Flashcard) => !!f.tags?.includes('pair-match');
+
+export const syncQuestionIndex = (questions: Question[]): SimilarityIndex => {
+    sharedIndexes.question.sync(questions.filter(q => !q.deletedAt).map(q => ({ id: q.id, segments: questionSegments(q) })));
+    return sharedIndexes.question;
+};
+
+export const syncFlashcardIndex = (flashcards: Flashcard[], kind: 'flashcard' | 'pair'): SimilarityIndex => {
+    sharedIndexes[kind].sync(flashcards.filter(f => isPairCard(f) === (kind === 'pair')).map(f => ({ id: f.id, segments: flashcardSegments(f) })));
+    return sharedIndexes[kind];
+};
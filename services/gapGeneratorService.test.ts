@@ -0,0 +1,48 @@
+import { describe, it, expect } from 'vitest';
+import { LiteralnessCard } from '../types';
+import { generateLawGaps } from './gapGeneratorService';
+
+const card = (id: string, article: string, phase1Full: string, extra: Partial<LiteralnessCard> = {}): LiteralnessCard =>
+    ({ id, lawId: 'CF', article, phase1Full, ...extra } as LiteralnessCard);
+
+const cards = [
+    card('cf_art62', 'Art. 62', 'Em caso de relevância e urgência, o Presidente da República poderá adotar medidas provisórias, com força de lei, devendo submetê-las de imediato ao Congresso Nacional. § 3º As medidas provisórias perderão eficácia se não forem convertidas em lei no prazo de sessenta dias, prorrogável uma vez por igual período.'),
+    card('cf_art60', 'Art. 60', 'A Constituição poderá ser emendada mediante proposta de um terço, no mínimo, dos membros da Câmara dos Deputados ou do Senado Federal. § 2º A proposta será discutida e votada em cada Casa do Congresso Nacional, em dois turnos, considerando-se aprovada se obtiver, em ambos, três quintos dos votos dos respectivos membros.'),
+    card('cf_art5', 'Art. 5º', 'LXIII - o preso será informado de seus direitos, salvo nos casos previstos em lei, sendo-lhe assegurada a assistência da família e de advogado, no prazo de 24 horas.'),
+    card('cp_art1', 'Art. 1º', 'Não há crime sem lei anterior que o defina.', { lawId: 'CP' }),
+];
+
+describe('generateLawGaps', () => {
+    it('só gera para a lei pedida, sempre com pelo menos duas alternativas erradas', () => {
+        const candidates = generateLawGaps(cards, 'CF');
+        expect(candidates.length).toBeGreaterThan(0);
+        expect(candidates.every(c => c.cardId.startsWith('cf_'))).toBe(true);
+
+        candidates.forEach(c => {
+            const options = Object.values(c.gap.options!);
+            expect(options.length).toBeGreaterThanOrEqual(3);
+            expect(new Set(options.map(o => o.toLowerCase())).size).toBe(options.length);
+            const answer = c.gap.text.match(/\{\{([^{}]+)\}\}/)![1];
+            expect(c.gap.options![c.gap.correct!]).toBe(answer);
+        });
+    });
+
+    it('prazo único na lei recebe distratores sintetizados da mesma unidade', () => {
+        const [gap] = generateLawGaps([card('cf_art5', 'Art. 5º', 'O preso será apresentado ao juiz no prazo de 24 horas.')], 'CF', { maxPerArticle: 1 });
+        expect(gap.kind).toBe('PRAZO');
+        const wrong = Object.entries(gap.gap.options!).filter(([letter]) => letter !== gap.gap.correct).map(([, value]) => value);
+        expect(wrong.length).toBeGreaterThanOrEqual(2);
+        expect(wrong.every(v => v.endsWith(' horas'))).toBe(true);
+    });
+
+    it('pula o que já existe em extraGaps e é estável entre execuções', () => {
+        const first = generateLawGaps(cards, 'CF');
+        expect(generateLawGaps(cards, 'CF')).toEqual(first);
+
+        const taken = first.find(c => c.cardId === 'cf_art62')!;
+        const withExisting = cards.map(c => c.id === 'cf_art62' ? { ...c, extraGaps: [taken.gap] } : c);
+        const again = generateLawGaps(withExisting, 'CF');
+        expect(again.map(c => c.key)).not.toContain(taken.key);
+        expect(again.filter(c => c.cardId !== 'cf_art62')).toEqual(first.filter(c => c.cardId !== 'cf_art62'));
+    });
+});
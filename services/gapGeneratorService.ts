@@ -1,5 +1,10 @@
 
-import { Gap } from '../types';
+import { Gap, LiteralnessCard } from '../types';
+import { TRAP_REQ_DEFS } from './trapscanService';
+import { parseGapTemplate } from './gapService';
+import { parseArticleOutline, LawOutlineNode } from './lawStructureService';
+import { makeDeterministicId } from './idGenerator';
+import { hashValue } from './checksum';
 
 // 1. BLACKLIST (Stopwords & Irrelevant terms)
 const STOPWORDS_PT = new Set([
@@ -194,3 +199,286 @@ export function generateSmartGap(
         }
     };
 }
+
+// --- BATCH GENERATION (whole law) ---
+
+export type GapTargetKind = 'PRAZO' | 'NUMERO' | 'AUTORIDADE' | 'EXCECAO' | 'ABSOLUTO' | 'TERMO';
+
+export interface GapCandidate {
+    /** Stable across runs (card + dispositivo + answer): the review queue keys on it. */
+    key: string;
+    cardId: string;
+    article: string;
+    dispositivo: string;
+    kind: GapTargetKind;
+    /** TRAP_REQ_DEFS axis the target exercises. */
+    trap?: string;
+    score: number;
+    gap: Gap;
+}
+
+export interface LawGapBatchOptions {
+    maxPerArticle?: number;
+}
+
+export const GAP_TARGET_LABELS: Record<GapTargetKind, string> = {
+    PRAZO: 'Prazo',
+    NUMERO: 'Número / Quórum',
+    AUTORIDADE: 'Autoridade',
+    EXCECAO: 'Exceção',
+    ABSOLUTO: 'Palavra absoluta',
+    TERMO: 'Termo-chave',
+};
+
+const KIND_TRAP: Record<GapTargetKind, string | undefined> = { PRAZO: 'P', NUMERO: 'P', AUTORIDADE: 'A', EXCECAO: 'R', ABSOLUTO: 'T', TERMO: undefined };
+const KIND_WEIGHT: Record<GapTargetKind, number> = { PRAZO: 40, NUMERO: 35, AUTORIDADE: 30, EXCECAO: 30, ABSOLUTO: 25, TERMO: 0 };
+
+const MIN_DISTRACTORS = 2;
+const MAX_CONTEXT_CHARS = 350;
+
+// Accent-free lowercase with the same length as the input, so match indexes map back to the original text
+const fold = (text: string): string =>
+    text.split('').map(ch => ch.normalize('NFD').replace(/[\u0300-\u036f]/g, '')).join('').toLowerCase();
+
+const escapeRegex = (s: string) => s.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+const NUMBER_WORDS = ['um', 'uma', 'dois', 'duas', 'tres', 'quatro', 'cinco', 'seis', 'sete', 'oito', 'nove', 'dez', 'doze', 'quinze', 'vinte', 'trinta', 'quarenta', 'quarenta e cinco', 'sessenta', 'noventa', 'cento e vinte', 'cento e oitenta'];
+const TIME_UNITS = ['dias', 'dia', 'meses', 'mes', 'anos', 'ano', 'horas', 'hora', 'semanas', 'semana'];
+const PRAZO_PATTERN = new RegExp(`\\b(?:\\d+(?:\\s*\\([a-z\\s]+\\))?|${[...NUMBER_WORDS].sort((a, b) => b.length - a.length).join('|')})\\s+(?:${TIME_UNITS.join('|')})(?:\\s+(?:uteis|corridos))?\\b`, 'g');
+const NUMERO_PATTERN = /\b\d+(?:[.,]\d+)?\s*(?:%|por cento)|\b(?:maioria (?:absoluta|simples|relativa)|(?:um|dois|tres|quatro) (?:tercos?|quintos?|quartos?)|metade)\b/g;
+
+const AUTHORITIES = [
+    'Presidente da República', 'Congresso Nacional', 'Senado Federal', 'Câmara dos Deputados',
+    'Supremo Tribunal Federal', 'Superior Tribunal de Justiça', 'Tribunal de Contas da União', 'Conselho Nacional de Justiça',
+    'Ministério Público', 'Defensoria Pública', 'Advocacia-Geral da União', 'Poder Executivo', 'Poder Legislativo', 'Poder Judiciário',
+    'Distrito Federal', 'Municípios', 'Estados', 'União',
+];
+const AUTHORITY_PATTERN = new RegExp(`\\b(?:${AUTHORITIES.map(a => escapeRegex(fold(a))).join('|')})\\b`, 'g');
+
+// After a competence trigger ("compete à", "cabe ao"), the capitalized name that follows is the authority
+const AFTER_TRIGGER_NAME = /^\s*(?:(?:a|ao|aos|as|à|às|o|os|pela?|pelo)\s+)?([A-ZÁÉÍÓÚÂÊÔÃÕÇ][\wÀ-ú-]+(?:\s+(?:(?:de|da|do|dos|das|e)\s+)?[A-ZÁÉÍÓÚÂÊÔÃÕÇ][\wÀ-ú-]+)*)/;
+
+const MODALS = ['poderá', 'deverá', 'é facultado', 'é obrigatório'];
+
+const triggersOf = (trap: string): string[] => TRAP_REQ_DEFS[trap]?.triggers || [];
+
+const wordPattern = (words: string[]) =>
+    new RegExp(`(?<![\\w])(?:${words.map(w => escapeRegex(fold(w))).sort((a, b) => b.length - a.length).join('|')})(?![\\w])`, 'g');
+
+interface RawTarget { kind: GapTargetKind; start: number; end: number; bonus: number; }
+
+function findTargets(text: string, keywords: string[]): RawTarget[] {
+    const folded = fold(text);
+    const targets: RawTarget[] = [];
+    const add = (kind: GapTargetKind, pattern: RegExp, bonus = 0) => {
+        for (const m of folded.matchAll(pattern)) targets.push({ kind, start: m.index!, end: m.index! + m[0].length, bonus });
+    };
+
+    add('PRAZO', PRAZO_PATTERN);
+    add('NUMERO', NUMERO_PATTERN);
+    add('AUTORIDADE', AUTHORITY_PATTERN);
+    add('EXCECAO', wordPattern(triggersOf('R')));
+    add('ABSOLUTO', wordPattern([...triggersOf('T'), ...MODALS]));
+
+    for (const m of folded.matchAll(wordPattern(triggersOf('A')))) {
+        const after = text.slice(m.index! + m[0].length);
+        const name = after.match(AFTER_TRIGGER_NAME);
+        if (!name) continue;
+        const start = m.index! + m[0].length + after.indexOf(name[1]);
+        targets.push({ kind: 'AUTORIDADE', start, end: start + name[1].length, bonus: 10 });
+    }
+
+    // Context: a trigger of the same axis elsewhere in the text makes the target more likely to be tested
+    const contextTriggers = (trap?: string) => (trap ? triggersOf(trap).filter(t => folded.includes(fold(t))).length : 0);
+    targets.forEach(t => {
+        const answer = fold(text.slice(t.start, t.end));
+        t.bonus += Math.min(2, contextTriggers(KIND_TRAP[t.kind])) * 5;
+        if (keywords.some(k => fold(k).includes(answer) || answer.includes(fold(k)))) t.bonus += 20;
+    });
+
+    // Fallback: the best plain term (old single-gap scoring) when nothing structural was found
+    if (targets.length === 0) {
+        const best = tokenize(text)
+            .map(c => ({ ...c, score: calculateScore(c.text, text, keywords) }))
+            .sort((a, b) => b.score - a.score)[0];
+        if (best) {
+            const start = text.indexOf(best.text, best.index);
+            if (start >= 0) targets.push({ kind: 'TERMO', start, end: start + best.text.length, bonus: best.score });
+        }
+    }
+
+    // Overlaps: the longer (more specific) target wins
+    targets.sort((a, b) => (b.end - b.start) - (a.end - a.start));
+    const kept: RawTarget[] = [];
+    targets.forEach(t => { if (!kept.some(k => t.start < k.end && k.start < t.end)) kept.push(t); });
+    return kept;
+}
+
+/** The sentence around the answer, for long dispositivos. */
+function contextAround(text: string, start: number, end: number): { text: string; offset: number } {
+    if (text.length <= MAX_CONTEXT_CHARS) return { text, offset: 0 };
+    const from = text.slice(0, start).search(/[^.;:]*$/);
+    const afterMatch = text.slice(end).match(/[.;:](?:\s|$)/);
+    const sentence = text.slice(from, afterMatch ? end + afterMatch.index! + 1 : text.length);
+    return { text: sentence.trim(), offset: from + sentence.length - sentence.trimStart().length };
+}
+
+type Vocabulary = Record<GapTargetKind, Map<string, string>>;
+
+const matchCase = (value: string, answer: string): string => {
+    if (AUTHORITIES.includes(value)) return value;
+    const upper = /^[A-ZÁÉÍÓÚÂÊÔÃÕÇ]/.test(answer);
+    return upper ? value.charAt(0).toUpperCase() + value.slice(1) : value.charAt(0).toLowerCase() + value.slice(1);
+};
+
+const COMMON_PRAZOS = [5, 10, 15, 30, 45, 60, 90, 120, 180];
+
+/** Same-unit prazos that do not appear in the law, for when the law's own vocabulary runs out. */
+function synthesizePrazos(answer: string): string[] {
+    const m = answer.match(/^(\d+)(.*)$/);
+    if (!m) return [];
+    const n = parseInt(m[1], 10);
+    return COMMON_PRAZOS.filter(p => p !== n).sort((a, b) => Math.abs(a - n) - Math.abs(b - n)).map(p => `${p}${m[2]}`);
+}
+
+const unitOf = (prazo: string) => TIME_UNITS.find(u => fold(prazo).includes(` ${u}`))?.replace(/s$/, '').replace(/e$/, '') || '';
+
+function pickDistractors(kind: GapTargetKind, answer: string, vocabulary: Vocabulary, seed: string): string[] {
+    const answerKey = fold(answer).trim();
+    const fromLaw = Array.from(vocabulary[kind].entries())
+        .filter(([key]) => key !== answerKey)
+        .map(([, value]) => value);
+
+    // Closest first (similar length); hash breaks ties so reruns give the same options
+    fromLaw.sort((a, b) => Math.abs(a.length - answer.length) - Math.abs(b.length - answer.length) || hashValue(seed + a).localeCompare(hashValue(seed + b)));
+
+    // Prazos: same unit from the law, then synthesized same-unit values, then other units
+    if (kind === 'PRAZO') {
+        const sameUnit = fromLaw.filter(v => unitOf(v) === unitOf(answer));
+        fromLaw.splice(0, fromLaw.length, ...sameUnit, ...synthesizePrazos(answer), ...fromLaw.filter(v => !sameUnit.includes(v)));
+    }
+
+    const fallback: string[] =
+        kind === 'PRAZO' ? []
+        : kind === 'NUMERO' ? ['maioria absoluta', 'maioria simples', 'dois terços', 'três quintos', 'um terço', 'metade']
+        : kind === 'AUTORIDADE' ? AUTHORITIES
+        : kind === 'EXCECAO' ? [...triggersOf('R'), 'inclusive', 'ainda que']
+        : kind === 'ABSOLUTO' ? [...triggersOf('T'), ...MODALS, 'preferencialmente']
+        : LEGAL_TERMS_FALLBACK;
+
+    const seen = new Set([answerKey]);
+    const result: string[] = [];
+    [...fromLaw, ...fallback].forEach(value => {
+        const key = fold(value).trim();
+        if (result.length >= 4 || seen.has(key)) return;
+        seen.add(key);
+        result.push(matchCase(value, answer));
+    });
+    return result;
+}
+
+// "30 (trinta) dias" would stand out among plain-number options: the gap keeps only the digits
+const displayAnswer = (kind: GapTargetKind, raw: string) => (kind === 'PRAZO' ? raw.replace(/\s*\([^)]*\)/, '') : raw).trim();
+
+const normalizeForDedup = (text: string) => fold(text.replace(/\{\{\s*([^{}]+?)\s*\}\}/g, '$1')).replace(/[^a-z0-9]+/g, ' ').trim();
+
+/** Existing gaps as (answer, filled text) pairs: legacy gaps without {{ }} use the correct option. */
+function existingGapKeys(card: LiteralnessCard): { answer: string; text: string }[] {
+    const gaps: Gap[] = [
+        ...(card.phase2Lacuna ? [{ text: card.phase2Lacuna, options: card.phase2Options, correct: card.phase2Correct }] : []),
+        ...(card.extraGaps || []),
+    ];
+    return gaps.map(g => {
+        const parsed = parseGapTemplate(g.text || '');
+        const answer = parsed.answers[0] || g.options?.[g.correct || 'A'] || '';
+        return { answer: normalizeForDedup(answer), text: normalizeForDedup(g.text || '') };
+    });
+}
+
+/**
+ * Generates gap candidates for every article of a law. Targets are the parts a
+ * banca swaps (prazos, numbers/quorum, authorities, exception and absolute
+ * markers from TRAP_REQ_DEFS); distractors come from the same law first. Gaps
+ * that repeat an existing one (same answer, overlapping text) are skipped.
+ */
+export function generateLawGaps(cards: LiteralnessCard[], lawId: string, options: LawGapBatchOptions = {}): GapCandidate[] {
+    const maxPerArticle = options.maxPerArticle ?? 3;
+    const lawCards = cards.filter(c => c.lawId === lawId && c.phase1Full);
+
+    // 1. Every dispositivo's targets, plus the law-wide vocabulary per kind
+    const vocabulary: Vocabulary = { PRAZO: new Map(), NUMERO: new Map(), AUTORIDADE: new Map(), EXCECAO: new Map(), ABSOLUTO: new Map(), TERMO: new Map() };
+    const perCard = lawCards.map(card => {
+        const keywords = (card.keywordsProva || '').split(/[,;]/).map(s => s.trim()).filter(s => s.length > 2);
+        const dispositivos: { node: LawOutlineNode; targets: RawTarget[] }[] = [];
+        const visit = (node: LawOutlineNode) => {
+            if (node.text && node.text.length >= 10) {
+                const targets = findTargets(node.text, keywords);
+                targets.forEach(t => {
+                    const value = displayAnswer(t.kind, node.text!.slice(t.start, t.end));
+                    if (!vocabulary[t.kind].has(fold(value))) vocabulary[t.kind].set(fold(value), value);
+                });
+                dispositivos.push({ node, targets });
+            }
+            node.children.forEach(visit);
+        };
+        visit(parseArticleOutline(card));
+        return { card, dispositivos };
+    });
+
+    // 2. Best target per dispositivo, up to the per-article limit
+    const candidates: GapCandidate[] = [];
+    perCard.forEach(({ card, dispositivos }) => {
+        const existing = existingGapKeys(card);
+        const ranked = dispositivos
+            .flatMap(d => d.targets.map(t => ({ ...d, target: t, score: KIND_WEIGHT[t.kind] + t.bonus })))
+            .sort((a, b) => b.score - a.score);
+
+        const usedAnswers = new Set<string>();
+        const usedDispositivos = new Set<string>();
+        for (const { node, target, score } of ranked) {
+            if (candidates.filter(c => c.cardId === card.id).length >= maxPerArticle) break;
+            const text = node.text!;
+            const answer = displayAnswer(target.kind, text.slice(target.start, target.end));
+            const answerKey = normalizeForDedup(answer);
+            if (!answerKey || usedAnswers.has(answerKey) || usedDispositivos.has(node.id)) continue;
+
+            const context = contextAround(text, target.start, target.end);
+            const contextKey = normalizeForDedup(context.text);
+            if (existing.some(e => e.answer === answerKey && (e.text.includes(contextKey) || contextKey.includes(e.text)))) continue;
+
+            const key = `${card.id}|${node.id}|${answerKey}`;
+            const distractors = pickDistractors(target.kind, answer, vocabulary, key);
+            if (distractors.length < MIN_DISTRACTORS) continue;
+
+            const start = target.start - context.offset;
+            const gapText = `${context.text.slice(0, start)}{{${answer}}}${context.text.slice(start + (target.end - target.start))}`;
+            const prefix = node.level === 'ARTIGO' || node.level === 'CAPUT' ? card.article : `${card.article}, ${node.label}`;
+
+            // Correct letter from the hash: spread over the options but stable between runs
+            const letters = ['A', 'B', 'C', 'D', 'E'].slice(0, distractors.length + 1);
+            const correctIndex = parseInt(hashValue(key), 16) % letters.length;
+            const ordered = [...distractors];
+            ordered.splice(correctIndex, 0, answer);
+
+            usedAnswers.add(answerKey);
+            usedDispositivos.add(node.id);
+            candidates.push({
+                key,
+                cardId: card.id,
+                article: card.article,
+                dispositivo: node.level === 'ARTIGO' ? 'Caput' : node.label,
+                kind: target.kind,
+                trap: KIND_TRAP[target.kind],
+                score,
+                gap: {
+                    id: makeDeterministicId(card.id, 'LACUNA', `auto_${hashValue(key)}`),
+                    text: `${prefix}: ${gapText}`,
+                    options: Object.fromEntries(letters.map((l, i) => [l, ordered[i]])),
+                    correct: letters[correctIndex],
+                    ...(node.level !== 'ARTIGO' ? { litRef: node.id } : {}),
+                },
+            });
+        }
+    });
+    return candidates;
+}
@@ -0,0 +1,98 @@
+import { describe, it, expect } from 'vitest';
+import { parseAnswerKey, parseBooklet, BookletDefaults } from './bookletParser';
+
+const defaults: BookletDefaults = { subject: 'Direito Constitucional', topic: 'Geral', bank: 'CEBRASPE', position: 'Analista', refPrefix: 'TESTE' };
+
+describe('parseAnswerKey', () => {
+    it('lê gabarito em linha, vertical e horizontal', () => {
+        expect(Object.fromEntries(parseAnswerKey('1 C 2 E 3 X'))).toEqual({ 1: 'C', 2: 'E', 3: 'X' });
+        expect(Object.fromEntries(parseAnswerKey('01-A\n02-B\n03-anulada'))).toEqual({ 1: 'A', 2: 'B', 3: 'X' });
+        expect(Object.fromEntries(parseAnswerKey('1 2 3\nCERTO ERRADO C'))).toEqual({ 1: 'C', 2: 'E', 3: 'C' });
+    });
+});
+
+describe('parseBooklet', () => {
+    it('"Considere..." no meio de uma questão A–E continua no enunciado dela', () => {
+        const text = [
+            'QUESTÃO 1',
+            'Considere as afirmativas abaixo.',
+            'I O Brasil é uma república federativa.',
+            'II A capital é o Rio de Janeiro.',
+            'Está correto o que se afirma em',
+            'A) I, apenas.',
+            'B) II, apenas.',
+            'C) I e II.',
+            'D) nenhuma.',
+            'E) todas.',
+            'QUESTÃO 2',
+            'Qual é o quórum da emenda constitucional?',
+            'A) Maioria simples.',
+            'B) Maioria absoluta.',
+            'C) Três quintos.',
+            'D) Dois terços.',
+            'E) Unanimidade.',
+        ].join('\n');
+
+        const [q1, q2] = parseBooklet(text, '1 A 2 C', defaults);
+        expect(q1.kind).toBe('AE');
+        expect(q1.stem).toContain('Considere as afirmativas abaixo.');
+        expect(q1.stem).toContain('II A capital');
+        expect(q1.options.E).toBe('todas.');
+        expect(q1.answer).toBe('A');
+        expect(q2.context).toBeUndefined();
+        expect(q2.stem).toBe('Qual é o quórum da emenda constitucional?');
+    });
+
+    it('o "Julgue os itens" dos itens C/E não passa para a questão A–E seguinte', () => {
+        const text = [
+            'Julgue os itens a seguir, a respeito dos direitos fundamentais.',
+            '1 O direito à vida é absoluto.',
+            '2 A casa é asilo inviolável do indivíduo.',
+            'Considerando a organização do Estado, julgue o item seguinte.',
+            '3 Os municípios integram a federação.',
+            '4 Compete à União legislar sobre direito penal.',
+            'CONHECIMENTOS ESPECÍFICOS',
+            'QUESTÃO 5',
+            'Assinale a opção correta.',
+            'A) Primeira.',
+            'B) Segunda.',
+            'C) Terceira.',
+            'D) Quarta.',
+            'E) Quinta.',
+            'QUESTÃO 6',
+            'Assinale a opção incorreta.',
+            'A) Um.',
+            'B) Dois.',
+        ].join('\n');
+
+        const rows = parseBooklet(text, '1 E 2 C 3 C 4 C 5 B 6 A', defaults);
+        expect(rows.map(r => r.kind)).toEqual(['CE', 'CE', 'CE', 'CE', 'AE', 'AE']);
+        expect(rows[0].context).toMatch(/^Julgue os itens/);
+        expect(rows[1].context).toBe(rows[0].context);
+        expect(rows[2].context).toMatch(/^Considerando a organização/);
+        expect(rows[3].context).toBe(rows[2].context);
+        expect(rows[3].stem).toBe('Compete à União legislar sobre direito penal.');
+        expect(rows[4].context).toBeUndefined();
+        expect(rows[5].context).toBeUndefined();
+        expect(rows[0].answer).toBe('B'); // Errado
+        expect(rows[4].answer).toBe('B');
+    });
+
+    it('texto-base compartilhado continua valendo para as questões A–E seguintes', () => {
+        const text = [
+            'Texto I',
+            'A lei é igual para todos.',
+            '1. De acordo com o texto, a lei',
+            'A) distingue.',
+            'B) iguala.',
+            '2. O texto trata de',
+            'A) igualdade.',
+            'B) liberdade.',
+        ].join('\n');
+
+        const rows = parseBooklet(text, '1 B 2 A', defaults);
+        expect(rows).toHaveLength(2);
+        expect(rows[0].context).toBe('Texto I A lei é igual para todos.');
+        expect(rows[1].context).toBe(rows[0].context);
+    });
+});
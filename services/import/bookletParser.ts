@@ -0,0 +1,441 @@
+import { AppSettings, Question } from '../../types';
+import * as srs from '../srsService';
+import { parseQuestionText, sanitizeOptionText } from '../questionParser';
+import { normalizeDiscipline } from '../taxonomyService';
+import { extractPdfText } from './pdfText';
+import { extractDocxText } from './docxText';
+
+/**
+ * CADERNOS DE PROVA (PDF/DOCX) + GABARITO
+ * Segmenta as questões numeradas, detecta o formato (Certo/Errado ou A–E),
+ * associa o gabarito e devolve linhas editáveis para a grade de conferência.
+ * Nada é gravado aqui: `stagedToQuestion` monta o objeto para o addBatchQuestions.
+ */
+
+export type BookletItemKind = 'AE' | 'CE';
+export type OptionKey = 'A' | 'B' | 'C' | 'D' | 'E';
+
+export const OPTION_KEYS: OptionKey[] = ['A', 'B', 'C', 'D', 'E'];
+
+export interface StagedQuestion {
+    key: string;
+    number: number;
+    kind: BookletItemKind;
+    /** Texto-base compartilhado ("Julgue os itens...", "Texto I"). */
+    context?: string;
+    stem: string;
+    options: Partial<Record<OptionKey, string>>;
+    /** 'A'–'E'; em Certo/Errado, A = Certo e B = Errado (convenção do app). */
+    answer: string;
+    annulled: boolean;
+    subject: string;
+    topic: string;
+    bank: string;
+    position: string;
+    include: boolean;
+}
+
+export interface BookletDefaults {
+    subject: string;
+    topic: string;
+    bank: string;
+    position: string;
+    refPrefix: string;
+}
+
+export type AnswerKey = Map<number, string>;
+
+/** Texto do arquivo conforme a extensão (.pdf, .docx ou texto puro). */
+export const extractDocumentText = async (file: File): Promise<string> => {
+    const name = file.name.toLowerCase();
+    if (name.endsWith('.pdf')) return extractPdfText(await file.arrayBuffer());
+    if (name.endsWith('.docx')) return extractDocxText(await file.arrayBuffer());
+    if (name.endsWith('.doc')) throw new Error('Formato .doc (Word 97-2003) não suportado. Salve como .docx ou PDF.');
+    return file.text();
+};
+
+// --- Limpeza ---
+
+const PAGE_NUMBER = /^(?:p[áa]g(?:ina)?\.?\s*)?[-–]?\s*\d{1,3}\s*[-–]?(?:\s*(?:de|\/)\s*\d{1,3})?$/i;
+
+/** Remove numeração de página e cabeçalhos/rodapés repetidos em várias páginas. */
+export const cleanBookletText = (text: string): string => {
+    const lines = text.replace(/\r\n?/g, '\n').replace(/ /g, ' ').split('\n').map(l => l.replace(/[ \t]+/g, ' ').trim());
+    const counts = new Map<string, number>();
+    lines.forEach(l => { if (l.length >= 12) counts.set(l, (counts.get(l) || 0) + 1); });
+    return lines
+        .filter(l => !PAGE_NUMBER.test(l) && !(l.length >= 12 && (counts.get(l) || 0) >= 3))
+        .join('\n');
+};
+
+// --- Gabarito ---
+
+const ANSWER_TOKEN = /\b(\d{1,3})\b|\b(CERTO|ERRADO|ANULAD[AO]|NULA)\b|(?<![\wÀ-ÿ])([A-EX*])(?![\wÀ-ÿ])/gi;
+
+const normalizeAnswerToken = (raw: string): string => {
+    const up = raw.toUpperCase();
+    if (up === 'CERTO') return 'C';
+    if (up === 'ERRADO') return 'E';
+    if (up.startsWith('ANULAD') || up === 'NULA' || up === '*' || up === 'X') return 'X';
+    return up;
+};
+
+/**
+ * Lê o gabarito em qualquer dos formatos comuns:
+ * "1 C 2 E", "01-A 02-B", tabela vertical (número e resposta por linha) ou
+ * horizontal (linha de números seguida da linha de respostas).
+ * Respostas: A–E, C/E, Certo/Errado; X, * ou "anulada" marcam questão anulada.
+ */
+export const parseAnswerKey = (text: string): AnswerKey => {
+    const tokens: { kind: 'num' | 'ans'; value: string }[] = [];
+    for (const m of text.matchAll(ANSWER_TOKEN)) {
+        if (m[1]) tokens.push({ kind: 'num', value: m[1] });
+        else if (m[2] || (m[3] && m[3] === m[3].toUpperCase())) tokens.push({ kind: 'ans', value: normalizeAnswerToken(m[2] || m[3]) });
+    }
+
+    const key: AnswerKey = new Map();
+    let i = 0;
+    while (i < tokens.length) {
+        if (tokens[i].kind !== 'num') { i++; continue; }
+        let j = i;
+        while (j < tokens.length && tokens[j].kind === 'num') j++;
+        let k = j;
+        while (k < tokens.length && tokens[k].kind === 'ans') k++;
+        const nums = tokens.slice(i, j).map(t => Number(t.value));
+        const answers = tokens.slice(j, k).map(t => t.value);
+
+        // Tabela horizontal: linha de números seguida das respostas na mesma ordem.
+        // Números a mais no início costumam ser do título ("CARGO 3"), então alinha pelo fim.
+        const m = Math.min(nums.length, answers.length);
+        nums.slice(nums.length - m).forEach((n, idx) => { if (!key.has(n)) key.set(n, answers[idx]); });
+        i = k;
+    }
+    return key;
+};
+
+// --- Questões ---
+
+const QUESTION_START = /^(?:QUEST[ÃA]O\s*)?(\d{1,3})\s*(?:[.)\-–:]\s*|\s+(?=[A-ZÀ-Ú"“(]))(.*)$/i;
+const QUESTION_HEADER = /^QUEST[ÃA]O\s+(\d{1,3})\s*$/i;
+const CONTEXT_START = /^(Julgue|Com (?:base|rela[çc][ãa]o)|Considerando|Considere|Acerca d|A respeito d|No que (?:se refere|concerne|diz respeito)|Quanto a|Em rela[çc][ãa]o a|Texto\s+[IVX\d]+|Leia o texto)/i;
+const ANSWER_KEY_HEADING = /^(GABARITO|FOLHA DE RESPOSTAS)\b/i;
+// Título de seção ("CONHECIMENTOS ESPECÍFICOS"): linha inteira em maiúsculas
+const SECTION_HEADING = /^(?=.*[A-ZÀ-Ú]{4})[^a-zà-ú]{6,}$/;
+const OPTION_LINE = /^\(?([A-Ea-e])\s*[).\-–]\s+(.*)$/;
+
+interface RawItem {
+    number: number;
+    lines: string[];
+    context?: string;
+    /** Mesmo id = mesmo bloco de contexto, herdado pelas questões seguintes. */
+    contextId?: number;
+}
+
+/** Há alternativas por linha (A, B, ...) em sequência? */
+const hasOptionLines = (lines: string[]): boolean => {
+    let expected = 0;
+    lines.forEach(line => {
+        const letter = line.match(OPTION_LINE)?.[1].toUpperCase();
+        if (letter === OPTION_KEYS[expected]) expected++;
+    });
+    return expected >= 2;
+};
+
+const matchQuestionStart = (line: string): { number: number; rest: string } | null => {
+    const header = line.match(QUESTION_HEADER);
+    if (header) return { number: Number(header[1]), rest: '' };
+    const start = line.match(QUESTION_START);
+    return start ? { number: Number(start[1]), rest: start[2] } : null;
+};
+
+/**
+ * Índices das linhas que abrem questões: a maior sequência 1, 2, 3... de inícios
+ * numerados, o que descarta instruções numeradas da capa e "1. Os direitos..."
+ * dentro de um enunciado.
+ */
+const findQuestionStarts = (lines: string[]): number[] => {
+    const candidates = lines
+        .map((line, index) => ({ index, match: matchQuestionStart(line) }))
+        .filter((c): c is { index: number; match: { number: number; rest: string } } => c.match !== null);
+
+    let best: number[] = [];
+    candidates.forEach((start, ci) => {
+        const chain = [start.index];
+        let expected = start.match.number + 1;
+        for (let k = ci + 1; k < candidates.length; k++) {
+            if (candidates[k].match.number === expected) {
+                chain.push(candidates[k].index);
+                expected++;
+            }
+        }
+        // Empate: fica a sequência que começa depois (a capa vem antes das questões)
+        if (chain.length >= best.length) best = chain;
+    });
+    return best;
+};
+
+/**
+ * Divide o texto em blocos que começam em cada questão (mesma sequência do segment).
+ * Um bloco de contexto ("Julgue os itens...") antes de uma questão vai junto dela;
+ * o que vem antes da primeira questão fica no primeiro bloco. Sem sequência de ao
+ * menos duas questões, devolve [].
+ */
+export const splitAtQuestions = (text: string): string[] => {
+    const lines = text.split('\n');
+    const starts = findQuestionStarts(lines.map(l => l.trim()));
+    if (starts.length < 2) return [];
+
+    const cuts = starts.map((start, i) => {
+        let cut = start;
+        for (let j = start - 1; j > (i === 0 ? -1 : starts[i - 1]); j--) {
+            const line = lines[j].trim();
+            if (OPTION_LINE.test(line)) break;
+            if (CONTEXT_START.test(line)) cut = j;
+        }
+        return cut;
+    });
+    return cuts
+        .map((cut, i) => lines.slice(i === 0 ? 0 : cut, cuts[i + 1] ?? lines.length).join('\n').trim())
+        .filter(Boolean);
+};
+
+/**
+ * Agrupa as linhas por questão (inícios de findQuestionStarts). Um "Julgue os itens..." /
+ * "Considere..." só abre bloco de contexto entre questões: no meio de uma questão ainda
+ * sem alternativas (que vêm depois) ele é parte do enunciado. Títulos de seção encerram o contexto.
+ */
+const segment = (text: string): RawItem[] => {
+    const lines = text.split('\n').map(l => l.trim()).filter(Boolean);
+    const best = findQuestionStarts(lines);
+    const boundaries = new Set(best);
+
+    // Linhas até o próximo início de questão
+    const upcoming = (index: number): string[] => {
+        const next = best.find(b => b > index);
+        return lines.slice(index + 1, next ?? lines.length);
+    };
+    const isOpen = (item: RawItem | null, index: number): boolean =>
+        !!item && (item.lines.length === 0 || (!hasOptionLines(item.lines) && hasOptionLines(upcoming(index))));
+
+    const items: RawItem[] = [];
+    let current: RawItem | null = null;
+    let context: string[] | null = null;
+    let activeContext: string | undefined;
+    let contextId = 0;
+
+    lines.forEach((line, index) => {
+        if (boundaries.has(index)) {
+            if (context) {
+                activeContext = joinLines(context);
+                contextId++;
+                context = null;
+            }
+            const { number, rest } = matchQuestionStart(line)!;
+            current = { number, lines: rest ? [rest] : [], context: activeContext, contextId: activeContext ? contextId : undefined };
+            items.push(current);
+            return;
+        }
+        if (!context && !isOpen(current, index)) {
+            if (CONTEXT_START.test(line)) {
+                context = [line];
+                return;
+            }
+            if (SECTION_HEADING.test(line) && !OPTION_LINE.test(line)) {
+                activeContext = undefined;
+                return;
+            }
+        } else if (context && CONTEXT_START.test(line)) {
+            if (current) (current as RawItem).lines.push(...context);
+            context = [line];
+            return;
+        }
+        if (context) context.push(line);
+        else if (current) (current as RawItem).lines.push(line);
+    });
+    // Bloco "de contexto" sem questão depois era, na verdade, fim do último enunciado
+    if (context && items.length > 0) items[items.length - 1].lines.push(...context);
+
+    return items;
+};
+
+const joinLines = (lines: string[]): string =>
+    lines.reduce((acc, line) => {
+        if (!acc) return line;
+        // Junta linhas quebradas pelo layout; mantém parágrafos que terminam em pontuação
+        if (/[.:;?!]$/.test(acc)) return `${acc}\n${line}`;
+        if (/-$/.test(acc) && /^[a-zà-ú]/.test(line)) return acc.slice(0, -1) + line;
+        return `${acc} ${line}`;
+    }, '');
+
+/** Alternativas marcadas por linha ("A)", "(A)", "a.") ou pelo parser inline padrão. */
+const splitOptions = (lines: string[]): { stem: string; options: Partial<Record<OptionKey, string>> } => {
+    const stemLines: string[] = [];
+    const options: Partial<Record<OptionKey, string>> = {};
+    let currentKey: OptionKey | null = null;
+    let expected = 0;
+
+    lines.forEach(line => {
+        const m = line.match(OPTION_LINE);
+        const letter = m?.[1].toUpperCase() as OptionKey | undefined;
+        if (m && letter === OPTION_KEYS[expected]) {
+            currentKey = letter;
+            options[letter] = m[2];
+            expected++;
+        } else if (currentKey) {
+            options[currentKey] = joinLines([options[currentKey] || '', line]);
+        } else {
+            stemLines.push(line);
+        }
+    });
+
+    if (expected >= 2) {
+        OPTION_KEYS.forEach(k => { if (options[k]) options[k] = sanitizeOptionText(options[k]); });
+        return { stem: joinLines(stemLines), options };
+    }
+
+    const parsed = parseQuestionText(joinLines(lines));
+    return { stem: parsed.stem, options: parsed.options as Partial<Record<OptionKey, string>> };
+};
+
+/** Converte a resposta do gabarito para a convenção do app conforme o tipo do item. */
+export const resolveAnswer = (raw: string | undefined, kind: BookletItemKind): { answer: string; annulled: boolean } => {
+    if (!raw) return { answer: '', annulled: false };
+    if (raw === 'X') return { answer: '', annulled: true };
+    if (kind === 'CE') {
+        if (raw === 'C') return { answer: 'A', annulled: false };
+        if (raw === 'E') return { answer: 'B', annulled: false };
+        return { answer: '', annulled: false };
+    }
+    return { answer: OPTION_KEYS.includes(raw as OptionKey) ? raw : '', annulled: false };
+};
+
+/**
+ * Caderno + gabarito → linhas da grade. O gabarito pode vir no próprio caderno
+ * (após o título "GABARITO") ou em texto separado.
+ */
+export const parseBooklet = (bookletText: string, answerKeyText: string, defaults: BookletDefaults): StagedQuestion[] => {
+    // Gabarito no próprio arquivo: último título "GABARITO" da segunda metade (a capa costuma citá-lo também)
+    const lines = bookletText.replace(/\r\n?/g, '\n').split('\n');
+    let keyStart = -1;
+    lines.forEach((l, i) => { if (i >= lines.length / 2 && ANSWER_KEY_HEADING.test(l.trim()) && l.trim().length <= 60) keyStart = i; });
+    const bookletPart = keyStart >= 0 ? lines.slice(0, keyStart).join('\n') : bookletText;
+    const keyText = answerKeyText.trim() ? answerKeyText : keyStart >= 0 ? lines.slice(keyStart).join('\n') : '';
+    const answerKey = parseAnswerKey(keyText);
+    const cleaned = cleanBookletText(bookletPart);
+    // Tipo da primeira questão de cada bloco de contexto: outro tipo depois encerra o bloco
+    const contextKinds = new Map<number, BookletItemKind | null>();
+
+    return segment(cleaned).map(item => {
+        const { stem, options } = splitOptions(item.lines);
+        const optionCount = OPTION_KEYS.filter(k => options[k]).length;
+        const rawAnswer = answerKey.get(item.number);
+        // Sem alternativas é item de julgamento; gabarito só com C/E confirma
+        const kind: BookletItemKind = optionCount >= 2 ? 'AE' : 'CE';
+        const { answer, annulled } = resolveAnswer(rawAnswer, kind);
+
+        let context = item.context;
+        if (item.contextId !== undefined) {
+            if (!contextKinds.has(item.contextId)) contextKinds.set(item.contextId, kind);
+            // "Julgue os itens" não vale para a questão A–E que vem depois (nem para as seguintes)
+            if (contextKinds.get(item.contextId) !== kind) {
+                contextKinds.set(item.contextId, null);
+                context = undefined;
+            }
+        }
+
+        const staged: StagedQuestion = {
+            key: `${defaults.refPrefix}_${item.number}`,
+            number: item.number,
+            kind,
+            context,
+            stem: kind === 'AE' ? stem : joinLines(item.lines),
+            options: kind === 'AE' ? options : {},
+            answer,
+            annulled,
+            subject: defaults.subject,
+            topic: defaults.topic,
+            bank: defaults.bank,
+            position: defaults.position,
+            include: !annulled,
+        };
+        return staged;
+    });
+};
+
+/** Problemas que impedem a importação da linha (vazio = ok). */
+export const validateStaged = (row: StagedQuestion): string[] => {
+    const errors: string[] = [];
+    if (!row.stem.trim()) errors.push('Enunciado vazio');
+    if (row.annulled) errors.push('Questão anulada');
+    if (!row.answer) errors.push('Sem gabarito');
+    if (row.kind === 'AE') {
+        const filled = OPTION_KEYS.filter(k => row.options[k]?.trim());
+        if (filled.length < 2) errors.push('Menos de 2 alternativas');
+        if (row.answer && !row.options[row.answer as OptionKey]?.trim()) errors.push(`Gabarito ${row.answer} sem alternativa`);
+    } else if (row.answer && row.answer !== 'A' && row.answer !== 'B') {
+        errors.push('Gabarito de Certo/Errado deve ser C ou E');
+    }
+    if (!row.subject.trim()) errors.push('Sem disciplina');
+    return errors;
+};
+
+export const makeQuestionRef = (prefix: string, number: number): string =>
+    `${prefix}_Q${String(number).padStart(2, '0')}`;
+
+/** Sugestão de prefixo do Q_REF a partir da banca e do nome do arquivo. */
+export const suggestRefPrefix = (fileName: string, bank: string): string =>
+    [bank, fileName.replace(/\.[^.]+$/, '')]
+        .filter(Boolean)
+        .join('_')
+        .normalize('NFD').replace(/[\u0300-\u036f]/g, '')
+        .toUpperCase()
+        .replace(/[^A-Z0-9]+/g, '_')
+        .replace(/^_+|_+$/g, '')
+        .slice(0, 40) || 'CADERNO';
+
+export const stagedToQuestion = (row: StagedQuestion, refPrefix: string, sequenceNumber: number, settings: AppSettings): Omit<Question, 'id'> => {
+    const isCE = row.kind === 'CE';
+    const questionText = row.context ? `${row.context}\n\n${row.stem}` : row.stem;
+    const options = isCE
+        ? { A: 'Certo', B: 'Errado', C: '—', D: '—', E: '—' }
+        : { A: row.options.A, B: row.options.B, C: row.options.C, D: row.options.D, E: row.options.E };
+
+    return {
+        sequenceNumber,
+        bank: row.bank,
+        position: row.position,
+        subject: normalizeDiscipline(row.subject || 'Geral'),
+        topic: row.topic || 'Geral',
+        area: row.subject || 'Geral',
+        lawRef: '',
+        questionRef: makeQuestionRef(refPrefix, row.number),
+        questionText,
+        options,
+        explanation: '',
+        comments: '',
+        correctAnswer: row.answer,
+        questionType: isCE ? '13 C/E' : 'Múltipla Escolha',
+        createdAt: srs.todayISO(),
+        lastAttemptDate: '',
+        totalAttempts: 0,
+        errorCount: 0,
+        lastWasCorrect: false,
+        timeSec: 0,
+        selfEvalLevel: 0,
+        masteryScore: 0,
+        stability: settings.srsV2?.S_default_days ?? 1,
+        lastReviewedAt: undefined,
+        nextReviewDate: srs.todayISO(),
+        willFallExam: false,
+        srsStage: 0,
+        correctStreak: 0,
+        attemptHistory: [],
+        srsVersion: 2,
+        recentError: 0,
+        difficulty: 0.5,
+        difficultyLevel: 'normal',
+        hotTopic: false,
+        isCritical: false,
+        isFundamental: false,
+    };
+};
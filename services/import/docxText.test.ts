@@ -0,0 +1,52 @@
+import { describe, it, expect } from 'vitest';
+import { writeZip } from '../anki/zipArchive';
+import { decodeXml, extractDocxText } from './docxText';
+
+const encoder = new TextEncoder();
+
+const para = (text: string, numbering?: { numId: number; ilvl: number }) =>
+    `<w:p>${numbering ? `<w:pPr><w:numPr><w:ilvl w:val="${numbering.ilvl}"/><w:numId w:val="${numbering.numId}"/></w:numPr></w:pPr>` : ''}<w:r><w:t xml:space="preserve">${text}</w:t></w:r></w:p>`;
+
+const buildDocx = (body: string, numberingXml?: string): ArrayBuffer => {
+    const files = [{ name: 'word/document.xml', data: encoder.encode(`<?xml version="1.0"?><w:document><w:body>${body}</w:body></w:document>`) }];
+    if (numberingXml) files.push({ name: 'word/numbering.xml', data: encoder.encode(numberingXml) });
+    const zip = writeZip(files);
+    return zip.buffer.slice(zip.byteOffset, zip.byteOffset + zip.byteLength) as ArrayBuffer;
+};
+
+const NUMBERING = `<w:numbering>
+<w:abstractNum w:abstractNumId="0">
+<w:lvl w:ilvl="0"><w:start w:val="1"/><w:numFmt w:val="decimal"/><w:lvlText w:val="%1."/></w:lvl>
+<w:lvl w:ilvl="1"><w:start w:val="1"/><w:numFmt w:val="upperLetter"/><w:lvlText w:val="%2)"/></w:lvl>
+</w:abstractNum>
+<w:num w:numId="1"><w:abstractNumId w:val="0"/></w:num>
+</w:numbering>`;
+
+describe('extractDocxText', () => {
+    it('um parágrafo por linha, com entidades XML decodificadas', async () => {
+        const text = await extractDocxText(buildDocx(para('Caderno de prova') + para('Art. 5º &amp; &lt;incisos&gt;')));
+        expect(text).toBe('Caderno de prova\nArt. 5º & <incisos>');
+    });
+
+    it('materializa a numeração automática de questões e alternativas', async () => {
+        const body = [
+            para('Qual é a capital?', { numId: 1, ilvl: 0 }),
+            para('Brasília', { numId: 1, ilvl: 1 }),
+            para('Rio de Janeiro', { numId: 1, ilvl: 1 }),
+            para('Qual é o maior estado?', { numId: 1, ilvl: 0 }),
+            para('Amazonas', { numId: 1, ilvl: 1 }),
+        ].join('');
+        const text = await extractDocxText(buildDocx(body, NUMBERING));
+        // O nível de baixo recomeça a cada nova questão
+        expect(text.split('\n')).toEqual(['1. Qual é a capital?', 'A) Brasília', 'B) Rio de Janeiro', '2. Qual é o maior estado?', 'A) Amazonas']);
+    });
+
+    it('recusa ZIP sem word/document.xml', async () => {
+        const zip = writeZip([{ name: 'outro.txt', data: encoder.encode('x') }]);
+        await expect(extractDocxText(zip.buffer as ArrayBuffer)).rejects.toThrow('DOCX válido');
+    });
+
+    it('decodeXml trata entidades numéricas', () => {
+        expect(decodeXml('&#233;&#xE7;&amp;amp;')).toBe('éç&amp;');
+    });
+});
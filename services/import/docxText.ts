@@ -0,0 +1,120 @@
+import { readZip } from '../anki/zipArchive';
+
+/**
+ * EXTRAÇÃO DE TEXTO DE DOCX
+ * Lê word/document.xml parágrafo a parágrafo (tabelas viram uma linha por célula)
+ * e materializa a numeração automática do Word ("1.", "a)"), que não está no texto
+ * mas é justamente o que marca questões e alternativas nos cadernos.
+ */
+
+interface LevelFormat {
+    format: string; // decimal, lowerLetter, upperLetter, lowerRoman...
+    text: string; // Ex.: "%1." ou "%2)"
+    start: number;
+}
+
+export const decodeXml = (text: string): string =>
+    text
+        .replace(/&lt;/g, '<')
+        .replace(/&gt;/g, '>')
+        .replace(/&quot;/g, '"')
+        .replace(/&apos;/g, "'")
+        .replace(/&#(\d+);/g, (_, n) => String.fromCodePoint(Number(n)))
+        .replace(/&#x([0-9a-f]+);/gi, (_, n) => String.fromCodePoint(parseInt(n, 16)))
+        .replace(/&amp;/g, '&');
+
+const attr = (xml: string, tag: string): string | undefined =>
+    xml.match(new RegExp(`<w:${tag}\\b[^>]*\\bw:val="([^"]*)"`))?.[1];
+
+const toRoman = (n: number): string => {
+    const table: [number, string][] = [[1000, 'm'], [900, 'cm'], [500, 'd'], [400, 'cd'], [100, 'c'], [90, 'xc'], [50, 'l'], [40, 'xl'], [10, 'x'], [9, 'ix'], [5, 'v'], [4, 'iv'], [1, 'i']];
+    let out = '';
+    table.forEach(([v, s]) => { while (n >= v) { out += s; n -= v; } });
+    return out;
+};
+
+const formatNumber = (n: number, format: string): string => {
+    switch (format) {
+        case 'lowerLetter': return String.fromCharCode(96 + (((n - 1) % 26) + 1));
+        case 'upperLetter': return String.fromCharCode(64 + (((n - 1) % 26) + 1));
+        case 'lowerRoman': return toRoman(n);
+        case 'upperRoman': return toRoman(n).toUpperCase();
+        case 'bullet': case 'none': return '';
+        default: return String(n);
+    }
+};
+
+/** numId → níveis (formato, texto e início), resolvendo o abstractNum. */
+const parseNumbering = (xml: string | undefined): Map<string, LevelFormat[]> => {
+    const result = new Map<string, LevelFormat[]>();
+    if (!xml) return result;
+
+    const abstracts = new Map<string, LevelFormat[]>();
+    for (const match of xml.matchAll(/<w:abstractNum\b[^>]*w:abstractNumId="(\d+)"[^>]*>([\s\S]*?)<\/w:abstractNum>/g)) {
+        const levels: LevelFormat[] = [];
+        for (const lvl of match[2].matchAll(/<w:lvl\b[^>]*w:ilvl="(\d+)"[^>]*>([\s\S]*?)<\/w:lvl>/g)) {
+            levels[Number(lvl[1])] = {
+                format: attr(lvl[2], 'numFmt') || 'decimal',
+                text: attr(lvl[2], 'lvlText') ?? `%${Number(lvl[1]) + 1}.`,
+                start: Number(attr(lvl[2], 'start') || 1),
+            };
+        }
+        abstracts.set(match[1], levels);
+    }
+    for (const match of xml.matchAll(/<w:num\b[^>]*w:numId="(\d+)"[^>]*>([\s\S]*?)<\/w:num>/g)) {
+        const abstractId = attr(match[2], 'abstractNumId');
+        if (abstractId && abstracts.has(abstractId)) result.set(match[1], abstracts.get(abstractId)!);
+    }
+    return result;
+};
+
+const paragraphText = (xml: string): string => {
+    let out = '';
+    for (const token of xml.matchAll(/<w:t(?:\s[^>]*)?>([\s\S]*?)<\/w:t>|<w:(tab|br|cr)\b[^>]*\/>/g)) {
+        if (token[1] !== undefined) out += decodeXml(token[1]);
+        else out += token[2] === 'tab' ? '\t' : '\n';
+    }
+    return out;
+};
+
+/** Texto do DOCX, um parágrafo por linha. */
+export const extractDocxText = async (buffer: ArrayBuffer): Promise<string> => {
+    const entries = await readZip(buffer);
+    const documentXml = entries.get('word/document.xml');
+    if (!documentXml) throw new Error('Arquivo não é um DOCX válido (word/document.xml ausente).');
+
+    const decoder = new TextDecoder();
+    const xml = decoder.decode(documentXml);
+    const numbering = parseNumbering(entries.has('word/numbering.xml') ? decoder.decode(entries.get('word/numbering.xml')!) : undefined);
+    const counters = new Map<string, number[]>();
+
+    const lines: string[] = [];
+    for (const para of xml.matchAll(/<w:p\b[^>]*?(?:\/>|>([\s\S]*?)<\/w:p>)/g)) {
+        const body = para[1] || '';
+        let prefix = '';
+
+        const numPr = body.match(/<w:numPr>([\s\S]*?)<\/w:numPr>/)?.[1];
+        const numId = numPr ? attr(numPr, 'numId') : undefined;
+        const levels = numId ? numbering.get(numId) : undefined;
+        if (numId && levels && numId !== '0') {
+            const ilvl = Number(attr(numPr!, 'ilvl') || 0);
+            const count = counters.get(numId) || [];
+            // Avança o nível atual e zera os mais profundos
+            count[ilvl] = (count[ilvl] ?? ((levels[ilvl]?.start ?? 1) - 1)) + 1;
+            count.length = ilvl + 1;
+            counters.set(numId, count);
+
+            const level = levels[ilvl];
+            if (level && level.format !== 'bullet' && level.format !== 'none') {
+                prefix = level.text.replace(/%(\d)/g, (_, d) => {
+                    const i = Number(d) - 1;
+                    return formatNumber(count[i] ?? levels[i]?.start ?? 1, levels[i]?.format || 'decimal');
+                }) + ' ';
+            }
+        }
+
+        lines.push(prefix + paragraphText(body));
+    }
+
+    return lines.join('\n').replace(/\n{3,}/g, '\n\n').trim();
+};
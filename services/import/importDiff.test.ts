@@ -0,0 +1,18 @@
+import { describe, it, expect } from 'vitest';
+import { LiteralnessCard } from '../../types';
+import { computeImportDiff } from './importDiff';
+
+const card = (extra: Partial<LiteralnessCard> = {}): LiteralnessCard => ({
+    id: 'cf88_art5', lawId: 'CF88', article: 'Art. 5º', phase1Full: 'Todos são iguais perante a lei.', ...extra,
+} as LiteralnessCard);
+
+describe('computeImportDiff', () => {
+    it('mudança só na estrutura da lei aparece no diff do card, sem invalidar o progresso', () => {
+        const existing = card({ structurePath: [{ level: 'TITULO', label: 'Título II' }] as LiteralnessCard['structurePath'] });
+        const incoming = card({ structurePath: [{ level: 'TITULO', label: 'Título II' }, { level: 'CAPITULO', label: 'Capítulo I' }] as LiteralnessCard['structurePath'] });
+
+        const dryRun = computeImportDiff({ questions: [], cards: [incoming], flashcards: [] }, { questions: [], cards: [existing], flashcards: [] }, 'OVERWRITE');
+        const changes = dryRun.diffs.flatMap(d => d.changes);
+        expect(changes).toEqual([{ field: 'structurePath', before: 'Título II', after: 'Título II > Capítulo I', invalidatesProgress: false }]);
+    });
+});
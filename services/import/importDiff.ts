@@ -0,0 +1,233 @@
+import {
+    Question, Flashcard, LiteralnessCard, Gap, ImportMode, ImportReport, ImportStagingData,
+    ImportDryRun, ImportEntityDiff, ImportFieldChange, ImportDecision, ImportEntityType
+} from '../../types';
+import { normalizeQuestion } from '../migrationService';
+import { formatStructurePath } from '../lawStructureService';
+
+/**
+ * DRY-RUN DE IMPORTAÇÃO
+ * Antes de gravar, compara o que veio no arquivo com o que já existe e lista,
+ * campo a campo, o que o commit mudaria (seguindo a mesma regra de cada modo:
+ * MERGE de questões só preenche campos vazios, OVERWRITE troca o conteúdo).
+ * Mudanças que tornam o progresso enganoso (gabarito, alternativas, texto da
+ * lacuna) ficam marcadas para o usuário decidir item a item.
+ */
+
+// Campos que o MERGE de questões preenche quando estão vazios (mesma lista do QuestionContext)
+export const QUESTION_MERGE_FIELDS: (keyof Question)[] = [
+    'explanationTech', 'explanationStory', 'feynmanQuestions',
+    'distractorProfile', 'wrongDiagnosis', 'wrongDiagnosisMap',
+    'rawImportBlock', 'lawRef', 'guiaTrapscan', 'keyDistinction', 'anchorText'
+];
+
+// Campos comparados no OVERWRITE (o restante é metadado ou progresso)
+export const QUESTION_DIFF_FIELDS: (keyof Question)[] = [
+    'questionText', 'options', 'correctAnswer', 'explanation', 'explanationTech', 'explanationStory',
+    'feynmanQuestions', 'distractorProfile', 'wrongDiagnosis', 'wrongDiagnosisMap', 'guiaTrapscan',
+    'keyDistinction', 'anchorText', 'lawRef', 'subject', 'topic', 'questionType', 'bank', 'position'
+];
+
+// Campos que o arquivo LIT_REF carrega; o resto (progresso, notas, ciclo) fica com o que já existe
+export const CARD_CONTENT_FIELDS: (keyof LiteralnessCard)[] = [
+    'lawId', 'article', 'topic', 'phase1Full', 'partsSummary', 'keywordsProva', 'riscoFcc', 'gancho', 'storytelling',
+    'feynmanExplanation', 'phase3Original', 'phase3Variant', 'explain', 'extraGaps', 'phase2Lacuna', 'phase2Options',
+    'phase2Correct', 'studyFlow', 'importBatchId', 'structurePath'
+];
+export const FLASHCARD_CONTENT_FIELDS: (keyof Flashcard)[] = ['front', 'back', 'discipline', 'topic', 'tags', 'importBatchId'];
+
+export const pickFields = <T extends object>(source: T, fields: (keyof T)[]): Partial<T> =>
+    Object.fromEntries(fields.map(f => [f, source[f]])) as Partial<T>;
+
+// Derivados ou de controle: não entram no diff de cards
+const CARD_IGNORED_FIELDS = new Set<keyof LiteralnessCard>(['extraGaps', 'phase2Lacuna', 'phase2Options', 'phase2Correct', 'studyFlow', 'importBatchId', 'structurePath']);
+const CARD_DIFF_FIELDS = CARD_CONTENT_FIELDS.filter(f => !CARD_IGNORED_FIELDS.has(f));
+
+const QUESTION_PROGRESS_FIELDS = new Set(['questionText', 'correctAnswer']);
+const CARD_PROGRESS_FIELDS = new Set(['phase1Full']);
+const FLASHCARD_PROGRESS_FIELDS = new Set(['back']);
+
+const isEmpty = (value: any): boolean =>
+    value === undefined || value === null || value === '' ||
+    (Array.isArray(value) && value.length === 0) ||
+    (typeof value === 'object' && !Array.isArray(value) && Object.keys(value).length === 0);
+
+const display = (value: any): string => {
+    if (isEmpty(value)) return '';
+    if (typeof value === 'string') return value;
+    if (Array.isArray(value)) return value.map(display).join('; ');
+    return JSON.stringify(value);
+};
+
+const pushChange = (changes: ImportFieldChange[], field: string, before: any, after: any, invalidatesProgress: boolean) => {
+    const b = display(before);
+    const a = display(after);
+    if (b.trim() !== a.trim()) changes.push({ field, before: b, after: a, invalidatesProgress });
+};
+
+/** Alternativas viram um campo por letra ("options.B"), para o diff mostrar só a que mudou. */
+const pushOptionChanges = (changes: ImportFieldChange[], prefix: string, before: Record<string, any> = {}, after: Record<string, any> = {}) => {
+    const letters = [...new Set([...Object.keys(before || {}), ...Object.keys(after || {})])].sort();
+    letters.forEach(letter => pushChange(changes, `${prefix}.${letter}`, before?.[letter], after?.[letter], true));
+};
+
+const diffQuestion = (existing: Question, incoming: Question, mode: ImportMode): ImportFieldChange[] => {
+    const changes: ImportFieldChange[] = [];
+    if (mode === 'MERGE') {
+        QUESTION_MERGE_FIELDS.forEach(field => {
+            if (isEmpty(existing[field]) && !isEmpty(incoming[field])) pushChange(changes, field, existing[field], incoming[field], false);
+        });
+        return changes;
+    }
+    QUESTION_DIFF_FIELDS.forEach(field => {
+        if (field === 'options') pushOptionChanges(changes, 'options', existing.options, incoming.options);
+        else pushChange(changes, field, existing[field], incoming[field], QUESTION_PROGRESS_FIELDS.has(field));
+    });
+    return changes;
+};
+
+const diffGaps = (changes: ImportFieldChange[], before: Gap[] = [], after: Gap[] = []) => {
+    const byId = new Map(before.filter(g => g.id).map(g => [g.id!, g]));
+    const matched = new Set<Gap>();
+    after.forEach((gap, i) => {
+        const previous = (gap.id && byId.get(gap.id)) || (!gap.id ? before[i] : undefined);
+        const label = `lacuna ${i + 1}`;
+        if (!previous) {
+            pushChange(changes, label, '', gap.text, false);
+            return;
+        }
+        matched.add(previous);
+        pushChange(changes, `${label}.texto`, previous.text, gap.text, true);
+        pushChange(changes, `${label}.correta`, previous.correct, gap.correct, true);
+        pushOptionChanges(changes, `${label}.opcoes`, previous.options, gap.options);
+    });
+    before.filter(g => !matched.has(g)).forEach(gap => pushChange(changes, `lacuna removida`, gap.text, '', true));
+};
+
+const diffCard = (existing: LiteralnessCard, incoming: LiteralnessCard): ImportFieldChange[] => {
+    const changes: ImportFieldChange[] = [];
+    CARD_DIFF_FIELDS.forEach(field => pushChange(changes, field, existing[field], incoming[field], CARD_PROGRESS_FIELDS.has(field)));
+    // Caminho na estrutura da lei no mesmo formato do arquivo ("Título II > Capítulo I")
+    pushChange(changes, 'structurePath', formatStructurePath(existing.structurePath), formatStructurePath(incoming.structurePath), false);
+    diffGaps(changes, existing.extraGaps, incoming.extraGaps);
+    return changes;
+};
+
+const sortedTags = (tags?: string[]) => [...(tags || [])].sort();
+
+const diffFlashcard = (existing: Flashcard, incoming: Flashcard): ImportFieldChange[] => {
+    const changes: ImportFieldChange[] = [];
+    (['front', 'back', 'discipline', 'topic'] as (keyof Flashcard)[]).forEach(field =>
+        pushChange(changes, field, existing[field], incoming[field], FLASHCARD_PROGRESS_FIELDS.has(field)));
+    pushChange(changes, 'tags', sortedTags(existing.tags), sortedTags(incoming.tags), false);
+    return changes;
+};
+
+const makeDiff = (key: string, entityType: ImportEntityType, ref: string, targetId: string, changes: ImportFieldChange[]): ImportEntityDiff => ({
+    key, entityType, ref, targetId, changes, invalidatesProgress: changes.some(c => c.invalidatesProgress)
+});
+
+export interface ExistingContent {
+    questions: Question[];
+    cards: LiteralnessCard[];
+    flashcards: Flashcard[];
+}
+
+/**
+ * Casa cada questão recebida com a existente pela mesma regra do addBatchQuestions:
+ * id estável primeiro, depois questionRef. Devolve a questão normalizada e o alvo.
+ */
+export const createQuestionMatcher = (existing: Question[]) => {
+    const byId = new Map(existing.map(q => [q.id, q]));
+    const byRef = new Map(existing.map(q => [q.questionRef, q]));
+    return (q: Question): { normalized: Question; target?: Question } => {
+        const inputId = (q as any).id;
+        const hasStableId = inputId && !inputId.toString().startsWith('temp');
+        const normalized = normalizeQuestion({ ...q, id: hasStableId ? inputId : 'temp' }, q.lawRef || '');
+        return { normalized, target: (hasStableId && byId.get(normalized.id)) || byRef.get(normalized.questionRef) };
+    };
+};
+
+/**
+ * Calcula o que o commit faria. Questões são casadas por id estável e depois por
+ * questionRef (como o addBatchQuestions); cards e flashcards, por id. Em SKIP nada
+ * existente muda, então não há diff a revisar.
+ */
+export const computeImportDiff = (staging: Pick<ImportStagingData, 'questions' | 'cards' | 'flashcards'>, existing: ExistingContent, mode: ImportMode): ImportDryRun => {
+    const result: ImportDryRun = { mode, newEntities: 0, unchangedEntities: 0, skippedEntities: 0, diffs: [] };
+    const collect = (key: string, entityType: ImportEntityType, ref: string, target: { id: string } | undefined, changes: () => ImportFieldChange[]) => {
+        if (!target) { result.newEntities++; return; }
+        if (mode === 'SKIP') { result.skippedEntities++; return; }
+        const found = changes();
+        if (found.length === 0) result.unchangedEntities++;
+        else result.diffs.push(makeDiff(key, entityType, ref, target.id, found));
+    };
+
+    const matchQuestion = createQuestionMatcher(existing.questions);
+    staging.questions.forEach((q, i) => {
+        const { normalized, target } = matchQuestion(q);
+        // O lado existente também passa pela normalização, senão caixa de lawRef e defaults viram diff
+        collect(`questions:${i}`, 'question', normalized.questionRef || normalized.id, target, () => diffQuestion(normalizeQuestion(target!, target!.lawRef || ''), normalized, mode));
+    });
+
+    const cardsById = new Map(existing.cards.map(c => [c.id, c]));
+    staging.cards.forEach((c, i) => {
+        const target = cardsById.get(c.id);
+        collect(`cards:${i}`, 'lawCard', c.id, target, () => diffCard(target!, c));
+    });
+
+    const flashcardsById = new Map(existing.flashcards.map(f => [f.id, f]));
+    staging.flashcards.forEach((f, i) => {
+        const target = flashcardsById.get(f.id);
+        const entityType: ImportEntityType = f.tags?.includes('pair-match') ? 'pair' : 'flashcard';
+        collect(`flashcards:${i}`, entityType, f.id, target, () => diffFlashcard(target!, f));
+    });
+
+    return result;
+};
+
+/**
+ * Remove do staging as entidades rejeitadas (e, para cards, as lacunas soltas
+ * do mesmo LIT_REF). O que não tem diff passa direto.
+ */
+export const applyImportDecisions = <T extends Pick<ImportStagingData, 'questions' | 'cards' | 'flashcards' | 'gaps'>>(staging: T, rejected: Set<string>): T => {
+    if (rejected.size === 0) return staging;
+    const keep = (collection: string) => (_: any, i: number) => !rejected.has(`${collection}:${i}`);
+    const rejectedCardIds = new Set(staging.cards.filter((_, i) => rejected.has(`cards:${i}`)).map(c => c.id));
+    return {
+        ...staging,
+        questions: staging.questions.filter(keep('questions')),
+        cards: staging.cards.filter(keep('cards')),
+        flashcards: staging.flashcards.filter(keep('flashcards')),
+        gaps: staging.gaps.filter(g => !rejectedCardIds.has(g.litRef)),
+    };
+};
+
+export const buildDecisionLog = (dryRun: ImportDryRun, rejected: Set<string>): ImportDecision[] => {
+    const decidedAt = new Date().toISOString();
+    return dryRun.diffs.map(diff => ({
+        key: diff.key,
+        entityType: diff.entityType,
+        ref: diff.ref,
+        decision: rejected.has(diff.key) ? 'REJECTED' : 'ACCEPTED',
+        fields: diff.changes.map(c => c.field),
+        invalidatesProgress: diff.invalidatesProgress,
+        decidedAt,
+    }));
+};
+
+/** Grava o dry-run e as decisões no relatório (é o que vai no log baixado). */
+export const recordImportDecisions = (report: ImportReport, dryRun: ImportDryRun, rejected: Set<string>): ImportReport => {
+    const decisions = buildDecisionLog(dryRun, rejected);
+    const rejectedCount = decisions.filter(d => d.decision === 'REJECTED').length;
+    return {
+        ...report,
+        dryRun,
+        decisions,
+        summary: {
+            ...report.summary,
+            importedEntities: Math.max(0, report.summary.importedEntities - rejectedCount),
+            skippedEntities: report.summary.skippedEntities + rejectedCount,
+        },
+    };
+};
@@ -0,0 +1,94 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { Flashcard, LiteralnessCard, Question } from '../../types';
+
+const keyval = vi.hoisted(() => new Map<string, any>());
+
+vi.mock('../storage', () => ({
+    loadData: async (key: string) => keyval.get(key) ?? null,
+    saveData: async (key: string, data: any) => { keyval.set(key, structuredClone(data)); },
+}));
+
+import { loadImportHistory, markBatchRolledBack, planRollback, recordImportBatch } from './importHistory';
+
+const question = (id: string, extra: Partial<Question> = {}): Question => ({
+    id, questionRef: id.toUpperCase(), questionText: `Enunciado ${id}`, options: { A: 'Certo', B: 'Errado' }, correctAnswer: 'A',
+    subject: 'Penal', topic: 'Furto', lawRef: '', ...extra,
+} as Question);
+const flashcard = (id: string, extra: Partial<Flashcard> = {}) => ({ id, front: `Frente ${id}`, back: `Verso ${id}`, tags: [], ...extra } as Flashcard);
+const card = (id: string, extra: Partial<LiteralnessCard> = {}) => ({ id, lawId: 'CP', article: id, phase1Full: `Texto ${id}`, ...extra } as LiteralnessCard);
+
+describe('recordImportBatch', () => {
+    beforeEach(() => keyval.clear());
+
+    it('guarda a versão anterior só do que o lote sobrescreve', async () => {
+        const existing = { questions: [question('q1', { masteryScore: 70 })], flashcards: [flashcard('f1')], cards: [card('art155')] };
+        const record = await recordImportBatch({
+            batchId: 'IMP_TXT_1', source: 'TXT', label: 'lote', mode: 'OVERWRITE',
+            questions: [question('q1', { questionText: 'Novo' }), question('q2')],
+            flashcards: [flashcard('f1', { back: 'Novo' }), flashcard('f2')],
+            cards: [card('art155', { phase1Full: 'Novo' }), card('art157')],
+        }, existing);
+
+        expect(record.counts).toEqual({ questions: 2, flashcards: 2, cards: 2 });
+        expect(record.previous.questions).toEqual(existing.questions);
+        expect(record.previous.flashcards).toEqual(existing.flashcards);
+        expect(record.previous.cards).toEqual(existing.cards);
+        expect((await loadImportHistory()).map(r => r.batchId)).toEqual(['IMP_TXT_1']);
+    });
+
+    it('SKIP não sobrescreve questões existentes e o lote mais recente vem primeiro', async () => {
+        const existing = { questions: [question('q1')], flashcards: [], cards: [] };
+        await recordImportBatch({ batchId: 'IMP_TXT_1', source: 'TXT', label: 'a', mode: 'OVERWRITE', questions: [question('q1')] }, existing);
+        const skipped = await recordImportBatch({ batchId: 'IMP_TXT_2', source: 'TXT', label: 'b', mode: 'SKIP', questions: [question('q1')] }, existing);
+
+        expect(skipped.previous.questions).toEqual([]);
+        expect((await loadImportHistory()).map(r => r.batchId)).toEqual(['IMP_TXT_2', 'IMP_TXT_1']);
+    });
+
+    it('conta quase-duplicatas só entre os itens novos', async () => {
+        const existing = { questions: [question('q1', { questionText: 'O furto de coisa comum é punido com detenção de seis meses a dois anos' })], flashcards: [], cards: [] };
+        const record = await recordImportBatch({
+            batchId: 'IMP_TXT_3', source: 'TXT', label: 'c', mode: 'SKIP',
+            questions: [question('q9', { questionText: 'O furto de coisa comum é punido com detenção de seis meses a dois anos.' })],
+        }, existing);
+        expect(record.nearDuplicates).toBe(1);
+    });
+});
+
+describe('planRollback', () => {
+    beforeEach(() => keyval.clear());
+
+    it('apaga o que o lote criou, restaura os snapshots e não toca o resto', async () => {
+        const before = { questions: [question('q1', { masteryScore: 70 })], flashcards: [flashcard('f1')], cards: [card('art155')] };
+        const record = await recordImportBatch({
+            batchId: 'IMP_TXT_1', source: 'TXT', label: 'lote', mode: 'OVERWRITE',
+            questions: [question('q1'), question('q2')], flashcards: [flashcard('f1'), flashcard('f2')], cards: [card('art155'), card('art157')],
+        }, before);
+
+        const current = {
+            questions: [
+                question('q1', { importBatchId: 'IMP_TXT_1' }), question('q2', { importBatchId: 'IMP_TXT_1' }),
+                question('q3', { importBatchId: 'IMP_OUTRO' }), question('q4', { importBatchId: 'IMP_TXT_1', deletedAt: '2026-01-01' }),
+            ],
+            flashcards: [flashcard('f1', { importBatchId: 'IMP_TXT_1' }), flashcard('f2', { importBatchId: 'IMP_TXT_1' }), flashcard('f3')],
+            cards: [card('art155', { importBatchId: 'IMP_TXT_1' }), card('art157', { importBatchId: 'IMP_TXT_1' })],
+        };
+        const plan = planRollback(record, current);
+
+        expect(plan.deleteQuestionIds).toEqual(['q2']);
+        expect(plan.deleteFlashcardIds).toEqual(['f2']);
+        expect(plan.deleteCardIds).toEqual(['art157']);
+        // Snapshot inteiro, sem o importBatchId do lote
+        expect(plan.restoreQuestions).toEqual(before.questions);
+        expect(plan.restoreFlashcards).toEqual(before.flashcards);
+        expect(plan.restoreCards).toEqual(before.cards);
+    });
+
+    it('marca o lote como desfeito com as contagens', async () => {
+        await recordImportBatch({ batchId: 'IMP_TXT_1', source: 'TXT', label: 'lote', mode: 'SKIP', questions: [question('q2')] }, { questions: [], flashcards: [], cards: [] });
+        await markBatchRolledBack('IMP_TXT_1', { removed: 1, restored: 0 });
+        const [record] = await loadImportHistory();
+        expect(record.rollback).toEqual({ removed: 1, restored: 0 });
+        expect(record.rolledBackAt).toBeDefined();
+    });
+});
@@ -0,0 +1,158 @@
+import { Question, Flashcard, LiteralnessCard, ImportMode } from '../../types';
+import { saveData, loadData } from '../storage';
+import { createQuestionMatcher, ExistingContent } from './importDiff';
+import { syncQuestionIndex, syncFlashcardIndex, questionSegments, flashcardSegments, isPairCard } from '../dedup/similarityIndex';
+import { findIncomingNearDuplicates } from '../dedup/duplicateClusters';
+
+/**
+ * HISTÓRICO DE IMPORTAÇÕES
+ * Cada importação grava um registro com origem, contagens e a versão anterior de
+ * tudo que ela sobrescreveu. O rollback apaga o que o lote criou (tudo que ainda
+ * carrega o importBatchId dele) e devolve as entidades sobrescritas ao estado de
+ * antes — o resto da base não é tocado.
+ */
+
+const LS_IMPORT_HISTORY_KEY = 'revApp_import_history_v1';
+const MAX_RECORDS = 50;
+
+export type ImportSource = 'LIT_REF' | 'TRILHA' | 'TXT' | 'CADERNO' | 'IA' | 'ANKI' | 'FLASHCARDS_TXT' | 'PARES' | 'PLANILHA' | 'PACOTE';
+
+export const IMPORT_SOURCE_LABELS: Record<ImportSource, string> = {
+    LIT_REF: 'Lei Seca (LIT_REF)',
+    TRILHA: 'Trilha',
+    TXT: 'Questões (.txt)',
+    CADERNO: 'Caderno (PDF/DOCX)',
+    IA: 'IA Mágica',
+    ANKI: 'Anki',
+    FLASHCARDS_TXT: 'Flashcards (texto)',
+    PARES: 'Pares',
+    PLANILHA: 'Planilha (CSV/XLSX)',
+    PACOTE: 'Pacote de conteúdo',
+};
+
+export interface ImportBatchRecord {
+    batchId: string;
+    source: ImportSource;
+    label: string;
+    timestamp: string;
+    mode: ImportMode;
+    counts: { questions: number; flashcards: number; cards: number };
+    /** Versões anteriores das entidades existentes que o lote sobrescreveu. */
+    previous: { questions: Question[]; flashcards: Flashcard[]; cards: LiteralnessCard[] };
+    /** Itens novos do lote com quase-duplicata na base (resolver na aba Duplicatas). */
+    nearDuplicates?: number;
+    rolledBackAt?: string;
+    rollback?: RollbackCounts;
+}
+
+export interface RollbackCounts {
+    removed: number;
+    restored: number;
+}
+
+export interface RollbackPlan {
+    deleteQuestionIds: string[];
+    deleteFlashcardIds: string[];
+    deleteCardIds: string[];
+    restoreQuestions: Question[];
+    restoreFlashcards: Flashcard[];
+    restoreCards: LiteralnessCard[];
+}
+
+export interface ImportBatchInput {
+    batchId: string;
+    source: ImportSource;
+    label: string;
+    /** Modo das questões; cards e flashcards são passados já filtrados (só o que será gravado). */
+    mode: ImportMode;
+    questions?: Question[];
+    flashcards?: Flashcard[];
+    cards?: LiteralnessCard[];
+}
+
+export const createImportBatchId = (source: ImportSource): string => `IMP_${source}_${Date.now()}`;
+
+export const loadImportHistory = async (): Promise<ImportBatchRecord[]> =>
+    (await loadData<ImportBatchRecord[]>(LS_IMPORT_HISTORY_KEY)) || [];
+
+/**
+ * Registra o lote antes do commit: o snapshot precisa ser tirado do estado atual,
+ * antes de as entidades existentes serem sobrescritas.
+ */
+export const recordImportBatch = async (input: ImportBatchInput, existing: Partial<ExistingContent>): Promise<ImportBatchRecord> => {
+    const questions = input.questions || [];
+    const flashcards = input.flashcards || [];
+    const cards = input.cards || [];
+
+    // SKIP não toca questões existentes; MERGE/OVERWRITE sim
+    const matchQuestion = createQuestionMatcher(existing.questions || []);
+    const previousQuestions = input.mode === 'SKIP' ? [] : questions.map(q => matchQuestion(q).target).filter((q): q is Question => !!q);
+    const flashcardsById = new Map((existing.flashcards || []).map(f => [f.id, f]));
+    const cardsById = new Map((existing.cards || []).map(c => [c.id, c]));
+
+    // Só os itens novos são consultados; o índice da base é atualizado de forma incremental
+    const newQuestions = questions.filter(q => !matchQuestion(q).target);
+    const newFlashcards = flashcards.filter(f => !flashcardsById.has(f.id));
+    let nearDuplicates = 0;
+    if (newQuestions.length > 0) {
+        const index = syncQuestionIndex(existing.questions || []);
+        nearDuplicates += findIncomingNearDuplicates(newQuestions.map((q, i) => ({ id: `novo_${i}`, segments: questionSegments(q) })), index).size;
+    }
+    (['flashcard', 'pair'] as const).forEach(kind => {
+        const incoming = newFlashcards.filter(f => isPairCard(f) === (kind === 'pair'));
+        if (incoming.length === 0) return;
+        const index = syncFlashcardIndex(existing.flashcards || [], kind);
+        nearDuplicates += findIncomingNearDuplicates(incoming.map(f => ({ id: f.id, segments: flashcardSegments(f) })), index).size;
+    });
+
+    const record: ImportBatchRecord = {
+        batchId: input.batchId,
+        source: input.source,
+        label: input.label,
+        timestamp: new Date().toISOString(),
+        mode: input.mode,
+        counts: { questions: questions.length, flashcards: flashcards.length, cards: cards.length },
+        previous: {
+            questions: [...new Map(previousQuestions.map(q => [q.id, q])).values()],
+            flashcards: flashcards.map(f => flashcardsById.get(f.id)).filter((f): f is Flashcard => !!f),
+            cards: cards.map(c => cardsById.get(c.id)).filter((c): c is LiteralnessCard => !!c),
+        },
+        nearDuplicates: nearDuplicates || undefined,
+    };
+
+    try {
+        const history = await loadImportHistory();
+        await saveData(LS_IMPORT_HISTORY_KEY, [record, ...history.filter(r => r.batchId !== record.batchId)].slice(0, MAX_RECORDS));
+    } catch (e) {
+        console.error('[ImportHistory] Erro ao salvar registro:', e);
+    }
+    return record;
+};
+
+/**
+ * O que desfazer: entidades com o importBatchId do lote que não existiam antes
+ * saem; as sobrescritas voltam à versão salva.
+ */
+export const planRollback = (record: ImportBatchRecord, current: ExistingContent): RollbackPlan => {
+    const previousIds = {
+        questions: new Set(record.previous.questions.map(q => q.id)),
+        flashcards: new Set(record.previous.flashcards.map(f => f.id)),
+        cards: new Set(record.previous.cards.map(c => c.id)),
+    };
+    const createdBy = <T extends { id: string; importBatchId?: string }>(items: T[], previous: Set<string>) =>
+        items.filter(item => item.importBatchId === record.batchId && !previous.has(item.id)).map(item => item.id);
+
+    return {
+        deleteQuestionIds: createdBy(current.questions.filter(q => !q.deletedAt), previousIds.questions),
+        deleteFlashcardIds: createdBy(current.flashcards, previousIds.flashcards),
+        deleteCardIds: createdBy(current.cards, previousIds.cards),
+        restoreQuestions: record.previous.questions,
+        restoreFlashcards: record.previous.flashcards,
+        restoreCards: record.previous.cards,
+    };
+};
+
+export const markBatchRolledBack = async (batchId: string, counts: RollbackCounts): Promise<void> => {
+    const history = await loadImportHistory();
+    await saveData(LS_IMPORT_HISTORY_KEY, history.map(r => r.batchId === batchId ? { ...r, rolledBackAt: new Date().toISOString(), rollback: counts } : r));
+};
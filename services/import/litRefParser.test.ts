@@ -0,0 +1,26 @@
+import { describe, it, expect } from 'vitest';
+import { AppSettings } from '../../types';
+import { parseLitRefText } from './litRefParser';
+
+const settings = { srsV2: { S_default_days: 1 } } as unknown as AppSettings;
+
+const block = (lawRef: string) =>
+    `LIT_REF: CF88_ART5 LAW_ID: CF88 ARTICLE: Art. 5º STRUCTURE: Título II > Capítulo I PHASE1_FULL: Todos são iguais perante a lei. ` +
+    `Q_REF: Q1 LAW_REF: ${lawRef} Q_TEXT: A casa é asilo inviolável? A: Sim B: Não CORRECT: A`;
+
+describe('parseLitRefText', () => {
+    it('lê o caminho na estrutura da lei', () => {
+        const { cards } = parseLitRefText(block('CF88_ART5'), settings, 'B1');
+        expect(cards[0].structurePath?.map(h => h.label)).toEqual(['Título II', 'Capítulo I']);
+    });
+
+    it('LAW_REF de dispositivo do próprio núcleo é mantido na forma canônica', () => {
+        const { questions } = parseLitRefText(block('CF88_ART5#INC_XI'), settings, 'B1');
+        expect(questions[0].lawRef).toBe('cf88_art5#inc_xi');
+    });
+
+    it('LAW_REF de outro artigo cai no núcleo', () => {
+        const { questions } = parseLitRefText(block('CF88_ART6'), settings, 'B1');
+        expect(questions[0].lawRef).toBe('cf88_art5');
+    });
+});
@@ -1,9 +1,10 @@
 
-import { LiteralnessCard, Question, Flashcard, AppSettings } from '../../types';
+import { LiteralnessCard, Question, Flashcard, AppSettings, Gap } from '../../types';
 import * as srs from '../srsService';
 import * as idGen from '../idGenerator';
 import { buildReadingSteps } from '../readingParser';
 import { sanitizeOptionText } from '../questionParser'; // IMPORT SANITIZER
+import { parseStructurePath, formatStructurePath, makeDispositivoRef, splitLitRef } from '../lawStructureService';
 
 export interface ImportResult {
     batchId: string;
@@ -35,6 +36,24 @@ export interface ImportReport {
     detectedGaps: string[];
 }
 
+// Regex expandido para incluir campos do Feedback Engine com suporte a variações
+const LIT_REF_KEYS = [
+    'LIT_REF', 'LAW_ID', 'ARTICLE', 'TOPIC', 'STRUCTURE', 'ESTRUTURA', 'PHASE1_FULL', 'PARTS_SUMMARY', 'RESUMO_POR_PARTES', 'KEYWORDS_PROVA', 'RISCO_FCC',
+    'GANCHO_MNEMONICO', 'STORYTELLING', 'FEYNMAN', 'PHASE3_ORIGINAL', 'PHASE3_VARIANT', 'EXPLAIN',
+    'PHASE2_LACUNA_\\d+', 'PHASE2_CORRECT_\\d+', 'PHASE2_OPT_[A-E]_\\d+', 'PHASE2_ANCHOR_\\d+',
+    'Q_REF', 'Q_TEXT', 'QUESTION_TEXT', 'CORRECT', 'ANSWER', 'A', 'B', 'C', 'D', 'E',
+    'FC_REF', 'PAIR_REF', 'ITEM_ID', 'TOPIC_TITLE', 'FRONT', 'BACK', 'TAGS', 'LAW_REF', 'DISCIPLINE', 'SUBJECT', 'TYPE',
+    'GUIA_TRAPSCAN', 'TRAPSCAN', 'PALAVRA_QUE_SALVA', 'KEY_DISTINCTION', 'FRASE_ANCORA_FINAL', 'FRASE_ANCORA', 'ANCHOR_TEXT',
+    'EXPLANATION_TECH', 'EXPLICA_TECNICA', 'EXPLANATION_STORY', 'HISTORIA', 'PERGUNTAS_FEYNMAN',
+    'DISTRACTOR_PROFILE', 'PERFIL_DISTRATORES', 'WRONG_DIAGNOSIS', 'DIAGNOSTICO_ERRO', 'WRONG_DIAGNOSIS_MAP', 'MAPA_ERRO',
+    'EXPLANATION', 'COMENTARIO'
+];
+
+// Chave dentro de um valor ("letra A: ...") quebraria o bloco; o exportador
+// insere um espaço de largura zero antes dos dois-pontos e o parser o remove.
+const KEY_ESCAPE = '\u200B';
+const unescapeValue = (value: string): string => value.split(`${KEY_ESCAPE}:`).join(':');
+
 // --- HELPER: Parse Map String to Object ---
 const parseMapString = (data: string): Record<string, string> => {
     const result: Record<string, string> = {};
@@ -66,8 +85,7 @@ export const parseOfficialStrict = (text: string, settings: AppSettings): {
     const contents: any[] = [];
     const reports: ImportReport[] = [];
 
-    // Regex expandido para incluir campos do Feedback Engine com suporte a variações
-    const KEY_REGEX = /\b(LIT_REF|LAW_ID|ARTICLE|TOPIC|PHASE1_FULL|PARTS_SUMMARY|RESUMO_POR_PARTES|KEYWORDS_PROVA|RISCO_FCC|GANCHO_MNEMONICO|STORYTELLING|FEYNMAN|PHASE3_ORIGINAL|PHASE3_VARIANT|EXPLAIN|PHASE2_LACUNA_\d+|PHASE2_CORRECT_\d+|PHASE2_OPT_[A-E]_\d+|Q_REF|Q_TEXT|QUESTION_TEXT|CORRECT|ANSWER|A|B|C|D|E|FC_REF|PAIR_REF|TOPIC_TITLE|FRONT|BACK|TAGS|LAW_REF|GUIA_TRAPSCAN|TRAPSCAN|PALAVRA_QUE_SALVA|KEY_DISTINCTION|FRASE_ANCORA_FINAL|FRASE_ANCORA|ANCHOR_TEXT|EXPLANATION_TECH|EXPLICA_TECNICA|EXPLANATION_STORY|HISTORIA|PERGUNTAS_FEYNMAN|DISTRACTOR_PROFILE|PERFIL_DISTRATORES|WRONG_DIAGNOSIS|DIAGNOSTICO_ERRO|WRONG_DIAGNOSIS_MAP|MAPA_ERRO|EXPLANATION|COMENTARIO):\s*/g;
+    const KEY_REGEX = new RegExp(`\\b(${LIT_REF_KEYS.join('|')}):\\s*`, 'g');
 
     const keyPositions: { key: string, start: number, end: number }[] = [];
     let match;
@@ -83,7 +101,7 @@ export const parseOfficialStrict = (text: string, settings: AppSettings): {
     keyPositions.forEach((pos, i) => {
         const valueEnd = (i < keyPositions.length - 1) ? keyPositions[i + 1].start : text.length;
         const val = text.substring(pos.end, valueEnd).trim();
-        const cleanVal = val.replace(/;$/, ''); 
+        const cleanVal = unescapeValue(val.replace(/;$/, '')); 
         
         flatEntries.push({
             key: pos.key,
@@ -121,7 +139,8 @@ export const parseOfficialStrict = (text: string, settings: AppSettings): {
             if (!currentItem.lawRef) currentItem.lawRef = litRef;
 
             contents.push({
-                id: idGen.makeDeterministicId(litRef, type, idx),
+                // ITEM_ID (vindo do exportador) preserva o ID original na reimportação
+                id: currentItem.item_id || idGen.makeDeterministicId(litRef, type, idx),
                 litRef, type, idx,
                 payload: { ...currentItem }
             });
@@ -172,7 +191,9 @@ export const parseOfficialStrict = (text: string, settings: AppSettings): {
                         blank_text: rawText.replace(GAP_REGEX, '__________'),
                         correct_letter: correctLetter || 'A',
                         correct_text: options[correctLetter] || '',
-                        options
+                        options,
+                        // Dispositivo da lacuna, relativo ao núcleo (ex.: p1.i2)
+                        anchor: (data['ANCHOR'] || '').trim() || undefined
                     }
                 });
                 currentReport!.counts.lacunas++;
@@ -197,7 +218,7 @@ export const parseOfficialStrict = (text: string, settings: AppSettings): {
             reports.push(currentReport);
         } 
         else if (key.startsWith('PHASE2_')) {
-            const m = key.match(/^PHASE2_(LACUNA|CORRECT|OPT_[A-E])_(\d+)$/);
+            const m = key.match(/^PHASE2_(LACUNA|CORRECT|OPT_[A-E]|ANCHOR)_(\d+)$/);
             if (m) {
                 const subKey = m[1];
                 const xx = m[2];
@@ -287,7 +308,8 @@ export function parseLitRefText(text: string, settings: AppSettings, batchId: st
              text: g.payload.lacuna_text || g.payload.text,
              correct: g.payload.correct_letter || g.payload.correct || 'A',
              options: g.payload.options || { A: 'Erro' },
-             questionRef: `GAP-${g.payload.idx || '?'}`
+             questionRef: `GAP-${g.payload.idx || '?'}`,
+             ...(g.payload.anchor ? { litRef: makeDispositivoRef(cardId, g.payload.anchor) } : {})
         }));
 
         const card: LiteralnessCard = {
@@ -295,6 +317,7 @@ export function parseLitRefText(text: string, settings: AppSettings, batchId: st
             lawId: forceLawId && lawId ? lawId : (n.law_id || lawId || 'Geral'),
             article: n.article || n.id,
             topic: n.topic || 'Geral',
+            ...(parseStructurePath(n.structure || n.estrutura).length > 0 ? { structurePath: parseStructurePath(n.structure || n.estrutura) } : {}),
             phase1Full: n.phase1_full || '',
             partsSummary: n.parts_summary || n.resumo_por_partes || '',
             keywordsProva: n.keywords_prova || '',
@@ -302,6 +325,9 @@ export function parseLitRefText(text: string, settings: AppSettings, batchId: st
             gancho: n.gancho_mnemonico || '',
             storytelling: n.storytelling || '',
             feynmanExplanation: n.feynman || '',
+            phase3Original: n.phase3_original || undefined,
+            phase3Variant: n.phase3_variant || undefined,
+            explain: n.explain || undefined,
             createdAt: today, nextReviewDate: today, lastReviewedAt: today, masteryScore: 0, totalAttempts: 0,
             stability: settings.srsV2.S_default_days,
             batteryProgress: 0, progressionLevel: 0, userNotes: '',
@@ -314,6 +340,7 @@ export function parseLitRefText(text: string, settings: AppSettings, batchId: st
 
     const questions: Question[] = contents.filter(c => c.type === 'QUESTION').map(c => {
         const p = c.payload;
+        const lawRef = p.lawRef ? srs.canonicalizeLitRef(p.lawRef) : '';
         
         // ENSURE OPTIONS ARE SANITIZED
         const rawOptions = p.options || { A: "Erro", B: "Erro" };
@@ -347,16 +374,17 @@ export function parseLitRefText(text: string, settings: AppSettings, batchId: st
             distractorProfile: typeof p.distractor_profile === 'string' ? parseMapString(p.distractor_profile) : p.distractor_profile, 
             wrongDiagnosisMap: typeof p.wrong_diagnosis_map === 'string' ? parseMapString(p.wrong_diagnosis_map) : p.wrong_diagnosis_map, 
 
-            subject: p.discipline || cards.find(card => card.id === c.litRef)?.lawId || 'Geral',
+            subject: p.discipline || p.subject || cards.find(card => card.id === c.litRef)?.lawId || 'Geral',
             topic: p.topic || cards.find(card => card.id === c.litRef)?.article || 'Geral',
-            lawRef: c.litRef,
+            // LAW_REF só vale se apontar para um dispositivo do próprio núcleo
+            lawRef: lawRef && srs.isWithinLitRef(lawRef, c.litRef) ? lawRef : c.litRef,
             
             importBatchId: batchId,
             totalAttempts: 0, masteryScore: 0, attemptHistory: [],
             stability: settings.srsV2.S_default_days, nextReviewDate: today,
             createdAt: today, lastAttemptDate: '', errorCount: 0, timeSec: 0,
             selfEvalLevel: 0, willFallExam: false, srsStage: 0, correctStreak: 0,
-            srsVersion: 2, sequenceNumber: 0, comments: '', questionType: 'Literalidade'
+            srsVersion: 2, sequenceNumber: 0, comments: '', questionType: p.type || 'Literalidade'
         } as unknown as Question;
     });
 
@@ -370,7 +398,7 @@ export function parseLitRefText(text: string, settings: AppSettings, batchId: st
             id: c.id,
             front: p.front || 'Frente Vazia',
             back: p.back || 'Verso Vazio',
-            discipline: p.discipline || cards.find(card => card.id === c.litRef)?.lawId || 'Geral',
+            discipline: p.discipline || p.subject || cards.find(card => card.id === c.litRef)?.lawId || 'Geral',
             topic: p.topic || cards.find(card => card.id === c.litRef)?.article || 'Geral',
             tags: tags,
             type: 'basic',
@@ -406,7 +434,205 @@ export function enforceTargetLinkage(result: ImportResult, targetId: string): Im
     };
 }
 
-export function cleanBatchForExport(batch: any): any { return batch; }
+// --- EXPORTAÇÃO (formato canônico, inverso do parseLitRefText) ---
+
+export interface LitRefExportBundle {
+    cards: LiteralnessCard[];
+    questions: Question[];
+    flashcards: Flashcard[];
+}
+
+export interface LitRefExportResult {
+    text: string;
+    blocks: number;
+}
+
+type LitRefEntry = [key: string, value: string];
+
+const KEY_IN_VALUE = new RegExp(`\\b(${LIT_REF_KEYS.join('|')}):`, 'g');
+const OPTION_KEYS = ['A', 'B', 'C', 'D', 'E'];
+
+const escapeValue = (value: string): string => {
+    const escaped = value.trim().replace(KEY_IN_VALUE, `$1${KEY_ESCAPE}:`);
+    // O parser remove um ";" final; dobra para preservar o original
+    return escaped.endsWith(';') ? `${escaped};` : escaped;
+};
+
+const textOf = (value: unknown): string => (typeof value === 'string' ? value.trim() : '');
+
+const mapToString = (map: Record<string, string> | undefined): string =>
+    OPTION_KEYS.filter(k => textOf(map?.[k])).map(k => `${k}= ${textOf(map![k])}`).join(' || ');
+
+const isPair = (fc: Flashcard) => (fc.tags || []).includes('pair-match');
+
+/** Campos do núcleo; defaults iguais aos do parseLitRefText. */
+const cardEntries = (card: LiteralnessCard): LitRefEntry[] => [
+    ['LIT_REF', card.id],
+    ['LAW_ID', textOf(card.lawId) || 'Geral'],
+    ['ARTICLE', textOf(card.article) || card.id],
+    ['TOPIC', textOf(card.topic) || 'Geral'],
+    ['STRUCTURE', formatStructurePath(card.structurePath)],
+    ['PHASE1_FULL', textOf(card.phase1Full)],
+    ['PARTS_SUMMARY', textOf(card.partsSummary)],
+    ['KEYWORDS_PROVA', textOf(card.keywordsProva)],
+    ['RISCO_FCC', textOf(card.riscoFcc)],
+    ['GANCHO_MNEMONICO', textOf(card.gancho)],
+    ['STORYTELLING', textOf(card.storytelling)],
+    ['FEYNMAN', textOf(card.feynmanExplanation)],
+    ['PHASE3_ORIGINAL', textOf(card.phase3Original)],
+    ['PHASE3_VARIANT', textOf(card.phase3Variant)],
+    ['EXPLAIN', textOf(card.explain)],
+];
+
+/** Lacunas: a principal (legado) vira a 01 e as extras seguem na ordem. */
+const gapEntries = (card: LiteralnessCard): LitRefEntry[] => {
+    const gaps = [
+        ...(textOf(card.phase2Lacuna) ? [{ text: card.phase2Lacuna!, correct: card.phase2Correct, options: card.phase2Options }] : []),
+        ...(card.extraGaps || []),
+    ] as Gap[];
+    const width = Math.max(2, String(gaps.length).length);
+    return gaps.flatMap((gap, i) => {
+        const nn = String(i + 1).padStart(width, '0');
+        return [
+            [`PHASE2_LACUNA_${nn}`, textOf(gap.text)],
+            [`PHASE2_CORRECT_${nn}`, (textOf(gap.correct) || 'A').toUpperCase()],
+            ...OPTION_KEYS.map(k => [`PHASE2_OPT_${k}_${nn}`, sanitizeOptionText(gap.options?.[k])] as LitRefEntry),
+            [`PHASE2_ANCHOR_${nn}`, gap.litRef ? splitLitRef(gap.litRef).path : ''],
+        ] as LitRefEntry[];
+    });
+};
+
+const questionEntries = (q: Question, litRef: string): LitRefEntry[] => {
+    const explanation = textOf(q.explanation);
+    const anchor = srs.canonicalizeLitRef(q.lawRef || q.litRef);
+    // No parser, EXPLANATION_TECH ausente herda EXPLANATION
+    const explanationTech = textOf(q.explanationTech) || explanation;
+    return [
+        ['Q_REF', textOf(q.questionRef) || q.id],
+        ['ITEM_ID', q.id],
+        ['DISCIPLINE', textOf(q.subject) || 'Geral'],
+        ['TOPIC', textOf(q.topic) || 'Geral'],
+        ['TYPE', textOf(q.questionType) || 'Literalidade'],
+        // Só a âncora de dispositivo; o núcleo em si vem do bloco
+        ['LAW_REF', anchor !== litRef && srs.isWithinLitRef(anchor, litRef) ? anchor : ''],
+        ['Q_TEXT', textOf(q.questionText)],
+        ...OPTION_KEYS.map(k => [k, sanitizeOptionText(q.options?.[k])] as LitRefEntry),
+        ['CORRECT', (textOf(q.correctAnswer) || 'A').toUpperCase()],
+        ['EXPLANATION', explanation],
+        ['EXPLANATION_TECH', explanationTech !== explanation ? explanationTech : ''],
+        ['EXPLANATION_STORY', textOf(q.explanationStory)],
+        ['PERGUNTAS_FEYNMAN', textOf(q.feynmanQuestions)],
+        ['GUIA_TRAPSCAN', textOf(q.guiaTrapscan)],
+        ['KEY_DISTINCTION', textOf(q.keyDistinction)],
+        ['ANCHOR_TEXT', textOf(q.anchorText)],
+        ['WRONG_DIAGNOSIS', textOf(q.wrongDiagnosis)],
+        ['DISTRACTOR_PROFILE', mapToString(q.distractorProfile)],
+        ['WRONG_DIAGNOSIS_MAP', mapToString(q.wrongDiagnosisMap)],
+    ];
+};
+
+const flashcardEntries = (fc: Flashcard, litRef: string): LitRefEntry[] => {
+    // pair-match e o LIT_REF do bloco são recolocados pelo parser
+    const tags = (fc.tags || [])
+        .filter(t => t !== 'pair-match' && srs.canonicalizeLitRef(t) !== litRef)
+        .sort();
+    return [
+        [isPair(fc) ? 'PAIR_REF' : 'FC_REF', fc.id],
+        ['ITEM_ID', fc.id],
+        ['DISCIPLINE', textOf(fc.discipline) || 'Geral'],
+        ['TOPIC', textOf(fc.topic) || 'Geral'],
+        ['FRONT', textOf(fc.front)],
+        ['BACK', textOf(fc.back)],
+        ['TAGS', tags.join('; ')],
+    ];
+};
+
+/**
+ * Agrupa o conteúdo vinculado a cada núcleo, na ordem do arquivo:
+ * núcleo, lacunas, questões, flashcards e pares. Cada item sai uma única vez.
+ */
+const buildBlocks = (bundle: LitRefExportBundle): { key: string; entries: LitRefEntry[] }[] => {
+    const blocks: { key: string; entries: LitRefEntry[] }[] = [];
+    const exported = new Set<string>();
+
+    bundle.cards.forEach(card => {
+        const litRef = srs.canonicalizeLitRef(card.id);
+        blocks.push({ key: `${card.id}`, entries: [...cardEntries(card), ...gapEntries(card)] });
+
+        bundle.questions
+            .filter(q => !q.isGapType && !exported.has(q.id) && srs.isLinked(q, litRef))
+            .forEach(q => {
+                exported.add(q.id);
+                blocks.push({ key: `${card.id} / ${textOf(q.questionRef) || q.id}`, entries: questionEntries(q, litRef) });
+            });
+
+        const linkedCards = bundle.flashcards.filter(fc => fc.type === 'basic' && !exported.has(fc.id) && srs.isLinked(fc, litRef));
+        [...linkedCards.filter(fc => !isPair(fc)), ...linkedCards.filter(isPair)].forEach(fc => {
+            exported.add(fc.id);
+            blocks.push({ key: `${card.id} / ${fc.id}`, entries: flashcardEntries(fc, litRef) });
+        });
+    });
+
+    return blocks.map(b => ({ ...b, entries: b.entries.filter(([, value]) => value !== '') }));
+};
+
+/**
+ * Seleciona o que vai para o arquivo: os núcleos pedidos e tudo o que está
+ * vinculado a eles. Lacunas-questão e flashcards cloze/oclusão não cabem no
+ * formato e são listados em `warnings`.
+ */
+export function cleanBatchForExport(cards: LiteralnessCard[], allQuestions: Question[], allFlashcards: Flashcard[]): LitRefExportBundle & { warnings: string[] } {
+    const refs = cards.map(c => srs.canonicalizeLitRef(c.id));
+    const linked = <T,>(item: T) => refs.some(ref => srs.isLinked(item, ref));
+    const questions = allQuestions.filter(linked);
+    const flashcards = allFlashcards.filter(linked);
+    const warnings: string[] = [];
+
+    const gapQuestions = questions.filter(q => q.isGapType).length;
+    if (gapQuestions > 0) warnings.push(`${gapQuestions} lacuna(s) cadastrada(s) como questão não entram no arquivo.`);
+    const nonBasic = flashcards.filter(fc => fc.type !== 'basic').length;
+    if (nonBasic > 0) warnings.push(`${nonBasic} flashcard(s) cloze/oclusão não entram no arquivo (o formato só tem FRONT/BACK).`);
+    const withMedia = flashcards.filter(fc => fc.type === 'basic' && (fc.frontImage || fc.backImage || fc.frontAudio || fc.backAudio)).length;
+    if (withMedia > 0) warnings.push(`${withMedia} flashcard(s) com imagem/áudio: a mídia não é exportada.`);
+    const structured = questions.filter(q => (q.anchorText && typeof q.anchorText !== 'string') || (q.wrongDiagnosis && typeof q.wrongDiagnosis !== 'string')).length;
+    if (structured > 0) warnings.push(`${structured} questão(ões) com ANCHOR_TEXT/WRONG_DIAGNOSIS por alternativa: esses campos não são exportados.`);
+
+    return { cards, questions, flashcards, warnings };
+}
+
+/** Gera o texto LIT_REF que o parseLitRefText lê de volta (reimportação com MERGE). */
+export function exportLitRefText(bundle: LitRefExportBundle): LitRefExportResult {
+    const blocks = buildBlocks(bundle);
+    const text = blocks
+        .map(block => block.entries.map(([key, value]) => `${key}: ${escapeValue(value)}`).join('\n'))
+        .join('\n\n');
+    return { text, blocks: blocks.length };
+}
+
+/**
+ * Confere parse(export(x)) ≡ x: exporta, lê de volta e compara campo a campo
+ * (no formato canônico). Devolve as divergências; lista vazia = ida e volta fiel.
+ */
+export function verifyLitRefRoundTrip(bundle: LitRefExportBundle, settings: AppSettings): string[] {
+    const { text } = exportLitRefText(bundle);
+    const parsed = parseLitRefText(text, settings, 'ROUNDTRIP_CHECK');
+    const before = buildBlocks(bundle);
+    const after = new Map(buildBlocks({ cards: parsed.cards, questions: parsed.questions, flashcards: parsed.flashcards }).map(b => [b.key, b.entries]));
+
+    const diffs: string[] = [...parsed.errors];
+    before.forEach(block => {
+        const entries = after.get(block.key);
+        if (!entries) { diffs.push(`${block.key}: bloco não reconhecido na leitura.`); return; }
+        const read = new Map(entries);
+        const written = new Map(block.entries);
+        new Set([...written.keys(), ...read.keys()]).forEach(key => {
+            if (written.get(key) !== read.get(key)) diffs.push(`${block.key}: ${key} difere após a leitura.`);
+        });
+        after.delete(block.key);
+    });
+    after.forEach((_, key) => diffs.push(`${key}: bloco extra na leitura.`));
+    return diffs;
+}
 
 export async function runImportSelfTest(): Promise<any> {
     const testText = `LIT_REF: TEST_01 LAW_ID: TEST ARTICLE: Art 1 PHASE1_FULL: Texto Q_REF: Q1 Q_TEXT: T? A: Sim; P7=Leaky B: Não CORRECT: A`;
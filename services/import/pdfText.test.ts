@@ -0,0 +1,52 @@
+import { describe, it, expect } from 'vitest';
+import { extractPdfText } from './pdfText';
+
+const latin1 = (text: string) => Uint8Array.from(text, c => c.charCodeAt(0));
+
+const deflate = async (data: Uint8Array): Promise<Uint8Array> => {
+    const stream = new Blob([data as BlobPart]).stream().pipeThrough(new CompressionStream('deflate'));
+    return new Uint8Array(await new Response(stream).arrayBuffer());
+};
+
+/** PDF mínimo: uma página por conteúdo, fonte Helvetica em WinAnsi. */
+const buildPdf = async (pageContents: string[], { compress = false, encrypt = false } = {}): Promise<ArrayBuffer> => {
+    const parts: Uint8Array[] = [latin1('%PDF-1.4\n')];
+    const pageIds = pageContents.map((_, i) => 4 + i * 2);
+    const add = (id: number, body: string) => parts.push(latin1(`${id} 0 obj\n${body}\nendobj\n`));
+
+    add(1, '<< /Type /Catalog /Pages 2 0 R >>');
+    add(2, `<< /Type /Pages /Kids [${pageIds.map(id => `${id} 0 R`).join(' ')}] /Count ${pageIds.length} >>`);
+    add(3, '<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica /Encoding /WinAnsiEncoding >>');
+    for (const [i, content] of pageContents.entries()) {
+        const id = pageIds[i];
+        add(id, `<< /Type /Page /Parent 2 0 R /Resources << /Font << /F1 3 0 R >> >> /Contents ${id + 1} 0 R >>`);
+        const data = compress ? await deflate(latin1(content)) : latin1(content);
+        parts.push(latin1(`${id + 1} 0 obj\n<< /Length ${data.length}${compress ? ' /Filter /FlateDecode' : ''} >>\nstream\n`), data, latin1('\nendstream\nendobj\n'));
+    }
+    parts.push(latin1(`trailer\n<< /Root 1 0 R${encrypt ? ' /Encrypt 99 0 R' : ''} >>\n%%EOF\n`));
+
+    const total = parts.reduce((n, p) => n + p.length, 0);
+    const out = new Uint8Array(total);
+    let offset = 0;
+    parts.forEach(p => { out.set(p, offset); offset += p.length; });
+    return out.buffer;
+};
+
+describe('extractPdfText', () => {
+    it('lê linhas, acentos WinAnsi e espaços de TJ', async () => {
+        const content = 'BT /F1 12 Tf 72 720 Td (QUEST\\303O 1) Tj 0 -14 Td [(Julgue) -250 (o item.)] TJ 0 -14 Td (A\\(s\\) a\\347\\365es) Tj ET';
+        const text = await extractPdfText(await buildPdf([content]));
+        expect(text.split('\n')).toEqual(['QUESTÃO 1', 'Julgue o item.', 'A(s) ações']);
+    });
+
+    it('descompacta FlateDecode e separa as páginas', async () => {
+        const text = await extractPdfText(await buildPdf(['BT /F1 12 Tf (Primeira) Tj ET', 'BT /F1 12 Tf (Segunda) Tj ET'], { compress: true }));
+        expect(text).toBe('Primeira\n\nSegunda');
+    });
+
+    it('recusa arquivos que não são PDF, PDFs criptografados e PDFs sem texto', async () => {
+        await expect(extractPdfText(latin1('nada').buffer)).rejects.toThrow('não é um PDF');
+        await expect(extractPdfText(await buildPdf(['BT (x) Tj ET'], { encrypt: true }))).rejects.toThrow('protegido');
+        await expect(extractPdfText(await buildPdf(['0 0 m 10 10 l S']))).rejects.toThrow('OCR');
+    });
+});
@@ -0,0 +1,556 @@
+import { inflate } from '../anki/zipArchive';
+
+/**
+ * EXTRAÇÃO DE TEXTO DE PDF (local, sem dependências)
+ * Cobre PDFs gerados por editores de texto, como cadernos de prova: objetos soltos
+ * e em object streams, FlateDecode, fontes com ToUnicode ou WinAnsi/Differences.
+ * PDFs digitalizados (só imagem) ou protegidos por senha não têm texto extraível.
+ */
+
+class PdfRef { constructor(public num: number) {} }
+class PdfString { constructor(public bytes: string) {} }
+type PdfValue = number | boolean | null | string | PdfString | PdfRef | PdfValue[] | Map<string, PdfValue>;
+type PdfDict = Map<string, PdfValue>;
+
+interface PdfObject {
+    value: PdfValue;
+    stream?: Uint8Array;
+}
+
+type Token =
+    | { type: 'num'; v: number }
+    | { type: 'name'; v: string }
+    | { type: 'str'; v: string }
+    | { type: 'kw'; v: string }
+    | { type: 'open' | 'close'; v: string };
+
+const WHITESPACE = new Set([0, 9, 10, 12, 13, 32]);
+const DELIMITERS = new Set('()<>[]{}/%'.split('').map(c => c.charCodeAt(0)));
+
+const bytesToLatin1 = (bytes: Uint8Array): string => {
+    let out = '';
+    for (let i = 0; i < bytes.length; i += 0x8000) out += String.fromCharCode(...bytes.subarray(i, i + 0x8000));
+    return out;
+};
+
+// --- Léxico (objetos e content streams) ---
+
+class Lexer {
+    pos = 0;
+    constructor(public src: string) {}
+
+    private skipSpace() {
+        while (this.pos < this.src.length) {
+            const c = this.src.charCodeAt(this.pos);
+            if (WHITESPACE.has(c)) this.pos++;
+            else if (c === 37) { // %
+                while (this.pos < this.src.length && !'\r\n'.includes(this.src[this.pos])) this.pos++;
+            } else break;
+        }
+    }
+
+    next(): Token | null {
+        this.skipSpace();
+        if (this.pos >= this.src.length) return null;
+        const ch = this.src[this.pos];
+
+        if (ch === '(') return { type: 'str', v: this.readLiteral() };
+        if (ch === '<') {
+            if (this.src[this.pos + 1] === '<') { this.pos += 2; return { type: 'open', v: '<<' }; }
+            const end = this.src.indexOf('>', this.pos);
+            const hex = this.src.slice(this.pos + 1, end < 0 ? undefined : end).replace(/[^0-9a-f]/gi, '');
+            this.pos = end < 0 ? this.src.length : end + 1;
+            let out = '';
+            for (let i = 0; i < hex.length; i += 2) out += String.fromCharCode(parseInt(hex.slice(i, i + 2).padEnd(2, '0'), 16));
+            return { type: 'str', v: out };
+        }
+        if (ch === '>' && this.src[this.pos + 1] === '>') { this.pos += 2; return { type: 'close', v: '>>' }; }
+        if (ch === '[' || ch === '{') { this.pos++; return { type: 'open', v: ch }; }
+        if (ch === ']' || ch === '}') { this.pos++; return { type: 'close', v: ch }; }
+        if (ch === '/') {
+            this.pos++;
+            const name = this.readRegular().replace(/#([0-9a-f]{2})/gi, (_, h) => String.fromCharCode(parseInt(h, 16)));
+            return { type: 'name', v: name };
+        }
+
+        const word = this.readRegular();
+        if (!word) { this.pos++; return this.next(); }
+        if (/^[+-]?(\d+\.?\d*|\.\d+)$/.test(word)) return { type: 'num', v: parseFloat(word) };
+        return { type: 'kw', v: word };
+    }
+
+    private readRegular(): string {
+        const start = this.pos;
+        while (this.pos < this.src.length) {
+            const c = this.src.charCodeAt(this.pos);
+            if (WHITESPACE.has(c) || DELIMITERS.has(c)) break;
+            this.pos++;
+        }
+        return this.src.slice(start, this.pos);
+    }
+
+    private readLiteral(): string {
+        let depth = 0;
+        let out = '';
+        this.pos++;
+        while (this.pos < this.src.length) {
+            const ch = this.src[this.pos++];
+            if (ch === '\\') {
+                const esc = this.src[this.pos++];
+                if (esc === 'n') out += '\n';
+                else if (esc === 'r') out += '\r';
+                else if (esc === 't') out += '\t';
+                else if (esc === 'b') out += '\b';
+                else if (esc === 'f') out += '\f';
+                else if (esc === '\r') { if (this.src[this.pos] === '\n') this.pos++; }
+                else if (esc === '\n') { /* continuação de linha */ }
+                else if (/[0-7]/.test(esc)) {
+                    let oct = esc;
+                    while (oct.length < 3 && /[0-7]/.test(this.src[this.pos])) oct += this.src[this.pos++];
+                    out += String.fromCharCode(parseInt(oct, 8) & 0xff);
+                } else out += esc;
+            } else if (ch === '(') { depth++; out += ch; }
+            else if (ch === ')') {
+                if (depth === 0) break;
+                depth--;
+                out += ch;
+            } else out += ch;
+        }
+        return out;
+    }
+
+    /** Pula dados de imagem inline (após ID, até EI). */
+    skipInlineImage() {
+        const match = /\sEI(?=[\s]|$)/g;
+        match.lastIndex = this.pos;
+        const found = match.exec(this.src);
+        this.pos = found ? found.index + found[0].length : this.src.length;
+    }
+}
+
+const parseValue = (lexer: Lexer, token: Token | null): PdfValue => {
+    if (!token) return null;
+    if (token.type === 'num') {
+        // "n g R" é referência indireta
+        const saved = lexer.pos;
+        const gen = lexer.next();
+        if (gen?.type === 'num') {
+            const r = lexer.next();
+            if (r?.type === 'kw' && r.v === 'R') return new PdfRef(token.v);
+        }
+        lexer.pos = saved;
+        return token.v;
+    }
+    if (token.type === 'name') return token.v;
+    if (token.type === 'str') return new PdfString(token.v);
+    if (token.type === 'open' && token.v === '[') {
+        const arr: PdfValue[] = [];
+        for (let t = lexer.next(); t && !(t.type === 'close' && t.v === ']'); t = lexer.next()) arr.push(parseValue(lexer, t));
+        return arr;
+    }
+    if (token.type === 'open' && token.v === '<<') {
+        const dict: PdfDict = new Map();
+        for (let t = lexer.next(); t && !(t.type === 'close' && t.v === '>>'); t = lexer.next()) {
+            if (t.type === 'name') dict.set(t.v, parseValue(lexer, lexer.next()));
+        }
+        return dict;
+    }
+    if (token.type === 'kw') {
+        if (token.v === 'true') return true;
+        if (token.v === 'false') return false;
+    }
+    return null;
+};
+
+// --- Documento ---
+
+class PdfDocument {
+    objects = new Map<number, PdfObject>();
+    trailers: PdfDict[] = [];
+
+    constructor(public src: string, public bytes: Uint8Array) {
+        this.scanObjects();
+    }
+
+    private scanObjects() {
+        const header = /(\d+)\s+(\d+)\s+obj\b/g;
+        let match: RegExpExecArray | null;
+        while ((match = header.exec(this.src)) !== null) {
+            const lexer = new Lexer(this.src);
+            lexer.pos = match.index + match[0].length;
+            const value = parseValue(lexer, lexer.next());
+            const obj: PdfObject = { value };
+
+            const after = this.src.slice(lexer.pos, lexer.pos + 20).match(/^\s*stream(\r\n|\r|\n)/);
+            if (after && value instanceof Map) {
+                const start = lexer.pos + after[0].length;
+                const length = value.get('Length');
+                let end = typeof length === 'number' ? start + length : -1;
+                if (end < 0 || this.src.slice(end, end + 12).indexOf('endstream') < 0) {
+                    end = this.src.indexOf('endstream', start);
+                    if (end < 0) end = this.src.length;
+                    // Remove a quebra de linha antes de "endstream"
+                    while (end > start && '\r\n'.includes(this.src[end - 1])) end--;
+                }
+                obj.stream = this.bytes.subarray(start, end);
+                header.lastIndex = end;
+            }
+            this.objects.set(Number(match[1]), obj);
+        }
+
+        const trailer = /trailer\s*<</g;
+        while ((match = trailer.exec(this.src)) !== null) {
+            const lexer = new Lexer(this.src);
+            lexer.pos = match.index + 'trailer'.length;
+            const value = parseValue(lexer, lexer.next());
+            if (value instanceof Map) this.trailers.push(value);
+        }
+    }
+
+    /** Objetos guardados em object streams (PDF 1.5+). */
+    async expandObjectStreams() {
+        for (const obj of Array.from(this.objects.values())) {
+            if (!(obj.value instanceof Map) || obj.value.get('Type') !== 'ObjStm') continue;
+            const data = await this.decodeStream(obj);
+            if (!data) continue;
+            const content = bytesToLatin1(data);
+            const n = Number(obj.value.get('N')) || 0;
+            const first = Number(obj.value.get('First')) || 0;
+            const head = content.slice(0, first).trim().split(/\s+/).map(Number);
+            for (let i = 0; i < n; i++) {
+                const num = head[i * 2];
+                // Objeto reescrito fora do stream (atualização incremental) prevalece
+                if (this.objects.has(num)) continue;
+                const lexer = new Lexer(content);
+                lexer.pos = first + head[i * 2 + 1];
+                this.objects.set(num, { value: parseValue(lexer, lexer.next()) });
+            }
+        }
+    }
+
+    resolve(value: PdfValue | undefined): PdfValue {
+        let v = value ?? null;
+        for (let guard = 0; v instanceof PdfRef && guard < 20; guard++) v = this.objects.get(v.num)?.value ?? null;
+        return v;
+    }
+
+    dict(value: PdfValue | undefined): PdfDict | null {
+        const v = this.resolve(value);
+        return v instanceof Map ? v : null;
+    }
+
+    objectOf(value: PdfValue | undefined): PdfObject | undefined {
+        return value instanceof PdfRef ? this.objects.get(value.num) : undefined;
+    }
+
+    async decodeStream(obj: PdfObject | undefined): Promise<Uint8Array | null> {
+        if (!obj?.stream || !(obj.value instanceof Map)) return null;
+        const filter = this.resolve(obj.value.get('Filter'));
+        const filters = (Array.isArray(filter) ? filter : filter ? [filter] : []).map(f => this.resolve(f));
+        let data = obj.stream;
+        for (const f of filters) {
+            if (f === 'FlateDecode' || f === 'Fl') {
+                try {
+                    data = await inflate(data, 'deflate');
+                } catch {
+                    return null;
+                }
+            } else {
+                return null; // Imagens (DCT, JBIG2...) e filtros raros não carregam texto
+            }
+        }
+        return data;
+    }
+
+    isEncrypted(): boolean {
+        if (this.trailers.some(t => t.has('Encrypt'))) return true;
+        return Array.from(this.objects.values()).some(o => o.value instanceof Map && o.value.get('Type') === 'XRef' && o.value.has('Encrypt'));
+    }
+
+    catalog(): PdfDict | null {
+        for (const t of [...this.trailers].reverse()) {
+            const root = this.dict(t.get('Root'));
+            if (root) return root;
+        }
+        for (const o of this.objects.values()) {
+            if (o.value instanceof Map && o.value.get('Type') === 'XRef') {
+                const root = this.dict(o.value.get('Root'));
+                if (root) return root;
+            }
+        }
+        for (const o of this.objects.values()) {
+            if (o.value instanceof Map && o.value.get('Type') === 'Catalog') return o.value;
+        }
+        return null;
+    }
+
+    /** Páginas em ordem, com os Resources herdados da árvore. */
+    pages(): { page: PdfDict; resources: PdfDict | null }[] {
+        const out: { page: PdfDict; resources: PdfDict | null }[] = [];
+        const seen = new Set<PdfDict>();
+        const walk = (node: PdfDict | null, inherited: PdfDict | null) => {
+            if (!node || seen.has(node)) return;
+            seen.add(node);
+            const resources = this.dict(node.get('Resources')) || inherited;
+            if (node.get('Type') === 'Page' || !node.has('Kids')) {
+                out.push({ page: node, resources });
+                return;
+            }
+            const kids = this.resolve(node.get('Kids'));
+            if (Array.isArray(kids)) kids.forEach(k => walk(this.dict(k), resources));
+        };
+        walk(this.dict(this.catalog()?.get('Pages')), null);
+
+        if (out.length === 0) {
+            this.objects.forEach(o => {
+                if (o.value instanceof Map && o.value.get('Type') === 'Page') out.push({ page: o.value, resources: this.dict(o.value.get('Resources')) });
+            });
+        }
+        return out;
+    }
+}
+
+// --- Fontes ---
+
+const WIN_ANSI_HIGH: Record<number, string> = {
+    0x80: '€', 0x82: '‚', 0x83: 'ƒ', 0x84: '„', 0x85: '…', 0x86: '†', 0x87: '‡', 0x88: 'ˆ', 0x89: '‰', 0x8a: 'Š', 0x8b: '‹', 0x8c: 'Œ', 0x8e: 'Ž',
+    0x91: '‘', 0x92: '’', 0x93: '“', 0x94: '”', 0x95: '•', 0x96: '–', 0x97: '—', 0x98: '˜', 0x99: '™', 0x9a: 'š', 0x9b: '›', 0x9c: 'œ', 0x9e: 'ž', 0x9f: 'Ÿ',
+};
+
+const GLYPH_NAMES: Record<string, string> = {
+    space: ' ', exclam: '!', quotedbl: '"', numbersign: '#', dollar: '$', percent: '%', ampersand: '&', quotesingle: "'",
+    parenleft: '(', parenright: ')', asterisk: '*', plus: '+', comma: ',', hyphen: '-', period: '.', slash: '/',
+    zero: '0', one: '1', two: '2', three: '3', four: '4', five: '5', six: '6', seven: '7', eight: '8', nine: '9',
+    colon: ':', semicolon: ';', less: '<', equal: '=', greater: '>', question: '?', at: '@', bracketleft: '[', backslash: '\\',
+    bracketright: ']', underscore: '_', quoteleft: '‘', quoteright: '’', quotedblleft: '“', quotedblright: '”', endash: '–', emdash: '—',
+    bullet: '•', ellipsis: '…', ordfeminine: 'ª', ordmasculine: 'º', section: '§', degree: '°', fi: 'fi', fl: 'fl', germandbls: 'ß',
+    guillemotleft: '«', guillemotright: '»', periodcentered: '·', nbspace: ' ', minus: '-',
+};
+const GLYPH_ACCENTS: Record<string, string> = { acute: '́', grave: '̀', circumflex: '̂', tilde: '̃', dieresis: '̈', cedilla: '̧' };
+
+const glyphToUnicode = (name: string): string => {
+    if (GLYPH_NAMES[name]) return GLYPH_NAMES[name];
+    if (/^[A-Za-z]$/.test(name)) return name;
+    const uni = name.match(/^uni([0-9A-F]{4})/i) || name.match(/^u([0-9A-F]{4,6})$/i);
+    if (uni) return String.fromCodePoint(parseInt(uni[1], 16));
+    const accented = name.match(/^([A-Za-z])(acute|grave|circumflex|tilde|dieresis|cedilla)$/);
+    if (accented) return (accented[1] + GLYPH_ACCENTS[accented[2]]).normalize('NFC');
+    return '';
+};
+
+const utf16beToString = (hex: string): string => {
+    const codes: number[] = [];
+    for (let i = 0; i + 4 <= hex.length; i += 4) codes.push(parseInt(hex.slice(i, i + 4), 16));
+    if (hex.length === 2) codes.push(parseInt(hex, 16));
+    return String.fromCharCode(...codes);
+};
+
+interface FontDecoder {
+    bytesPerCode: number;
+    map: Map<number, string>;
+    simple: boolean;
+}
+
+const parseToUnicode = (cmap: string, decoder: FontDecoder) => {
+    const range = cmap.match(/begincodespacerange\s*<([0-9a-f]+)>/i);
+    if (range) decoder.bytesPerCode = Math.max(1, range[1].length / 2);
+
+    for (const block of cmap.matchAll(/beginbfchar([\s\S]*?)endbfchar/g)) {
+        for (const pair of block[1].matchAll(/<([0-9a-f]+)>\s*<([0-9a-f]*)>/gi)) {
+            decoder.map.set(parseInt(pair[1], 16), utf16beToString(pair[2]));
+        }
+    }
+    for (const block of cmap.matchAll(/beginbfrange([\s\S]*?)endbfrange/g)) {
+        for (const entry of block[1].matchAll(/<([0-9a-f]+)>\s*<([0-9a-f]+)>\s*(<[0-9a-f]*>|\[[^\]]*\])/gi)) {
+            const lo = parseInt(entry[1], 16);
+            const hi = parseInt(entry[2], 16);
+            if (hi - lo > 0xffff) continue;
+            if (entry[3].startsWith('[')) {
+                const targets = Array.from(entry[3].matchAll(/<([0-9a-f]*)>/gi)).map(m => m[1]);
+                targets.forEach((t, i) => decoder.map.set(lo + i, utf16beToString(t)));
+            } else {
+                const base = entry[3].slice(1, -1);
+                const start = parseInt(base, 16);
+                const width = base.length;
+                for (let code = lo; code <= hi; code++) {
+                    decoder.map.set(code, utf16beToString((start + code - lo).toString(16).padStart(width, '0')));
+                }
+            }
+        }
+    }
+};
+
+const buildFontDecoder = async (doc: PdfDocument, fontRef: PdfValue): Promise<FontDecoder> => {
+    const font = doc.dict(fontRef);
+    const decoder: FontDecoder = { bytesPerCode: font?.get('Subtype') === 'Type0' ? 2 : 1, map: new Map(), simple: true };
+    if (!font) return decoder;
+
+    const toUnicode = await doc.decodeStream(doc.objectOf(font.get('ToUnicode')));
+    if (toUnicode) {
+        parseToUnicode(bytesToLatin1(toUnicode), decoder);
+        decoder.simple = false;
+    }
+
+    const encoding = doc.resolve(font.get('Encoding'));
+    if (encoding instanceof Map) {
+        const diffs = doc.resolve(encoding.get('Differences'));
+        if (Array.isArray(diffs)) {
+            let code = 0;
+            diffs.forEach(d => {
+                if (typeof d === 'number') code = d;
+                else if (typeof d === 'string') {
+                    const ch = glyphToUnicode(d);
+                    if (ch && !decoder.map.has(code)) decoder.map.set(code, ch);
+                    code++;
+                }
+            });
+        }
+    }
+    return decoder;
+};
+
+const decodeText = (raw: string, decoder: FontDecoder | undefined): string => {
+    if (!decoder) return raw;
+    let out = '';
+    const step = decoder.bytesPerCode;
+    for (let i = 0; i < raw.length; i += step) {
+        let code = 0;
+        for (let j = 0; j < step; j++) code = code * 256 + (raw.charCodeAt(i + j) || 0);
+        const mapped = decoder.map.get(code);
+        if (mapped !== undefined) out += mapped;
+        else if (step === 1) out += WIN_ANSI_HIGH[code] || (code >= 32 ? String.fromCharCode(code) : '');
+    }
+    return out;
+};
+
+// --- Content streams ---
+
+interface TextSink {
+    text: string;
+}
+
+const pushNewline = (sink: TextSink) => {
+    if (sink.text && !sink.text.endsWith('\n')) sink.text += '\n';
+};
+
+const pushSpace = (sink: TextSink) => {
+    if (sink.text && !/\s$/.test(sink.text)) sink.text += ' ';
+};
+
+const extractFromContent = async (doc: PdfDocument, content: string, resources: PdfDict | null, sink: TextSink, depth: number) => {
+    const fonts = new Map<string, FontDecoder>();
+    const fontDict = doc.dict(resources?.get('Font'));
+    if (fontDict) {
+        for (const [name, ref] of fontDict) fonts.set(name, await buildFontDecoder(doc, ref));
+    }
+    const xobjects = doc.dict(resources?.get('XObject'));
+
+    const lexer = new Lexer(content);
+    const operands: PdfValue[] = [];
+    let font: FontDecoder | undefined;
+    // Posição vertical da linha atual (mantida entre blocos BT/ET)
+    let lineY: number | null = null;
+    let scaleY = 1;
+    let leading = 0;
+    const moveLine = (dy: number) => {
+        if (Math.abs(dy) > 0.5) pushNewline(sink);
+        lineY = (lineY ?? 0) + dy * scaleY;
+    };
+
+    for (let token = lexer.next(); token; token = lexer.next()) {
+        if (token.type !== 'kw') {
+            operands.push(parseValue(lexer, token));
+            continue;
+        }
+        const op = token.v;
+        const nums = operands.filter((o): o is number => typeof o === 'number');
+
+        switch (op) {
+            case 'Tf':
+                font = fonts.get(String(operands[0]));
+                break;
+            case 'Td':
+                moveLine(nums[1] || 0);
+                break;
+            case 'TD':
+                leading = -(nums[1] || 0);
+                moveLine(nums[1] || 0);
+                break;
+            case 'TL':
+                leading = nums[0] || 0;
+                break;
+            case 'Tm': {
+                const y = nums[5];
+                if (lineY !== null && Math.abs(y - lineY) > 1) pushNewline(sink);
+                else if (lineY !== null) pushSpace(sink);
+                lineY = y;
+                scaleY = Math.abs(nums[3]) || 1;
+                break;
+            }
+            case 'T*':
+                moveLine(-leading || -1);
+                break;
+            case "'":
+            case '"':
+                moveLine(-leading || -1);
+                if (operands[operands.length - 1] instanceof PdfString) sink.text += decodeText((operands[operands.length - 1] as PdfString).bytes, font);
+                break;
+            case 'Tj':
+                if (operands[0] instanceof PdfString) sink.text += decodeText(operands[0].bytes, font);
+                break;
+            case 'TJ':
+                if (Array.isArray(operands[0])) {
+                    operands[0].forEach(part => {
+                        if (part instanceof PdfString) sink.text += decodeText(part.bytes, font);
+                        // Deslocamento grande (milésimos de em) equivale a espaço entre palavras
+                        else if (typeof part === 'number' && part < -180) pushSpace(sink);
+                    });
+                }
+                break;
+            case 'BI':
+                lexer.skipInlineImage();
+                break;
+            case 'Do': {
+                if (depth > 5 || !xobjects) break;
+                const ref = xobjects.get(String(operands[0]));
+                const xobj = doc.objectOf(ref);
+                if (!(xobj?.value instanceof Map) || xobj.value.get('Subtype') !== 'Form') break;
+                const data = await doc.decodeStream(xobj);
+                if (data) await extractFromContent(doc, bytesToLatin1(data), doc.dict(xobj.value.get('Resources')) || resources, sink, depth + 1);
+                break;
+            }
+        }
+        operands.length = 0;
+    }
+};
+
+/** Texto de todas as páginas, com quebra de linha entre linhas e páginas. */
+export const extractPdfText = async (buffer: ArrayBuffer): Promise<string> => {
+    const bytes = new Uint8Array(buffer);
+    const src = bytesToLatin1(bytes);
+    if (!src.startsWith('%PDF')) throw new Error('Arquivo não é um PDF válido.');
+
+    const doc = new PdfDocument(src, bytes);
+    if (doc.isEncrypted()) throw new Error('PDF protegido por senha ou criptografado. Salve uma cópia sem proteção e tente novamente.');
+    await doc.expandObjectStreams();
+
+    const pages: string[] = [];
+    for (const { page, resources } of doc.pages()) {
+        const contents = doc.resolve(page.get('Contents'));
+        const parts = Array.isArray(contents) ? contents : [page.get('Contents')];
+        const chunks: string[] = [];
+        for (const part of parts) {
+            const data = await doc.decodeStream(doc.objectOf(part as PdfValue));
+            if (data) chunks.push(bytesToLatin1(data));
+        }
+        const sink: TextSink = { text: '' };
+        await extractFromContent(doc, chunks.join('\n'), resources, sink, 0);
+        pages.push(sink.text.trim());
+    }
+
+    const text = pages.join('\n\n');
+    if (!text.replace(/\s/g, '')) {
+        throw new Error('Nenhum texto encontrado no PDF. Cadernos digitalizados (imagem) precisam passar por OCR antes.');
+    }
+    return text;
+};
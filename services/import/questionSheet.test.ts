@@ -0,0 +1,45 @@
+import { describe, it, expect } from 'vitest';
+import { guessMapping, questionsToSheetRows, sheetRowsToQuestions } from './questionSheet';
+
+const HEADER = ['Ref', 'Enunciado', 'A', 'B', 'C', 'Gabarito', 'Lei', 'Disciplina'];
+
+describe('sheetRowsToQuestions', () => {
+    it('C/E: Certo/Errado sem alternativas vira A/B com as opções Certo e Errado', () => {
+        const rows = [
+            HEADER,
+            ['Q1', 'A casa é asilo inviolável.', '', '', '', 'Certo', 'CF_ART5', 'Constitucional'],
+            ['Q2', 'A lei penal retroage sempre.', '', '', '', 'E', 'CP_ART2', 'Penal'],
+        ];
+        const { questions, errors } = sheetRowsToQuestions(rows, guessMapping(HEADER));
+        expect(errors).toEqual([]);
+        expect(questions.map(q => [q.correctAnswer, q.options, q.questionType])).toEqual([
+            ['A', { A: 'Certo', B: 'Errado' }, '13 C/E'],
+            ['B', { A: 'Certo', B: 'Errado' }, '13 C/E'],
+        ]);
+    });
+
+    it('com alternativas, "C" e "E" são letras de gabarito, não Certo/Errado', () => {
+        const rows = [
+            HEADER,
+            ['Q3', 'Enunciado', 'um', 'dois', 'três', 'c', 'CF_ART1', 'Constitucional'],
+            ['Q4', 'Enunciado', 'um', 'dois', '', 'E', 'CF_ART1', 'Constitucional'],
+        ];
+        const { questions, errors } = sheetRowsToQuestions(rows, guessMapping(HEADER));
+        expect(questions.map(q => [q.correctAnswer, q.questionType])).toEqual([['C', '']]);
+        expect(errors).toEqual([{ row: 3, ref: 'Q4', problems: ['Gabarito "E" sem alternativa correspondente'] }]);
+    });
+});
+
+describe('questionsToSheetRows', () => {
+    it('o cabeçalho exportado é reconhecido pela importação', () => {
+        const rows = [
+            HEADER,
+            ['Q1', 'Enunciado', 'um', 'dois', '', 'B', 'CF_ART5', 'Constitucional'],
+        ];
+        const { questions } = sheetRowsToQuestions(rows, guessMapping(HEADER));
+        const exported = questionsToSheetRows(questions, false);
+        const back = sheetRowsToQuestions(exported, guessMapping(exported[0]));
+        expect(back.errors).toEqual([]);
+        expect(back.questions[0]).toMatchObject({ questionRef: 'Q1', correctAnswer: 'B', options: { A: 'um', B: 'dois' }, lawRef: 'CF_ART5' });
+    });
+});
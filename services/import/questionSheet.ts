@@ -0,0 +1,295 @@
+import { Question } from '../../types';
+import { saveData, loadData } from '../storage';
+import * as srs from '../srsService';
+import { normalizeDiscipline } from '../taxonomyService';
+import goldenSchema from '../../audit/baseline/golden_schema.json';
+import { SheetRows } from './spreadsheet';
+
+/**
+ * QUESTÕES ↔ PLANILHA
+ * Mapeamento de colunas (lembrado por formato de cabeçalho), conversão de linhas
+ * em questões validadas pelo contrato do golden_schema e a exportação com filtros
+ * e colunas de estatística. O cabeçalho exportado é reconhecido de volta pela
+ * importação, então exportar → editar no Excel → importar não precisa de mapeamento.
+ */
+
+const LS_SHEET_MAPPINGS_KEY = 'revApp_sheet_mappings_v1';
+
+export type QuestionSheetField =
+    | 'id' | 'questionRef' | 'questionText' | 'A' | 'B' | 'C' | 'D' | 'E' | 'correctAnswer'
+    | 'lawRef' | 'subject' | 'topic' | 'subtopic' | 'bank' | 'position' | 'area' | 'questionType'
+    | 'explanation' | 'explanationTech' | 'explanationStory' | 'keyDistinction' | 'anchorText'
+    | 'tags' | 'hotTopic' | 'isCritical' | 'isFundamental';
+
+interface SheetColumn {
+    field: QuestionSheetField;
+    label: string;
+    /** Nomes de cabeçalho reconhecidos (já normalizados). */
+    aliases: string[];
+}
+
+export const QUESTION_SHEET_COLUMNS: SheetColumn[] = [
+    { field: 'id', label: 'ID', aliases: ['ID', 'QUESTION_ID'] },
+    { field: 'questionRef', label: 'Ref', aliases: ['REF', 'Q_REF', 'QUESTION_REF', 'REFERENCIA', 'CODIGO'] },
+    { field: 'questionText', label: 'Enunciado', aliases: ['ENUNCIADO', 'Q_TEXT', 'QUESTION_TEXT', 'QUESTAO', 'PERGUNTA', 'TEXTO'] },
+    { field: 'A', label: 'Alternativa A', aliases: ['ALTERNATIVA_A', 'ALT_A', 'OPT_A', 'A'] },
+    { field: 'B', label: 'Alternativa B', aliases: ['ALTERNATIVA_B', 'ALT_B', 'OPT_B', 'B'] },
+    { field: 'C', label: 'Alternativa C', aliases: ['ALTERNATIVA_C', 'ALT_C', 'OPT_C', 'C'] },
+    { field: 'D', label: 'Alternativa D', aliases: ['ALTERNATIVA_D', 'ALT_D', 'OPT_D', 'D'] },
+    { field: 'E', label: 'Alternativa E', aliases: ['ALTERNATIVA_E', 'ALT_E', 'OPT_E', 'E'] },
+    { field: 'correctAnswer', label: 'Gabarito', aliases: ['GABARITO', 'CORRECT', 'CORRECT_ANSWER', 'RESPOSTA', 'ANSWER'] },
+    { field: 'lawRef', label: 'Lei (lawRef)', aliases: ['LEI_LAWREF', 'LAWREF', 'LAW_REF', 'LIT_REF', 'LEI', 'DISPOSITIVO'] },
+    { field: 'subject', label: 'Disciplina', aliases: ['DISCIPLINA', 'DISCIPLINE', 'SUBJECT', 'MATERIA'] },
+    { field: 'topic', label: 'Assunto', aliases: ['ASSUNTO', 'TOPIC', 'TOPICO', 'TEMA'] },
+    { field: 'subtopic', label: 'Subassunto', aliases: ['SUBASSUNTO', 'SUBTOPIC', 'SUBTOPICO'] },
+    { field: 'bank', label: 'Banca', aliases: ['BANCA', 'BANK'] },
+    { field: 'position', label: 'Cargo', aliases: ['CARGO', 'POSITION', 'EXAM', 'CONCURSO'] },
+    { field: 'area', label: 'Área', aliases: ['AREA'] },
+    { field: 'questionType', label: 'Tipo', aliases: ['TIPO', 'TYPE', 'QUESTION_TYPE'] },
+    { field: 'explanation', label: 'Comentário', aliases: ['COMENTARIO', 'EXPLANATION', 'EXPLICACAO', 'JUSTIFICATIVA'] },
+    { field: 'explanationTech', label: 'Explicação técnica', aliases: ['EXPLICACAO_TECNICA', 'EXPLANATION_TECH'] },
+    { field: 'explanationStory', label: 'Explicação história', aliases: ['EXPLICACAO_HISTORIA', 'EXPLANATION_STORY'] },
+    { field: 'keyDistinction', label: 'Distinção-chave', aliases: ['DISTINCAO_CHAVE', 'KEY_DISTINCTION'] },
+    { field: 'anchorText', label: 'Texto âncora', aliases: ['TEXTO_ANCORA', 'ANCHOR_TEXT'] },
+    { field: 'tags', label: 'Tags', aliases: ['TAGS', 'ETIQUETAS'] },
+    { field: 'hotTopic', label: 'Hot topic', aliases: ['HOT_TOPIC', 'HOT'] },
+    { field: 'isCritical', label: 'Crítica', aliases: ['CRITICA', 'CRIT', 'IS_CRITICAL'] },
+    { field: 'isFundamental', label: 'Fundamental', aliases: ['FUNDAMENTAL', 'FUND', 'IS_FUNDAMENTAL'] },
+];
+
+/** Colunas só de exportação; na importação ficam sem mapeamento. */
+export const QUESTION_STATS_COLUMNS = ['Tentativas', 'Acerto (%)', 'Domínio', 'Última revisão'];
+
+/** Cabeçalho original → campo ('' = ignorar a coluna). */
+export type SheetColumnMapping = Record<string, QuestionSheetField | ''>;
+
+interface StoredMapping {
+    mapping: SheetColumnMapping;
+    label: string;
+    updatedAt: string;
+}
+
+export const normalizeHeader = (header: string): string =>
+    (header || '').trim().toUpperCase()
+        .normalize('NFD').replace(/[\u0300-\u036f]/g, '')
+        .replace(/[^A-Z0-9]+/g, '_')
+        .replace(/^_+|_+$/g, '');
+
+/** Identifica a "fonte" pelo conjunto de cabeçalhos: a mesma planilha reenviada reaproveita o mapeamento. */
+export const sheetSourceKey = (headers: string[]): string =>
+    [...new Set(headers.map(normalizeHeader).filter(Boolean))].sort().join('|');
+
+export const guessMapping = (headers: string[]): SheetColumnMapping => {
+    const used = new Set<QuestionSheetField>();
+    const mapping: SheetColumnMapping = {};
+    headers.forEach(header => {
+        const normalized = normalizeHeader(header);
+        const column = QUESTION_SHEET_COLUMNS.find(c => !used.has(c.field) && (c.aliases.includes(normalized) || normalizeHeader(c.label) === normalized));
+        mapping[header] = column?.field || '';
+        if (column) used.add(column.field);
+    });
+    return mapping;
+};
+
+export const loadSheetMapping = async (headers: string[]): Promise<SheetColumnMapping | null> => {
+    const stored = (await loadData<Record<string, StoredMapping>>(LS_SHEET_MAPPINGS_KEY)) || {};
+    const entry = stored[sheetSourceKey(headers)];
+    if (!entry) return null;
+    // Cabeçalhos novos (não vistos quando o mapeamento foi salvo) ficam ignorados
+    return Object.fromEntries(headers.map(h => [h, entry.mapping[h] ?? ''])) as SheetColumnMapping;
+};
+
+export const saveSheetMapping = async (headers: string[], mapping: SheetColumnMapping, label: string): Promise<void> => {
+    try {
+        const stored = (await loadData<Record<string, StoredMapping>>(LS_SHEET_MAPPINGS_KEY)) || {};
+        stored[sheetSourceKey(headers)] = { mapping, label, updatedAt: new Date().toISOString() };
+        await saveData(LS_SHEET_MAPPINGS_KEY, stored);
+    } catch (e) {
+        console.error('[QuestionSheet] Erro ao salvar mapeamento:', e);
+    }
+};
+
+// --- VALIDAÇÃO (golden_schema) ---
+
+const QUESTION_CONTRACT = goldenSchema.contracts.question;
+const OPTION_KEYS = ['A', 'B', 'C', 'D', 'E'] as const;
+
+const FIELD_LABELS: Record<string, string> = Object.fromEntries(QUESTION_SHEET_COLUMNS.map(c => [c.field, c.label]));
+
+const countOptions = (options: Question['options'] | undefined) =>
+    Object.values(options || {}).filter(v => !!v && v.trim() !== '' && v.trim() !== '—').length;
+
+/**
+ * Campos obrigatórios do contrato de questão. O id pode vir da planilha ou ser
+ * derivado da Ref (o id estável é gerado na normalização), então basta um dos dois.
+ */
+export const validateQuestionContract = (q: Partial<Question>): string[] => {
+    const problems: string[] = [];
+    QUESTION_CONTRACT.required_fields.forEach(field => {
+        if (field === 'id') {
+            if (!q.id && !q.questionRef) problems.push('ID ou Ref ausente');
+        } else if (field === 'options') {
+            if (countOptions(q.options) < QUESTION_CONTRACT.min_options_count) problems.push(`Menos de ${QUESTION_CONTRACT.min_options_count} alternativas`);
+        } else if (!String((q as any)[field] ?? '').trim()) {
+            problems.push(`${FIELD_LABELS[field] || field} ausente`);
+        }
+    });
+    if (q.id && QUESTION_CONTRACT.banned_id_prefixes.some(prefix => q.id!.startsWith(prefix))) problems.push(`ID com prefixo proibido (${q.id})`);
+    if (q.correctAnswer && q.options && !q.options[q.correctAnswer]) problems.push(`Gabarito "${q.correctAnswer}" sem alternativa correspondente`);
+    return problems;
+};
+
+/** Campos obrigatórios do contrato que não têm coluna mapeada. */
+export const missingRequiredColumns = (mapping: SheetColumnMapping): string[] => {
+    const mapped = new Set(Object.values(mapping));
+    const missing: string[] = [];
+    QUESTION_CONTRACT.required_fields.forEach(field => {
+        if (field === 'id') { if (!mapped.has('id') && !mapped.has('questionRef')) missing.push('ID ou Ref'); }
+        else if (field === 'options') { if (OPTION_KEYS.filter(k => mapped.has(k)).length < QUESTION_CONTRACT.min_options_count && !mapped.has('correctAnswer')) missing.push('Alternativas'); }
+        else if (!mapped.has(field as QuestionSheetField)) missing.push(FIELD_LABELS[field] || field);
+    });
+    return missing;
+};
+
+// --- IMPORTAÇÃO ---
+
+export interface SheetRowError {
+    /** Linha na planilha (1 = cabeçalho). */
+    row: number;
+    ref: string;
+    problems: string[];
+}
+
+export interface SheetImportResult {
+    questions: Question[];
+    errors: SheetRowError[];
+}
+
+const isTruthy = (value: string) => /^(1|x|sim|s|true|verdadeiro|yes|y)$/i.test(value.trim());
+
+const splitTags = (value: string) => value.split(/[;,|]/).map(t => t.trim()).filter(Boolean);
+
+/** Gabarito: letra, ou Certo/Errado em questões C/E sem alternativas na planilha. */
+const resolveAnswer = (raw: string, hasOptions: boolean): { answer: string; isCertoErrado: boolean } => {
+    const value = raw.trim().toUpperCase().normalize('NFD').replace(/[\u0300-\u036f]/g, '');
+    if (!hasOptions) {
+        if (value === 'CERTO' || value === 'C') return { answer: 'A', isCertoErrado: true };
+        if (value === 'ERRADO' || value === 'E') return { answer: 'B', isCertoErrado: true };
+    }
+    return { answer: value.match(/^([A-E])\b/)?.[1] || value, isCertoErrado: false };
+};
+
+export const sheetRowsToQuestions = (rows: SheetRows, mapping: SheetColumnMapping, defaultStability = 1): SheetImportResult => {
+    const [headers, ...body] = rows;
+    const result: SheetImportResult = { questions: [], errors: [] };
+    if (!headers) return result;
+    const columnOf = new Map<QuestionSheetField, number>();
+    headers.forEach((header, index) => { const field = mapping[header]; if (field && !columnOf.has(field)) columnOf.set(field, index); });
+    const today = srs.todayISO();
+
+    body.forEach((row, index) => {
+        const get = (field: QuestionSheetField) => { const col = columnOf.get(field); return col === undefined ? '' : (row[col] ?? '').trim(); };
+        const options: Question['options'] = {};
+        OPTION_KEYS.forEach(key => { const value = get(key); if (value) options[key] = value; });
+        const { answer, isCertoErrado } = resolveAnswer(get('correctAnswer'), countOptions(options) > 0);
+        const finalOptions = isCertoErrado ? { A: 'Certo', B: 'Errado' } : options;
+        const subject = get('subject');
+
+        const question = {
+            id: get('id') || undefined,
+            questionRef: get('questionRef'),
+            questionText: get('questionText'),
+            options: finalOptions,
+            correctAnswer: answer,
+            lawRef: get('lawRef'),
+            subject: normalizeDiscipline(subject || 'Geral'),
+            topic: get('topic') || 'Geral',
+            subtopic: get('subtopic') || undefined,
+            bank: get('bank'),
+            position: get('position'),
+            area: get('area') || subject || 'Geral',
+            questionType: get('questionType') || (isCertoErrado ? '13 C/E' : ''),
+            explanation: get('explanation') || get('explanationTech'),
+            explanationTech: get('explanationTech') || undefined,
+            explanationStory: get('explanationStory') || undefined,
+            keyDistinction: get('keyDistinction') || undefined,
+            anchorText: get('anchorText') || undefined,
+            tags: splitTags(get('tags')),
+            hotTopic: isTruthy(get('hotTopic')),
+            isCritical: isTruthy(get('isCritical')),
+            isFundamental: isTruthy(get('isFundamental')),
+            comments: '',
+            createdAt: today,
+            lastAttemptDate: '',
+            totalAttempts: 0,
+            errorCount: 0,
+            lastWasCorrect: false,
+            timeSec: 0,
+            selfEvalLevel: 0,
+            masteryScore: 0,
+            stability: defaultStability,
+            nextReviewDate: today,
+            srsStage: 0,
+            correctStreak: 0,
+            attemptHistory: [],
+            srsVersion: 2,
+            recentError: 0,
+            difficulty: 0.5,
+        } as Question;
+
+        const problems = validateQuestionContract(question);
+        if (problems.length > 0) result.errors.push({ row: index + 2, ref: question.questionRef || question.id || '', problems });
+        else result.questions.push(question);
+    });
+    return result;
+};
+
+// --- EXPORTAÇÃO ---
+
+export interface QuestionExportFilter {
+    subjects: string[];
+    topics: string[];
+    banks: string[];
+    tags: string[];
+}
+
+export const EMPTY_EXPORT_FILTER: QuestionExportFilter = { subjects: [], topics: [], banks: [], tags: [] };
+
+/** Lista vazia = sem filtro naquela dimensão; entre dimensões vale o E. */
+export const filterQuestionsForExport = (questions: Question[], filter: QuestionExportFilter): Question[] =>
+    questions.filter(q =>
+        (filter.subjects.length === 0 || filter.subjects.includes(q.subject))
+        && (filter.topics.length === 0 || filter.topics.includes(q.topic))
+        && (filter.banks.length === 0 || filter.banks.includes(q.bank || ''))
+        && (filter.tags.length === 0 || (q.tags || []).some(t => filter.tags.includes(t)))
+    );
+
+const accuracyOf = (q: Question): string => {
+    if (q.attemptHistory?.length) return String(Math.round(q.attemptHistory.filter(a => a.wasCorrect).length / q.attemptHistory.length * 100));
+    if (q.totalAttempts > 0) return String(Math.round(Math.max(0, q.totalAttempts - (q.errorCount || 0)) / q.totalAttempts * 100));
+    return '';
+};
+
+const fieldValue = (q: Question, field: QuestionSheetField): string => {
+    switch (field) {
+        case 'A': case 'B': case 'C': case 'D': case 'E': return q.options?.[field] || '';
+        case 'tags': return (q.tags || []).join('; ');
+        case 'hotTopic': case 'isCritical': case 'isFundamental': return q[field] ? '1' : '';
+        case 'anchorText': return typeof q.anchorText === 'string' ? q.anchorText : '';
+        default: return String(q[field] ?? '');
+    }
+};
+
+export const questionsToSheetRows = (questions: Question[], includeStats = true): SheetRows => {
+    const header = [...QUESTION_SHEET_COLUMNS.map(c => c.label), ...(includeStats ? QUESTION_STATS_COLUMNS : [])];
+    const rows = questions.map(q => [
+        ...QUESTION_SHEET_COLUMNS.map(c => fieldValue(q, c.field)),
+        ...(includeStats ? [
+            String(q.totalAttempts || 0),
+            accuracyOf(q),
+            String(Math.round(q.masteryScore || 0)),
+            (q.lastReviewedAt || q.lastAttemptDate || '').slice(0, 10),
+        ] : []),
+    ]);
+    return [header, ...rows];
+};
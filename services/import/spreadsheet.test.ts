@@ -0,0 +1,43 @@
+import { describe, it, expect } from 'vitest';
+import { parseCsv, readXlsx, toCsv, writeXlsx } from './spreadsheet';
+
+describe('parseCsv', () => {
+    it('detecta vírgula, ponto e vírgula e tabulação', () => {
+        expect(parseCsv('a,b,c\n1,2,3')).toEqual([['a', 'b', 'c'], ['1', '2', '3']]);
+        expect(parseCsv('\uFEFFa;b\r\n1,5;2')).toEqual([['a', 'b'], ['1,5', '2']]);
+        expect(parseCsv('a\tb\n1\t2\n')).toEqual([['a', 'b'], ['1', '2']]);
+    });
+
+    it('aspas escapam delimitador, quebra de linha e a própria aspa', () => {
+        const rows = parseCsv('Ref;Enunciado\nQ1;"Texto; com ""aspas""\ne quebra"\n\nQ2;');
+        expect(rows).toEqual([['Ref', 'Enunciado'], ['Q1', 'Texto; com "aspas"\ne quebra'], ['Q2', '']]);
+    });
+});
+
+describe('toCsv', () => {
+    it('ida e volta com parseCsv, inclusive com o delimitador dentro da célula', () => {
+        const rows = [['Ref', 'Enunciado'], ['Q1', 'Art. 5º, "caput"\nsegunda linha'], ['Q2', '']];
+        expect(toCsv(rows).startsWith('\uFEFF')).toBe(true);
+        expect(parseCsv(toCsv(rows))).toEqual(rows);
+        expect(parseCsv(toCsv(rows, ';'))).toEqual(rows);
+    });
+
+    it('neutraliza células que virariam fórmula, mas não números negativos', () => {
+        const rows = [['A', 'B', 'C', 'D', 'E'], ['=HYPERLINK("x")', '+1+1', '-2+3', '@SUM(A1)', '-3']];
+        const csv = toCsv(rows);
+        expect(csv.split('\r\n')[1]).toBe(`"'=HYPERLINK(""x"")",'+1+1,'-2+3,'@SUM(A1),-3`);
+        expect(parseCsv(csv)).toEqual(rows);
+    });
+});
+
+describe('writeXlsx / readXlsx', () => {
+    it('ida e volta com acentos, caracteres especiais, números e células vazias', async () => {
+        const rows = [
+            ['Ref', 'Enunciado', 'Tentativas'],
+            ['Q1', 'A & B <c> "d" — ação', '12'],
+            ['Q2', '', '-3.5'],
+            ['Q3', 'linha 1\nlinha 2', '007'],
+        ];
+        expect(await readXlsx(writeXlsx(rows))).toEqual(rows);
+    });
+});
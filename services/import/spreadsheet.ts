@@ -0,0 +1,211 @@
+import { readZip, writeZip } from '../anki/zipArchive';
+import { decodeXml } from './docxText';
+
+/**
+ * PLANILHAS (CSV / XLSX)
+ * Leitura e escrita de tabelas simples: uma matriz de células texto, primeira
+ * linha = cabeçalho. XLSX usa só a primeira aba, sem estilos nem fórmulas — é o
+ * suficiente para o que os coordenadores mantêm no Excel/Google Sheets.
+ */
+
+export type SheetRows = string[][];
+
+const CSV_DELIMITERS = [',', ';', '\t'];
+
+/**
+ * Células que começam com = + - @ viram fórmula ao abrir o CSV no Excel/Sheets
+ * (CSV injection). Na exportação ganham um apóstrofo na frente; números puros
+ * (ex.: -3) ficam como estão. A importação remove o apóstrofo de volta.
+ */
+const FORMULA_START = /^[=+\-@]/;
+const PLAIN_NUMBER = /^-?\d+(\.\d+)?$/;
+
+const neutralizeFormula = (value: string) =>
+    FORMULA_START.test(value) && !PLAIN_NUMBER.test(value) ? `'${value}` : value;
+
+const restoreFormula = (value: string) =>
+    value.startsWith("'") && FORMULA_START.test(value.slice(1)) ? value.slice(1) : value;
+
+/** Delimitador mais frequente na primeira linha (fora de aspas). */
+const detectDelimiter = (text: string): string => {
+    const counts = new Map<string, number>(CSV_DELIMITERS.map(d => [d, 0]));
+    let quoted = false;
+    for (const ch of text) {
+        if (ch === '"') quoted = !quoted;
+        else if (!quoted && (ch === '\n' || ch === '\r')) break;
+        else if (!quoted && counts.has(ch)) counts.set(ch, counts.get(ch)! + 1);
+    }
+    return [...counts.entries()].sort((a, b) => b[1] - a[1])[0][0];
+};
+
+/** CSV no padrão RFC 4180: aspas duplas escapam delimitador, quebra de linha e a própria aspa. */
+export const parseCsv = (input: string): SheetRows => {
+    const text = input.replace(/^\uFEFF/, '');
+    const delimiter = detectDelimiter(text);
+    const rows: SheetRows = [];
+    let row: string[] = [];
+    let cell = '';
+    let quoted = false;
+
+    for (let i = 0; i < text.length; i++) {
+        const ch = text[i];
+        if (quoted) {
+            if (ch === '"' && text[i + 1] === '"') { cell += '"'; i++; }
+            else if (ch === '"') quoted = false;
+            else cell += ch;
+        } else if (ch === '"' && cell === '') {
+            quoted = true;
+        } else if (ch === delimiter) {
+            row.push(cell); cell = '';
+        } else if (ch === '\n' || ch === '\r') {
+            if (ch === '\r' && text[i + 1] === '\n') i++;
+            row.push(cell); cell = '';
+            rows.push(row); row = [];
+        } else {
+            cell += ch;
+        }
+    }
+    if (cell !== '' || row.length > 0) { row.push(cell); rows.push(row); }
+    return rows.filter(r => r.some(c => c.trim() !== '')).map(r => r.map(restoreFormula));
+};
+
+/** CSV com BOM, para o Excel abrir em UTF-8 sem estragar acentos. */
+export const toCsv = (rows: SheetRows, delimiter = ','): string => {
+    const escape = (value: string) =>
+        /["\r\n]/.test(value) || value.includes(delimiter) ? `"${value.replace(/"/g, '""')}"` : value;
+    return '\uFEFF' + rows.map(r => r.map(c => escape(neutralizeFormula(c ?? ''))).join(delimiter)).join('\r\n');
+};
+
+// --- XLSX ---
+
+const columnIndex = (ref: string): number => {
+    const letters = ref.match(/^[A-Z]+/i)?.[0].toUpperCase() || '';
+    let n = 0;
+    for (const ch of letters) n = n * 26 + (ch.charCodeAt(0) - 64);
+    return n - 1;
+};
+
+const columnName = (index: number): string => {
+    let name = '';
+    for (let n = index + 1; n > 0; n = Math.floor((n - 1) / 26)) name = String.fromCharCode(65 + ((n - 1) % 26)) + name;
+    return name;
+};
+
+/** Junta os <t> de um nó (texto simples ou rich text com vários runs). */
+const textOf = (xml: string): string =>
+    [...xml.matchAll(/<t\b[^>]*>([\s\S]*?)<\/t>/g)].map(m => decodeXml(m[1])).join('');
+
+const decodeUtf8 = (data: Uint8Array | undefined) => data ? new TextDecoder('utf-8').decode(data) : '';
+
+/** Primeira aba do workbook, seguindo o relacionamento declarado (com fallback para sheet1). */
+const firstSheetPath = (entries: Map<string, Uint8Array>): string | undefined => {
+    const workbook = decodeUtf8(entries.get('xl/workbook.xml'));
+    const rels = decodeUtf8(entries.get('xl/_rels/workbook.xml.rels'));
+    const relId = workbook.match(/<sheet\b[^>]*\br:id="([^"]+)"/)?.[1];
+    const target = relId ? rels.match(new RegExp(`<Relationship\\b[^>]*\\bId="${relId}"[^>]*\\bTarget="([^"]+)"`))?.[1]
+        || rels.match(new RegExp(`<Relationship\\b[^>]*\\bTarget="([^"]+)"[^>]*\\bId="${relId}"`))?.[1] : undefined;
+    if (target) {
+        const path = target.startsWith('/') ? target.slice(1) : `xl/${target}`;
+        if (entries.has(path)) return path;
+    }
+    return [...entries.keys()].filter(k => /^xl\/worksheets\/[^/]+\.xml$/.test(k)).sort()[0];
+};
+
+export const readXlsx = async (buffer: ArrayBuffer | Uint8Array): Promise<SheetRows> => {
+    const entries = await readZip(buffer);
+    const sheetPath = firstSheetPath(entries);
+    if (!sheetPath) throw new Error('Planilha XLSX sem abas legíveis.');
+
+    const sharedStrings = [...decodeUtf8(entries.get('xl/sharedStrings.xml')).matchAll(/<si\b[^>]*>([\s\S]*?)<\/si>/g)].map(m => textOf(m[1]));
+    const sheet = decodeUtf8(entries.get(sheetPath));
+    const rows: SheetRows = [];
+
+    for (const rowMatch of sheet.matchAll(/<row\b([^>]*?)(?:\/>|>([\s\S]*?)<\/row>)/g)) {
+        const rowNumber = Number(rowMatch[1].match(/\br="(\d+)"/)?.[1]) || rows.length + 1;
+        const row: string[] = [];
+        let next = 0;
+        for (const cellMatch of (rowMatch[2] || '').matchAll(/<c\b([^>]*?)(?:\/>|>([\s\S]*?)<\/c>)/g)) {
+            const attrs = cellMatch[1];
+            const body = cellMatch[2] || '';
+            const ref = attrs.match(/\br="([A-Z]+)\d+"/i)?.[1];
+            const col = ref ? columnIndex(ref) : next;
+            const type = attrs.match(/\bt="([^"]+)"/)?.[1];
+            const raw = body.match(/<v>([\s\S]*?)<\/v>/)?.[1];
+            let value = '';
+            if (type === 's') value = sharedStrings[Number(raw)] ?? '';
+            else if (type === 'inlineStr') value = textOf(body);
+            else if (type === 'b') value = raw === '1' ? 'TRUE' : 'FALSE';
+            else if (raw !== undefined) value = decodeXml(raw);
+            row[col] = value;
+            next = col + 1;
+        }
+        rows[rowNumber - 1] = Array.from(row, c => c ?? '');
+    }
+    return Array.from(rows, r => r ?? []).filter(r => r.some(c => c.trim() !== ''));
+};
+
+const escapeXml = (text: string) =>
+    text
+        // Caracteres de controle são inválidos em XML 1.0 (o Excel recusa o arquivo)
+        .replace(/[\u0000-\u0008\u000B\u000C\u000E-\u001F]/g, '')
+        .replace(/&/g, '&amp;')
+        .replace(/</g, '&lt;')
+        .replace(/>/g, '&gt;')
+        .replace(/"/g, '&quot;');
+
+const XML_HEADER = '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>\n';
+const NS_MAIN = 'http://schemas.openxmlformats.org/spreadsheetml/2006/main';
+const NS_REL = 'http://schemas.openxmlformats.org/officeDocument/2006/relationships';
+const NS_PKG_REL = 'http://schemas.openxmlformats.org/package/2006/relationships';
+
+/** XLSX mínimo: uma aba, strings inline e números como número (o Excel soma/ordena direto). */
+export const writeXlsx = (rows: SheetRows, sheetName = 'Planilha1'): Uint8Array => {
+    const encoder = new TextEncoder();
+    const sheetRows = rows.map((row, r) => {
+        const cells = row.map((value, c) => {
+            const ref = `${columnName(c)}${r + 1}`;
+            const text = value ?? '';
+            if (r > 0 && /^-?(0|[1-9]\d*)(\.\d+)?$/.test(text) && text.length < 15) return `<c r="${ref}"><v>${text}</v></c>`;
+            return `<c r="${ref}" t="inlineStr"><is><t xml:space="preserve">${escapeXml(text)}</t></is></c>`;
+        });
+        return `<row r="${r + 1}">${cells.join('')}</row>`;
+    }).join('');
+
+    const files: { name: string; content: string }[] = [
+        {
+            name: '[Content_Types].xml',
+            content: `${XML_HEADER}<Types xmlns="http://schemas.openxmlformats.org/package/2006/content-types">`
+                + '<Default Extension="rels" ContentType="application/vnd.openxmlformats-package.relationships+xml"/>'
+                + '<Default Extension="xml" ContentType="application/xml"/>'
+                + '<Override PartName="/xl/workbook.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.sheet.main+xml"/>'
+                + '<Override PartName="/xl/worksheets/sheet1.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.worksheet+xml"/>'
+                + '</Types>',
+        },
+        {
+            name: '_rels/.rels',
+            content: `${XML_HEADER}<Relationships xmlns="${NS_PKG_REL}"><Relationship Id="rId1" Type="${NS_REL}/officeDocument" Target="xl/workbook.xml"/></Relationships>`,
+        },
+        {
+            name: 'xl/workbook.xml',
+            content: `${XML_HEADER}<workbook xmlns="${NS_MAIN}" xmlns:r="${NS_REL}"><sheets><sheet name="${escapeXml(sheetName.slice(0, 31))}" sheetId="1" r:id="rId1"/></sheets></workbook>`,
+        },
+        {
+            name: 'xl/_rels/workbook.xml.rels',
+            content: `${XML_HEADER}<Relationships xmlns="${NS_PKG_REL}"><Relationship Id="rId1" Type="${NS_REL}/worksheet" Target="worksheets/sheet1.xml"/></Relationships>`,
+        },
+        {
+            name: 'xl/worksheets/sheet1.xml',
+            content: `${XML_HEADER}<worksheet xmlns="${NS_MAIN}"><sheetData>${sheetRows}</sheetData></worksheet>`,
+        },
+    ];
+    return writeZip(files.map(f => ({ name: f.name, data: encoder.encode(f.content) })));
+};
+
+/** Lê .csv/.tsv/.txt como texto e .xlsx como pacote; o resto é recusado. */
+export const readSpreadsheetFile = async (file: File): Promise<SheetRows> => {
+    const name = file.name.toLowerCase();
+    if (name.endsWith('.xlsx')) return readXlsx(await file.arrayBuffer());
+    if (name.endsWith('.xls')) throw new Error('Formato .xls (Excel 97-2003) não suportado. Salve como .xlsx ou .csv.');
+    if (/\.(csv|tsv|txt)$/.test(name)) return parseCsv(await file.text());
+    throw new Error(`Formato não suportado: ${file.name}`);
+};
@@ -0,0 +1,246 @@
+import { LiteralnessCard, LawStructureHeading, LawStructureLevel, Question, Flashcard, AppSettings } from '../types';
+import * as srs from './srsService';
+
+/**
+ * ESTRUTURA DA LEI
+ * Acima do artigo: livro/título/capítulo/seção, importados (STRUCTURE) ou lidos do
+ * tópico. Dentro do artigo: caput, parágrafos, incisos e alíneas lidos do phase1Full.
+ * Cada dispositivo tem uma âncora (`<núcleo>#p1.i2`) que questões e lacunas podem
+ * usar como litRef; as estatísticas sobem pela árvore.
+ */
+
+export interface LawOutlineNode {
+    /** Artigo: id do card; dispositivo: âncora (litRef); lei/divisões: chave interna. */
+    id: string;
+    level: LawStructureLevel | 'LEI';
+    label: string;
+    title?: string;
+    text?: string;
+    cardId?: string;
+    children: LawOutlineNode[];
+}
+
+export interface OutlineNodeStats {
+    totalItems: number;
+    reviewedItems: number;
+    overdueItems: number;
+    /** Médias ponderadas pela quantidade de itens (0-100, como no getLitRefSmartStatus). */
+    domain: number;
+    mastery: number;
+    articles: number;
+}
+
+const HEADING_WORDS: { pattern: RegExp; level: LawStructureLevel; word: string }[] = [
+    { pattern: /^livro$/i, level: 'LIVRO', word: 'Livro' },
+    { pattern: /^t[íi]tulo$/i, level: 'TITULO', word: 'Título' },
+    { pattern: /^cap[íi]tulo$/i, level: 'CAPITULO', word: 'Capítulo' },
+    { pattern: /^se[çc][ãa]o$/i, level: 'SECAO', word: 'Seção' },
+    { pattern: /^subse[çc][ãa]o$/i, level: 'SUBSECAO', word: 'Subseção' },
+];
+
+const HEADING_PATTERN = /^\s*(livro|t[íi]tulo|cap[íi]tulo|subse[çc][ãa]o|se[çc][ãa]o)\s+([IVXLCDM]+|\d+|[úu]nic[oa])\b\.?\s*(?:[-–—:]\s*(.*))?$/i;
+
+/** "Título II - Dos Direitos > Capítulo I" -> divisões; pedaços fora do padrão são ignorados. */
+export const parseStructurePath = (raw?: string): LawStructureHeading[] =>
+    String(raw || '')
+        .split(/\s*(?:>|\|)\s*/)
+        .map(piece => piece.match(HEADING_PATTERN))
+        // Numeral romano só em maiúsculas ("Capítulo civil" não é divisão)
+        .filter((m): m is RegExpMatchArray => !!m && /^(?:[IVXLCDM]+|\d+|[úuÚU]nic[oa])$/.test(m[2]))
+        .map(m => {
+            const kind = HEADING_WORDS.find(h => h.pattern.test(m[1]))!;
+            const numeral = /^[úu]nic/i.test(m[2]) ? `${m[2].charAt(0).toUpperCase()}${m[2].slice(1).toLowerCase()}` : m[2].toUpperCase();
+            const title = m[3]?.trim();
+            return { level: kind.level, label: `${kind.word} ${numeral}`, ...(title ? { title } : {}) };
+        });
+
+export const formatStructurePath = (path?: LawStructureHeading[]): string =>
+    (path || []).map(h => (h.title ? `${h.label} - ${h.title}` : h.label)).join(' > ');
+
+/** Divisões do artigo: as importadas ou, na falta delas, as citadas no tópico. */
+export const headingsForCard = (card: LiteralnessCard): LawStructureHeading[] =>
+    card.structurePath && card.structurePath.length > 0 ? card.structurePath : parseStructurePath(card.topic);
+
+// --- DISPOSITIVOS (dentro do artigo) ---
+
+const ROMAN: Record<string, number> = { I: 1, V: 5, X: 10, L: 50, C: 100 };
+
+const romanToInt = (roman: string): number => {
+    let total = 0;
+    for (let i = 0; i < roman.length; i++) {
+        const value = ROMAN[roman[i]] || 0;
+        total += value < (ROMAN[roman[i + 1]] || 0) ? -value : value;
+    }
+    return total;
+};
+
+// § n, Parágrafo único, inciso romano com travessão, alínea "a)" — sempre no início de um trecho
+const MARKER_PATTERN = /(?<=^|[\s;:.])(?:§\s*(\d+)\s*[º°o]?\.?|(par[áa]grafo\s+[úu]nico)\.?|([IVXLC]+)\s*[-–—]|([a-z])\))(?=\s)/gi;
+const ARTICLE_PREFIX = /^\s*[Aa]rt(?:igo)?\.?\s*\d+[º°o]?(?:-[A-Z])?\s*[.:-]?\s*/;
+
+export const makeDispositivoRef = (cardId: string, path: string): string =>
+    `${srs.canonicalizeLitRef(cardId)}${srs.DISPOSITIVO_SEPARATOR}${path}`;
+
+/** Âncora -> núcleo e caminho (caminho vazio = o artigo inteiro). */
+export const splitLitRef = (ref: string): { base: string; path: string } => {
+    const canonical = srs.canonicalizeLitRef(ref);
+    const at = canonical.indexOf(srs.DISPOSITIVO_SEPARATOR);
+    return at < 0 ? { base: canonical, path: '' } : { base: canonical.slice(0, at), path: canonical.slice(at + 1) };
+};
+
+/**
+ * Caput, parágrafos, incisos e alíneas do texto do artigo. A numeração precisa
+ * ser sequencial (§ 1º, § 2º; I, II; a, b): remissões no meio do texto ("no § 3º")
+ * não abrem dispositivo.
+ */
+export const parseArticleOutline = (card: LiteralnessCard): LawOutlineNode => {
+    const base = srs.canonicalizeLitRef(card.id);
+    const article: LawOutlineNode = { id: base, level: 'ARTIGO', label: card.article || card.id, cardId: card.id, children: [] };
+    const text = String(card.phase1Full || '').replace(ARTICLE_PREFIX, '');
+
+    const caput: LawOutlineNode = { id: makeDispositivoRef(base, 'caput'), level: 'CAPUT', label: 'Caput', cardId: card.id, children: [] };
+    let parent = caput;          // dono dos incisos (caput ou parágrafo)
+    let inciso: LawOutlineNode | null = null;
+    let current = caput;         // recebe o texto até o próximo marcador
+    let lastParagraph = 0;
+    let lastInciso = 0;
+    let lastAlinea = 0;
+    let hasSoleParagraph = false;
+    let cursor = 0;
+
+    const open = (node: LawOutlineNode, into: LawOutlineNode, start: number, end: number) => {
+        current.text = `${current.text || ''}${text.slice(cursor, start)}`.trim();
+        into.children.push(node);
+        current = node;
+        cursor = end;
+    };
+
+    for (const m of text.matchAll(MARKER_PATTERN)) {
+        const start = m.index!;
+        const end = start + m[0].length;
+        if (m[1] || m[2]) {
+            const isSole = !!m[2];
+            const n = isSole ? 1 : parseInt(m[1], 10);
+            if (isSole ? (lastParagraph > 0 || hasSoleParagraph) : (hasSoleParagraph || n !== lastParagraph + 1)) continue;
+            const path = isSole ? 'pu' : `p${n}`;
+            const node: LawOutlineNode = { id: makeDispositivoRef(base, path), level: 'PARAGRAFO', label: isSole ? 'Parágrafo único' : `§ ${n}º`, cardId: card.id, children: [] };
+            open(node, article, start, end);
+            if (isSole) hasSoleParagraph = true; else lastParagraph = n;
+            parent = node;
+            inciso = null;
+            lastInciso = 0;
+        } else if (m[3]) {
+            const roman = m[3].toUpperCase();
+            if (m[3] !== roman || romanToInt(roman) !== lastInciso + 1) continue;
+            lastInciso++;
+            const node: LawOutlineNode = { id: `${parent.id}.i${lastInciso}`, level: 'INCISO', label: roman, cardId: card.id, children: [] };
+            open(node, parent, start, end);
+            inciso = node;
+            lastAlinea = 0;
+        } else if (m[4] && inciso) {
+            const letter = m[4];
+            if (letter !== letter.toLowerCase() || letter.charCodeAt(0) - 96 !== lastAlinea + 1) continue;
+            lastAlinea++;
+            const node: LawOutlineNode = { id: `${inciso.id}.${letter}`, level: 'ALINEA', label: `${letter})`, cardId: card.id, children: [] };
+            open(node, inciso, start, end);
+        }
+    }
+    current.text = `${current.text || ''}${text.slice(cursor)}`.trim();
+
+    // Artigo sem divisões internas: o caput sozinho não acrescenta nada à árvore
+    if (article.children.length === 0 && caput.children.length === 0) article.text = caput.text;
+    else if (caput.text || caput.children.length > 0) article.children.unshift(caput);
+    return article;
+};
+
+const compareArticles = (a: LiteralnessCard, b: LiteralnessCard) =>
+    (a.article || a.id).localeCompare(b.article || b.id, 'pt-BR', { numeric: true });
+
+/** Árvore de uma lei: divisões na ordem em que aparecem, artigos em ordem numérica. */
+export const buildLawOutline = (lawId: string, cards: LiteralnessCard[]): LawOutlineNode => {
+    const root: LawOutlineNode = { id: `lei:${lawId}`, level: 'LEI', label: lawId, children: [] };
+    const byKey = new Map<string, LawOutlineNode>();
+
+    [...cards].filter(c => c.lawId === lawId).sort(compareArticles).forEach(card => {
+        let parent = root;
+        headingsForCard(card).forEach(heading => {
+            const key = `${parent.id}/${heading.label.toLowerCase()}`;
+            let node = byKey.get(key);
+            if (!node) {
+                node = { id: key, level: heading.level, label: heading.label, title: heading.title, children: [] };
+                byKey.set(key, node);
+                parent.children.push(node);
+            } else if (!node.title && heading.title) {
+                node.title = heading.title;
+            }
+            parent = node;
+        });
+        parent.children.push(parseArticleOutline(card));
+    });
+    return root;
+};
+
+// --- ESTATÍSTICAS ---
+
+const EMPTY_STATS: OutlineNodeStats = { totalItems: 0, reviewedItems: 0, overdueItems: 0, domain: 0, mastery: 0, articles: 0 };
+
+const fromSmartStatus = (s: srs.LitRefSmartStatus, articles: number): OutlineNodeStats => ({
+    totalItems: s.totalItems, reviewedItems: s.reviewedItems, overdueItems: s.overdueItems, domain: s.domain, mastery: s.mastery, articles,
+});
+
+const combine = (parts: OutlineNodeStats[]): OutlineNodeStats => {
+    const total = parts.reduce((sum, p) => sum + p.totalItems, 0);
+    const weighted = (key: 'domain' | 'mastery') => (total > 0 ? parts.reduce((sum, p) => sum + p[key] * p.totalItems, 0) / total : 0);
+    return {
+        totalItems: total,
+        reviewedItems: parts.reduce((sum, p) => sum + p.reviewedItems, 0),
+        overdueItems: parts.reduce((sum, p) => sum + p.overdueItems, 0),
+        domain: weighted('domain'),
+        mastery: weighted('mastery'),
+        articles: parts.reduce((sum, p) => sum + p.articles, 0),
+    };
+};
+
+/**
+ * Estatísticas por nó: artigos e dispositivos via getLitRefSmartStatus (o do artigo
+ * já inclui os itens ancorados nos seus dispositivos); divisões e lei somam os filhos.
+ * `articleStats` reaproveita o que a tela já calculou por card.
+ */
+export const rollupOutlineStats = (
+    root: LawOutlineNode,
+    questions: Question[],
+    flashcards: Flashcard[],
+    settings: AppSettings,
+    articleStats?: Map<string, srs.LitRefSmartStatus>,
+): Map<string, OutlineNodeStats> => {
+    const result = new Map<string, OutlineNodeStats>();
+
+    // Só vale consultar um dispositivo se algum item aponta para dentro dele
+    const anchored = new Set<string>();
+    const addRef = (ref?: string) => { const c = srs.canonicalizeLitRef(ref); if (c.includes(srs.DISPOSITIVO_SEPARATOR)) anchored.add(c); };
+    questions.forEach(q => addRef(q.lawRef || q.litRef));
+    flashcards.forEach(f => { addRef(f.litRef); (f.tags || []).forEach(addRef); });
+    const hasAnchoredItems = (nodeId: string) => Array.from(anchored).some(ref => srs.isWithinLitRef(ref, nodeId));
+
+    const visit = (node: LawOutlineNode): OutlineNodeStats => {
+        let stats: OutlineNodeStats;
+        if (node.level === 'ARTIGO') {
+            const smart = articleStats?.get(node.cardId!) || srs.getLitRefSmartStatus(node.cardId!, questions, flashcards, settings);
+            stats = fromSmartStatus(smart, 1);
+            node.children.forEach(visit);
+        } else if (node.cardId) {
+            stats = hasAnchoredItems(node.id) ? fromSmartStatus(srs.getLitRefSmartStatus(node.id, questions, flashcards, settings), 0) : EMPTY_STATS;
+            node.children.forEach(visit);
+        } else {
+            stats = combine(node.children.map(visit));
+        }
+        result.set(node.id, stats);
+        return stats;
+    };
+    visit(root);
+    return result;
+};
+
+/** Lacunas embutidas do card ancoradas no dispositivo (ou abaixo dele). */
+export const countAnchoredGaps = (card: LiteralnessCard, nodeId: string): number =>
+    (card.extraGaps || []).filter(g => g.litRef && srs.isWithinLitRef(srs.canonicalizeLitRef(g.litRef), nodeId)).length;
@@ -0,0 +1,46 @@
+import { describe, it, expect } from 'vitest';
+import { LiteralnessCard } from '../types';
+import { diffWords, versionReimportedCard, recordLawTextVersion, getTextVersions } from './lawVersionService';
+
+const card = (extra: Partial<LiteralnessCard> = {}): LiteralnessCard => ({
+    id: 'cf88_art5', lawId: 'CF88', article: 'Art. 5º', phase1Full: 'Todos são iguais perante a lei.', createdAt: '2025-01-01T00:00:00.000Z', ...extra,
+} as LiteralnessCard);
+
+const now = new Date('2026-05-01T12:00:00.000Z');
+
+describe('versionReimportedCard', () => {
+    it('redação nova vira versão mesmo quando o card importado traz o histórico antigo', () => {
+        const previous = recordLawTextVersion(card(), { text: 'Todos são iguais perante a lei, sem distinção.', effectiveDate: '2026-01-01' }, new Date('2026-01-01T00:00:00.000Z'));
+        // Como ImportLiteralness e contentPack montam: { ...existente, ...conteúdo novo }
+        const incoming = { ...previous, phase1Full: 'Todos são iguais perante a lei, sem distinção de qualquer natureza.' };
+
+        const result = versionReimportedCard(previous, incoming, now);
+        expect(result.textVersions?.map(v => v.text)).toEqual([
+            'Todos são iguais perante a lei.',
+            'Todos são iguais perante a lei, sem distinção.',
+            'Todos são iguais perante a lei, sem distinção de qualquer natureza.',
+        ]);
+        expect(result.textVersions?.[2].source).toBe('Reimportação');
+        expect(result.phase1Full).toBe(incoming.phase1Full);
+    });
+
+    it('mesma redação não cria versão e preserva o histórico salvo', () => {
+        const previous = recordLawTextVersion(card(), { text: 'Todos são iguais.', effectiveDate: '2026-05-01' }, now);
+        const result = versionReimportedCard(previous, card({ phase1Full: 'Todos são iguais. ' }), now);
+        expect(result.textVersions).toEqual(previous.textVersions);
+    });
+
+    it('card novo passa direto', () => {
+        const incoming = card();
+        expect(versionReimportedCard(undefined, incoming, now)).toBe(incoming);
+        expect(getTextVersions(incoming)[0].text).toBe(incoming.phase1Full);
+    });
+});
+
+describe('diffWords', () => {
+    it('marca palavras inseridas e removidas', () => {
+        const segments = diffWords('o prazo é de dez dias', 'o prazo é de quinze dias');
+        expect(segments.filter(s => s.type === 'delete').map(s => s.text.trim())).toEqual(['dez']);
+        expect(segments.filter(s => s.type === 'insert').map(s => s.text.trim())).toEqual(['quinze']);
+    });
+});
@@ -0,0 +1,218 @@
+import { LiteralnessCard, LawTextVersion, Question, Flashcard } from '../types';
+import * as srs from './srsService';
+
+/**
+ * VERSÕES DO TEXTO DE LEI
+ * Cada núcleo guarda as redações do artigo (vigência, fonte, norma alteradora).
+ * A diferença entre versões é palavra a palavra; os termos removidos ou trocados
+ * sinalizam questões, lacunas e flashcards vinculados que podem ter ficado
+ * desatualizados, até o usuário conferi-los.
+ */
+
+export type WordDiffType = 'equal' | 'insert' | 'delete';
+
+export interface WordDiffSegment {
+    type: WordDiffType;
+    text: string;
+}
+
+export interface LawTextChangeInput {
+    text: string;
+    effectiveDate: string;
+    source?: string;
+    amendingNorm?: string;
+}
+
+export type OutdatedItemKind = 'QUESTION' | 'GAP' | 'FLASHCARD';
+
+export interface OutdatedItem {
+    id: string;
+    kind: OutdatedItemKind;
+    label: string;
+    /** ANSWER: o gabarito/verso usa um termo alterado; TEXT: só o enunciado/frente. */
+    reason: 'ANSWER' | 'TEXT';
+    terms: string[];
+    /** Lacuna embutida no núcleo (phase2/extraGaps): conferida no próprio card. */
+    embedded?: boolean;
+}
+
+// Acima disso (palavras x palavras) o LCS fica caro: o trecho do meio vira remoção + inserção
+const MAX_DIFF_CELLS = 1_000_000;
+
+const STOP_WORDS = new Set(['que', 'para', 'por', 'com', 'dos', 'das', 'nos', 'nas', 'aos', 'uma', 'seu', 'sua', 'seus', 'suas', 'este', 'esta', 'pelo', 'pela', 'como', 'mais', 'ser']);
+
+const tokenize = (text: string): string[] => String(text || '').match(/\s+|[\p{L}\p{N}]+|[^\s\p{L}\p{N}]/gu) || [];
+
+const normalizeWord = (word: string) => word.toLowerCase().normalize('NFD').replace(/[\u0300-\u036f]/g, '');
+
+const pushSegment = (segments: WordDiffSegment[], type: WordDiffType, text: string) => {
+    if (!text) return;
+    const last = segments[segments.length - 1];
+    if (last && last.type === type) last.text += text;
+    else segments.push({ type, text });
+};
+
+/** Diferença palavra a palavra (LCS sobre palavras, espaços e pontuação). */
+export const diffWords = (before: string, after: string): WordDiffSegment[] => {
+    const a = tokenize(before);
+    const b = tokenize(after);
+
+    let start = 0;
+    while (start < a.length && start < b.length && a[start] === b[start]) start++;
+    let endA = a.length;
+    let endB = b.length;
+    while (endA > start && endB > start && a[endA - 1] === b[endB - 1]) { endA--; endB--; }
+
+    const segments: WordDiffSegment[] = [];
+    pushSegment(segments, 'equal', a.slice(0, start).join(''));
+
+    const midA = a.slice(start, endA);
+    const midB = b.slice(start, endB);
+    if (midA.length * midB.length > MAX_DIFF_CELLS) {
+        pushSegment(segments, 'delete', midA.join(''));
+        pushSegment(segments, 'insert', midB.join(''));
+    } else {
+        // Tabela LCS de trás para frente: a reconstrução anda para a frente
+        const cols = midB.length + 1;
+        const lcs = new Uint32Array((midA.length + 1) * cols);
+        for (let i = midA.length - 1; i >= 0; i--) {
+            for (let j = midB.length - 1; j >= 0; j--) {
+                lcs[i * cols + j] = midA[i] === midB[j]
+                    ? lcs[(i + 1) * cols + j + 1] + 1
+                    : Math.max(lcs[(i + 1) * cols + j], lcs[i * cols + j + 1]);
+            }
+        }
+        let i = 0;
+        let j = 0;
+        while (i < midA.length && j < midB.length) {
+            if (midA[i] === midB[j]) { pushSegment(segments, 'equal', midA[i]); i++; j++; }
+            else if (lcs[(i + 1) * cols + j] >= lcs[i * cols + j + 1]) { pushSegment(segments, 'delete', midA[i]); i++; }
+            else { pushSegment(segments, 'insert', midB[j]); j++; }
+        }
+        pushSegment(segments, 'delete', midA.slice(i).join(''));
+        pushSegment(segments, 'insert', midB.slice(j).join(''));
+    }
+
+    pushSegment(segments, 'equal', a.slice(endA).join(''));
+    return segments;
+};
+
+/** Palavras (normalizadas) que saíram do texto: números e termos com 3+ letras. */
+export const changedTerms = (segments: WordDiffSegment[]): string[] => {
+    const terms = new Set<string>();
+    segments.filter(s => s.type === 'delete').forEach(s => {
+        (s.text.match(/[\p{L}\p{N}]+/gu) || []).map(normalizeWord).forEach(word => {
+            if ((/^\d+$/.test(word) || word.length >= 3) && !STOP_WORDS.has(word)) terms.add(word);
+        });
+    });
+    return Array.from(terms);
+};
+
+/** Histórico com a redação atual como primeira versão quando o card ainda não tem nenhuma. */
+export const getTextVersions = (card: LiteralnessCard): LawTextVersion[] => {
+    if (card.textVersions && card.textVersions.length > 0) return card.textVersions;
+    return [{
+        id: `${card.id}@original`,
+        text: card.phase1Full || '',
+        effectiveDate: (card.createdAt || '').slice(0, 10),
+        source: 'Texto importado',
+        recordedAt: card.createdAt || '',
+    }];
+};
+
+/** Nova redação: entra no histórico e passa a ser o phase1Full do card. */
+export const recordLawTextVersion = (card: LiteralnessCard, change: LawTextChangeInput, now: Date = new Date()): LiteralnessCard => {
+    const versions = getTextVersions(card);
+    if (change.text.trim() === (card.phase1Full || '').trim()) return card;
+    const version: LawTextVersion = {
+        id: `${card.id}@${now.getTime()}`,
+        text: change.text,
+        effectiveDate: change.effectiveDate || now.toISOString().slice(0, 10),
+        source: change.source?.trim() || undefined,
+        amendingNorm: change.amendingNorm?.trim() || undefined,
+        recordedAt: now.toISOString(),
+    };
+    return { ...card, phase1Full: change.text, textVersions: [...versions, version] };
+};
+
+/**
+ * Reimportação de um card já salvo. O histórico vem sempre do card salvo: quem
+ * reimporta costuma espalhar o card antigo no novo, então o `textVersions` que chega
+ * é só a cópia do histórico anterior. Redação diferente vira uma nova versão.
+ */
+export const versionReimportedCard = (previous: LiteralnessCard | undefined, incoming: LiteralnessCard, now: Date = new Date()): LiteralnessCard => {
+    if (!previous) return incoming;
+    if (!incoming.phase1Full || incoming.phase1Full.trim() === (previous.phase1Full || '').trim()) {
+        return previous.textVersions?.length ? { ...incoming, textVersions: previous.textVersions } : incoming;
+    }
+    const versioned = recordLawTextVersion(previous, {
+        text: incoming.phase1Full,
+        effectiveDate: now.toISOString().slice(0, 10),
+        source: 'Reimportação',
+    }, now);
+    return { ...incoming, textVersions: versioned.textVersions, gapsCheckedAt: previous.gapsCheckedAt };
+};
+
+const lastChangeAt = (card: LiteralnessCard): string | null => {
+    const versions = card.textVersions || [];
+    return versions.length > 1 ? versions[versions.length - 1].recordedAt : null;
+};
+
+/** A redação mudou depois do último estudo do núcleo (ou o núcleo nunca foi estudado desde então). */
+export const hasChangedSinceStudied = (card: LiteralnessCard): boolean => {
+    const changedAt = lastChangeAt(card);
+    if (!changedAt) return false;
+    const studiedAt = [card.lastReviewedAt, card.lastCycleCompletedAt].filter(Boolean).sort().pop();
+    return !studiedAt || studiedAt < changedAt;
+};
+
+const wordsOf = (text: string): Set<string> => new Set((String(text || '').match(/[\p{L}\p{N}]+/gu) || []).map(normalizeWord));
+
+const isJudgment = (q: Question) => !!q.questionType?.includes('C/E') || (q.options?.C === 'Certo' && q.options?.E === 'Errado');
+
+/**
+ * Itens vinculados que citam termos removidos/trocados por alterações registradas
+ * depois da última conferência do item (ou da sua criação).
+ */
+export const findOutdatedItems = (card: LiteralnessCard, questions: Question[], flashcards: Flashcard[]): OutdatedItem[] => {
+    const versions = card.textVersions || [];
+    if (versions.length < 2) return [];
+
+    // Termos de cada alteração, com a data em que foi registrada
+    const changes = versions.slice(1).map((version, i) => ({
+        at: version.recordedAt,
+        terms: changedTerms(diffWords(versions[i].text, version.text)),
+    }));
+
+    const termsSince = (checkedAt?: string) =>
+        Array.from(new Set(changes.filter(c => !checkedAt || c.at > checkedAt).flatMap(c => c.terms)));
+
+    const check = (id: string, kind: OutdatedItemKind, label: string, answer: string, text: string, checkedAt?: string, embedded?: boolean): OutdatedItem | null => {
+        const terms = termsSince(checkedAt);
+        if (terms.length === 0) return null;
+        const answerWords = wordsOf(answer);
+        const textWords = wordsOf(text);
+        const inAnswer = terms.filter(t => answerWords.has(t));
+        const inText = terms.filter(t => textWords.has(t));
+        if (inAnswer.length === 0 && inText.length === 0) return null;
+        return { id, kind, label, reason: inAnswer.length > 0 ? 'ANSWER' : 'TEXT', terms: Array.from(new Set([...inAnswer, ...inText])), embedded };
+    };
+
+    const questionIds = new Set(questions.map(q => q.id));
+    const items: (OutdatedItem | null)[] = [
+        ...srs.getQuestionsForCard(card, questions).map(q => check(
+            q.id, 'QUESTION', q.questionRef || q.id,
+            isJudgment(q) ? q.questionText : (q.options?.[q.correctAnswer] || ''),
+            q.questionText, q.lawCheckedAt || q.createdAt)),
+        ...srs.getGapsForCard(card, questions).map((g: any) => {
+            const embedded = !questionIds.has(g.id);
+            return check(
+                g.id, 'GAP', g.questionRef || g.id,
+                g.options?.[g.correctAnswer] || '', g.questionText,
+                embedded ? card.gapsCheckedAt : (g.lawCheckedAt || g.createdAt), embedded);
+        }),
+        ...[...srs.getFlashcardsForCard(card, flashcards), ...srs.getPairsForCard(card, flashcards)].map(f => check(
+            f.id, 'FLASHCARD', f.front.slice(0, 60), f.back, f.front, f.lawCheckedAt || f.createdAt)),
+    ];
+    return items.filter((item): item is OutdatedItem => !!item);
+};
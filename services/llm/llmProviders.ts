@@ -0,0 +1,206 @@
+/**
+ * PROVEDORES DE LLM
+ * A extração de questões só precisa de "instruções + texto → JSON". O provedor é
+ * plugável: Gemini (nuvem), qualquer servidor compatível com a API da OpenAI
+ * (Ollama, llama.cpp, LM Studio em localhost) ou o simulador determinístico offline.
+ */
+
+/** Subconjunto de JSON Schema usado nas respostas estruturadas. */
+export interface JsonSchema {
+    type: 'string' | 'number' | 'integer' | 'boolean' | 'array' | 'object';
+    description?: string;
+    properties?: Record<string, JsonSchema>;
+    items?: JsonSchema;
+    required?: string[];
+}
+
+export interface LlmRequest {
+    /** Instruções da tarefa (vão como mensagem de sistema quando o backend permite). */
+    instructions: string;
+    /** Texto a processar. */
+    input: string;
+    schema?: JsonSchema;
+    /** Conversa anterior, usada ao pedir correção de uma resposta inválida. */
+    history?: { role: 'user' | 'assistant'; content: string }[];
+}
+
+export interface LlmProvider {
+    id: LlmProviderKind;
+    label: string;
+    /** Devolve o texto bruto da resposta (esperado: JSON). */
+    complete(request: LlmRequest): Promise<string>;
+}
+
+export type LlmProviderKind = 'gemini' | 'openai' | 'mock';
+
+export interface LlmProviderConfig {
+    kind: LlmProviderKind;
+    model: string;
+    baseUrl: string;
+    apiKey: string;
+    /** Envia o schema como response_format (json_schema). Desligue para servidores antigos. */
+    structuredOutput: boolean;
+    /** Tamanho máximo (caracteres) de cada trecho enviado ao modelo. */
+    chunkSize: number;
+    /** Schema personalizado em JSON; vazio usa o padrão de extração de questões. */
+    customSchema: string;
+}
+
+export const DEFAULT_MODELS: Record<LlmProviderKind, string> = {
+    gemini: 'gemini-1.5-flash',
+    openai: 'llama3.1',
+    mock: 'mock',
+};
+
+export const DEFAULT_OPENAI_BASE_URL = 'http://localhost:11434/v1';
+
+export const DEFAULT_LLM_CONFIG: LlmProviderConfig = {
+    kind: 'gemini',
+    model: DEFAULT_MODELS.gemini,
+    baseUrl: DEFAULT_OPENAI_BASE_URL,
+    apiKey: '',
+    structuredOutput: true,
+    chunkSize: 12000,
+    customSchema: '',
+};
+
+const LS_LLM_PROVIDER = 'miaaula_llm_provider';
+
+export const loadLlmConfig = (): LlmProviderConfig => {
+    try {
+        const saved = JSON.parse(localStorage.getItem(LS_LLM_PROVIDER) || 'null');
+        if (saved && ['gemini', 'openai', 'mock'].includes(saved.kind)) return { ...DEFAULT_LLM_CONFIG, ...saved };
+    } catch {}
+    return DEFAULT_LLM_CONFIG;
+};
+
+export const saveLlmConfig = (config: LlmProviderConfig) => {
+    localStorage.setItem(LS_LLM_PROVIDER, JSON.stringify(config));
+};
+
+const composePrompt = (request: LlmRequest): string => `${request.instructions}\n\n${request.input}`;
+
+// --- GEMINI ---
+
+/** JSON Schema → formato do Gemini (tipos em maiúsculas). */
+const toGeminiSchema = (schema: JsonSchema): any => ({
+    type: schema.type.toUpperCase(),
+    ...(schema.description ? { description: schema.description } : {}),
+    ...(schema.properties ? { properties: Object.fromEntries(Object.entries(schema.properties).map(([k, v]) => [k, toGeminiSchema(v)])) } : {}),
+    ...(schema.items ? { items: toGeminiSchema(schema.items) } : {}),
+    ...(schema.required ? { required: schema.required } : {}),
+});
+
+export class GeminiLlmProvider implements LlmProvider {
+    id: LlmProviderKind = 'gemini';
+    label: string;
+
+    constructor(private apiKey: string, private model: string = DEFAULT_MODELS.gemini) {
+        this.label = `Gemini (${model})`;
+    }
+
+    async complete(request: LlmRequest): Promise<string> {
+        const apiKey = this.apiKey || (import.meta as any).env?.VITE_GOOGLE_API_KEY || '';
+        if (!apiKey) throw new Error("Chave de API do Gemini não configurada (VITE_GOOGLE_API_KEY ou campo nas configurações do provedor).");
+
+        // Carregado sob demanda: quem usa só o modelo local não baixa o SDK
+        const { GoogleGenAI } = await import('@google/genai');
+        const ai = new GoogleGenAI({ apiKey });
+        const contents = [
+            { role: 'user', parts: [{ text: composePrompt(request) }] },
+            ...(request.history || []).map(m => ({ role: m.role === 'assistant' ? 'model' : 'user', parts: [{ text: m.content }] })),
+        ];
+        const response = await ai.models.generateContent({
+            model: this.model,
+            contents,
+            config: {
+                responseMimeType: 'application/json',
+                ...(request.schema ? { responseSchema: toGeminiSchema(request.schema) } : {}),
+            },
+        });
+        return response.text || '';
+    }
+}
+
+// --- OPENAI-COMPATÍVEL (Ollama, llama.cpp, LM Studio...) ---
+
+export class OpenAiCompatibleProvider implements LlmProvider {
+    id: LlmProviderKind = 'openai';
+    label: string;
+    private baseUrl: string;
+
+    constructor(baseUrl: string, private model: string, private apiKey = '', private structuredOutput = true) {
+        this.baseUrl = (baseUrl || DEFAULT_OPENAI_BASE_URL).replace(/\/+$/, '');
+        this.label = `${model} (${this.baseUrl})`;
+    }
+
+    async complete(request: LlmRequest): Promise<string> {
+        const responseFormat = request.schema && this.structuredOutput
+            ? { type: 'json_schema', json_schema: { name: 'extracao', schema: request.schema } }
+            : { type: 'json_object' };
+        const schemaHint = request.schema && !this.structuredOutput
+            ? `\n\nResponda somente com JSON válido seguindo este schema:\n${JSON.stringify(request.schema)}`
+            : '';
+
+        let res: Response;
+        try {
+            res = await fetch(`${this.baseUrl}/chat/completions`, {
+                method: 'POST',
+                headers: {
+                    'Content-Type': 'application/json',
+                    ...(this.apiKey ? { Authorization: `Bearer ${this.apiKey}` } : {}),
+                },
+                body: JSON.stringify({
+                    model: this.model,
+                    temperature: 0,
+                    response_format: responseFormat,
+                    messages: [
+                        { role: 'system', content: request.instructions + schemaHint },
+                        { role: 'user', content: request.input },
+                        ...(request.history || []),
+                    ],
+                }),
+            });
+        } catch (e: any) {
+            throw new Error(`Não foi possível conectar a ${this.baseUrl}. O servidor está rodando e com CORS liberado? (${e.message})`);
+        }
+        if (!res.ok) {
+            const detail = await res.text().catch(() => '');
+            throw new Error(`Servidor do modelo respondeu ${res.status}${detail ? `: ${detail.slice(0, 200)}` : ''}`);
+        }
+        const body = await res.json();
+        return body.choices?.[0]?.message?.content || '';
+    }
+}
+
+// --- SIMULADOR (offline / testes) ---
+
+export type MockResponder = (request: LlmRequest, callIndex: number) => string;
+
+/**
+ * Provedor determinístico: devolve as respostas fornecidas na ordem das chamadas
+ * (ou o resultado de uma função). Sem respostas, ecoa um array vazio.
+ */
+export class MockLlmProvider implements LlmProvider {
+    id: LlmProviderKind = 'mock';
+    label = 'Simulador (offline)';
+    calls: LlmRequest[] = [];
+
+    constructor(private responder: MockResponder | string[] = []) {}
+
+    async complete(request: LlmRequest): Promise<string> {
+        const index = this.calls.length;
+        // Cópia: quem chama reaproveita o objeto do pedido entre as tentativas
+        this.calls.push({ ...request });
+        if (typeof this.responder === 'function') return this.responder(request, index);
+        return this.responder[Math.min(index, this.responder.length - 1)] ?? '[]';
+    }
+}
+
+export const createLlmProvider = (config: LlmProviderConfig, mockResponder?: MockResponder): LlmProvider => {
+    switch (config.kind) {
+        case 'openai': return new OpenAiCompatibleProvider(config.baseUrl, config.model || DEFAULT_MODELS.openai, config.apiKey, config.structuredOutput);
+        case 'mock': return new MockLlmProvider(mockResponder);
+        default: return new GeminiLlmProvider(config.apiKey, config.model || DEFAULT_MODELS.gemini);
+    }
+};
@@ -0,0 +1,88 @@
+import { describe, it, expect } from 'vitest';
+import { MockLlmProvider } from './llmProviders';
+import { chunkText, extractQuestionsWithLlm, offlineExtractionResponder } from './questionExtraction';
+
+const question = (n: number, stem = `Enunciado da questão ${n} sobre direitos fundamentais.`) => [
+    `${n}. ${stem}`,
+    'A) primeira alternativa',
+    'B) segunda alternativa',
+    'C) terceira alternativa',
+].join('\n');
+
+const valid = (ref: string) => JSON.stringify([{ questionRef: ref, questionText: 'Enunciado', options: { A: 'x', B: 'y' }, correctAnswer: 'A', subject: 'Penal' }]);
+
+describe('chunkText', () => {
+    it('corta entre questões numeradas, mesmo sem linhas em branco', () => {
+        const text = Array.from({ length: 12 }, (_, i) => question(i + 1, `Enunciado da questão ${i + 1}. ${'Texto longo. '.repeat(8)}`)).join('\n');
+        const chunks = chunkText(text, 500);
+
+        expect(chunks.length).toBeGreaterThan(1);
+        chunks.forEach(chunk => {
+            expect(chunk.length).toBeLessThanOrEqual(500);
+            expect(chunk).toMatch(/^\d+\. Enunciado/);
+            expect(chunk.trimEnd()).toMatch(/C\) terceira alternativa$/);
+        });
+        expect(chunks.join('\n').replace(/\n+/g, '\n')).toBe(text);
+    });
+
+    it('o texto-base ("Julgue os itens...") acompanha a questão seguinte', () => {
+        const base = `Julgue os itens a seguir, relativos ao processo legislativo. ${'Contexto. '.repeat(30)}`;
+        const text = [question(1, 'x'.repeat(200)), question(2, 'y'.repeat(200)), base, '3 A emenda exige três quintos.', '4 O veto é irretratável.'].join('\n');
+        const chunks = chunkText(text, 500);
+        expect(chunks.find(c => c.includes('3 A emenda'))).toContain('Julgue os itens');
+    });
+
+    it('sem questões numeradas, volta a cortar em linhas em branco', () => {
+        const text = Array.from({ length: 6 }, (_, i) => `Parágrafo ${i}. ${'texto '.repeat(30)}`).join('\n\n');
+        const chunks = chunkText(text, 500);
+        expect(chunks.length).toBeGreaterThan(1);
+        chunks.forEach(chunk => expect(chunk).toMatch(/^Parágrafo \d/));
+    });
+});
+
+describe('extractQuestionsWithLlm', () => {
+    it('manda um pedido por trecho e junta os itens', async () => {
+        const text = Array.from({ length: 6 }, (_, i) => question(i + 1, 'z'.repeat(150))).join('\n');
+        const provider = new MockLlmProvider((request, index) => valid(`Q${index}`));
+        const progress: number[] = [];
+        const result = await extractQuestionsWithLlm(text, provider, { chunkSize: 500, onProgress: done => progress.push(done) });
+
+        expect(result.chunkCount).toBe(provider.calls.length);
+        expect(provider.calls.map(c => c.input)).toEqual(chunkText(text, 500));
+        expect(result.items.map(i => i.questionRef)).toEqual(provider.calls.map((_, i) => `Q${i}`));
+        expect(progress[progress.length - 1]).toBe(result.chunkCount);
+    });
+
+    it('JSON inválido: devolve a resposta e o erro ao modelo e tenta de novo', async () => {
+        const provider = new MockLlmProvider(['Aqui estão as questões: [{"questionRef": ', '```json\n' + valid('Q1') + '\n```']);
+        const result = await extractQuestionsWithLlm(question(1), provider);
+
+        expect(result).toMatchObject({ retries: 1, errors: [] });
+        expect(result.items).toHaveLength(1);
+        expect(provider.calls[0].history).toEqual([]);
+        expect(provider.calls[1].history).toEqual([
+            { role: 'assistant', content: 'Aqui estão as questões: [{"questionRef": ' },
+            { role: 'user', content: expect.stringContaining('A resposta anterior é inválida') },
+        ]);
+    });
+
+    it('trecho que segue inválido após as novas tentativas é reportado sem derrubar os outros', async () => {
+        const text = Array.from({ length: 6 }, (_, i) => question(i + 1, 'w'.repeat(150))).join('\n');
+        const provider = new MockLlmProvider((request, index) => request.input.startsWith('1.') ? JSON.stringify([{ questionRef: 'Q1' }]) : valid(`Q${index}`));
+        const result = await extractQuestionsWithLlm(text, provider, { chunkSize: 500, maxRetries: 1 });
+
+        expect(result.errors).toEqual([{ chunk: 1, message: expect.stringContaining('campo obrigatório "questionText" ausente') }]);
+        expect(result.retries).toBe(1);
+        expect(result.items).toHaveLength(result.chunkCount - 1);
+    });
+});
+
+describe('offlineExtractionResponder', () => {
+    it('usa o gabarito do caderno e deixa vazio quando não há', async () => {
+        const withKey = JSON.parse(await offlineExtractionResponder({ instructions: '', input: `${question(1)}\n${question(2)}\n\nGABARITO\n1 B 2 C`, schema: undefined }, 0));
+        expect(withKey.map((q: any) => q.correctAnswer)).toEqual(['B', 'C']);
+
+        const withoutKey = JSON.parse(await offlineExtractionResponder({ instructions: '', input: `${question(1)}\n${question(2)}`, schema: undefined }, 0));
+        expect(withoutKey.map((q: any) => q.correctAnswer)).toEqual(['', '']);
+    });
+});
@@ -0,0 +1,210 @@
+import { JsonSchema, LlmProvider, LlmRequest, MockResponder } from './llmProviders';
+import { parseBooklet, splitAtQuestions, OPTION_KEYS } from '../import/bookletParser';
+
+/**
+ * EXTRAÇÃO DE QUESTÕES COM LLM
+ * Divide textos longos em trechos, pede JSON ao provedor e, se a resposta vier
+ * quebrada ou fora do schema, devolve o erro ao modelo e tenta de novo.
+ * A normalização e a checagem de duplicatas ficam com quem chama
+ * (normalizeQuestion + fingerprint, como nas demais importações).
+ */
+
+export const QUESTION_EXTRACTION_SCHEMA: JsonSchema = {
+    type: 'array',
+    items: {
+        type: 'object',
+        properties: {
+            questionRef: { type: 'string', description: "Um identificador curto e único para a questão (ex: Q1-Pilares)" },
+            questionText: { type: 'string', description: "O enunciado completo da questão." },
+            options: {
+                type: 'object',
+                properties: {
+                    A: { type: 'string' }, B: { type: 'string' }, C: { type: 'string' }, D: { type: 'string' }, E: { type: 'string' },
+                },
+                description: "As alternativas da questão. Para Certo/Errado, use A: Certo, B: Errado."
+            },
+            correctAnswer: { type: 'string', description: "A letra da alternativa correta (A, B, C, D, ou E). Em Certo/Errado, A = Certo e B = Errado." },
+            explanation: { type: 'string', description: "Uma explicação concisa sobre o porquê da resposta correta." },
+            subject: { type: 'string', description: "A disciplina principal (ex: Direito Administrativo)." },
+            topic: { type: 'string', description: "O tópico específico dentro da disciplina (ex: Atos Administrativos)." },
+            bank: { type: 'string', description: "A banca examinadora (ex: FGV, FCC), se mencionada." },
+            position: { type: 'string', description: "O cargo ou prova, se mencionado." },
+            questionType: { type: 'string', description: "Classificação do tipo de questão (ex: Literalidade, Caso Concreto)." },
+            hotTopic: { type: 'boolean', description: "Se o tópico parece ser de alta incidência ou importância." },
+        },
+        required: ['questionRef', 'questionText', 'options', 'correctAnswer', 'subject']
+    }
+};
+
+export const EXTRACTION_INSTRUCTIONS = `CRITICAL INSTRUCTION: Do NOT include metadata tags like "P1=...", "P7=...", "GUIA_TRAPSCAN", or "TRAPSCAN_EXIGIDO" inside the text of options (A, B, C, D, E). The options must contain ONLY the alternative text.
+
+Extraia as questões do seguinte texto. Se o texto contiver múltiplas questões, extraia todas. Garanta que o formato de saída seja estritamente o JSON solicitado (um array de questões; array vazio se não houver nenhuma).`;
+
+export interface ExtractionOptions {
+    schema?: JsonSchema;
+    chunkSize?: number;
+    /** Novas tentativas por trecho quando o JSON vem inválido. */
+    maxRetries?: number;
+    onProgress?: (done: number, total: number) => void;
+}
+
+export interface ExtractionResult {
+    items: any[];
+    chunkCount: number;
+    retries: number;
+    /** Trechos que falharam mesmo após as novas tentativas. */
+    errors: { chunk: number; message: string }[];
+}
+
+/** Interpreta o schema digitado pelo usuário; lança erro legível se estiver inválido. */
+export const parseCustomSchema = (raw: string): JsonSchema | undefined => {
+    if (!raw.trim()) return undefined;
+    let schema: any;
+    try {
+        schema = JSON.parse(raw);
+    } catch (e: any) {
+        throw new Error(`Schema personalizado não é JSON válido: ${e.message}`);
+    }
+    if (schema?.type !== 'array' || schema.items?.type !== 'object') {
+        throw new Error('Schema personalizado deve ser um array de objetos ({"type":"array","items":{"type":"object",...}}).');
+    }
+    return schema;
+};
+
+/**
+ * Divide o texto em trechos de até `maxChars`, cortando preferencialmente entre
+ * questões numeradas (como o segmentador de cadernos), senão em linhas em branco
+ * e, por fim, em quebras de linha (nunca no meio de uma frase se der para evitar).
+ */
+export const chunkText = (text: string, maxChars: number): string[] => {
+    const limit = Math.max(500, maxChars);
+    const clean = text.replace(/\r\n?/g, '\n').trim();
+    if (clean.length <= limit) return clean ? [clean] : [];
+
+    const questions = splitAtQuestions(clean);
+    const pieces: string[] = [];
+    (questions.length > 0 ? questions : clean.split(/\n\s*\n/)).forEach(paragraph => {
+        if (paragraph.length <= limit) { pieces.push(paragraph); return; }
+        let buffer = '';
+        paragraph.split('\n').forEach(line => {
+            while (line.length > limit) {
+                if (buffer) { pieces.push(buffer); buffer = ''; }
+                const cut = line.lastIndexOf(' ', limit);
+                const at = cut > limit / 2 ? cut : limit;
+                pieces.push(line.slice(0, at));
+                line = line.slice(at).trimStart();
+            }
+            if (buffer && buffer.length + line.length + 1 > limit) { pieces.push(buffer); buffer = ''; }
+            buffer = buffer ? `${buffer}\n${line}` : line;
+        });
+        if (buffer) pieces.push(buffer);
+    });
+
+    const chunks: string[] = [];
+    let current = '';
+    pieces.forEach(piece => {
+        if (current && current.length + piece.length + 2 > limit) { chunks.push(current); current = ''; }
+        current = current ? `${current}\n\n${piece}` : piece;
+    });
+    if (current) chunks.push(current);
+    return chunks;
+};
+
+/** Extrai o array de questões da resposta (aceita cercas ```json e objetos embrulhando o array). */
+export const parseJsonResponse = (raw: string): any[] => {
+    const text = raw.trim().replace(/^```(?:json)?\s*/i, '').replace(/\s*```$/, '');
+    if (!text) throw new Error('Resposta vazia.');
+    const start = text.search(/[[{]/);
+    if (start < 0) throw new Error('A resposta não contém JSON.');
+
+    const parsed = JSON.parse(text.slice(start, Math.max(text.lastIndexOf(']'), text.lastIndexOf('}')) + 1));
+    if (Array.isArray(parsed)) return parsed;
+    const wrapped = Object.values(parsed).find(Array.isArray);
+    if (wrapped) return wrapped as any[];
+    return [parsed];
+};
+
+const matchesType = (value: any, schema: JsonSchema): boolean => {
+    switch (schema.type) {
+        case 'string': return typeof value === 'string';
+        case 'number': case 'integer': return typeof value === 'number';
+        case 'boolean': return typeof value === 'boolean';
+        case 'array': return Array.isArray(value);
+        case 'object': return !!value && typeof value === 'object' && !Array.isArray(value);
+    }
+};
+
+/** Confere campos obrigatórios e tipos do primeiro nível de cada item. */
+export const validateExtractedItems = (items: any[], schema: JsonSchema): string[] => {
+    const itemSchema = schema.items;
+    if (!itemSchema?.properties) return [];
+    const problems: string[] = [];
+    items.forEach((item, i) => {
+        if (!item || typeof item !== 'object') { problems.push(`Item ${i + 1} não é um objeto.`); return; }
+        (itemSchema.required || []).forEach(field => {
+            if (item[field] === undefined || item[field] === null || item[field] === '') problems.push(`Item ${i + 1}: campo obrigatório "${field}" ausente.`);
+        });
+        Object.entries(itemSchema.properties!).forEach(([field, fieldSchema]) => {
+            if (item[field] !== undefined && item[field] !== null && !matchesType(item[field], fieldSchema)) {
+                problems.push(`Item ${i + 1}: "${field}" deveria ser ${fieldSchema.type}.`);
+            }
+        });
+    });
+    return problems;
+};
+
+export const extractQuestionsWithLlm = async (text: string, provider: LlmProvider, options: ExtractionOptions = {}): Promise<ExtractionResult> => {
+    const schema = options.schema || QUESTION_EXTRACTION_SCHEMA;
+    const maxRetries = options.maxRetries ?? 2;
+    const chunks = chunkText(text, options.chunkSize || 12000);
+    const result: ExtractionResult = { items: [], chunkCount: chunks.length, retries: 0, errors: [] };
+
+    for (let i = 0; i < chunks.length; i++) {
+        options.onProgress?.(i, chunks.length);
+        const request: LlmRequest = { instructions: EXTRACTION_INSTRUCTIONS, input: chunks[i], schema, history: [] };
+
+        for (let attempt = 0; attempt <= maxRetries; attempt++) {
+            // Falha de rede/configuração propaga: repetir não resolve
+            const raw = await provider.complete(request);
+            try {
+                const items = parseJsonResponse(raw);
+                const problems = validateExtractedItems(items, schema);
+                if (problems.length > 0) throw new Error(problems.slice(0, 5).join(' '));
+                result.items.push(...items);
+                break;
+            } catch (e: any) {
+                if (attempt === maxRetries) {
+                    result.errors.push({ chunk: i + 1, message: e.message || 'Resposta inválida.' });
+                    break;
+                }
+                result.retries++;
+                request.history = [
+                    ...(request.history || []),
+                    { role: 'assistant', content: raw.slice(0, 4000) },
+                    { role: 'user', content: `A resposta anterior é inválida (${e.message}). Responda novamente apenas com o JSON no schema pedido, sem comentários.` },
+                ];
+            }
+        }
+    }
+    options.onProgress?.(chunks.length, chunks.length);
+    return result;
+};
+
+/**
+ * Resposta do simulador offline: usa o segmentador de cadernos (questões numeradas,
+ * alternativas A–E e gabarito no fim) para produzir o mesmo JSON que o modelo devolveria.
+ */
+export const offlineExtractionResponder: MockResponder = (request) => {
+    const rows = parseBooklet(request.input, '', { subject: '', topic: '', bank: '', position: '', refPrefix: 'SIM' });
+    return JSON.stringify(rows.map(row => ({
+        questionRef: `SIM_Q${String(row.number).padStart(2, '0')}`,
+        questionText: row.context ? `${row.context}\n\n${row.stem}` : row.stem,
+        options: row.kind === 'CE'
+            ? { A: 'Certo', B: 'Errado' }
+            : Object.fromEntries(OPTION_KEYS.filter(k => row.options[k]).map(k => [k, row.options[k]])),
+        // Sem gabarito fica vazio: a validação do schema aponta a questão
+        correctAnswer: row.answer,
+        subject: 'Geral',
+        questionType: row.kind === 'CE' ? '13 C/E' : 'Múltipla Escolha',
+    })));
+};
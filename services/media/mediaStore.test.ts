@@ -0,0 +1,125 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+
+const db = vi.hoisted(() => {
+    const STORES = { NUCLEUS: 'nucleus', CONTENT: 'content', PROGRESS: 'progress', SETTINGS: 'settings', KEYVAL: 'keyval', MEDIA: 'media', SEARCH: 'search' };
+    const KEY_PATHS: Record<string, string> = { nucleus: 'id', content: 'id', progress: 'pk', settings: 'key', media: 'hash', search: 'id' };
+    const stores = new Map<string, Map<string, any>>();
+    const store = (name: string) => stores.get(name) ?? stores.set(name, new Map()).get(name)!;
+    return { STORES, KEY_PATHS, stores, store };
+});
+
+vi.mock('../storage', () => ({
+    STORES: db.STORES,
+    loadData: async (key: string) => db.store('keyval').get(key) ?? null,
+    saveData: async (key: string, data: any) => { db.store('keyval').set(key, structuredClone(data)); },
+    dbGet: async (store: string, key: string) => db.store(store).get(key),
+    dbPut: async (store: string, value: any) => { db.store(store).set(value[db.KEY_PATHS[store]], value); },
+    dbDelete: async (store: string, key: string) => { db.store(store).delete(key); },
+    getAllFromStore: async (store: string) => [...db.store(store).values()],
+    bulkPutToStore: async (store: string, items: any[]) => { items.forEach(item => db.store(store).set(item[db.KEY_PATHS[store]], item)); },
+}));
+
+import { applyMediaReplacements, externalizeInlineMedia, garbageCollectMedia, getMediaBytes, MediaReplacement, putMediaBytes, StoredMedia } from './mediaStore';
+import { diffBackupStores, applySelectiveRestore } from '../backupDiff';
+import { BackupStores } from '../backupChain';
+import { sha256Hex } from '../checksum';
+
+const PNG = 'data:image/png;base64,iVBORw0KGgo=';
+const MP3 = 'data:audio/mpeg;base64,SUQzBAAAAAAA';
+const LATER = new Date(Date.now() + 3 * 24 * 60 * 60 * 1000);
+
+const putOld = async (label: string): Promise<string> => {
+    const ref = await putMediaBytes(new TextEncoder().encode(label), 'image/png');
+    const media = db.store('media').get(ref.slice('media:'.length)) as StoredMedia;
+    media.createdAt = '2020-01-01T00:00:00.000Z';
+    return ref;
+};
+
+beforeEach(() => db.stores.clear());
+
+describe('externalizeInlineMedia', () => {
+    it('grava cada data URL uma vez e devolve as trocas por campo', async () => {
+        const items = [
+            { id: 'q1', questionImage: PNG, questionAudio: MP3 },
+            { id: 'q2', questionImage: PNG, questionAudio: 'https://exemplo.com/a.mp3' },
+            { id: 'q3', questionImage: 'data:image/png;base64,@@@', questionAudio: undefined },
+        ];
+        const warn = vi.spyOn(console, 'warn').mockImplementation(() => {});
+        const replacements = await externalizeInlineMedia(items, ['questionImage', 'questionAudio']);
+        warn.mockRestore();
+
+        const pngRef = `media:${await sha256Hex(Uint8Array.from(atob('iVBORw0KGgo='), c => c.charCodeAt(0)))}`;
+        expect(replacements.map(r => [r.id, r.field, r.ref === pngRef])).toEqual([
+            ['q1', 'questionImage', true],
+            ['q1', 'questionAudio', false],
+            ['q2', 'questionImage', true],
+        ]);
+        expect(db.store('media').size).toBe(2);
+        expect((await getMediaBytes(pngRef))?.type).toBe('image/png');
+    });
+});
+
+describe('applyMediaReplacements', () => {
+    it('troca só os campos que ainda têm o mesmo data URL', () => {
+        const items = [
+            { id: 'q1', questionImage: PNG, questionAudio: MP3 },
+            { id: 'q2', questionImage: 'data:image/png;base64,ZWRpdGFkbw==' },
+            { id: 'q3', questionImage: undefined },
+        ];
+        const replacements: MediaReplacement[] = [
+            { id: 'q1', field: 'questionImage', from: PNG, ref: 'media:aaa' },
+            { id: 'q1', field: 'questionAudio', from: MP3, ref: 'media:bbb' },
+            { id: 'q2', field: 'questionImage', from: PNG, ref: 'media:aaa' },
+        ];
+        const result = applyMediaReplacements(items, replacements);
+        expect(result[0]).toEqual({ id: 'q1', questionImage: 'media:aaa', questionAudio: 'media:bbb' });
+        expect(result[1]).toBe(items[1]);
+        expect(result[2]).toBe(items[2]);
+        expect(applyMediaReplacements(items, [])).toBe(items);
+    });
+});
+
+describe('garbageCollectMedia', () => {
+    it('apaga órfãs antigas e respeita o prazo de carência das recentes', async () => {
+        const orphan = await putOld('órfã');
+        const used = await putOld('usada');
+        const fresh = await putMediaBytes(new TextEncoder().encode('recente'), 'image/png');
+        db.store('keyval').set('revApp_questions_v5_react', [{ id: 'q1', questionImage: used }]);
+
+        const result = await garbageCollectMedia(new Date());
+        expect(result).toMatchObject({ removed: 1, kept: 2 });
+        expect(await getMediaBytes(orphan)).toBeNull();
+        expect(await getMediaBytes(used)).not.toBeNull();
+        expect(await getMediaBytes(fresh)).not.toBeNull();
+    });
+
+    it('mantém a mídia referenciada só por snapshots do histórico de importação', async () => {
+        const snapshotOnly = await putOld('versão anterior');
+        db.store('keyval').set('revApp_questions_v5_react', [{ id: 'q1', questionImage: 'https://exemplo.com/nova.png' }]);
+        db.store('keyval').set('revApp_import_history_v1', [{
+            batchId: 'IMP_1',
+            previous: { questions: [{ id: 'q1', questionImage: snapshotOnly }], flashcards: [], cards: [] },
+        }]);
+
+        expect(await garbageCollectMedia(LATER)).toMatchObject({ removed: 0, kept: 1 });
+        expect(await getMediaBytes(snapshotOnly)).not.toBeNull();
+    });
+
+    it('mantém a mídia dos registros trazidos pela restauração seletiva, em qualquer store', async () => {
+        const hashes = await Promise.all(['conteúdo', 'progresso'].map(t => sha256Hex(new TextEncoder().encode(t))));
+        const entry = (hash: string, text: string) => ({ hash, type: 'image/png', size: text.length, createdAt: '2020-01-01T00:00:00.000Z', data: btoa(String.fromCharCode(...new TextEncoder().encode(text))) });
+        const empty: BackupStores = { nucleus: [], content: [], progress: [], keyval: {}, media: [] };
+        const backup: BackupStores = {
+            ...empty,
+            content: [{ id: 'c1', litRef: 'cf_art5', payload: { image: `media:${hashes[0]}` } }],
+            progress: [{ pk: 'u:c1', itemId: 'c1', litRef: 'cf_art5', lastImage: `media:${hashes[1]}` }],
+            media: [entry(hashes[0], 'conteúdo'), entry(hashes[1], 'progresso')],
+        };
+
+        const diff = diffBackupStores(backup, empty);
+        await applySelectiveRestore(backup, empty, diff, { groups: ['content', 'progress'], kinds: ['added'] });
+        expect(db.store('media').size).toBe(2);
+
+        expect(await garbageCollectMedia(LATER)).toMatchObject({ removed: 0, kept: 2 });
+    });
+});
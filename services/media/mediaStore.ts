@@ -0,0 +1,199 @@
+import * as storage from '../storage';
+import { sha256Hex } from '../checksum';
+
+/**
+ * MEDIA STORE
+ * Imagens e áudios ficam como Blob num store próprio do IndexedDB, endereçados
+ * pelo SHA-256 do conteúdo. Os registros guardam só a referência `media:<hash>`,
+ * então salvar uma questão não reserializa megabytes de base64 a cada mudança.
+ * URLs externas (http) continuam como estão.
+ */
+
+export const MEDIA_REF_PREFIX = 'media:';
+
+// Campos de mídia por entidade (os mesmos que a migração e os pacotes percorrem)
+export const QUESTION_MEDIA_FIELDS = ['questionImage', 'questionAudio'] as const;
+export const FLASHCARD_MEDIA_FIELDS = ['frontImage', 'frontAudio', 'backImage', 'backAudio'] as const;
+export const TRAIL_MEDIA_FIELDS = ['themeImage'] as const;
+
+// Mídia recém-gravada pode ainda não estar em nenhum registro salvo (save com debounce, formulário aberto)
+const GC_GRACE_MS = 24 * 60 * 60 * 1000;
+
+export interface StoredMedia {
+    hash: string;
+    type: string;
+    size: number;
+    createdAt: string;
+    blob: Blob;
+}
+
+/** Forma serializável (JSON) usada nos backups: uma entrada por arquivo, fora dos registros. */
+export interface MediaBackupEntry {
+    hash: string;
+    type: string;
+    size: number;
+    createdAt: string;
+    data: string;
+}
+
+export interface MediaReplacement {
+    id: string;
+    field: string;
+    from: string;
+    ref: string;
+}
+
+export const isMediaRef = (value: unknown): value is string => typeof value === 'string' && value.startsWith(MEDIA_REF_PREFIX);
+
+/** data URL em base64 (o que as telas de upload e o importador do Anki geram). */
+export const isInlineMedia = (value: unknown): value is string => typeof value === 'string' && /^data:[^,]*;base64,/.test(value);
+
+const hashOf = (ref: string) => ref.slice(MEDIA_REF_PREFIX.length);
+
+const toBase64 = (bytes: Uint8Array): string => {
+    let binary = '';
+    for (let i = 0; i < bytes.length; i += 0x8000) binary += String.fromCharCode(...bytes.subarray(i, i + 0x8000));
+    return btoa(binary);
+};
+
+const fromBase64 = (text: string): Uint8Array => Uint8Array.from(atob(text), ch => ch.charCodeAt(0));
+
+/** Grava os bytes (se ainda não existem) e devolve a referência para o registro. */
+export const putMediaBytes = async (bytes: Uint8Array, type: string): Promise<string> => {
+    const hash = await sha256Hex(bytes);
+    const existing = await storage.dbGet<StoredMedia>(storage.STORES.MEDIA, hash);
+    if (!existing) {
+        const record: StoredMedia = { hash, type, size: bytes.length, createdAt: new Date().toISOString(), blob: new Blob([bytes as BlobPart], { type }) };
+        await storage.dbPut(storage.STORES.MEDIA, record);
+    }
+    return `${MEDIA_REF_PREFIX}${hash}`;
+};
+
+export const putDataUrl = async (dataUrl: string): Promise<string> => {
+    const match = dataUrl.match(/^data:([^;,]*)[^,]*;base64,([\s\S]*)$/);
+    if (!match) throw new Error('Mídia em formato não suportado (esperado data URL base64).');
+    return putMediaBytes(fromBase64(match[2]), match[1] || 'application/octet-stream');
+};
+
+export const getMediaBlob = async (ref: string): Promise<Blob | null> =>
+    (await storage.dbGet<StoredMedia>(storage.STORES.MEDIA, hashOf(ref)))?.blob || null;
+
+export const getMediaBytes = async (ref: string): Promise<{ type: string; bytes: Uint8Array } | null> => {
+    const blob = await getMediaBlob(ref);
+    return blob ? { type: blob.type || 'application/octet-stream', bytes: new Uint8Array(await blob.arrayBuffer()) } : null;
+};
+
+// Object URLs por hash: o conteúdo não muda, então a mesma URL serve a sessão inteira
+const objectUrls = new Map<string, string>();
+
+/** URL já carregada (sem ir ao banco), para o primeiro render não piscar. */
+export const peekMediaUrl = (value?: string): string | undefined =>
+    isMediaRef(value) ? objectUrls.get(hashOf(value)) : value;
+
+/** URL exibível: referências viram object URL; o resto passa direto. */
+export const resolveMediaUrl = async (value?: string): Promise<string | undefined> => {
+    if (!isMediaRef(value)) return value;
+    const hash = hashOf(value);
+    const cached = objectUrls.get(hash);
+    if (cached) return cached;
+    const blob = await getMediaBlob(value);
+    if (!blob) return undefined;
+    const url = URL.createObjectURL(blob);
+    objectUrls.set(hash, url);
+    return url;
+};
+
+// --- MIGRAÇÃO (base64 nos registros -> store) ---
+
+export const hasInlineMedia = <T,>(items: T[], fields: readonly string[]): boolean =>
+    items.some(item => fields.some(field => isInlineMedia((item as any)[field])));
+
+/**
+ * Move os data URLs dos campos indicados para o store. Itens com mídia ilegível
+ * ficam de fora (continuam em base64) em vez de travar o resto.
+ */
+export const externalizeInlineMedia = async <T extends { id: string }>(items: T[], fields: readonly string[]): Promise<MediaReplacement[]> => {
+    const refs = new Map<string, string>();
+    const replacements: MediaReplacement[] = [];
+    for (const item of items) {
+        for (const field of fields) {
+            const value = (item as any)[field];
+            if (!isInlineMedia(value)) continue;
+            try {
+                const ref = refs.get(value) || await putDataUrl(value);
+                refs.set(value, ref);
+                replacements.push({ id: item.id, field, from: value, ref });
+            } catch (e) {
+                console.warn(`[MediaStore] Mídia ilegível em ${item.id}.${field}`, e);
+            }
+        }
+    }
+    return replacements;
+};
+
+/** Aplica as referências só onde o campo ainda tem o mesmo data URL (edições no meio do caminho vencem). */
+export const applyMediaReplacements = <T extends { id: string }>(items: T[], replacements: MediaReplacement[]): T[] => {
+    if (replacements.length === 0) return items;
+    const byId = new Map<string, MediaReplacement[]>();
+    replacements.forEach(r => byId.set(r.id, [...(byId.get(r.id) || []), r]));
+    return items.map(item => {
+        const pending = (byId.get(item.id) || []).filter(r => (item as any)[r.field] === r.from);
+        if (pending.length === 0) return item;
+        return { ...item, ...Object.fromEntries(pending.map(r => [r.field, r.ref])) };
+    });
+};
+
+// --- COLETA DE LIXO ---
+
+const REF_PATTERN = /media:([0-9a-f]{64})/g;
+
+/** Hashes referenciados em qualquer valor (registros, snapshots do histórico, payloads). */
+export const collectMediaRefs = (value: unknown, into: Set<string> = new Set()): Set<string> => {
+    const text = JSON.stringify(value) || '';
+    for (const match of text.matchAll(REF_PATTERN)) into.add(match[1]);
+    return into;
+};
+
+export const getMediaStats = async (): Promise<{ count: number; bytes: number }> => {
+    const all = await storage.getAllFromStore<StoredMedia>(storage.STORES.MEDIA);
+    return { count: all.length, bytes: all.reduce((sum, m) => sum + (m.size || 0), 0) };
+};
+
+// Stores de dados do usuário; a própria mídia e o índice de busca (derivado) ficam de fora
+const GC_SCANNED_STORES = Object.values(storage.STORES).filter(store => store !== storage.STORES.MEDIA && store !== storage.STORES.SEARCH);
+
+/**
+ * Apaga a mídia que nenhum dado salvo referencia. Varre todos os stores de dados
+ * (inclusive progresso, que a restauração seletiva de backup também grava) para
+ * que snapshots de rollback e registros restaurados continuem com a mídia deles.
+ */
+export const garbageCollectMedia = async (now: Date = new Date()): Promise<{ removed: number; freedBytes: number; kept: number }> => {
+    const referenced = new Set<string>();
+    for (const store of GC_SCANNED_STORES) {
+        collectMediaRefs(await storage.getAllFromStore<any>(store), referenced);
+    }
+
+    const all = await storage.getAllFromStore<StoredMedia>(storage.STORES.MEDIA);
+    const orphans = all.filter(m => !referenced.has(m.hash) && now.getTime() - new Date(m.createdAt).getTime() > GC_GRACE_MS);
+    for (const media of orphans) await storage.dbDelete(storage.STORES.MEDIA, media.hash);
+    return {
+        removed: orphans.length,
+        freedBytes: orphans.reduce((sum, m) => sum + (m.size || 0), 0),
+        kept: all.length - orphans.length,
+    };
+};
+
+// --- BACKUP ---
+
+export const toMediaBackupEntry = async ({ blob, ...meta }: StoredMedia): Promise<MediaBackupEntry> =>
+    ({ ...meta, data: toBase64(new Uint8Array(await blob.arrayBuffer())) });
+
+export const exportMediaForBackup = async (): Promise<MediaBackupEntry[]> => {
+    const all = await storage.getAllFromStore<StoredMedia>(storage.STORES.MEDIA);
+    const entries: MediaBackupEntry[] = [];
+    for (const media of all) entries.push(await toMediaBackupEntry(media));
+    return entries;
+};
+
+export const mediaFromBackupEntry = ({ data, ...meta }: MediaBackupEntry): StoredMedia =>
+    ({ ...meta, blob: new Blob([fromBase64(data) as BlobPart], { type: meta.type }) });
@@ -0,0 +1,58 @@
+import { OcclusionMask, ImageOcclusionData } from '../types';
+
+export const OCCLUSION_SIBLING_PREFIX = 'o:';
+
+export const toOcclusionSiblingKey = (maskId: string): string => `${OCCLUSION_SIBLING_PREFIX}${maskId}`;
+
+export const parseOcclusionSiblingKey = (key?: string): string | null => {
+    if (!key || !key.startsWith(OCCLUSION_SIBLING_PREFIX)) return null;
+    return key.slice(OCCLUSION_SIBLING_PREFIX.length) || null;
+};
+
+export const createMaskId = (): string => `m${Date.now().toString(36)}${Math.random().toString(36).substring(2, 6)}`;
+
+const clamp01 = (v: number): number => Math.max(0, Math.min(1, v));
+
+/**
+ * Retângulo a partir de dois cantos arrastados (qualquer direção), já normalizado.
+ */
+export const rectFromCorners = (a: { x: number; y: number }, b: { x: number; y: number }): Pick<OcclusionMask, 'x' | 'y' | 'width' | 'height'> => {
+    const x = clamp01(Math.min(a.x, b.x));
+    const y = clamp01(Math.min(a.y, b.y));
+    return {
+        x,
+        y,
+        width: clamp01(Math.max(a.x, b.x)) - x,
+        height: clamp01(Math.max(a.y, b.y)) - y
+    };
+};
+
+/**
+ * Pontos do contorno da máscara (retângulos viram 4 vértices) para renderização em SVG.
+ */
+export const getMaskPoints = (mask: OcclusionMask): { x: number; y: number }[] => {
+    if (mask.shape === 'polygon') return mask.points || [];
+    const x = mask.x || 0;
+    const y = mask.y || 0;
+    const w = mask.width || 0;
+    const h = mask.height || 0;
+    return [{ x, y }, { x: x + w, y }, { x: x + w, y: y + h }, { x, y: y + h }];
+};
+
+export const toSvgPoints = (points: { x: number; y: number }[]): string => points.map(p => `${p.x},${p.y}`).join(' ');
+
+/**
+ * Descarta máscaras degeneradas (clique sem arrasto, polígono com menos de 3 vértices).
+ */
+export const isValidMask = (mask: OcclusionMask): boolean => {
+    if (mask.shape === 'polygon') return (mask.points || []).length >= 3;
+    return (mask.width || 0) > 0.005 && (mask.height || 0) > 0.005;
+};
+
+export const sanitizeOcclusion = (raw: any): ImageOcclusionData | undefined => {
+    if (!raw || typeof raw !== 'object' || !Array.isArray(raw.masks)) return undefined;
+    return {
+        mode: raw.mode === 'HIDE_ALL' ? 'HIDE_ALL' : 'HIDE_ONE',
+        masks: raw.masks.filter((m: any) => m && m.id && (m.shape === 'rect' || m.shape === 'polygon')).filter(isValidMask)
+    };
+};
@@ -0,0 +1,480 @@
+import { Question, Flashcard, LiteralnessCard, LessonNode, AppSettings, ImportStagingData } from '../../types';
+import * as srs from '../srsService';
+import { readZip, writeZip } from '../anki/zipArchive';
+import { sha256Hex, stableStringify } from '../checksum';
+import { saveData, loadData } from '../storage';
+import { parseLitRefText, cleanBatchForExport, exportLitRefText } from '../import/litRefParser';
+import { sanitizeLessonNode } from '../trailImportService';
+import {
+    ExistingContent, createQuestionMatcher, pickFields, QUESTION_DIFF_FIELDS, CARD_CONTENT_FIELDS, FLASHCARD_CONTENT_FIELDS
+} from '../import/importDiff';
+import { PackSignature, signPayload, verifyPayload, keyFingerprint } from './packSigning';
+import { QUESTION_MEDIA_FIELDS, FLASHCARD_MEDIA_FIELDS, MEDIA_REF_PREFIX, isMediaRef, getMediaBytes, putMediaBytes } from '../media/mediaStore';
+
+/**
+ * PACOTES DE CONTEÚDO (.miapack)
+ * Um ZIP para distribuir leis, questões e trilhas entre colegas de estudo:
+ *   manifest.json       título, autor, versão, litRefs, hashes dos arquivos e assinatura
+ *   content/laws.txt    leis no formato canônico LIT_REF (o mesmo da importação)
+ *   content/trails.json aulas + questões/flashcards que elas usam e não cabem no LIT_REF
+ *   content/media.json  onde cada arquivo de media/ se encaixa
+ *   media/...           imagens e áudios (do media store ou de data URLs antigos)
+ * A instalação atualiza só o conteúdo: progresso, notas (userNotes) e estado das
+ * aulas ficam como estão, então um pacote pode ser atualizado quantas vezes for.
+ */
+
+export const PACK_SCHEMA_VERSION = 1;
+export const PACK_FILE_EXTENSION = '.miapack';
+
+const LS_INSTALLED_PACKS_KEY = 'revApp_content_packs_v1';
+
+const MANIFEST_PATH = 'manifest.json';
+const LAWS_PATH = 'content/laws.txt';
+const TRAILS_PATH = 'content/trails.json';
+const MEDIA_INDEX_PATH = 'content/media.json';
+
+export interface PackFileEntry {
+    path: string;
+    sha256: string;
+    size: number;
+}
+
+export interface PackManifest {
+    schemaVersion: number;
+    packId: string;
+    title: string;
+    author: string;
+    version: string;
+    description?: string;
+    createdAt: string;
+    lawIds: string[];
+    litRefs: string[];
+    lessonIds: string[];
+    counts: { cards: number; questions: number; flashcards: number; lessons: number; media: number };
+    files: PackFileEntry[];
+    signature?: PackSignature;
+}
+
+export interface PackDraft {
+    title: string;
+    author: string;
+    version: string;
+    description?: string;
+}
+
+export interface PackSource {
+    /** Cards de lei selecionados (questões e flashcards vinculados vêm junto). */
+    cards: LiteralnessCard[];
+    lessons: LessonNode[];
+    allQuestions: Question[];
+    allFlashcards: Flashcard[];
+}
+
+export interface BuiltContentPack {
+    data: Uint8Array;
+    manifest: PackManifest;
+    warnings: string[];
+}
+
+export type PackSignatureStatus = 'VALID' | 'INVALID' | 'UNSIGNED';
+
+export interface LoadedContentPack {
+    manifest: PackManifest;
+    /** Lote de importação em que o conteúdo foi preparado. */
+    batchId: string;
+    signatureStatus: PackSignatureStatus;
+    keyFingerprint?: string;
+    /** Arquivos ausentes, extras ou com hash diferente do manifesto. */
+    integrityErrors: string[];
+    parseErrors: string[];
+    staging: ImportStagingData;
+    lessons: LessonNode[];
+    /** Bytes dos arquivos de media/, já referenciados no staging; só vão ao media store na instalação. */
+    media: { bytes: Uint8Array; type: string }[];
+}
+
+export interface InstalledPack {
+    packId: string;
+    title: string;
+    author: string;
+    version: string;
+    installedAt: string;
+    signatureStatus: PackSignatureStatus;
+    keyFingerprint?: string;
+    litRefs: string[];
+    lessonIds: string[];
+    /** Lote do histórico de importações (rollback da última instalação). */
+    batchId: string;
+    history: { version: string; installedAt: string; batchId: string }[];
+}
+
+export type PackInstallKind = 'NEW' | 'UPGRADE' | 'REINSTALL' | 'DOWNGRADE';
+
+export interface PackInstallCheck {
+    kind: PackInstallKind;
+    installed?: InstalledPack;
+    /** Versão anterior assinada por outra chave (ou antes assinada, agora não). */
+    keyChanged: boolean;
+}
+
+export interface PackWritePlan {
+    cards: LiteralnessCard[];
+    newQuestions: Question[];
+    questionUpdates: ({ id: string } & Partial<Question>)[];
+    flashcards: Flashcard[];
+    gaps: any[];
+    lessons: LessonNode[];
+}
+
+// --- MÍDIA ---
+
+type QuestionMediaField = typeof QUESTION_MEDIA_FIELDS[number];
+type FlashcardMediaField = typeof FLASHCARD_MEDIA_FIELDS[number];
+
+export interface PackMediaRef {
+    entityType: 'question' | 'flashcard';
+    /** Questões: litRef|questionRef (o id pode mudar na reimportação); flashcards: id. */
+    key: string;
+    field: QuestionMediaField | FlashcardMediaField;
+    /** Arquivo dentro do pacote (mídia local) ou endereço externo mantido como está. */
+    path?: string;
+    url?: string;
+}
+
+const MEDIA_EXTENSIONS: Record<string, string> = {
+    'image/png': 'png', 'image/jpeg': 'jpg', 'image/gif': 'gif', 'image/webp': 'webp', 'image/svg+xml': 'svg',
+    'audio/mpeg': 'mp3', 'audio/ogg': 'ogg', 'audio/wav': 'wav', 'audio/webm': 'webm', 'audio/mp4': 'm4a',
+};
+const MEDIA_TYPES: Record<string, string> = Object.fromEntries(Object.entries(MEDIA_EXTENSIONS).map(([type, ext]) => [ext, type]));
+
+const questionMediaKey = (q: Pick<Question, 'lawRef' | 'questionRef'>) => `${srs.canonicalizeLitRef(q.lawRef || '')}|${q.questionRef}`;
+
+const decodeDataUrl = (url: string): { type: string; bytes: Uint8Array } | null => {
+    const match = url.match(/^data:([^;,]*)((?:;[^;,]*)*),([\s\S]*)$/);
+    if (!match) return null;
+    const type = match[1] || 'application/octet-stream';
+    const bytes = match[2].includes(';base64')
+        ? Uint8Array.from(atob(match[3]), ch => ch.charCodeAt(0))
+        : new TextEncoder().encode(decodeURIComponent(match[3]));
+    return { type, bytes };
+};
+
+// --- CONTEÚDO ---
+
+// O que vai para trails.json: só conteúdo, o progresso de quem exporta fica de fora
+const PACK_QUESTION_FIELDS: (keyof Question)[] = ['id', 'questionRef', ...QUESTION_DIFF_FIELDS, 'tags'];
+const PACK_FLASHCARD_FIELDS: (keyof Flashcard)[] = ['id', 'front', 'back', 'discipline', 'topic', 'type', 'tags', 'litRef', 'extra', 'bank', 'source', 'occlusion'];
+
+interface PackTrailContent {
+    lessons: LessonNode[];
+    questions: Partial<Question>[];
+    flashcards: Partial<Flashcard>[];
+}
+
+const slugify = (text: string) =>
+    text.normalize('NFD').replace(/[\u0300-\u036f]/g, '').toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '') || 'pacote';
+
+/** Mesmo título e autor geram o mesmo id: é assim que uma nova versão reconhece a instalada. */
+export const makePackId = (title: string, author: string) => `${slugify(author)}.${slugify(title)}`;
+
+const unique = (values: string[]) => [...new Set(values.filter(Boolean))];
+
+const withoutProgress = (lesson: LessonNode): LessonNode => ({
+    ...sanitizeLessonNode(lesson, { questions: lesson.questionRefs || [], flashcards: lesson.flashcardRefs || [] }),
+    status: 'not_started', domainLevel: 0, successRate: undefined, lastSessionAt: undefined, nextReviewAt: undefined,
+});
+
+/** Monta o .miapack assinado com a chave deste aparelho. */
+export const buildContentPack = async (draft: PackDraft, source: PackSource): Promise<BuiltContentPack> => {
+    const bundle = cleanBatchForExport(source.cards, source.allQuestions, source.allFlashcards);
+    // Cloze/oclusão e mídia, que o LIT_REF não carrega, seguem pelo trails.json e media/
+    const warnings = bundle.warnings.filter(w => !/flashcard\(s\)/.test(w));
+    const lawFlashcards = bundle.flashcards.filter(f => f.type === 'basic');
+
+    const lessons = source.lessons.map(withoutProgress);
+    const inLaws = new Set([...bundle.questions.map(q => q.id), ...lawFlashcards.map(f => f.id)]);
+    const lessonQuestionIds = new Set(lessons.flatMap(l => l.questionRefs || []));
+    const lessonFlashcardIds = new Set(lessons.flatMap(l => l.flashcardRefs || []));
+    const extraQuestions = source.allQuestions.filter(q => lessonQuestionIds.has(q.id) && !inLaws.has(q.id));
+    const extraFlashcards = [
+        ...bundle.flashcards.filter(f => f.type !== 'basic'),
+        ...source.allFlashcards.filter(f => lessonFlashcardIds.has(f.id) && !inLaws.has(f.id) && !bundle.flashcards.includes(f)),
+    ];
+    const missingRefs = [...lessonQuestionIds, ...lessonFlashcardIds].filter(id =>
+        !source.allQuestions.some(q => q.id === id) && !source.allFlashcards.some(f => f.id === id)).length;
+    if (missingRefs > 0) warnings.push(`${missingRefs} referência(s) das aulas não existem mais na base e ficam de fora.`);
+
+    const encoder = new TextEncoder();
+    const files = new Map<string, Uint8Array>();
+    const mediaRefs: PackMediaRef[] = [];
+    const addMedia = async (entityType: PackMediaRef['entityType'], key: string, field: PackMediaRef['field'], value?: string) => {
+        if (!value) return;
+        const decoded = value.startsWith('data:') ? decodeDataUrl(value)
+            : isMediaRef(value) ? await getMediaBytes(value) : null;
+        if (!decoded) {
+            if (/^https?:\/\//i.test(value)) mediaRefs.push({ entityType, key, field, url: value });
+            return;
+        }
+        const path = `media/${(await sha256Hex(decoded.bytes)).slice(0, 24)}.${MEDIA_EXTENSIONS[decoded.type] || 'bin'}`;
+        files.set(path, decoded.bytes);
+        mediaRefs.push({ entityType, key, field, path });
+    };
+    for (const q of [...bundle.questions, ...extraQuestions]) {
+        for (const field of QUESTION_MEDIA_FIELDS) await addMedia('question', questionMediaKey(q), field, q[field]);
+    }
+    for (const f of [...lawFlashcards, ...extraFlashcards]) {
+        for (const field of FLASHCARD_MEDIA_FIELDS) await addMedia('flashcard', f.id, field, f[field]);
+    }
+
+    const trails: PackTrailContent = {
+        lessons,
+        questions: extraQuestions.map(q => pickFields(q, PACK_QUESTION_FIELDS)),
+        flashcards: extraFlashcards.map(f => pickFields(f, PACK_FLASHCARD_FIELDS)),
+    };
+    files.set(LAWS_PATH, encoder.encode(exportLitRefText(bundle).text));
+    files.set(TRAILS_PATH, encoder.encode(JSON.stringify(trails, null, 2)));
+    files.set(MEDIA_INDEX_PATH, encoder.encode(JSON.stringify(mediaRefs, null, 2)));
+
+    const entries: PackFileEntry[] = [];
+    for (const [path, data] of files) entries.push({ path, sha256: await sha256Hex(data), size: data.length });
+
+    const unsigned: PackManifest = {
+        schemaVersion: PACK_SCHEMA_VERSION,
+        packId: makePackId(draft.title, draft.author),
+        title: draft.title.trim(),
+        author: draft.author.trim(),
+        version: draft.version.trim(),
+        description: draft.description?.trim() || undefined,
+        createdAt: new Date().toISOString(),
+        lawIds: unique(source.cards.map(c => c.lawId)).sort(),
+        litRefs: unique(source.cards.map(c => c.id)),
+        lessonIds: lessons.map(l => l.id),
+        counts: {
+            cards: bundle.cards.length,
+            questions: bundle.questions.length + extraQuestions.length,
+            flashcards: lawFlashcards.length + extraFlashcards.length,
+            lessons: lessons.length,
+            media: mediaRefs.filter(m => m.path).length,
+        },
+        files: entries,
+    };
+    const manifest: PackManifest = { ...unsigned, signature: await signPayload(stableStringify(unsigned)) };
+
+    const data = writeZip([
+        { name: MANIFEST_PATH, data: encoder.encode(JSON.stringify(manifest, null, 2)) },
+        ...[...files].map(([name, fileData]) => ({ name, data: fileData })),
+    ]);
+    return { data, manifest, warnings };
+};
+
+// --- LEITURA ---
+
+const freshQuestion = (q: Partial<Question>, settings: AppSettings, batchId: string, today: string): Question => ({
+    ...q,
+    importBatchId: batchId,
+    totalAttempts: 0, masteryScore: 0, attemptHistory: [],
+    stability: settings.srsV2.S_default_days, nextReviewDate: today,
+    createdAt: today, lastAttemptDate: '', errorCount: 0, timeSec: 0,
+    selfEvalLevel: 0, willFallExam: false, srsStage: 0, correctStreak: 0,
+    srsVersion: 2, sequenceNumber: 0, comments: '',
+} as unknown as Question);
+
+const freshFlashcard = (f: Partial<Flashcard>, settings: AppSettings, batchId: string, today: string): Flashcard => ({
+    type: 'basic', tags: [],
+    ...f,
+    importBatchId: batchId, totalAttempts: 0, masteryScore: 0,
+    stability: settings.srsV2.S_default_days, nextReviewDate: today,
+    createdAt: today, updatedAt: today, lastAttemptDate: '',
+    timeSec: 0, selfEvalLevel: 0, attemptHistory: [], masteryHistory: [],
+    pairMatchPlayed: false, comments: '',
+} as unknown as Flashcard);
+
+const readJson = <T,>(entries: Map<string, Uint8Array>, path: string, fallback: T): T => {
+    const data = entries.get(path);
+    return data ? JSON.parse(new TextDecoder('utf-8').decode(data)) as T : fallback;
+};
+
+/**
+ * Abre o pacote e confere hashes e assinatura. Não grava nada: o resultado vai
+ * para o dry-run e só depois para o commit.
+ */
+export const readContentPack = async (buffer: ArrayBuffer | Uint8Array, settings: AppSettings, batchId: string): Promise<LoadedContentPack> => {
+    const entries = await readZip(buffer);
+    if (!entries.has(MANIFEST_PATH)) throw new Error('Arquivo não é um pacote de conteúdo (manifest.json ausente).');
+    const manifest = readJson<PackManifest>(entries, MANIFEST_PATH, {} as PackManifest);
+    if (!manifest.packId || !Array.isArray(manifest.files)) throw new Error('Manifesto do pacote inválido.');
+    if (manifest.schemaVersion > PACK_SCHEMA_VERSION) {
+        throw new Error(`Pacote no formato v${manifest.schemaVersion}; este app lê até a v${PACK_SCHEMA_VERSION}. Atualize o app.`);
+    }
+
+    const integrityErrors: string[] = [];
+    const listed = new Set(manifest.files.map(f => f.path));
+    for (const file of manifest.files) {
+        const data = entries.get(file.path);
+        if (!data) integrityErrors.push(`${file.path}: ausente no pacote.`);
+        else if (await sha256Hex(data) !== file.sha256) integrityErrors.push(`${file.path}: conteúdo não confere com o manifesto.`);
+    }
+    entries.forEach((_, path) => {
+        if (path !== MANIFEST_PATH && !listed.has(path)) integrityErrors.push(`${path}: arquivo fora do manifesto.`);
+    });
+
+    let signatureStatus: PackSignatureStatus = 'UNSIGNED';
+    let fingerprint: string | undefined;
+    if (manifest.signature) {
+        const { signature, ...unsigned } = manifest;
+        signatureStatus = await verifyPayload(stableStringify(unsigned), signature) ? 'VALID' : 'INVALID';
+        fingerprint = await keyFingerprint(signature.publicKey).catch(() => undefined);
+    }
+
+    const lawsText = entries.get(LAWS_PATH) ? new TextDecoder('utf-8').decode(entries.get(LAWS_PATH)) : '';
+    const parsed = lawsText.trim()
+        ? parseLitRefText(lawsText, settings, batchId)
+        : { cards: [], questions: [], flashcards: [], gaps: [], errors: [] as string[] };
+    const trails = readJson<PackTrailContent>(entries, TRAILS_PATH, { lessons: [], questions: [], flashcards: [] });
+    const today = srs.todayISO();
+
+    const staging: ImportStagingData = {
+        cards: parsed.cards,
+        questions: [...parsed.questions, ...trails.questions.map(q => freshQuestion(q, settings, batchId, today))],
+        flashcards: [...parsed.flashcards, ...trails.flashcards.map(f => freshFlashcard(f, settings, batchId, today))],
+        gaps: parsed.gaps,
+    };
+
+    const questionsByKey = new Map(staging.questions.map(q => [questionMediaKey(q), q]));
+    const flashcardsById = new Map(staging.flashcards.map(f => [f.id, f]));
+    // O staging já aponta para a referência final (hash); os bytes ficam no resultado até a instalação
+    const media = new Map<string, { bytes: Uint8Array; type: string }>();
+    for (const ref of readJson<PackMediaRef[]>(entries, MEDIA_INDEX_PATH, [])) {
+        const data = ref.path ? entries.get(ref.path) : undefined;
+        let value = ref.url;
+        if (data) {
+            value = `${MEDIA_REF_PREFIX}${await sha256Hex(data)}`;
+            media.set(value, { bytes: data, type: MEDIA_TYPES[ref.path!.split('.').pop() || ''] || 'application/octet-stream' });
+        }
+        if (!value) continue;
+        const target: any = ref.entityType === 'question' ? questionsByKey.get(ref.key) : flashcardsById.get(ref.key);
+        if (target) target[ref.field] = value;
+    }
+
+    return {
+        manifest,
+        batchId,
+        signatureStatus,
+        keyFingerprint: fingerprint,
+        integrityErrors,
+        parseErrors: parsed.errors,
+        staging,
+        lessons: trails.lessons.map(l => sanitizeLessonNode(l, { questions: l.questionRefs || [], flashcards: l.flashcardRefs || [] })),
+        media: [...media.values()],
+    };
+};
+
+// --- INSTALAÇÃO ---
+
+/** Compara versões numéricas por partes ("1.10" > "1.9"); texto é comparado como texto. */
+export const compareVersions = (a: string, b: string): number => {
+    const pa = a.split(/[.\-]/);
+    const pb = b.split(/[.\-]/);
+    for (let i = 0; i < Math.max(pa.length, pb.length); i++) {
+        const x = pa[i] ?? '0';
+        const y = pb[i] ?? '0';
+        const diff = /^\d+$/.test(x) && /^\d+$/.test(y) ? Number(x) - Number(y) : x.localeCompare(y);
+        if (diff !== 0) return Math.sign(diff);
+    }
+    return 0;
+};
+
+export const loadInstalledPacks = async (): Promise<InstalledPack[]> =>
+    (await loadData<InstalledPack[]>(LS_INSTALLED_PACKS_KEY)) || [];
+
+export const checkPackInstall = (pack: LoadedContentPack, installed: InstalledPack[]): PackInstallCheck => {
+    const previous = installed.find(p => p.packId === pack.manifest.packId);
+    if (!previous) return { kind: 'NEW', keyChanged: false };
+    const order = compareVersions(pack.manifest.version, previous.version);
+    return {
+        kind: order > 0 ? 'UPGRADE' : order < 0 ? 'DOWNGRADE' : 'REINSTALL',
+        installed: previous,
+        keyChanged: !!previous.keyFingerprint && previous.keyFingerprint !== pack.keyFingerprint,
+    };
+};
+
+/** Grava a mídia do pacote no media store; vem antes dos registros que a referenciam. */
+export const storePackMedia = async (pack: LoadedContentPack): Promise<void> => {
+    for (const { bytes, type } of pack.media) await putMediaBytes(bytes, type);
+};
+
+export const saveInstalledPack = async (pack: LoadedContentPack): Promise<InstalledPack[]> => {
+    const installed = await loadInstalledPacks();
+    const previous = installed.find(p => p.packId === pack.manifest.packId);
+    const installedAt = new Date().toISOString();
+    const record: InstalledPack = {
+        packId: pack.manifest.packId,
+        title: pack.manifest.title,
+        author: pack.manifest.author,
+        version: pack.manifest.version,
+        installedAt,
+        signatureStatus: pack.signatureStatus,
+        keyFingerprint: pack.keyFingerprint,
+        litRefs: pack.manifest.litRefs,
+        lessonIds: pack.manifest.lessonIds,
+        batchId: pack.batchId,
+        history: [{ version: pack.manifest.version, installedAt, batchId: pack.batchId }, ...(previous?.history || [])],
+    };
+    const next = [record, ...installed.filter(p => p.packId !== record.packId)];
+    await saveData(LS_INSTALLED_PACKS_KEY, next);
+    return next;
+};
+
+/**
+ * O que gravar, já separado em novo x existente. Existentes recebem só os campos
+ * de conteúdo; progresso, userNotes e estado das aulas ficam com o que já está na base.
+ */
+export const buildPackWritePlan = (staging: ImportStagingData, lessons: LessonNode[], existing: ExistingContent, existingLessons: LessonNode[]): PackWritePlan => {
+    const today = srs.todayISO();
+    const cardsById = new Map(existing.cards.map(c => [c.id, c]));
+    const cards = staging.cards.map(c => {
+        const current = cardsById.get(c.id);
+        return current ? { ...current, ...pickFields(c, CARD_CONTENT_FIELDS) } : c;
+    });
+
+    const matchQuestion = createQuestionMatcher(existing.questions);
+    const questionIds = new Map<string, string>();
+    const newQuestions: Question[] = [];
+    const questionUpdates: PackWritePlan['questionUpdates'] = [];
+    staging.questions.forEach(q => {
+        const { normalized, target } = matchQuestion(q);
+        if (!target) { newQuestions.push(q); return; }
+        questionIds.set(q.id, target.id);
+        const media = QUESTION_MEDIA_FIELDS.filter(f => q[f]);
+        questionUpdates.push({ id: target.id, ...pickFields(normalized, [...QUESTION_DIFF_FIELDS, ...media]), tags: unique([...(target.tags || []), ...(q.tags || [])]), importBatchId: q.importBatchId });
+    });
+
+    const flashcardsById = new Map(existing.flashcards.map(f => [f.id, f]));
+    const flashcards = staging.flashcards.map(f => {
+        const current = flashcardsById.get(f.id);
+        if (!current) return f;
+        const media = FLASHCARD_MEDIA_FIELDS.filter(field => f[field]);
+        return { ...current, ...pickFields(f, [...FLASHCARD_CONTENT_FIELDS, ...media]), updatedAt: today };
+    });
+
+    // Aulas apontam para o id local quando a questão já existia com outro id
+    const lessonsById = new Map(existingLessons.map(l => [l.id, l]));
+    const mergedLessons = lessons.map(lesson => {
+        const packed = { ...lesson, questionRefs: (lesson.questionRefs || []).map(id => questionIds.get(id) || id) };
+        const current = lessonsById.get(lesson.id);
+        if (!current) return packed;
+        return {
+            ...packed,
+            uid: current.uid || packed.uid,
+            status: current.status,
+            domainLevel: current.domainLevel,
+            successRate: current.successRate,
+            lastSessionAt: current.lastSessionAt,
+            nextReviewAt: current.nextReviewAt,
+            questionRefs: unique([...(current.questionRefs || []), ...packed.questionRefs]),
+            flashcardRefs: unique([...(current.flashcardRefs || []), ...(packed.flashcardRefs || [])]),
+        };
+    });
+
+    return { cards, newQuestions, questionUpdates, flashcards, gaps: staging.gaps, lessons: mergedLessons };
+};
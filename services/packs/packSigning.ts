@@ -0,0 +1,95 @@
+import { saveData, loadData } from '../storage';
+import { sha256Hex } from '../checksum';
+
+/**
+ * ASSINATURA DE PACOTES
+ * Cada aparelho gera uma vez um par de chaves ECDSA P-256 (WebCrypto) e assina
+ * o manifesto dos pacotes que exporta. Não há autoridade central: quem instala
+ * confere a impressão digital da chave com o autor, e o app avisa quando a
+ * atualização de um pacote chega assinada por outra chave.
+ * A chave privada fica no IndexedDB como CryptoKey não exportável: nem backups
+ * nem o sync (que só leem chaves conhecidas do keyval) conseguem copiá-la.
+ */
+
+const LS_SIGNING_KEY = 'revApp_pack_signing_key_v1';
+
+export const PACK_SIGNATURE_ALGORITHM = 'ECDSA-P256-SHA256';
+
+const KEY_PARAMS: EcKeyImportParams = { name: 'ECDSA', namedCurve: 'P-256' };
+const SIGN_PARAMS: EcdsaParams = { name: 'ECDSA', hash: 'SHA-256' };
+
+export interface PackSignature {
+    algorithm: string;
+    /** Chave pública (JWK) de quem assinou; a impressão digital é derivada dela. */
+    publicKey: JsonWebKey;
+    /** Assinatura em base64. */
+    value: string;
+}
+
+interface StoredSigningKey {
+    publicKey: JsonWebKey;
+    /** JWK nas versões antigas; convertida para CryptoKey na primeira leitura. */
+    privateKey: CryptoKey | JsonWebKey;
+    createdAt: string;
+}
+
+const toBase64 = (bytes: Uint8Array): string => {
+    let binary = '';
+    for (let i = 0; i < bytes.length; i += 0x8000) binary += String.fromCharCode(...bytes.subarray(i, i + 0x8000));
+    return btoa(binary);
+};
+
+const fromBase64 = (text: string): Uint8Array => Uint8Array.from(atob(text), ch => ch.charCodeAt(0));
+
+// Só os campos que definem a chave: o JWK exportado traz ext/key_ops, que variam entre navegadores
+const publicKeyCore = (jwk: JsonWebKey) => ({ kty: jwk.kty, crv: jwk.crv, x: jwk.x, y: jwk.y });
+
+/** Impressão digital curta (SHA-256 da chave pública), para conferir com o autor. */
+export const keyFingerprint = async (publicKey: JsonWebKey): Promise<string> =>
+    (await sha256Hex(publicKeyCore(publicKey))).slice(0, 16).match(/.{4}/g)!.join(':').toUpperCase();
+
+const isCryptoKey = (key: CryptoKey | JsonWebKey): key is CryptoKey =>
+    typeof CryptoKey !== 'undefined' && key instanceof CryptoKey;
+
+const loadOrCreateSigningKey = async (): Promise<StoredSigningKey & { privateKey: CryptoKey }> => {
+    const stored = await loadData<StoredSigningKey>(LS_SIGNING_KEY);
+    if (stored?.privateKey && stored.publicKey) {
+        if (isCryptoKey(stored.privateKey)) return { ...stored, privateKey: stored.privateKey };
+        // Chave gravada como JWK: reimporta sem permitir exportação e sobrescreve o registro
+        const privateKey = await crypto.subtle.importKey('jwk', stored.privateKey, KEY_PARAMS, false, ['sign']);
+        const migrated = { ...stored, privateKey };
+        await saveData(LS_SIGNING_KEY, migrated);
+        return migrated;
+    }
+
+    // Não exportável vale para a chave privada; a pública sempre pode ser exportada
+    const pair = await crypto.subtle.generateKey(KEY_PARAMS, false, ['sign', 'verify']);
+    const created = {
+        publicKey: await crypto.subtle.exportKey('jwk', pair.publicKey),
+        privateKey: pair.privateKey,
+        createdAt: new Date().toISOString(),
+    };
+    await saveData(LS_SIGNING_KEY, created);
+    return created;
+};
+
+/** Impressão digital da chave deste aparelho (gera a chave na primeira chamada). */
+export const getOwnKeyFingerprint = async (): Promise<string> =>
+    keyFingerprint((await loadOrCreateSigningKey()).publicKey);
+
+export const signPayload = async (payload: string): Promise<PackSignature> => {
+    const key = await loadOrCreateSigningKey();
+    const signature = await crypto.subtle.sign(SIGN_PARAMS, key.privateKey, new TextEncoder().encode(payload));
+    return { algorithm: PACK_SIGNATURE_ALGORITHM, publicKey: publicKeyCore(key.publicKey), value: toBase64(new Uint8Array(signature)) };
+};
+
+/** Assinatura malformada ou de algoritmo desconhecido conta como inválida. */
+export const verifyPayload = async (payload: string, signature: PackSignature): Promise<boolean> => {
+    if (signature.algorithm !== PACK_SIGNATURE_ALGORITHM) return false;
+    try {
+        const publicKey = await crypto.subtle.importKey('jwk', publicKeyCore(signature.publicKey), KEY_PARAMS, false, ['verify']);
+        return await crypto.subtle.verify(SIGN_PARAMS, publicKey, fromBase64(signature.value) as BufferSource, new TextEncoder().encode(payload));
+    } catch {
+        return false;
+    }
+};
@@ -96,6 +96,7 @@ export function updateDominioAfterGame(
             wasCorrect: isCorrect,
             masteryAfter: newMastery,
             stabilityAfter: newS,
+            nextReviewDate: nextReviewDateObj.toISOString(),
             timeSec: Math.round(stats.timeToMatchSec),
             selfEvalLevel: evalLevel
         }
@@ -3,6 +3,8 @@ import { Question, AppSettings, StudyMode, QueueBuilderParams, BuildStudyQueueRe
 import * as srs from './srsService';
 import * as studyLater from './studyLaterService';
 import { filterExecutableItems, isStrictQuestion } from './contentGate'; // Import Gate
+import { examPriorityBoost, getExamTargetFor, subjectOf } from './scheduler/examTargets';
+import { resolveSchedulerId } from './scheduler';
 
 const MS_PER_DAY = 86400000;
 
@@ -63,7 +65,12 @@ export function buildStudyQueue<T extends SrsItem>(params: QueueBuilderParams<T>
     const activeItems = filterExecutableItems(allItems as unknown as (Question | Flashcard)[]);
     
     // Cast back to T for SRS calculations
-    const calculatedMetrics = (activeItems as unknown as T[]).map(item => srs.calculateMetrics(item, settings, now));
+    // Disciplinas com prova-alvo próxima sobem na fila conforme o peso no edital
+    const calculatedMetrics = (activeItems as unknown as T[]).map(item => {
+        const metrics = srs.calculateMetrics(item, settings, now);
+        const boost = examPriorityBoost(subjectOf(item), settings, now);
+        return boost === 1 ? metrics : { ...metrics, priority_spaced: metrics.priority_spaced * boost, priority_exam: metrics.priority_exam * boost };
+    });
     const studyLaterIds = new Set(studyLater.getStudyLaterIds());
     
     const filteredByUI: (Omit<CalculatedItemMetrics<T>, "dueReason">)[] = calculatedMetrics.filter(cm => {
@@ -120,7 +127,10 @@ export function buildStudyQueue<T extends SrsItem>(params: QueueBuilderParams<T>
             if (item.totalAttempts === 0) return true;
             // Only include items scheduled for today or earlier.
             const isDue = new Date(item.nextReviewDate) <= now;
-            return isDue;
+            if (isDue) return true;
+            // Perto da prova, vale a retenção-alvo dela (mais alta que a do agendador)
+            const target = getExamTargetFor(subjectOf(item), resolveSchedulerId(item, settings), settings, now);
+            return !!target && cm.R_now < target.retention;
         });
     }
 
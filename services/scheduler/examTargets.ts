@@ -0,0 +1,136 @@
+import { AppSettings, SrsAlgorithmId, SrsItem, TargetExam } from '../../types';
+import { DAY_MS, SrsReviewResult } from './schedulerCore';
+import { fsrsInterval } from './fsrsScheduler';
+import { normalizeDiscipline } from '../taxonomyService';
+
+/**
+ * PROVAS-ALVO
+ * Conforme a prova de uma disciplina se aproxima, a retenção desejada sobe
+ * (proporcional ao peso no edital) e o intervalo é limitado para que a última
+ * revisão caia pouco antes da prova. Vale para qualquer agendador: o intervalo
+ * é recalculado a partir da estabilidade devolvida por ele.
+ */
+
+/** Retenção máxima pedida na véspera para a disciplina de maior peso. */
+export const EXAM_MAX_RETENTION = 0.95;
+/** A partir de quantos dias antes da prova a retenção começa a subir. */
+export const EXAM_RAMP_DAYS = 60;
+
+export interface ExamTarget {
+    exam: TargetExam;
+    weight: number; // 0..1, relativo ao maior peso da prova
+    daysLeft: number;
+    retention: number;
+}
+
+const startOfDay = (date: Date) => {
+    const d = new Date(date);
+    d.setHours(0, 0, 0, 0);
+    return d;
+};
+
+export const examStart = (exam: TargetExam): Date => new Date(`${exam.date}T00:00:00`);
+
+export const daysUntil = (exam: TargetExam, now: Date): number =>
+    Math.round((examStart(exam).getTime() - startOfDay(now).getTime()) / DAY_MS);
+
+/** Provas de hoje em diante, da mais próxima para a mais distante. */
+export const getUpcomingExams = (settings: AppSettings, now: Date = new Date()): TargetExam[] =>
+    (settings.targetExams || [])
+        .filter(exam => !isNaN(examStart(exam).getTime()) && daysUntil(exam, now) >= 0)
+        .sort((a, b) => a.date.localeCompare(b.date));
+
+/** Data da próxima prova-alvo; sem provas cadastradas, cai no `examDate` antigo. */
+export const getNextExamDate = (settings: AppSettings, now: Date = new Date()): string | undefined =>
+    getUpcomingExams(settings, now)[0]?.date || settings.examDate;
+
+/** Retenção "natural" do agendador no vencimento (Clássico: R = e^-1 em t = S). */
+export const baseRetention = (schedulerId: SrsAlgorithmId, settings: AppSettings): number =>
+    schedulerId === 'fsrs' ? (settings.fsrs?.requestRetention ?? 0.9) : Math.exp(-1);
+
+export const examRetentionTarget = (base: number, weight: number, daysLeft: number): number => {
+    const proximity = Math.min(1, Math.max(0, 1 - daysLeft / EXAM_RAMP_DAYS));
+    return base + Math.max(0, EXAM_MAX_RETENTION - base) * proximity * weight;
+};
+
+/**
+ * Prova mais próxima que cobra a disciplina. Disciplinas em mais de uma prova
+ * seguem a mais próxima (é ela que precisa estar pronta primeiro).
+ */
+export const getExamTargetFor = (subject: string | undefined, schedulerId: SrsAlgorithmId, settings: AppSettings, now: Date = new Date()): ExamTarget | null => {
+    if (!subject) return null;
+    const key = normalizeDiscipline(subject);
+
+    for (const exam of getUpcomingExams(settings, now)) {
+        const entry = exam.subjects.find(s => normalizeDiscipline(s.subject) === key);
+        if (!entry || entry.weight <= 0) continue;
+        const maxWeight = Math.max(...exam.subjects.map(s => s.weight), 1e-9);
+        const weight = entry.weight / maxWeight;
+        const daysLeft = daysUntil(exam, now);
+        return { exam, weight, daysLeft, retention: examRetentionTarget(baseRetention(schedulerId, settings), weight, daysLeft) };
+    }
+    return null;
+};
+
+/** Disciplina do item (questão: subject; flashcard: discipline). */
+export const subjectOf = (item: SrsItem): string | undefined =>
+    (item as { subject?: string }).subject || (item as { discipline?: string }).discipline;
+
+const intervalForRetention = (schedulerId: SrsAlgorithmId, stability: number, retention: number): number =>
+    schedulerId === 'fsrs' ? fsrsInterval(stability, retention) : -stability * Math.log(retention);
+
+// Espalha a revisão de véspera por 1-3 dias antes da prova (estável por item)
+const leadDaysFor = (id: string): number => {
+    let h = 0;
+    for (let i = 0; i < id.length; i++) h = (h * 31 + id.charCodeAt(i)) | 0;
+    return 1 + (Math.abs(h) % 3);
+};
+
+/**
+ * Ajusta o resultado do agendador à prova da disciplina:
+ * 1. encurta o intervalo até a retenção-alvo da prova (nunca alonga);
+ * 2. se o vencimento passar da prova, antecipa para 1-3 dias antes dela.
+ */
+export const adjustForExam = (item: SrsItem, result: SrsReviewResult, settings: AppSettings, now: Date, subject: string | undefined = subjectOf(item)): SrsReviewResult => {
+    const target = getExamTargetFor(subject, result.srsAlgorithm, settings, now);
+    if (!target) return result;
+
+    const due = new Date(result.nextReviewDate);
+    if (isNaN(due.getTime())) return result;
+
+    const natural = (due.getTime() - now.getTime()) / DAY_MS;
+    let interval = natural;
+    if (natural >= 1 && target.retention > baseRetention(result.srsAlgorithm, settings)) {
+        interval = Math.max(1, Math.min(natural, intervalForRetention(result.srsAlgorithm, result.stability, target.retention)));
+    }
+
+    let next = new Date(now.getTime() + interval * DAY_MS);
+    const examAt = examStart(target.exam);
+    if (next >= examAt) {
+        const lead = Math.min(leadDaysFor(item.id), target.daysLeft - 1);
+        const eve = new Date(examAt);
+        eve.setDate(eve.getDate() - lead);
+        eve.setHours(next.getHours(), next.getMinutes(), 0, 0);
+        // Prova amanhã ou hoje: não há véspera a antecipar
+        if (lead >= 1 && eve > now) next = eve;
+    }
+
+    return next.getTime() === due.getTime() ? result : { ...result, nextReviewDate: next.toISOString() };
+};
+
+/** Início da prova-alvo da disciplina do item (limite para o balanceamento de carga). */
+export const examDeadlineFor = (item: SrsItem, schedulerId: SrsAlgorithmId, settings: AppSettings, now: Date, subject: string | undefined = subjectOf(item)): Date | undefined => {
+    const target = getExamTargetFor(subject, schedulerId, settings, now);
+    return target ? examStart(target.exam) : undefined;
+};
+
+/**
+ * Multiplicador de prioridade na fila: até 2x para a disciplina de maior peso
+ * na véspera da prova, 1x fora da janela de aproximação.
+ */
+export const examPriorityBoost = (subject: string | undefined, settings: AppSettings, now: Date = new Date()): number => {
+    const target = getExamTargetFor(subject, settings.srsAlgorithm || 'legacy', settings, now);
+    if (!target) return 1;
+    const proximity = Math.min(1, Math.max(0, 1 - target.daysLeft / EXAM_RAMP_DAYS));
+    return 1 + proximity * target.weight;
+};
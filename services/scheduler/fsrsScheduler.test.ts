@@ -0,0 +1,86 @@
+import { describe, it, expect } from 'vitest';
+import { AppSettings, Attempt, SrsItem } from '../../types';
+import { fsrsInterval, fsrsRetrievability, fsrsScheduler, toFsrsGrade, FSRS_DEFAULT_WEIGHTS } from './fsrsScheduler';
+import { rescheduleFromHistory } from './index';
+
+const settings = { srsAlgorithm: 'fsrs', srsV2: { S_default_days: 1 } } as unknown as AppSettings;
+const now = new Date('2026-03-01T10:00:00Z');
+const daysAgo = (n: number) => new Date(now.getTime() - n * 86400000).toISOString();
+
+const reviewed = (overrides: Partial<SrsItem> = {}): SrsItem => ({
+    id: 'q1', nextReviewDate: now.toISOString(), stability: 10, difficulty: 0.5, masteryScore: 50,
+    totalAttempts: 3, lastReviewedAt: daysAgo(10), attemptHistory: [], ...overrides,
+});
+
+const attempt = (date: string, wasCorrect: boolean): Attempt =>
+    ({ date, wasCorrect, masteryAfter: 0, stabilityAfter: 0, timeSec: 20, selfEvalLevel: wasCorrect ? 2 : 0 });
+
+describe('fórmulas FSRS', () => {
+    it('retenção de 90% quando o tempo decorrido é igual à estabilidade', () => {
+        expect(fsrsRetrievability(0, 5)).toBe(1);
+        expect(fsrsRetrievability(5, 5)).toBeCloseTo(0.9, 10);
+        expect(fsrsInterval(5, 0.9)).toBeCloseTo(5, 10);
+    });
+
+    it('retenção desejada maior encurta o intervalo', () => {
+        expect(fsrsInterval(10, 0.95)).toBeLessThan(fsrsInterval(10, 0.9));
+    });
+
+    it('converte acerto e rating do app para nota 1-4', () => {
+        expect(toFsrsGrade(false, 3)).toBe(1);
+        expect(toFsrsGrade(true, 0)).toBe(2);
+        expect(toFsrsGrade(true, 2)).toBe(3);
+        expect(toFsrsGrade(true, 3)).toBe(4);
+    });
+});
+
+describe('fsrsScheduler.review', () => {
+    it('item novo recebe a estabilidade inicial da nota', () => {
+        const item = reviewed({ lastReviewedAt: undefined, totalAttempts: 0 });
+        const result = fsrsScheduler.review(item, true, 2, 20, settings, now);
+        expect(result.stability).toBeCloseTo(FSRS_DEFAULT_WEIGHTS[2], 10);
+        expect(result.srsAlgorithm).toBe('fsrs');
+    });
+
+    it('acerto aumenta a estabilidade e agenda depois do intervalo atual', () => {
+        const result = fsrsScheduler.review(reviewed(), true, 2, 20, settings, now);
+        expect(result.stability).toBeGreaterThan(10);
+        expect(new Date(result.nextReviewDate).getTime()).toBeGreaterThan(now.getTime() + 10 * 86400000);
+        expect(result.lastReviewedAt).toBe(now.toISOString());
+    });
+
+    it('erro derruba a estabilidade e aumenta a dificuldade', () => {
+        const result = fsrsScheduler.review(reviewed(), false, 0, 20, settings, now);
+        expect(result.stability).toBeLessThan(10);
+        expect(result.difficulty).toBeGreaterThan(0.5);
+        expect(result.lastWasCorrect).toBe(false);
+    });
+
+    it('respeita o intervalo máximo configurado', () => {
+        const capped = { ...settings, fsrs: { maximumIntervalDays: 30 } } as AppSettings;
+        const result = fsrsScheduler.review(reviewed({ stability: 200, lastReviewedAt: daysAgo(200) }), true, 3, 20, capped, now);
+        expect(result.stability).toBeLessThanOrEqual(30);
+        expect(new Date(result.nextReviewDate).getTime()).toBeLessThanOrEqual(now.getTime() + 30 * 86400000);
+    });
+});
+
+describe('rescheduleFromHistory', () => {
+    it('refaz o histórico em ordem e reescreve os campos *After de cada tentativa', () => {
+        const history = [attempt(daysAgo(3), true), attempt(daysAgo(20), true), attempt(daysAgo(10), false)];
+        const item = reviewed({ attemptHistory: history, srsAlgorithm: 'legacy' });
+        const result = rescheduleFromHistory(item, settings);
+
+        expect(result.srsAlgorithm).toBe('fsrs');
+        expect(result.attemptHistory.map(a => a.date)).toEqual([daysAgo(20), daysAgo(10), daysAgo(3)]);
+        const last = result.attemptHistory[2];
+        expect(result.stability).toBe(last.stabilityAfter);
+        expect(result.nextReviewDate).toBe(last.nextReviewDate);
+        expect(result.lastReviewedAt).toBe(daysAgo(3));
+        expect((result as SrsItem & { correctStreak?: number }).correctStreak).toBe(1);
+    });
+
+    it('item sem histórico só recebe a marca do algoritmo', () => {
+        const item = reviewed({ srsAlgorithm: 'legacy' });
+        expect(rescheduleFromHistory(item, settings)).toEqual({ ...item, srsAlgorithm: 'fsrs' });
+    });
+});
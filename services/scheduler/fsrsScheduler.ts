@@ -0,0 +1,130 @@
+import { AppSettings, SrsItem } from '../../types';
+import { addDays, classifyTimingLocal, elapsedDays, GRADES, masteryFromState, SrsScheduler } from './schedulerCore';
+
+/**
+ * FSRS (Free Spaced Repetition Scheduler), fórmulas da versão 5.
+ * Internamente a dificuldade vai de 1 a 10; no item ela é gravada em 0..1
+ * (mesma escala do modelo clássico), então trocar de algoritmo não quebra as telas.
+ */
+
+// Parâmetros padrão publicados do FSRS-5 (19 pesos)
+export const FSRS_DEFAULT_WEIGHTS = [
+    0.40255, 1.18385, 3.173, 15.69105, 7.1949, 0.5345, 1.4604, 0.0046, 1.54575, 0.1192,
+    1.01925, 1.9395, 0.11, 0.29605, 2.2698, 0.2315, 2.9898, 0.51655, 0.6621
+];
+
+export const FSRS_DEFAULTS = {
+    weights: FSRS_DEFAULT_WEIGHTS,
+    requestRetention: 0.9,
+    maximumIntervalDays: 365
+};
+
+const DECAY = -0.5;
+const FACTOR = 19 / 81; // R(S, S) = 0.9
+const MIN_STABILITY = 0.01;
+
+const clamp = (v: number, min: number, max: number) => Math.min(max, Math.max(min, v));
+
+const toInternalDifficulty = (d01: number) => 1 + clamp(d01, 0, 1) * 9;
+const toStoredDifficulty = (d: number) => (clamp(d, 1, 10) - 1) / 9;
+
+const getParams = (settings: AppSettings) => {
+    const custom = settings.fsrs;
+    const weights = custom?.weights?.length === FSRS_DEFAULT_WEIGHTS.length ? custom.weights : FSRS_DEFAULT_WEIGHTS;
+    return {
+        w: weights,
+        requestRetention: clamp(custom?.requestRetention ?? FSRS_DEFAULTS.requestRetention, 0.7, 0.99),
+        maximumIntervalDays: custom?.maximumIntervalDays ?? FSRS_DEFAULTS.maximumIntervalDays
+    };
+};
+
+export const fsrsRetrievability = (elapsed: number, stability: number): number =>
+    Math.pow(1 + FACTOR * elapsed / Math.max(MIN_STABILITY, stability), DECAY);
+
+/** Intervalo (dias) para que a retenção caia até `requestRetention`. */
+export const fsrsInterval = (stability: number, requestRetention: number): number =>
+    (stability / FACTOR) * (Math.pow(requestRetention, 1 / DECAY) - 1);
+
+const initialStability = (w: number[], grade: number) => Math.max(MIN_STABILITY, w[grade - 1]);
+
+const initialDifficulty = (w: number[], grade: number) => clamp(w[4] - Math.exp(w[5] * (grade - 1)) + 1, 1, 10);
+
+const nextDifficulty = (w: number[], d: number, grade: number) => {
+    const delta = -w[6] * (grade - 3);
+    const damped = d + delta * (10 - d) / 9; // linear damping
+    // Reversão à média em direção à dificuldade inicial de "easy"
+    return clamp(w[7] * initialDifficulty(w, 4) + (1 - w[7]) * damped, 1, 10);
+};
+
+const recallStability = (w: number[], d: number, s: number, r: number, grade: number) => {
+    const hardPenalty = grade === 2 ? w[15] : 1;
+    const easyBonus = grade === 4 ? w[16] : 1;
+    return s * (1 + Math.exp(w[8]) * (11 - d) * Math.pow(s, -w[9]) * (Math.exp(w[10] * (1 - r)) - 1) * hardPenalty * easyBonus);
+};
+
+const forgetStability = (w: number[], d: number, s: number, r: number) =>
+    Math.min(s, w[11] * Math.pow(d, -w[12]) * (Math.pow(s + 1, w[13]) - 1) * Math.exp(w[14] * (1 - r)));
+
+const shortTermStability = (w: number[], s: number, grade: number) => s * Math.exp(w[17] * (grade - 3 + w[18]));
+
+/** Nota FSRS (1-4) a partir do rating do app (0-3) e do acerto. */
+export const toFsrsGrade = (wasCorrect: boolean, rating: number): number => {
+    if (!wasCorrect) return 1;
+    return clamp(Math.round(rating) + 1, 2, 4);
+};
+
+const retrievability = (item: SrsItem, now: Date): number => {
+    if (!item.lastReviewedAt) return 0;
+    return fsrsRetrievability(elapsedDays(item, now), item.stability || 1);
+};
+
+const review = (item: SrsItem, wasCorrect: boolean, rating: number, timeTaken: number, settings: AppSettings, now: Date) => {
+    const { w, requestRetention, maximumIntervalDays } = getParams(settings);
+    const grade = toFsrsGrade(wasCorrect, rating);
+    const isNew = !item.lastReviewedAt || (item.totalAttempts || 0) === 0;
+
+    let s: number;
+    let d: number;
+
+    if (isNew) {
+        s = initialStability(w, grade);
+        d = initialDifficulty(w, grade);
+    } else {
+        const elapsed = elapsedDays(item, now);
+        const currentS = Math.max(MIN_STABILITY, item.stability);
+        const currentD = toInternalDifficulty(item.difficulty ?? 0.5);
+        const r = fsrsRetrievability(elapsed, currentS);
+
+        if (elapsed < 1) s = shortTermStability(w, currentS, grade);
+        else if (grade === 1) s = forgetStability(w, currentD, currentS, r);
+        else s = recallStability(w, currentD, currentS, r, grade);
+        d = nextDifficulty(w, currentD, grade);
+    }
+
+    s = clamp(s, MIN_STABILITY, maximumIntervalDays);
+    let interval = clamp(fsrsInterval(s, requestRetention), MIN_STABILITY, maximumIntervalDays);
+    if (wasCorrect) interval = Math.max(1, Math.round(interval));
+
+    const difficulty = toStoredDifficulty(d);
+
+    return {
+        stability: s,
+        difficulty,
+        masteryScore: masteryFromState(s, difficulty, wasCorrect),
+        nextReviewDate: addDays(now, interval).toISOString(),
+        lastReviewedAt: now.toISOString(),
+        timingClass: classifyTimingLocal(timeTaken),
+        targetSec: 30,
+        grade: GRADES[grade - 1],
+        lastWasCorrect: wasCorrect,
+        srsAlgorithm: 'fsrs' as const
+    };
+};
+
+export const fsrsScheduler: SrsScheduler = {
+    id: 'fsrs',
+    label: 'FSRS',
+    description: 'Free Spaced Repetition Scheduler (v5): intervalo calculado para a retenção desejada.',
+    review,
+    retrievability
+};
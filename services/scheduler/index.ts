@@ -0,0 +1,159 @@
+import { AppSettings, Attempt, Flashcard, FlashcardSiblingState, SrsAlgorithmId, SrsItem } from '../../types';
+import { addDays, ratingFromAttempt, SrsScheduler } from './schedulerCore';
+import { legacyScheduler } from './legacyScheduler';
+import { fsrsScheduler } from './fsrsScheduler';
+import { getSiblingKeys, recomputeParentFromSiblings } from '../siblingService';
+
+export type { SrsScheduler, SrsReviewResult } from './schedulerCore';
+export { FSRS_DEFAULTS, FSRS_DEFAULT_WEIGHTS } from './fsrsScheduler';
+
+/**
+ * REGISTRO DE AGENDADORES
+ * O algoritmo é escolhido por disciplina (SubjectConfig.srsAlgorithm) com
+ * fallback para o padrão global (AppSettings.srsAlgorithm, 'legacy').
+ */
+
+export const SCHEDULERS: Record<SrsAlgorithmId, SrsScheduler> = {
+    legacy: legacyScheduler,
+    fsrs: fsrsScheduler
+};
+
+export const getScheduler = (id?: SrsAlgorithmId): SrsScheduler => (id && SCHEDULERS[id]) || legacyScheduler;
+
+const subjectOf = (item: SrsItem): string => (item as any).subject || (item as any).discipline || '';
+
+export const resolveSchedulerId = (item: SrsItem, settings: AppSettings): SrsAlgorithmId => {
+    const subject = subjectOf(item);
+    return settings.subjectConfigs?.[subject]?.srsAlgorithm || settings.srsAlgorithm || 'legacy';
+};
+
+export const getSchedulerFor = (item: SrsItem, settings: AppSettings): SrsScheduler => getScheduler(resolveSchedulerId(item, settings));
+
+// --- MIGRAÇÃO (replay do histórico) ---
+
+const byDate = (a: Attempt, b: Attempt) => new Date(a.date).getTime() - new Date(b.date).getTime();
+
+/** Estado gravado por uma tentativa (ponto de partida de um replay parcial). */
+const stateFromAttempt = (attempt: Attempt, totalAttempts: number, settings: AppSettings): SrsItem => ({
+    id: '',
+    stability: attempt.stabilityAfter || settings.srsV2.S_default_days,
+    difficulty: attempt.difficultyAfter,
+    masteryScore: attempt.masteryAfter || 0,
+    // Tentativas antigas não guardam a data agendada: aproxima por data + estabilidade
+    nextReviewDate: attempt.nextReviewDate || addDays(new Date(attempt.date), attempt.stabilityAfter || 0).toISOString(),
+    lastReviewedAt: attempt.date,
+    lastWasCorrect: attempt.wasCorrect,
+    lastGrade: attempt.grade,
+    totalAttempts,
+    attemptHistory: []
+});
+
+/**
+ * Reexecuta as tentativas em ordem cronológica com o agendador indicado.
+ * Os campos *After de cada Attempt são reescritos, pois o merge do sync
+ * deriva o estado vigente da última tentativa.
+ * As `settled` primeiras tentativas são mantidas como gravadas e o replay parte do
+ * estado da última delas (o sync só refaz o que veio depois do histórico comum).
+ */
+const replay = (history: Attempt[], scheduler: SrsScheduler, settings: AppSettings, settled = 0) => {
+    const sorted = [...history].sort(byDate);
+    let state: SrsItem = settled > 0
+        ? stateFromAttempt(sorted[settled - 1], settled, settings)
+        : { id: '', nextReviewDate: '', stability: settings.srsV2.S_default_days, masteryScore: 0, totalAttempts: 0, attemptHistory: [] };
+    let correctStreak = 0;
+
+    const attempts = sorted.map((attempt, index) => {
+        correctStreak = attempt.wasCorrect ? correctStreak + 1 : 0;
+        if (index < settled) return attempt;
+        const result = scheduler.review(state, attempt.wasCorrect, ratingFromAttempt(attempt), attempt.timeSec || 0, settings, new Date(attempt.date));
+        // Mesmo estado que o gravado: a data agendada (com limite de prova e balanceamento) continua valendo
+        const nextReviewDate = attempt.nextReviewDate && attempt.stabilityAfter === result.stability ? attempt.nextReviewDate : result.nextReviewDate;
+        state = { ...state, ...result, nextReviewDate, lastGrade: result.grade, totalAttempts: state.totalAttempts + 1 };
+        return { ...attempt, stabilityAfter: result.stability, difficultyAfter: result.difficulty, masteryAfter: result.masteryScore, nextReviewDate, grade: attempt.grade || result.grade };
+    });
+
+    return { state, attempts, correctStreak };
+};
+
+/** Quantas tentativas, desde o início, já são comuns (prefixo em que `isSettled` vale). */
+const settledPrefix = (attempts: Attempt[], isSettled?: (attempt: Attempt) => boolean): number => {
+    if (!isSettled) return 0;
+    const sorted = [...attempts].sort(byDate);
+    const firstNew = sorted.findIndex(a => !isSettled(a));
+    return firstNew < 0 ? sorted.length : firstNew;
+};
+
+const toSiblingState = (state: SrsItem, correctStreak: number): FlashcardSiblingState => ({
+    stability: state.stability,
+    difficulty: state.difficulty,
+    masteryScore: state.masteryScore,
+    nextReviewDate: state.nextReviewDate,
+    lastReviewedAt: state.lastReviewedAt,
+    totalAttempts: state.totalAttempts,
+    lastWasCorrect: state.lastWasCorrect,
+    correctStreak,
+    lastGrade: state.lastGrade,
+    srsAlgorithm: state.srsAlgorithm
+});
+
+/**
+ * Recalcula estabilidade/dificuldade/próxima revisão de um item a partir do
+ * `attemptHistory`, usando o agendador configurado para a disciplina dele.
+ * Itens sem histórico apenas recebem a marca do algoritmo.
+ * Com `isSettled`, as tentativas iniciais que satisfazem o predicado são mantidas e
+ * só as seguintes são refeitas (por irmã, em cartas cloze/oclusão).
+ */
+export const rescheduleFromHistory = <T extends SrsItem>(item: T, settings: AppSettings, algorithm?: SrsAlgorithmId, isSettled?: (attempt: Attempt) => boolean): T => {
+    const scheduler = algorithm ? getScheduler(algorithm) : getSchedulerFor(item, settings);
+    const history = item.attemptHistory || [];
+    if (history.length === 0) return { ...item, srsAlgorithm: scheduler.id };
+
+    const siblingKeys = 'front' in item ? getSiblingKeys(item as unknown as Flashcard) : [];
+    if (siblingKeys.length > 0) {
+        // Cartas com irmãs: cada irmã tem seu próprio replay; o pai é agregado
+        const siblingStates: Record<string, FlashcardSiblingState> = { ...(item as any).siblingStates };
+        const rewritten: Attempt[] = [];
+        siblingKeys.forEach(key => {
+            const own = history.filter(a => a.siblingKey === key);
+            if (own.length === 0) return;
+            const settled = settledPrefix(own, isSettled);
+            if (settled === own.length && siblingStates[key]) {
+                rewritten.push(...own);
+                return;
+            }
+            const { state, attempts, correctStreak } = replay(own, scheduler, settings, settled);
+            siblingStates[key] = toSiblingState(state, correctStreak);
+            rewritten.push(...attempts);
+        });
+        const untouched = history.filter(a => !a.siblingKey || !siblingKeys.includes(a.siblingKey));
+        const parent = { ...item, siblingStates, srsAlgorithm: scheduler.id, attemptHistory: [...untouched, ...rewritten].sort(byDate) };
+        return recomputeParentFromSiblings(parent as unknown as Flashcard) as unknown as T;
+    }
+
+    const { state, attempts, correctStreak } = replay(history, scheduler, settings, settledPrefix(history, isSettled));
+    return {
+        ...item,
+        stability: state.stability,
+        difficulty: state.difficulty,
+        masteryScore: state.masteryScore,
+        nextReviewDate: state.nextReviewDate,
+        lastReviewedAt: state.lastReviewedAt,
+        lastWasCorrect: state.lastWasCorrect,
+        lastGrade: state.lastGrade,
+        correctStreak,
+        srsAlgorithm: scheduler.id,
+        attemptHistory: attempts
+    };
+};
+
+/**
+ * Itens cujo algoritmo gravado difere do configurado (ou todos, com `force`),
+ * já reagendados. Útil para aplicar em lote via updateBatchQuestions/Flashcards.
+ */
+export const needsReschedule = (item: SrsItem, settings: AppSettings): boolean =>
+    (item.srsAlgorithm || 'legacy') !== resolveSchedulerId(item, settings);
+
+export const migrateItemsToConfiguredScheduler = <T extends SrsItem>(items: T[], settings: AppSettings, force = false): T[] =>
+    items
+        .filter(item => force || needsReschedule(item, settings))
+        .map(item => rescheduleFromHistory(item, settings));
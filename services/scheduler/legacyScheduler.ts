@@ -0,0 +1,88 @@
+import { AppSettings, SrsItem } from '../../types';
+import { addDays, classifyTimingLocal, elapsedDays, GRADES, masteryFromState, SrsScheduler } from './schedulerCore';
+
+/**
+ * Modelo original (srsV2): estabilidade/dificuldade ajustadas à mão com as
+ * constantes de `AppSettings.srsV2` e retenção exponencial simples.
+ */
+
+const retrievability = (item: SrsItem, now: Date): number => {
+    if (!item.lastReviewedAt) return 0;
+    const S = item.stability || 1;
+    return Math.exp(-elapsedDays(item, now) / S);
+};
+
+// Mesmo arredondamento de srsService.addDaysToDate (dias inteiros no calendário local)
+const nextReviewFrom = (now: Date, days: number): Date => {
+    if (days < 0.05) return addDays(now, days);
+    const r = new Date(now);
+    r.setDate(r.getDate() + days);
+    return r;
+};
+
+export type LegacyParams = Pick<AppSettings['srsV2'], 'alpha_easy' | 'alpha_good' | 'alpha_hard' | 'gamma_fail' | 'k_rt_bonus' | 'S_default_days'>;
+
+/**
+ * Um passo do modelo: estado (S, D) + retenção atual -> novo estado.
+ * Puro e sem datas, para o otimizador poder reexecutar milhares de tentativas.
+ */
+export const legacyStep = (S: number, D: number, R: number, wasCorrect: boolean, rating: number, timeTaken: number, params: LegacyParams, capDays: number) => {
+    let newS = S;
+    let newD = D;
+
+    if (!wasCorrect) {
+        newD = Math.min(1.0, D + 0.2); // Harder
+        newS = Math.max(0.5, S * params.gamma_fail); // Cut stability
+    } else {
+        // Difficulty drift
+        if (rating === 3) newD = Math.max(0.1, D - 0.15); // Easier
+        else if (rating === 1) newD = Math.min(1.0, D + 0.1); // Harder
+
+        let alpha = params.alpha_good;
+        if (rating === 3) alpha = params.alpha_easy;
+        if (rating === 1) alpha = params.alpha_hard;
+
+        const gain = alpha * (1 + (1 - R) * 2) * (1 + (1 - D));
+
+        let timeBonus = 1.0;
+        const expectedTime = 20;
+        if (timeTaken < expectedTime * 0.5) timeBonus = 1.0 + params.k_rt_bonus;
+
+        newS = S * (1 + gain * timeBonus);
+    }
+
+    // Cap S
+    return { S: Math.min(newS, capDays), D: newD };
+};
+
+const review = (item: SrsItem, wasCorrect: boolean, rating: number, timeTaken: number, settings: AppSettings, now: Date) => {
+    const { srsV2 } = settings;
+
+    // Fallbacks
+    const currentS = item.stability || srsV2.S_default_days;
+    const currentD = item.difficulty || 0.5;
+    const currentR = retrievability(item, now);
+
+    const { S: newS, D: newD } = legacyStep(currentS, currentD, currentR, wasCorrect, rating, timeTaken, srsV2, settings.learning?.srs.stabilityCapDays || 365);
+
+    return {
+        stability: newS,
+        difficulty: newD,
+        masteryScore: masteryFromState(newS, newD, wasCorrect),
+        nextReviewDate: nextReviewFrom(now, newS).toISOString(),
+        lastReviewedAt: now.toISOString(),
+        timingClass: classifyTimingLocal(timeTaken),
+        targetSec: 30,
+        grade: GRADES[rating] || GRADES[wasCorrect ? 2 : 0],
+        lastWasCorrect: wasCorrect,
+        srsAlgorithm: 'legacy' as const
+    };
+};
+
+export const legacyScheduler: SrsScheduler = {
+    id: 'legacy',
+    label: 'Clássico (srsV2)',
+    description: 'Modelo original do app, ajustado pelas constantes srsV2.',
+    review,
+    retrievability
+};
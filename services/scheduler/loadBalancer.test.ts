@@ -0,0 +1,51 @@
+import { describe, it, expect } from 'vitest';
+import { AppSettings, LoadBalancingConfig } from '../../types';
+import { SrsReviewResult } from './schedulerCore';
+import { adjustForExam, examDeadlineFor } from './examTargets';
+import { balanceReviewResult, pickBalancedDate, registerDueLoad, toDayKey } from './loadBalancer';
+
+const config: LoadBalancingConfig = { enabled: true, dailyCap: 5, fuzzPercent: 0.1 };
+const now = new Date('2026-03-01T10:00:00');
+const days = (n: number) => new Date(now.getTime() + n * 86400000);
+
+describe('pickBalancedDate', () => {
+    it('escolhe o dia menos carregado dentro da janela de fuzz', () => {
+        const load: Record<string, number> = { [toDayKey(days(19))]: 0 };
+        const picked = pickBalancedDate(days(20), now, config, key => load[key] ?? 3, () => 0);
+        expect(toDayKey(picked)).toBe(toDayKey(days(19)));
+    });
+
+    it('com a janela cheia, avança até o primeiro dia livre', () => {
+        const free = toDayKey(days(30));
+        const picked = pickBalancedDate(days(20), now, config, key => (key === free ? 0 : 5), () => 0);
+        expect(toDayKey(picked)).toBe(free);
+    });
+
+    it('nunca passa do limite (dia da prova), mesmo com a janela cheia', () => {
+        const exam = days(21);
+        const picked = pickBalancedDate(days(20), now, config, () => 5, () => 0.99, exam);
+        expect(toDayKey(picked) < toDayKey(exam)).toBe(true);
+    });
+});
+
+describe('balanceamento com prova-alvo', () => {
+    it('a revisão de véspera não é empurrada para o dia da prova', () => {
+        const examDay = toDayKey(days(20));
+        const settings = {
+            srsAlgorithm: 'legacy',
+            loadBalancing: config,
+            targetExams: [{ id: 'e1', name: 'Prova', date: examDay, subjects: [{ subject: 'Direito Penal', weight: 1 }] }],
+        } as unknown as AppSettings;
+        const item = { id: 'q1', subject: 'Direito Penal', nextReviewDate: '', stability: 60, masteryScore: 80, totalAttempts: 3, attemptHistory: [] };
+        const result = { stability: 60, nextReviewDate: days(60).toISOString(), srsAlgorithm: 'legacy' } as SrsReviewResult;
+
+        // Todos os dias antes da prova cheios: sem o limite, o balanceador pulava para depois dela
+        registerDueLoad('test', Array.from({ length: 40 }, (_, i) => i).flatMap(i => Array(5).fill({ nextReviewDate: days(i).toISOString() })));
+
+        const adjusted = adjustForExam(item, result, settings, now);
+        expect(toDayKey(new Date(adjusted.nextReviewDate)) < examDay).toBe(true);
+
+        const balanced = balanceReviewResult(adjusted, settings, now, examDeadlineFor(item, 'legacy', settings, now));
+        expect(toDayKey(new Date(balanced.nextReviewDate)) < examDay).toBe(true);
+    });
+});
@@ -0,0 +1,321 @@
+import { AppSettings, Flashcard, FlashcardSiblingState, LoadBalancingConfig, Question, SrsItem } from '../../types';
+import { DAY_MS, SrsReviewResult } from './schedulerCore';
+import { expandSiblings, getSiblingKeys, getSiblingState, makeSiblingId, recomputeParentFromSiblings } from '../siblingService';
+import { getMasteryTier, getPriorityScore, getReviewStatus } from '../reviewStatusService';
+
+/**
+ * BALANCEAMENTO DE CARGA
+ * Camada sobre os agendadores: o intervalo continua sendo decidido pelo algoritmo,
+ * aqui só se escolhe o DIA (fuzz dentro de uma janela, respeitando o limite diário
+ * e as férias). Também planeja o deslocamento das férias e a recuperação de atrasos.
+ */
+
+/** Unidade agendável: questão, flashcard simples ou irmã (id virtual pai::chave). */
+export interface DueUnit {
+    id: string;
+    subject: string;
+    nextReviewDate: string;
+    masteryScore: number;
+}
+
+export interface DueShift {
+    id: string;
+    from: string;
+    to: string;
+}
+
+export interface DayPlan {
+    date: string; // YYYY-MM-DD
+    count: number; // itens movidos para o dia
+    load: number; // carga total prevista no dia (existentes + movidos)
+}
+
+export interface ShiftPlan {
+    shifts: DueShift[];
+    days: DayPlan[];
+}
+
+const MAX_SEARCH_DAYS = 60;
+
+export const toDayKey = (date: Date): string => {
+    const y = date.getFullYear();
+    const m = String(date.getMonth() + 1).padStart(2, '0');
+    const d = String(date.getDate()).padStart(2, '0');
+    return `${y}-${m}-${d}`;
+};
+
+const startOfDay = (date: Date) => {
+    const d = new Date(date);
+    d.setHours(0, 0, 0, 0);
+    return d;
+};
+
+/** Mesmo horário, `days` dias de calendário depois (respeita horário de verão). */
+const shiftDays = (date: Date, days: number) => {
+    const d = new Date(date);
+    d.setDate(d.getDate() + days);
+    return d;
+};
+
+const dayDiff = (from: Date, to: Date) => Math.round((startOfDay(to).getTime() - startOfDay(from).getTime()) / DAY_MS);
+
+export const isVacationDay = (dayKey: string, config?: LoadBalancingConfig): boolean => {
+    const vacation = config?.vacation;
+    if (!vacation?.start || !vacation?.end) return false;
+    return dayKey >= vacation.start && dayKey <= vacation.end;
+};
+
+const capOf = (config: LoadBalancingConfig) => (config.dailyCap > 0 ? config.dailyCap : Infinity);
+
+// --- Carga por dia ---
+// Os contextos registram suas datas de vencimento; as revisões da sessão atual
+// são somadas até o próximo registro (que já as inclui).
+
+const registeredLoads = new Map<string, Map<string, number>>();
+let sessionBumps = new Map<string, number>();
+
+export const countByDay = (units: { nextReviewDate: string }[]): Map<string, number> => {
+    const counts = new Map<string, number>();
+    units.forEach(unit => {
+        const due = new Date(unit.nextReviewDate);
+        if (isNaN(due.getTime())) return;
+        const key = toDayKey(due);
+        counts.set(key, (counts.get(key) || 0) + 1);
+    });
+    return counts;
+};
+
+export const registerDueLoad = (source: string, units: { nextReviewDate: string }[]) => {
+    registeredLoads.set(source, countByDay(units));
+    sessionBumps = new Map();
+};
+
+export const getDayLoad = (dayKey: string): number => {
+    let total = sessionBumps.get(dayKey) || 0;
+    registeredLoads.forEach(counts => { total += counts.get(dayKey) || 0; });
+    return total;
+};
+
+/** Unidades agendáveis (irmãs expandidas), sem itens nunca vistos nem disciplinas congeladas. */
+export const collectDueUnits = (questions: Question[], flashcards: Flashcard[], settings: AppSettings): DueUnit[] => {
+    const isFrozen = (subject: string) => !!settings.subjectConfigs?.[subject]?.isFrozen;
+    const units: DueUnit[] = [];
+    const add = (item: SrsItem, subject: string) => {
+        if (!item.totalAttempts || isFrozen(subject)) return;
+        units.push({ id: item.id, subject, nextReviewDate: item.nextReviewDate, masteryScore: item.masteryScore || 0 });
+    };
+    questions.forEach(q => add(q, q.subject));
+    flashcards.forEach(fc => expandSiblings(fc).forEach(card => add(card, fc.discipline)));
+    return units;
+};
+
+/**
+ * Escolhe o dia da próxima revisão. Intervalos curtos (< 2 dias) não sofrem fuzz;
+ * os demais sorteiam, entre os dias da janela abaixo do limite, um dos menos carregados.
+ * Se a janela toda estiver cheia ou em férias, avança até o primeiro dia livre.
+ * Com `before` (dia da prova), nenhum dia a partir dele é escolhido.
+ */
+export const pickBalancedDate = (
+    due: Date,
+    now: Date,
+    config: LoadBalancingConfig,
+    loadOf: (dayKey: string) => number = getDayLoad,
+    rng: () => number = Math.random,
+    before?: Date
+): Date => {
+    const interval = (due.getTime() - now.getTime()) / DAY_MS;
+    const cap = capOf(config);
+    const spread = interval >= 2 ? Math.max(1, Math.round(interval * config.fuzzPercent)) : 0;
+    const firstAllowed = interval >= 1 ? 1 : 0; // nunca traz para hoje uma revisão de outro dia
+    const limitKey = before ? toDayKey(before) : undefined;
+    const beforeLimit = (key: string) => !limitKey || key < limitKey;
+
+    const baseOffset = dayDiff(now, due);
+    const candidates: { date: Date; load: number }[] = [];
+    for (let off = Math.max(firstAllowed, baseOffset - spread); off <= baseOffset + spread; off++) {
+        const date = shiftDays(due, off - baseOffset);
+        const key = toDayKey(date);
+        if (isVacationDay(key, config) || !beforeLimit(key)) continue;
+        candidates.push({ date, load: loadOf(key) });
+    }
+
+    const open = candidates.filter(c => c.load < cap);
+    if (open.length > 0) {
+        const minLoad = Math.min(...open.map(c => c.load));
+        // Tolerância de 10% (mín. 1) para o sorteio não colar sempre no mesmo dia
+        const tolerance = Math.max(1, Math.round(minLoad * 0.1));
+        const best = open.filter(c => c.load <= minLoad + tolerance);
+        return best[Math.floor(rng() * best.length)].date;
+    }
+
+    for (let off = baseOffset + spread + 1; off <= baseOffset + spread + MAX_SEARCH_DAYS; off++) {
+        const date = shiftDays(due, off - baseOffset);
+        const key = toDayKey(date);
+        if (!beforeLimit(key)) break;
+        if (!isVacationDay(key, config) && loadOf(key) < cap) return date;
+    }
+
+    // Sem dia livre no horizonte: fica com o menos carregado da janela
+    if (candidates.length > 0) return candidates.reduce((a, b) => (b.load < a.load ? b : a)).date;
+    return due;
+};
+
+/**
+ * Aplica o balanceamento ao resultado de um agendador (chamado em calculateNewSrsState).
+ * `before` é o dia da prova-alvo: o ajuste de véspera não pode ser desfeito aqui.
+ */
+export const balanceReviewResult = (result: SrsReviewResult, settings: AppSettings, now: Date, before?: Date): SrsReviewResult => {
+    const config = settings.loadBalancing;
+    if (!config?.enabled) return result;
+
+    const due = new Date(result.nextReviewDate);
+    if (isNaN(due.getTime())) return result;
+
+    const picked = pickBalancedDate(due, now, config, getDayLoad, Math.random, before);
+    const key = toDayKey(picked);
+    sessionBumps.set(key, (sessionBumps.get(key) || 0) + 1);
+    return picked.getTime() === due.getTime() ? result : { ...result, nextReviewDate: picked.toISOString() };
+};
+
+/** Coloca `units` (já ordenadas) nos dias a partir de `firstDay`, respeitando limite e férias. */
+const fillDays = (
+    units: { unit: DueUnit; minOffset: number }[],
+    firstDay: Date,
+    config: LoadBalancingConfig,
+    baseLoad: Map<string, number>,
+    keepSameDay: boolean
+): ShiftPlan => {
+    const cap = capOf(config);
+    const added = new Map<string, number>();
+    const shifts: DueShift[] = [];
+
+    units.forEach(({ unit, minOffset }) => {
+        let off = minOffset;
+        let date = shiftDays(firstDay, off);
+        let key = toDayKey(date);
+        while (off < MAX_SEARCH_DAYS * 6 && (isVacationDay(key, config) || (baseLoad.get(key) || 0) + (added.get(key) || 0) >= cap)) {
+            off++;
+            date = shiftDays(firstDay, off);
+            key = toDayKey(date);
+        }
+        added.set(key, (added.get(key) || 0) + 1);
+
+        const original = new Date(unit.nextReviewDate);
+        if (keepSameDay && toDayKey(original) === key) return;
+        // Conserva o horário original para não mudar a janela de ouro do item
+        const target = new Date(date);
+        if (!isNaN(original.getTime())) target.setHours(original.getHours(), original.getMinutes(), 0, 0);
+        shifts.push({ id: unit.id, from: unit.nextReviewDate, to: target.toISOString() });
+    });
+
+    const days = Array.from(added.entries())
+        .sort(([a], [b]) => a.localeCompare(b))
+        .map(([date, count]) => ({ date, count, load: (baseLoad.get(date) || 0) + count }));
+
+    return { shifts, days };
+};
+
+/**
+ * Férias: tudo que vence dentro do período vai para depois da volta, mantendo a
+ * ordem e a distância relativa (o período é "esticado" sobre os dias seguintes,
+ * no mínimo a mesma duração, e mais se o limite diário exigir).
+ */
+export const planVacationShift = (units: DueUnit[], config: LoadBalancingConfig): ShiftPlan => {
+    const vacation = config.vacation;
+    if (!vacation?.start || !vacation?.end || vacation.end < vacation.start) return { shifts: [], days: [] };
+
+    const inside = units.filter(u => {
+        const due = new Date(u.nextReviewDate);
+        return !isNaN(due.getTime()) && isVacationDay(toDayKey(due), config);
+    });
+    if (inside.length === 0) return { shifts: [], days: [] };
+
+    const start = new Date(`${vacation.start}T00:00:00`);
+    const end = new Date(`${vacation.end}T00:00:00`);
+    const firstDay = shiftDays(end, 1);
+    const length = dayDiff(start, end) + 1;
+    const cap = capOf(config);
+    const stretch = Math.max(length, Number.isFinite(cap) ? Math.ceil(inside.length / cap) : length);
+
+    const remaining = units.filter(u => !inside.includes(u));
+    const baseLoad = countByDay(remaining);
+
+    const ordered = inside
+        .map(unit => {
+            const position = (new Date(unit.nextReviewDate).getTime() - start.getTime()) / (length * DAY_MS);
+            return { unit, minOffset: Math.min(stretch - 1, Math.max(0, Math.floor(position * stretch))) };
+        })
+        .sort((a, b) => a.minOffset - b.minOffset || a.unit.nextReviewDate.localeCompare(b.unit.nextReviewDate));
+
+    return fillDays(ordered, firstDay, config, baseLoad, false);
+};
+
+/** Prioridade de recuperação: mesma escala da fila (reviewStatusService). */
+export const recoveryPriority = (unit: DueUnit): number =>
+    getPriorityScore(getReviewStatus(unit.nextReviewDate), getMasteryTier(unit.masteryScore));
+
+/**
+ * Plano de recuperação de atrasos: os itens atrasados são ordenados pela prioridade
+ * (empate: o mais antigo primeiro) e distribuídos a partir de hoje, preenchendo a
+ * capacidade que sobra em cada dia. Sem limite diário, espalha em `spreadDays` dias.
+ * Os que cabem hoje não são alterados.
+ */
+export const planBacklogRecovery = (units: DueUnit[], config: LoadBalancingConfig, now: Date = new Date(), spreadDays = 7): ShiftPlan & { overdue: number } => {
+    const overdue = units.filter(u => getReviewStatus(u.nextReviewDate) === 'OVERDUE');
+    if (overdue.length === 0) return { shifts: [], days: [], overdue: 0 };
+
+    const effective: LoadBalancingConfig = config.dailyCap > 0
+        ? config
+        : { ...config, dailyCap: Math.ceil(overdue.length / Math.max(1, spreadDays)) };
+
+    // Carga de hoje inclui o que já vence hoje e não está atrasado
+    const todayKey = toDayKey(now);
+    const baseLoad = countByDay(units.filter(u => !overdue.includes(u)).map(u => {
+        const due = new Date(u.nextReviewDate);
+        return { nextReviewDate: !isNaN(due.getTime()) && due < now ? now.toISOString() : u.nextReviewDate };
+    }));
+    if (!baseLoad.has(todayKey)) baseLoad.set(todayKey, 0);
+
+    const ordered = overdue
+        .map(unit => ({ unit, priority: recoveryPriority(unit) }))
+        .sort((a, b) => b.priority - a.priority || a.unit.nextReviewDate.localeCompare(b.unit.nextReviewDate))
+        .map(({ unit }) => ({ unit, minOffset: 0 }));
+
+    const plan = fillDays(ordered, startOfDay(now), effective, baseLoad, false);
+    // O lote de hoje continua atrasado (mantém o rótulo e a ordem da fila)
+    plan.shifts = plan.shifts.filter(s => toDayKey(new Date(s.to)) !== todayKey);
+    return { ...plan, overdue: overdue.length };
+};
+
+/**
+ * Grava os deslocamentos: questões/flashcards simples mudam `nextReviewDate`;
+ * irmãs mudam o próprio estado e o pai é recalculado.
+ */
+export const applyDueShifts = <T extends SrsItem>(items: T[], shifts: DueShift[]): ({ id: string } & Partial<T>)[] => {
+    const byId = new Map(shifts.map(s => [s.id, s.to]));
+    const updates: ({ id: string } & Partial<T>)[] = [];
+
+    items.forEach(item => {
+        const keys = getSiblingKeys(item as unknown as Flashcard);
+        if (keys.length === 0) {
+            const to = byId.get(item.id);
+            if (to) updates.push({ id: item.id, nextReviewDate: to } as { id: string } & Partial<T>);
+            return;
+        }
+
+        const card = item as unknown as Flashcard;
+        const touched = keys.filter(k => byId.has(makeSiblingId(card.id, k)));
+        if (touched.length === 0) return;
+
+        const siblingStates: Record<string, FlashcardSiblingState> = {};
+        keys.forEach(k => {
+            const state = getSiblingState(card, k);
+            const to = byId.get(makeSiblingId(card.id, k));
+            siblingStates[k] = to ? { ...state, nextReviewDate: to } : state;
+        });
+        const recomputed = recomputeParentFromSiblings({ ...card, siblingStates });
+        updates.push({ id: card.id, siblingStates, nextReviewDate: recomputed.nextReviewDate } as unknown as { id: string } & Partial<T>);
+    });
+
+    return updates;
+};
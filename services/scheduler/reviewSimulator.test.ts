@@ -0,0 +1,66 @@
+import { describe, it, expect } from 'vitest';
+import { AppSettings, Question } from '../../types';
+import { daysUntilExam, ForecastOptions, simulateReviewLoad } from './reviewSimulator';
+
+const settings = {
+    srsAlgorithm: 'legacy',
+    srsV2: {
+        time_target_sec: 60, alpha_easy: 2.5, alpha_good: 1.8, alpha_hard: 1.2, gamma_fail: 0.5, rt_fast: 0.7, rt_slow: 1.5, k_rt_bonus: 0.1,
+        k_long_gap: 0.2, target_R: 0.9, min_interval_days: 1, max_hot_days: 3, S_default_days: 1, cap_S_days: 365, enableRetrievabilityCheck: false,
+    },
+    fsrs: { requestRetention: 0.9 },
+    target_sec_default: 60,
+    subjectConfigs: {},
+} as unknown as AppSettings;
+
+const now = new Date('2026-03-01T10:00:00');
+const day = (n: number) => new Date(now.getTime() + n * 86400000).toISOString();
+
+const questions = Array.from({ length: 40 }, (_, i) => ({
+    id: `q${i}`,
+    subject: i % 2 ? 'Direito Penal' : 'Direito Constitucional',
+    stability: 1 + (i % 9),
+    difficulty: 0.5,
+    masteryScore: 50,
+    totalAttempts: i % 5 === 0 ? 0 : 3,
+    lastReviewedAt: i % 5 === 0 ? undefined : day(-(i % 4)),
+    nextReviewDate: day(i % 6),
+    timeSec: 30 + i,
+    attemptHistory: [],
+} as unknown as Question));
+
+const options: ForecastOptions = { days: 30, scheduler: 'configured', requestRetention: 0.9, newPerDay: 3, includeHypotheticalNew: true, runs: 3, now };
+
+describe('simulateReviewLoad', () => {
+    it('mesmas entradas, mesma projeção (sementes fixas)', () => {
+        const first = simulateReviewLoad(questions, [], settings, options);
+        const second = simulateReviewLoad(questions, [], settings, options);
+        expect(second).toEqual(first);
+        expect(first.days).toHaveLength(30);
+        expect(first.days[0].date).toBe('2026-03-01');
+        expect(first.totals.reviews).toBeGreaterThan(0);
+    });
+
+    it('não altera os itens de entrada', () => {
+        const before = structuredClone(questions);
+        simulateReviewLoad(questions, [], settings, options);
+        expect(questions).toEqual(before);
+    });
+
+    it('itens novos entram no ritmo configurado e depois viram hipotéticos', () => {
+        const forecast = simulateReviewLoad(questions, [], settings, { ...options, runs: 1 });
+        expect(forecast.days.every(d => d.newItems === 3)).toBe(true);
+        expect(forecast.subjects.map(s => s.subject)).toContain('(novos a importar)');
+
+        const noHypothetical = simulateReviewLoad(questions, [], settings, { ...options, runs: 1, includeHypotheticalNew: false });
+        expect(noHypothetical.totals.newItems).toBe(questions.filter(q => !q.totalAttempts).length);
+    });
+});
+
+describe('daysUntilExam', () => {
+    it('conta dias de calendário e ignora datas passadas', () => {
+        expect(daysUntilExam('2026-03-11T12:00:00', now)).toBe(10);
+        expect(daysUntilExam('2026-02-20T12:00:00', now)).toBeNull();
+        expect(daysUntilExam(undefined, now)).toBeNull();
+    });
+});
@@ -0,0 +1,390 @@
+import { AppSettings, Flashcard, Question, SrsAlgorithmId, SrsItem, TargetExam } from '../../types';
+import { DAY_MS } from './schedulerCore';
+import { getScheduler, resolveSchedulerId } from './index';
+import { expandSiblings } from '../siblingService';
+import { adjustForExam, daysUntil, examStart, getNextExamDate } from './examTargets';
+import { normalizeDiscipline } from '../taxonomyService';
+
+/**
+ * SIMULADOR DE CARGA DE REVISÕES
+ * Projeta, dia a dia, quantas revisões vencem, quanto tempo elas custam e a retenção
+ * esperada por disciplina, reexecutando o agendador com acertos sorteados pela
+ * própria retenção prevista (Monte Carlo com semente fixa = resultado estável).
+ */
+
+export interface ForecastOptions {
+    days: number;
+    /** 'configured' usa o algoritmo de cada disciplina; os demais forçam um para comparação. */
+    scheduler: SrsAlgorithmId | 'configured';
+    /** Retenção desejada (aplicada ao FSRS; o Clássico agenda pela própria estabilidade). */
+    requestRetention: number;
+    newPerDay: number;
+    /** Depois de esgotar os itens nunca vistos, continua com itens hipotéticos (conteúdo a importar). */
+    includeHypotheticalNew: boolean;
+    runs?: number;
+    now?: Date;
+}
+
+export interface ForecastDay {
+    date: string; // YYYY-MM-DD
+    reviews: number;
+    newItems: number;
+    minutes: number;
+}
+
+export interface SubjectForecast {
+    subject: string;
+    items: number;
+    reviews: number;
+    minutes: number;
+    retentionNow: number;
+    retentionAtEnd: number;
+}
+
+export interface ReviewForecast {
+    days: ForecastDay[];
+    subjects: SubjectForecast[];
+    totals: { reviews: number; newItems: number; minutes: number; peakReviews: number; peakDate: string };
+    endDate: string;
+    endsAtExam: boolean;
+}
+
+interface SimItem {
+    state: SrsItem;
+    subject: string;
+    timeSec: number;
+    schedulerId: SrsAlgorithmId;
+    isNew: boolean;
+}
+
+const HYPOTHETICAL_SUBJECT = '(novos a importar)';
+
+const startOfDay = (date: Date) => {
+    const d = new Date(date);
+    d.setHours(0, 0, 0, 0);
+    return d;
+};
+
+const toDateKey = (date: Date) => {
+    const y = date.getFullYear();
+    const m = String(date.getMonth() + 1).padStart(2, '0');
+    const d = String(date.getDate()).padStart(2, '0');
+    return `${y}-${m}-${d}`;
+};
+
+const makeRng = (seed: number) => () => (seed = (seed * 16807) % 2147483647) / 2147483647;
+
+/** Tempo médio por revisão do item: avgTimeSec > média do histórico > timeSec > padrão. */
+export const estimateItemSeconds = (item: Question | Flashcard, fallback: number): number => {
+    const avg = (item as Flashcard).avgTimeSec;
+    if (avg && avg > 0) return avg;
+    const times = (item.attemptHistory || []).map(a => a.timeSec).filter(t => t > 0);
+    if (times.length > 0) return times.reduce((a, b) => a + b, 0) / times.length;
+    if (item.timeSec && item.timeSec > 0) return item.timeSec;
+    return fallback;
+};
+
+/**
+ * Dias até a prova (mínimo 1), ou null se não houver data futura.
+ */
+export const daysUntilExam = (examDate: string | undefined, now: Date = new Date()): number | null => {
+    if (!examDate) return null;
+    const exam = startOfDay(new Date(examDate)).getTime();
+    if (isNaN(exam)) return null;
+    const diff = Math.round((exam - startOfDay(now).getTime()) / DAY_MS);
+    return diff > 0 ? diff : null;
+};
+
+const buildSimItems = (questions: Question[], flashcards: Flashcard[], settings: AppSettings, options: ForecastOptions): SimItem[] => {
+    const isFrozen = (subject: string) => !!settings.subjectConfigs?.[subject]?.isFrozen;
+    const fallbackSec = settings.target_sec_default || 60;
+    const items: SimItem[] = [];
+
+    const add = (item: Question | Flashcard, subject: string, seconds: number) => {
+        if (isFrozen(subject)) return;
+        items.push({
+            state: { ...item, attemptHistory: [] },
+            subject: subject || '(sem disciplina)',
+            timeSec: seconds,
+            schedulerId: options.scheduler === 'configured' ? resolveSchedulerId(item, settings) : options.scheduler,
+            isNew: !item.totalAttempts
+        });
+    };
+
+    questions.forEach(q => add(q, q.subject, estimateItemSeconds(q, fallbackSec)));
+    flashcards.forEach(fc => {
+        const seconds = estimateItemSeconds(fc, fallbackSec);
+        expandSiblings(fc).forEach(card => add(card, fc.discipline, seconds));
+    });
+
+    return items;
+};
+
+const simulateRun = (baseItems: SimItem[], settings: AppSettings, options: ForecastOptions, seed: number) => {
+    const rng = makeRng(seed);
+    const now = options.now || new Date();
+    const today = startOfDay(now);
+    const simSettings: AppSettings = { ...settings, fsrs: { ...settings.fsrs!, requestRetention: options.requestRetention } };
+
+    const dayIndexOf = (iso: string) => {
+        const t = new Date(iso).getTime();
+        if (isNaN(t)) return 0;
+        return Math.max(0, Math.floor((t - today.getTime()) / DAY_MS));
+    };
+
+    const buckets: SimItem[][] = Array.from({ length: options.days }, () => []);
+    const newPool: SimItem[] = [];
+    const items = baseItems.map(item => ({ ...item, state: { ...item.state } }));
+
+    items.forEach(item => {
+        if (item.isNew) {
+            newPool.push(item);
+            return;
+        }
+        const idx = dayIndexOf(item.state.nextReviewDate);
+        if (idx < options.days) buckets[idx].push(item);
+    });
+
+    const days: ForecastDay[] = [];
+    const perSubject = new Map<string, { reviews: number; minutes: number }>();
+    const hypotheticalSeconds = settings.target_sec_default || 60;
+    let hypotheticalCount = 0;
+    let poolCursor = 0;
+
+    for (let d = 0; d < options.days; d++) {
+        const dayDate = new Date(today.getTime() + d * DAY_MS);
+        // Revisões simuladas no meio do dia (hoje: a partir de agora)
+        const reviewAt = d === 0 ? now : new Date(dayDate.getTime() + DAY_MS / 2);
+
+        const introduced: SimItem[] = [];
+        for (let n = 0; n < options.newPerDay; n++) {
+            const next = newPool[poolCursor++];
+            if (next) {
+                introduced.push(next);
+            } else if (options.includeHypotheticalNew) {
+                hypotheticalCount++;
+                introduced.push({
+                    state: { id: `sim_${hypotheticalCount}`, nextReviewDate: reviewAt.toISOString(), stability: settings.srsV2.S_default_days, masteryScore: 0, totalAttempts: 0, attemptHistory: [] },
+                    subject: HYPOTHETICAL_SUBJECT,
+                    timeSec: hypotheticalSeconds,
+                    schedulerId: options.scheduler === 'configured' ? (settings.srsAlgorithm || 'legacy') : options.scheduler,
+                    isNew: true
+                });
+                items.push(introduced[introduced.length - 1]);
+            } else {
+                break;
+            }
+        }
+
+        const due = [...buckets[d], ...introduced];
+        let minutes = 0;
+
+        due.forEach(item => {
+            const scheduler = getScheduler(item.schedulerId);
+            const R = item.state.totalAttempts ? scheduler.retrievability(item.state, reviewAt) : 0;
+            // Primeiro contato: acerto ~ chute informado (50%)
+            const ok = rng() < (item.state.totalAttempts ? R : 0.5);
+            const result = adjustForExam(item.state, scheduler.review(item.state, ok, ok ? 2 : 0, item.timeSec, simSettings, reviewAt), simSettings, reviewAt, item.subject);
+            item.state = { ...item.state, ...result, totalAttempts: (item.state.totalAttempts || 0) + 1 };
+            item.isNew = false;
+
+            const cost = item.timeSec / 60;
+            minutes += cost;
+            const agg = perSubject.get(item.subject) || { reviews: 0, minutes: 0 };
+            agg.reviews++;
+            agg.minutes += cost;
+            perSubject.set(item.subject, agg);
+
+            const nextIdx = Math.max(d + 1, dayIndexOf(result.nextReviewDate));
+            if (nextIdx < options.days) buckets[nextIdx].push(item);
+        });
+
+        days.push({ date: toDateKey(dayDate), reviews: due.length, newItems: introduced.length, minutes });
+    }
+
+    const endDate = new Date(today.getTime() + options.days * DAY_MS);
+    return { days, perSubject, items, endDate };
+};
+
+/**
+ * Projeção de carga para os próximos `options.days` dias.
+ * A retenção por disciplina é a média da retenção prevista de todos os itens
+ * (não vistos contam 0) hoje e no fim do horizonte (tipicamente a data da prova).
+ */
+export const simulateReviewLoad = (
+    questions: Question[],
+    flashcards: Flashcard[],
+    settings: AppSettings,
+    options: ForecastOptions
+): ReviewForecast => {
+    const now = options.now || new Date();
+    const runs = Math.max(1, options.runs ?? 3);
+    const baseItems = buildSimItems(questions, flashcards, settings, options);
+
+    const days: ForecastDay[] = [];
+    const subjectAgg = new Map<string, SubjectForecast>();
+    let endDate = now;
+
+    const retentionOf = (item: SimItem, at: Date) => item.state.totalAttempts ? getScheduler(item.schedulerId).retrievability(item.state, at) : 0;
+
+    baseItems.forEach(item => {
+        const entry = subjectAgg.get(item.subject) || { subject: item.subject, items: 0, reviews: 0, minutes: 0, retentionNow: 0, retentionAtEnd: 0 };
+        entry.items++;
+        entry.retentionNow += retentionOf(item, now);
+        subjectAgg.set(item.subject, entry);
+    });
+
+    for (let r = 0; r < runs; r++) {
+        const run = simulateRun(baseItems, settings, options, 1234 + r * 7919);
+        endDate = run.endDate;
+
+        run.days.forEach((day, i) => {
+            if (!days[i]) days[i] = { date: day.date, reviews: 0, newItems: 0, minutes: 0 };
+            days[i].reviews += day.reviews / runs;
+            days[i].newItems += day.newItems / runs;
+            days[i].minutes += day.minutes / runs;
+        });
+
+        run.perSubject.forEach((agg, subject) => {
+            const entry = subjectAgg.get(subject) || { subject, items: 0, reviews: 0, minutes: 0, retentionNow: 0, retentionAtEnd: 0 };
+            entry.reviews += agg.reviews / runs;
+            entry.minutes += agg.minutes / runs;
+            subjectAgg.set(subject, entry);
+        });
+
+        const endCounts = new Map<string, number>();
+        run.items.forEach(item => {
+            const entry = subjectAgg.get(item.subject);
+            if (!entry) return;
+            entry.retentionAtEnd += retentionOf(item, run.endDate) / runs;
+            endCounts.set(item.subject, (endCounts.get(item.subject) || 0) + 1);
+        });
+        // Itens hipotéticos só existem na simulação
+        const hypothetical = subjectAgg.get(HYPOTHETICAL_SUBJECT);
+        if (hypothetical) hypothetical.items = Math.max(hypothetical.items, endCounts.get(HYPOTHETICAL_SUBJECT) || 0);
+    }
+
+    const subjects = Array.from(subjectAgg.values()).map(s => ({
+        ...s,
+        retentionNow: s.items > 0 ? s.retentionNow / s.items : 0,
+        retentionAtEnd: s.items > 0 ? s.retentionAtEnd / s.items : 0
+    })).sort((a, b) => b.minutes - a.minutes);
+
+    const peak = days.reduce((best, day) => day.reviews > best.reviews ? day : best, days[0] || { date: '', reviews: 0, newItems: 0, minutes: 0 });
+    const examDays = daysUntilExam(getNextExamDate(settings, now), now);
+
+    return {
+        days,
+        subjects,
+        totals: {
+            reviews: days.reduce((sum, d) => sum + d.reviews, 0),
+            newItems: days.reduce((sum, d) => sum + d.newItems, 0),
+            minutes: days.reduce((sum, d) => sum + d.minutes, 0),
+            peakReviews: peak.reviews,
+            peakDate: peak.date
+        },
+        endDate: toDateKey(endDate),
+        endsAtExam: examDays !== null && examDays === options.days
+    };
+};
+
+export interface ExamSubjectReadiness {
+    subject: string;
+    weight: number;
+    items: number;
+    retentionNow: number;
+    /** Retenção no dia da prova se nada mais for revisado. */
+    retentionNoReview: number;
+    /** Retenção no dia da prova seguindo as revisões agendadas. */
+    retentionPlanned: number;
+}
+
+export interface ExamReadiness {
+    exam: TargetExam;
+    daysLeft: number;
+    subjects: ExamSubjectReadiness[];
+    /** Médias ponderadas pelos pesos do edital. */
+    weightedNoReview: number;
+    weightedPlanned: number;
+}
+
+/**
+ * Retenção prevista por disciplina no dia da prova: sem revisar (só decaimento)
+ * e seguindo a agenda (simulação até a data, sem conteúdo novo).
+ */
+export const predictExamReadiness = (
+    questions: Question[],
+    flashcards: Flashcard[],
+    settings: AppSettings,
+    exam: TargetExam,
+    now: Date = new Date()
+): ExamReadiness => {
+    const daysLeft = Math.max(0, daysUntil(exam, now));
+    const examAt = examStart(exam);
+    const keys = new Map(exam.subjects.map(s => [normalizeDiscipline(s.subject), s]));
+
+    const examQuestions = questions.filter(q => keys.has(normalizeDiscipline(q.subject)));
+    const examFlashcards = flashcards.filter(fc => keys.has(normalizeDiscipline(fc.discipline)));
+
+    const decay = new Map<string, { items: number; now: number; atExam: number }>();
+    const addDecay = (item: SrsItem, subject: string) => {
+        if (settings.subjectConfigs?.[subject]?.isFrozen) return;
+        const key = normalizeDiscipline(subject);
+        const entry = decay.get(key) || { items: 0, now: 0, atExam: 0 };
+        const scheduler = getScheduler(item.srsAlgorithm);
+        entry.items++;
+        if (item.totalAttempts) {
+            entry.now += scheduler.retrievability(item, now);
+            entry.atExam += scheduler.retrievability(item, examAt);
+        }
+        decay.set(key, entry);
+    };
+    examQuestions.forEach(q => addDecay(q, q.subject));
+    examFlashcards.forEach(fc => expandSiblings(fc).forEach(card => addDecay(card, fc.discipline)));
+
+    const planned = new Map<string, { items: number; sum: number }>();
+    if (daysLeft > 0) {
+        const forecast = simulateReviewLoad(examQuestions, examFlashcards, settings, {
+            days: daysLeft,
+            scheduler: 'configured',
+            requestRetention: settings.fsrs?.requestRetention ?? 0.9,
+            newPerDay: 0,
+            includeHypotheticalNew: false,
+            runs: 2,
+            now
+        });
+        forecast.subjects.forEach(s => {
+            const key = normalizeDiscipline(s.subject);
+            const entry = planned.get(key) || { items: 0, sum: 0 };
+            entry.items += s.items;
+            entry.sum += s.retentionAtEnd * s.items;
+            planned.set(key, entry);
+        });
+    }
+
+    const subjects = Array.from(keys.entries()).map(([key, s]) => {
+        const d = decay.get(key);
+        const p = planned.get(key);
+        const noReview = d && d.items > 0 ? d.atExam / d.items : 0;
+        return {
+            subject: s.subject,
+            weight: s.weight,
+            items: d?.items || 0,
+            retentionNow: d && d.items > 0 ? d.now / d.items : 0,
+            retentionNoReview: noReview,
+            retentionPlanned: p && p.items > 0 ? p.sum / p.items : noReview
+        };
+    });
+
+    const totalWeight = subjects.reduce((sum, s) => sum + (s.items > 0 ? s.weight : 0), 0);
+    const weighted = (pick: (s: ExamSubjectReadiness) => number) =>
+        totalWeight > 0 ? subjects.reduce((sum, s) => sum + (s.items > 0 ? s.weight * pick(s) : 0), 0) / totalWeight : 0;
+
+    return {
+        exam,
+        daysLeft,
+        subjects,
+        weightedNoReview: weighted(s => s.retentionNoReview),
+        weightedPlanned: weighted(s => s.retentionPlanned)
+    };
+};
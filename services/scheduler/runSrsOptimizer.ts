@@ -0,0 +1,52 @@
+import { fitLegacyParams, OptimizerResult, ReviewSequence } from './srsOptimizer';
+import { LegacyParams } from './legacyScheduler';
+import type { OptimizerWorkerMessage, OptimizerWorkerRequest } from './srsOptimizer.worker';
+
+/**
+ * Executa o otimizador em um Web Worker (históricos grandes não travam a UI).
+ * Sem suporte a Worker, cai para o thread principal.
+ */
+export const runSrsOptimizer = (
+    sequences: ReviewSequence[],
+    current: LegacyParams,
+    capDays: number,
+    onProgress?: (progress: number, logLoss: number) => void
+): { promise: Promise<OptimizerResult>; cancel: () => void } => {
+    if (typeof Worker === 'undefined') {
+        return {
+            promise: new Promise(resolve => setTimeout(() => resolve(fitLegacyParams(sequences, current, capDays, onProgress)), 0)),
+            cancel: () => {}
+        };
+    }
+
+    const worker = new Worker(new URL('./srsOptimizer.worker.ts', import.meta.url), { type: 'module' });
+    let rejectRun: (reason: Error) => void = () => {};
+
+    const promise = new Promise<OptimizerResult>((resolve, reject) => {
+        rejectRun = reject;
+        worker.onmessage = (e: MessageEvent<OptimizerWorkerMessage>) => {
+            const msg = e.data;
+            if (msg.type === 'progress') {
+                onProgress?.(msg.progress, msg.logLoss);
+                return;
+            }
+            worker.terminate();
+            if (msg.type === 'done') resolve(msg.result);
+            else reject(new Error(msg.message));
+        };
+        worker.onerror = (e) => {
+            worker.terminate();
+            reject(new Error(e.message || 'Falha no worker do otimizador.'));
+        };
+        const request: OptimizerWorkerRequest = { sequences, current, capDays };
+        worker.postMessage(request);
+    });
+
+    return {
+        promise,
+        cancel: () => {
+            worker.terminate();
+            rejectRun(new Error('Otimização cancelada.'));
+        }
+    };
+};
@@ -0,0 +1,75 @@
+import { AppSettings, Attempt, SrsAlgorithmId, SrsItem } from '../../types';
+
+/**
+ * CONTRATO DOS AGENDADORES (SRS)
+ * Todo agendador trabalha com a mesma escala de estado, para que filas, mapas e
+ * estatísticas não precisem saber qual algoritmo gerou o item:
+ * - stability: dias (intervalo com ~R alvo)
+ * - difficulty: 0..1 (0 = fácil, 1 = difícil)
+ */
+
+export const DAY_MS = 86400000;
+
+export const GRADES = ['again', 'hard', 'good', 'easy'] as const;
+
+export interface SrsReviewResult {
+    stability: number;
+    difficulty: number;
+    masteryScore: number;
+    nextReviewDate: string;
+    lastReviewedAt: string;
+    timingClass: string;
+    targetSec: number;
+    grade: string;
+    lastWasCorrect: boolean;
+    srsAlgorithm: SrsAlgorithmId;
+}
+
+export interface SrsScheduler {
+    id: SrsAlgorithmId;
+    label: string;
+    description: string;
+    /** Nova revisão. `rating`: 0 = again, 1 = hard, 2 = good, 3 = easy. */
+    review: (item: SrsItem, wasCorrect: boolean, rating: number, timeTaken: number, settings: AppSettings, now: Date) => SrsReviewResult;
+    /** Probabilidade estimada de lembrar o item em `now` (0..1). */
+    retrievability: (item: SrsItem, now: Date) => number;
+}
+
+/** Rating 0-3 de uma tentativa gravada (grade > selfEvalLevel > acerto). */
+export const ratingFromAttempt = (attempt: Attempt): number => {
+    const fromGrade = attempt.grade ? GRADES.indexOf(attempt.grade as typeof GRADES[number]) : -1;
+    if (fromGrade >= 0) return fromGrade;
+    if (typeof attempt.selfEvalLevel === 'number') return Math.max(0, Math.min(3, attempt.selfEvalLevel));
+    return attempt.wasCorrect ? 2 : 0;
+};
+
+export const addDays = (date: Date, days: number): Date => new Date(date.getTime() + days * DAY_MS);
+
+export const elapsedDays = (item: SrsItem, now: Date): number => {
+    if (!item.lastReviewedAt) return 0;
+    const last = new Date(item.lastReviewedAt).getTime();
+    if (isNaN(last)) return 0;
+    return Math.max(0, (now.getTime() - last) / DAY_MS);
+};
+
+export const classifyTimingLocal = (timeTaken: number): string => {
+    if (timeTaken < 5) return 'RUSH';
+    if (timeTaken > 60) return 'SLOW';
+    return 'OK';
+};
+
+/**
+ * Maestria (0-100) derivada da estabilidade em escala log até 1 ano,
+ * descontada pela dificuldade. Comum a todos os agendadores.
+ */
+export const masteryFromState = (stability: number, difficulty: number, wasCorrect: boolean): number => {
+    let masteryScore = 0;
+    if (stability <= 1) {
+        masteryScore = wasCorrect ? 15 : 0;
+    } else {
+        masteryScore = Math.min(100, (Math.log(stability) / Math.log(365)) * 100);
+        if (masteryScore < 20 && wasCorrect) masteryScore = 20;
+    }
+    masteryScore = masteryScore * (1 - (difficulty * 0.2));
+    return Math.max(0, Math.min(100, masteryScore));
+};
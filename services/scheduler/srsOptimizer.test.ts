@@ -0,0 +1,71 @@
+import { describe, it, expect } from 'vitest';
+import { Attempt } from '../../types';
+import { DAY_MS } from './schedulerCore';
+import { legacyStep, LegacyParams } from './legacyScheduler';
+import { collectReviewSequences, evaluateParams, fitLegacyParams, ReviewSequence } from './srsOptimizer';
+
+const TRUE_PARAMS: LegacyParams = { alpha_easy: 0.6, alpha_good: 0.4, alpha_hard: 0.2, gamma_fail: 0.4, k_rt_bonus: 0.1, S_default_days: 2 };
+const START = Date.parse('2026-01-01T12:00:00Z');
+const GAPS = [1, 2, 4, 7, 12, 20, 30];
+
+const makeRng = (seed: number) => () => (seed = (seed * 16807) % 2147483647) / 2147483647;
+
+/** Sequências sorteadas com a retenção do próprio modelo sob `params` (dados "verdadeiros"). */
+const simulate = (params: LegacyParams, count: number, seed = 42): ReviewSequence[] => {
+    const rng = makeRng(seed);
+    return Array.from({ length: count }, () => {
+        let S = params.S_default_days;
+        let D = 0.5;
+        let t = START;
+        const seq: ReviewSequence = [];
+        GAPS.forEach((gap, i) => {
+            const R = i === 0 ? 0 : Math.exp(-gap / S);
+            const ok = i === 0 ? rng() < 0.5 : rng() < R;
+            t += i === 0 ? 0 : gap * DAY_MS;
+            seq.push({ t, ok, rating: ok ? 2 : 0, timeSec: 30 });
+            ({ S, D } = legacyStep(S, D, R, ok, ok ? 2 : 0, 30, params, 365));
+        });
+        return seq;
+    });
+};
+
+describe('collectReviewSequences', () => {
+    it('separa por irmã, ordena por data e descarta sequências de uma tentativa', () => {
+        const attempt = (date: string, wasCorrect: boolean, siblingKey?: string) =>
+            ({ date, wasCorrect, siblingKey, timeSec: 10, selfEvalLevel: wasCorrect ? 2 : 0, masteryAfter: 0, stabilityAfter: 0 } as Attempt);
+        const sequences = collectReviewSequences([
+            { attemptHistory: [attempt('2026-01-03', true, 'c1'), attempt('2026-01-01', false, 'c1'), attempt('2026-01-02', true, 'c2')] },
+            { attemptHistory: [attempt('2026-01-01', true)] },
+        ]);
+        expect(sequences).toHaveLength(1);
+        expect(sequences[0].map(e => e.ok)).toEqual([false, true]);
+    });
+});
+
+describe('fitLegacyParams', () => {
+    it('reduz o log-loss de parâmetros mal calibrados e nunca piora durante a busca', () => {
+        const sequences = simulate(TRUE_PARAMS, 120);
+        const poor: LegacyParams = { alpha_easy: 1.8, alpha_good: 1.4, alpha_hard: 0.9, gamma_fail: 0.9, k_rt_bonus: 0, S_default_days: 8 };
+        const losses: number[] = [];
+
+        const result = fitLegacyParams(sequences, poor, 365, (_, logLoss) => losses.push(logLoss));
+
+        expect(result.samples).toBe(120 * (GAPS.length - 1));
+        expect(result.after.logLoss).toBeLessThan(result.before.logLoss * 0.9);
+        expect(losses.every((loss, i) => i === 0 || loss <= losses[i - 1])).toBe(true);
+        // Chega perto do log-loss dos parâmetros que geraram os dados
+        expect(result.after.logLoss).toBeLessThan(evaluateParams(sequences, TRUE_PARAMS, 365).logLoss + 0.05);
+    });
+
+    it('calibração: os baldes somam todas as amostras', () => {
+        const sequences = simulate(TRUE_PARAMS, 30, 7);
+        const evaluation = evaluateParams(sequences, TRUE_PARAMS, 365, true);
+        expect(evaluation.buckets).toHaveLength(10);
+        expect(evaluation.buckets.reduce((sum, b) => sum + b.count, 0)).toBe(evaluation.samples);
+    });
+
+    it('sem amostras, devolve os parâmetros atuais', () => {
+        const result = fitLegacyParams([], TRUE_PARAMS, 365);
+        expect(result).toMatchObject({ iterations: 0, samples: 0, fitted: TRUE_PARAMS });
+    });
+});
@@ -0,0 +1,205 @@
+import { AppSettings, Attempt } from '../../types';
+import { DAY_MS, ratingFromAttempt } from './schedulerCore';
+import { legacyStep, LegacyParams } from './legacyScheduler';
+
+/**
+ * OTIMIZADOR DE PARÂMETROS (srsV2)
+ * Reexecuta o histórico de tentativas com o modelo clássico e ajusta as constantes
+ * para minimizar o log-loss entre a retenção prevista (R antes de cada revisão)
+ * e o acerto real. Puro: roda igual no worker e no thread principal.
+ */
+
+export interface ReviewEvent {
+    t: number; // timestamp (ms)
+    ok: boolean;
+    rating: number;
+    timeSec: number;
+}
+
+export type ReviewSequence = ReviewEvent[];
+
+export const OPTIMIZABLE_PARAMS: (keyof LegacyParams)[] = ['alpha_easy', 'alpha_good', 'alpha_hard', 'gamma_fail', 'k_rt_bonus', 'S_default_days'];
+
+const PARAM_BOUNDS: Record<keyof LegacyParams, [number, number]> = {
+    alpha_easy: [0.02, 2],
+    alpha_good: [0.02, 1.5],
+    alpha_hard: [0.01, 1],
+    gamma_fail: [0.05, 0.95],
+    k_rt_bonus: [0, 0.5],
+    S_default_days: [0.2, 10]
+};
+
+const BUCKETS = 10;
+const EPS = 1e-4;
+// Abaixo disso o ajuste tende a decorar o próprio histórico
+export const MIN_RELIABLE_SAMPLES = 200;
+
+export interface CalibrationBucket {
+    from: number;
+    to: number;
+    predicted: number; // R médio previsto
+    actual: number; // taxa de acerto observada
+    count: number;
+}
+
+export interface ParamEvaluation {
+    logLoss: number;
+    samples: number;
+    buckets: CalibrationBucket[];
+}
+
+export interface OptimizerResult {
+    sequences: number;
+    samples: number;
+    current: LegacyParams;
+    fitted: LegacyParams;
+    before: ParamEvaluation;
+    after: ParamEvaluation;
+    iterations: number;
+}
+
+export const pickLegacyParams = (srsV2: AppSettings['srsV2']): LegacyParams => ({
+    alpha_easy: srsV2.alpha_easy,
+    alpha_good: srsV2.alpha_good,
+    alpha_hard: srsV2.alpha_hard,
+    gamma_fail: srsV2.gamma_fail,
+    k_rt_bonus: srsV2.k_rt_bonus,
+    S_default_days: srsV2.S_default_days
+});
+
+/**
+ * Extrai as sequências de revisão (uma por item, ou por irmã em cloze/oclusão).
+ * Sequências com uma única tentativa não geram previsão e são descartadas.
+ */
+export const collectReviewSequences = (sources: { attemptHistory?: Attempt[] }[]): ReviewSequence[] => {
+    const sequences: ReviewSequence[] = [];
+
+    sources.forEach(source => {
+        const history = source.attemptHistory;
+        if (!Array.isArray(history) || history.length < 2) return;
+
+        const byKey = new Map<string, ReviewEvent[]>();
+        history.forEach(attempt => {
+            const t = new Date(attempt.date).getTime();
+            if (isNaN(t)) return;
+            const key = attempt.siblingKey || '';
+            const list = byKey.get(key) || [];
+            list.push({ t, ok: !!attempt.wasCorrect, rating: ratingFromAttempt(attempt), timeSec: attempt.timeSec || 0 });
+            byKey.set(key, list);
+        });
+
+        byKey.forEach(list => {
+            if (list.length >= 2) sequences.push(list.sort((a, b) => a.t - b.t));
+        });
+    });
+
+    return sequences;
+};
+
+const emptyBuckets = (): CalibrationBucket[] =>
+    Array.from({ length: BUCKETS }, (_, i) => ({ from: i / BUCKETS, to: (i + 1) / BUCKETS, predicted: 0, actual: 0, count: 0 }));
+
+/**
+ * Log-loss médio das previsões do modelo com `params` sobre todas as sequências.
+ * Com `withBuckets`, também devolve a calibração (previsto x real por faixa).
+ */
+export const evaluateParams = (sequences: ReviewSequence[], params: LegacyParams, capDays: number, withBuckets = false): ParamEvaluation => {
+    let loss = 0;
+    let samples = 0;
+    const buckets = withBuckets ? emptyBuckets() : [];
+
+    for (const seq of sequences) {
+        let S = params.S_default_days;
+        let D = 0.5;
+        let last = -1;
+
+        for (const ev of seq) {
+            let R = 0;
+            if (last >= 0) {
+                R = Math.exp(-Math.max(0, (ev.t - last) / DAY_MS) / S);
+                const p = Math.min(1 - EPS, Math.max(EPS, R));
+                loss -= ev.ok ? Math.log(p) : Math.log(1 - p);
+                samples++;
+
+                if (withBuckets) {
+                    const bucket = buckets[Math.min(BUCKETS - 1, Math.floor(R * BUCKETS))];
+                    bucket.predicted += R;
+                    bucket.actual += ev.ok ? 1 : 0;
+                    bucket.count++;
+                }
+            }
+            const next = legacyStep(S, D, R, ev.ok, ev.rating, ev.timeSec, params, capDays);
+            S = next.S;
+            D = next.D;
+            last = ev.t;
+        }
+    }
+
+    buckets.forEach(b => {
+        if (b.count > 0) {
+            b.predicted /= b.count;
+            b.actual /= b.count;
+        }
+    });
+
+    return { logLoss: samples > 0 ? loss / samples : 0, samples, buckets };
+};
+
+const clampParam = (key: keyof LegacyParams, value: number) => Math.min(PARAM_BOUNDS[key][1], Math.max(PARAM_BOUNDS[key][0], value));
+
+/**
+ * Busca por coordenadas com passo relativo decrescente: determinística, sem
+ * gradiente e suficiente para 6 parâmetros.
+ */
+export const fitLegacyParams = (
+    sequences: ReviewSequence[],
+    current: LegacyParams,
+    capDays: number,
+    onProgress?: (progress: number, logLoss: number) => void
+): OptimizerResult => {
+    const before = evaluateParams(sequences, current, capDays, true);
+
+    let best: LegacyParams = { ...current };
+    OPTIMIZABLE_PARAMS.forEach(key => { best[key] = clampParam(key, best[key]); });
+    let bestLoss = evaluateParams(sequences, best, capDays).logLoss;
+
+    const MIN_STEP = 0.01;
+    const MAX_ITERATIONS = 60;
+    let step = 0.5;
+    let iterations = 0;
+    const totalHalvings = Math.log2(0.5 / MIN_STEP);
+
+    while (step >= MIN_STEP && iterations < MAX_ITERATIONS && before.samples > 0) {
+        iterations++;
+        let improved = false;
+
+        for (const key of OPTIMIZABLE_PARAMS) {
+            for (const factor of [1 + step, 1 - step]) {
+                // k_rt_bonus pode estar em 0: o passo relativo parte de 0.01
+                const base = best[key] || 0.01;
+                const candidate = { ...best, [key]: clampParam(key, base * factor) };
+                if (candidate[key] === best[key]) continue;
+                const loss = evaluateParams(sequences, candidate, capDays).logLoss;
+                if (loss < bestLoss - 1e-7) {
+                    best = candidate;
+                    bestLoss = loss;
+                    improved = true;
+                    break;
+                }
+            }
+        }
+
+        if (!improved) step /= 2;
+        onProgress?.(Math.min(0.99, Math.log2(0.5 / step) / totalHalvings), bestLoss);
+    }
+
+    return {
+        sequences: sequences.length,
+        samples: before.samples,
+        current,
+        fitted: best,
+        before,
+        after: evaluateParams(sequences, best, capDays, true),
+        iterations
+    };
+};
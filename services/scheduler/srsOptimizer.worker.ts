@@ -0,0 +1,25 @@
+import { fitLegacyParams, OptimizerResult, ReviewSequence } from './srsOptimizer';
+import { LegacyParams } from './legacyScheduler';
+
+/**
+ * Worker do otimizador: recebe as sequências já extraídas e devolve progresso e resultado.
+ */
+
+export type OptimizerWorkerRequest = { sequences: ReviewSequence[]; current: LegacyParams; capDays: number };
+
+export type OptimizerWorkerMessage =
+    | { type: 'progress'; progress: number; logLoss: number }
+    | { type: 'done'; result: OptimizerResult }
+    | { type: 'error'; message: string };
+
+const ctx = self as unknown as { onmessage: ((e: MessageEvent<OptimizerWorkerRequest>) => void) | null; postMessage: (msg: OptimizerWorkerMessage) => void };
+
+ctx.onmessage = (e) => {
+    try {
+        const { sequences, current, capDays } = e.data;
+        const result = fitLegacyParams(sequences, current, capDays, (progress, logLoss) => ctx.postMessage({ type: 'progress', progress, logLoss }));
+        ctx.postMessage({ type: 'done', result });
+    } catch (err: any) {
+        ctx.postMessage({ type: 'error', message: err?.message || String(err) });
+    }
+};
@@ -0,0 +1,127 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import { stem, foldText } from './stemmer';
+import { buildSnippet, highlightText, parseSearchQuery, SearchDocument, SearchIndex, SEARCH_INDEX_VERSION, tokenize } from './searchIndex';
+
+const doc = (id: string, overrides: Partial<SearchDocument>): SearchDocument => ({
+    id, kind: 'QUESTION', entityId: id, title: id, fields: {}, facets: {}, ...overrides,
+});
+
+const search = (index: SearchIndex, input: string) => index.search(parseSearchQuery(input)).map(hit => hit.doc.id);
+
+describe('stemmer', () => {
+    it('agrupa plural, acento e variações de sufixo', () => {
+        expect(stem('prazos')).toBe(stem('prazo'));
+        expect(stem('aplicação')).toBe(stem('aplicar'));
+        expect(stem('Ações')).toBe(stem('ação'));
+        expect(foldText('ÍNDICE Público')).toBe('indice publico');
+    });
+
+    it('não mexe em números', () => {
+        expect(stem('30')).toBe('30');
+    });
+
+    it('stop words contam posição mas não viram termo', () => {
+        const tokens = tokenize('O prazo de 30 dias');
+        expect(tokens.map(t => t.position)).toEqual([1, 3, 4]);
+        expect(tokens[0]).toMatchObject({ start: 2, end: 7 });
+    });
+});
+
+describe('parseSearchQuery', () => {
+    it('separa palavras, frases e filtros (com aliases e valor entre aspas)', () => {
+        const parsed = parseSearchQuery('banca:CESPE "prazo de 30 dias" tag:"direito penal" foo:bar apli');
+        expect(parsed.filters).toEqual([{ key: 'bank', value: 'CESPE' }, { key: 'tag', value: 'direito penal' }]);
+        expect(parsed.phrases).toEqual([['prazo', 'de', '30', 'dias']]);
+        expect(parsed.words).toEqual(['foo', 'bar', 'apli']);
+        expect(parsed.partialLast).toBe(true);
+    });
+
+    it('espaço depois da última palavra desliga o prefixo', () => {
+        expect(parseSearchQuery('apli ').partialLast).toBe(false);
+        expect(parseSearchQuery('"apli"').partialLast).toBe(false);
+    });
+});
+
+describe('SearchIndex', () => {
+    let index: SearchIndex;
+
+    beforeEach(() => {
+        index = new SearchIndex();
+        index.upsert(doc('LAW:cf_art5', { kind: 'LAW', title: 'Art. 5º', fields: { body: 'O prazo de 30 dias para a aplicação da pena.' }, facets: { subject: 'CF', lawRef: 'cf_art5' } }));
+        index.upsert(doc('LAW:cf_art50', { kind: 'LAW', title: 'Art. 50', fields: { body: 'O prazo de 30 e 60 dias.' }, facets: { subject: 'CF', lawRef: 'cf_art50' } }));
+        index.upsert(doc('QUESTION:q1', { fields: { body: 'Prazo prescricional da pena de multa' }, facets: { subject: 'Direito Penal', bank: 'CESPE', tags: ['penal'] } }));
+        index.upsert(doc('FLASHCARD:f1', { kind: 'FLASHCARD', fields: { title: 'Dias úteis', body: 'Contagem em dias corridos' } }));
+    });
+
+    it('todas as palavras precisam aparecer, com stem e sem acento', () => {
+        expect(search(index, 'prazos pena ').sort()).toEqual(['LAW:cf_art5', 'QUESTION:q1']);
+        expect(search(index, 'APLICAR ')).toEqual(['LAW:cf_art5']);
+    });
+
+    it('frase exige os termos na mesma sequência', () => {
+        expect(search(index, '"prazo de 30 dias"')).toEqual(['LAW:cf_art5']);
+    });
+
+    it('a última palavra em digitação casa por prefixo', () => {
+        expect(search(index, 'apli')).toEqual(['LAW:cf_art5']);
+        expect(search(index, 'apli ')).toEqual([]);
+    });
+
+    it('ocorrência no título pesa mais que no corpo', () => {
+        expect(search(index, 'dias ')[0]).toBe('FLASHCARD:f1');
+    });
+
+    it('aplica filtros e tipos', () => {
+        expect(search(index, 'prazo banca:cespe')).toEqual(['QUESTION:q1']);
+        expect(search(index, 'tag:penal')).toEqual(['QUESTION:q1']);
+        expect(search(index, 'lei:cf_art5')).toEqual(['LAW:cf_art5']);
+        expect(search(index, 'lei:cf').sort()).toEqual(['LAW:cf_art5', 'LAW:cf_art50']);
+        expect(index.search(parseSearchQuery('prazo '), ['QUESTION']).map(h => h.doc.id)).toEqual(['QUESTION:q1']);
+    });
+
+    it('upsert sem mudança não regrava e remove tira o documento das listas', () => {
+        expect(index.upsert(doc('QUESTION:q1', { fields: { body: 'Prazo prescricional da pena de multa' }, facets: { subject: 'Direito Penal', bank: 'CESPE', tags: ['penal'] } }))).toBeNull();
+        const updated = index.upsert(doc('QUESTION:q1', { fields: { body: 'Multa substitutiva' } }));
+        expect(updated?.v).toBe(SEARCH_INDEX_VERSION);
+        expect(search(index, 'prescricional ')).toEqual([]);
+
+        index.remove('QUESTION:q1');
+        expect(search(index, 'multa ')).toEqual([]);
+        expect(index.size).toBe(3);
+    });
+
+    it('load descarta registros de versão antiga', () => {
+        const records = index.ids().map(id => index.get(id)!);
+        const fresh = new SearchIndex();
+        const stale = fresh.load([...records.slice(1), { ...records[0], v: SEARCH_INDEX_VERSION - 1 }]);
+        expect(stale).toEqual([records[0].id]);
+        expect(fresh.size).toBe(records.length - 1);
+        expect(search(fresh, 'contagem ')).toEqual(['FLASHCARD:f1']);
+    });
+});
+
+describe('snippets', () => {
+    it('marca as palavras cujo termo casou', () => {
+        const terms = new Set([stem('prazos')]);
+        expect(highlightText('Os prazos correm', terms)).toEqual([
+            { text: 'Os ', match: false },
+            { text: 'prazos', match: true },
+            { text: ' correm', match: false },
+        ]);
+    });
+
+    it('recorta o corpo em volta da primeira ocorrência sem cortar palavras', () => {
+        const filler = 'texto de enchimento '.repeat(10);
+        const snippet = buildSnippet(doc('x', { fields: { title: 'Sem nada', body: `${filler}o prazo decadencial ${filler}` } }), new Set([stem('decadencial')]));
+        expect(snippet?.field).toBe('body');
+        const parts = snippet!.parts;
+        expect(parts[0].text).toBe('…');
+        expect(parts[parts.length - 1].text).toBe('…');
+        expect(parts.filter(p => p.match).map(p => p.text)).toEqual(['decadencial']);
+        expect(parts[1].text).toMatch(/^(texto|de|enchimento) /);
+    });
+
+    it('documento sem texto não gera snippet', () => {
+        expect(buildSnippet(doc('x', {}), new Set(['a']))).toBeNull();
+    });
+});
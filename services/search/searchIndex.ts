@@ -0,0 +1,345 @@
+import { stem, foldText, STOP_WORDS } from './stemmer';
+import { canonicalizeLitRef, isWithinLitRef } from '../srsService';
+import { hashValue } from '../checksum';
+
+/**
+ * ÍNDICE INVERTIDO (busca global)
+ * Cada documento (artigo, questão, flashcard, anotação) vira um vetor de termos
+ * com posições: termo = stem do token sem acento e sem caixa. As posições permitem
+ * consultas por frase ("prazo de 30 dias") e cada campo ocupa uma faixa própria,
+ * então uma frase nunca atravessa de um campo para outro. O vetor é o que se
+ * persiste; as listas invertidas são remontadas em memória ao carregar.
+ */
+
+export type SearchDocKind = 'LAW' | 'QUESTION' | 'FLASHCARD' | 'NOTE';
+export type SearchField = 'title' | 'body' | 'notes';
+export type SearchFilterKey = 'subject' | 'bank' | 'lawRef' | 'tag';
+
+export interface SearchFacets {
+    subject?: string;
+    bank?: string;
+    lawRef?: string;
+    tags?: string[];
+}
+
+export interface SearchDocument {
+    id: string; // `${kind}:${entityId}`
+    kind: SearchDocKind;
+    entityId: string;
+    title: string;
+    subtitle?: string;
+    fields: Partial<Record<SearchField, string>>;
+    facets: SearchFacets;
+}
+
+/** Registro persistido: o documento com o hash do conteúdo e as posições de cada termo. */
+export interface IndexedSearchDocument extends SearchDocument {
+    v: number;
+    hash: string;
+    terms: Record<string, number[]>;
+}
+
+export interface SearchFilter {
+    key: SearchFilterKey;
+    value: string;
+}
+
+export interface ParsedSearchQuery {
+    words: string[];
+    phrases: string[][];
+    filters: SearchFilter[];
+    /** A última palavra ainda está sendo digitada (casa por prefixo). */
+    partialLast: boolean;
+}
+
+export interface SearchHit {
+    doc: IndexedSearchDocument;
+    score: number;
+    terms: Set<string>;
+}
+
+export interface SnippetPart {
+    text: string;
+    match: boolean;
+}
+
+export interface SearchSnippet {
+    field: SearchField;
+    parts: SnippetPart[];
+}
+
+// Sobe quando a análise (stemmer, campos) muda: registros antigos são descartados e reindexados
+export const SEARCH_INDEX_VERSION = 1;
+
+const FIELD_ORDER: SearchField[] = ['title', 'body', 'notes'];
+const FIELD_WEIGHTS: Record<SearchField, number> = { title: 3, body: 1, notes: 0.75 };
+const FIELD_SPAN = 1_000_000;
+const PHRASE_BONUS = 2;
+const SNIPPET_RADIUS = 90;
+
+const FILTER_ALIASES: Record<string, SearchFilterKey> = {
+    subject: 'subject', materia: 'subject', disciplina: 'subject',
+    bank: 'bank', banca: 'bank',
+    lawref: 'lawRef', litref: 'lawRef', lei: 'lawRef',
+    tag: 'tag', tags: 'tag',
+};
+
+interface Token {
+    term: string;
+    start: number;
+    end: number;
+    position: number;
+}
+
+/** Tokens com posição; stop words contam posição (frases respeitam a distância) mas não viram termo. */
+export const tokenize = (text: string): Token[] => {
+    const tokens: Token[] = [];
+    let position = 0;
+    for (const match of (text || '').matchAll(/[\p{L}\p{N}]+/gu)) {
+        const folded = foldText(match[0]);
+        if (!STOP_WORDS.has(folded)) {
+            tokens.push({ term: stem(folded), start: match.index!, end: match.index! + match[0].length, position });
+        }
+        position++;
+    }
+    return tokens;
+};
+
+// Map em vez de objeto literal: termos como "constructor" não podem colidir com o protótipo
+const analyze = (doc: SearchDocument): Record<string, number[]> => {
+    const terms = new Map<string, number[]>();
+    FIELD_ORDER.forEach((field, fieldIndex) => {
+        tokenize(doc.fields[field] || '').forEach(token => {
+            if (!terms.has(token.term)) terms.set(token.term, []);
+            terms.get(token.term)!.push(fieldIndex * FIELD_SPAN + token.position);
+        });
+    });
+    return Object.fromEntries(terms);
+};
+
+const fieldOf = (position: number): SearchField => FIELD_ORDER[Math.floor(position / FIELD_SPAN)] || 'body';
+
+// --- CONSULTA ---
+
+/**
+ * Palavras soltas, "frases entre aspas" e filtros `chave:valor` (ou `chave:"valor composto"`).
+ * Chaves desconhecidas são tratadas como texto.
+ */
+export const parseSearchQuery = (input: string): ParsedSearchQuery => {
+    const parsed: ParsedSearchQuery = { words: [], phrases: [], filters: [], partialLast: false };
+    const pattern = /([\p{L}]+):"([^"]*)"?|([\p{L}]+):(\S+)|"([^"]*)"?|(\S+)/gu;
+    let lastKind: 'word' | 'other' = 'other';
+
+    for (const match of (input || '').matchAll(pattern)) {
+        const [, quotedKey, quotedValue, key, value, phrase, word] = match;
+        const filterKey = FILTER_ALIASES[foldText(quotedKey || key || '')];
+        if ((quotedKey || key) && filterKey) {
+            const filterValue = (quotedValue ?? value ?? '').trim();
+            if (filterValue) parsed.filters.push({ key: filterKey, value: filterValue });
+            lastKind = 'other';
+        } else if (phrase !== undefined) {
+            const words = phrase.split(/\s+/).filter(Boolean);
+            if (words.length > 1) parsed.phrases.push(words);
+            else parsed.words.push(...words);
+            lastKind = 'other';
+        } else {
+            const text = word ?? match[0];
+            const parts = Array.from(text.matchAll(/[\p{L}\p{N}]+/gu), m => m[0]);
+            parsed.words.push(...parts);
+            lastKind = parts.length > 0 ? 'word' : lastKind;
+        }
+    }
+
+    // Só completa por prefixo se o usuário ainda está na palavra (sem espaço depois)
+    parsed.partialLast = lastKind === 'word' && !/\s$/.test(input);
+    return parsed;
+};
+
+const matchesFilter = (doc: SearchDocument, filter: SearchFilter): boolean => {
+    const value = foldText(filter.value);
+    switch (filter.key) {
+        case 'subject': return !!doc.facets.subject && foldText(doc.facets.subject).includes(value);
+        case 'bank': return !!doc.facets.bank && foldText(doc.facets.bank).includes(value);
+        case 'tag': return (doc.facets.tags || []).some(tag => foldText(tag) === value);
+        case 'lawRef': {
+            const ref = canonicalizeLitRef(doc.facets.lawRef);
+            const target = canonicalizeLitRef(filter.value);
+            // "lei_x" casa "lei_x_art5", mas "lei_x_art5" não casa "lei_x_art50"
+            return !!ref && (isWithinLitRef(ref, target) || (ref.startsWith(target) && !/\d/.test(ref.charAt(target.length))));
+        }
+    }
+};
+
+export class SearchIndex {
+    private docs = new Map<string, IndexedSearchDocument>();
+    private postings = new Map<string, Map<string, number[]>>();
+
+    get size() { return this.docs.size; }
+
+    ids(): string[] { return Array.from(this.docs.keys()); }
+
+    get(id: string): IndexedSearchDocument | undefined { return this.docs.get(id); }
+
+    /** Carrega registros persistidos; devolve os ids de versões antigas (a descartar). */
+    load(records: IndexedSearchDocument[]): string[] {
+        const stale: string[] = [];
+        records.forEach(record => {
+            if (record.v !== SEARCH_INDEX_VERSION) { stale.push(record.id); return; }
+            this.add(record);
+        });
+        return stale;
+    }
+
+    /** Insere ou atualiza; devolve null quando o conteúdo não mudou (nada a persistir). */
+    upsert(doc: SearchDocument): IndexedSearchDocument | null {
+        const hash = hashValue({ kind: doc.kind, title: doc.title, subtitle: doc.subtitle, fields: doc.fields, facets: doc.facets });
+        const current = this.docs.get(doc.id);
+        if (current && current.hash === hash) return null;
+        if (current) this.remove(doc.id);
+
+        const record: IndexedSearchDocument = { ...doc, v: SEARCH_INDEX_VERSION, hash, terms: analyze(doc) };
+        this.add(record);
+        return record;
+    }
+
+    remove(id: string) {
+        const record = this.docs.get(id);
+        if (!record) return;
+        Object.keys(record.terms).forEach(term => {
+            const posting = this.postings.get(term);
+            posting?.delete(id);
+            if (posting && posting.size === 0) this.postings.delete(term);
+        });
+        this.docs.delete(id);
+    }
+
+    private add(record: IndexedSearchDocument) {
+        this.docs.set(record.id, record);
+        Object.entries(record.terms).forEach(([term, positions]) => {
+            if (!this.postings.has(term)) this.postings.set(term, new Map());
+            this.postings.get(term)!.set(record.id, positions);
+        });
+    }
+
+    private idf(term: string): number {
+        return Math.log(1 + this.docs.size / (this.postings.get(term)?.size || 1));
+    }
+
+    // Termos do índice que a palavra digitada cobre (com prefixo, todos que começam por ela)
+    private expandWord(word: string, prefix: boolean): string[] {
+        const exact = stem(word);
+        if (!prefix) return this.postings.has(exact) ? [exact] : [];
+        const folded = foldText(word);
+        return Array.from(this.postings.keys()).filter(term => term === exact || term.startsWith(folded) || term.startsWith(exact));
+    }
+
+    private phraseDocs(words: string[]): { terms: string[]; docs: Set<string> } {
+        const tokens = tokenize(words.join(' '));
+        if (tokens.length === 0) return { terms: [], docs: new Set() };
+        const lists = tokens.map(t => this.postings.get(t.term));
+        if (lists.some(list => !list)) return { terms: tokens.map(t => t.term), docs: new Set() };
+
+        const docs = new Set<string>();
+        lists[0]!.forEach((firstPositions, docId) => {
+            const others = tokens.slice(1).map((t, i) => ({ offset: t.position - tokens[0].position, positions: lists[i + 1]!.get(docId) }));
+            if (others.some(o => !o.positions)) return;
+            const found = firstPositions.some(p => others.every(o => o.positions!.includes(p + o.offset)));
+            if (found) docs.add(docId);
+        });
+        return { terms: tokens.map(t => t.term), docs };
+    }
+
+    search(query: ParsedSearchQuery, kinds?: SearchDocKind[]): SearchHit[] {
+        const groups: string[][] = [];
+        query.words.forEach((word, i) => {
+            const folded = foldText(word);
+            if (STOP_WORDS.has(folded) && !(query.partialLast && i === query.words.length - 1)) return;
+            groups.push(this.expandWord(word, query.partialLast && i === query.words.length - 1));
+        });
+        const phrases = query.phrases.map(words => this.phraseDocs(words));
+        if (groups.length === 0 && phrases.length === 0 && query.filters.length === 0) return [];
+
+        // Candidatos: interseção entre palavras (cada uma pode cobrir vários termos) e frases
+        let candidates: Set<string> | null = null;
+        const intersect = (ids: Set<string>) => {
+            candidates = candidates ? new Set(Array.from(candidates).filter(id => ids.has(id))) : ids;
+        };
+        groups.forEach(terms => {
+            const ids = new Set<string>();
+            terms.forEach(term => this.postings.get(term)?.forEach((_, docId) => ids.add(docId)));
+            intersect(ids);
+        });
+        phrases.forEach(phrase => intersect(phrase.docs));
+
+        const pool: Iterable<string> = candidates ?? this.docs.keys();
+        const hits: SearchHit[] = [];
+        for (const id of pool) {
+            const doc = this.docs.get(id)!;
+            if (kinds && !kinds.includes(doc.kind)) continue;
+            if (!query.filters.every(filter => matchesFilter(doc, filter))) continue;
+
+            const terms = new Set<string>();
+            let score = 0;
+            groups.forEach(group => group.forEach(term => {
+                const positions = this.postings.get(term)?.get(id);
+                if (!positions) return;
+                terms.add(term);
+                const weighted = positions.reduce((sum, p) => sum + FIELD_WEIGHTS[fieldOf(p)], 0);
+                score += this.idf(term) * Math.log(1 + weighted);
+            }));
+            phrases.forEach(phrase => {
+                phrase.terms.forEach(term => terms.add(term));
+                score += PHRASE_BONUS * phrase.terms.reduce((sum, term) => sum + this.idf(term), 0);
+            });
+            hits.push({ doc, score, terms });
+        }
+
+        return hits.sort((a, b) => b.score - a.score || a.doc.title.localeCompare(b.doc.title));
+    }
+}
+
+// --- SNIPPETS ---
+
+/** Quebra o trecho [from, to) de `text` em partes, marcando as palavras cujo termo casou. */
+export const highlightText = (text: string, terms: Set<string>, from = 0, to = text.length): SnippetPart[] => {
+    const parts: SnippetPart[] = [];
+    let cursor = from;
+    tokenize(text).forEach(token => {
+        if (token.start < from || token.end > to || !terms.has(token.term)) return;
+        if (token.start > cursor) parts.push({ text: text.slice(cursor, token.start), match: false });
+        parts.push({ text: text.slice(token.start, token.end), match: true });
+        cursor = token.end;
+    });
+    if (cursor < to) parts.push({ text: text.slice(cursor, to), match: false });
+    return parts;
+};
+
+/** Trecho do campo com mais ocorrências (título só em último caso: ele já aparece no resultado), centrado na primeira. */
+export const buildSnippet = (doc: SearchDocument, terms: Set<string>): SearchSnippet | null => {
+    let best: { field: SearchField; text: string; first: number; count: number } | null = null;
+    for (const field of ['body', 'notes', 'title'] as SearchField[]) {
+        const text = (doc.fields[field] || '').replace(/\s+/g, ' ').trim();
+        if (!text) continue;
+        const matches = tokenize(text).filter(t => terms.has(t.term));
+        if (!best || matches.length > best.count) best = { field, text, first: matches[0]?.start ?? 0, count: matches.length };
+    }
+    if (!best) return null;
+
+    const { field, text, first } = best;
+    let start = Math.max(0, first - SNIPPET_RADIUS);
+    let end = Math.min(text.length, start + SNIPPET_RADIUS * 2);
+    // Não corta palavras nas bordas
+    if (start > 0) {
+        const space = text.indexOf(' ', start);
+        if (space >= 0 && space < first) start = space + 1;
+    }
+    if (end < text.length) {
+        const space = text.lastIndexOf(' ', end);
+        if (space > first) end = space;
+    }
+
+    const parts = highlightText(text, terms, start, end);
+    if (start > 0) parts.unshift({ text: '…', match: false });
+    if (end < text.length) parts.push({ text: '…', match: false });
+    return { field, parts };
+};
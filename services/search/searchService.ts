@@ -0,0 +1,151 @@
+import { Question, Flashcard, LiteralnessCard } from '../../types';
+import * as storage from '../storage';
+import { resolveLitRef } from '../srsService';
+import { stripClozeMarkers } from '../clozeService';
+import { SearchIndex, SearchDocument, SearchDocKind, SearchHit, IndexedSearchDocument, parseSearchQuery } from './searchIndex';
+
+/**
+ * BUSCA GLOBAL
+ * Índice único da sessão, carregado do IndexedDB e mantido em dia a cada mudança
+ * nos contextos. Os contextos trocam só os objetos alterados, então quem já foi
+ * indexado com a mesma referência nem é reconstruído; do resto, só o que mudou de
+ * conteúdo é reanalisado e regravado.
+ */
+
+export interface SearchSources {
+    questions: Question[];
+    flashcards: Flashcard[];
+    cards: LiteralnessCard[];
+}
+
+const sharedIndex = new SearchIndex();
+// Objeto de origem → ids dos documentos que ele gerou
+const builtFrom = new WeakMap<object, string[]>();
+const listeners = new Set<() => void>();
+
+let loadPromise: Promise<void> | null = null;
+let syncChain: Promise<unknown> = Promise.resolve();
+let revision = 0;
+
+const join = (...parts: (string | undefined | null)[]) => parts.filter(Boolean).join('\n');
+
+export const questionDocuments = (q: Question): SearchDocument[] => {
+    if (q.deletedAt) return [];
+    return [{
+        id: `QUESTION:${q.id}`,
+        kind: 'QUESTION',
+        entityId: q.id,
+        title: q.questionRef || (q.questionText || '').slice(0, 80),
+        subtitle: [q.subject, q.topic, q.bank].filter(Boolean).join(' • '),
+        fields: {
+            title: join(q.questionRef, q.topic, q.subtopic),
+            body: join(q.questionText, ...Object.values(q.options || {}), q.explanation, q.keyDistinction),
+            notes: q.comments,
+        },
+        facets: { subject: q.subject, bank: q.bank, lawRef: resolveLitRef(q) || undefined, tags: q.tags },
+    }];
+};
+
+export const flashcardDocuments = (f: Flashcard): SearchDocument[] => {
+    const front = stripClozeMarkers(f.front || '');
+    return [{
+        id: `FLASHCARD:${f.id}`,
+        kind: 'FLASHCARD',
+        entityId: f.id,
+        title: front.slice(0, 80),
+        subtitle: [f.discipline, f.topic].filter(Boolean).join(' • '),
+        fields: { title: front, body: join(f.back, f.extra), notes: f.comments },
+        facets: { subject: f.discipline, bank: f.bank, lawRef: f.litRef, tags: f.tags },
+    }];
+};
+
+// Artigos de trilha aparecem na trilha, não na Lei Seca: ficam de fora
+export const lawCardDocuments = (card: LiteralnessCard): SearchDocument[] => {
+    if (card.scope === 'TRILHA') return [];
+    const facets = { subject: card.lawId, lawRef: card.id };
+    const docs: SearchDocument[] = [{
+        id: `LAW:${card.id}`,
+        kind: 'LAW',
+        entityId: card.id,
+        title: card.article,
+        subtitle: [card.lawId, card.topic].filter(Boolean).join(' • '),
+        fields: { title: join(card.article, card.topic), body: join(card.phase1Full, card.partsSummary, card.keywordsProva) },
+        facets,
+    }];
+    if (card.userNotes?.trim()) {
+        docs.push({
+            id: `NOTE:${card.id}`,
+            kind: 'NOTE',
+            entityId: card.id,
+            title: `Anotação • ${card.article}`,
+            subtitle: card.lawId,
+            fields: { title: card.article, notes: card.userNotes },
+            facets,
+        });
+    }
+    return docs;
+};
+
+/** Carrega o índice persistido (uma vez por sessão). */
+export const loadSearchIndex = (): Promise<void> => {
+    if (!loadPromise) {
+        loadPromise = storage.getAllFromStore<IndexedSearchDocument>(storage.STORES.SEARCH)
+            .then(records => storage.bulkDeleteFromStore(storage.STORES.SEARCH, sharedIndex.load(records)))
+            .catch(e => console.warn('[Search] Falha ao carregar o índice; será reconstruído', e));
+    }
+    return loadPromise;
+};
+
+const runSync = async (sources: SearchSources): Promise<boolean> => {
+    await loadSearchIndex();
+    const alive = new Set<string>();
+    const changed: IndexedSearchDocument[] = [];
+
+    const visit = <T extends object>(items: T[], build: (item: T) => SearchDocument[]) => items.forEach(item => {
+        const known = builtFrom.get(item);
+        if (known) { known.forEach(id => alive.add(id)); return; }
+        const docs = build(item);
+        builtFrom.set(item, docs.map(d => d.id));
+        docs.forEach(doc => {
+            alive.add(doc.id);
+            const record = sharedIndex.upsert(doc);
+            if (record) changed.push(record);
+        });
+    });
+
+    visit(sources.questions, questionDocuments);
+    visit(sources.flashcards, flashcardDocuments);
+    visit(sources.cards, lawCardDocuments);
+
+    const removed = sharedIndex.ids().filter(id => !alive.has(id));
+    removed.forEach(id => sharedIndex.remove(id));
+    if (changed.length === 0 && removed.length === 0) return false;
+
+    revision++;
+    listeners.forEach(listener => listener());
+    try {
+        await storage.bulkPutToStore(storage.STORES.SEARCH, changed);
+        await storage.bulkDeleteFromStore(storage.STORES.SEARCH, removed);
+    } catch (e) {
+        console.warn('[Search] Falha ao gravar o índice', e);
+    }
+    return true;
+};
+
+/** Alinha o índice ao estado atual; chamadas concorrentes rodam em fila. Devolve se algo mudou. */
+export const syncSearchIndex = (sources: SearchSources): Promise<boolean> => {
+    const next = syncChain.then(() => runSync(sources));
+    syncChain = next.catch(() => undefined);
+    return next;
+};
+
+/** Avisa quando o conteúdo do índice muda (para refazer a busca aberta). */
+export const onSearchIndexChange = (listener: () => void): (() => void) => {
+    listeners.add(listener);
+    return () => { listeners.delete(listener); };
+};
+
+export const getSearchIndexRevision = () => revision;
+
+export const searchAll = (input: string, kinds?: SearchDocKind[]): SearchHit[] =>
+    sharedIndex.search(parseSearchQuery(input), kinds);
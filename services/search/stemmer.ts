@@ -0,0 +1,75 @@
+/**
+ * STEMMER (português, leve)
+ * Versão enxuta das etapas do RSLP — plural, feminino, advérbio, sufixos nominais,
+ * verbais e vogal temática — aplicada sobre o texto já sem acentos. O objetivo é
+ * agrupar variações comuns ("prazos"/"prazo", "aplicação"/"aplicável"/"aplicar"),
+ * não produzir a raiz linguística exata.
+ */
+
+// Palavras muito frequentes que não ajudam a achar nada (comparadas já sem acento)
+export const STOP_WORDS = new Set([
+    'a', 'o', 'as', 'os', 'um', 'uma', 'uns', 'umas', 'e', 'ou', 'de', 'do', 'da', 'dos', 'das',
+    'em', 'no', 'na', 'nos', 'nas', 'ao', 'aos', 'por', 'pelo', 'pela', 'pelos', 'pelas', 'para',
+    'com', 'que', 'se', 'sua', 'seu', 'suas', 'seus', 'como', 'mais', 'ja', 'este', 'esta', 'esse',
+    'essa', 'isso', 'isto', 'art',
+]);
+
+const MIN_STEM = 3;
+
+const PLURAL_RULES: [string, string][] = [
+    ['oes', 'ao'], ['aes', 'ao'], ['ais', 'al'], ['eis', 'el'], ['ois', 'ol'],
+    ['ns', 'm'], ['res', 'r'], ['zes', 'z'], ['les', 'l'],
+];
+
+const FEMININE_RULES: [string, string][] = [
+    ['eira', 'eiro'], ['ora', 'or'], ['ada', 'ado'], ['ida', 'ido'], ['osa', 'oso'], ['iva', 'ivo'], ['ica', 'ico'], ['ina', 'ino'],
+];
+
+// Do mais longo para o mais curto: o primeiro que casar vence
+const NOMINAL_SUFFIXES = [
+    'amentos', 'imentos', 'amento', 'imento', 'mento', 'acao', 'icao', 'ucao', 'idade', 'ismo', 'ista', 'avel', 'ivel', 'ncia',
+];
+
+const VERB_SUFFIXES = [
+    'ariam', 'eriam', 'iriam', 'assem', 'essem', 'issem', 'ando', 'endo', 'indo', 'ava', 'ara', 'era', 'ira',
+    'ar', 'er', 'ir', 'am', 'em', 'ou',
+];
+
+const replaceSuffix = (word: string, rules: [string, string][], minLength: number): string => {
+    for (const [suffix, replacement] of rules) {
+        if (word.endsWith(suffix) && word.length - suffix.length + replacement.length >= minLength) {
+            return word.slice(0, -suffix.length) + replacement;
+        }
+    }
+    return word;
+};
+
+const stripSuffix = (word: string, suffixes: string[]): string | null => {
+    for (const suffix of suffixes) {
+        if (word.endsWith(suffix) && word.length - suffix.length >= MIN_STEM) return word.slice(0, -suffix.length);
+    }
+    return null;
+};
+
+/** Minúsculas e sem acentos: a mesma forma usada no índice e na consulta. */
+export const foldText = (text: string): string =>
+    (text || '').toLowerCase().normalize('NFD').replace(/[\u0300-\u036f]/g, '').normalize('NFC');
+
+export const stem = (token: string): string => {
+    let word = foldText(token);
+    if (word.length <= MIN_STEM || /\d/.test(word)) return word;
+
+    if (word.endsWith('s') && !word.endsWith('ss')) {
+        const replaced = replaceSuffix(word, PLURAL_RULES, MIN_STEM + 1);
+        word = replaced !== word ? replaced : word.slice(0, -1);
+    }
+    word = replaceSuffix(word, FEMININE_RULES, MIN_STEM + 1);
+    if (word.endsWith('mente') && word.length >= 8) word = word.slice(0, -5);
+
+    const nominal = stripSuffix(word, NOMINAL_SUFFIXES);
+    if (nominal) word = nominal;
+    else word = stripSuffix(word, VERB_SUFFIXES) ?? word;
+
+    if (word.length > MIN_STEM && /[aeo]$/.test(word)) word = word.slice(0, -1);
+    return word;
+};
@@ -0,0 +1,172 @@
+import { Flashcard, FlashcardSiblingState, Attempt } from '../types';
+import { getClozeIndices, toClozeSiblingKey } from './clozeService';
+import { toOcclusionSiblingKey } from './occlusionService';
+
+/**
+ * Cartas-irmãs (siblings)
+ * Um flashcard do tipo cloze gera uma carta revisável por deleção (c1, c2...);
+ * um de oclusão de imagem gera uma por máscara (o:<maskId>).
+ * Cada irmã tem estado SRS próprio em `siblingStates`; o card-pai guarda o histórico
+ * completo (Attempt.siblingKey) e campos agregados para filas, decks e estatísticas.
+ */
+
+const SIBLING_ID_SEPARATOR = '::';
+
+export const getSiblingKeys = (card: Flashcard): string[] => {
+    if (card.type === 'cloze') return getClozeIndices(card.front).map(toClozeSiblingKey);
+    if (card.type === 'imageOcclusion') return (card.occlusion?.masks || []).map(m => toOcclusionSiblingKey(m.id));
+    return [];
+};
+
+export const hasSiblings = (card: Flashcard): boolean => getSiblingKeys(card).length > 0;
+
+export const makeSiblingId = (parentId: string, key: string): string => `${parentId}${SIBLING_ID_SEPARATOR}${key}`;
+
+export const getParentId = (card: Flashcard): string => {
+    if (!card.siblingKey) return card.id;
+    const suffix = `${SIBLING_ID_SEPARATOR}${card.siblingKey}`;
+    return card.id.endsWith(suffix) ? card.id.slice(0, -suffix.length) : card.id;
+};
+
+/**
+ * Estado da irmã. Cards revisados antes do suporte a siblings herdam o estado do pai,
+ * assim o progresso existente não é zerado.
+ */
+export const getSiblingState = (card: Flashcard, key: string): FlashcardSiblingState => {
+    const existing = card.siblingStates?.[key];
+    if (existing) return existing;
+
+    const hasLegacyProgress = !card.siblingStates && (card.totalAttempts || 0) > 0;
+    if (hasLegacyProgress) {
+        return {
+            stability: card.stability,
+            masteryScore: card.masteryScore || 0,
+            nextReviewDate: card.nextReviewDate,
+            lastReviewedAt: card.lastReviewedAt,
+            totalAttempts: card.totalAttempts,
+            lastWasCorrect: card.lastWasCorrect,
+            correctStreak: card.correctStreak,
+            lastGrade: card.lastGrade
+        };
+    }
+
+    return {
+        stability: card.stability,
+        masteryScore: 0,
+        nextReviewDate: card.createdAt || card.nextReviewDate,
+        totalAttempts: 0,
+        lastWasCorrect: false,
+        correctStreak: 0
+    };
+};
+
+/**
+ * Expande o card em cartas virtuais (uma por irmã), prontas para o SRS.
+ * Cards sem irmãs retornam a si mesmos.
+ */
+export const expandSiblings = (card: Flashcard): Flashcard[] => {
+    const keys = getSiblingKeys(card);
+    if (keys.length === 0) return [card];
+
+    return keys.map(key => {
+        const state = getSiblingState(card, key);
+        return {
+            ...card,
+            ...state,
+            id: makeSiblingId(card.id, key),
+            siblingKey: key,
+            attemptHistory: (card.attemptHistory || []).filter(a => a.siblingKey === key)
+        };
+    });
+};
+
+const isSiblingDue = (sibling: Flashcard, nowTs: number): boolean => {
+    if (!sibling.totalAttempts) return true;
+    const due = new Date(sibling.nextReviewDate).getTime();
+    return isNaN(due) || due <= nowTs;
+};
+
+/**
+ * Monta a fila da sessão a partir dos cards selecionados.
+ * Apenas uma irmã por card entra na sessão (a mais atrasada); as demais ficam enterradas
+ * até a próxima sessão, evitando que uma deleção/máscara entregue a resposta da outra.
+ */
+export const buildSiblingSessionQueue = (cards: Flashcard[], now: Date = new Date()): { queue: Flashcard[]; buriedCount: number } => {
+    const nowTs = now.getTime();
+    const queue: Flashcard[] = [];
+    let buriedCount = 0;
+
+    cards.forEach(card => {
+        const siblings = expandSiblings(card);
+        if (siblings.length === 1 && !siblings[0].siblingKey) {
+            queue.push(card);
+            return;
+        }
+
+        const byDueDate = [...siblings].sort((a, b) => new Date(a.nextReviewDate).getTime() - new Date(b.nextReviewDate).getTime());
+        const due = byDueDate.filter(s => isSiblingDue(s, nowTs));
+
+        // Sessões antecipadas (personalizadas) pegam a irmã com revisão mais próxima
+        queue.push(due[0] || byDueDate[0]);
+        buriedCount += Math.max(0, due.length - 1);
+    });
+
+    return { queue, buriedCount };
+};
+
+/**
+ * Recalcula os campos agregados do pai a partir das irmãs:
+ * próxima revisão = irmã mais urgente; estabilidade = menor; maestria = média.
+ */
+export const recomputeParentFromSiblings = (card: Flashcard): Flashcard => {
+    const keys = getSiblingKeys(card);
+    if (keys.length === 0) return card;
+
+    const states = keys.map(k => getSiblingState(card, k));
+    const earliest = states.reduce((min, s) => new Date(s.nextReviewDate).getTime() < new Date(min.nextReviewDate).getTime() ? s : min, states[0]);
+
+    return {
+        ...card,
+        nextReviewDate: earliest.nextReviewDate,
+        stability: Math.min(...states.map(s => s.stability || card.stability)),
+        masteryScore: states.reduce((sum, s) => sum + (s.masteryScore || 0), 0) / states.length
+    };
+};
+
+/**
+ * Grava o resultado de uma revisão de irmã no card-pai.
+ * `reviewed` é a carta virtual já atualizada pelo `calculateNewSrsState`.
+ */
+export const applySiblingReview = (parent: Flashcard, reviewed: Flashcard, attempt: Attempt): Flashcard => {
+    const key = reviewed.siblingKey;
+    if (!key) return parent;
+
+    const nextState: FlashcardSiblingState = {
+        stability: reviewed.stability,
+        difficulty: reviewed.difficulty,
+        masteryScore: reviewed.masteryScore,
+        nextReviewDate: reviewed.nextReviewDate,
+        lastReviewedAt: reviewed.lastReviewedAt,
+        totalAttempts: reviewed.totalAttempts,
+        lastWasCorrect: reviewed.lastWasCorrect,
+        correctStreak: reviewed.correctStreak,
+        lastGrade: reviewed.lastGrade,
+        srsAlgorithm: reviewed.srsAlgorithm
+    };
+
+    // Materializa os estados herdados antes de gravar a primeira irmã
+    const siblingStates: Record<string, FlashcardSiblingState> = {};
+    getSiblingKeys(parent).forEach(k => { siblingStates[k] = getSiblingState(parent, k); });
+
+    const updated: Flashcard = {
+        ...parent,
+        siblingStates: { ...parent.siblingStates, ...siblingStates, [key]: nextState },
+        totalAttempts: (parent.totalAttempts || 0) + 1,
+        lastReviewedAt: reviewed.lastReviewedAt,
+        lastWasCorrect: reviewed.lastWasCorrect,
+        correctStreak: reviewed.correctStreak,
+        attemptHistory: [...(parent.attemptHistory || []), { ...attempt, siblingKey: key }]
+    };
+
+    return recomputeParentFromSiblings(updated);
+};
@@ -5,6 +5,9 @@ import { Question, Flashcard, AppSettings, SrsItem, LiteralnessCard, Attempt, Go
 import * as studyLater from './studyLaterService';
 import { normalizeDiscipline } from './taxonomyService';
 import { traceService } from './traceService'; 
+import { getScheduler, getSchedulerFor } from './scheduler';
+import { balanceReviewResult } from './scheduler/loadBalancer';
+import { adjustForExam, examDeadlineFor } from './scheduler/examTargets';
 
 // ... (Existing Constants, Date Helpers - Keep unchanged)
 const DAY_MS = 86400000;
@@ -78,13 +81,16 @@ export const generateQuestionFingerprint = (q: Partial<Question>): string => `${
 export function getCanonicalId(id: string): string { if (!id) return ''; return id.trim(); }
 export function canonicalizeLitRef(v?: string | null): string { if (!v) return ""; if (v.trim().toUpperCase().startsWith('TRILHA_')) { return v.trim(); } return String(v).normalize("NFKC").replace(/[\u200B-\u200D\uFEFF]/g, "").trim().toLowerCase(); }
 export function resolveLitRef(obj: any): string { if (!obj) return ""; if (obj.litRef && typeof obj.litRef === 'string' && obj.litRef.trim()) return canonicalizeLitRef(obj.litRef); if (obj.lawRef && typeof obj.lawRef === 'string' && obj.lawRef.trim()) return canonicalizeLitRef(obj.lawRef); if (obj.LIT_REF && typeof obj.LIT_REF === 'string') return canonicalizeLitRef(obj.LIT_REF); if (Array.isArray(obj.tags)) { const validTag = obj.tags.find((t: string) => { const u = canonicalizeLitRef(t); return u !== 'pair-match' && u !== 'literalness' && u !== 'flashcard' && t.length > 2; }); if (validTag) return canonicalizeLitRef(validTag); } if (obj.id && typeof obj.id === 'string') { if (!obj.id.startsWith('q_') && !obj.id.startsWith('fc_') && !obj.id.startsWith('temp_')) { return canonicalizeLitRef(obj.id); } } return ""; }
-export function isLinked(item: any, targetIdCanonical: string): boolean { if (!targetIdCanonical) return false; const itemRef = resolveLitRef(item); if (itemRef && itemRef === targetIdCanonical) return true; if (item.tags && Array.isArray(item.tags)) { const hasTag = item.tags.some((t: string) => canonicalizeLitRef(t) === targetIdCanonical); if (hasTag) return true; } if (item.lawRef && canonicalizeLitRef(item.lawRef) === targetIdCanonical) return true; if (item.litRef && canonicalizeLitRef(item.litRef) === targetIdCanonical) return true; return false; }
+// Âncora de dispositivo: `<núcleo>#<caminho>` (ex.: lei_x_art5#p1.i2). O item conta para o dispositivo e para tudo acima dele.
+export const DISPOSITIVO_SEPARATOR = '#';
+export function isWithinLitRef(refCanonical: string, targetCanonical: string): boolean { if (!refCanonical || !targetCanonical) return false; if (refCanonical === targetCanonical) return true; if (!refCanonical.startsWith(targetCanonical)) return false; const next = refCanonical.charAt(targetCanonical.length); return next === DISPOSITIVO_SEPARATOR || (next === '.' && targetCanonical.includes(DISPOSITIVO_SEPARATOR)); }
+export function isLinked(item: any, targetIdCanonical: string): boolean { if (!targetIdCanonical) return false; const itemRef = resolveLitRef(item); if (itemRef && isWithinLitRef(itemRef, targetIdCanonical)) return true; if (item.tags && Array.isArray(item.tags)) { const hasTag = item.tags.some((t: string) => isWithinLitRef(canonicalizeLitRef(t), targetIdCanonical)); if (hasTag) return true; } if (item.lawRef && isWithinLitRef(canonicalizeLitRef(item.lawRef), targetIdCanonical)) return true; if (item.litRef && isWithinLitRef(canonicalizeLitRef(item.litRef), targetIdCanonical)) return true; return false; }
 
 // ... (Existing getLitRefProgressStats - Keep unchanged) ...
 export interface LitRefProgressStats { domain: number; mastery: number; nextReviewDate: Date | null; nextReviewLabel: string; totalItems: number; reviewedItems: number; overdueItems: number; }
 export interface LitRefSmartStatus extends LitRefProgressStats { counts: { total: { questions: number, gaps: number, flashcards: number, pairs: number }; pending: { questions: number, gaps: number, flashcards: number, pairs: number }; notStarted: { questions: number, gaps: number, flashcards: number, pairs: number }; }; lists: { pendingQuestions: Question[]; pendingGaps: Question[]; pendingFlashcards: Flashcard[]; pendingPairs: Flashcard[]; }; nextDueAtFuture: number | null; }
 export const getLitRefProgressStats = (litRef: string, allQuestions: Question[], allFlashcards: Flashcard[], settings: AppSettings): LitRefProgressStats => { const smart = getLitRefSmartStatus(litRef, allQuestions, allFlashcards, settings); return { domain: smart.domain, mastery: smart.mastery, nextReviewDate: smart.nextReviewDate, nextReviewLabel: smart.nextReviewLabel, totalItems: smart.totalItems, reviewedItems: smart.reviewedItems, overdueItems: smart.overdueItems }; }
-export const getLitRefSmartStatus = (litRef: string, allQuestions: Question[], allFlashcards: Flashcard[], settings: AppSettings): LitRefSmartStatus => { const targetCanon = canonicalizeLitRef(litRef); const now = new Date(); const nowTs = now.getTime(); const result: LitRefSmartStatus = { domain: 0, mastery: 0, nextReviewDate: null, nextReviewLabel: '—', totalItems: 0, reviewedItems: 0, overdueItems: 0, counts: { total: { questions: 0, gaps: 0, flashcards: 0, pairs: 0 }, pending: { questions: 0, gaps: 0, flashcards: 0, pairs: 0 }, notStarted: { questions: 0, gaps: 0, flashcards: 0, pairs: 0 } }, lists: { pendingQuestions: [], pendingGaps: [], pendingFlashcards: [], pendingPairs: [] }, nextDueAtFuture: null }; if (!targetCanon) return result; const items: (Question | Flashcard)[] = []; allQuestions.forEach(q => { if (canonicalizeLitRef(q.lawRef || q.litRef) === targetCanon) { items.push(q); if (q.isGapType) result.counts.total.gaps++; else result.counts.total.questions++; } }); allFlashcards.forEach(fc => { const ref = canonicalizeLitRef(fc.litRef) || (fc.tags?.find(t => canonicalizeLitRef(t) === targetCanon) ? targetCanon : ''); if (ref === targetCanon) { items.push(fc); if (fc.tags?.includes('pair-match')) result.counts.total.pairs++; else result.counts.total.flashcards++; } }); result.totalItems = items.length; if (items.length === 0) { result.nextReviewLabel = 'Novo'; return result; } let sumDomain = 0; let sumMastery = 0; let minFutureDate = Infinity; items.forEach(item => { const attempts = item.totalAttempts || 0; if (attempts > 0) { result.reviewedItems++; sumDomain += calculateCurrentDomain(item, settings); sumMastery += (item.masteryScore || 0); } let nextTime = item.nextReviewDate ? new Date(item.nextReviewDate).getTime() : NaN; if (attempts === 0) { if ('isGapType' in item && item.isGapType) result.counts.notStarted.gaps++; else if ('questionText' in item) result.counts.notStarted.questions++; else if (item.tags?.includes('pair-match')) result.counts.notStarted.pairs++; else result.counts.notStarted.flashcards++; } else if (!isNaN(nextTime)) { if (nextTime <= nowTs) { result.overdueItems++; if ('isGapType' in item && item.isGapType) { result.counts.pending.gaps++; result.lists.pendingGaps.push(item as Question); } else if ('questionText' in item) { result.counts.pending.questions++; result.lists.pendingQuestions.push(item as Question); } else if (item.tags?.includes('pair-match')) { result.counts.pending.pairs++; result.lists.pendingPairs.push(item as Flashcard); } else { result.counts.pending.flashcards++; result.lists.pendingFlashcards.push(item as Flashcard); } } else { if (nextTime < minFutureDate) minFutureDate = nextTime; } } }); result.domain = items.length > 0 ? sumDomain / items.length : 0; result.mastery = items.length > 0 ? sumMastery / items.length : 0; if (minFutureDate !== Infinity) { result.nextDueAtFuture = minFutureDate; const nextDate = new Date(minFutureDate); const dayStr = nextDate.getDate().toString().padStart(2, '0'); const monthStr = (nextDate.getMonth() + 1).toString().padStart(2, '0'); const hourStr = nextDate.getHours().toString().padStart(2, '0'); const minStr = nextDate.getMinutes().toString().padStart(2, '0'); if (minFutureDate > nowTs) { result.nextReviewDate = nextDate; if (nextDate.toDateString() === now.toDateString()) { result.nextReviewLabel = `Hoje às ${hourStr}:${minStr}`; } else { result.nextReviewLabel = `${dayStr}/${monthStr} às ${hourStr}:${minStr}`; } } } else { result.nextReviewLabel = result.overdueItems > 0 ? 'AGORA' : (result.reviewedItems > 0 ? 'Concluído' : 'Iniciar'); } if (result.overdueItems > 0) { let oldest = Infinity; items.forEach(i => { const t = new Date(i.nextReviewDate).getTime(); if (t <= nowTs && t < oldest) oldest = t; }); if (oldest !== Infinity) { const d = new Date(oldest); result.nextReviewDate = d; const dayStr = d.getDate().toString().padStart(2, '0'); const monthStr = (d.getMonth() + 1).toString().padStart(2, '0'); const hourStr = d.getHours().toString().padStart(2, '0'); const minStr = d.getMinutes().toString().padStart(2, '0'); result.nextReviewLabel = `ATRASADA (${dayStr}/${monthStr} ${hourStr}:${minStr})`; } } const sortByDate = (a: any, b: any) => new Date(a.nextReviewDate).getTime() - new Date(b.nextReviewDate).getTime(); result.lists.pendingQuestions.sort(sortByDate); result.lists.pendingGaps.sort(sortByDate); result.lists.pendingFlashcards.sort(sortByDate); result.lists.pendingPairs.sort(sortByDate); return result; };
+export const getLitRefSmartStatus = (litRef: string, allQuestions: Question[], allFlashcards: Flashcard[], settings: AppSettings): LitRefSmartStatus => { const targetCanon = canonicalizeLitRef(litRef); const now = new Date(); const nowTs = now.getTime(); const result: LitRefSmartStatus = { domain: 0, mastery: 0, nextReviewDate: null, nextReviewLabel: '—', totalItems: 0, reviewedItems: 0, overdueItems: 0, counts: { total: { questions: 0, gaps: 0, flashcards: 0, pairs: 0 }, pending: { questions: 0, gaps: 0, flashcards: 0, pairs: 0 }, notStarted: { questions: 0, gaps: 0, flashcards: 0, pairs: 0 } }, lists: { pendingQuestions: [], pendingGaps: [], pendingFlashcards: [], pendingPairs: [] }, nextDueAtFuture: null }; if (!targetCanon) return result; const items: (Question | Flashcard)[] = []; allQuestions.forEach(q => { if (isWithinLitRef(canonicalizeLitRef(q.lawRef || q.litRef), targetCanon)) { items.push(q); if (q.isGapType) result.counts.total.gaps++; else result.counts.total.questions++; } }); allFlashcards.forEach(fc => { const ref = canonicalizeLitRef(fc.litRef) || (fc.tags?.find(t => isWithinLitRef(canonicalizeLitRef(t), targetCanon)) ? targetCanon : ''); if (isWithinLitRef(ref, targetCanon)) { items.push(fc); if (fc.tags?.includes('pair-match')) result.counts.total.pairs++; else result.counts.total.flashcards++; } }); result.totalItems = items.length; if (items.length === 0) { result.nextReviewLabel = 'Novo'; return result; } let sumDomain = 0; let sumMastery = 0; let minFutureDate = Infinity; items.forEach(item => { const attempts = item.totalAttempts || 0; if (attempts > 0) { result.reviewedItems++; sumDomain += calculateCurrentDomain(item, settings); sumMastery += (item.masteryScore || 0); } let nextTime = item.nextReviewDate ? new Date(item.nextReviewDate).getTime() : NaN; if (attempts === 0) { if ('isGapType' in item && item.isGapType) result.counts.notStarted.gaps++; else if ('questionText' in item) result.counts.notStarted.questions++; else if (item.tags?.includes('pair-match')) result.counts.notStarted.pairs++; else result.counts.notStarted.flashcards++; } else if (!isNaN(nextTime)) { if (nextTime <= nowTs) { result.overdueItems++; if ('isGapType' in item && item.isGapType) { result.counts.pending.gaps++; result.lists.pendingGaps.push(item as Question); } else if ('questionText' in item) { result.counts.pending.questions++; result.lists.pendingQuestions.push(item as Question); } else if (item.tags?.includes('pair-match')) { result.counts.pending.pairs++; result.lists.pendingPairs.push(item as Flashcard); } else { result.counts.pending.flashcards++; result.lists.pendingFlashcards.push(item as Flashcard); } } else { if (nextTime < minFutureDate) minFutureDate = nextTime; } } }); result.domain = items.length > 0 ? sumDomain / items.length : 0; result.mastery = items.length > 0 ? sumMastery / items.length : 0; if (minFutureDate !== Infinity) { result.nextDueAtFuture = minFutureDate; const nextDate = new Date(minFutureDate); const dayStr = nextDate.getDate().toString().padStart(2, '0'); const monthStr = (nextDate.getMonth() + 1).toString().padStart(2, '0'); const hourStr = nextDate.getHours().toString().padStart(2, '0'); const minStr = nextDate.getMinutes().toString().padStart(2, '0'); if (minFutureDate > nowTs) { result.nextReviewDate = nextDate; if (nextDate.toDateString() === now.toDateString()) { result.nextReviewLabel = `Hoje às ${hourStr}:${minStr}`; } else { result.nextReviewLabel = `${dayStr}/${monthStr} às ${hourStr}:${minStr}`; } } } else { result.nextReviewLabel = result.overdueItems > 0 ? 'AGORA' : (result.reviewedItems > 0 ? 'Concluído' : 'Iniciar'); } if (result.overdueItems > 0) { let oldest = Infinity; items.forEach(i => { const t = new Date(i.nextReviewDate).getTime(); if (t <= nowTs && t < oldest) oldest = t; }); if (oldest !== Infinity) { const d = new Date(oldest); result.nextReviewDate = d; const dayStr = d.getDate().toString().padStart(2, '0'); const monthStr = (d.getMonth() + 1).toString().padStart(2, '0'); const hourStr = d.getHours().toString().padStart(2, '0'); const minStr = d.getMinutes().toString().padStart(2, '0'); result.nextReviewLabel = `ATRASADA (${dayStr}/${monthStr} ${hourStr}:${minStr})`; } } const sortByDate = (a: any, b: any) => new Date(a.nextReviewDate).getTime() - new Date(b.nextReviewDate).getTime(); result.lists.pendingQuestions.sort(sortByDate); result.lists.pendingGaps.sort(sortByDate); result.lists.pendingFlashcards.sort(sortByDate); result.lists.pendingPairs.sort(sortByDate); return result; };
 
 export const traceLinkDebug = (cardId: string, allCards: LiteralnessCard[], allQuestions: Question[], allFlashcards: Flashcard[]) => {};
 export const auditImportLinks = (batchId: string, cards: LiteralnessCard[], questions: Question[], flashcards: Flashcard[], preImportSnapshot?: Map<string, any>) => [];
@@ -94,6 +100,9 @@ export const getPairsForCard = (card: LiteralnessCard, allFlashcards: Flashcard[
 export const getGapsForCard = (card: LiteralnessCard, allQuestions: Question[]): any[] => { const targetId = resolveLitRef(card); if (!targetId) return []; const gaps: any[] = []; let hasLegacyMain = false; if (card.phase2Lacuna && card.phase2Lacuna.trim()) { hasLegacyMain = true; gaps.push({ id: `gap_${targetId}_01`, questionText: card.phase2Lacuna, options: card.phase2Options || { A: "Erro", B: "Erro" }, correctAnswer: card.phase2Correct || 'A', isGapType: true, questionRef: 'GAP-01', totalAttempts: card.cycleProgress?.gapsDone ? 1 : 0, lastWasCorrect: !!card.cycleProgress?.gapsDone, litRef: targetId, parentCard: card, nextReviewDate: card.nextReviewDate, stability: card.stability, masteryScore: card.masteryScore, index: 1 }); } if (card.extraGaps && Array.isArray(card.extraGaps)) { card.extraGaps.forEach((g, i) => { const baseIndex = hasLegacyMain ? 2 : 1; const displayIndex = i + baseIndex; const suffix = String(displayIndex).padStart(2, '0'); const qText = g.text || "Conteúdo não carregado"; const correct = g.correct || "A"; const finalId = g.id || `gap_${targetId}_${suffix}`; gaps.push({ id: finalId, questionText: qText, options: g.options, correctAnswer: correct, isGapType: true, questionRef: `GAP-${suffix}`, totalAttempts: card.cycleProgress?.gapsDone ? 1 : 0, lastWasCorrect: !!card.cycleProgress?.gapsDone, litRef: targetId, parentCard: card, index: displayIndex }); }); } const externalGaps = allQuestions.filter(q => q.isGapType && isLinked(q, targetId)).map((q, i) => ({ ...q, parentCard: card, index: gaps.length + i + 1, id: q.id })); return [...gaps, ...externalGaps]; };
 
 // --- CORE LOGIC: SRS UPDATE ---
+// O cálculo fica nos agendadores (services/scheduler); aqui só se escolhe qual usar.
+// Depois, o vencimento é ajustado à prova-alvo da disciplina e passa pelo
+// balanceamento de carga (limite diário, fuzz, férias), que não passa da prova.
 export const calculateNewSrsState = (
     item: SrsItem, 
     wasCorrect: boolean, 
@@ -101,80 +110,14 @@ export const calculateNewSrsState = (
     timeTaken: number, 
     settings: AppSettings
 ): any => {
-    const { srsV2 } = settings;
     const now = new Date();
-    
-    // Fallbacks
-    let currentS = item.stability || srsV2.S_default_days;
-    let currentD = item.difficulty || 0.5;
-    const currentR = calculateRetrievability(item);
-
-    let newS = currentS;
-    let newD = currentD;
-    
-    if (!wasCorrect) {
-        newD = Math.min(1.0, currentD + 0.2); // Harder
-        newS = Math.max(0.5, currentS * srsV2.gamma_fail); // Cut stability
-    } else {
-        // Difficulty drift
-        if (rating === 3) newD = Math.max(0.1, currentD - 0.15); // Easier
-        else if (rating === 1) newD = Math.min(1.0, currentD + 0.1); // Harder
-        
-        let alpha = srsV2.alpha_good;
-        if (rating === 3) alpha = srsV2.alpha_easy;
-        if (rating === 1) alpha = srsV2.alpha_hard;
-        
-        let gain = alpha * (1 + (1 - currentR) * 2) * (1 + (1 - currentD));
-        
-        let timeBonus = 1.0;
-        const expectedTime = 20; 
-        if (timeTaken < expectedTime * 0.5) timeBonus = 1.0 + srsV2.k_rt_bonus;
-        
-        newS = currentS * (1 + gain * timeBonus);
-    }
-    
-    // Cap S
-    newS = Math.min(newS, settings.learning.srs.stabilityCapDays || 365);
-    
-    // --- MASTERY CALCULATION FIX ---
-    let masteryScore = 0;
-    if (newS <= 1) {
-        if (wasCorrect) masteryScore = 15;
-        else masteryScore = 0;
-    } else {
-        masteryScore = Math.min(100, (Math.log(newS) / Math.log(365)) * 100);
-        if (masteryScore < 20 && wasCorrect) masteryScore = 20;
-    }
-    
-    masteryScore = masteryScore * (1 - (newD * 0.2)); 
-    masteryScore = Math.max(0, Math.min(100, masteryScore));
-
-    const nextDate = addDaysToDate(now, newS);
-
-    let timingClass = 'OK';
-    if (timeTaken < 5) timingClass = 'RUSH';
-    else if (timeTaken > 60) timingClass = 'SLOW';
-
-    return {
-        stability: newS,
-        difficulty: newD,
-        masteryScore: masteryScore,
-        nextReviewDate: nextDate.toISOString(),
-        lastReviewedAt: now.toISOString(),
-        timingClass,
-        targetSec: 30,
-        grade: ['again', 'hard', 'good', 'easy'][rating],
-        lastWasCorrect: wasCorrect
-    };
+    const result = getSchedulerFor(item, settings).review(item, wasCorrect, rating, timeTaken, settings, now);
+    const deadline = examDeadlineFor(item, result.srsAlgorithm, settings, now);
+    return balanceReviewResult(adjustForExam(item, result, settings, now), settings, now, deadline);
 };
 
 export const calculateRetrievability = (item: SrsItem) => {
-    if (!item.lastReviewedAt) return 0;
-    const now = new Date().getTime();
-    const last = new Date(item.lastReviewedAt).getTime();
-    const daysElapsed = (now - last) / DAY_MS;
-    const S = item.stability || 1;
-    return Math.exp(-daysElapsed / S);
+    return getScheduler(item.srsAlgorithm).retrievability(item, new Date());
 }; 
 
 export const calculateCurrentDomain = (item: SrsItem, settings: AppSettings) => {
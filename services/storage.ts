@@ -1,13 +1,15 @@
 
 const DB_NAME = 'MiaaulaDB';
-const DB_VERSION = 9; 
+const DB_VERSION = 11; 
 
 export const STORES = {
     NUCLEUS: 'nucleus',     // PK: lit_ref
     CONTENT: 'content',     // PK: id (DETERMINISTIC), INDEX: lit_ref, type
     PROGRESS: 'progress',   // PK: pk (userId:itemId), INDEX: lit_ref
     SETTINGS: 'settings',   
-    KEYVAL: 'keyval'        
+    KEYVAL: 'keyval',
+    MEDIA: 'media',         // PK: hash (SHA-256 do conteúdo), valor com Blob
+    SEARCH: 'search'        // PK: id (kind:entityId), índice de busca derivado — fora de backup e sync
 };
 
 export function openDB(): Promise<IDBDatabase> {
@@ -37,12 +39,35 @@ export function openDB(): Promise<IDBDatabase> {
             if (!db.objectStoreNames.contains(STORES.KEYVAL)) {
                 db.createObjectStore(STORES.KEYVAL);
             }
+            if (!db.objectStoreNames.contains(STORES.MEDIA)) {
+                db.createObjectStore(STORES.MEDIA, { keyPath: 'hash' });
+            }
+            if (!db.objectStoreNames.contains(STORES.SEARCH)) {
+                db.createObjectStore(STORES.SEARCH, { keyPath: 'id' });
+            }
         };
         request.onsuccess = () => resolve(request.result);
         request.onerror = (e) => reject((e.target as any).error);
     });
 }
 
+// --- WRITE LISTENERS (Sync Journal) ---
+// `key` é informado apenas para o KEYVAL; nos demais stores o store inteiro é marcado como alterado.
+
+export type StorageWriteListener = (storeName: string, key?: string) => void;
+const writeListeners = new Set<StorageWriteListener>();
+
+export function onStorageWrite(listener: StorageWriteListener): () => void {
+    writeListeners.add(listener);
+    return () => { writeListeners.delete(listener); };
+}
+
+function notifyWrite(storeName: string, key?: string) {
+    writeListeners.forEach(listener => {
+        try { listener(storeName, key); } catch (e) { console.warn('[Storage] Write listener failed', e); }
+    });
+}
+
 // --- GENERIC HELPERS ---
 
 export async function dbPut(storeName: string, data: any | any[]): Promise<void> {
@@ -55,7 +80,7 @@ export async function dbPut(storeName: string, data: any | any[]): Promise<void>
         } else {
             store.put(data);
         }
-        tx.oncomplete = () => resolve();
+        tx.oncomplete = () => { notifyWrite(storeName); resolve(); };
         tx.onerror = () => reject(tx.error);
     });
 }
@@ -86,7 +111,7 @@ export async function dbDelete(storeName: string, key: string): Promise<void> {
     const db = await openDB();
     const tx = db.transaction(storeName, 'readwrite');
     tx.objectStore(storeName).delete(key);
-    return new Promise((resolve) => tx.oncomplete = () => resolve());
+    return new Promise((resolve) => tx.oncomplete = () => { notifyWrite(storeName); resolve(); });
 }
 
 // --- SPECIFIC KEY-VAL HELPERS (Legacy Support) ---
@@ -105,7 +130,7 @@ export async function saveData(key: string, data: any): Promise<void> {
     const db = await openDB();
     const tx = db.transaction(STORES.KEYVAL, 'readwrite');
     tx.objectStore(STORES.KEYVAL).put(data, key);
-    return new Promise((resolve) => tx.oncomplete = () => resolve());
+    return new Promise((resolve) => tx.oncomplete = () => { notifyWrite(STORES.KEYVAL, key); resolve(); });
 }
 
 // --- BULK OPERATIONS FOR BACKUP ---
@@ -128,7 +153,19 @@ export async function bulkPutToStore(storeName: string, items: any[]): Promise<v
         const tx = db.transaction(storeName, 'readwrite');
         const store = tx.objectStore(storeName);
         items.forEach(item => store.put(item));
-        tx.oncomplete = () => resolve();
+        tx.oncomplete = () => { notifyWrite(storeName); resolve(); };
+        tx.onerror = (e) => reject((e.target as any).error);
+    });
+}
+
+export async function bulkDeleteFromStore(storeName: string, keys: string[]): Promise<void> {
+    if (!keys || keys.length === 0) return;
+    const db = await openDB();
+    return new Promise((resolve, reject) => {
+        const tx = db.transaction(storeName, 'readwrite');
+        const store = tx.objectStore(storeName);
+        keys.forEach(key => store.delete(key));
+        tx.oncomplete = () => { notifyWrite(storeName); resolve(); };
         tx.onerror = (e) => reject((e.target as any).error);
     });
 }
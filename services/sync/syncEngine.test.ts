@@ -0,0 +1,105 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+
+// IndexedDB em memória, um "banco" por dispositivo
+const db = vi.hoisted(() => {
+    const KEY_PATHS: Record<string, string> = { nucleus: 'id', content: 'id', progress: 'pk', media: 'hash', search: 'id' };
+    const devices = new Map<string, Map<string, Map<string, any>>>();
+    let current = new Map<string, Map<string, any>>();
+    const store = (name: string) => {
+        if (!current.has(name)) current.set(name, new Map());
+        return current.get(name)!;
+    };
+    return {
+        reset: () => devices.clear(),
+        use(device: string) {
+            if (!devices.has(device)) devices.set(device, new Map());
+            current = devices.get(device)!;
+        },
+        store,
+        keyOf: (name: string, item: any) => item[KEY_PATHS[name]],
+    };
+});
+
+vi.mock('../storage', () => ({
+    STORES: { NUCLEUS: 'nucleus', CONTENT: 'content', PROGRESS: 'progress', SETTINGS: 'settings', KEYVAL: 'keyval', MEDIA: 'media', SEARCH: 'search' },
+    onStorageWrite: () => () => {},
+    loadData: async (key: string) => db.store('keyval').get(key) ?? null,
+    saveData: async (key: string, data: any) => { db.store('keyval').set(key, structuredClone(data)); },
+    dbGet: async (name: string, key: string) => db.store(name).get(key) ?? null,
+    dbPut: async (name: string, item: any) => { db.store(name).set(db.keyOf(name, item), item); },
+    dbDelete: async (name: string, key: string) => { db.store(name).delete(key); },
+    getAllFromStore: async (name: string) => [...db.store(name).values()],
+    bulkPutToStore: async (name: string, items: any[]) => { items.forEach(item => db.store(name).set(db.keyOf(name, item), item)); },
+}));
+
+vi.mock('../supabaseClient', () => ({ supabase: {} }));
+
+import { runSync } from './syncEngine';
+import { MemorySyncServer, MemorySyncTransport } from './syncTransports';
+import { putMediaBytes, getMediaBytes } from '../media/mediaStore';
+
+const QUESTIONS_KEY = 'revApp_questions_v5_react';
+
+const onDevice = (device: string) => {
+    db.use(device);
+    const local = new Map<string, string>([['miaaula_device_id', device]]);
+    vi.stubGlobal('localStorage', { getItem: (k: string) => local.get(k) ?? null, setItem: (k: string, v: string) => local.set(k, v) });
+};
+
+describe('runSync', () => {
+    let transport: MemorySyncTransport;
+    beforeEach(() => {
+        db.reset();
+        transport = new MemorySyncTransport(new MemorySyncServer());
+    });
+
+    it('leva a mídia referenciada junto com o registro, uma vez só', async () => {
+        onDevice('dev_a');
+        const ref = await putMediaBytes(new Uint8Array([1, 2, 3, 4]), 'image/png');
+        db.store('keyval').set(QUESTIONS_KEY, [{ id: 'q1', questionText: 'Com imagem', questionImage: ref }]);
+
+        const first = await runSync(transport);
+        expect(first.pushed).toBe(2);
+
+        onDevice('dev_b');
+        const pulled = await runSync(transport);
+        expect(pulled.applied).toBe(2);
+        expect(db.store('keyval').get(QUESTIONS_KEY)).toEqual([{ id: 'q1', questionText: 'Com imagem', questionImage: ref }]);
+        const media = await getMediaBytes(ref);
+        expect(media?.type).toBe('image/png');
+        expect(Array.from(media!.bytes)).toEqual([1, 2, 3, 4]);
+
+        // Editar o registro não reenvia os bytes: o servidor já tem o hash
+        db.store('keyval').set(QUESTIONS_KEY, [{ id: 'q1', questionText: 'Editada', questionImage: ref }]);
+        expect((await runSync(transport)).pushed).toBe(1);
+    });
+
+    it('mescla edições concorrentes unindo o histórico de tentativas', async () => {
+        const base = { id: 'q1', questionText: 'Base', attemptHistory: [] };
+        const attempt = (date: string, wasCorrect: boolean) => ({ date, wasCorrect, masteryAfter: 50, stabilityAfter: 3, timeSec: 10, selfEvalLevel: 2, nextReviewDate: `${date.slice(0, 8)}20T00:00:00.000Z` });
+
+        onDevice('dev_a');
+        db.store('keyval').set(QUESTIONS_KEY, [base]);
+        await runSync(transport);
+        onDevice('dev_b');
+        await runSync(transport);
+
+        onDevice('dev_a');
+        db.store('keyval').set(QUESTIONS_KEY, [{ ...base, attemptHistory: [attempt('2026-01-01T10:00:00.000Z', true)] }]);
+        await runSync(transport);
+
+        onDevice('dev_b');
+        db.store('keyval').set(QUESTIONS_KEY, [{ ...base, attemptHistory: [attempt('2026-01-02T10:00:00.000Z', false)] }]);
+        const result = await runSync(transport);
+        expect(result.conflicts).toBe(1);
+
+        const [merged] = db.store('keyval').get(QUESTIONS_KEY);
+        expect(merged.attemptHistory).toHaveLength(2);
+        expect(merged.lastWasCorrect).toBe(false);
+        expect(merged.nextReviewDate).toBe('2026-01-20T00:00:00.000Z');
+
+        onDevice('dev_a');
+        await runSync(transport);
+        expect(db.store('keyval').get(QUESTIONS_KEY)[0].attemptHistory).toHaveLength(2);
+    });
+});
@@ -0,0 +1,423 @@
+import * as storage from '../storage';
+import { AppSettings } from '../../types';
+import { hashValue } from '../checksum';
+import { collectMediaRefs, mediaFromBackupEntry, MediaBackupEntry, StoredMedia, toMediaBackupEntry } from '../media/mediaStore';
+import { bumpVersion, compareVersions, mergeRecordValues, mergeVersions, VersionVector } from './syncMerge';
+import { SyncRecord, SyncTransport } from './syncTransports';
+
+/**
+ * MOTOR DE SINCRONIZAÇÃO MULTI-DISPOSITIVO
+ *
+ * Cada registro sincronizável recebe uma chave estável, um `updatedAt` e um vetor de versões.
+ * Alterações locais são detectadas por hash (journal) e enviadas; remotas são aplicadas
+ * quando dominam a versão local, ou mescladas (mergeRecordValues) quando concorrentes.
+ *
+ * Fontes:
+ * - stores estruturados: nucleus, content, progress (um registro por item);
+ * - keyval: coleções (questões, flashcards) explodidas por id; demais chaves como documento único;
+ * - mídia (`media|<hash>`): os bytes referenciados pelos registros, enviados uma vez por hash.
+ *   O conteúdo é imutável (endereçado pelo SHA-256), então não há journal nem conflito.
+ */
+
+const SYNC_STATE_KEY = 'miaaula_sync_state';
+const DEVICE_ID_KEY = 'miaaula_device_id';
+const JOURNAL_DEBOUNCE_MS = 2000;
+
+const SYNCED_STORES: Record<string, string> = {
+    [storage.STORES.NUCLEUS]: 'id',
+    [storage.STORES.CONTENT]: 'id',
+    [storage.STORES.PROGRESS]: 'pk'
+};
+
+const KEYVAL_COLLECTIONS = ['revApp_questions_v5_react', 'revApp_flashcards_v1'];
+const SETTINGS_KEY = 'revApp_settings_v1';
+const KEYVAL_DOCUMENTS = [SETTINGS_KEY, 'revApp_topics_v1', 'revApp_trails_v1', 'miaaula_user_profile'];
+const MEDIA_KEY_PREFIX = `${storage.STORES.MEDIA}|`;
+
+interface IndexEntry {
+    hash: string;
+    version: VersionVector;
+    updatedAt: string;
+    deleted?: boolean;
+}
+
+export interface SyncState {
+    deviceId: string;
+    cursor: string | null;
+    index: Record<string, IndexEntry>;
+    journal: string[]; // Chaves alteradas localmente e ainda não enviadas
+    lastSyncAt?: string;
+}
+
+export interface SyncResult {
+    pushed: number;
+    pulled: number;
+    applied: number;
+    conflicts: number;
+}
+
+// --- IDENTIDADE ---
+
+export const getDeviceId = (): string => {
+    let id = localStorage.getItem(DEVICE_ID_KEY);
+    if (!id) {
+        id = `dev_${Date.now().toString(36)}${Math.random().toString(36).substring(2, 8)}`;
+        localStorage.setItem(DEVICE_ID_KEY, id);
+    }
+    return id;
+};
+
+// --- CHAVES DE REGISTRO ---
+
+type SyncSource = { kind: 'store'; store: string } | { kind: 'collection'; key: string } | { kind: 'document'; key: string };
+
+const sourceId = (source: SyncSource): string => source.kind === 'store' ? source.store : `keyval|${source.key}`;
+
+const ALL_SOURCES: SyncSource[] = [
+    ...Object.keys(SYNCED_STORES).map(store => ({ kind: 'store' as const, store })),
+    ...KEYVAL_COLLECTIONS.map(key => ({ kind: 'collection' as const, key })),
+    ...KEYVAL_DOCUMENTS.map(key => ({ kind: 'document' as const, key }))
+];
+
+const parseRecordKey = (recordKey: string): { source: SyncSource; id?: string } | null => {
+    const sep = recordKey.indexOf('|');
+    if (sep < 0) return null;
+    const head = recordKey.slice(0, sep);
+    const rest = recordKey.slice(sep + 1);
+
+    if (head === 'keyval') {
+        const hash = rest.indexOf('#');
+        if (hash >= 0) {
+            const key = rest.slice(0, hash);
+            return KEYVAL_COLLECTIONS.includes(key) ? { source: { kind: 'collection', key }, id: rest.slice(hash + 1) } : null;
+        }
+        return KEYVAL_DOCUMENTS.includes(rest) ? { source: { kind: 'document', key: rest } } : null;
+    }
+    return SYNCED_STORES[head] ? { source: { kind: 'store', store: head }, id: rest } : null;
+};
+
+const sourceIdOfRecord = (recordKey: string): string => {
+    const parsed = parseRecordKey(recordKey);
+    return parsed ? sourceId(parsed.source) : '';
+};
+
+/**
+ * Lê as fontes indicadas e devolve os valores atuais por chave de registro.
+ */
+const readSnapshot = async (sources: SyncSource[]): Promise<Map<string, any>> => {
+    const snapshot = new Map<string, any>();
+
+    for (const source of sources) {
+        if (source.kind === 'store') {
+            const pkField = SYNCED_STORES[source.store];
+            const items = await storage.getAllFromStore<any>(source.store);
+            items.forEach(item => {
+                if (item && item[pkField] !== undefined) snapshot.set(`${source.store}|${item[pkField]}`, item);
+            });
+        } else if (source.kind === 'collection') {
+            const items = await storage.loadData<any[]>(source.key);
+            (Array.isArray(items) ? items : []).forEach(item => {
+                if (item && item.id !== undefined) snapshot.set(`keyval|${source.key}#${item.id}`, item);
+            });
+        } else {
+            const value = await storage.loadData<any>(source.key);
+            if (value !== null && value !== undefined) snapshot.set(`keyval|${source.key}`, value);
+        }
+    }
+
+    return snapshot;
+};
+
+// --- ESTADO PERSISTIDO ---
+
+export const loadSyncState = async (): Promise<SyncState> => {
+    const saved = await storage.loadData<SyncState>(SYNC_STATE_KEY);
+    return {
+        deviceId: getDeviceId(),
+        cursor: saved?.cursor ?? null,
+        index: saved?.index || {},
+        journal: saved?.journal || [],
+        lastSyncAt: saved?.lastSyncAt
+    };
+};
+
+const saveSyncState = (state: SyncState) => storage.saveData(SYNC_STATE_KEY, state);
+
+// --- JOURNAL ---
+
+/**
+ * Compara o snapshot com o índice: registros novos/alterados/removidos ganham nova versão
+ * deste dispositivo e entram no journal.
+ */
+const journalChanges = (state: SyncState, snapshot: Map<string, any>, sources: SyncSource[]): number => {
+    const now = new Date().toISOString();
+    const journal = new Set(state.journal);
+    const scanned = new Set(sources.map(sourceId));
+    let changed = 0;
+
+    snapshot.forEach((value, key) => {
+        const hash = hashValue(value);
+        const entry = state.index[key];
+        if (entry && !entry.deleted && entry.hash === hash) return;
+        state.index[key] = { hash, version: bumpVersion(entry?.version, state.deviceId), updatedAt: now };
+        journal.add(key);
+        changed++;
+    });
+
+    Object.keys(state.index).forEach(key => {
+        const entry = state.index[key];
+        if (entry.deleted || snapshot.has(key) || !scanned.has(sourceIdOfRecord(key))) return;
+        state.index[key] = { hash: '', version: bumpVersion(entry.version, state.deviceId), updatedAt: now, deleted: true };
+        journal.add(key);
+        changed++;
+    });
+
+    state.journal = Array.from(journal);
+    return changed;
+};
+
+let stateLock: Promise<unknown> = Promise.resolve();
+
+// Serializa journal e sync para que não disputem o mesmo estado persistido
+const withStateLock = <T>(fn: () => Promise<T>): Promise<T> => {
+    const run = stateLock.then(fn, fn);
+    stateLock = run.catch(() => undefined);
+    return run;
+};
+
+export const captureLocalChanges = (sources: SyncSource[] = ALL_SOURCES): Promise<number> => withStateLock(async () => {
+    const state = await loadSyncState();
+    const snapshot = await readSnapshot(sources);
+    const changed = journalChanges(state, snapshot, sources);
+    if (changed > 0) await saveSyncState(state);
+    return changed;
+});
+
+let stopJournal: (() => void) | null = null;
+
+/**
+ * Observa escritas no IndexedDB e registra as alterações no journal (com debounce).
+ * Chamado uma vez no boot; idempotente.
+ */
+export const startSyncJournal = (): void => {
+    if (stopJournal) return;
+
+    const dirty = new Map<string, SyncSource>();
+    let timer: ReturnType<typeof setTimeout> | null = null;
+
+    const unsubscribe = storage.onStorageWrite((storeName, key) => {
+        let source: SyncSource | undefined;
+        if (storeName === storage.STORES.KEYVAL) {
+            source = ALL_SOURCES.find(s => s.kind !== 'store' && s.key === key);
+        } else {
+            source = ALL_SOURCES.find(s => s.kind === 'store' && s.store === storeName);
+        }
+        if (!source) return;
+
+        dirty.set(sourceId(source), source);
+        if (timer) clearTimeout(timer);
+        timer = setTimeout(() => {
+            const sources = Array.from(dirty.values());
+            dirty.clear();
+            captureLocalChanges(sources).catch(e => console.warn('[Sync] Journal failed', e));
+        }, JOURNAL_DEBOUNCE_MS);
+    });
+
+    stopJournal = () => {
+        if (timer) clearTimeout(timer);
+        unsubscribe();
+        stopJournal = null;
+    };
+};
+
+export const getPendingChangesCount = async (): Promise<number> => (await loadSyncState()).journal.length;
+
+// --- APLICAÇÃO DE REGISTROS REMOTOS ---
+
+const applyRecords = async (records: SyncRecord[]): Promise<void> => {
+    const storePuts = new Map<string, any[]>();
+    const storeDeletes: { store: string; id: string }[] = [];
+    const collectionOps = new Map<string, SyncRecord[]>();
+
+    records.forEach(record => {
+        const parsed = parseRecordKey(record.key);
+        if (!parsed) return;
+        const { source, id } = parsed;
+
+        if (source.kind === 'store') {
+            if (record.deleted) storeDeletes.push({ store: source.store, id: id! });
+            else storePuts.set(source.store, [...(storePuts.get(source.store) || []), record.value]);
+        } else if (source.kind === 'collection') {
+            collectionOps.set(source.key, [...(collectionOps.get(source.key) || []), record]);
+        }
+    });
+
+    for (const [store, items] of storePuts) await storage.bulkPutToStore(store, items);
+    for (const { store, id } of storeDeletes) await storage.dbDelete(store, id);
+
+    for (const [key, ops] of collectionOps) {
+        const items = (await storage.loadData<any[]>(key)) || [];
+        const byId = new Map<string, any>(items.map(item => [String(item.id), item]));
+        ops.forEach(record => {
+            const id = parseRecordKey(record.key)!.id!;
+            if (record.deleted) byId.delete(id);
+            else byId.set(id, record.value);
+        });
+        await storage.saveData(key, Array.from(byId.values()));
+    }
+
+    for (const record of records) {
+        const parsed = parseRecordKey(record.key);
+        if (parsed?.source.kind === 'document' && !record.deleted) {
+            await storage.saveData(parsed.source.key, record.value);
+        }
+    }
+};
+
+// --- MÍDIA ---
+
+const isMediaKey = (recordKey: string) => recordKey.startsWith(MEDIA_KEY_PREFIX);
+
+/**
+ * Registros de mídia para os hashes referenciados que ainda não estão no servidor
+ * (nem enviados nem recebidos por este dispositivo). Marca-os no índice.
+ */
+const collectOutgoingMedia = async (state: SyncState, values: Iterable<any>): Promise<SyncRecord[]> => {
+    const refs = new Set<string>();
+    for (const value of values) collectMediaRefs(value, refs);
+
+    const now = new Date().toISOString();
+    const records: SyncRecord[] = [];
+    for (const hash of refs) {
+        const key = `${MEDIA_KEY_PREFIX}${hash}`;
+        if (state.index[key]) continue;
+        const stored = await storage.dbGet<StoredMedia>(storage.STORES.MEDIA, hash);
+        if (!stored) continue;
+        const version = bumpVersion(undefined, state.deviceId);
+        records.push({ key, value: await toMediaBackupEntry(stored), version, updatedAt: now, deviceId: state.deviceId });
+        state.index[key] = { hash, version, updatedAt: now };
+    }
+    return records;
+};
+
+const applyMedia = async (entries: MediaBackupEntry[]): Promise<void> => {
+    for (const entry of entries) {
+        if (await storage.dbGet<StoredMedia>(storage.STORES.MEDIA, entry.hash)) continue;
+        await storage.dbPut(storage.STORES.MEDIA, mediaFromBackupEntry(entry));
+    }
+};
+
+// --- SYNC ---
+
+/**
+ * Ciclo completo: journal local → pull → resolução (vetores de versão) → aplicação → push.
+ * Após aplicar alterações remotas, a UI deve recarregar os contextos (ver DeviceSyncPanel).
+ */
+export const runSync = (transport: SyncTransport): Promise<SyncResult> => withStateLock(async () => {
+    const state = await loadSyncState();
+    const snapshot = await readSnapshot(ALL_SOURCES);
+    journalChanges(state, snapshot, ALL_SOURCES);
+    // Agendador usado para refazer o SRS de históricos concorrentes
+    const settings: AppSettings | undefined = snapshot.get(`keyval|${SETTINGS_KEY}`);
+
+    const { records: remote, cursor } = await transport.pull(state.cursor);
+    const journal = new Set(state.journal);
+    const toApply: SyncRecord[] = [];
+    const incomingMedia: MediaBackupEntry[] = [];
+    let conflicts = 0;
+
+    // Mantém só a versão mais recente de cada chave no lote recebido
+    const latestRemote = new Map<string, SyncRecord>();
+    remote.forEach(r => latestRemote.set(r.key, r));
+
+    latestRemote.forEach(record => {
+        if (isMediaKey(record.key)) {
+            if (record.deleted || !record.value?.data) return;
+            incomingMedia.push(record.value);
+            state.index[record.key] = { hash: record.value.hash, version: record.version, updatedAt: record.updatedAt };
+            return;
+        }
+        if (!parseRecordKey(record.key)) return;
+        const local = state.index[record.key];
+        const order = compareVersions(record.version, local?.version);
+
+        if (order === 'BEFORE' || order === 'EQUAL') return;
+
+        if (order === 'AFTER' || !local) {
+            toApply.push(record);
+            state.index[record.key] = {
+                hash: record.deleted ? '' : hashValue(record.value),
+                version: record.version,
+                updatedAt: record.updatedAt,
+                deleted: record.deleted
+            };
+            journal.delete(record.key);
+            return;
+        }
+
+        // Concorrente: os dois lados alteraram desde a última versão comum
+        conflicts++;
+        const now = new Date().toISOString();
+        const version = bumpVersion(mergeVersions(local.version, record.version), state.deviceId);
+        let merged: SyncRecord;
+
+        if (record.deleted || local.deleted) {
+            const remoteWins = new Date(record.updatedAt).getTime() > new Date(local.updatedAt).getTime();
+            const winnerDeleted = remoteWins ? !!record.deleted : !!local.deleted;
+            const value = winnerDeleted ? null : (remoteWins ? record.value : snapshot.get(record.key));
+            merged = { key: record.key, value, version, updatedAt: now, deviceId: state.deviceId, deleted: winnerDeleted };
+        } else {
+            const value = mergeRecordValues(snapshot.get(record.key), record.value, local.updatedAt, record.updatedAt, settings);
+            merged = { key: record.key, value, version, updatedAt: now, deviceId: state.deviceId };
+        }
+
+        toApply.push(merged);
+        state.index[record.key] = {
+            hash: merged.deleted ? '' : hashValue(merged.value),
+            version,
+            updatedAt: now,
+            deleted: merged.deleted
+        };
+        journal.add(record.key);
+    });
+
+    // Índice atualizado antes de gravar: o journal não reenvia o que acabou de chegar
+    state.journal = Array.from(journal);
+    await saveSyncState(state);
+    // Mídia antes dos registros: quem a referencia já encontra os bytes
+    await applyMedia(incomingMedia);
+    await applyRecords(toApply);
+
+    const mergedValues = new Map(toApply.map(r => [r.key, r.value]));
+    const outgoing: SyncRecord[] = state.journal
+        .filter(key => state.index[key])
+        .map(key => {
+            const entry = state.index[key];
+            return {
+                key,
+                value: entry.deleted ? null : (mergedValues.has(key) ? mergedValues.get(key) : snapshot.get(key)),
+                version: entry.version,
+                updatedAt: entry.updatedAt,
+                deviceId: state.deviceId,
+                deleted: entry.deleted
+            };
+        });
+
+    const media = await collectOutgoingMedia(state, [...snapshot.values(), ...mergedValues.values()]);
+    await transport.push([...media, ...outgoing]);
+
+    state.journal = [];
+    state.cursor = cursor;
+    state.lastSyncAt = new Date().toISOString();
+    await saveSyncState(state);
+
+    return { pushed: media.length + outgoing.length, pulled: remote.length, applied: toApply.length + incomingMedia.length, conflicts };
+});
+
+/**
+ * Esquece cursor e índice (ex.: troca de conta). Na próxima sincronização tudo é reenviado
+ * e as versões remotas são comparadas/mescladas novamente.
+ */
+export const resetSyncState = (): Promise<void> => withStateLock(async () => {
+    await saveSyncState({ deviceId: getDeviceId(), cursor: null, index: {}, journal: [] });
+});
@@ -0,0 +1,117 @@
+import { describe, it, expect } from 'vitest';
+import { AppSettings, Attempt } from '../../types';
+import { legacyScheduler } from '../scheduler/legacyScheduler';
+import { compareVersions, mergeVersions, mergeAttemptHistories, mergeRecordValues, recomputeSrsFromHistory } from './syncMerge';
+
+const attempt = (date: string, wasCorrect: boolean, extra: Partial<Attempt> = {}): Attempt => ({
+    date, wasCorrect, masteryAfter: wasCorrect ? 60 : 20, stabilityAfter: wasCorrect ? 10 : 1, timeSec: 30, selfEvalLevel: wasCorrect ? 2 : 0, ...extra,
+});
+
+const settings = {
+    srsAlgorithm: 'legacy',
+    srsV2: {
+        time_target_sec: 60, alpha_easy: 2.5, alpha_good: 1.8, alpha_hard: 1.2, gamma_fail: 0.5, rt_fast: 0.7, rt_slow: 1.5, k_rt_bonus: 0.1,
+        k_long_gap: 0.2, target_R: 0.9, min_interval_days: 1, max_hot_days: 3, S_default_days: 1, cap_S_days: 365, enableRetrievabilityCheck: false,
+    },
+    subjectConfigs: {},
+} as unknown as AppSettings;
+
+/** Tentativa gravada como o app grava: estado resultante da revisão a partir de `state`. */
+const reviewAt = (state: any, date: string, wasCorrect: boolean, extra: Partial<Attempt> = {}) => {
+    const result = legacyScheduler.review({ id: 'q1', attemptHistory: [], masteryScore: 0, totalAttempts: 0, nextReviewDate: '', ...state }, wasCorrect, wasCorrect ? 2 : 0, 30, settings, new Date(date));
+    const recorded = attempt(date, wasCorrect, { stabilityAfter: result.stability, difficultyAfter: result.difficulty, masteryAfter: result.masteryScore, nextReviewDate: result.nextReviewDate, ...extra });
+    return { recorded, state: { ...state, ...result } };
+};
+
+describe('vetores de versão', () => {
+    it('detecta ordem e concorrência', () => {
+        expect(compareVersions({ a: 1 }, { a: 1 })).toBe('EQUAL');
+        expect(compareVersions({ a: 1 }, { a: 2 })).toBe('BEFORE');
+        expect(compareVersions({ a: 2, b: 1 }, { a: 2 })).toBe('AFTER');
+        expect(compareVersions({ a: 2 }, { b: 1 })).toBe('CONCURRENT');
+        expect(mergeVersions({ a: 2, b: 1 }, { a: 1, b: 3 })).toEqual({ a: 2, b: 3 });
+    });
+});
+
+describe('mergeAttemptHistories', () => {
+    it('une as tentativas dos dois lados sem duplicar e em ordem cronológica', () => {
+        const shared = attempt('2026-01-01T10:00:00.000Z', true);
+        const merged = mergeAttemptHistories(
+            [shared, attempt('2026-01-03T10:00:00.000Z', false)],
+            [shared, attempt('2026-01-02T10:00:00.000Z', true)]
+        );
+        expect(merged.map(a => a.date.slice(0, 10))).toEqual(['2026-01-01', '2026-01-02', '2026-01-03']);
+    });
+});
+
+describe('recomputeSrsFromHistory', () => {
+    it('usa a próxima revisão agendada pela última tentativa', () => {
+        // Agendada com limite de prova/balanceamento: não coincide com data + estabilidade
+        const last = attempt('2026-01-05T10:00:00.000Z', true, { stabilityAfter: 30, nextReviewDate: '2026-01-12T10:00:00.000Z' });
+        const item = recomputeSrsFromHistory<Record<string, any>>({ id: 'q1' }, [attempt('2026-01-01T10:00:00.000Z', false), last]);
+        expect(item.nextReviewDate).toBe('2026-01-12T10:00:00.000Z');
+        expect(item.stability).toBe(30);
+        expect(item.correctStreak).toBe(1);
+        expect(item.totalAttempts).toBe(2);
+    });
+
+    it('tentativas antigas sem data agendada caem na aproximação por estabilidade', () => {
+        const item = recomputeSrsFromHistory<Record<string, any>>({ id: 'q1' }, [attempt('2026-01-01T00:00:00.000Z', true, { stabilityAfter: 4 })]);
+        expect(item.nextReviewDate.slice(0, 10)).toBe('2026-01-05');
+    });
+});
+
+describe('mergeRecordValues', () => {
+    it('conteúdo segue o lado mais recente e o SRS vem do histórico unificado', () => {
+        const local = { id: 'q1', questionText: 'antigo', attemptHistory: [attempt('2026-01-01T10:00:00.000Z', true, { nextReviewDate: '2026-01-08T10:00:00.000Z' })] };
+        const remote = { id: 'q1', questionText: 'novo', attemptHistory: [attempt('2026-01-02T10:00:00.000Z', false, { nextReviewDate: '2026-01-03T10:00:00.000Z' })] };
+        const merged = mergeRecordValues(local, remote, '2026-01-01T12:00:00.000Z', '2026-01-02T12:00:00.000Z');
+        expect(merged.questionText).toBe('novo');
+        expect(merged.attemptHistory).toHaveLength(2);
+        expect(merged.lastWasCorrect).toBe(false);
+        expect(merged.nextReviewDate).toBe('2026-01-03T10:00:00.000Z');
+    });
+
+    it('históricos concorrentes: refaz o SRS com o agendador a partir do histórico comum', () => {
+        const base = reviewAt({ stability: 1 }, '2026-01-01T10:00:00.000Z', true);
+        // Cada aparelho revisou a partir do mesmo estado, sem ver a revisão do outro
+        const onPhone = reviewAt(base.state, '2026-01-05T10:00:00.000Z', true);
+        const onDesktop = reviewAt(base.state, '2026-01-06T10:00:00.000Z', true);
+        const local = { id: 'q1', errorCount: 0, attemptHistory: [base.recorded, onPhone.recorded] };
+        const remote = { id: 'q1', errorCount: 0, attemptHistory: [base.recorded, onDesktop.recorded] };
+
+        const merged = mergeRecordValues(local, remote, '2026-01-05T12:00:00.000Z', '2026-01-06T12:00:00.000Z', settings);
+        const expected = reviewAt(onPhone.state, '2026-01-06T10:00:00.000Z', true);
+
+        expect(merged.attemptHistory).toHaveLength(3);
+        expect(merged.attemptHistory[0]).toEqual(base.recorded);
+        expect(merged.stability).toBeCloseTo(expected.state.stability, 6);
+        // Copiar a última tentativa ignoraria a revisão do outro aparelho
+        expect(merged.stability).not.toBeCloseTo(onDesktop.recorded.stabilityAfter, 3);
+        expect(merged.nextReviewDate).toBe(expected.state.nextReviewDate);
+        expect(merged.attemptHistory[2].stabilityAfter).toBeCloseTo(expected.state.stability, 6);
+        expect(merged).toMatchObject({ totalAttempts: 3, correctStreak: 3, errorCount: 0, lastWasCorrect: true });
+    });
+
+    it('cloze: refaz cada irmã pelo próprio histórico e conta todas as tentativas', () => {
+        const c1 = reviewAt({ stability: 1 }, '2026-01-01T10:00:00.000Z', true, { siblingKey: 'c1' });
+        const c1Phone = reviewAt(c1.state, '2026-01-04T10:00:00.000Z', false, { siblingKey: 'c1' });
+        const c1Desktop = reviewAt(c1.state, '2026-01-05T10:00:00.000Z', true, { siblingKey: 'c1' });
+        const c2Desktop = reviewAt({ stability: 1 }, '2026-01-05T11:00:00.000Z', true, { siblingKey: 'c2' });
+        const card = { id: 'fc1', type: 'cloze', front: '{{c1::a}} e {{c2::b}}', back: '' };
+        const local = { ...card, attemptHistory: [c1.recorded, c1Phone.recorded], siblingStates: { c1: { stability: c1Phone.state.stability, lastReviewedAt: '2026-01-04T10:00:00.000Z' } } };
+        const remote = {
+            ...card, attemptHistory: [c1.recorded, c1Desktop.recorded, c2Desktop.recorded],
+            siblingStates: { c1: { stability: c1Desktop.state.stability, lastReviewedAt: '2026-01-05T10:00:00.000Z' }, c2: { stability: c2Desktop.state.stability, lastReviewedAt: '2026-01-05T11:00:00.000Z' } },
+        };
+
+        const merged = mergeRecordValues(local, remote, '2026-01-04T12:00:00.000Z', '2026-01-05T12:00:00.000Z', settings);
+        const expectedC1 = reviewAt(c1Phone.state, '2026-01-05T10:00:00.000Z', true);
+
+        expect(merged.siblingStates.c1.stability).toBeCloseTo(expectedC1.state.stability, 6);
+        expect(merged.siblingStates.c1.totalAttempts).toBe(3);
+        expect(merged.siblingStates.c2.stability).toBeCloseTo(c2Desktop.state.stability, 6);
+        expect(merged.totalAttempts).toBe(4);
+        expect(merged.lastReviewedAt).toBe('2026-01-05T11:00:00.000Z');
+    });
+});
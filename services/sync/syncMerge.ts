@@ -0,0 +1,163 @@
+import { AppSettings, Attempt, FlashcardSiblingState, SrsItem } from '../../types';
+import { addDaysISO } from '../srsService';
+import { rescheduleFromHistory } from '../scheduler';
+import { recomputeParentFromSiblings } from '../siblingService';
+
+/**
+ * Vetor de versões: contador de alterações por dispositivo.
+ * Permite distinguir "o outro lado já viu minha mudança" de "alterações concorrentes".
+ */
+export type VersionVector = Record<string, number>;
+
+export type VersionOrder = 'EQUAL' | 'BEFORE' | 'AFTER' | 'CONCURRENT';
+
+export const bumpVersion = (version: VersionVector | undefined, deviceId: string): VersionVector => ({
+    ...(version || {}),
+    [deviceId]: ((version || {})[deviceId] || 0) + 1
+});
+
+/**
+ * Compara `a` com `b`: AFTER quando `a` domina `b` (viu tudo que `b` viu e mais).
+ */
+export const compareVersions = (a: VersionVector | undefined, b: VersionVector | undefined): VersionOrder => {
+    const va = a || {};
+    const vb = b || {};
+    let aAhead = false;
+    let bAhead = false;
+
+    new Set([...Object.keys(va), ...Object.keys(vb)]).forEach(device => {
+        const ca = va[device] || 0;
+        const cb = vb[device] || 0;
+        if (ca > cb) aAhead = true;
+        if (cb > ca) bAhead = true;
+    });
+
+    if (aAhead && bAhead) return 'CONCURRENT';
+    if (aAhead) return 'AFTER';
+    if (bAhead) return 'BEFORE';
+    return 'EQUAL';
+};
+
+export const mergeVersions = (a: VersionVector | undefined, b: VersionVector | undefined): VersionVector => {
+    const merged: VersionVector = { ...(a || {}) };
+    Object.entries(b || {}).forEach(([device, count]) => {
+        merged[device] = Math.max(merged[device] || 0, count);
+    });
+    return merged;
+};
+
+// --- ATTEMPT HISTORY (append-only) ---
+
+const attemptKey = (a: Attempt): string => `${a.date}|${a.siblingKey || ''}|${a.wasCorrect ? 1 : 0}`;
+
+/**
+ * União dos históricos de tentativas. `attemptHistory` é append-only,
+ * então nenhuma tentativa registrada em qualquer dispositivo é descartada.
+ */
+export const mergeAttemptHistories = (a: Attempt[] = [], b: Attempt[] = []): Attempt[] => {
+    const byKey = new Map<string, Attempt>();
+    [...a, ...b].forEach(attempt => {
+        if (!attempt || !attempt.date) return;
+        const key = attemptKey(attempt);
+        if (!byKey.has(key)) byKey.set(key, attempt);
+    });
+    return Array.from(byKey.values()).sort((x, y) => new Date(x.date).getTime() - new Date(y.date).getTime());
+};
+
+/**
+ * Recalcula o estado SRS a partir do histórico unificado, reexecutando o agendador do
+ * item (rescheduleFromHistory, por irmã em cartas cloze/oclusão). As tentativas iniciais
+ * em `isSettled` (o histórico comum aos dois lados) ficam como gravadas e o replay parte
+ * do estado da última delas. Sem configurações salvas, vale o estado gravado na última tentativa.
+ */
+export const recomputeSrsFromHistory = <T extends Record<string, any>>(item: T, history: Attempt[], settings?: AppSettings | null, isSettled?: (attempt: Attempt) => boolean): T => {
+    const last = history[history.length - 1];
+    let next: Record<string, any> = { ...item, attemptHistory: history, totalAttempts: history.length };
+    if (!last) return next as T;
+
+    if (settings?.srsV2) {
+        next = rescheduleFromHistory(next as unknown as SrsItem, settings, item.srsAlgorithm, isSettled);
+    } else if (!last.siblingKey) {
+        next.stability = last.stabilityAfter;
+        next.masteryScore = last.masteryAfter;
+        if (last.difficultyAfter !== undefined) next.difficulty = last.difficultyAfter;
+        next.nextReviewDate = last.nextReviewDate || addDaysISO(last.date, Math.max(0, last.stabilityAfter || 0));
+        if (last.grade) next.lastGrade = last.grade;
+    }
+
+    // Campos do item inteiro: a tentativa mais recente (de qualquer irmã) e a sequência dela
+    const own = history.filter(a => a.siblingKey === last.siblingKey);
+    let correctStreak = 0;
+    for (let i = own.length - 1; i >= 0 && own[i].wasCorrect; i--) correctStreak++;
+    next.lastReviewedAt = last.date;
+    next.lastAttemptDate = last.date;
+    next.lastWasCorrect = last.wasCorrect;
+    next.correctStreak = correctStreak;
+    next.totalAttempts = history.length;
+    if ('errorCount' in item) {
+        next.errorCount = history.filter(a => !a.wasCorrect).length;
+    }
+
+    return next as T;
+};
+
+const newerSiblingState = (a?: FlashcardSiblingState, b?: FlashcardSiblingState): FlashcardSiblingState | undefined => {
+    if (!a) return b;
+    if (!b) return a;
+    const ta = a.lastReviewedAt ? new Date(a.lastReviewedAt).getTime() : 0;
+    const tb = b.lastReviewedAt ? new Date(b.lastReviewedAt).getTime() : 0;
+    return tb > ta ? b : a;
+};
+
+const mergeSiblingStates = (a?: Record<string, FlashcardSiblingState>, b?: Record<string, FlashcardSiblingState>) => {
+    if (!a && !b) return undefined;
+    const merged: Record<string, FlashcardSiblingState> = {};
+    new Set([...Object.keys(a || {}), ...Object.keys(b || {})]).forEach(key => {
+        const state = newerSiblingState(a?.[key], b?.[key]);
+        if (state) merged[key] = state;
+    });
+    return merged;
+};
+
+const isPlainObject = (v: any): boolean => !!v && typeof v === 'object' && !Array.isArray(v);
+
+/**
+ * Mescla duas versões concorrentes de um registro.
+ * - Campos de conteúdo: o lado com `updatedAt` mais recente vence (last-writer-wins).
+ * - attemptHistory: união das tentativas + SRS refeito a partir do histórico comum.
+ * - Registros do store CONTENT ({ id, type, payload }) são mesclados pelo payload.
+ */
+export const mergeRecordValues = (local: any, remote: any, localUpdatedAt: string, remoteUpdatedAt: string, settings?: AppSettings | null): any => {
+    if (local === undefined || local === null) return remote;
+    if (remote === undefined || remote === null) return local;
+
+    const remoteIsNewer = new Date(remoteUpdatedAt).getTime() > new Date(localUpdatedAt).getTime();
+    const [older, newer] = remoteIsNewer ? [local, remote] : [remote, local];
+
+    if (!isPlainObject(local) || !isPlainObject(remote)) return newer;
+
+    let merged: any = { ...older, ...newer };
+
+    if (isPlainObject(local.payload) && isPlainObject(remote.payload)) {
+        merged.payload = mergeRecordValues(local.payload, remote.payload, localUpdatedAt, remoteUpdatedAt, settings);
+    }
+
+    // Irmãs sem tentativas novas: a revisão mais recente; as demais são refeitas pelo histórico
+    if (local.siblingStates || remote.siblingStates) {
+        merged.siblingStates = mergeSiblingStates(local.siblingStates, remote.siblingStates);
+    }
+
+    if (Array.isArray(local.attemptHistory) || Array.isArray(remote.attemptHistory)) {
+        const localKeys = new Set<string>((local.attemptHistory || []).map(attemptKey));
+        const remoteKeys = new Set<string>((remote.attemptHistory || []).map(attemptKey));
+        const history = mergeAttemptHistories(local.attemptHistory, remote.attemptHistory);
+        merged = recomputeSrsFromHistory(merged, history, settings, a => localKeys.has(attemptKey(a)) && remoteKeys.has(attemptKey(a)));
+    }
+
+    if (merged.siblingStates) {
+        // Cards com irmãs (cloze/oclusão): o pai é agregado das irmãs
+        merged = recomputeParentFromSiblings(merged);
+    }
+
+    return merged;
+};
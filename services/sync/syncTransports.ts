@@ -0,0 +1,193 @@
+import { supabase } from '../supabaseClient';
+import { VersionVector } from './syncMerge';
+
+/**
+ * Registro trafegado entre dispositivos.
+ * `key` identifica o registro de forma estável: `<store>|<id>` ou `keyval|<chave>#<id>`.
+ */
+export interface SyncRecord {
+    key: string;
+    value: any;
+    version: VersionVector;
+    updatedAt: string;
+    deviceId: string;
+    deleted?: boolean;
+}
+
+export interface SyncPullResult {
+    records: SyncRecord[];
+    cursor: string | null;
+}
+
+/**
+ * Transporte plugável: o motor só precisa de "o que mudou desde o cursor" e "grave estes registros".
+ * A resolução de conflitos acontece no cliente; o servidor apenas guarda a última versão enviada.
+ */
+export interface SyncTransport {
+    id: string;
+    label: string;
+    pull(cursor: string | null): Promise<SyncPullResult>;
+    push(records: SyncRecord[]): Promise<void>;
+}
+
+// --- SUPABASE ---
+
+const SUPABASE_TABLE = 'miaaula_sync_records';
+const SUPABASE_PAGE_SIZE = 500;
+/**
+ * Sequências relidas antes do cursor. Um upsert que pegou `sync_seq` menor mas confirmou
+ * depois de outro já lido ficaria para trás; relidos, os repetidos têm versão igual à do
+ * índice e o motor os ignora.
+ */
+const SUPABASE_CURSOR_OVERLAP = 2000;
+
+/** Cursor numérico; cursores antigos (timestamp de `synced_at`) recomeçam do zero. */
+const parseSeqCursor = (cursor: string | null): number =>
+    cursor && /^\d+$/.test(cursor) ? parseInt(cursor, 10) : 0;
+
+/**
+ * Tabela esperada (ver docs/SYNC.md):
+ * user_id uuid, record_key text, value jsonb, version jsonb, updated_at timestamptz,
+ * device_id text, deleted boolean, sync_seq bigint (próximo valor de uma sequência,
+ * atribuído por trigger a cada upsert), primary key (user_id, record_key).
+ */
+export class SupabaseSyncTransport implements SyncTransport {
+    id = 'supabase';
+    label = 'Supabase';
+
+    private async getUserId(): Promise<string> {
+        const { data: { user } } = await supabase.auth.getUser();
+        if (!user) throw new Error('Faça login no Supabase para sincronizar.');
+        return user.id;
+    }
+
+    async pull(cursor: string | null): Promise<SyncPullResult> {
+        const userId = await this.getUserId();
+        const latest = new Map<string, SyncRecord>();
+        let nextCursor = parseSeqCursor(cursor);
+        let after = Math.max(0, nextCursor - SUPABASE_CURSOR_OVERLAP);
+
+        while (true) {
+            const { data, error } = await supabase
+                .from(SUPABASE_TABLE)
+                .select('record_key, value, version, updated_at, device_id, deleted, sync_seq')
+                .eq('user_id', userId)
+                .gt('sync_seq', after)
+                .order('sync_seq', { ascending: true })
+                .limit(SUPABASE_PAGE_SIZE);
+            if (error) throw new Error(`Supabase pull: ${error.message}`);
+            const rows = data || [];
+
+            rows.forEach((row: any) => {
+                // Mesma chave relida (janela de sobreposição ou upsert durante a paginação): fica a última
+                latest.delete(row.record_key);
+                latest.set(row.record_key, {
+                    key: row.record_key,
+                    value: row.value,
+                    version: row.version || {},
+                    updatedAt: row.updated_at,
+                    deviceId: row.device_id,
+                    deleted: !!row.deleted
+                });
+                after = Number(row.sync_seq);
+                nextCursor = Math.max(nextCursor, after);
+            });
+
+            if (rows.length < SUPABASE_PAGE_SIZE) break;
+        }
+
+        return { records: Array.from(latest.values()), cursor: String(nextCursor) };
+    }
+
+    async push(records: SyncRecord[]): Promise<void> {
+        if (records.length === 0) return;
+        const userId = await this.getUserId();
+
+        for (let i = 0; i < records.length; i += SUPABASE_PAGE_SIZE) {
+            const rows = records.slice(i, i + SUPABASE_PAGE_SIZE).map(r => ({
+                user_id: userId,
+                record_key: r.key,
+                value: r.value,
+                version: r.version,
+                updated_at: r.updatedAt,
+                device_id: r.deviceId,
+                deleted: !!r.deleted
+            }));
+            const { error } = await supabase.from(SUPABASE_TABLE).upsert(rows, { onConflict: 'user_id,record_key' });
+            if (error) throw new Error(`Supabase push: ${error.message}`);
+        }
+    }
+}
+
+// --- HTTP (servidor local de testes: scripts/sync-server.js) ---
+
+export class HttpSyncTransport implements SyncTransport {
+    id = 'http';
+    label: string;
+
+    constructor(private baseUrl: string) {
+        this.baseUrl = baseUrl.replace(/\/+$/, '');
+        this.label = `Servidor local (${this.baseUrl})`;
+    }
+
+    async pull(cursor: string | null): Promise<SyncPullResult> {
+        const url = `${this.baseUrl}/sync${cursor ? `?since=${encodeURIComponent(cursor)}` : ''}`;
+        const res = await fetch(url);
+        if (!res.ok) throw new Error(`Servidor de sync respondeu ${res.status}`);
+        const body = await res.json();
+        return { records: body.records || [], cursor: body.cursor ?? cursor };
+    }
+
+    async push(records: SyncRecord[]): Promise<void> {
+        if (records.length === 0) return;
+        const res = await fetch(`${this.baseUrl}/sync`, {
+            method: 'POST',
+            headers: { 'Content-Type': 'application/json' },
+            body: JSON.stringify({ records })
+        });
+        if (!res.ok) throw new Error(`Servidor de sync respondeu ${res.status}`);
+    }
+}
+
+// --- MEMÓRIA (testes no mesmo processo / várias abas simuladas) ---
+
+/**
+ * Servidor em memória com a mesma semântica do servidor HTTP:
+ * cada push recebe um número de sequência; o cursor é a última sequência vista.
+ */
+export class MemorySyncServer {
+    private seq = 0;
+    private records = new Map<string, { seq: number; record: SyncRecord }>();
+
+    pull(cursor: string | null): SyncPullResult {
+        const since = cursor ? parseInt(cursor, 10) : 0;
+        const changed = Array.from(this.records.values())
+            .filter(r => r.seq > since)
+            .sort((a, b) => a.seq - b.seq);
+        return {
+            records: changed.map(r => r.record),
+            cursor: String(changed.length > 0 ? changed[changed.length - 1].seq : since)
+        };
+    }
+
+    push(records: SyncRecord[]) {
+        records.forEach(record => {
+            this.records.set(record.key, { seq: ++this.seq, record });
+        });
+    }
+}
+
+export class MemorySyncTransport implements SyncTransport {
+    id = 'memory';
+    label = 'Memória (teste)';
+
+    constructor(private server: MemorySyncServer = new MemorySyncServer()) {}
+
+    async pull(cursor: string | null): Promise<SyncPullResult> {
+        return this.server.pull(cursor);
+    }
+
+    async push(records: SyncRecord[]): Promise<void> {
+        this.server.push(JSON.parse(JSON.stringify(records)));
+    }
+}
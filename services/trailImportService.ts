@@ -1,10 +1,11 @@
 
-import { Question, Flashcard, LiteralnessCard, AppSettings, ImportReport, ImportDetail, ImportStagingData, ImportEntityType, ImportCountDetail, LessonNode, Gap, StudyStep, LessonStatus } from '../types';
+import { Question, Flashcard, LiteralnessCard, AppSettings, ImportReport, ImportDetail, ImportStagingData, ImportEntityType, ImportCountDetail, ImportMode, LessonNode, Gap, StudyStep, LessonStatus } from '../types';
 import * as srs from './srsService';
 import * as idGen from './idGenerator';
 import { buildReadingSteps } from './readingParser';
 import { normalizeDiscipline } from './taxonomyService';
 import { parseLitRefText } from './import/litRefParser';
+import { computeImportDiff, ExistingContent } from './import/importDiff';
 
 // --- HELPERS ---
 
@@ -248,6 +249,15 @@ const processLeiSecaImport = (
     };
 };
 
+// --- DRY-RUN ---
+// O commit da trilha grava as questões em MERGE; cards e flashcards são substituídos pelo id
+const TRAIL_IMPORT_MODE: ImportMode = 'MERGE';
+
+const attachDryRun = <R extends { report: ImportReport, staging: ImportStagingData | null }>(result: R, existing: ExistingContent): R => {
+    if (!result.staging) return result;
+    return { ...result, report: { ...result.report, dryRun: computeImportDiff(result.staging, existing, TRAIL_IMPORT_MODE) } };
+};
+
 // --- CORE GENERATOR ---
 
 export const generateImportReport = (
@@ -265,7 +275,7 @@ export const generateImportReport = (
     // ROUTE 1: LEI SECA FORMAT (TEXT)
     if (!isJson && trimmed.includes('LIT_REF:')) {
         // Assume basic order starts at 1, or try to detect max order from existing trails if needed (omitted for simplicity)
-        return processLeiSecaImport(rawInput, settings, 1);
+        return attachDryRun(processLeiSecaImport(rawInput, settings, 1), { questions: existingQuestions, cards: existingCards, flashcards: existingFlashcards });
     }
 
     // ROUTE 2: JSON LEGACY FORMAT
@@ -544,5 +554,8 @@ export const generateImportReport = (
         details
     };
 
-    return { report, staging: status === 'FAILED' ? null : staging };
+    return attachDryRun(
+        { report, staging: status === 'FAILED' ? null : staging },
+        { questions: existingQuestions, cards: existingCards, flashcards: existingFlashcards }
+    );
 };
@@ -0,0 +1,74 @@
+import { describe, it, expect } from 'vitest';
+import { Question } from '../types';
+import { collectTrainingExamples, MIN_TRAINING_EXAMPLES, predictNaiveBayes, trainTrapscanModel } from './trapscanClassifier';
+import { runTrapscanAnalysis } from './trapscanService';
+
+const question = (id: string, questionText: string, extra: Partial<Question> = {}): Question => ({
+    id, questionText, options: { A: 'Certo', B: 'Errado' }, correctAnswer: 'A', attemptHistory: [], ...extra,
+} as Question);
+
+const marked = (trapType: string, command = 'JUDGMENT', overrideUsed = false) =>
+    ({ trapscanData: { trapType, command, overrideUsed } } as unknown as NonNullable<Question['attemptHistory']>[number]);
+
+// Dois "estilos" de enunciado com vocabulário próprio, cada um rotulado pelo guia com um eixo
+const labeled = (count: number) => Array.from({ length: count }, (_, i) => i % 2 === 0
+    ? question(`p${i}`, `Prazo de prescrição contado em dias úteis ${i}`, { explanationTech: 'TRAPSCAN_EXIGIDO=P' })
+    : question(`n${i}`, `Município arrecada tributo municipal ${i}`, { explanationTech: 'TRAPSCAN_EXIGIDO=N' }));
+
+describe('collectTrainingExamples', () => {
+    it('guia vale mais que a marcação; sem guia vale a marcação mais recente', () => {
+        const examples = collectTrainingExamples([
+            question('g', 'Enunciado', { explanationTech: 'TRAPSCAN_EXIGIDO=R', attemptHistory: [marked('T')] }),
+            question('u', 'Enunciado', { attemptHistory: [marked('T'), marked('A1', 'EXCEPT')] }),
+            question('o', 'Enunciado', { attemptHistory: [marked('S', 'CORRECT', true)] }),
+            question('x', 'Sem rótulo nenhum'),
+        ]);
+        expect(examples.map(e => [e.questionId, e.trap, e.trapWeight, e.command, e.commandWeight])).toEqual([
+            ['g', 'R', 3, 'JUDGMENT', 1],
+            ['u', 'A', 1, 'EXCEPT', 1],
+            ['o', 'S', 2, 'CORRECT', 2],
+        ]);
+    });
+});
+
+describe('trainTrapscanModel / predictNaiveBayes', () => {
+    it(`abaixo de ${MIN_TRAINING_EXAMPLES} exemplos não há modelo`, () => {
+        expect(trainTrapscanModel(collectTrainingExamples(labeled(MIN_TRAINING_EXAMPLES - 1)))).toBeNull();
+        const model = trainTrapscanModel(collectTrainingExamples(labeled(MIN_TRAINING_EXAMPLES)), new Date('2024-05-01T00:00:00Z'));
+        expect(model).toMatchObject({ trainedAt: '2024-05-01T00:00:00.000Z', command: null });
+        expect(model!.trap).toMatchObject({ examples: MIN_TRAINING_EXAMPLES, docWeights: { P: 30, N: 30 } });
+    });
+
+    it('um único rótulo não forma modelo', () => {
+        const same = labeled(2 * MIN_TRAINING_EXAMPLES).filter(q => q.id.startsWith('p'));
+        expect(trainTrapscanModel(collectTrainingExamples(same))).toBeNull();
+    });
+
+    it('aprende o vocabulário de cada eixo e devolve uma distribuição', () => {
+        const model = trainTrapscanModel(collectTrainingExamples(labeled(30)))!;
+        const [example] = collectTrainingExamples([question('novo', 'Qual o prazo em dias úteis?', { explanationTech: 'TRAPSCAN_EXIGIDO=P' })]);
+        const probabilities = predictNaiveBayes(model.trap!, example.features);
+
+        expect(Object.values(probabilities).reduce((a, b) => a + b, 0)).toBeCloseTo(1);
+        expect(probabilities.P).toBeGreaterThan(0.9);
+    });
+});
+
+describe('runTrapscanAnalysis com modelo', () => {
+    it('eixo escolhido pelo modelo entra em primeiro nos candidatos, mesmo fora das regras', () => {
+        const target = question('alvo', 'Município arrecada tributo municipal');
+        const rules = runTrapscanAnalysis(target, null);
+        const model = trainTrapscanModel(collectTrainingExamples(labeled(400)))!;
+        const blended = runTrapscanAnalysis(target, model);
+
+        expect(rules.suggestedTrap).toBe('A');
+        expect(rules.axisCandidates!.map(c => c.axis)).not.toContain('N');
+
+        expect(blended.suggestedTrap).toBe('N');
+        expect(blended.decisiveRule).toBe('MODEL_HISTORY');
+        expect(blended.axisCandidates!.map(c => c.axis)).toEqual(['N', 'A']);
+        expect(blended.modelExamples).toBe(400);
+        // A análise das regras não é alterada pela combinação
+        expect(rules.axisCandidates).toHaveLength(1);
+    });
+});
@@ -0,0 +1,184 @@
+import { Question, TrapType } from '../types';
+import { normalizeTrapscan } from '../utils/feedbackFormatters';
+
+/**
+ * CLASSIFICADOR DO TRAPSCAN (no aparelho)
+ * Naive Bayes multinomial sobre unigramas e bigramas do enunciado e das
+ * alternativas, treinado com os rótulos do próprio usuário: o eixo exigido pelo
+ * guia (TRAPSCAN_EXIGIDO / guiaTrapscan) e o que foi marcado no P1/P2 das
+ * respostas. A saída é combinada com as regras em `runTrapscanAnalysis`.
+ */
+
+export const TRAP_AXES = ['A', 'T', 'R', 'P', 'S', 'C', 'N', 'A2'] as const;
+export const COMMAND_LABELS = ['CORRECT', 'INCORRECT', 'EXCEPT', 'JUDGMENT'] as const;
+
+// Abaixo disso o modelo só adiciona ruído: as sugestões ficam com as regras
+export const MIN_TRAINING_EXAMPLES = 20;
+
+// Peso dos rótulos: guia > marcação contra a sugestão (escolha deliberada) > marcação comum
+const WEIGHT_GUIDE = 3;
+const WEIGHT_OVERRIDE = 2;
+const WEIGHT_USER = 1;
+
+// Fração máxima do voto do modelo na combinação com as regras
+const MAX_MODEL_WEIGHT = 0.7;
+
+export interface NaiveBayesModel {
+    labels: string[];
+    /** Soma dos pesos dos exemplos por rótulo (prior). */
+    docWeights: Record<string, number>;
+    tokenCounts: Record<string, Record<string, number>>;
+    tokenTotals: Record<string, number>;
+    vocabularySize: number;
+    examples: number;
+}
+
+export interface TrapscanModel {
+    trap: NaiveBayesModel | null;
+    command: NaiveBayesModel | null;
+    trainedAt: string;
+}
+
+export interface TrapscanTrainingExample {
+    questionId: string;
+    features: Map<string, number>;
+    trap?: string;
+    trapWeight: number;
+    command?: string;
+    commandWeight: number;
+}
+
+const STOP_WORDS = new Set(['a', 'o', 'as', 'os', 'de', 'da', 'do', 'das', 'dos', 'em', 'no', 'na', 'nos', 'nas', 'para', 'por', 'com', 'que', 'um', 'uma', 'e', 'ou', 'se', 'ao', 'aos']);
+
+const words = (text: string): string[] =>
+    String(text || '')
+        .toLowerCase()
+        .normalize('NFD')
+        .replace(/[\u0300-\u036f]/g, '')
+        .replace(/[^a-z0-9]+/g, ' ')
+        .split(' ')
+        .filter(w => w.length > 1 && !STOP_WORDS.has(w));
+
+/** Contagem de features: `q:` unigramas/bigramas do enunciado, `o:` unigramas das alternativas. */
+export const extractTrapscanFeatures = (q: Pick<Question, 'questionText' | 'options'>): Map<string, number> => {
+    const features = new Map<string, number>();
+    const add = (key: string) => features.set(key, (features.get(key) || 0) + 1);
+
+    const stem = words(q.questionText);
+    stem.forEach((w, i) => {
+        add(`q:${w}`);
+        if (i > 0) add(`q:${stem[i - 1]}_${w}`);
+    });
+    Object.values(q.options || {}).forEach(option => words(option || '').forEach(w => add(`o:${w}`)));
+    return features;
+};
+
+/** Mesmos apelidos aceitos no guia (A1, LITERALIDADE, O/D). */
+export const normalizeTrapTag = (raw?: string | null): TrapType | null => {
+    let tag = String(raw || '').trim().toUpperCase();
+    if (tag === 'A1') tag = 'A';
+    if (tag === 'LITERALIDADE') tag = 'T';
+    if (tag === 'O' || tag === 'D') tag = 'A2';
+    return (TRAP_AXES as readonly string[]).includes(tag) ? tag as TrapType : null;
+};
+
+/** Eixo declarado na própria questão (explicação técnica ou guia), sem inferência. */
+export const readTrapLabel = (q: Question): TrapType | null => {
+    const match = (q.explanationTech || '').match(/(?:TRAPSCAN_EXIGIDO|TRAPSCAN)\s*=\s*([A-Z0-9_]+)/i);
+    if (match) return normalizeTrapTag(match[1]);
+    if (q.guiaTrapscan) {
+        const normalized = normalizeTrapscan(q.guiaTrapscan);
+        if (normalized.itemLabel && normalized.itemLabel !== '—') return normalizeTrapTag(normalized.itemLabel);
+    }
+    return null;
+};
+
+/**
+ * Um exemplo por questão rotulada. Com rótulo do guia, ele vale para o eixo (as
+ * marcações do usuário são justamente o que está sendo avaliado); sem guia, vale
+ * a marcação mais recente.
+ */
+export const collectTrainingExamples = (questions: Question[]): TrapscanTrainingExample[] => {
+    const examples: TrapscanTrainingExample[] = [];
+    questions.forEach(q => {
+        const entry = [...(q.attemptHistory || [])].reverse().find(a => a.trapscanData?.trapType || a.trapscanData?.command)?.trapscanData;
+        const guide = readTrapLabel(q);
+        const userTrap = normalizeTrapTag(entry?.trapType);
+        const userWeight = entry?.overrideUsed ? WEIGHT_OVERRIDE : WEIGHT_USER;
+        const trap = guide || userTrap || undefined;
+        const command = (COMMAND_LABELS as readonly string[]).includes(entry?.command || '') ? entry!.command : undefined;
+        if (!trap && !command) return;
+
+        examples.push({
+            questionId: q.id,
+            features: extractTrapscanFeatures(q),
+            trap,
+            trapWeight: guide ? WEIGHT_GUIDE : userWeight,
+            command,
+            commandWeight: userWeight,
+        });
+    });
+    return examples;
+};
+
+const trainNaiveBayes = (samples: { features: Map<string, number>; label: string; weight: number }[]): NaiveBayesModel | null => {
+    if (samples.length < MIN_TRAINING_EXAMPLES) return null;
+    const model: NaiveBayesModel = { labels: [], docWeights: {}, tokenCounts: {}, tokenTotals: {}, vocabularySize: 0, examples: samples.length };
+    const vocabulary = new Set<string>();
+
+    samples.forEach(({ features, label, weight }) => {
+        model.docWeights[label] = (model.docWeights[label] || 0) + weight;
+        const counts = model.tokenCounts[label] = model.tokenCounts[label] || {};
+        features.forEach((count, token) => {
+            counts[token] = (counts[token] || 0) + count * weight;
+            model.tokenTotals[label] = (model.tokenTotals[label] || 0) + count * weight;
+            vocabulary.add(token);
+        });
+    });
+
+    model.labels = Object.keys(model.docWeights);
+    model.vocabularySize = vocabulary.size;
+    return model.labels.length > 1 ? model : null;
+};
+
+/** Probabilidade por rótulo (Laplace); rótulos nunca vistos ficam de fora. */
+export const predictNaiveBayes = (model: NaiveBayesModel, features: Map<string, number>): Record<string, number> => {
+    const totalDocs = Object.values(model.docWeights).reduce((a, b) => a + b, 0);
+    const logScores = model.labels.map(label => {
+        const counts = model.tokenCounts[label] || {};
+        const denominator = (model.tokenTotals[label] || 0) + model.vocabularySize + 1;
+        let score = Math.log(model.docWeights[label] / totalDocs);
+        features.forEach((count, token) => { score += count * Math.log(((counts[token] || 0) + 1) / denominator); });
+        return score;
+    });
+
+    const max = Math.max(...logScores);
+    const exps = logScores.map(s => Math.exp(s - max));
+    const sum = exps.reduce((a, b) => a + b, 0);
+    return Object.fromEntries(model.labels.map((label, i) => [label, exps[i] / sum]));
+};
+
+export const trainTrapscanModel = (examples: TrapscanTrainingExample[], now: Date = new Date()): TrapscanModel | null => {
+    const trap = trainNaiveBayes(examples.filter(e => e.trap).map(e => ({ features: e.features, label: e.trap!, weight: e.trapWeight })));
+    const command = trainNaiveBayes(examples.filter(e => e.command).map(e => ({ features: e.features, label: e.command!, weight: e.commandWeight })));
+    return trap || command ? { trap, command, trainedAt: now.toISOString() } : null;
+};
+
+/** Quanto o modelo pesa na combinação: cresce com a quantidade de rótulos. */
+export const modelWeight = (model: NaiveBayesModel): number =>
+    Math.min(MAX_MODEL_WEIGHT, model.examples / (model.examples + 4 * MIN_TRAINING_EXAMPLES));
+
+/** Combina uma distribuição das regras com a do modelo; devolve a distribuição final. */
+export const blendDistributions = (rules: Record<string, number>, model: Record<string, number>, weight: number): Record<string, number> => {
+    const labels = Array.from(new Set([...Object.keys(rules), ...Object.keys(model)]));
+    return Object.fromEntries(labels.map(label => [label, (1 - weight) * (rules[label] || 0) + weight * (model[label] || 0)]));
+};
+
+// Modelo ativo: re-treinado pelo QuestionContext quando as questões mudam
+let activeModel: TrapscanModel | null = null;
+
+export const registerTrapscanModel = (model: TrapscanModel | null) => {
+    activeModel = model;
+};
+
+export const getTrapscanModel = (): TrapscanModel | null => activeModel;
@@ -1,8 +1,11 @@
 
 import { Question, LiteralnessCard, AppSettings, NucleusStats, TrapscanReport, TrapSignal, TrapscanEntry, TrapscanPlan, TrapscanGuide, VulnerabilityStats, DiagnosticSummary, TrapscanQualityMetrics, TrapscanAutoAnalysis, AxisCandidate, TrapType, EvidenceItem, TrapscanEvidenceMap } from '../types';
 import * as srs from './srsService';
-import { normalizeTrapscan } from '../utils/feedbackFormatters';
 import { getText, toNumber } from '../utils/i18nText';
+import {
+    TRAP_AXES, COMMAND_LABELS, TrapscanModel, extractTrapscanFeatures, predictNaiveBayes, modelWeight, blendDistributions,
+    getTrapscanModel, readTrapLabel, collectTrainingExamples, trainTrapscanModel
+} from './trapscanClassifier';
 
 export type { TrapType }; // Fix TS1205: isolatedModules requires `export type`
 
@@ -494,7 +497,7 @@ export const checkAlternativeSimilarity = (options: Record<string, string | unde
 
 // --- PRIORITY ENGINE & AXIS GEAR (New Logic) ---
 
-export const runTrapscanAnalysis = (q: Question): TrapscanAutoAnalysis => {
+const analyzeTrapRules = (q: Question): TrapscanAutoAnalysis => {
     const qText = normalizeText(q.questionText || "");
     const reasons: string[] = [];
     const triggersFound: string[] = [];
@@ -652,6 +655,163 @@ export const runTrapscanAnalysis = (q: Question): TrapscanAutoAnalysis => {
     };
 };
 
+// --- BLEND: REGRAS + MODELO TREINADO ---
+
+// Suavização das regras: nenhum eixo fica com probabilidade zero antes da combinação
+const RULE_SMOOTHING = 5;
+// Confiança dada ao comando detectado pelas regras (o restante fica dividido entre os outros)
+const RULE_COMMAND_PRIOR = 0.8;
+
+const rulesDistribution = (scores: Record<string, number>): Record<string, number> => {
+    const total = TRAP_AXES.reduce((sum, axis) => sum + (scores[axis] || 0) + RULE_SMOOTHING, 0);
+    return Object.fromEntries(TRAP_AXES.map(axis => [axis, ((scores[axis] || 0) + RULE_SMOOTHING) / total]));
+};
+
+const topOf = (dist: Record<string, number>): [string, number] =>
+    Object.entries(dist).sort((a, b) => b[1] - a[1])[0] || ['A2', 0];
+
+const blendWithModel = (rules: TrapscanAutoAnalysis, q: Question, model: TrapscanModel): TrapscanAutoAnalysis => {
+    const features = extractTrapscanFeatures(q);
+    const result: TrapscanAutoAnalysis = { ...rules, reasons: [...rules.reasons], axisCandidates: [...(rules.axisCandidates || [])] };
+
+    if (model.trap) {
+        const learned = predictNaiveBayes(model.trap, features);
+        const weight = modelWeight(model.trap);
+        const [trap, probability] = topOf(blendDistributions(rulesDistribution(rules.scores), learned, weight));
+        const [learnedTrap, learnedProbability] = topOf(learned);
+
+        result.modelScores = Object.fromEntries(Object.entries(learned).map(([axis, p]) => [axis, Math.round(p * 100)]));
+        result.modelExamples = model.trap.examples;
+        result.confidence = Math.min(100, Math.round((1 - weight) * rules.confidence + weight * probability * 100));
+        result.reasons.push(`Seu histórico (${model.trap.examples} rótulos) indica ${learnedTrap} (${Math.round(learnedProbability * 100)}%)`);
+
+        if (trap !== rules.suggestedTrap) {
+            result.suggestedTrap = trap;
+            result.decisiveRule = 'MODEL_HISTORY';
+            // O eixo escolhido pelo modelo precisa estar entre os candidatos (senão o P2 o trata como incompatível)
+            const score = Math.round(probability * 100);
+            const existing = result.axisCandidates!.find(c => c.axis === trap);
+            if (existing) existing.score = Math.max(existing.score, score);
+            else result.axisCandidates!.push({ axis: trap, score, primaryReason: 'Padrão das questões que você já classificou.' });
+            result.axisCandidates!.sort((a, b) => Number(b.axis === trap) - Number(a.axis === trap) || b.score - a.score);
+        }
+    }
+
+    if (model.command) {
+        const learned = predictNaiveBayes(model.command, features);
+        const others = (1 - RULE_COMMAND_PRIOR) / (COMMAND_LABELS.length - 1);
+        const rulesDist = Object.fromEntries(COMMAND_LABELS.map(c => [c, c === rules.suggestedCommand ? RULE_COMMAND_PRIOR : others]));
+        result.suggestedCommand = topOf(blendDistributions(rulesDist, learned, modelWeight(model.command)))[0];
+    }
+
+    return result;
+};
+
+/**
+ * Análise automática do P1/P2: regras de palavras-chave, combinadas com o
+ * classificador treinado no histórico do usuário quando houver rótulos suficientes.
+ */
+export const runTrapscanAnalysis = (q: Question, model: TrapscanModel | null = getTrapscanModel()): TrapscanAutoAnalysis => {
+    const rules = analyzeTrapRules(q);
+    return model ? blendWithModel(rules, q, model) : rules;
+};
+
+// --- CONFIABILIDADE DAS SUGESTÕES ---
+
+export interface AxisPrecisionRecall {
+    axis: string;
+    /** Exemplos rotulados com o eixo. */
+    support: number;
+    precision: number | null;
+    recall: number | null;
+}
+
+export interface TrapscanSuggestionMethodStats {
+    accuracy: number | null;
+    byAxis: AxisPrecisionRecall[];
+}
+
+export interface TrapscanClassifierEvaluation {
+    examples: number;
+    trapExamples: number;
+    folds: number;
+    rules: TrapscanSuggestionMethodStats;
+    model: TrapscanSuggestionMethodStats;
+    blended: TrapscanSuggestionMethodStats;
+    commandAccuracy: { rules: number | null; blended: number | null; examples: number };
+}
+
+const EVALUATION_FOLDS = 5;
+
+const foldOf = (id: string): number => {
+    let hash = 0;
+    for (let i = 0; i < id.length; i++) hash = (hash * 31 + id.charCodeAt(i)) >>> 0;
+    return hash % EVALUATION_FOLDS;
+};
+
+const methodStats = (pairs: { expected: string; predicted: string | null }[]): TrapscanSuggestionMethodStats => {
+    const answered = pairs.filter(p => p.predicted !== null);
+    const ratio = (a: number, b: number) => (b > 0 ? a / b : null);
+    return {
+        accuracy: ratio(answered.filter(p => p.predicted === p.expected).length, pairs.length),
+        byAxis: TRAP_AXES.map(axis => {
+            const truePositives = pairs.filter(p => p.expected === axis && p.predicted === axis).length;
+            return {
+                axis,
+                support: pairs.filter(p => p.expected === axis).length,
+                precision: ratio(truePositives, pairs.filter(p => p.predicted === axis).length),
+                recall: ratio(truePositives, pairs.filter(p => p.expected === axis).length),
+            };
+        }),
+    };
+};
+
+/**
+ * Validação cruzada (5 partes, fixas por id): cada questão rotulada é prevista
+ * por um modelo que não a viu no treino. Compara regras, modelo puro e a combinação.
+ */
+export const evaluateTrapscanClassifier = (questions: Question[]): TrapscanClassifierEvaluation => {
+    const examples = collectTrainingExamples(questions);
+    const byId = new Map(questions.map(q => [q.id, q]));
+    const folds = Array.from({ length: EVALUATION_FOLDS }, (_, fold) =>
+        trainTrapscanModel(examples.filter(e => foldOf(e.questionId) !== fold)));
+
+    const trapPairs = { rules: [] as { expected: string; predicted: string | null }[], model: [] as { expected: string; predicted: string | null }[], blended: [] as { expected: string; predicted: string | null }[] };
+    let commandRules = 0, commandBlended = 0, commandTotal = 0;
+
+    examples.forEach(example => {
+        const q = byId.get(example.questionId)!;
+        const model = folds[foldOf(example.questionId)];
+        const rules = analyzeTrapRules(q);
+        const blended = model ? blendWithModel(rules, q, model) : rules;
+
+        if (example.trap) {
+            trapPairs.rules.push({ expected: example.trap, predicted: rules.suggestedTrap });
+            trapPairs.model.push({ expected: example.trap, predicted: model?.trap ? topOf(predictNaiveBayes(model.trap, example.features))[0] : null });
+            trapPairs.blended.push({ expected: example.trap, predicted: blended.suggestedTrap });
+        }
+        if (example.command) {
+            commandTotal++;
+            if (rules.suggestedCommand === example.command) commandRules++;
+            if (blended.suggestedCommand === example.command) commandBlended++;
+        }
+    });
+
+    return {
+        examples: examples.length,
+        trapExamples: trapPairs.rules.length,
+        folds: EVALUATION_FOLDS,
+        rules: methodStats(trapPairs.rules),
+        model: methodStats(trapPairs.model),
+        blended: methodStats(trapPairs.blended),
+        commandAccuracy: {
+            rules: commandTotal > 0 ? commandRules / commandTotal : null,
+            blended: commandTotal > 0 ? commandBlended / commandTotal : null,
+            examples: commandTotal,
+        },
+    };
+};
+
 export type CommandType = 'CORRECT' | 'INCORRECT' | 'EXCEPT' | 'JUDGMENT';
 
 export interface TrapDiagnosis {
@@ -662,29 +822,8 @@ export interface TrapDiagnosis {
 }
 
 export function deriveTrapscanRequired(q: Question): { tag: TrapType; label: string; meaning: string } {
-    // ... existing implementation
-    const techText = q.explanationTech || "";
-    const match = techText.match(/(?:TRAPSCAN_EXIGIDO|TRAPSCAN)\s*=\s*([A-Z0-9_]+)/i);
-    
-    let rawTag = match ? match[1].toUpperCase() : null;
-
-    if (!rawTag && q.guiaTrapscan) {
-        const normalized = normalizeTrapscan(q.guiaTrapscan);
-        if (normalized.itemLabel && normalized.itemLabel !== '—') {
-             rawTag = normalized.itemLabel.toUpperCase();
-        }
-    }
-
-    if (rawTag) {
-        if (rawTag === 'A1') rawTag = 'A'; 
-        if (rawTag === 'LITERALIDADE') rawTag = 'T';
-        if (rawTag === 'O' || rawTag === 'D') rawTag = 'A2'; 
-
-        if (rawTag in TRAP_REQ_DEFS) {
-            const tag = rawTag as TrapType;
-            return { tag, ...TRAP_REQ_DEFS[tag] };
-        }
-    }
+    const labeled = readTrapLabel(q);
+    if (labeled) return { tag: labeled, ...TRAP_REQ_DEFS[labeled] };
     
     const inferred = inferTrap(q);
     if (inferred !== 'SEM_DADO') {
@@ -707,9 +846,10 @@ export const inferCommand = (q: Question): CommandType => {
     return 'CORRECT';
 };
 
-export const inferTrap = (q: Question): TrapType => {
+// Gabarito (P2, jogos) só com regras por padrão: o modelo aprende com as marcações do usuário e não pode corrigi-las
+export const inferTrap = (q: Question, model: TrapscanModel | null = null): TrapType => {
     // 1. Check AI Engine first
-    const ai = runTrapscanAnalysis(q);
+    const ai = runTrapscanAnalysis(q, model);
     if (ai.confidence > 50) return ai.suggestedTrap as TrapType;
 
     // 2. Fallback
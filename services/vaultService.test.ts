@@ -0,0 +1,53 @@
+import { describe, it, expect } from 'vitest';
+import { decryptBackup, encryptBackup, hashPin, isEncryptedBackup, isLegacyPinHash, verifyPin } from './vaultService';
+
+describe('hashPin / verifyPin', () => {
+    it('gera hash com salt e só aceita o PIN certo', async () => {
+        const stored = await hashPin('1234');
+        expect(stored).toMatch(/^pbkdf2-sha256\$\d+\$[^$]+\$[^$]+$/);
+        expect(stored).not.toBe(await hashPin('1234'));
+        expect(isLegacyPinHash(stored)).toBe(false);
+
+        expect(await verifyPin('1234', stored)).toBe(true);
+        expect(await verifyPin('4321', stored)).toBe(false);
+        expect(await verifyPin('1234', undefined)).toBe(false);
+    });
+
+    it('aceita o hash legado (btoa) para que seja regravado', async () => {
+        const legacy = btoa('9876');
+        expect(isLegacyPinHash(legacy)).toBe(true);
+        expect(isLegacyPinHash(undefined)).toBe(false);
+
+        expect(await verifyPin('9876', legacy)).toBe(true);
+        expect(await verifyPin('0000', legacy)).toBe(false);
+        // PIN com caractere fora do Latin-1 faz btoa lançar: conta como erro, não como exceção
+        expect(await verifyPin('ção', legacy)).toBe(false);
+
+        const migrated = await hashPin('9876');
+        expect(isLegacyPinHash(migrated)).toBe(false);
+        expect(await verifyPin('9876', migrated)).toBe(true);
+    });
+});
+
+describe('encryptBackup / decryptBackup', () => {
+    const payload = { meta: { version: 7 }, questions: [{ id: 'q1', statement: 'Art. 5º — ação' }] };
+
+    it('ida e volta com a senha certa', async () => {
+        const encrypted = await encryptBackup(payload, 'senha forte');
+        expect(isEncryptedBackup(encrypted)).toBe(true);
+        expect(encrypted.meta.version).toBe(7);
+        expect(encrypted.data).not.toContain('statement');
+
+        expect(await decryptBackup(encrypted, 'senha forte')).toEqual(payload);
+    });
+
+    it('senha errada ou arquivo alterado lançam erro', async () => {
+        const encrypted = await encryptBackup(payload, 'senha forte');
+        await expect(decryptBackup(encrypted, 'outra senha')).rejects.toThrow('Senha incorreta');
+
+        const bytes = Uint8Array.from(atob(encrypted.data), c => c.charCodeAt(0));
+        bytes[0] ^= 1;
+        const tampered = { ...encrypted, data: btoa(String.fromCharCode(...bytes)) };
+        await expect(decryptBackup(tampered, 'senha forte')).rejects.toThrow('Senha incorreta');
+    });
+});
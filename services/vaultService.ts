@@ -0,0 +1,137 @@
+/**
+ * VAULT (WebCrypto)
+ * - PIN: PBKDF2-SHA256 com salt aleatório; o app guarda só o hash derivado.
+ * - Backups: AES-GCM com chave derivada (PBKDF2) de uma senha escolhida na exportação.
+ */
+
+const PIN_HASH_PREFIX = 'pbkdf2-sha256';
+const PIN_ITERATIONS = 310000;
+const BACKUP_ITERATIONS = 310000;
+const SALT_BYTES = 16;
+const IV_BYTES = 12;
+
+export const ENCRYPTED_BACKUP_FORMAT = 'ENCRYPTED';
+
+export interface EncryptedBackup {
+    meta: {
+        version: number;
+        timestamp: string;
+        appName: string;
+        format: typeof ENCRYPTED_BACKUP_FORMAT;
+    };
+    kdf: { algo: 'PBKDF2-SHA256'; iterations: number; salt: string };
+    cipher: { algo: 'AES-GCM'; iv: string };
+    data: string;
+}
+
+// --- BASE64 ---
+
+const toBase64 = (bytes: Uint8Array): string => {
+    let binary = '';
+    const CHUNK = 0x8000;
+    for (let i = 0; i < bytes.length; i += CHUNK) {
+        binary += String.fromCharCode(...bytes.subarray(i, i + CHUNK));
+    }
+    return btoa(binary);
+};
+
+const fromBase64 = (value: string) => Uint8Array.from(atob(value), c => c.charCodeAt(0));
+
+const randomBytes = (length: number) => crypto.getRandomValues(new Uint8Array(length));
+
+// --- KDF ---
+
+const deriveBits = async (secret: string, salt: BufferSource, iterations: number): Promise<Uint8Array> => {
+    const baseKey = await crypto.subtle.importKey('raw', new TextEncoder().encode(secret), 'PBKDF2', false, ['deriveBits']);
+    const bits = await crypto.subtle.deriveBits({ name: 'PBKDF2', hash: 'SHA-256', salt, iterations }, baseKey, 256);
+    return new Uint8Array(bits);
+};
+
+const deriveAesKey = async (passphrase: string, salt: BufferSource, iterations: number): Promise<CryptoKey> => {
+    const baseKey = await crypto.subtle.importKey('raw', new TextEncoder().encode(passphrase), 'PBKDF2', false, ['deriveKey']);
+    return crypto.subtle.deriveKey(
+        { name: 'PBKDF2', hash: 'SHA-256', salt, iterations },
+        baseKey,
+        { name: 'AES-GCM', length: 256 },
+        false,
+        ['encrypt', 'decrypt']
+    );
+};
+
+// Comparação em tempo constante (não vaza quantos bytes coincidem)
+const timingSafeEqual = (a: Uint8Array, b: Uint8Array): boolean => {
+    if (a.length !== b.length) return false;
+    let diff = 0;
+    for (let i = 0; i < a.length; i++) diff |= a[i] ^ b[i];
+    return diff === 0;
+};
+
+// --- PIN ---
+
+/**
+ * Formato: `pbkdf2-sha256$<iterações>$<salt b64>$<hash b64>`.
+ */
+export const hashPin = async (pin: string): Promise<string> => {
+    const salt = randomBytes(SALT_BYTES);
+    const hash = await deriveBits(pin, salt, PIN_ITERATIONS);
+    return [PIN_HASH_PREFIX, PIN_ITERATIONS, toBase64(salt), toBase64(hash)].join('$');
+};
+
+/**
+ * Hashes anteriores eram apenas `btoa(pin)`; são aceitos uma vez e devem ser regravados.
+ */
+export const isLegacyPinHash = (stored?: string): boolean => !!stored && !stored.startsWith(`${PIN_HASH_PREFIX}$`);
+
+export const verifyPin = async (pin: string, stored?: string): Promise<boolean> => {
+    if (!stored) return false;
+
+    if (isLegacyPinHash(stored)) {
+        try {
+            return timingSafeEqual(new TextEncoder().encode(btoa(pin)), new TextEncoder().encode(stored));
+        } catch {
+            return false;
+        }
+    }
+
+    const [, iterations, salt, hash] = stored.split('$');
+    const derived = await deriveBits(pin, fromBase64(salt), parseInt(iterations, 10));
+    return timingSafeEqual(derived, fromBase64(hash));
+};
+
+// --- BACKUP ---
+
+export const isEncryptedBackup = (raw: any): raw is EncryptedBackup =>
+    !!raw && raw.meta?.format === ENCRYPTED_BACKUP_FORMAT && typeof raw.data === 'string' && !!raw.kdf && !!raw.cipher;
+
+export const encryptBackup = async (payload: any, passphrase: string): Promise<EncryptedBackup> => {
+    const salt = randomBytes(SALT_BYTES);
+    const iv = randomBytes(IV_BYTES);
+    const key = await deriveAesKey(passphrase, salt, BACKUP_ITERATIONS);
+    const plaintext = new TextEncoder().encode(JSON.stringify(payload));
+    const ciphertext = await crypto.subtle.encrypt({ name: 'AES-GCM', iv }, key, plaintext);
+
+    return {
+        meta: {
+            version: payload?.meta?.version ?? 0,
+            timestamp: new Date().toISOString(),
+            appName: 'Miaaula',
+            format: ENCRYPTED_BACKUP_FORMAT
+        },
+        kdf: { algo: 'PBKDF2-SHA256', iterations: BACKUP_ITERATIONS, salt: toBase64(salt) },
+        cipher: { algo: 'AES-GCM', iv: toBase64(iv) },
+        data: toBase64(new Uint8Array(ciphertext))
+    };
+};
+
+/**
+ * Lança erro se a senha estiver errada ou o arquivo tiver sido alterado (tag do GCM não confere).
+ */
+export const decryptBackup = async (encrypted: EncryptedBackup, passphrase: string): Promise<any> => {
+    const key = await deriveAesKey(passphrase, fromBase64(encrypted.kdf.salt), encrypted.kdf.iterations);
+    try {
+        const plaintext = await crypto.subtle.decrypt({ name: 'AES-GCM', iv: fromBase64(encrypted.cipher.iv) }, key, fromBase64(encrypted.data));
+        return JSON.parse(new TextDecoder().decode(plaintext));
+    } catch {
+        throw new Error('Senha incorreta ou arquivo de backup corrompido.');
+    }
+};
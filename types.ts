@@ -9,6 +9,7 @@ export interface Attempt {
     masteryAfter: number;
     stabilityAfter: number;
     difficultyAfter?: number;
+    nextReviewDate?: string; // Próxima revisão agendada por esta tentativa (já com limite de prova e balanceamento)
     timeSec: number;
     selfEvalLevel: number;
     trapCode?: string;
@@ -16,6 +17,7 @@ export interface Attempt {
     timingClass?: string;
     targetSec?: number;
     trapscanData?: TrapscanEntry;
+    siblingKey?: string; // Sibling (cloze/oclusão) que recebeu a tentativa
 }
 
 export interface Question {
@@ -76,6 +78,7 @@ export interface Question {
     // SRS
     srsStage?: number;
     srsVersion?: number;
+    srsAlgorithm?: SrsAlgorithmId;
     timeSec?: number;
     selfEvalLevel?: number;
     
@@ -100,6 +103,7 @@ export interface Question {
     createdAt?: string;
     studyRefs?: StudyRef[];
     lapses?: number;
+    lawCheckedAt?: string; // Conferida contra a redação vigente da lei (alterações anteriores não a sinalizam)
     
     // Soft Delete
     deletedAt?: string;
@@ -120,6 +124,7 @@ export interface Flashcard {
     backAudio?: string;
     
     stability: number;
+    difficulty?: number;
     masteryScore: number;
     nextReviewDate: string;
     lastReviewedAt?: string;
@@ -143,10 +148,13 @@ export interface Flashcard {
     pairMatchPlayed?: boolean;
     dominioLevel?: number;
     lastGrade?: string;
+    srsAlgorithm?: SrsAlgorithmId;
     lapses?: number;
     
     litRef?: string;
     importBatchId?: string;
+    ignoreDuplicatesFor?: string[];
+    lawCheckedAt?: string; // Conferido contra a redação vigente da lei
     
     lastAttemptDate?: string;
     timeSec?: number;
@@ -162,6 +170,45 @@ export interface Flashcard {
     // New Fields for Build Fixes
     srsStage?: number;
     extra?: string;
+
+    // Siblings (cloze/oclusão): estado SRS independente, chave 'c1', 'c2'... ou 'o:<maskId>'
+    siblingStates?: Record<string, FlashcardSiblingState>;
+    siblingKey?: string; // Presente apenas na carta virtual expandida para a sessão
+
+    // Image Occlusion (máscaras sobre frontImage)
+    occlusion?: ImageOcclusionData;
+}
+
+export type OcclusionMode = 'HIDE_ONE' | 'HIDE_ALL';
+
+export interface OcclusionMask {
+    id: string;
+    shape: 'rect' | 'polygon';
+    // Coordenadas normalizadas (0-1) relativas à imagem
+    x?: number;
+    y?: number;
+    width?: number;
+    height?: number;
+    points?: { x: number; y: number }[];
+    label?: string;
+}
+
+export interface ImageOcclusionData {
+    mode: OcclusionMode;
+    masks: OcclusionMask[];
+}
+
+export interface FlashcardSiblingState {
+    stability: number;
+    difficulty?: number;
+    masteryScore: number;
+    nextReviewDate: string;
+    lastReviewedAt?: string;
+    totalAttempts: number;
+    lastWasCorrect?: boolean;
+    correctStreak?: number;
+    lastGrade?: string;
+    srsAlgorithm?: SrsAlgorithmId;
 }
 
 export type LawContentType = 'LAW_DRY' | 'LAW_NORM' | 'LAW_JURIS';
@@ -183,6 +230,26 @@ export interface Gap {
     options?: { [key: string]: string };
     correct?: string;
     questionRef?: string;
+    litRef?: string; // Âncora de dispositivo (núcleo#p1.i2); sem ela a lacuna vale para o artigo todo
+}
+
+export type LawStructureLevel = 'LIVRO' | 'TITULO' | 'CAPITULO' | 'SECAO' | 'SUBSECAO' | 'ARTIGO' | 'CAPUT' | 'PARAGRAFO' | 'INCISO' | 'ALINEA';
+
+/** Divisão acima do artigo (livro/título/capítulo/seção), do mais amplo ao mais específico. */
+export interface LawStructureHeading {
+    level: LawStructureLevel;
+    label: string;   // "Capítulo I"
+    title?: string;  // "Dos Direitos e Deveres Individuais"
+}
+
+/** Uma redação do artigo; a última da lista é a vigente (igual a phase1Full). */
+export interface LawTextVersion {
+    id: string;
+    text: string;
+    effectiveDate: string;
+    source?: string;
+    amendingNorm?: string;
+    recordedAt: string;
 }
 
 export interface LiteralnessCard {
@@ -192,6 +259,9 @@ export interface LiteralnessCard {
     topic: string;
     
     phase1Full: string;
+    textVersions?: LawTextVersion[];
+    gapsCheckedAt?: string; // Lacunas embutidas (phase2/extraGaps) conferidas contra a redação vigente
+    structurePath?: LawStructureHeading[];
     partsSummary?: string;
     keywordsProva?: string;
     riscoFcc?: string;
@@ -268,8 +338,11 @@ export interface SubjectConfig {
     priority: PriorityLevel;
     isFrozen?: boolean;
     isCritical?: boolean;
+    srsAlgorithm?: SrsAlgorithmId; // Sobrescreve AppSettings.srsAlgorithm nesta disciplina
 }
 
+export type SrsAlgorithmId = 'legacy' | 'fsrs';
+
 export interface TrapscanSessionConfig {
     enabled: boolean;
     assistMode: boolean;
@@ -280,6 +353,23 @@ export interface TrapscanSessionConfig {
 export type TrapscanMode = 'GUIA' | 'TREINO';
 export type TrapscanLockLevel = 'SOFT' | 'HARD';
 
+/** Prova-alvo: disciplinas do edital com peso (services/scheduler/examTargets). */
+export interface TargetExam {
+    id: string;
+    name: string;
+    date: string; // YYYY-MM-DD
+    banca?: string;
+    subjects: { subject: string; weight: number }[];
+}
+
+/** Distribuição das revisões pelos dias (services/scheduler/loadBalancer). */
+export interface LoadBalancingConfig {
+    enabled: boolean;
+    dailyCap: number; // Máximo de revisões por dia (0 = sem limite)
+    fuzzPercent: number; // Janela de sorteio em torno do intervalo (0.05 = ±5%)
+    vacation?: { start: string; end: string } | null; // YYYY-MM-DD, inclusivo
+}
+
 export interface AppSettings {
     userName?: string;
     appTheme: 'dark' | 'galaxy';
@@ -327,6 +417,14 @@ export interface AppSettings {
         cap_S_days: number;
         enableRetrievabilityCheck: boolean;
     };
+    srsAlgorithm?: SrsAlgorithmId; // Agendador padrão (services/scheduler)
+    fsrs?: {
+        weights: number[];
+        requestRetention: number;
+        maximumIntervalDays: number;
+    };
+    loadBalancing?: LoadBalancingConfig;
+    targetExams?: TargetExam[];
     
     trapscan?: TrapscanSessionConfig;
     readerMode?: 'compact' | 'fullscreen';
@@ -348,7 +446,9 @@ export interface AppSettings {
     showMissingExplainFields?: boolean;
     lockEarlyReview?: boolean;
     isPinLockEnabled?: boolean;
-    pinHash?: string;
+    pinHash?: string; // PBKDF2 (vaultService.hashPin); legado: btoa(pin)
+    autoLockMinutes?: number; // Bloqueio por inatividade (0 = só ao abrir o app)
+    encryptBackups?: boolean; // Exportações pedem senha e saem em AES-GCM
     studyProtocolMode?: string;
     alarms?: ReviewAlarm[];
     studyMode?: 'standard' | 'exam';
@@ -614,6 +714,8 @@ export interface TrapscanAutoAnalysis {
     axisCandidates?: AxisCandidate[];
     keyQuestions?: { asksWho: boolean, asksWhat: boolean, asksException: boolean };
     decisiveRule?: string;
+    modelScores?: Record<string, number>; // Probabilidade (0-100) por eixo no classificador treinado
+    modelExamples?: number;
 }
 
 export interface AxisCandidate {
@@ -803,6 +905,7 @@ export interface SrsItem {
     isFundamental?: boolean;
     lastReviewedAt?: string;
     srsVersion?: number;
+    srsAlgorithm?: SrsAlgorithmId; // Agendador que gerou o estado atual
     attemptHistory: Attempt[];
     lastGrade?: string;
     lapses?: number;
@@ -830,6 +933,9 @@ export interface ImportReport {
         pairs: ImportCountDetail;
     };
     details: ImportDetail[];
+    dryRun?: ImportDryRun;
+    /** Decisões aceitar/rejeitar tomadas na revisão do dry-run, por entidade. */
+    decisions?: ImportDecision[];
 }
 
 export interface ImportCountDetail {
@@ -851,6 +957,41 @@ export interface ImportDetail {
     moduleId?: string;
 }
 
+export interface ImportFieldChange {
+    field: string;
+    before: string;
+    after: string;
+    invalidatesProgress: boolean;
+}
+
+export interface ImportEntityDiff {
+    /** Posição no staging (ex.: "questions:3"), usada para aplicar a decisão. */
+    key: string;
+    entityType: ImportEntityType;
+    ref: string;
+    targetId: string;
+    changes: ImportFieldChange[];
+    invalidatesProgress: boolean;
+}
+
+export interface ImportDryRun {
+    mode: ImportMode;
+    newEntities: number;
+    unchangedEntities: number;
+    skippedEntities: number;
+    diffs: ImportEntityDiff[];
+}
+
+export interface ImportDecision {
+    key: string;
+    entityType: ImportEntityType;
+    ref: string;
+    decision: 'ACCEPTED' | 'REJECTED';
+    fields: string[];
+    invalidatesProgress: boolean;
+    decidedAt: string;
+}
+
 export interface ImportStagingData {
     cards: LiteralnessCard[];
     questions: Question[];
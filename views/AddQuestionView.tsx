@@ -13,13 +13,20 @@ import {
   SparklesIcon, 
   DownloadIcon, 
   ChartBarIcon, 
-  PencilIcon
+  PencilIcon,
+  BookOpenIcon,
+  ClockIcon,
+  DocumentDuplicateIcon,
+  TableCellsIcon,
+  ShieldCheckIcon
 } from '../components/icons';
 import LoadingState from '../components/LoadingState';
 
 // --- LAZY COMPONENTS ---
 const ManualAddTab = React.lazy(() => import('../components/management/questions/ManualAddTab'));
 const ImportTxtTab = React.lazy(() => import('../components/management/questions/ImportTxtTab'));
+const ImportDocumentTab = React.lazy(() => import('../components/management/questions/ImportDocumentTab'));
+const ImportSpreadsheetTab = React.lazy(() => import('../components/management/questions/ImportSpreadsheetTab'));
 const ExportTab = React.lazy(() => import('../components/management/questions/ExportTab'));
 const ImportPromptTab = React.lazy(() => import('../components/management/questions/ImportPromptTab'));
 
@@ -29,10 +36,13 @@ const ExportFlashcardTab = React.lazy(() => import('../components/management/fla
 
 const TopicsView = React.lazy(() => import('../components/management/TopicsView'));
 const SubjectPrioritiesTab = React.lazy(() => import('../components/management/SubjectPrioritiesTab'));
+const ImportHistoryTab = React.lazy(() => import('../components/management/ImportHistoryTab'));
+const DuplicateClustersTab = React.lazy(() => import('../components/management/DuplicateClustersTab'));
+const ContentPacksTab = React.lazy(() => import('../components/management/ContentPacksTab'));
 
 // --- TYPES & DATA ---
 
-type MainSection = 'questions' | 'flashcards' | 'topics';
+type MainSection = 'questions' | 'flashcards' | 'topics' | 'history' | 'packs';
 
 interface AddQuestionViewProps {
   setActiveTab: (tab: TabID) => void;
@@ -98,14 +108,17 @@ const PillNav: React.FC<{
 
 const AddQuestionView: React.FC<AddQuestionViewProps> = ({ setActiveTab }) => {
   const [mainTab, setMainTab] = useState<MainSection>('questions');
-  const [activeQuestionSubTab, setActiveQuestionSubTab] = useState<'manual' | 'txt' | 'ai' | 'export' | 'priorities'>('manual');
-  const [activeFlashcardSubTab, setActiveFlashcardSubTab] = useState<'create' | 'import' | 'export' | 'priorities'>('create');
+  const [activeQuestionSubTab, setActiveQuestionSubTab] = useState<'manual' | 'txt' | 'document' | 'sheet' | 'ai' | 'export' | 'priorities' | 'duplicates'>('manual');
+  const [activeFlashcardSubTab, setActiveFlashcardSubTab] = useState<'create' | 'import' | 'export' | 'priorities' | 'duplicates'>('create');
 
   const questionSubTabs = [
     { id: 'manual', label: 'Manual', icon: <PencilIcon className="w-4 h-4" /> },
     { id: 'ai', label: 'IA Mágica', icon: <SparklesIcon className="w-4 h-4 text-purple-500" /> },
     { id: 'txt', label: 'Lote (.txt)', icon: <UploadIcon className="w-4 h-4" /> },
+    { id: 'document', label: 'Caderno (PDF/DOCX)', icon: <BookOpenIcon className="w-4 h-4" /> },
+    { id: 'sheet', label: 'Planilha (CSV/XLSX)', icon: <TableCellsIcon className="w-4 h-4" /> },
     { id: 'priorities', label: 'Prioridades', icon: <ChartBarIcon className="w-4 h-4" /> },
+    { id: 'duplicates', label: 'Duplicatas', icon: <DocumentDuplicateIcon className="w-4 h-4" /> },
     { id: 'export', label: 'Backup', icon: <DownloadIcon className="w-4 h-4" /> },
   ];
 
@@ -113,6 +126,7 @@ const AddQuestionView: React.FC<AddQuestionViewProps> = ({ setActiveTab }) => {
     { id: 'create', label: 'Novo Card', icon: <PlusIcon className="w-4 h-4" /> },
     { id: 'import', label: 'Importar', icon: <UploadIcon className="w-4 h-4" /> },
     { id: 'priorities', label: 'Prioridades', icon: <ChartBarIcon className="w-4 h-4" /> },
+    { id: 'duplicates', label: 'Duplicatas', icon: <DocumentDuplicateIcon className="w-4 h-4" /> },
     { id: 'export', label: 'Backup', icon: <DownloadIcon className="w-4 h-4" /> },
   ];
 
@@ -126,7 +140,7 @@ const AddQuestionView: React.FC<AddQuestionViewProps> = ({ setActiveTab }) => {
       </div>
 
       {/* Main Navigation Cards */}
-      <div className="grid grid-cols-1 md:grid-cols-3 gap-3 md:gap-4">
+      <div className="grid grid-cols-1 md:grid-cols-5 gap-3 md:gap-4">
         <MainCategoryCard 
           id="questions" 
           label="Questões" 
@@ -154,6 +168,24 @@ const AddQuestionView: React.FC<AddQuestionViewProps> = ({ setActiveTab }) => {
           colorClass="text-amber-500"
           onClick={() => setMainTab('topics')} 
         />
+        <MainCategoryCard 
+          id="history" 
+          label="Importações" 
+          description="Histórico e desfazer lotes."
+          icon={<ClockIcon />} 
+          isActive={mainTab === 'history'} 
+          colorClass="text-violet-500"
+          onClick={() => setMainTab('history')} 
+        />
+        <MainCategoryCard 
+          id="packs" 
+          label="Pacotes" 
+          description="Compartilhe e atualize conteúdo."
+          icon={<ShieldCheckIcon />} 
+          isActive={mainTab === 'packs'} 
+          colorClass="text-rose-500"
+          onClick={() => setMainTab('packs')} 
+        />
       </div>
 
       {/* Content Area */}
@@ -169,9 +201,12 @@ const AddQuestionView: React.FC<AddQuestionViewProps> = ({ setActiveTab }) => {
               <div className="p-2 md:p-4">
                 {activeQuestionSubTab === 'manual' && <ManualAddTab setActiveTab={setActiveTab} />}
                 {activeQuestionSubTab === 'txt' && <ImportTxtTab setActiveTab={setActiveTab} />}
+                {activeQuestionSubTab === 'document' && <ImportDocumentTab setActiveTab={setActiveTab} />}
+                {activeQuestionSubTab === 'sheet' && <ImportSpreadsheetTab setActiveTab={setActiveTab} />}
                 {activeQuestionSubTab === 'ai' && <ImportPromptTab setActiveTab={setActiveTab} />}
                 {activeQuestionSubTab === 'export' && <ExportTab />}
                 {activeQuestionSubTab === 'priorities' && <SubjectPrioritiesTab />}
+                {activeQuestionSubTab === 'duplicates' && <DuplicateClustersTab kind="question" />}
               </div>
             </div>
           )}
@@ -187,10 +222,25 @@ const AddQuestionView: React.FC<AddQuestionViewProps> = ({ setActiveTab }) => {
                 {activeFlashcardSubTab === 'import' && <ImportFlashcardTab />}
                 {activeFlashcardSubTab === 'export' && <ExportFlashcardTab />}
                 {activeFlashcardSubTab === 'priorities' && <SubjectPrioritiesTab />}
+                {activeFlashcardSubTab === 'duplicates' && <DuplicateClustersTab kind="flashcard" />}
               </div>
             </div>
           )}
 
+          {/* Import History */}
+          {mainTab === 'history' && (
+            <div className="p-2 md:p-4">
+                <ImportHistoryTab />
+            </div>
+          )}
+
+          {/* Content Packs */}
+          {mainTab === 'packs' && (
+            <div className="p-2 md:p-4">
+                <ContentPacksTab />
+            </div>
+          )}
+
           {/* Topics Logic */}
           {mainTab === 'topics' && (
             <div className="p-2 md:p-4">
@@ -12,6 +12,7 @@ import InfoModal from '../components/InfoModal';
 import LearningDiagnostics from '../components/LearningDiagnostics';
 import ErrorParetoChart from '../components/ErrorParetoChart';
 import RecoveryPanel from '../components/RecoveryPanel';
+import ExamTargetsPanel from '../components/ExamTargetsPanel';
 import StudySessionModal from '../components/StudySessionModal';
 import InfoTooltip from '../components/InfoTooltip';
 import { filterExecutableItems } from '../services/contentGate'; // Import Gate
@@ -157,6 +158,8 @@ const DashboardView: React.FC = () => {
             </div>
         </div>
 
+        <ExamTargetsPanel questions={activeQuestions} flashcards={activeFlashcards} />
+
         {/* Diagnóstico no Final conforme solicitado */}
         <LearningDiagnostics questions={activeQuestions} settings={settings} />
 
@@ -188,6 +188,7 @@ const ExamModeView: React.FC<ExamModeViewProps> = ({ onExit }) => {
                             wasCorrect: isCorrect,
                             masteryAfter: srsResult.masteryScore!,
                             stabilityAfter: srsResult.stability,
+                            nextReviewDate: srsResult.nextReviewDate,
                             timeSec: Math.round(avgTimePerQuestion),
                             selfEvalLevel: selfEval,
                             timingClass: srsResult.timingClass,
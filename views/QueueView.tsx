@@ -11,6 +11,7 @@ import { Question, TabID } from '../types';
 import StudySessionModal from '../components/StudySessionModal';
 import Pagination from '../components/Pagination';
 import MasteryBadge from '../components/MasteryBadge';
+import { useDueDateShifts } from '../hooks/useDueDateShifts';
 
 interface QueueViewProps {
   setActiveTab: (tab: TabID) => void;
@@ -137,6 +138,20 @@ const QueueView: React.FC<QueueViewProps> = ({ setActiveTab }) => {
 
   }, [questions, settings]);
 
+  // Plano de recuperação: só aparece quando o atraso não cabe no limite de hoje
+  const { planRecovery, applyPlan } = useDueDateShifts();
+  const recoveryPlan = useMemo(
+    () => planRecovery(settings.loadBalancing || { enabled: false, dailyCap: 150, fuzzPercent: 0.05 }),
+    [planRecovery, settings.loadBalancing]
+  );
+
+  const handleApplyRecovery = () => {
+    const last = recoveryPlan.days[recoveryPlan.days.length - 1];
+    if (!window.confirm(`Redistribuir ${recoveryPlan.shifts.length} revisão(ões) atrasada(s) até ${srs.formatISOToBr(`${last.date}T12:00:00`)}? As de maior prioridade ficam para hoje.`)) return;
+    const result = applyPlan(recoveryPlan);
+    alert(`Plano aplicado!\nQuestões: ${result.questions}\nFlashcards: ${result.flashcards}`);
+  };
+
   // Pagination logic
   const questionsPerPage = settings.questionsPerPage;
   const totalPages = Math.ceil(dueQuestions.length / questionsPerPage);
@@ -171,6 +186,26 @@ const QueueView: React.FC<QueueViewProps> = ({ setActiveTab }) => {
           )}
         </div>
 
+        {recoveryPlan.shifts.length > 0 && (
+          <div className="p-4 rounded-lg bg-amber-50 dark:bg-amber-900/10 border border-amber-200 dark:border-amber-800/50 flex flex-col md:flex-row md:items-center justify-between gap-4">
+            <div className="min-w-0">
+              <p className="font-bold text-amber-700 dark:text-amber-400 flex items-center gap-2"><ExclamationTriangleIcon /> {recoveryPlan.overdue} revisões atrasadas</p>
+              <p className="text-sm text-bunker-500 dark:text-bunker-400 mt-1">Plano de recuperação por prioridade (atraso + domínio baixo primeiro):</p>
+              <div className="flex flex-wrap gap-1 mt-2">
+                {recoveryPlan.days.slice(0, 10).map(day => (
+                  <span key={day.date} className="text-[10px] font-bold px-2 py-0.5 rounded-md bg-white dark:bg-bunker-900 border border-amber-200 dark:border-amber-800/50 text-slate-700 dark:text-slate-300" title={`Carga total prevista: ${day.load}`}>
+                    {day.date.split('-').reverse().slice(0, 2).join('/')}: {day.count}
+                  </span>
+                ))}
+                {recoveryPlan.days.length > 10 && <span className="text-[10px] font-bold text-bunker-500 px-1">+{recoveryPlan.days.length - 10} dias</span>}
+              </div>
+            </div>
+            <button onClick={handleApplyRecovery} className="shrink-0 bg-amber-500 text-white font-bold py-2 px-4 rounded-lg shadow-md hover:bg-amber-600 transition-colors">
+              Aplicar Plano
+            </button>
+          </div>
+        )}
+
         {dueQuestions.length > 0 ? (
           <>
             <div className="space-y-3">
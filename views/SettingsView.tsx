@@ -1,5 +1,5 @@
 
-import React, { useState, useRef, useMemo } from 'react';
+import React, { useState, useRef, useMemo, useEffect } from 'react';
 import { useSettings } from '../contexts/SettingsContext';
 import { useQuestionState, useQuestionDispatch } from '../contexts/QuestionContext';
 import { useFlashcardState, useFlashcardDispatch } from '../contexts/FlashcardContext';
@@ -17,11 +17,21 @@ import ConfirmationModal from '../components/ConfirmationModal';
 import AuditView from '../components/AuditView';
 import BatchReportModal from '../components/BatchReportModal';
 import BlackboxReportModal from '../components/BlackboxReportModal'; 
+import BackupRestoreWizard from '../components/BackupRestoreWizard';
+import SrsOptimizerModal from '../components/SrsOptimizerModal';
+import { usePassphrasePrompt } from '../components/PassphraseModal';
+import { requestAppLock } from '../hooks/useAutoLock';
+import { useSchedulerMigration } from '../hooks/useSchedulerMigration';
+import { useDueDateShifts } from '../hooks/useDueDateShifts';
+import { SCHEDULERS } from '../services/scheduler';
+import { encryptBackup, decryptBackup, isEncryptedBackup } from '../services/vaultService';
 import { loadData, saveData, factoryReset } from '../services/storage'; 
 import { backupService } from '../services/backupService'; // NEW IMPORT
+import { getMediaStats, garbageCollectMedia } from '../services/media/mediaStore';
 import * as srs from '../services/srsService';
 import * as doctor from '../services/leiSecaDoctor';
 import { normalizeDiscipline } from '../services/taxonomyService';
+import { LoadBalancingConfig, SrsAlgorithmId } from '../types';
 
 interface SettingsViewProps {
   onOpenQrModal: () => void;
@@ -100,7 +110,7 @@ const ThemeCard: React.FC<{
 );
 
 const SettingsView: React.FC<SettingsViewProps> = ({ onOpenQrModal, onOpenSyncModal }) => {
-  const { settings, updateSettings, systemLogs, clearLogs } = useSettings();
+  const { settings, updateSettings, setPin, systemLogs, clearLogs, logSystemError } = useSettings();
   const questions = useQuestionState();
   const flashcards = useFlashcardState();
   const cards = useLiteralnessState();
@@ -112,11 +122,17 @@ const SettingsView: React.FC<SettingsViewProps> = ({ onOpenQrModal, onOpenSyncMo
   const [showLogs, setShowLogs] = useState(false);
   const [isExporting, setIsExporting] = useState(false);
   const [isMigrating, setIsMigrating] = useState(false);
+  const [mediaStats, setMediaStats] = useState<{ count: number; bytes: number } | null>(null);
   const fileInputRef = useRef<HTMLInputElement>(null);
   const [importPreview, setImportPreview] = useState<any | null>(null);
   
   const [batchReport, setBatchReport] = useState<any>(null);
   const [isBlackboxOpen, setIsBlackboxOpen] = useState(false);
+  const [pinDraft, setPinDraft] = useState<{ pin: string; confirm: string } | null>(null);
+  const { askPassphrase, passphraseModal } = usePassphrasePrompt();
+  const { countPending, runMigration } = useSchedulerMigration();
+  const { planVacation, applyPlan } = useDueDateShifts();
+  const [isOptimizerOpen, setIsOptimizerOpen] = useState(false);
 
   const handleHistoryToggle = (e: React.ChangeEvent<HTMLInputElement>) => {
     updateSettings({ showHistoryAfterAnswer: e.target.checked });
@@ -126,11 +142,34 @@ const SettingsView: React.FC<SettingsViewProps> = ({ onOpenQrModal, onOpenSyncMo
     updateSettings({ enableBlackHoleEffect: e.target.checked });
   };
   
+  const handleSavePin = async () => {
+      if (!pinDraft) return;
+      if (!/^\d{4,8}$/.test(pinDraft.pin)) { alert("O PIN deve ter de 4 a 8 dígitos."); return; }
+      if (pinDraft.pin !== pinDraft.confirm) { alert("Os PINs não conferem."); return; }
+      await setPin(pinDraft.pin);
+      setPinDraft(null);
+      alert("PIN configurado. O app pedirá o PIN ao abrir e após inatividade.");
+  };
+
+  const handleDisablePin = async () => {
+      if (!window.confirm("Desativar o bloqueio por PIN?")) return;
+      await setPin(null);
+  };
+
+  // Criptografa a exportação quando a opção estiver ativa (null = usuário cancelou)
+  const protectExport = async (payload: any): Promise<any | null> => {
+      if (!settings.encryptBackups) return payload;
+      const passphrase = await askPassphrase('encrypt');
+      if (!passphrase) return null;
+      return encryptBackup(payload, passphrase);
+  };
+
   // NEW: Robust Backup
   const handleDownloadBackup = async () => {
       setIsExporting(true);
       try {
-          const backupData = await backupService.createFullBackup();
+          const backupData = await protectExport(await backupService.createFullBackup());
+          if (!backupData) return;
           const blob = new Blob([JSON.stringify(backupData, null, 2)], { type: 'application/json' });
           const url = URL.createObjectURL(blob);
           const link = document.createElement('a');
@@ -154,32 +193,87 @@ const SettingsView: React.FC<SettingsViewProps> = ({ onOpenQrModal, onOpenSyncMo
       }
   };
 
-  const handleFileSelect = (e: React.ChangeEvent<HTMLInputElement>) => {
-      const file = e.target.files?.[0]; if (!file) return;
-      const reader = new FileReader();
-      reader.onload = (event) => {
-          try {
-              const content = event.target?.result as string; 
-              const parsed = JSON.parse(content);
-              
-              // Validate using the Service logic instead of ad-hoc
-              const sim = backupService.simulateRestore(parsed);
-              
-              setImportPreview({ 
-                  meta: parsed.meta || { version: 'Legacy/Desconhecido' }, 
+  const handleDownloadIncremental = async () => {
+      setIsExporting(true);
+      try {
+          const passphrase = settings.encryptBackups ? await askPassphrase('encrypt') : null;
+          if (settings.encryptBackups && !passphrase) return;
+          const { backup, state } = await backupService.createIncrementalBackup();
+          const { kind, sequence, stats } = backup.manifest;
+          const output = passphrase ? await encryptBackup(backup, passphrase) : backup;
+          const blob = new Blob([JSON.stringify(output)], { type: 'application/json' });
+          const url = URL.createObjectURL(blob);
+          const link = document.createElement('a');
+          link.href = url;
+          link.download = `miaaula_backup_${kind === 'FULL' ? 'base' : `inc${String(sequence).padStart(3, '0')}`}_${new Date().toISOString().slice(0, 10)}.json`;
+          document.body.appendChild(link);
+          link.click();
+          document.body.removeChild(link);
+          // Só agora o elo existe fora do app: o próximo incremental pode partir dele
+          await backupService.commitChainState(state);
+          alert(kind === 'FULL'
+              ? `Nova cadeia iniciada (backup base com ${stats.total} registros).`
+              : `Backup incremental #${sequence}: ${stats.upserts} alterado(s), ${stats.removed} removido(s).`);
+      } catch (e) {
+          alert("Erro ao gerar backup incremental.");
+          console.error(e);
+      } finally {
+          setIsExporting(false);
+      }
+  };
+
+  const handleFileSelect = async (e: React.ChangeEvent<HTMLInputElement>) => {
+      const files = Array.from(e.target.files || []) as File[];
+      e.target.value = '';
+      if (files.length === 0) return;
+      try {
+          const rawFiles = await Promise.all(files.map(async file => JSON.parse(await file.text())));
+
+          // Backups criptografados: uma senha para todos os arquivos selecionados
+          let passphrase: string | null = null;
+          if (rawFiles.some(isEncryptedBackup)) {
+              passphrase = await askPassphrase('decrypt');
+              if (!passphrase) return;
+          }
+          const parsedFiles = await Promise.all(rawFiles.map(raw => isEncryptedBackup(raw) ? decryptBackup(raw, passphrase!) : raw));
+          const chainFiles = parsedFiles.filter(backupService.isChainedBackup);
+
+          // Cadeia incremental: base + incrementos selecionados juntos
+          if (chainFiles.length > 0) {
+              const resolution = await backupService.resolveBackupChain(chainFiles);
+              const last = resolution.links[resolution.links.length - 1];
+              const data = { stores: resolution.stores };
+              const sim = backupService.simulateRestore(data);
+              const chainReport = last
+                  ? `Cadeia: ${resolution.links.length} elo(s), até #${last.sequence} (${new Date(last.timestamp).toLocaleString('pt-BR')}).`
+                  : 'Cadeia inválida.';
+              setImportPreview({
+                  meta: { version: 'Cadeia incremental' },
                   stats: sim.stats || {},
-                  valid: sim.valid,
-                  report: sim.report,
-                  data: parsed 
+                  valid: !!last && sim.valid,
+                  report: [chainReport, ...resolution.errors.map(err => `⚠️ ${err}`), '', sim.report].join('\n'),
+                  data
               });
-          } catch (err) { alert("Arquivo inválido."); }
-      };
-      reader.readAsText(file);
+              return;
+          }
+
+          // Validate using the Service logic instead of ad-hoc
+          const parsed = parsedFiles[0];
+          const sim = backupService.simulateRestore(parsed);
+          setImportPreview({ 
+              meta: parsed.meta || { version: 'Legacy/Desconhecido' }, 
+              stats: sim.stats || {},
+              valid: sim.valid,
+              report: sim.report,
+              data: parsed 
+          });
+      } catch (err: any) { alert(err?.message?.includes('Senha') ? err.message : "Arquivo inválido."); }
   };
 
   // NEW: Robust Restore
   const executeRestore = async () => {
       if (!importPreview || !importPreview.valid) return;
+      if (!window.confirm("Esta ação irá APAGAR TODOS os dados atuais e substituir pelo backup. A operação é irreversível. Continuar?")) return;
       try {
           const result = await backupService.restoreFullBackup(importPreview.data);
           alert(result.message);
@@ -194,6 +288,22 @@ const SettingsView: React.FC<SettingsViewProps> = ({ onOpenQrModal, onOpenSyncMo
       window.location.reload();
   };
   
+  useEffect(() => {
+      getMediaStats().then(setMediaStats).catch(e => console.warn('[Media] Falha ao ler estatísticas', e));
+  }, []);
+
+  const handleCleanMedia = async () => {
+      if (!window.confirm("Remove imagens e áudios que nenhuma questão, flashcard, trilha ou histórico de importação usa mais (arquivos das últimas 24h são mantidos). Continuar?")) return;
+      try {
+          const { removed, freedBytes, kept } = await garbageCollectMedia();
+          setMediaStats(await getMediaStats());
+          alert(`Limpeza concluída!\nArquivos removidos: ${removed} (${(freedBytes / 1024 / 1024).toFixed(1)} MB)\nArquivos em uso: ${kept}`);
+      } catch (e) {
+          logSystemError(e, 'Media GC');
+          alert('Falha ao limpar a mídia. Veja os logs do sistema.');
+      }
+  };
+
   const handleNormalizeDisciplines = () => {
       if (!window.confirm("Isso unificará disciplinas semelhantes (ex: 'CTN' -> 'DIREITO TRIBUTÁRIO'). Deseja continuar?")) return;
       const updatedQuestions = [];
@@ -211,6 +321,48 @@ const SettingsView: React.FC<SettingsViewProps> = ({ onOpenQrModal, onOpenSyncMo
       alert(`Migração concluída!\nQuestões atualizadas: ${updatedQuestions.length}\nFlashcards atualizados: ${updatedFlashcards.length}`);
   };
 
+  const handleSchedulerChange = (srsAlgorithm: SrsAlgorithmId) => {
+      const nextSettings = { ...settings, srsAlgorithm };
+      updateSettings({ srsAlgorithm });
+      const pending = countPending(nextSettings);
+      if (pending === 0) return;
+      if (!window.confirm(`Recalcular agora ${pending} item(ns) a partir do histórico de tentativas com ${SCHEDULERS[srsAlgorithm].label}?\nSem isso, cada item migra aos poucos na próxima revisão.`)) return;
+      const result = runMigration(nextSettings);
+      alert(`Agendas recalculadas!\nQuestões: ${result.questions}\nFlashcards: ${result.flashcards}`);
+  };
+
+  const handleRescheduleAll = () => {
+      if (!window.confirm("Recalcular estabilidade, dificuldade e próxima revisão de todos os itens a partir do histórico de tentativas?")) return;
+      const result = runMigration(settings, { force: true });
+      alert(`Agendas recalculadas!\nQuestões: ${result.questions}\nFlashcards: ${result.flashcards}`);
+  };
+
+  const loadBalancing: LoadBalancingConfig = settings.loadBalancing || { enabled: false, dailyCap: 150, fuzzPercent: 0.05, vacation: null };
+  const [vacationDraft, setVacationDraft] = useState({ start: loadBalancing.vacation?.start || '', end: loadBalancing.vacation?.end || '' });
+
+  const updateLoadBalancing = (patch: Partial<LoadBalancingConfig>) => updateSettings({ loadBalancing: { ...loadBalancing, ...patch } });
+
+  const handleApplyVacation = () => {
+      if (!vacationDraft.start || !vacationDraft.end || vacationDraft.end < vacationDraft.start) {
+          alert("Informe o início e o fim das férias.");
+          return;
+      }
+      const config = { ...loadBalancing, vacation: { ...vacationDraft } };
+      const plan = planVacation(config);
+      if (plan.shifts.length > 0) {
+          const last = plan.days[plan.days.length - 1];
+          if (!window.confirm(`${plan.shifts.length} revisão(ões) vencem nas férias e serão redistribuídas até ${srs.formatISOToBr(`${last.date}T12:00:00`)} (pico de ${Math.max(...plan.days.map(d => d.load))}/dia). Continuar?`)) return;
+          applyPlan(plan);
+      }
+      updateSettings({ loadBalancing: config });
+      alert(plan.shifts.length > 0 ? "Férias aplicadas!" : "Férias salvas. Nenhuma revisão vencia no período.");
+  };
+
+  const handleClearVacation = () => {
+      setVacationDraft({ start: '', end: '' });
+      updateLoadBalancing({ vacation: null });
+  };
+
   const handleBatchMigration = async () => {
       if (!window.confirm("Esta operação irá reprocessar todas as questões usando o texto original para recuperar campos ausentes (como Explicação Storytelling, Perfis de Distratores, etc). Isso pode levar alguns instantes. Deseja continuar?")) return;
       setIsMigrating(true);
@@ -306,6 +458,71 @@ const SettingsView: React.FC<SettingsViewProps> = ({ onOpenQrModal, onOpenSyncMo
          </div>
       </SettingsSection>
 
+      <SettingsSection title="Agendamento (SRS)">
+          <SettingsItem
+            icon={<BrainIcon />}
+            label="Algoritmo de Revisão"
+            subLabel={SCHEDULERS[settings.srsAlgorithm || 'legacy'].description}
+            action={
+                <select value={settings.srsAlgorithm || 'legacy'} onChange={e => handleSchedulerChange(e.target.value as SrsAlgorithmId)} onClick={e => e.stopPropagation()} className="bg-bunker-50 dark:bg-bunker-800 border border-bunker-200 dark:border-bunker-700 rounded-lg px-2 py-1.5 text-xs font-bold">
+                    {Object.values(SCHEDULERS).map(s => <option key={s.id} value={s.id}>{s.label}</option>)}
+                </select>
+            }
+          />
+          {(settings.srsAlgorithm === 'fsrs' || Object.values(settings.subjectConfigs || {}).some(c => c.srsAlgorithm === 'fsrs')) && (
+              <SettingsItem
+                icon={<ChartBarIcon />}
+                label="Retenção desejada (FSRS)"
+                subLabel="Maior retenção = revisões mais frequentes"
+                action={
+                    <select value={settings.fsrs?.requestRetention ?? 0.9} onChange={e => updateSettings({ fsrs: { ...settings.fsrs!, requestRetention: Number(e.target.value) } })} onClick={e => e.stopPropagation()} className="bg-bunker-50 dark:bg-bunker-800 border border-bunker-200 dark:border-bunker-700 rounded-lg px-2 py-1.5 text-xs font-bold">
+                        {[0.8, 0.85, 0.9, 0.95].map(r => <option key={r} value={r}>{Math.round(r * 100)}%</option>)}
+                    </select>
+                }
+              />
+          )}
+          <SettingsItem icon={<SparklesIcon />} label="Otimizar Parâmetros (Clássico)" subLabel="Ajusta as constantes srsV2 ao seu histórico de revisões" onClick={() => setIsOptimizerOpen(true)} hasChevron />
+          <SettingsItem icon={<ArrowPathIcon />} label="Recalcular Agendas pelo Histórico" subLabel="Algoritmo por disciplina em Gerenciar > Disciplinas" onClick={handleRescheduleAll} />
+          <div className="p-4 flex items-center justify-between bg-transparent dark:bg-bunker-900">
+            <div className="flex items-center gap-4">
+              <div className="w-10 h-10 rounded-xl flex items-center justify-center bg-sky-50 dark:bg-sky-900/20 text-sky-500"><ScaleIcon className="w-5 h-5" /></div>
+              <div>
+                <p className="font-semibold text-sm text-slate-950 dark:text-slate-200">Balancear Carga</p>
+                <p className="text-xs text-slate-500 dark:text-bunker-500 mt-0.5">Espalha as próximas revisões entre dias vizinhos (±{Math.round(loadBalancing.fuzzPercent * 100)}%) respeitando o limite diário</p>
+              </div>
+            </div>
+            <label className="relative inline-flex items-center cursor-pointer">
+              <input type="checkbox" checked={loadBalancing.enabled} onChange={e => updateLoadBalancing({ enabled: e.target.checked })} className="sr-only peer" />
+              <div className="w-11 h-6 bg-bunker-200 dark:bg-bunker-700 rounded-full peer peer-checked:bg-emerald-500 after:content-[''] after:absolute after:top-0.5 after:left-[2px] after:bg-white after:rounded-full after:h-5 after:w-5 after:transition-all peer-checked:after:translate-x-full"></div>
+            </label>
+          </div>
+          {loadBalancing.enabled && (
+              <>
+                  <SettingsItem
+                    icon={<ListBulletIcon />}
+                    label="Limite Diário de Revisões"
+                    subLabel="0 = sem limite (só o fuzz)"
+                    action={
+                        <input type="number" min={0} max={2000} value={loadBalancing.dailyCap} onChange={e => updateLoadBalancing({ dailyCap: Math.max(0, Number(e.target.value) || 0) })} onClick={e => e.stopPropagation()} className="w-20 bg-bunker-50 dark:bg-bunker-800 border border-bunker-200 dark:border-bunker-700 rounded-lg px-2 py-1.5 text-xs font-bold text-right" />
+                    }
+                  />
+                  <div className="p-4 space-y-3 bg-transparent dark:bg-bunker-900">
+                      <div>
+                          <p className="font-semibold text-sm text-slate-950 dark:text-slate-200">Modo Férias</p>
+                          <p className="text-xs text-slate-500 dark:text-bunker-500 mt-0.5">Nenhuma revisão é agendada no período; o que já vence nele é empurrado para depois da volta.</p>
+                      </div>
+                      <div className="flex flex-wrap items-center gap-2">
+                          <input type="date" value={vacationDraft.start} onChange={e => setVacationDraft(v => ({ ...v, start: e.target.value }))} className="bg-bunker-50 dark:bg-bunker-800 border border-bunker-200 dark:border-bunker-700 rounded-lg px-2 py-1.5 text-xs font-bold" />
+                          <span className="text-xs text-slate-400">até</span>
+                          <input type="date" value={vacationDraft.end} onChange={e => setVacationDraft(v => ({ ...v, end: e.target.value }))} className="bg-bunker-50 dark:bg-bunker-800 border border-bunker-200 dark:border-bunker-700 rounded-lg px-2 py-1.5 text-xs font-bold" />
+                          <button onClick={handleApplyVacation} className="px-3 py-1.5 bg-sky-600 text-white text-xs font-bold rounded-lg hover:bg-sky-500 transition-colors">Aplicar</button>
+                          {loadBalancing.vacation && <button onClick={handleClearVacation} className="px-3 py-1.5 text-xs font-bold text-slate-500 hover:text-rose-500 transition-colors">Encerrar férias</button>}
+                      </div>
+                  </div>
+              </>
+          )}
+      </SettingsSection>
+
       <SettingsSection title="Aparência">
           <div className="p-2 flex gap-2">
             <ThemeCard label="Escuro" icon={<MoonIcon />} active={settings.appTheme === 'dark'} onClick={() => updateSettings({ appTheme: 'dark' })} previewColors="bg-slate-900 border border-slate-700" />
@@ -313,11 +530,60 @@ const SettingsView: React.FC<SettingsViewProps> = ({ onOpenQrModal, onOpenSyncMo
           </div>
       </SettingsSection>
 
+      <SettingsSection title="Segurança">
+          {settings.isPinLockEnabled && settings.pinHash ? (
+              <>
+                  <SettingsItem icon={<LockClosedIcon />} label="Bloqueio por PIN" subLabel="Ativo (PBKDF2 com salt)" action={<button onClick={handleDisablePin} className="text-[10px] font-black text-rose-500">DESATIVAR</button>} />
+                  <SettingsItem
+                      icon={<BellIcon />}
+                      label="Bloqueio automático"
+                      subLabel="Após inatividade"
+                      action={
+                          <select value={settings.autoLockMinutes ?? 5} onChange={e => updateSettings({ autoLockMinutes: Number(e.target.value) })} className="bg-bunker-100 dark:bg-bunker-800 rounded-md p-1.5 text-xs font-bold">
+                              <option value={1}>1 min</option>
+                              <option value={5}>5 min</option>
+                              <option value={15}>15 min</option>
+                              <option value={30}>30 min</option>
+                              <option value={0}>Só ao abrir</option>
+                          </select>
+                      }
+                  />
+                  <SettingsItem icon={<LockClosedIcon />} label="Bloquear agora" subLabel="Antes de sair de um dispositivo compartilhado" onClick={requestAppLock} />
+              </>
+          ) : pinDraft ? (
+              <div className="p-4 space-y-3">
+                  <input type="password" inputMode="numeric" autoComplete="new-password" value={pinDraft.pin} onChange={e => setPinDraft({ ...pinDraft, pin: e.target.value })} placeholder="Novo PIN (4 a 8 dígitos)" className="w-full bg-bunker-50 dark:bg-bunker-800 border border-bunker-200 dark:border-bunker-700 rounded-lg p-2.5 text-sm" />
+                  <input type="password" inputMode="numeric" autoComplete="new-password" value={pinDraft.confirm} onChange={e => setPinDraft({ ...pinDraft, confirm: e.target.value })} placeholder="Confirme o PIN" className="w-full bg-bunker-50 dark:bg-bunker-800 border border-bunker-200 dark:border-bunker-700 rounded-lg p-2.5 text-sm" />
+                  <div className="flex gap-2 justify-end">
+                      <button onClick={() => setPinDraft(null)} className="px-4 py-2 text-xs font-bold text-slate-500">Cancelar</button>
+                      <button onClick={handleSavePin} className="px-4 py-2 text-xs font-bold bg-sky-600 text-white rounded-lg">Salvar PIN</button>
+                  </div>
+              </div>
+          ) : (
+              <SettingsItem icon={<LockClosedIcon />} label="Bloqueio por PIN" subLabel="Protege o app em dispositivos compartilhados" onClick={() => setPinDraft({ pin: '', confirm: '' })} hasChevron />
+          )}
+          <div className="p-4 flex items-center justify-between bg-transparent dark:bg-bunker-900">
+              <div className="flex items-center gap-4">
+                  <div className="w-10 h-10 rounded-xl flex items-center justify-center bg-sky-50 dark:bg-sky-900/20 text-sky-500"><CloudIcon className="w-5 h-5" /></div>
+                  <div>
+                      <p className="font-semibold text-sm text-slate-950 dark:text-slate-200">Criptografar backups</p>
+                      <p className="text-xs text-slate-500 dark:text-bunker-500 mt-0.5">Arquivos e Google Drive protegidos por senha (AES-GCM).</p>
+                  </div>
+              </div>
+              <label className="relative inline-flex items-center cursor-pointer">
+                  <input type="checkbox" checked={settings.encryptBackups ?? false} onChange={e => updateSettings({ encryptBackups: e.target.checked })} className="sr-only peer" />
+                  <div className="w-11 h-6 bg-bunker-200 dark:bg-bunker-700 rounded-full peer peer-checked:bg-emerald-500 after:content-[''] after:absolute after:top-0.5 after:left-[2px] after:bg-white after:rounded-full after:h-5 after:w-5 after:transition-all peer-checked:after:translate-x-full"></div>
+              </label>
+          </div>
+      </SettingsSection>
+
       <SettingsSection title="Seus Dados">
           <SettingsItem icon={isExporting ? <ArrowPathIcon className="w-5 h-5 animate-spin text-sky-500"/> : <DownloadIcon />} label="Exportar Backup Completo" subLabel="Inclui Lei Seca e Progresso" onClick={handleDownloadBackup}/>
-          <SettingsItem icon={<UploadIcon />} label="Restaurar Backup" subLabel="Substitui todos os dados atuais" onClick={() => fileInputRef.current?.click()}/>
+          <SettingsItem icon={<CloudIcon />} label="Backup Incremental" subLabel="Somente o que mudou desde o último (cadeia com checksums)" onClick={handleDownloadIncremental}/>
+          <SettingsItem icon={<UploadIcon />} label="Restaurar Backup" subLabel="Prévia das diferenças e restauração seletiva" onClick={() => fileInputRef.current?.click()}/>
+          <SettingsItem icon={<TrashIcon />} label="Limpar Mídia Não Usada" subLabel={mediaStats ? `${mediaStats.count} arquivos · ${(mediaStats.bytes / 1024 / 1024).toFixed(1)} MB no aparelho` : 'Imagens e áudios sem referência'} onClick={handleCleanMedia} />
           <SettingsItem icon={<BoltIcon />} label="Normalizar Disciplinas" subLabel="Corrigir duplicatas (ex: CTN -> Direito Tributário)" onClick={handleNormalizeDisciplines} />
-          <input type="file" ref={fileInputRef} onChange={handleFileSelect} accept=".json" className="hidden"/>
+          <input type="file" ref={fileInputRef} onChange={handleFileSelect} accept=".json" multiple className="hidden"/>
       </SettingsSection>
 
       <SettingsSection title="Diagnóstico e Logs">
@@ -361,21 +627,14 @@ const SettingsView: React.FC<SettingsViewProps> = ({ onOpenQrModal, onOpenSyncMo
       </div>
 
       {importPreview && (
-          <div className="fixed inset-0 z-[10000] bg-black/70 backdrop-blur-sm flex items-center justify-center p-4">
-              <div className="bg-transparent dark:bg-bunker-950 w-full max-w-md rounded-2xl shadow-2xl p-6 text-center border border-white/10">
-                  <UploadIcon className="w-16 h-16 text-sky-600 mx-auto mb-4" />
-                  <h3 className="text-xl font-bold mb-2 text-slate-950 dark:text-white">Confirmar Restauração?</h3>
-                  <div className="bg-white/5 p-3 rounded-xl mb-4 text-xs text-left space-y-1 overflow-y-auto max-h-48">
-                      {importPreview.valid ? (
-                          <pre className="whitespace-pre-wrap font-sans text-slate-400">{importPreview.report}</pre>
-                      ) : (
-                          <p className="text-rose-400 font-bold">{importPreview.report}</p>
-                      )}
-                  </div>
-                  <p className="text-sm text-slate-600 dark:text-slate-400 mb-6">Esta ação irá <strong>APAGAR TODOS</strong> os dados atuais e substituir pelo backup. A operação é irreversível.</p>
-                  <div className="flex gap-3"><button onClick={() => setImportPreview(null)} className="flex-1 py-3 text-slate-500 font-bold hover:bg-slate-100 dark:hover:bg-white/5 rounded-xl transition-all">Cancelar</button><button onClick={executeRestore} disabled={!importPreview.valid} className="flex-1 py-3 bg-sky-600 text-white font-bold rounded-xl shadow-lg hover:bg-sky-500 active:scale-95 transition-all disabled:opacity-50 disabled:cursor-not-allowed">Restaurar e Limpar</button></div>
-              </div>
-          </div>
+          <BackupRestoreWizard
+              isOpen={!!importPreview}
+              backupData={importPreview.data}
+              report={importPreview.report}
+              valid={importPreview.valid}
+              onClose={() => setImportPreview(null)}
+              onFullRestore={executeRestore}
+          />
       )}
       
       <ConfirmationModal isOpen={isConfirmModalOpen} onClose={() => setIsConfirmModalOpen(false)} onConfirm={handleFactoryReset} title="Zerar Tudo?">
@@ -389,6 +648,8 @@ const SettingsView: React.FC<SettingsViewProps> = ({ onOpenQrModal, onOpenSyncMo
           <BatchReportModal isOpen={!!batchReport} onClose={() => setBatchReport(null)} report={batchReport} />
       )}
       <BlackboxReportModal isOpen={isBlackboxOpen} onClose={() => setIsBlackboxOpen(false)} />
+      <SrsOptimizerModal isOpen={isOptimizerOpen} onClose={() => setIsOptimizerOpen(false)} />
+      {passphraseModal}
     </div>
   );
 };
@@ -3,9 +3,11 @@ import React, { useState, useMemo } from 'react';
 import { BuildStudyQueueResult, Question, StudyMode, StudyRef } from '../types';
 import { useSettings } from '../contexts/SettingsContext';
 import { useQuestionState } from '../contexts/QuestionContext';
+import { useFlashcardState } from '../contexts/FlashcardContext';
 import { buildStudyQueue } from '../services/queueBuilder';
 import QueueFilters from '../components/QueueFilters';
 import StudyScheduler from '../components/StudyScheduler';
+import ReviewForecastPanel from '../components/ReviewForecastPanel';
 import StudySessionModal from '../components/StudySessionModal';
 import { 
     ChevronDownIcon, 
@@ -25,6 +27,7 @@ interface StudyViewProps {
 
 const StudyView: React.FC<StudyViewProps> = ({ onStudyRefNavigate }) => {
     const allQuestions = useQuestionState();
+    const allFlashcards = useFlashcardState();
     const { settings, logDailyActivity } = useSettings();
     
     // Core State
@@ -193,6 +196,9 @@ const StudyView: React.FC<StudyViewProps> = ({ onStudyRefNavigate }) => {
                         setScheduledSession({ title, questions });
                     }}
                 />
+
+                {/* 5. Forecast */}
+                <ReviewForecastPanel questions={allQuestions} flashcards={allFlashcards} />
             </div>
 
             {/* Modals */}
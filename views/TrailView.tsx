@@ -18,6 +18,9 @@ import ConfirmationModal from '../components/ConfirmationModal';
 import ImportReportModal from '../components/trail/ImportReportModal';
 import * as srs from '../services/srsService';
 import { generateImportReport, sanitizeLessonNode } from '../services/trailImportService'; 
+import { applyImportDecisions, recordImportDecisions } from '../services/import/importDiff';
+import { traceService } from '../services/traceService';
+import { recordImportBatch } from '../services/import/importHistory';
 import * as idGen from '../services/idGenerator'; 
 import { normalizeDiscipline } from '../services/taxonomyService'; 
 
@@ -302,6 +305,14 @@ const LessonStatusBadge: React.FC<{ overdue: number, nextDate: string | null, ma
     );
 };
 
+// Aplica a revisão do dry-run ao staging e registra o log de decisões no relatório
+const resolveReviewedImport = (report: ImportReport, staging: ImportStagingData, rejected: Set<string>) => {
+    if (!report.dryRun) return { report, staging };
+    const decided = recordImportDecisions(report, report.dryRun, rejected);
+    traceService.trace('IMPORT_DECISIONS', 'IMPORT', decided.importId, { decisions: decided.decisions });
+    return { report: decided, staging: applyImportDecisions(staging, rejected) };
+};
+
 // --- UPDATED InlineImportPanel ---
 const InlineImportPanel: React.FC<{
     lesson: LessonNode;
@@ -310,7 +321,7 @@ const InlineImportPanel: React.FC<{
     allFlashcards: Flashcard[];
     settings: AppSettings;
     onAnalyze: (json: string, existingQuestions: Question[], existingCards: LiteralnessCard[], existingFlashcards: Flashcard[], settings: AppSettings, targetLesson: { subjectId: string, title: string, uid?: string }) => { report: ImportReport, staging: ImportStagingData | null };
-    onCommit: (staging: ImportStagingData) => void;
+    onCommit: (staging: ImportStagingData, batchId: string) => void;
     onClose: () => void;
 }> = ({ lesson, allQuestions, allCards, allFlashcards, settings, onAnalyze, onCommit, onClose }) => {
     const [json, setJson] = useState('');
@@ -337,9 +348,9 @@ const InlineImportPanel: React.FC<{
         }
     };
 
-    const handleCommit = () => {
-        if (staging) {
-            onCommit(staging);
+    const handleCommit = (rejected: Set<string>) => {
+        if (staging && report) {
+            onCommit(resolveReviewedImport(report, staging, rejected).staging, report.importId);
             onClose();
         }
     };
@@ -473,13 +484,18 @@ const TrailView: React.FC<TrailViewProps> = ({ activeStudyRef }) => {
     };
 
     // --- NEW IMPORT HANDLER ---
-    const handleCommitImport = (stagingData: ImportStagingData, targetLesson?: LessonNode) => {
-        // 1. Commit Data to Stores
+    const handleCommitImport = (stagingData: ImportStagingData, batchId: string, targetLesson?: LessonNode) => {
         // IMPORTANT: Enforce scope='TRILHA' to isolate from Lei Seca view
-        if (stagingData.cards.length > 0) {
-            const scopedCards = stagingData.cards.map(c => ({ ...c, scope: 'TRILHA' as const }));
-            addBatchCards(scopedCards, [], [], stagingData.gaps);
-        }
+        const scopedCards = stagingData.cards.map(c => ({ ...c, scope: 'TRILHA' as const }));
+
+        // 0. Snapshot do que será sobrescrito (rollback pelo histórico de importações)
+        recordImportBatch(
+            { batchId, source: 'TRILHA', label: targetLesson ? targetLesson.title : `${stagingData.cards.length} aula(s)`, mode: 'MERGE', questions: stagingData.questions, flashcards: stagingData.flashcards, cards: scopedCards },
+            { questions: allQuestions, flashcards: allFlashcards, cards: allCards }
+        );
+
+        // 1. Commit Data to Stores
+        if (scopedCards.length > 0) addBatchCards(scopedCards, [], [], stagingData.gaps);
         
         if (stagingData.questions.length > 0) addBatchQuestions(stagingData.questions, 'MERGE'); // FIXED: MERGE instead of default SKIP
         if (stagingData.flashcards.length > 0) addBatchFlashcards(stagingData.flashcards);
@@ -531,11 +547,12 @@ const TrailView: React.FC<TrailViewProps> = ({ activeStudyRef }) => {
     };
     
     // --- FIX: SANITIZE & SPLIT LOGIC ---
-    const handleMassCommit = () => {
-        if (!staging) return;
+    const handleMassCommit = (rejected: Set<string>) => {
+        if (!staging || !report) return;
+        const reviewed = resolveReviewedImport(report, staging, rejected).staging;
         
         // 1. Commit Content (Heavy) to Stores
-        handleCommitImport(staging); // Saves questions/cards/etc but DOES NOT save LessonNodes
+        handleCommitImport(reviewed, report.importId); // Saves questions/cards/etc but DOES NOT save LessonNodes
         
         // 2. Create Clean LessonNodes
         // Priority: Use Staged Lessons (Text Parser) > Fallback to JSON Parsing
@@ -548,8 +565,8 @@ const TrailView: React.FC<TrailViewProps> = ({ activeStudyRef }) => {
                  
                  items.forEach((item: any, idx: number) => {
                      if (item.subjectId && item.title) {
-                         const lessonQuestions = staging.questions.filter(q => (q as any)._moduleIndex === idx);
-                         const lessonFlashcards = staging.flashcards.filter(f => (f as any)._moduleIndex === idx);
+                         const lessonQuestions = reviewed.questions.filter(q => (q as any)._moduleIndex === idx);
+                         const lessonFlashcards = reviewed.flashcards.filter(f => (f as any)._moduleIndex === idx);
                          
                          const cleanLesson = sanitizeLessonNode(item, {
                             questions: lessonQuestions.map(q => q.id),
@@ -737,7 +754,7 @@ const TrailView: React.FC<TrailViewProps> = ({ activeStudyRef }) => {
                                                                     allFlashcards={allFlashcards}
                                                                     settings={settings}
                                                                     onAnalyze={generateImportReport}
-                                                                    onCommit={(data) => handleCommitImport(data, lesson)}
+                                                                    onCommit={(data, batchId) => handleCommitImport(data, batchId, lesson)}
                                                                     onClose={() => setImportTargetId(null)}
                                                                 />
                                                             )}
@@ -3,7 +3,8 @@ import React, { useMemo, useState, useRef, useEffect, useCallback } from 'react'
 import { useQuestionState } from '../contexts/QuestionContext';
 import { useLiteralnessState } from '../contexts/LiteralnessContext';
 import { useSettings } from '../contexts/SettingsContext';
-import { analyzeTrapscan, TrapType, TRAP_REQ_DEFS } from '../services/trapscanService';
+import { analyzeTrapscan, TrapType, TRAP_REQ_DEFS, evaluateTrapscanClassifier, TrapscanClassifierEvaluation, TrapscanSuggestionMethodStats } from '../services/trapscanService';
+import { MIN_TRAINING_EXAMPLES } from '../services/trapscanClassifier';
 import * as srs from '../services/srsService';
 import { RadarIcon, TargetIcon, BoltIcon, ExclamationTriangleIcon, ChartBarIcon, MapIcon, ChevronRightIcon, FilterIcon, CheckCircleIcon, ClockIcon, PlayIcon, XMarkIcon, ChevronDownIcon, ChevronUpIcon, FireIcon, LightBulbIcon, TrashIcon, SearchIcon } from '../components/icons';
 import StudySessionModal from '../components/StudySessionModal';
@@ -437,6 +438,73 @@ const DevelopmentGuide: React.FC<{
     );
 };
 
+const pct = (value: number | null) => (value === null ? '—' : `${Math.round(value * 100)}%`);
+
+const SuggestionReliability: React.FC<{ evaluation: TrapscanClassifierEvaluation }> = ({ evaluation }) => {
+    const methods: { key: 'rules' | 'model' | 'blended'; label: string; stats: TrapscanSuggestionMethodStats }[] = [
+        { key: 'rules', label: 'Regras', stats: evaluation.rules },
+        { key: 'model', label: 'Modelo', stats: evaluation.model },
+        { key: 'blended', label: 'Combinado', stats: evaluation.blended },
+    ];
+    const trained = evaluation.trapExamples >= MIN_TRAINING_EXAMPLES;
+
+    return (
+        <div className="bg-slate-900/40 border border-white/5 rounded-3xl p-6">
+            <div className="flex items-center justify-between mb-1">
+                <h4 className="text-xs font-black text-slate-500 uppercase tracking-widest">Confiabilidade das Sugestões</h4>
+                <InfoTooltip text={`Validação cruzada em ${evaluation.folds} partes: cada questão é prevista por um modelo que não a viu. Rótulo = eixo do guia ou o que você marcou no P2.`} />
+            </div>
+            <p className="text-[10px] text-slate-500 mb-4">{evaluation.trapExamples} questões rotuladas (P2) • {evaluation.commandAccuracy.examples} com comando (P1)</p>
+
+            {!trained ? (
+                <p className="text-xs text-slate-400 bg-black/20 rounded-xl p-4 border border-white/5">
+                    O modelo treina a partir de {MIN_TRAINING_EXAMPLES} questões rotuladas. Até lá, as sugestões vêm só das regras.
+                </p>
+            ) : (
+                <>
+                    <div className="grid grid-cols-3 gap-2 mb-4">
+                        {methods.map(m => (
+                            <div key={m.key} className="bg-black/20 rounded-xl p-3 border border-white/5 text-center">
+                                <span className="block text-[9px] font-black text-slate-500 uppercase tracking-widest">{m.label}</span>
+                                <span className="text-xl font-black text-white">{pct(m.stats.accuracy)}</span>
+                            </div>
+                        ))}
+                    </div>
+
+                    <div className="overflow-x-auto custom-scrollbar">
+                        <table className="w-full text-[10px]">
+                            <thead>
+                                <tr className="text-slate-500 uppercase tracking-widest">
+                                    <th className="text-left font-black py-1">Eixo</th>
+                                    <th className="text-right font-black py-1">Amostra</th>
+                                    {methods.map(m => <th key={m.key} className="text-right font-black py-1">{m.label} P / R</th>)}
+                                </tr>
+                            </thead>
+                            <tbody>
+                                {evaluation.blended.byAxis.map((row, i) => (
+                                    <tr key={row.axis} className="border-t border-white/5">
+                                        <td className="py-1.5 font-bold text-white">{row.axis} <span className="text-slate-500 font-medium">{TRAP_REQ_DEFS[row.axis]?.label}</span></td>
+                                        <td className="py-1.5 text-right text-slate-400">{row.support}</td>
+                                        {methods.map(m => (
+                                            <td key={m.key} className="py-1.5 text-right font-mono text-slate-300">
+                                                {pct(m.stats.byAxis[i].precision)} / {pct(m.stats.byAxis[i].recall)}
+                                            </td>
+                                        ))}
+                                    </tr>
+                                ))}
+                            </tbody>
+                        </table>
+                    </div>
+
+                    <p className="text-[10px] text-slate-500 mt-4">
+                        Comando (P1): regras {pct(evaluation.commandAccuracy.rules)} • combinado {pct(evaluation.commandAccuracy.blended)}
+                    </p>
+                </>
+            )}
+        </div>
+    );
+};
+
 // --- MAIN VIEW ---
 
 const TrapscanView: React.FC = () => {
@@ -498,6 +566,9 @@ const TrapscanView: React.FC = () => {
         return analyzeTrapscan(filteredData.qs, filteredData.cs, settings, period);
     }, [filteredData, settings, period]);
 
+    // O modelo é global (todas as disciplinas), então a avaliação também
+    const classifierEvaluation = useMemo(() => evaluateTrapscanClassifier(questions), [questions]);
+
     // --- SESSION HANDLER ---
     const [activeSession, setActiveSession] = useState<{ title: string; questions: Question[] } | null>(null);
     const [tooltip, setTooltip] = useState<{ signal: TrapSignal, x: number, y: number } | null>(null);
@@ -665,6 +736,8 @@ const TrapscanView: React.FC = () => {
                         vulnerabilities={report.vulnerabilities}
                     />
 
+                    <SuggestionReliability evaluation={classifierEvaluation} />
+
                     {/* Critical Nuclei List */}
                     <div className="bg-slate-900/40 border border-white/5 rounded-[2.5rem] p-6">
                         <div className="flex items-center justify-between mb-4">
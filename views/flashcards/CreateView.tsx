@@ -4,6 +4,8 @@ import { useFlashcardState, useFlashcardDispatch } from '../../contexts/Flashcar
 import { useSettings } from '../../contexts/SettingsContext';
 import { Flashcard } from '../../types';
 import { ChevronDownIcon } from '../../components/icons';
+import { syncFlashcardIndex, flashcardSegments } from '../../services/dedup/similarityIndex';
+import { DEFAULT_DUPLICATE_THRESHOLD } from '../../services/dedup/duplicateClusters';
 import * as srs from '../../services/srsService';
 import DuplicateDetectorPanel from '../../components/DuplicateDetectorPanel';
 import FlashcardStudySessionModal from '../../components/FlashcardStudySessionModal';
@@ -54,19 +56,21 @@ const CreateView: React.FC = () => {
 
             allFlashcards.forEach(fc => {
                 if (ignoredIds.has(fc.id)) return;
-                
-                const fcFront = srs.normalizeTextForDedup(fc.front);
-                const fcBack = srs.normalizeTextForDedup(fc.back);
-                
-                if (fcFront === currentFront) {
-                    if (fcBack === currentBack) {
-                        results.push({ id: fc.id, reason: 'EXACT', item: fc });
-                    } else {
-                        results.push({ id: fc.id, reason: 'NEAR', item: fc });
-                    }
-                }
+                if (srs.normalizeTextForDedup(fc.front) !== currentFront) return;
+                const reason = srs.normalizeTextForDedup(fc.back) === currentBack ? 'EXACT' : 'NEAR';
+                results.push({ id: fc.id, reason, item: fc });
             });
 
+            // Quase-duplicatas com frente diferente vêm do índice de similaridade
+            const found = new Set(results.map(r => r.id));
+            const byId = new Map(allFlashcards.map(fc => [fc.id, fc]));
+            syncFlashcardIndex(allFlashcards, 'flashcard')
+                .query(flashcardSegments(form), DEFAULT_DUPLICATE_THRESHOLD)
+                .forEach(({ id }) => {
+                    const fc = byId.get(id);
+                    if (fc && !found.has(id) && !ignoredIds.has(id)) results.push({ id, reason: 'NEAR', item: fc });
+                });
+
             setDuplicates(results);
             setIsDetecting(false);
         };
@@ -2,8 +2,10 @@
 
 import React, { useState } from 'react';
 import { useFlashcardDispatch, useFlashcardState } from '../../contexts/FlashcardContext';
+import { createImportBatchId, recordImportBatch } from '../../services/import/importHistory';
 import { useSettings } from '../../contexts/SettingsContext';
 import { Flashcard } from '../../types';
+import AnkiImportPanel from '../../components/management/flashcards/AnkiImportPanel';
 
 interface ParsedResult {
     newCards: Flashcard[];
@@ -95,7 +97,10 @@ const ImportView: React.FC = () => {
             return;
         }
 
-        addBatchFlashcards(analysis.newCards);
+        const batchId = createImportBatchId('FLASHCARDS_TXT');
+        const batch = analysis.newCards.map(f => ({ ...f, importBatchId: batchId }));
+        recordImportBatch({ batchId, source: 'FLASHCARDS_TXT', label: `${batch.length} flashcard(s)`, mode: 'SKIP', flashcards: batch }, { flashcards: allFlashcards });
+        addBatchFlashcards(batch);
         
         let msg = `${analysis.newCards.length} flashcards importados com sucesso!`;
         if (analysis.duplicates.length > 0) {
@@ -119,50 +124,53 @@ FC_REF:po-responsabilidade;DISCIPLINE:Scrum;FRONT:Quem gerencia o Product Backlo
 `.trim();
 
     return (
-        <div className="max-w-3xl mx-auto space-y-6 p-6 bg-bunker-100 dark:bg-bunker-900 rounded-lg">
-            <h3 className="font-bold text-lg">Importar Flashcards em Lote (.txt)</h3>
-            <p className="text-sm text-bunker-500 dark:text-bunker-400">
-                Cole o conteúdo do seu arquivo .txt. Cada linha é um flashcard. Use o formato <code>CHAVE:valor;</code>.
-                <br/>Campos <strong>obrigatórios</strong>: <code>FC_REF</code> (ID único), <code>DISCIPLINE</code>, <code>FRONT</code>, <code>BACK</code>.
-            </p>
-            <pre className="text-xs p-3 bg-bunker-50 dark:bg-bunker-800 rounded-md overflow-x-auto whitespace-pre-wrap"><code>{example}</code></pre>
-            <textarea
-                value={text}
-                onChange={(e) => setText(e.target.value)}
-                rows={10}
-                placeholder="Cole o conteúdo aqui..."
-                className="w-full font-mono text-xs bg-bunker-50 dark:bg-bunker-800 border border-bunker-200 dark:border-bunker-700 rounded-md p-2"
-            />
-            <div className="flex justify-end gap-4">
-                <button onClick={handleParse} className="bg-sky-500/20 text-sky-700 dark:text-sky-300 font-bold py-2 px-4 rounded-lg hover:bg-sky-500/30">Analisar</button>
-            </div>
+        <div className="space-y-6">
+            <div className="max-w-3xl mx-auto space-y-6 p-6 bg-bunker-100 dark:bg-bunker-900 rounded-lg">
+                <h3 className="font-bold text-lg">Importar Flashcards em Lote (.txt)</h3>
+                <p className="text-sm text-bunker-500 dark:text-bunker-400">
+                    Cole o conteúdo do seu arquivo .txt. Cada linha é um flashcard. Use o formato <code>CHAVE:valor;</code>.
+                    <br/>Campos <strong>obrigatórios</strong>: <code>FC_REF</code> (ID único), <code>DISCIPLINE</code>, <code>FRONT</code>, <code>BACK</code>.
+                </p>
+                <pre className="text-xs p-3 bg-bunker-50 dark:bg-bunker-800 rounded-md overflow-x-auto whitespace-pre-wrap"><code>{example}</code></pre>
+                <textarea
+                    value={text}
+                    onChange={(e) => setText(e.target.value)}
+                    rows={10}
+                    placeholder="Cole o conteúdo aqui..."
+                    className="w-full font-mono text-xs bg-bunker-50 dark:bg-bunker-800 border border-bunker-200 dark:border-bunker-700 rounded-md p-2"
+                />
+                <div className="flex justify-end gap-4">
+                    <button onClick={handleParse} className="bg-sky-500/20 text-sky-700 dark:text-sky-300 font-bold py-2 px-4 rounded-lg hover:bg-sky-500/30">Analisar</button>
+                </div>
             
-            {analysis && (
-                <div className="p-4 bg-bunker-50 dark:bg-bunker-800/50 rounded-lg space-y-4 animate-fade-in">
-                    <h4 className="font-bold text-lg">Análise da Importação</h4>
-                    {analysis.errors.length > 0 && (
-                        <div className="p-3 bg-red-500/10 rounded-md">
-                            <h5 className="font-bold text-red-500 mb-2">{analysis.errors.length} Erro(s) Encontrado(s):</h5>
-                            <ul className="list-disc list-inside text-sm text-red-600 dark:text-red-400 space-y-2 max-h-48 overflow-y-auto">
-                                {analysis.errors.map((e, i) => <li key={i}><strong>Linha {e.line}:</strong> {e.message}</li>)}
-                            </ul>
+                {analysis && (
+                    <div className="p-4 bg-bunker-50 dark:bg-bunker-800/50 rounded-lg space-y-4 animate-fade-in">
+                        <h4 className="font-bold text-lg">Análise da Importação</h4>
+                        {analysis.errors.length > 0 && (
+                            <div className="p-3 bg-red-500/10 rounded-md">
+                                <h5 className="font-bold text-red-500 mb-2">{analysis.errors.length} Erro(s) Encontrado(s):</h5>
+                                <ul className="list-disc list-inside text-sm text-red-600 dark:text-red-400 space-y-2 max-h-48 overflow-y-auto">
+                                    {analysis.errors.map((e, i) => <li key={i}><strong>Linha {e.line}:</strong> {e.message}</li>)}
+                                </ul>
+                            </div>
+                        )}
+                        <div className="p-3 bg-emerald-500/10 rounded-md text-emerald-700 dark:text-emerald-300">
+                            <p><strong>{analysis.newCards.length}</strong> novo(s) flashcard(s) para importar.</p>
                         </div>
-                    )}
-                    <div className="p-3 bg-emerald-500/10 rounded-md text-emerald-700 dark:text-emerald-300">
-                        <p><strong>{analysis.newCards.length}</strong> novo(s) flashcard(s) para importar.</p>
-                    </div>
-                     {analysis.duplicates.length > 0 && (
-                        <div className="p-3 bg-amber-500/10 rounded-md text-amber-700 dark:text-amber-300">
-                            <p><strong>{analysis.duplicates.length}</strong> flashcard(s) duplicados (mesmo FC_REF) foram encontrados e serão ignorados.</p>
+                         {analysis.duplicates.length > 0 && (
+                            <div className="p-3 bg-amber-500/10 rounded-md text-amber-700 dark:text-amber-300">
+                                <p><strong>{analysis.duplicates.length}</strong> flashcard(s) duplicados (mesmo FC_REF) foram encontrados e serão ignorados.</p>
+                            </div>
+                        )}
+                        <div className="flex justify-end">
+                            <button onClick={handleImport} disabled={analysis.newCards.length === 0} className="bg-emerald-500 text-white font-bold py-2 px-6 rounded-lg shadow-md hover:bg-emerald-600 disabled:opacity-50">
+                                Importar ({analysis.newCards.length})
+                            </button>
                         </div>
-                    )}
-                    <div className="flex justify-end">
-                        <button onClick={handleImport} disabled={analysis.newCards.length === 0} className="bg-emerald-500 text-white font-bold py-2 px-6 rounded-lg shadow-md hover:bg-emerald-600 disabled:opacity-50">
-                            Importar ({analysis.newCards.length})
-                        </button>
                     </div>
-                </div>
-            )}
+                )}
+            </div>
+            <AnkiImportPanel />
         </div>
     );
 };